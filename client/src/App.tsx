@@ -8,7 +8,9 @@ import NetworkBooster from "@/pages/NetworkBooster";
 import GPUTuner from "@/pages/GPUTuner";
 import FortniteOptimizer from "@/pages/FortniteOptimizer";
 import Settings from "@/pages/Settings";
+import Alerts from "@/pages/Alerts";
 import LoginSignup from "@/components/LoginSignup";
+import { AlertNotifier } from "@/components/AlertNotifier";
 import NotFound from "@/pages/not-found";
 
 function AuthenticatedRouter() {
@@ -32,15 +34,19 @@ function AuthenticatedRouter() {
   }
 
   return (
-    <Switch>
-      <Route path="/" component={Dashboard} />
-      <Route path="/system" component={SystemOptimizer} />
-      <Route path="/network" component={NetworkBooster} />
-      <Route path="/gpu" component={GPUTuner} />
-      <Route path="/fortnite" component={FortniteOptimizer} />
-      <Route path="/settings" component={Settings} />
-      <Route component={NotFound} />
-    </Switch>
+    <>
+      <AlertNotifier />
+      <Switch>
+        <Route path="/" component={Dashboard} />
+        <Route path="/system" component={SystemOptimizer} />
+        <Route path="/network" component={NetworkBooster} />
+        <Route path="/gpu" component={GPUTuner} />
+        <Route path="/fortnite" component={FortniteOptimizer} />
+        <Route path="/alerts" component={Alerts} />
+        <Route path="/settings" component={Settings} />
+        <Route component={NotFound} />
+      </Switch>
+    </>
   );
 }
 
@@ -0,0 +1,30 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useRealtimeConnection, useRealtimeMessage, useRealtimeTopics } from "@/hooks/useWebSocket";
+
+// Mounted once for the logged-in user so alerts pop up on every page
+export function AlertNotifier() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useRealtimeConnection();
+  useRealtimeTopics(['alerts']);
+  useRealtimeMessage('alert', ({ event, alert }) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/alerts'] });
+
+    if (event === 'triggered') {
+      toast({
+        title: alert.severity === 'critical' ? `Critical: ${alert.ruleName}` : alert.ruleName,
+        description: alert.message,
+        variant: alert.severity === 'critical' ? 'destructive' : 'default',
+      });
+    } else {
+      toast({
+        title: `Resolved: ${alert.ruleName}`,
+        description: `Back to normal after peaking at ${Math.round(alert.peakValue * 10) / 10}`,
+      });
+    }
+  });
+
+  return null;
+}
@@ -4,82 +4,71 @@ import { Slider } from "@/components/ui/slider";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
+import { useGpuAgent } from "@/hooks/useGpuAgent";
+import { tuningOutcomeToast, useGpuTuning } from "@/hooks/useGpuTuning";
 import { cn } from "@/lib/utils";
+import type { GpuSettings } from "@shared/gpuAgent";
+import { amdPresetSettings, type AmdPreset } from "@shared/gpuPresets";
+import { raisesClocksOrPower } from "@shared/gpuTuning";
+import GpuTuningConfirm from "@/components/GpuTuningConfirm";
 
-interface AmdGpuStats {
-  name: string;
-  temperature: number;
-  usage: number;
-  memoryUsage: number;
-  coreClock: number;
-  memoryClock: number;
-  fanRpm: number;
-  driverVersion: string;
-  powerConsumption: number;
-}
+const reading = (value: number | null | undefined, unit: string) =>
+  value == null ? "—" : `${Math.round(value)}${unit}`;
 
-export default function AmdGpuPanel() {
-  const [stats, setStats] = useState<AmdGpuStats>({
-    name: "AMD Radeon RX 7800 XT",
-    temperature: 68,
-    usage: 45,
-    memoryUsage: 4200,
-    coreClock: 2100,
-    memoryClock: 1950,
-    fanRpm: 1850,
-    driverVersion: "Adrenalin 24.1.1",
-    powerConsumption: 180,
-  });
+const describeSettings = (settings: GpuSettings) => [
+  settings.powerLimit != null && `Power limit ${settings.powerLimit}W`,
+  settings.performanceLevel && `${settings.performanceLevel} clocks`,
+].filter(Boolean).join(", ");
 
+export default function AmdGpuPanel() {
   const [settings, setSettings] = useState({
     fpsCapEnabled: false,
     fpsCap: 144,
     fanSpeed: 50,
-    powerLimit: 100,
+    powerLimit: 0,
     antiLagEnabled: false,
     imageSharpeningEnabled: false,
   });
 
   const [status, setStatus] = useState("");
-  const [isConnected, setIsConnected] = useState(false);
 
   const { toast } = useToast();
 
-  // Simulate real-time AMD GPU stats
-  useEffect(() => {
-    let mounted = true;
-    
-    const fetchStats = async () => {
-      try {
-        // Simulate API call to AMD agent
-        await new Promise(resolve => setTimeout(resolve, 100));
-        
-        if (mounted) {
-          setStats(prev => ({
-            ...prev,
-            temperature: Math.max(45, Math.min(85, prev.temperature + (Math.random() - 0.5) * 3)),
-            usage: Math.max(0, Math.min(100, prev.usage + (Math.random() - 0.5) * 12)),
-            memoryUsage: Math.max(1000, Math.min(8000, prev.memoryUsage + (Math.random() - 0.5) * 200)),
-            fanRpm: Math.max(800, Math.min(3000, prev.fanRpm + (Math.random() - 0.5) * 100)),
-            powerConsumption: Math.max(50, Math.min(300, prev.powerConsumption + (Math.random() - 0.5) * 20)),
-          }));
-          setIsConnected(true);
-        }
-      } catch (e) {
-        if (mounted) {
-          setIsConnected(false);
-        }
-      }
-    };
+  const gpu = useGpuAgent("amd", {
+    onEvent: (event) => {
+      toast({ title: "GPU Driver Event", description: event.message, variant: "destructive" });
+    },
+    onError: (message) => {
+      setStatus(message);
+      toast({ title: "AMD GPU Error", description: message, variant: "destructive" });
+    },
+  });
+  const tuning = useGpuTuning(gpu.device, {
+    onFinished: (attempt) => {
+      setStatus(attempt.status === "confirmed" ? "New settings kept." : "Previous settings restored.");
+      const outcome = tuningOutcomeToast(attempt);
+      if (outcome) toast(outcome);
+    },
+    onError: (message) => {
+      setStatus(message);
+      toast({ title: "AMD GPU Error", description: message, variant: "destructive" });
+    },
+  });
+  const busy = gpu.isPending || tuning.isPending || tuning.active;
+  const stats = gpu.telemetry;
+  const fanRange = gpu.device?.capabilities.controls.fanSpeed;
+  const powerRange = gpu.device?.capabilities.controls.powerLimit;
+  const isConnected = !!gpu.device;
 
-    fetchStats();
-    const interval = setInterval(fetchStats, 2000);
-    
-    return () => {
-      mounted = false;
-      clearInterval(interval);
-    };
-  }, []);
+  // Sliders start from what the card runs at now
+  useEffect(() => {
+    if (!gpu.settings) return;
+    setSettings(prev => ({
+      ...prev,
+      fanSpeed: gpu.settings?.fanSpeed ?? stats?.fanSpeed ?? prev.fanSpeed,
+      powerLimit: gpu.settings?.powerLimit ?? prev.powerLimit,
+    }));
+  }, [gpu.settings]);
 
   const applyFpsCap = async () => {
     setStatus("Applying FRTC settings...");
@@ -94,29 +83,35 @@ export default function AmdGpuPanel() {
     });
   };
 
-  const setFanCurve = async () => {
-    setStatus("Configuring fan curve...");
-    
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 800));
-    
-    setStatus("Fan curve updated.");
-    toast({
-      title: "Fan Speed Applied",
-      description: `Fan speed set to ${settings.fanSpeed}% using AMD WattMan.`,
+  const setFanCurve = () => {
+    setStatus("Setting fan speed...");
+    gpu.apply({ fanSpeed: settings.fanSpeed }, () => {
+      setStatus("Fan speed updated.");
+      toast({
+        title: "Fan Speed Applied",
+        description: `Fan speed set to ${settings.fanSpeed}%.`,
+      });
     });
   };
 
-  const setPowerLimit = async () => {
+  // More power or higher clocks go on in steps and stay only once confirmed
+  const applySettings = (changes: GpuSettings, onApplied: (applied: GpuSettings) => void) => {
+    if (gpu.settings && !raisesClocksOrPower(gpu.settings, changes)) {
+      gpu.apply(changes, onApplied);
+      return;
+    }
+    setStatus("Raising limits in steps...");
+    tuning.start(changes);
+  };
+
+  const setPowerLimit = () => {
     setStatus("Adjusting power limit...");
-    
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 1200));
-    
-    setStatus("Power limit configured.");
-    toast({
-      title: "Power Limit Applied",
-      description: `GPU power limit set to ${settings.powerLimit}% for optimal performance.`,
+    applySettings({ powerLimit: settings.powerLimit }, () => {
+      setStatus("Power limit configured.");
+      toast({
+        title: "Power Limit Applied",
+        description: `GPU power limit set to ${settings.powerLimit}W.`,
+      });
     });
   };
 
@@ -154,71 +149,42 @@ export default function AmdGpuPanel() {
     });
   };
 
-  const applyPreset = async (presetName: string) => {
+  const applyPreset = (presetName: AmdPreset) => {
+    if (!gpu.device) return;
     setStatus(`Applying ${presetName} preset...`);
-    
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 1500));
-    
-    // Apply preset-specific settings
-    switch (presetName) {
-      case "Gaming":
-        setSettings(prev => ({
-          ...prev,
-          fpsCapEnabled: true,
-          fpsCap: 144,
-          fanSpeed: 70,
-          powerLimit: 110,
-          antiLagEnabled: true,
-        }));
-        break;
-      case "Silent":
-        setSettings(prev => ({
-          ...prev,
-          fpsCapEnabled: true,
-          fpsCap: 60,
-          fanSpeed: 30,
-          powerLimit: 80,
-          antiLagEnabled: false,
-        }));
-        break;
-      case "Performance":
-        setSettings(prev => ({
-          ...prev,
-          fpsCapEnabled: false,
-          fanSpeed: 85,
-          powerLimit: 120,
-          antiLagEnabled: true,
-        }));
-        break;
-    }
-    
-    setStatus(`${presetName} preset applied.`);
-    toast({
-      title: "Preset Applied",
-      description: `AMD GPU configured for ${presetName.toLowerCase()} optimization.`,
+    const preset = amdPresetSettings(presetName, gpu.device);
+    applySettings(preset, (applied) => {
+      setSettings(prev => ({
+        ...prev,
+        fanSpeed: applied.fanSpeed ?? prev.fanSpeed,
+        powerLimit: applied.powerLimit ?? prev.powerLimit,
+      }));
+      setStatus(`${presetName} preset applied.`);
+      toast({
+        title: "Preset Applied",
+        description: applied.powerLimit != null
+          ? `Power limit ${applied.powerLimit}W, ${applied.performanceLevel ?? "auto"} clocks, automatic fan.`
+          : `AMD GPU configured for ${presetName.toLowerCase()} optimization.`,
+      });
     });
   };
 
-  const resetAll = async () => {
+  const resetAll = () => {
     setStatus("Resetting to defaults...");
-    
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    setSettings({
-      fpsCapEnabled: false,
-      fpsCap: 144,
-      fanSpeed: 50,
-      powerLimit: 100,
-      antiLagEnabled: false,
-      imageSharpeningEnabled: false,
-    });
-    
-    setStatus("Reset to default settings.");
-    toast({
-      title: "Settings Reset",
-      description: "All AMD GPU settings have been restored to defaults.",
+    gpu.reset((defaults) => {
+      setSettings(prev => ({
+        fpsCapEnabled: false,
+        fpsCap: 144,
+        fanSpeed: defaults.fanSpeed ?? prev.fanSpeed,
+        powerLimit: defaults.powerLimit ?? prev.powerLimit,
+        antiLagEnabled: false,
+        imageSharpeningEnabled: false,
+      }));
+      setStatus("Reset to default settings.");
+      toast({
+        title: "Settings Reset",
+        description: "All AMD GPU settings have been restored to defaults.",
+      });
     });
   };
 
@@ -226,12 +192,12 @@ export default function AmdGpuPanel() {
     return isConnected ? (
       <div className="flex items-center text-neon-green text-sm">
         <div className="w-2 h-2 bg-neon-green rounded-full mr-2 animate-pulse" />
-        ADLX Connected
+        GPU Agent Connected
       </div>
     ) : (
       <div className="flex items-center text-yellow-400 text-sm">
         <div className="w-2 h-2 bg-yellow-400 rounded-full mr-2" />
-        Simulated Mode
+        {gpu.unavailableReason ?? "Connecting..."}
       </div>
     );
   };
@@ -252,7 +218,7 @@ export default function AmdGpuPanel() {
           </div>
           <div>
             <h3 className="text-xl font-bold text-white">AMD Radeon Tuning</h3>
-            <p className="text-gray-400 text-sm">RDNA2/RDNA3 optimization with ADLX SDK</p>
+            <p className="text-gray-400 text-sm">{gpu.device?.name ?? "RDNA2/RDNA3 optimization"}</p>
           </div>
         </div>
         {getConnectionStatus()}
@@ -262,21 +228,21 @@ export default function AmdGpuPanel() {
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
         <div className="bg-dark-bg p-3 rounded-lg">
           <div className="text-gray-400 text-xs mb-1">Temperature</div>
-          <div className={cn("text-lg font-bold", getTemperatureColor(stats.temperature))}>
-            {Math.round(stats.temperature)}°C
+          <div className={cn("text-lg font-bold", stats?.temperature != null && getTemperatureColor(stats.temperature))}>
+            {reading(stats?.temperature, "°C")}
           </div>
         </div>
         <div className="bg-dark-bg p-3 rounded-lg">
           <div className="text-gray-400 text-xs mb-1">GPU Usage</div>
-          <div className="text-lg font-bold text-neon-green">{Math.round(stats.usage)}%</div>
+          <div className="text-lg font-bold text-neon-green">{reading(stats?.usage, "%")}</div>
         </div>
         <div className="bg-dark-bg p-3 rounded-lg">
           <div className="text-gray-400 text-xs mb-1">VRAM Usage</div>
-          <div className="text-lg font-bold text-neon-purple">{Math.round(stats.memoryUsage)} MB</div>
+          <div className="text-lg font-bold text-neon-purple">{reading(stats?.vramUsed, " MB")}</div>
         </div>
         <div className="bg-dark-bg p-3 rounded-lg">
           <div className="text-gray-400 text-xs mb-1">Power</div>
-          <div className="text-lg font-bold text-neon-yellow">{Math.round(stats.powerConsumption)}W</div>
+          <div className="text-lg font-bold text-neon-yellow">{reading(stats?.powerDraw, "W")}</div>
         </div>
       </div>
 
@@ -328,13 +294,15 @@ export default function AmdGpuPanel() {
             <Slider
               value={[settings.fanSpeed]}
               onValueChange={([value]) => setSettings(prev => ({ ...prev, fanSpeed: value }))}
-              min={20}
-              max={100}
-              step={5}
+              min={fanRange?.min ?? 0}
+              max={fanRange?.max ?? 100}
+              step={fanRange?.step ?? 1}
+              disabled={!fanRange}
               className="w-full"
             />
             <Button 
               onClick={setFanCurve}
+              disabled={!fanRange || busy}
               size="sm" 
               className="w-full bg-neon-blue text-white hover:bg-neon-blue/90"
             >
@@ -349,18 +317,20 @@ export default function AmdGpuPanel() {
           <div className="space-y-3">
             <div className="flex justify-between items-center">
               <span className="text-gray-300">Power Target</span>
-              <span className="text-neon-yellow font-bold">{settings.powerLimit}%</span>
+              <span className="text-neon-yellow font-bold">{powerRange ? `${settings.powerLimit}W` : "Not supported"}</span>
             </div>
             <Slider
               value={[settings.powerLimit]}
               onValueChange={([value]) => setSettings(prev => ({ ...prev, powerLimit: value }))}
-              min={50}
-              max={120}
-              step={5}
+              min={powerRange?.min ?? 0}
+              max={powerRange?.max ?? 100}
+              step={powerRange?.step ?? 1}
+              disabled={!powerRange}
               className="w-full"
             />
             <Button 
               onClick={setPowerLimit}
+              disabled={!powerRange || busy}
               size="sm" 
               className="w-full bg-neon-yellow text-dark-bg hover:bg-neon-yellow/90"
             >
@@ -405,6 +375,7 @@ export default function AmdGpuPanel() {
         <div className="grid grid-cols-3 gap-3">
           <Button
             onClick={() => applyPreset("Gaming")}
+            disabled={!isConnected || busy}
             className="h-16 bg-dark-card border border-dark-border hover:bg-neon-green hover:text-dark-bg flex flex-col items-center justify-center"
           >
             <i className="fas fa-gamepad mb-1" />
@@ -412,6 +383,7 @@ export default function AmdGpuPanel() {
           </Button>
           <Button
             onClick={() => applyPreset("Silent")}
+            disabled={!isConnected || busy}
             className="h-16 bg-dark-card border border-dark-border hover:bg-neon-blue hover:text-white flex flex-col items-center justify-center"
           >
             <i className="fas fa-volume-mute mb-1" />
@@ -419,6 +391,7 @@ export default function AmdGpuPanel() {
           </Button>
           <Button
             onClick={() => applyPreset("Performance")}
+            disabled={!isConnected || busy}
             className="h-16 bg-dark-card border border-dark-border hover:bg-neon-purple hover:text-white flex flex-col items-center justify-center"
           >
             <i className="fas fa-rocket mb-1" />
@@ -427,6 +400,15 @@ export default function AmdGpuPanel() {
         </div>
       </div>
 
+      <GpuTuningConfirm
+        attempt={tuning.attempt}
+        description={tuning.attempt ? describeSettings(tuning.attempt.requested) : ""}
+        isPending={tuning.isPending}
+        onKeep={tuning.confirm}
+        onRevert={tuning.revert}
+        className="mb-6"
+      />
+
       {/* Status and Reset */}
       <div className="flex justify-between items-center">
         <div className="text-sm text-gray-400">
@@ -434,6 +416,7 @@ export default function AmdGpuPanel() {
         </div>
         <Button
           onClick={resetAll}
+          disabled={!isConnected || busy}
           variant="destructive"
           className="bg-red-600 hover:bg-red-700"
         >
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  cleanupCategories, cleanupCategoryInfo,
+  type CleanupCategory, type CleanupOptions, type CleanupReport
+} from "@shared/cleanup";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { apiRequest } from "@/lib/queryClient";
+
+function formatSize(bytes: number) {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${Math.round(bytes / 1024)} KB`;
+}
+
+const lines = (text: string) => text.split("\n").map(line => line.trim()).filter(Boolean);
+
+// Categories, ages and folder rules of the temp cleanup, with a dry run that
+// shows what a cleanup with these options would remove
+export function CleanupSettings({ options, onChange }: {
+  options: CleanupOptions;
+  onChange: (options: CleanupOptions) => void;
+}) {
+  const [excludeText, setExcludeText] = useState(options.exclude.join("\n"));
+  const [includeText, setIncludeText] = useState(options.include.join("\n"));
+
+  const dryRunMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/cleanup/dry-run', options);
+      return (await response.json()).report as CleanupReport;
+    },
+  });
+  const report = dryRunMutation.data;
+
+  // A preview only describes the options it was made with
+  const update = (next: CleanupOptions) => {
+    dryRunMutation.reset();
+    onChange(next);
+  };
+
+  const toggleCategory = (category: CleanupCategory, enabled: boolean) => {
+    const categories = enabled
+      ? cleanupCategories.filter(c => c === category || options.categories.includes(c))
+      : options.categories.filter(c => c !== category);
+    if (categories.length) update({ ...options, categories });
+  };
+
+  const setAge = (category: CleanupCategory, value: string) => {
+    const maxAgeDays = { ...options.maxAgeDays };
+    if (value === "") delete maxAgeDays[category];
+    else maxAgeDays[category] = Math.max(0, Number(value));
+    update({ ...options, maxAgeDays });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {cleanupCategories.map(category => (
+          <div key={category} className="flex items-center justify-between text-sm">
+            <div>
+              <p className="text-white">{cleanupCategoryInfo[category].title}</p>
+              <p className="text-xs text-gray-500">{cleanupCategoryInfo[category].description}</p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Input
+                type="number"
+                min={0}
+                value={options.maxAgeDays[category] ?? ""}
+                placeholder={String(cleanupCategoryInfo[category].maxAgeDays)}
+                onChange={(e) => setAge(category, e.target.value)}
+                className="w-20 h-8 bg-dark-bg border-dark-border text-white"
+                title="Only files older than this many days"
+              />
+              <span className="text-xs text-gray-500">days</span>
+              <Switch
+                checked={options.categories.includes(category)}
+                onCheckedChange={(checked: boolean) => toggleCategory(category, checked)}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label className="text-gray-300 text-xs">Never remove (one pattern per line)</Label>
+          <Textarea
+            value={excludeText}
+            onChange={(e) => setExcludeText(e.target.value)}
+            onBlur={() => update({ ...options, exclude: lines(excludeText) })}
+            placeholder="~/.cache/pip/**"
+            className="bg-dark-bg border-dark-border text-white text-xs h-20"
+          />
+        </div>
+        <div>
+          <Label className="text-gray-300 text-xs">Custom folders in your home</Label>
+          <Textarea
+            value={includeText}
+            onChange={(e) => setIncludeText(e.target.value)}
+            onBlur={() => update({ ...options, include: lines(includeText) })}
+            placeholder="~/Downloads/tmp"
+            className="bg-dark-bg border-dark-border text-white text-xs h-20"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Button
+          variant="outline"
+          onClick={() => dryRunMutation.mutate()}
+          disabled={dryRunMutation.isPending}
+          className="border-dark-border text-gray-300"
+        >
+          {dryRunMutation.isPending ? <i className="fas fa-spinner animate-spin mr-2" /> : <i className="fas fa-search mr-2" />}
+          Preview
+        </Button>
+        {dryRunMutation.isError && <span className="text-sm text-red-400">The preview failed.</span>}
+        {report && (
+          <span className="text-sm text-gray-300">
+            {report.files} files, {formatSize(report.bytes)} would be removed
+          </span>
+        )}
+      </div>
+
+      {report && (
+        <table className="w-full text-sm">
+          <tbody>
+            {report.categories.map(category => (
+              <tr key={category.category} className="border-t border-dark-border">
+                <td className="py-1 text-gray-300" title={category.roots.join("\n") || "No such folders here"}>
+                  {category.title}
+                </td>
+                <td className="py-1 text-right text-gray-400">{category.files} files</td>
+                <td className="py-1 text-right text-white w-24">{formatSize(category.bytes)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
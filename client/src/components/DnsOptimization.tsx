@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { dnsPresets, type DnsBenchmarkReport, type ResolverState } from "@shared/dns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+
+const dnsOptions = [
+  ...dnsPresets,
+  { label: "Custom", server: "custom", description: "Enter your own DNS server" },
+];
+
+const IP_ADDRESS = /^(\d{1,3}(\.\d{1,3}){3}|[0-9a-f:]+:[0-9a-f:]*)$/i;
+
+const ms = (value: number | null) => (value === null ? "—" : `${Math.round(value)}ms`);
+
+// Resolver benchmark and switching: candidates are the presets plus the
+// custom server, ranked by the server from real queries
+export function DnsOptimization() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dnsServer, setDnsServer] = useState<string>(dnsPresets[0].server);
+  const [customDns, setCustomDns] = useState("");
+
+  const { data: resolverData } = useQuery<{ resolver: ResolverState }>({
+    queryKey: ['/api/network/dns'],
+  });
+  const resolver = resolverData?.resolver;
+
+  const chosen = dnsServer === "custom" ? customDns.trim() : dnsServer;
+  const customValid = IP_ADDRESS.test(customDns.trim());
+
+  const benchmarkMutation = useMutation({
+    mutationFn: async () => {
+      const servers = dnsPresets.map(preset => preset.server as string);
+      if (customValid) servers.push(customDns.trim());
+      const response = await apiRequest('POST', '/api/network/dns/benchmark', { servers });
+      return (await response.json()).report as DnsBenchmarkReport;
+    },
+    onError: () => {
+      toast({ title: "Benchmark Failed", description: "The DNS benchmark could not be run.", variant: "destructive" });
+    },
+  });
+  const report = benchmarkMutation.data;
+
+  const applyMutation = useMutation({
+    mutationFn: async (server: string) => {
+      const response = await apiRequest('POST', '/api/network/dns', { servers: [server] });
+      return (await response.json()).resolver as ResolverState;
+    },
+    onSuccess: (state) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/network/dns'] });
+      toast({
+        title: "DNS Server Updated",
+        description: `Now using ${state.servers.join(", ")} through ${state.method}.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "DNS Change Failed",
+        description: "The resolver configuration could not be changed. This needs root or a sudoers rule.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const applyDnsChange = () => {
+    if (!IP_ADDRESS.test(chosen)) {
+      toast({
+        title: "Invalid DNS Server",
+        description: "Please enter a valid DNS server address.",
+        variant: "destructive",
+      });
+      return;
+    }
+    applyMutation.mutate(chosen);
+  };
+
+  const choose = (server: string) => {
+    if (dnsPresets.some(preset => preset.server === server)) {
+      setDnsServer(server);
+    } else {
+      setDnsServer("custom");
+      setCustomDns(server);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {resolver && (
+        <p className="text-sm text-gray-400">
+          Current: <span className="text-white">{resolver.servers.join(", ") || "none"}</span> via {resolver.method}
+        </p>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">DNS Provider</label>
+        <Select value={dnsServer} onValueChange={setDnsServer}>
+          <SelectTrigger className="bg-dark-bg border-dark-border text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-dark-bg border-dark-border">
+            {dnsOptions.map((option) => (
+              <SelectItem key={option.server} value={option.server} className="text-white hover:bg-dark-card">
+                <div>
+                  <div>{option.label}</div>
+                  <div className="text-xs text-gray-400">{option.description}</div>
+                </div>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {dnsServer === "custom" && (
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Custom DNS Server</label>
+          <Input
+            type="text"
+            placeholder="Enter DNS server IP (e.g., 1.1.1.1)"
+            value={customDns}
+            onChange={(e) => setCustomDns(e.target.value)}
+            className="bg-dark-bg border-dark-border text-white placeholder-gray-400"
+          />
+        </div>
+      )}
+
+      {report && (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left font-normal pb-1">#</th>
+              <th className="text-left font-normal pb-1">Resolver</th>
+              <th className="text-right font-normal pb-1">Median</th>
+              <th className="text-right font-normal pb-1">p95</th>
+              <th className="text-right font-normal pb-1">Failed</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.results.map(result => (
+              <tr
+                key={result.server}
+                onClick={() => choose(result.server)}
+                className={cn("border-t border-dark-border cursor-pointer hover:bg-dark-bg", result.server === chosen && "text-neon-blue")}
+                title={`Cached: ${ms(result.cached.median)} median · Uncached: ${ms(result.uncached.median)} median`}
+              >
+                <td className="py-1">{result.rank}</td>
+                <td className="py-1">{result.label} <span className="text-gray-500">{result.server}</span></td>
+                <td className="py-1 text-right">{ms(result.overall.median)}</td>
+                <td className="py-1 text-right">{ms(result.overall.p95)}</td>
+                <td className={cn("py-1 text-right", result.failures ? "text-red-400" : "text-gray-400")}>
+                  {Math.round(result.failureRate * 100)}%
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex space-x-2">
+        <Button
+          variant="outline"
+          onClick={() => benchmarkMutation.mutate()}
+          disabled={benchmarkMutation.isPending}
+          className="flex-1 border-dark-border text-gray-300"
+        >
+          {benchmarkMutation.isPending ? <i className="fas fa-spinner animate-spin mr-2" /> : <i className="fas fa-stopwatch mr-2" />}
+          Benchmark
+        </Button>
+        <Button
+          onClick={applyDnsChange}
+          disabled={applyMutation.isPending}
+          className="flex-1 bg-neon-blue text-dark-bg hover:bg-neon-blue/90 transition-colors"
+        >
+          <i className="fas fa-rocket mr-2" />
+          Apply DNS Settings
+        </Button>
+      </div>
+    </div>
+  );
+}
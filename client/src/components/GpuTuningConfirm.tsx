@@ -0,0 +1,68 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { GpuTuningAttempt } from "@shared/schema";
+
+// "Keep these settings?" banner of a guarded tuning attempt, with the
+// countdown to the automatic revert. Shows nothing until the attempt has
+// been applied and waits for confirmation.
+export default function GpuTuningConfirm({
+  attempt,
+  description,
+  isPending,
+  onKeep,
+  onRevert,
+  className = "mt-6",
+}: {
+  attempt: GpuTuningAttempt | null;
+  description: string;
+  isPending: boolean;
+  onKeep: () => void;
+  onRevert: () => void;
+  className?: string;
+}) {
+  const [now, setNow] = useState(Date.now());
+
+  // Ticks the confirmation countdown
+  useEffect(() => {
+    if (attempt?.status !== "confirming") return;
+    const timer = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(timer);
+  }, [attempt?.status]);
+
+  if (attempt?.status !== "confirming" || !attempt.confirmBy) return null;
+  const secondsLeft = Math.max(0, Math.ceil((new Date(attempt.confirmBy).getTime() - now) / 1000));
+
+  return (
+    <div className={cn("bg-neon-blue/10 border border-neon-blue/30 rounded-lg p-4 flex items-center justify-between", className)}>
+      <div className="flex items-start">
+        <i className="fas fa-stopwatch text-neon-blue mr-3 mt-0.5" />
+        <div className="text-sm">
+          <p className="text-neon-blue font-medium mb-1">Keep these settings?</p>
+          <p className="text-gray-300">
+            {description} {attempt.stepsTotal > 1 ? `applied in ${attempt.stepsTotal} steps. ` : "applied. "}
+            The previous settings come back in {secondsLeft}s unless you keep them.
+          </p>
+        </div>
+      </div>
+      <div className="flex space-x-2 ml-4">
+        <Button
+          onClick={onKeep}
+          disabled={isPending}
+          className="bg-neon-green text-dark-bg hover:bg-neon-green/90"
+        >
+          <i className="fas fa-check mr-2" />
+          Keep
+        </Button>
+        <Button
+          onClick={onRevert}
+          disabled={isPending}
+          className="bg-gray-600 hover:bg-gray-700 text-white"
+        >
+          <i className="fas fa-undo mr-2" />
+          Revert
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,83 +1,67 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
-import { cn } from "@/lib/utils";
+import { useGpuAgent } from "@/hooks/useGpuAgent";
+import { tuningOutcomeToast, useGpuTuning } from "@/hooks/useGpuTuning";
+import { intelProfileSettings, type IntelPowerProfile } from "@shared/gpuPresets";
+import { raisesClocksOrPower } from "@shared/gpuTuning";
+import GpuTuningConfirm from "@/components/GpuTuningConfirm";
 
-interface IntelGpuStats {
-  temperature: string;
-  usage: string;
-  eUClock: string;
-  memoryClock: string;
-  driverVersion: string;
-}
+const reading = (value: number | null | undefined, unit = "") =>
+  value == null ? "—" : `${Math.round(value)}${unit}`;
 
 export default function IntelGpuPanel() {
-  const [stats, setStats] = useState<IntelGpuStats>({
-    temperature: "--",
-    usage: "--",
-    eUClock: "--",
-    memoryClock: "--",
-    driverVersion: "--",
-  });
-
-  const [powerProfile, setPowerProfile] = useState("balanced");
+  const [powerProfile, setPowerProfile] = useState<IntelPowerProfile>("balanced");
   const [hagsEnabled, setHagsEnabled] = useState(false);
   const [appPath, setAppPath] = useState("");
   const [appPref, setAppPref] = useState("system");
   const [status, setStatus] = useState("");
-  const [isConnected, setIsConnected] = useState(false);
 
   const { toast } = useToast();
 
-  // Simulate Intel GPU stats (in production, this would connect to your native agent)
-  useEffect(() => {
-    let mounted = true;
-    
-    const fetchStats = async () => {
-      try {
-        // Simulate API call to local agent
-        await new Promise(resolve => setTimeout(resolve, 100));
-        
-        if (mounted) {
-          setStats({
-            temperature: (45 + Math.random() * 25).toFixed(1),
-            usage: Math.floor(20 + Math.random() * 60).toString(),
-            eUClock: Math.floor(1100 + Math.random() * 300).toString(),
-            memoryClock: Math.floor(3600 + Math.random() * 400).toString(),
-            driverVersion: "30.0.101.1340",
-          });
-          setIsConnected(true);
-        }
-      } catch (e) {
-        if (mounted) {
-          setStats(prev => ({ ...prev, temperature: "—", usage: "—" }));
-          setIsConnected(false);
-        }
-      }
-    };
-
-    fetchStats();
-    const interval = setInterval(fetchStats, 2000);
-    
-    return () => {
-      mounted = false;
-      clearInterval(interval);
-    };
-  }, []);
+  const gpu = useGpuAgent("intel", {
+    onEvent: (event) => {
+      toast({ title: "GPU Driver Event", description: event.message, variant: "destructive" });
+    },
+    onError: (message) => {
+      setStatus(message);
+      toast({ title: "Intel GPU Error", description: message, variant: "destructive" });
+    },
+  });
+  const tuning = useGpuTuning(gpu.device, {
+    onFinished: (attempt) => {
+      setStatus(attempt.status === "confirmed" ? "New power profile kept." : "Previous power profile restored.");
+      const outcome = tuningOutcomeToast(attempt);
+      if (outcome) toast(outcome);
+    },
+    onError: (message) => {
+      setStatus(message);
+      toast({ title: "Intel GPU Error", description: message, variant: "destructive" });
+    },
+  });
+  const busy = gpu.isPending || tuning.isPending || tuning.active;
+  const stats = gpu.telemetry;
+  const isConnected = !!gpu.device;
 
-  const applyPowerProfile = async () => {
+  // Raising the clock floor or ceiling goes on in steps and stays only once confirmed
+  const applyPowerProfile = () => {
+    if (!gpu.device) return;
+    const profile = intelProfileSettings(powerProfile, gpu.device);
+    if (!gpu.settings || raisesClocksOrPower(gpu.settings, profile)) {
+      setStatus("Raising GT frequency limits in steps...");
+      tuning.start(profile);
+      return;
+    }
     setStatus("Applying power profile...");
-    
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 800));
-    
-    setStatus("Applied power profile.");
-    toast({
-      title: "Power Profile Applied",
-      description: `Intel GPU set to ${powerProfile} mode. Changes take effect immediately.`,
+    gpu.apply(profile, (applied) => {
+      setStatus(`Applied power profile: ${applied.coreClockMin ?? "—"}-${applied.coreClockMax ?? "—"} MHz.`);
+      toast({
+        title: "Power Profile Applied",
+        description: `Intel GPU set to ${powerProfile} mode. Changes take effect immediately.`,
+      });
     });
   };
 
@@ -135,19 +119,17 @@ export default function IntelGpuPanel() {
     });
   };
 
-  const resetAll = async () => {
+  const resetAll = () => {
     setStatus("Resetting tweaks...");
-    
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 1200));
-    
-    setStatus("All tweaks reset.");
-    setPowerProfile("balanced");
-    setHagsEnabled(false);
-    
-    toast({
-      title: "Settings Reset",
-      description: "All Intel GPU tweaks have been reset to default values.",
+    gpu.reset(() => {
+      setStatus("All tweaks reset.");
+      setPowerProfile("balanced");
+      setHagsEnabled(false);
+
+      toast({
+        title: "Settings Reset",
+        description: "All Intel GPU tweaks have been reset to default values.",
+      });
     });
   };
 
@@ -162,12 +144,12 @@ export default function IntelGpuPanel() {
     return isConnected ? (
       <div className="flex items-center text-neon-green text-sm">
         <div className="w-2 h-2 bg-neon-green rounded-full mr-2 animate-pulse" />
-        Native Agent Connected
+        GPU Agent Connected
       </div>
     ) : (
       <div className="flex items-center text-yellow-400 text-sm">
         <div className="w-2 h-2 bg-yellow-400 rounded-full mr-2" />
-        Simulated Mode
+        {gpu.unavailableReason ?? "Connecting..."}
       </div>
     );
   };
@@ -181,7 +163,7 @@ export default function IntelGpuPanel() {
           </div>
           <div>
             <h3 className="text-xl font-bold text-white">Intel GPU Tuning</h3>
-            <p className="text-gray-400 text-sm">Iris Xe, Arc, and integrated GPU optimization</p>
+            <p className="text-gray-400 text-sm">{gpu.device?.name ?? "Iris Xe, Arc, and integrated GPU optimization"}</p>
           </div>
         </div>
         {getConnectionStatus()}
@@ -191,23 +173,25 @@ export default function IntelGpuPanel() {
       <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
         <div className="bg-dark-bg p-3 rounded-lg">
           <div className="text-gray-400 text-xs mb-1">Temperature</div>
-          <div className="text-lg font-bold text-white">{stats.temperature}°C</div>
+          <div className="text-lg font-bold text-white">{reading(stats?.temperature, "°C")}</div>
         </div>
         <div className="bg-dark-bg p-3 rounded-lg">
           <div className="text-gray-400 text-xs mb-1">GPU Usage</div>
-          <div className="text-lg font-bold text-neon-blue">{stats.usage}%</div>
+          <div className="text-lg font-bold text-neon-blue">{reading(stats?.usage, "%")}</div>
         </div>
         <div className="bg-dark-bg p-3 rounded-lg">
-          <div className="text-gray-400 text-xs mb-1">EU Clock</div>
-          <div className="text-lg font-bold text-neon-purple">{stats.eUClock} MHz</div>
+          <div className="text-gray-400 text-xs mb-1">GPU Clock</div>
+          <div className="text-lg font-bold text-neon-purple">{reading(stats?.coreClock, " MHz")}</div>
         </div>
         <div className="bg-dark-bg p-3 rounded-lg">
-          <div className="text-gray-400 text-xs mb-1">Memory</div>
-          <div className="text-lg font-bold text-neon-green">{stats.memoryClock} MHz</div>
+          <div className="text-gray-400 text-xs mb-1">Power</div>
+          <div className="text-lg font-bold text-neon-green">{reading(stats?.powerDraw, "W")}</div>
         </div>
         <div className="bg-dark-bg p-3 rounded-lg">
           <div className="text-gray-400 text-xs mb-1">Driver</div>
-          <div className="text-sm font-bold text-white">{stats.driverVersion}</div>
+          <div className="text-sm font-bold text-white">
+            {gpu.device ? `${gpu.device.driver} ${gpu.device.driverVersion ?? ""}` : "—"}
+          </div>
         </div>
       </div>
 
@@ -218,7 +202,7 @@ export default function IntelGpuPanel() {
           <span className="text-gray-400 text-sm">Choose power/thermal preset</span>
         </div>
         <div className="flex items-center gap-3 flex-wrap">
-          <Select value={powerProfile} onValueChange={setPowerProfile}>
+          <Select value={powerProfile} onValueChange={(value: string) => setPowerProfile(value as IntelPowerProfile)}>
             <SelectTrigger className="w-40 bg-dark-card border-dark-border text-white">
               <SelectValue />
             </SelectTrigger>
@@ -230,6 +214,7 @@ export default function IntelGpuPanel() {
           </Select>
           <Button 
             onClick={applyPowerProfile}
+            disabled={!isConnected || busy}
             className="bg-neon-blue text-dark-bg hover:bg-neon-blue/90"
           >
             Apply
@@ -336,6 +321,15 @@ export default function IntelGpuPanel() {
         </div>
       </div>
 
+      <GpuTuningConfirm
+        attempt={tuning.attempt}
+        description={`GT frequency ${tuning.attempt?.requested.coreClockMin ?? "—"}-${tuning.attempt?.requested.coreClockMax ?? "—"} MHz`}
+        isPending={tuning.isPending}
+        onKeep={tuning.confirm}
+        onRevert={tuning.revert}
+        className="mb-6"
+      />
+
       {/* Status and Reset */}
       <div className="flex justify-between items-center">
         <div className="text-sm text-gray-400">
@@ -343,6 +337,7 @@ export default function IntelGpuPanel() {
         </div>
         <Button
           onClick={resetAll}
+          disabled={!isConnected || busy}
           variant="destructive"
           className="bg-red-600 hover:bg-red-700"
         >
@@ -0,0 +1,289 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { ProbeMethod, ProbeSummary } from "@shared/latency";
+import type { ProbeProgressMessage } from "@shared/realtime";
+import type { LatencyProbe } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useRealtimeMessage, useRealtimeTopics } from "@/hooks/useWebSocket";
+import { apiRequest, readApiError } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+
+const SAMPLE_COUNT = 20;
+
+const ms = (value: number | null) => (value === null ? "—" : `${Math.round(value * 10) / 10}ms`);
+const percent = (rate: number) => `${Math.round(rate * 1000) / 10}%`;
+
+const summaryStats: Array<{ label: string; value: (summary: ProbeSummary) => string }> = [
+  { label: "Min", value: summary => ms(summary.min) },
+  { label: "Avg", value: summary => ms(summary.avg) },
+  { label: "Max", value: summary => ms(summary.max) },
+  { label: "Jitter", value: summary => ms(summary.jitter) },
+  { label: "Loss", value: summary => percent(summary.lossRate) },
+];
+
+const describe = (probe: LatencyProbe) =>
+  `${probe.target}${probe.method === "tcp" ? `:${probe.port}` : ""} (${probe.method.toUpperCase()})`;
+
+// Real round trips measured by the server, streamed on the `probes` topic.
+// Finished runs are kept and any two of them can be compared.
+export function LatencyTester() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [target, setTarget] = useState("8.8.8.8");
+  const [method, setMethod] = useState<ProbeMethod>("tcp");
+  const [port, setPort] = useState("443");
+  const [probe, setProbe] = useState<LatencyProbe | null>(null);
+  const [compared, setCompared] = useState<string[]>([]);
+  // Samples can arrive before the POST that started the probe returns
+  const current = useRef<LatencyProbe | null>(null);
+
+  const { data: historyData } = useQuery<{ probes: LatencyProbe[] }>({
+    queryKey: ['/api/network/probes'],
+  });
+  const history = (historyData?.probes ?? []).filter(entry => entry.status !== "running");
+
+  const track = (next: LatencyProbe) => {
+    const previous = current.current;
+    if (previous?.id === next.id && previous.status !== "running") return;
+    if (previous && previous.id !== next.id && next.createdAt < previous.createdAt) return;
+
+    current.current = next;
+    setProbe(next);
+    if (next.status !== "running") {
+      queryClient.invalidateQueries({ queryKey: ['/api/network/probes'] });
+      if (next.status === "failed") {
+        toast({ title: "Latency Test Failed", description: next.error ?? undefined, variant: "destructive" });
+      }
+    }
+  };
+
+  useRealtimeTopics(['probes']);
+  useRealtimeMessage('probeProgress', (message: ProbeProgressMessage) => track(message.probe));
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/network/probes', {
+        target: target.trim(),
+        method,
+        port: Number(port),
+        count: SAMPLE_COUNT,
+      });
+      return (await response.json()).probe as LatencyProbe;
+    },
+    onSuccess: (started) => {
+      if (current.current?.id !== started.id) track(started);
+    },
+    onError: (err) => {
+      toast({ title: "Latency Test Failed", description: readApiError(err), variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (running: LatencyProbe) => {
+      await apiRequest('POST', `/api/network/probes/${running.id}/cancel`);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/network/probes/${id}`);
+    },
+    onSuccess: (_, id) => {
+      setCompared(ids => ids.filter(entry => entry !== id));
+      queryClient.invalidateQueries({ queryKey: ['/api/network/probes'] });
+    },
+  });
+
+  const running = probe?.status === "running";
+  const samples = probe?.samples ?? [];
+  const highest = Math.max(100, ...samples.map(sample => sample.rtt ?? 0));
+  const comparedProbes = compared
+    .map(id => history.find(entry => entry.id === id))
+    .filter((entry): entry is LatencyProbe => !!entry);
+
+  // The two most recent picks are compared
+  const toggleCompare = (id: string) => {
+    setCompared(ids => (ids.includes(id) ? ids.filter(entry => entry !== id) : [...ids, id].slice(-2)));
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Target Server</label>
+          <Input
+            type="text"
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            placeholder="IP or domain"
+            className="bg-dark-bg border-dark-border text-white w-40"
+            disabled={running}
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Method</label>
+          <Select value={method} onValueChange={(value: string) => setMethod(value as ProbeMethod)} disabled={running}>
+            <SelectTrigger className="bg-dark-bg border-dark-border text-white w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-dark-bg border-dark-border">
+              <SelectItem value="tcp" className="text-white hover:bg-dark-card">TCP connect</SelectItem>
+              <SelectItem value="icmp" className="text-white hover:bg-dark-card">ICMP ping</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {method === "tcp" && (
+          <div>
+            <label className="block text-sm text-gray-300 mb-1">Port</label>
+            <Input
+              type="number"
+              min={1}
+              max={65535}
+              value={port}
+              onChange={(e) => setPort(e.target.value)}
+              className="bg-dark-bg border-dark-border text-white w-24"
+              disabled={running}
+            />
+          </div>
+        )}
+        <div className="flex space-x-2">
+          <Button
+            disabled={running || startMutation.isPending || !target.trim()}
+            onClick={() => startMutation.mutate()}
+            className="bg-neon-purple text-white hover:bg-neon-purple/90"
+          >
+            {running ? (
+              <>
+                <i className="fas fa-spinner animate-spin mr-2" />
+                Testing...
+              </>
+            ) : (
+              <>
+                <i className="fas fa-play mr-2" />
+                Start Test
+              </>
+            )}
+          </Button>
+          <Button
+            disabled={!running || cancelMutation.isPending}
+            onClick={() => probe && cancelMutation.mutate(probe)}
+            className="bg-red-500 hover:bg-red-600 text-white"
+          >
+            <i className="fas fa-stop mr-2" />
+            Stop
+          </Button>
+        </div>
+      </div>
+
+      {probe && probe.summary.sent > 0 && (
+        <div className="grid grid-cols-5 gap-4 mb-6">
+          {summaryStats.map(stat => (
+            <div key={stat.label} className="bg-dark-bg rounded-lg p-3 text-center">
+              <div className="text-neon-blue text-2xl font-bold">{stat.value(probe.summary)}</div>
+              <div className="text-gray-400 text-sm">{stat.label}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-dark-bg rounded-lg p-4">
+        <div className="h-32 flex items-end justify-center space-x-1">
+          {samples.length === 0 ? (
+            <div className="flex items-center justify-center h-full text-gray-400">
+              <i className="fas fa-chart-line text-2xl mr-2" />
+              No ping data yet - start a test to see results
+            </div>
+          ) : (
+            samples.map(sample => (
+              <div
+                key={sample.seq}
+                className={cn(
+                  "w-3 rounded-sm transition-all duration-300",
+                  sample.rtt === null ? "bg-red-500" : "bg-gradient-to-t from-neon-green to-neon-blue",
+                )}
+                style={{
+                  height: sample.rtt === null ? "100%" : `${(sample.rtt / highest) * 100}%`,
+                  minHeight: '4px'
+                }}
+                title={sample.rtt === null ? "Lost" : `${sample.rtt}ms`}
+              />
+            ))
+          )}
+        </div>
+        {probe && (
+          <div className="mt-2 text-center text-sm text-gray-400">
+            {running ? "Testing" : "Tested"} {describe(probe)} via {probe.address} - {samples.length}/{SAMPLE_COUNT} samples
+          </div>
+        )}
+      </div>
+
+      {history.length > 0 && (
+        <div className="mt-6">
+          <h4 className="text-sm font-medium text-gray-300 mb-2">Previous tests</h4>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="text-left font-normal pb-1">Compare</th>
+                <th className="text-left font-normal pb-1">Target</th>
+                <th className="text-left font-normal pb-1">When</th>
+                <th className="text-right font-normal pb-1">Avg</th>
+                <th className="text-right font-normal pb-1">Jitter</th>
+                <th className="text-right font-normal pb-1">Loss</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {history.map(entry => (
+                <tr key={entry.id} className="border-t border-dark-border">
+                  <td className="py-1">
+                    <input
+                      type="checkbox"
+                      checked={compared.includes(entry.id)}
+                      onChange={() => toggleCompare(entry.id)}
+                    />
+                  </td>
+                  <td className="py-1">{describe(entry)}</td>
+                  <td className="py-1 text-gray-400">{new Date(entry.createdAt).toLocaleString()}</td>
+                  <td className="py-1 text-right">{ms(entry.summary.avg)}</td>
+                  <td className="py-1 text-right">{ms(entry.summary.jitter)}</td>
+                  <td className={cn("py-1 text-right", entry.summary.lossRate > 0 ? "text-red-400" : "text-gray-400")}>
+                    {percent(entry.summary.lossRate)}
+                  </td>
+                  <td className="py-1 text-right">
+                    <button
+                      onClick={() => deleteMutation.mutate(entry.id)}
+                      className="text-gray-500 hover:text-red-400"
+                      title="Delete"
+                    >
+                      <i className="fas fa-trash" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {comparedProbes.length === 2 && (
+        <div className="mt-4 grid grid-cols-3 gap-2 text-sm">
+          <div />
+          {comparedProbes.map(entry => (
+            <div key={entry.id} className="text-gray-300 truncate">{describe(entry)}</div>
+          ))}
+          {summaryStats.map(stat => (
+            <div key={stat.label} className="contents">
+              <div className="text-gray-400">{stat.label}</div>
+              {comparedProbes.map(entry => (
+                <div key={entry.id} className="text-white">{stat.value(entry.summary)}</div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ interface LoginForm {
   username: string;
   password: string;
   twoFactorCode?: string;
+  recoveryCode?: string;
 }
 
 interface SignupForm {
@@ -31,6 +32,7 @@ export default function LoginSignup() {
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [requires2FA, setRequires2FA] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
@@ -40,6 +42,7 @@ export default function LoginSignup() {
     username: '',
     password: '',
     twoFactorCode: '',
+    recoveryCode: '',
   });
 
   const [signupForm, setSignupForm] = useState<SignupForm>({
@@ -58,6 +61,7 @@ export default function LoginSignup() {
     setError(null);
     setSuccess(null);
     setRequires2FA(false);
+    setUseRecoveryCode(false);
     setIsSubmitting(false);
   }, [activeTab]);
 
@@ -67,7 +71,9 @@ export default function LoginSignup() {
     setIsSubmitting(true);
 
     try {
-      const result = await login(loginForm.username, loginForm.password, loginForm.twoFactorCode);
+      const result = useRecoveryCode
+        ? await login(loginForm.username, loginForm.password, undefined, loginForm.recoveryCode)
+        : await login(loginForm.username, loginForm.password, loginForm.twoFactorCode);
       
       if (result.requires2FA) {
         setRequires2FA(true);
@@ -234,18 +240,40 @@ export default function LoginSignup() {
                   <div className="space-y-2">
                     <Label htmlFor="login-2fa" className="text-gray-300">
                       <Key className="inline h-4 w-4 mr-2" />
-                      2FA Code
+                      {useRecoveryCode ? 'Recovery Code' : '2FA Code'}
                     </Label>
-                    <Input
-                      id="login-2fa"
-                      type="text"
-                      value={loginForm.twoFactorCode || ''}
-                      onChange={(e) => handleInputChange('login', 'twoFactorCode', e.target.value)}
-                      placeholder="Enter 6-digit code"
-                      className="bg-gray-700 border-gray-600 text-white placeholder:text-gray-400"
-                      maxLength={6}
-                      required
-                    />
+                    {useRecoveryCode ? (
+                      <Input
+                        id="login-2fa"
+                        type="text"
+                        value={loginForm.recoveryCode || ''}
+                        onChange={(e) => handleInputChange('login', 'recoveryCode', e.target.value)}
+                        placeholder="xxxxx-xxxxx"
+                        className="bg-gray-700 border-gray-600 text-white placeholder:text-gray-400"
+                        maxLength={11}
+                        required
+                      />
+                    ) : (
+                      <Input
+                        id="login-2fa"
+                        type="text"
+                        inputMode="numeric"
+                        autoComplete="one-time-code"
+                        value={loginForm.twoFactorCode || ''}
+                        onChange={(e) => handleInputChange('login', 'twoFactorCode', e.target.value)}
+                        placeholder="Enter 6-digit code"
+                        className="bg-gray-700 border-gray-600 text-white placeholder:text-gray-400"
+                        maxLength={6}
+                        required
+                      />
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+                      className="text-sm text-green-400 hover:text-green-300"
+                    >
+                      {useRecoveryCode ? 'Use authenticator code instead' : 'Lost your device? Use a recovery code'}
+                    </button>
                   </div>
                 )}
 
@@ -1,8 +1,10 @@
 import { useState } from "react";
 import { cn } from "@/lib/utils";
 import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
 
 interface OptimizationSetting {
+  id?: string; // passed to onOptimize while the setting is switched on
   label: string;
   enabled: boolean;
 }
@@ -15,7 +17,9 @@ interface OptimizationCardProps {
   buttonText: string;
   buttonColor: string;
   settings?: OptimizationSetting[];
-  onOptimize?: () => void;
+  onOptimize?: (enabledIds: string[]) => void;
+  // Shown instead of the button while an optimization runs
+  progress?: { value: number; label: string } | null;
 }
 
 export function OptimizationCard({
@@ -26,7 +30,8 @@ export function OptimizationCard({
   buttonText,
   buttonColor,
   settings = [],
-  onOptimize
+  onOptimize,
+  progress
 }: OptimizationCardProps) {
   const [settingsState, setSettingsState] = useState(
     settings.reduce((acc, setting, index) => ({
@@ -42,6 +47,10 @@ export function OptimizationCard({
     }));
   };
 
+  const enabledIds = settings
+    .filter((setting, index) => setting.id && settingsState[index])
+    .map(setting => setting.id!);
+
   return (
     <div className="bg-dark-card rounded-xl p-6 border border-dark-border card-hover">
       <div className="flex items-center justify-between mb-6">
@@ -53,16 +62,25 @@ export function OptimizationCard({
           </div>
         </div>
         <button
-          onClick={onOptimize}
+          onClick={() => onOptimize?.(enabledIds)}
+          disabled={!!progress || (settings.some(setting => setting.id) && enabledIds.length === 0)}
           className={cn(
             "px-4 py-2 rounded-lg font-medium transition-all duration-300 hover:scale-105",
+            "disabled:opacity-50 disabled:hover:scale-100",
             buttonColor
           )}
         >
-          {buttonText}
+          {progress ? <i className="fas fa-spinner animate-spin" /> : buttonText}
         </button>
       </div>
 
+      {progress && (
+        <div className="mb-6 space-y-2">
+          <Progress value={progress.value} className="h-2" />
+          <p className="text-sm text-gray-400">{progress.label}</p>
+        </div>
+      )}
+
       {settings.length > 0 && (
         <div className="space-y-4">
           {settings.map((setting, index) => (
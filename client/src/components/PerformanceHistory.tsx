@@ -0,0 +1,261 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  ResponsiveContainer, ComposedChart, Line, XAxis, YAxis, Tooltip, ReferenceArea, CartesianGrid,
+  type TooltipProps
+} from "recharts";
+import type { GamingSession } from "@shared/schema";
+import {
+  statsResolutions, metricValue,
+  type MetricSummaries, type StatsHistoryResponse, type StatsMetric, type StatsResolution
+} from "@shared/statsHistory";
+import { Button } from "@/components/ui/button";
+import { useRealtimeMessage, useRealtimeTopics } from "@/hooks/useWebSocket";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+
+type RangeKey = "5m" | "1h" | "24h" | "7d";
+
+const ranges: Record<RangeKey, { label: string; spanMs: number; resolution: StatsResolution }> = {
+  "5m": { label: "5 min", spanMs: 5 * 60_000, resolution: "10s" },
+  "1h": { label: "1 h", spanMs: 60 * 60_000, resolution: "1m" },
+  "24h": { label: "24 h", spanMs: 24 * 60 * 60_000, resolution: "15m" },
+  "7d": { label: "7 d", spanMs: 7 * 24 * 60 * 60_000, resolution: "1h" },
+};
+
+// "percent" shares the left axis with temperatures; the right axis takes everything else
+const chartMetrics: { key: StatsMetric; label: string; unit: string; color: string; axis: "percent" | "value" }[] = [
+  { key: "cpuUsage", label: "CPU", unit: "%", color: "#00ff88", axis: "percent" },
+  { key: "gpuUsage", label: "GPU", unit: "%", color: "#00d4ff", axis: "percent" },
+  { key: "cpuTemp", label: "CPU Temp", unit: "°C", color: "#ffb020", axis: "percent" },
+  { key: "gpuTemp", label: "GPU Temp", unit: "°C", color: "#ff5c5c", axis: "percent" },
+  { key: "ramUsed", label: "RAM", unit: "GB", color: "#9d4edd", axis: "value" },
+  { key: "networkPing", label: "Ping", unit: "ms", color: "#f5e663", axis: "value" },
+  { key: "fps", label: "FPS", unit: " fps", color: "#ff6ec7", axis: "value" },
+];
+
+interface ChartPoint {
+  time: number;
+  // Missing on the points that break the line across a gap in the data
+  metrics?: Partial<MetricSummaries>;
+  [metric: string]: number | Partial<MetricSummaries> | null | undefined;
+}
+
+function toPoint(time: number, metrics: Partial<MetricSummaries>): ChartPoint {
+  const point: ChartPoint = { time, metrics };
+  chartMetrics.forEach(({ key }) => { point[key] = metrics[key]?.avg ?? null; });
+  return point;
+}
+
+function nullPoint(time: number): ChartPoint {
+  const point: ChartPoint = { time };
+  chartMetrics.forEach(({ key }) => { point[key] = null; });
+  return point;
+}
+
+// Buckets with no samples are left out by the API; break the line there instead of bridging it
+function withGaps(points: ChartPoint[], maxGapMs: number): ChartPoint[] {
+  return points.flatMap((point, i) =>
+    i > 0 && point.time - points[i - 1].time > maxGapMs ? [nullPoint(points[i - 1].time + 1), point] : [point]);
+}
+
+function formatTime(time: number, range: RangeKey) {
+  const date = new Date(time);
+  if (range === "7d") {
+    return date.toLocaleDateString(undefined, { weekday: "short", hour: "2-digit" });
+  }
+  return date.toLocaleTimeString(undefined, range === "5m"
+    ? { hour: "2-digit", minute: "2-digit", second: "2-digit" }
+    : { hour: "2-digit", minute: "2-digit" });
+}
+
+function HistoryTooltip({ active, payload, label }: TooltipProps<number, string>) {
+  const metrics = (payload?.[0]?.payload as ChartPoint | undefined)?.metrics;
+  if (!active || !metrics) return null;
+
+  return (
+    <div className="bg-dark-bg border border-dark-border rounded-lg p-3 text-sm shadow-lg">
+      <p className="text-gray-400 mb-2">{new Date(label as number).toLocaleString()}</p>
+      {payload!.map(entry => {
+        const metric = chartMetrics.find(m => m.key === entry.dataKey)!;
+        const summary = metrics[metric.key];
+        if (!summary) return null;
+        const spread = summary.min !== summary.max
+          ? ` (min ${summary.min} · max ${summary.max} · p95 ${summary.p95})`
+          : "";
+        return (
+          <p key={metric.key} style={{ color: metric.color }}>
+            {metric.label}: {summary.avg}{metric.unit}
+            <span className="text-gray-500">{spread}</span>
+          </p>
+        );
+      })}
+    </div>
+  );
+}
+
+export function PerformanceHistory() {
+  const [range, setRange] = useState<RangeKey>("1h");
+  const [visible, setVisible] = useState<StatsMetric[]>(["cpuUsage", "gpuUsage", "gpuTemp"]);
+  const [livePoints, setLivePoints] = useState<ChartPoint[]>([]);
+  const [now, setNow] = useState(Date.now());
+
+  const { spanMs, resolution } = ranges[range];
+  const bucketMs = statsResolutions[resolution];
+
+  const { data: history } = useQuery<StatsHistoryResponse>({
+    queryKey: ['/api/system/stats/history', range],
+    queryFn: async () => {
+      const from = new Date(Date.now() - spanMs).toISOString();
+      const response = await apiRequest('GET', `/api/system/stats/history?from=${encodeURIComponent(from)}&resolution=${resolution}`);
+      return response.json();
+    },
+    refetchInterval: Math.max(bucketMs, 60_000),
+  });
+
+  const { data: sessionData } = useQuery<{ sessions: GamingSession[] }>({
+    queryKey: ['/api/gaming-sessions', range],
+    queryFn: async () => {
+      const from = new Date(Date.now() - spanMs).toISOString();
+      const response = await apiRequest('GET', `/api/gaming-sessions?from=${encodeURIComponent(from)}`);
+      return response.json();
+    },
+    refetchInterval: 60_000,
+  });
+
+  // Fresh history covers everything up to its last bucket; keep only the live points after it
+  useEffect(() => {
+    setNow(Date.now());
+    const lastBucket = history?.buckets[history.buckets.length - 1];
+    if (!lastBucket) return;
+    const coveredUntil = Date.parse(lastBucket.start) + bucketMs;
+    setLivePoints(points => points.filter(p => p.time >= coveredUntil));
+  }, [history, bucketMs]);
+
+  useEffect(() => {
+    setLivePoints([]);
+    setNow(Date.now());
+  }, [range]);
+
+  useRealtimeTopics(['stats']);
+  useRealtimeMessage('systemStats', (stats) => {
+    const time = stats.timestamp ? new Date(stats.timestamp).getTime() : Date.now();
+    const metrics = Object.fromEntries(chartMetrics.map(({ key }) => {
+      const value = metricValue(stats, key);
+      return [key, { min: value, avg: value, max: value, p95: value }];
+    })) as Partial<MetricSummaries>;
+
+    setNow(Date.now());
+    setLivePoints(points => [...points.filter(p => p.time >= time - spanMs), toPoint(time, metrics)]);
+  });
+
+  const from = now - spanMs;
+  const data = useMemo(() => {
+    const historical = (history?.buckets ?? []).map(bucket => toPoint(Date.parse(bucket.start), bucket.metrics));
+    const points = [...historical, ...livePoints].filter(p => p.time >= from - bucketMs);
+    return withGaps(points, bucketMs * 2);
+  }, [history, livePoints, from, bucketMs]);
+
+  const sessions = sessionData?.sessions ?? [];
+
+  const toggleMetric = (key: StatsMetric) => {
+    setVisible(current => current.includes(key)
+      ? current.filter(k => k !== key)
+      : [...current, key]);
+  };
+
+  return (
+    <div className="bg-dark-card rounded-xl p-6 border border-dark-border mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="flex items-center">
+          <i className="fas fa-chart-line text-neon-blue text-2xl mr-4 neon-glow" />
+          <div>
+            <h3 className="text-xl font-bold text-white">Performance History</h3>
+            <p className="text-gray-400">Averages per interval; gaming sessions are shaded</p>
+          </div>
+        </div>
+        <div className="flex space-x-2">
+          {(Object.keys(ranges) as RangeKey[]).map(key => (
+            <Button
+              key={key}
+              size="sm"
+              variant={range === key ? "default" : "outline"}
+              onClick={() => setRange(key)}
+              className={range === key ? "bg-neon-blue text-dark-bg hover:bg-neon-blue/90" : "border-dark-border text-gray-300"}
+            >
+              {ranges[key].label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {chartMetrics.map(metric => (
+          <button
+            key={metric.key}
+            onClick={() => toggleMetric(metric.key)}
+            className={cn(
+              "px-3 py-1 rounded-full text-xs border transition-colors",
+              visible.includes(metric.key) ? "text-dark-bg" : "text-gray-400 border-dark-border bg-transparent"
+            )}
+            style={visible.includes(metric.key) ? { backgroundColor: metric.color, borderColor: metric.color } : undefined}
+          >
+            {metric.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="h-72">
+        {data.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-gray-500">
+            No samples recorded in this range yet
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={data} margin={{ top: 10, right: 10, bottom: 0, left: 0 }}>
+              <CartesianGrid stroke="hsl(240, 11%, 24%)" strokeDasharray="3 3" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={[from, now]}
+                tickFormatter={(time: number) => formatTime(time, range)}
+                stroke="#9ca3af"
+                fontSize={12}
+              />
+              <YAxis yAxisId="percent" stroke="#9ca3af" fontSize={12} domain={[0, 100]} />
+              <YAxis yAxisId="value" orientation="right" stroke="#9ca3af" fontSize={12} />
+              <Tooltip content={<HistoryTooltip />} />
+
+              {sessions.map(session => (
+                <ReferenceArea
+                  key={session.id}
+                  yAxisId="percent"
+                  x1={Math.max(new Date(session.startedAt).getTime(), from)}
+                  x2={session.endedAt ? new Date(session.endedAt).getTime() : now}
+                  fill="#9d4edd"
+                  fillOpacity={0.15}
+                  label={{ value: session.gameName, position: "insideTopLeft", fill: "#c4a1f0", fontSize: 12 }}
+                />
+              ))}
+
+              {chartMetrics.filter(m => visible.includes(m.key)).map(metric => (
+                <Line
+                  key={metric.key}
+                  yAxisId={metric.axis}
+                  dataKey={metric.key}
+                  name={metric.label}
+                  stroke={metric.color}
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                  connectNulls={false}
+                />
+              ))}
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,302 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { GameProfile } from "@shared/schema";
+import {
+  LOWER_PRIORITY_NICE, RAISE_PRIORITY_NICE,
+  type ProcessActionResult, type ProcessEntry, type ProcessListResponse, type ProcessSortKey
+} from "@shared/processes";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+
+const REFRESH_MS = 3000;
+
+type Target = { pid: number; name: string };
+type PendingAction = { kind: "kill" } | { kind: "renice"; nice: number; label: string };
+
+const columns: { key: ProcessSortKey; label: string; className?: string }[] = [
+  { key: "name", label: "Process" },
+  { key: "pid", label: "PID", className: "w-20" },
+  { key: "user", label: "User", className: "w-28" },
+  { key: "cpu", label: "CPU", className: "w-20 text-right" },
+  { key: "memory", label: "Memory", className: "w-24 text-right" },
+];
+
+function formatBytes(bytes: number) {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)}GB`;
+  if (bytes >= 1024 ** 2) return `${Math.round(bytes / 1024 ** 2)}MB`;
+  return `${Math.round(bytes / 1024)}KB`;
+}
+
+// Live view of the host's processes with kill/renice and per-profile kill lists
+export function ProcessManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [sort, setSort] = useState<ProcessSortKey>("cpu");
+  const [order, setOrder] = useState<"asc" | "desc">("desc");
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<Target[]>([]);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [forceKill, setForceKill] = useState(false);
+  const [profileId, setProfileId] = useState<string>("");
+
+  const { data, isLoading } = useQuery<ProcessListResponse>({
+    queryKey: ['/api/processes', sort, order, search],
+    queryFn: async () => {
+      const params = new URLSearchParams({ sort, order });
+      if (search.trim()) params.set("q", search.trim());
+      const response = await apiRequest('GET', `/api/processes?${params}`);
+      return response.json();
+    },
+    refetchInterval: REFRESH_MS,
+  });
+  const processes = data?.processes ?? [];
+
+  const { data: profileData } = useQuery<{ profiles: GameProfile[] }>({
+    queryKey: ['/api/game-profiles'],
+  });
+  // Templates are read-only, so kill lists can only go on the user's own profiles
+  const ownProfiles = (profileData?.profiles ?? []).filter(profile => profile.userId);
+  const profile = ownProfiles.find(p => p.id === profileId);
+
+  const isSelected = (proc: ProcessEntry) => selected.some(t => t.pid === proc.pid && t.name === proc.name);
+  const toggle = (proc: ProcessEntry) => {
+    setSelected(prev => isSelected(proc)
+      ? prev.filter(t => t.pid !== proc.pid)
+      : [...prev, { pid: proc.pid, name: proc.name }]);
+  };
+
+  const sortBy = (key: ProcessSortKey) => {
+    if (key === sort) {
+      setOrder(order === "asc" ? "desc" : "asc");
+    } else {
+      setSort(key);
+      setOrder(key === "name" || key === "user" ? "asc" : "desc");
+    }
+  };
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: PendingAction) => {
+      const body = action.kind === "kill"
+        ? { processes: selected, signal: forceKill ? "SIGKILL" : "SIGTERM", confirm: true }
+        : { processes: selected, nice: action.nice, confirm: true };
+      const response = await apiRequest('POST', `/api/processes/${action.kind}`, body);
+      return (await response.json()).results as ProcessActionResult[];
+    },
+    onSuccess: (results, action) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/processes'] });
+      const failed = results.filter(result => !result.ok);
+      const done = results.length - failed.length;
+      toast({
+        title: action.kind === "kill" ? `Terminated ${done} of ${results.length}` : `Changed priority of ${done} of ${results.length}`,
+        description: failed.length
+          ? failed.map(result => `${result.name}: ${result.error}`).join("; ")
+          : results.map(result => result.name).join(", "),
+        variant: done === 0 ? "destructive" : "default",
+      });
+      setSelected(prev => prev.filter(t => failed.some(result => result.pid === t.pid)));
+      setPending(null);
+      setForceKill(false);
+    },
+    onError: () => {
+      toast({ title: "Action Failed", description: "The server could not apply the action.", variant: "destructive" });
+      setPending(null);
+    },
+  });
+
+  // Adds the selection to the profile's background kill list
+  const saveListMutation = useMutation({
+    mutationFn: async () => {
+      if (!profile) return null;
+      const existing = profile.settings.processRules;
+      const names = Array.from(new Set(selected.map(t => t.name)))
+        .filter(name => !existing.some(rule => rule.process.toLowerCase() === name.toLowerCase()));
+      const processRules = [...existing, ...names.map(process => ({ process, action: "kill" as const }))];
+      const response = await apiRequest('PUT', `/api/game-profiles/${profile.id}`, {
+        settings: { ...profile.settings, processRules },
+      });
+      return { profile: (await response.json()).profile as GameProfile, added: names.length };
+    },
+    onSuccess: (result) => {
+      if (!result) return;
+      queryClient.invalidateQueries({ queryKey: ['/api/game-profiles'] });
+      toast({
+        title: "Kill List Saved",
+        description: `${result.added} process${result.added === 1 ? "" : "es"} added to ${result.profile.name}.`,
+      });
+    },
+    onError: () => {
+      toast({ title: "Save Failed", description: "Could not update the profile's kill list.", variant: "destructive" });
+    },
+  });
+
+  // Selects the running processes the profile's kill list names
+  const selectFromProfile = () => {
+    if (!profile) return;
+    const names = profile.settings.processRules
+      .filter(rule => rule.action === "kill")
+      .map(rule => rule.process.toLowerCase());
+    const matches = processes.filter(proc => !proc.protectedReason && names.includes(proc.name.toLowerCase()));
+    setSelected(matches.map(proc => ({ pid: proc.pid, name: proc.name })));
+    if (matches.length === 0) {
+      toast({ title: "Nothing to Select", description: `None of ${profile.name}'s kill list is running.` });
+    }
+  };
+
+  return (
+    <div className="bg-dark-card rounded-xl p-6 border border-dark-border card-hover">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center">
+          <i className="fas fa-tasks text-neon-purple text-2xl mr-4 neon-glow" />
+          <div>
+            <h3 className="text-xl font-bold text-white">Background Process Management</h3>
+            <p className="text-gray-400">Select and terminate resource-heavy processes</p>
+          </div>
+        </div>
+        <div className="flex space-x-2">
+          <Button
+            variant="outline"
+            onClick={() => setPending({ kind: "renice", nice: LOWER_PRIORITY_NICE, label: "Lower priority" })}
+            disabled={selected.length === 0}
+            className="border-dark-border text-gray-300"
+          >
+            <i className="fas fa-arrow-down mr-2" />
+            Lower Priority
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setPending({ kind: "renice", nice: RAISE_PRIORITY_NICE, label: "Raise priority" })}
+            disabled={selected.length === 0}
+            className="border-dark-border text-gray-300"
+          >
+            <i className="fas fa-arrow-up mr-2" />
+            Raise Priority
+          </Button>
+          <Button
+            onClick={() => setPending({ kind: "kill" })}
+            disabled={selected.length === 0}
+            className="bg-red-500 text-white hover:bg-red-600 disabled:bg-gray-600 disabled:text-gray-400"
+          >
+            <i className="fas fa-times mr-2" />
+            Terminate Selected
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between mb-4 space-x-4">
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Filter by name or command"
+          className="bg-dark-bg border-dark-border text-white max-w-xs"
+        />
+        <div className="flex items-center space-x-2">
+          <Select value={profileId} onValueChange={(value: string) => setProfileId(value)}>
+            <SelectTrigger className="w-48 bg-dark-bg border-dark-border text-white">
+              <SelectValue placeholder="Game profile" />
+            </SelectTrigger>
+            <SelectContent>
+              {ownProfiles.map(p => (
+                <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={selectFromProfile} disabled={!profile} className="border-dark-border text-gray-300">
+            Select Kill List
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => saveListMutation.mutate()}
+            disabled={!profile || selected.length === 0 || saveListMutation.isPending}
+            className="border-dark-border text-gray-300"
+          >
+            Save as Kill List
+          </Button>
+        </div>
+      </div>
+
+      <div className="bg-dark-bg rounded-lg max-h-96 overflow-auto">
+        <table className="w-full text-sm">
+          <thead className="text-gray-400 sticky top-0 bg-dark-bg">
+            <tr>
+              <th className="w-10 p-3" />
+              {columns.map(column => (
+                <th key={column.key} className={cn("p-3 text-left font-medium", column.className)}>
+                  <button onClick={() => sortBy(column.key)} className="hover:text-white">
+                    {column.label}
+                    {sort === column.key && <i className={cn("fas ml-1", order === "asc" ? "fa-sort-up" : "fa-sort-down")} />}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {processes.map(proc => (
+              <tr key={proc.pid} className="border-t border-dark-border hover:bg-dark-card">
+                <td className="p-3">
+                  {proc.protectedReason ? (
+                    <i className="fas fa-lock text-gray-500" title={proc.protectedReason} />
+                  ) : (
+                    <Switch checked={isSelected(proc)} onCheckedChange={() => toggle(proc)} />
+                  )}
+                </td>
+                <td className="p-3">
+                  <span className="text-white font-medium">{proc.name}</span>
+                  {proc.nice !== 0 && <span className="text-gray-500 text-xs ml-2">nice {proc.nice}</span>}
+                  <div className="text-xs text-gray-500 truncate max-w-md" title={proc.command}>{proc.command}</div>
+                </td>
+                <td className="p-3 text-gray-300">{proc.pid}</td>
+                <td className="p-3 text-gray-300">{proc.user}</td>
+                <td className="p-3 text-right text-gray-300">{proc.cpuPercent.toFixed(1)}%</td>
+                <td className="p-3 text-right text-gray-300">{formatBytes(proc.rssBytes)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {!isLoading && processes.length === 0 && (
+          <p className="text-gray-400 text-center p-6">No processes match.</p>
+        )}
+      </div>
+      {data && data.total > processes.length && (
+        <p className="text-gray-500 text-xs mt-2">Showing {processes.length} of {data.total} processes.</p>
+      )}
+
+      <Dialog open={!!pending} onOpenChange={(open: boolean) => !open && setPending(null)}>
+        <DialogContent className="max-w-md bg-dark-card border-dark-border">
+          <DialogHeader>
+            <DialogTitle className="text-white">
+              {pending?.kind === "kill" ? "Terminate" : pending?.label} {selected.length} process{selected.length === 1 ? "" : "es"}?
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-gray-300 text-sm">{selected.map(t => `${t.name} (${t.pid})`).join(", ")}</p>
+            {pending?.kind === "kill" && (
+              <div className="flex items-center justify-between">
+                <Label className="text-gray-300">Force kill (unsaved work is lost)</Label>
+                <Switch checked={forceKill} onCheckedChange={(checked: boolean) => setForceKill(checked)} />
+              </div>
+            )}
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setPending(null)} className="border-dark-border text-gray-300">
+                Cancel
+              </Button>
+              <Button
+                onClick={() => pending && actionMutation.mutate(pending)}
+                disabled={actionMutation.isPending}
+                className={pending?.kind === "kill" ? "bg-red-500 text-white hover:bg-red-600" : "bg-neon-blue text-dark-bg hover:bg-neon-blue/90"}
+              >
+                Confirm
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { GameProfile } from "@shared/schema";
+import type { ProfileExport, ProfileImportPreview } from "@shared/profileShare";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface ProfileExportDialogProps {
+  profile: GameProfile | null;
+  onClose: () => void;
+}
+
+export function ProfileExportDialog({ profile, onClose }: ProfileExportDialogProps) {
+  const { toast } = useToast();
+
+  const { data } = useQuery<ProfileExport>({
+    queryKey: ['/api/game-profiles', profile?.id, 'export'],
+    enabled: !!profile,
+  });
+
+  const copyCode = async () => {
+    if (!data) return;
+    await navigator.clipboard.writeText(data.code);
+    toast({ title: "Share Code Copied", description: "Paste it into Import Profile on the other machine." });
+  };
+
+  const downloadJson = () => {
+    if (!data || !profile) return;
+    const blob = new Blob([JSON.stringify(data.document, null, 2)], { type: "application/json" });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = `${profile.name.replace(/[^\w-]+/g, "-").toLowerCase()}.nexus-profile.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  return (
+    <Dialog open={!!profile} onOpenChange={(open: boolean) => !open && onClose()}>
+      <DialogContent className="max-w-lg bg-dark-card border-dark-border">
+        <DialogHeader>
+          <DialogTitle className="flex items-center text-white">
+            <i className="fas fa-share-nodes text-neon-blue text-2xl mr-3 neon-glow" />
+            Share {profile?.name}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label className="text-gray-300">Share code</Label>
+            <Textarea
+              readOnly
+              value={data?.code ?? "Generating..."}
+              className="bg-dark-bg border-dark-border text-white font-mono text-xs h-28"
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={downloadJson} disabled={!data} className="border-dark-border text-gray-300">
+              <i className="fas fa-download mr-2" />
+              Download JSON
+            </Button>
+            <Button onClick={copyCode} disabled={!data} className="bg-neon-blue text-dark-bg hover:bg-neon-blue/90">
+              <i className="fas fa-copy mr-2" />
+              Copy Code
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ProfileImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return "—";
+  if (Array.isArray(value)) return value.length ? value.map(item => typeof item === "object" ? Object.values(item).join(" ") : String(item)).join(", ") : "none";
+  return String(value);
+}
+
+// A pasted share code, or the contents of an exported JSON file
+function toImportBody(text: string) {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("{")) {
+    try {
+      return { document: JSON.parse(trimmed) };
+    } catch {
+      return { code: trimmed };
+    }
+  }
+  return { code: trimmed };
+}
+
+export function ProfileImportDialog({ isOpen, onClose }: ProfileImportDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [input, setInput] = useState("");
+  const [name, setName] = useState("");
+  const [preview, setPreview] = useState<ProfileImportPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const close = () => {
+    setInput("");
+    setName("");
+    setPreview(null);
+    setError(null);
+    onClose();
+  };
+
+  const readError = (err: unknown) => {
+    // apiRequest errors read "400: {json}"
+    const message = err instanceof Error ? err.message : String(err);
+    try {
+      return JSON.parse(message.slice(message.indexOf(":") + 1)).error as string;
+    } catch {
+      return message;
+    }
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/game-profiles/import/preview', toImportBody(input));
+      return response.json() as Promise<ProfileImportPreview>;
+    },
+    onSuccess: (result) => {
+      setPreview(result);
+      setName(result.document.profile.name);
+      setError(null);
+    },
+    onError: (err) => {
+      setPreview(null);
+      setError(readError(err));
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (replace: boolean) => {
+      const response = await apiRequest('POST', '/api/game-profiles/import', {
+        ...toImportBody(input),
+        name: name.trim() || undefined,
+        replaceId: replace ? preview?.existing?.id : undefined,
+      });
+      return response.json() as Promise<{ profile: GameProfile }>;
+    },
+    onSuccess: ({ profile }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/game-profiles'] });
+      toast({ title: "Profile Imported", description: `${profile.name} has been added to your profiles.` });
+      close();
+    },
+    onError: (err) => setError(readError(err)),
+  });
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    setInput(await file.text());
+    setPreview(null);
+  };
+
+  const canReplace = !!preview?.existing && !preview.existing.readOnly;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open: boolean) => !open && close()}>
+      <DialogContent className="max-w-2xl bg-dark-card border-dark-border">
+        <DialogHeader>
+          <DialogTitle className="flex items-center text-white">
+            <i className="fas fa-file-import text-neon-green text-2xl mr-3 neon-glow" />
+            Import Profile
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label className="text-gray-300">Share code or profile JSON</Label>
+            <Textarea
+              value={input}
+              onChange={(e) => {
+                setInput(e.target.value);
+                setPreview(null);
+              }}
+              placeholder="NXP1.…"
+              className="bg-dark-bg border-dark-border text-white font-mono text-xs h-28"
+            />
+            <div className="flex items-center justify-between">
+              <Input
+                type="file"
+                accept="application/json,.json"
+                onChange={(e) => loadFile(e.target.files?.[0])}
+                className="bg-dark-bg border-dark-border text-gray-300 max-w-xs"
+              />
+              <Button
+                onClick={() => previewMutation.mutate()}
+                disabled={!input.trim() || previewMutation.isPending}
+                className="bg-neon-blue text-dark-bg hover:bg-neon-blue/90"
+              >
+                Check
+              </Button>
+            </div>
+          </div>
+
+          {error && (
+            <p className="text-red-400 text-sm">
+              <i className="fas fa-circle-exclamation mr-2" />
+              {error}
+            </p>
+          )}
+
+          {preview && (
+            <div className="space-y-3">
+              {preview.sourceVersion !== preview.document.version && (
+                <p className="text-gray-400 text-sm">Upgraded from profile format {preview.sourceVersion}.</p>
+              )}
+              {preview.unknownFields.length > 0 && (
+                <div className="p-3 rounded-lg border border-neon-yellow/30 bg-neon-yellow/10 text-sm">
+                  <p className="text-neon-yellow font-medium">These fields are not supported and will not be imported:</p>
+                  <p className="text-gray-300 font-mono text-xs mt-1">{preview.unknownFields.join(", ")}</p>
+                </div>
+              )}
+
+              {preview.existing ? (
+                <div className="space-y-2">
+                  <p className="text-gray-300 text-sm">
+                    Compared with {preview.existing.readOnly ? "the default" : "your"} <span className="text-white">{preview.existing.name}</span> profile:
+                    {preview.changes.length === 0 && " identical."}
+                  </p>
+                  {preview.changes.length > 0 && (
+                    <div className="max-h-48 overflow-y-auto rounded-lg border border-dark-border">
+                      <table className="w-full text-xs">
+                        <thead className="text-gray-400 bg-dark-bg">
+                          <tr>
+                            <th className="text-left p-2">Setting</th>
+                            <th className="text-left p-2">Current</th>
+                            <th className="text-left p-2">Imported</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {preview.changes.map(change => (
+                            <tr key={change.path} className="border-t border-dark-border">
+                              <td className="p-2 text-gray-300 font-mono">{change.path}</td>
+                              <td className="p-2 text-red-400">{formatValue(change.current)}</td>
+                              <td className="p-2 text-neon-green">{formatValue(change.incoming)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <p className="text-gray-300 text-sm">No existing profile is named {preview.document.profile.name}.</p>
+              )}
+
+              <div className="space-y-2">
+                <Label className="text-gray-300">Save as</Label>
+                <Input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="bg-dark-bg border-dark-border text-white"
+                />
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                {canReplace && (
+                  <Button
+                    variant="outline"
+                    onClick={() => importMutation.mutate(true)}
+                    disabled={importMutation.isPending}
+                    className="border-dark-border text-gray-300"
+                  >
+                    Replace {preview.existing!.name}
+                  </Button>
+                )}
+                <Button
+                  onClick={() => importMutation.mutate(false)}
+                  disabled={importMutation.isPending}
+                  className="bg-neon-green text-dark-bg hover:bg-neon-green/90"
+                >
+                  <i className="fas fa-file-import mr-2" />
+                  Import as New
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
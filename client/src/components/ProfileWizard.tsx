@@ -0,0 +1,526 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { GameProfile } from "@shared/schema";
+import {
+  gpuPresets, processRuleActions,
+  type GameProfileSettings, type OptimizationTarget, type ProcessRule
+} from "@shared/gameProfiles";
+import { findKnownGame, knownGames, recommendProfileSettings } from "@shared/games";
+import type { HardwareInfo } from "@shared/hardware";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+
+interface ProfileWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface FpsTargets {
+  fortnite: number;
+  global: number;
+}
+
+const steps = ["Game", "Goal", "FPS Target", "Options", "Review"];
+
+const goals: { value: OptimizationTarget; label: string; icon: string; description: string }[] = [
+  { value: "fps", label: "Max FPS", icon: "fas fa-bolt", description: "Highest frame rate, visuals come second" },
+  { value: "balanced", label: "Balanced", icon: "fas fa-scale-balanced", description: "Smooth play without pushing the hardware" },
+  { value: "quality", label: "Quality", icon: "fas fa-image", description: "Best visuals at a steady frame rate" },
+  { value: "latency", label: "Low Latency", icon: "fas fa-stopwatch", description: "Fastest input and network response" },
+];
+
+const fpsOptions = [30, 60, 120, 144, 165, 240, 360];
+
+const gpuPresetLabels: Record<string, string> = {
+  default: "Driver default",
+  performance: "Performance",
+  balanced: "Balanced",
+  quiet: "Quiet",
+};
+
+const ruleActionLabels: Record<string, string> = {
+  kill: "Close",
+  lowerPriority: "Lower priority",
+  raisePriority: "Raise priority",
+};
+
+function describeHardware(hardware: HardwareInfo) {
+  const parts = [
+    hardware.cpuModel,
+    hardware.memoryGb ? `${hardware.memoryGb} GB RAM` : null,
+    ...hardware.gpus.filter(gpu => gpu.vendor !== "unknown").map(gpu => `${gpu.vendor.toUpperCase()} GPU`),
+  ];
+  return parts.filter(Boolean).join(" · ");
+}
+
+export function ProfileWizard({ isOpen, onClose }: ProfileWizardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [step, setStep] = useState(0);
+  const [gameId, setGameId] = useState<string | null>(null);
+  const [customGame, setCustomGame] = useState("");
+  const [goal, setGoal] = useState<OptimizationTarget>("balanced");
+  // undefined until picked, meaning the user's saved target; null means uncapped
+  const [fpsChoice, setFpsChoice] = useState<number | null | undefined>(undefined);
+  const [saveFpsDefault, setSaveFpsDefault] = useState(false);
+  // Stays null, following the recommendation, until the user changes an option
+  const [options, setOptions] = useState<GameProfileSettings | null>(null);
+  const [newRule, setNewRule] = useState("");
+  const [executablesText, setExecutablesText] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [activate, setActivate] = useState(true);
+
+  const { data: hardwareData } = useQuery<{ hardware: HardwareInfo }>({
+    queryKey: ['/api/system/hardware'],
+    enabled: isOpen,
+  });
+  const { data: userSettings } = useQuery<{ settings: { fpsTargets: FpsTargets | null } }>({
+    queryKey: ['/api/settings'],
+    enabled: isOpen,
+  });
+  const { data: detected, refetch: detectAgain, isFetching: detecting } = useQuery<{ games: { id: string; name: string; pid: number }[] }>({
+    queryKey: ['/api/games/detect'],
+    enabled: isOpen,
+    staleTime: 0,
+  });
+
+  const hardware = hardwareData?.hardware ?? null;
+  const game = gameId ? findKnownGame(gameId) : undefined;
+  const gameName = game?.name ?? customGame.trim();
+  // The saved targets are written back whole, so the default can only be changed once they have loaded
+  const savedFpsTargets = userSettings?.settings.fpsTargets ?? null;
+  const fpsTargets: FpsTargets = savedFpsTargets ?? { fortnite: 144, global: 240 };
+  const fpsTargetKey: keyof FpsTargets = gameId === "fortnite" ? "fortnite" : "global";
+  const fpsTarget = fpsChoice === undefined ? fpsTargets[fpsTargetKey] : fpsChoice;
+
+  // Pick the first running game for the user if they have not chosen one
+  useEffect(() => {
+    const first = detected?.games[0];
+    if (first && !gameId && !customGame) selectGame(first.id);
+  }, [detected]);
+
+  const recommended = useMemo(
+    () => recommendProfileSettings({ game, goal, fpsTarget, hardware }),
+    [game, goal, fpsTarget, hardware],
+  );
+  const settings: GameProfileSettings = { ...(options ?? recommended), optimization: goal, fpsCap: fpsTarget };
+
+  const reset = () => {
+    setStep(0);
+    setGameId(null);
+    setCustomGame("");
+    setGoal("balanced");
+    setFpsChoice(undefined);
+    setSaveFpsDefault(false);
+    setOptions(null);
+    setNewRule("");
+    setExecutablesText(null);
+    setName("");
+    setActivate(true);
+  };
+
+  const close = () => {
+    reset();
+    onClose();
+  };
+
+  function selectGame(id: string) {
+    const known = findKnownGame(id);
+    setGameId(id);
+    setCustomGame("");
+    if (known) {
+      setGoal(known.goal);
+      setName(known.name);
+    }
+  }
+
+  const updateOptions = (changes: Partial<GameProfileSettings>) => {
+    setOptions({ ...settings, ...changes });
+  };
+
+  const updateExecutables = (text: string) => {
+    setExecutablesText(text);
+    updateOptions({ executables: text.split(",").map(name => name.trim()).filter(Boolean) });
+  };
+
+  const addRule = () => {
+    const process = newRule.trim();
+    if (!process) return;
+    updateOptions({ processRules: [...settings.processRules, { process, action: "kill" }] });
+    setNewRule("");
+  };
+
+  const updateRule = (index: number, rule: ProcessRule | null) => {
+    const processRules = [...settings.processRules];
+    if (rule) processRules[index] = rule;
+    else processRules.splice(index, 1);
+    updateOptions({ processRules });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/game-profiles', {
+        name: name.trim() || gameName,
+        icon: game?.icon ?? "fas fa-gamepad",
+        settings,
+      });
+      let { profile } = await response.json() as { profile: GameProfile };
+
+      if (activate) {
+        const activated = await apiRequest('POST', `/api/game-profiles/${profile.id}/activate`);
+        profile = (await activated.json()).profile;
+      }
+      if (saveFpsDefault && fpsTarget && savedFpsTargets) {
+        await apiRequest('PUT', '/api/settings', { fpsTargets: { ...savedFpsTargets, [fpsTargetKey]: fpsTarget } });
+      }
+      return profile;
+    },
+    onSuccess: (profile) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/game-profiles'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
+      toast({
+        title: "Profile Created",
+        description: profile.isActive ? `${profile.name} is now your active profile.` : `${profile.name} is ready to use.`,
+      });
+      close();
+    },
+    onError: () => {
+      toast({
+        title: "Profile Not Saved",
+        description: "Check the profile options and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canContinue = step !== 0 || !!gameName;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open: boolean) => !open && close()}>
+      <DialogContent className="max-w-2xl bg-dark-card border-dark-border">
+        <DialogHeader>
+          <DialogTitle className="flex items-center text-white">
+            <i className="fas fa-wand-magic-sparkles text-neon-purple text-2xl mr-3 neon-glow" />
+            Create Game Profile
+          </DialogTitle>
+        </DialogHeader>
+
+        {/* Progress */}
+        <div className="flex items-center space-x-2">
+          {steps.map((label, index) => (
+            <div key={label} className="flex-1">
+              <div className={cn("h-1 rounded-full", index <= step ? "bg-neon-purple" : "bg-dark-border")} />
+              <p className={cn("text-xs mt-1", index === step ? "text-white" : "text-gray-500")}>{label}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="min-h-[320px] space-y-4">
+          {step === 0 && (
+            <>
+              {hardware && (
+                <p className="text-gray-400 text-sm">
+                  <i className="fas fa-microchip mr-2 text-neon-blue" />
+                  {describeHardware(hardware) || "Hardware details unavailable"}
+                </p>
+              )}
+              <div className="flex items-center justify-between">
+                <p className="text-gray-300 text-sm">
+                  {detected?.games.length
+                    ? `Running now: ${detected.games.map(g => g.name).join(", ")}`
+                    : "No known game is running"}
+                </p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => detectAgain()}
+                  disabled={detecting}
+                  className="text-neon-blue hover:text-neon-blue/80"
+                >
+                  <i className={cn("fas fa-magnifying-glass mr-2", detecting && "animate-pulse")} />
+                  Detect
+                </Button>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                {knownGames.map(known => (
+                  <button
+                    key={known.id}
+                    onClick={() => selectGame(known.id)}
+                    className={cn(
+                      "flex items-center p-3 rounded-lg border text-left transition-colors",
+                      gameId === known.id
+                        ? "border-neon-purple bg-neon-purple/10 text-white"
+                        : "border-dark-border bg-dark-bg text-gray-300 hover:border-gray-500"
+                    )}
+                  >
+                    <i className={cn(known.icon, "mr-3 text-neon-purple")} />
+                    <span className="text-sm">{known.name}</span>
+                  </button>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <Label className="text-gray-300">Another game</Label>
+                <Input
+                  value={customGame}
+                  onChange={(e) => {
+                    setCustomGame(e.target.value);
+                    setGameId(null);
+                    setName(e.target.value);
+                  }}
+                  placeholder="Game name"
+                  className="bg-dark-bg border-dark-border text-white"
+                />
+              </div>
+            </>
+          )}
+
+          {step === 1 && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {goals.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setGoal(option.value)}
+                  className={cn(
+                    "p-4 rounded-lg border text-left transition-colors",
+                    goal === option.value
+                      ? "border-neon-purple bg-neon-purple/10"
+                      : "border-dark-border bg-dark-bg hover:border-gray-500"
+                  )}
+                >
+                  <p className="text-white font-medium">
+                    <i className={cn(option.icon, "mr-2 text-neon-purple")} />
+                    {option.label}
+                    {game?.goal === option.value && <span className="text-neon-green text-xs ml-2">Recommended</span>}
+                  </p>
+                  <p className="text-gray-400 text-sm mt-1">{option.description}</p>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {step === 2 && (
+            <>
+              <p className="text-gray-400 text-sm">
+                Your {fpsTargetKey === "fortnite" ? "Fortnite" : "global"} FPS target is {fpsTargets[fpsTargetKey]} FPS.
+              </p>
+              <div className="grid grid-cols-4 gap-2">
+                {fpsOptions.map(fps => (
+                  <Button
+                    key={fps}
+                    variant="outline"
+                    onClick={() => setFpsChoice(fps)}
+                    className={cn(
+                      "border-dark-border",
+                      fpsTarget === fps ? "bg-neon-purple/20 border-neon-purple text-white" : "text-gray-300"
+                    )}
+                  >
+                    {fps}
+                  </Button>
+                ))}
+                <Button
+                  variant="outline"
+                  onClick={() => setFpsChoice(null)}
+                  className={cn(
+                    "border-dark-border",
+                    fpsTarget === null ? "bg-neon-purple/20 border-neon-purple text-white" : "text-gray-300"
+                  )}
+                >
+                  Uncapped
+                </Button>
+              </div>
+              {savedFpsTargets && fpsTarget !== null && fpsTarget !== savedFpsTargets[fpsTargetKey] && (
+                <div className="flex items-center space-x-3">
+                  <Switch checked={saveFpsDefault} onCheckedChange={setSaveFpsDefault} />
+                  <Label className="text-gray-300">Also make {fpsTarget} FPS my {fpsTargetKey === "fortnite" ? "Fortnite" : "global"} target</Label>
+                </div>
+              )}
+            </>
+          )}
+
+          {step === 3 && (
+            <>
+              <p className="text-gray-400 text-sm">
+                {options ? "Customized options" : "Recommended for your hardware and goal"}
+                {options && (
+                  <button
+                    onClick={() => {
+                      setOptions(null);
+                      setExecutablesText(null);
+                    }}
+                    className="text-neon-blue ml-2"
+                  >
+                    Use recommendation
+                  </button>
+                )}
+              </p>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label className="text-gray-300">GPU preset</Label>
+                  <Select
+                    value={settings.gpuPreset}
+                    onValueChange={(value: string) => updateOptions({ gpuPreset: value as GameProfileSettings["gpuPreset"] })}
+                  >
+                    <SelectTrigger className="bg-dark-bg border-dark-border text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {gpuPresets.map(preset => (
+                        <SelectItem key={preset} value={preset}>{gpuPresetLabels[preset]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-gray-300">Game process priority</Label>
+                  <Select
+                    value={settings.priority}
+                    onValueChange={(value: string) => updateOptions({ priority: value as GameProfileSettings["priority"] })}
+                  >
+                    <SelectTrigger className="bg-dark-bg border-dark-border text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="low">Low</SelectItem>
+                      <SelectItem value="medium">Medium</SelectItem>
+                      <SelectItem value="high">High</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <Label className="text-gray-300">Optimize TCP for gaming</Label>
+                <Switch
+                  checked={settings.network.tcpOptimized}
+                  onCheckedChange={(checked: boolean) => updateOptions({ network: { ...settings.network, tcpOptimized: checked } })}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label className="text-gray-300">Prioritize game traffic (QoS)</Label>
+                <Switch
+                  checked={settings.network.qos}
+                  onCheckedChange={(checked: boolean) => updateOptions({ network: { ...settings.network, qos: checked } })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-gray-300">Game executables</Label>
+                <Input
+                  value={executablesText ?? settings.executables.join(", ")}
+                  onChange={(e) => updateExecutables(e.target.value)}
+                  placeholder="e.g. Game-Win64-Shipping.exe, game*"
+                  className="bg-dark-bg border-dark-border text-white"
+                />
+                <p className="text-gray-500 text-xs">Activates this profile automatically while one of these is running.</p>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-gray-300">Background processes</Label>
+                {settings.processRules.map((rule, index) => (
+                  <div key={`${rule.process}-${index}`} className="flex items-center space-x-2">
+                    <span className="flex-1 text-white text-sm p-2 bg-dark-bg rounded border border-dark-border">{rule.process}</span>
+                    <Select
+                      value={rule.action}
+                      onValueChange={(value: string) => updateRule(index, { ...rule, action: value as ProcessRule["action"] })}
+                    >
+                      <SelectTrigger className="w-40 bg-dark-bg border-dark-border text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {processRuleActions.map(action => (
+                          <SelectItem key={action} value={action}>{ruleActionLabels[action]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="ghost" size="sm" onClick={() => updateRule(index, null)} className="text-gray-400 hover:text-red-400">
+                      <i className="fas fa-times" />
+                    </Button>
+                  </div>
+                ))}
+                <div className="flex space-x-2">
+                  <Input
+                    value={newRule}
+                    onChange={(e) => setNewRule(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && addRule()}
+                    placeholder="Process name, e.g. steamwebhelper"
+                    className="bg-dark-bg border-dark-border text-white"
+                  />
+                  <Button variant="outline" onClick={addRule} className="border-dark-border text-gray-300">Add</Button>
+                </div>
+              </div>
+            </>
+          )}
+
+          {step === 4 && (
+            <>
+              <div className="space-y-2">
+                <Label className="text-gray-300">Profile name</Label>
+                <Input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder={gameName}
+                  className="bg-dark-bg border-dark-border text-white"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                {[
+                  ["Game", gameName],
+                  ["Goal", goals.find(g => g.value === goal)?.label],
+                  ["FPS cap", settings.fpsCap ? `${settings.fpsCap} FPS` : "Uncapped"],
+                  ["Priority", settings.priority.charAt(0).toUpperCase() + settings.priority.slice(1)],
+                  ["GPU preset", gpuPresetLabels[settings.gpuPreset]],
+                  ["Network", [settings.network.tcpOptimized && "TCP tuned", settings.network.qos && "QoS"].filter(Boolean).join(", ") || "Unchanged"],
+                  ["Background processes", settings.processRules.length
+                    ? settings.processRules.map(rule => `${ruleActionLabels[rule.action]}: ${rule.process}`).join(", ")
+                    : "None"],
+                ].map(([label, value]) => (
+                  <div key={label} className="p-3 bg-dark-bg rounded-lg border border-dark-border">
+                    <p className="text-gray-400">{label}</p>
+                    <p className="text-white">{value}</p>
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center space-x-3">
+                <Switch checked={activate} onCheckedChange={setActivate} />
+                <Label className="text-gray-300">Make this my active profile</Label>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-between">
+          <Button
+            variant="ghost"
+            onClick={() => (step === 0 ? close() : setStep(step - 1))}
+            className="text-gray-300"
+          >
+            {step === 0 ? "Cancel" : "Back"}
+          </Button>
+          {step < steps.length - 1 ? (
+            <Button
+              onClick={() => setStep(step + 1)}
+              disabled={!canContinue}
+              className="bg-neon-purple text-white hover:bg-neon-purple/90"
+            >
+              Next
+            </Button>
+          ) : (
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending}
+              className="bg-neon-green text-dark-bg hover:bg-neon-green/90"
+            >
+              <i className="fas fa-save mr-2" />
+              Save Profile
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
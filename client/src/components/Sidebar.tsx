@@ -18,6 +18,7 @@ const sidebarItems: SidebarItem[] = [
   { href: "/network", icon: "fas fa-wifi", label: "Network Booster", color: "text-neon-blue" },
   { href: "/gpu", icon: "fas fa-display", label: "GPU Tuner", color: "text-neon-green" },
   { href: "/fortnite", icon: "fas fa-gamepad", label: "Fortnite Optimizer", color: "text-blue-400" },
+  { href: "/alerts", icon: "fas fa-bell", label: "Alerts", color: "text-red-400" },
   { href: "/settings", icon: "fas fa-cog", label: "Settings", color: "text-neon-yellow" },
 ];
 
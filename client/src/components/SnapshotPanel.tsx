@@ -0,0 +1,252 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { SystemSnapshot } from "@shared/schema";
+import type { SnapshotChange, SnapshotDiff, SnapshotSourceInfo } from "@shared/snapshots";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { isJobActive, useOptimizationJobs } from "@/hooks/useOptimizationJobs";
+import { apiRequest } from "@/lib/queryClient";
+
+export type SnapshotSummary = Omit<SystemSnapshot, "data">;
+
+export interface SnapshotListResponse {
+  snapshots: SnapshotSummary[];
+  sources: SnapshotSourceInfo[];
+}
+
+type Entry = { source: string; key: string };
+type PendingRestore = { snapshot: SnapshotSummary; entries?: Entry[] };
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return "(absent)";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}…` : text;
+}
+
+const entryId = (entry: Entry) => `${entry.source}\n${entry.key}`;
+
+function SnapshotChanges({ snapshot, sources, onRestore, busy }: {
+  snapshot: SnapshotSummary;
+  sources: SnapshotSourceInfo[];
+  onRestore: (entries: Entry[]) => void;
+  busy: boolean;
+}) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const { data, isLoading } = useQuery<SnapshotDiff>({
+    queryKey: ['/api/snapshots', snapshot.id, 'diff'],
+    staleTime: 0,
+  });
+  const titles = Object.fromEntries(sources.map(source => [source.id, source.title]));
+
+  const toggle = (change: SnapshotChange) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      const id = entryId(change);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  if (isLoading || !data) return <p className="text-sm text-gray-400 mt-3">Comparing with the current state…</p>;
+
+  return (
+    <div className="mt-3 bg-dark-bg rounded-lg p-3 space-y-2">
+      {data.unavailable.map(({ source, error }) => (
+        <p key={source} className="text-xs text-yellow-400">
+          <i className="fas fa-exclamation-triangle mr-2" />
+          {titles[source] ?? source}: {error}
+        </p>
+      ))}
+      {data.changes.length === 0 ? (
+        <p className="text-sm text-gray-400">Nothing has changed since this snapshot.</p>
+      ) : (
+        <>
+          {data.changes.map(change => (
+            <div key={entryId(change)} className="flex items-center justify-between text-sm">
+              <div className="min-w-0">
+                <p className="text-white truncate">
+                  <span className="text-gray-500 mr-2">{titles[change.source] ?? change.source}</span>
+                  {change.key}
+                </p>
+                <p className="text-xs text-gray-400 truncate">
+                  <span className="text-neon-green">{formatValue(change.snapshot)}</span>
+                  <span className="mx-2">→ now</span>
+                  <span className="text-yellow-400">{formatValue(change.current)}</span>
+                </p>
+              </div>
+              <Switch checked={selected.has(entryId(change))} onCheckedChange={() => toggle(change)} />
+            </div>
+          ))}
+          <div className="flex justify-end pt-2">
+            <Button
+              variant="outline"
+              disabled={selected.size === 0 || busy}
+              onClick={() => onRestore(data.changes.filter(change => selected.has(entryId(change)))
+                .map(({ source, key }) => ({ source, key })))}
+              className="border-dark-border text-gray-300"
+            >
+              Restore Selected ({selected.size})
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Lists the user's snapshots, compares one with the host and restores it in
+// whole or in part; restores run as jobs
+export function SnapshotPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingRestore | null>(null);
+
+  const { data } = useQuery<SnapshotListResponse>({
+    queryKey: ['/api/snapshots'],
+  });
+  const snapshots = data?.snapshots ?? [];
+
+  const jobs = useOptimizationJobs({
+    onFinished: (job) => {
+      if (job.task !== 'snapshotRestore') return;
+      queryClient.invalidateQueries({ queryKey: ['/api/snapshots'] });
+      if (job.status === 'succeeded') {
+        toast({ title: "Snapshot Restored", description: job.result?.summary });
+      } else if (job.status === 'failed') {
+        toast({ title: "Restore Failed", description: job.error ?? undefined, variant: "destructive" });
+      }
+    },
+  });
+  const restoreJob = jobs.jobFor('snapshotRestore');
+  const restoring = isJobActive(restoreJob);
+
+  const restoreMutation = useMutation({
+    mutationFn: async ({ snapshot, entries }: PendingRestore) => {
+      await apiRequest('POST', `/api/snapshots/${snapshot.id}/restore`, entries ? { entries } : {});
+    },
+    onSettled: () => setPending(null),
+    onError: () => {
+      toast({ title: "Restore Failed", description: "Could not start the restore.", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (snapshot: SnapshotSummary) => {
+      await apiRequest('DELETE', `/api/snapshots/${snapshot.id}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/snapshots'] }),
+    onError: () => {
+      toast({ title: "Delete Failed", description: "Could not delete the snapshot.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="bg-dark-card rounded-xl p-6 border border-dark-border">
+      <div className="flex items-center mb-4">
+        <i className="fas fa-history text-neon-blue text-2xl mr-4 neon-glow" />
+        <div>
+          <h3 className="text-xl font-bold text-white">System Snapshots</h3>
+          <p className="text-gray-400 text-sm">Compare with the current state and roll back changes</p>
+        </div>
+      </div>
+
+      {restoring && restoreJob && (
+        <div className="mb-4 space-y-2">
+          <Progress value={restoreJob.progress} className="h-2" />
+          <p className="text-sm text-gray-400">{restoreJob.step ?? "Waiting…"} · {restoreJob.progress}%</p>
+        </div>
+      )}
+
+      {snapshots.length === 0 ? (
+        <p className="text-sm text-gray-400">No snapshots yet. Create a system backup before optimizing.</p>
+      ) : (
+        <div className="space-y-4">
+          {snapshots.map(snapshot => {
+            const failed = snapshot.manifest.sources.filter(source => source.error);
+            return (
+              <div key={snapshot.id} className="border-t border-dark-border pt-4 first:border-0 first:pt-0">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-white font-medium">{snapshot.label}</p>
+                    <p className="text-xs text-gray-500">
+                      {new Date(snapshot.createdAt).toLocaleString()} ·{" "}
+                      {snapshot.manifest.sources.reduce((sum, source) => sum + source.keys, 0)} settings
+                      {failed.length > 0 && (
+                        <span className="text-yellow-400" title={failed.map(source => `${source.title}: ${source.error}`).join("\n")}>
+                          {" "}· {failed.length} source{failed.length > 1 ? "s" : ""} unreadable
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      onClick={() => setExpanded(expanded === snapshot.id ? null : snapshot.id)}
+                      className="border-dark-border text-gray-300"
+                    >
+                      {expanded === snapshot.id ? "Hide Changes" : "Compare"}
+                    </Button>
+                    <Button
+                      onClick={() => setPending({ snapshot })}
+                      disabled={restoring}
+                      className="bg-neon-blue text-dark-bg hover:bg-neon-blue/90 disabled:bg-gray-600 disabled:text-gray-400"
+                    >
+                      Restore
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => deleteMutation.mutate(snapshot)}
+                      className="border-dark-border text-gray-400 hover:text-red-400"
+                      title="Delete snapshot"
+                    >
+                      <i className="fas fa-trash-alt" />
+                    </Button>
+                  </div>
+                </div>
+                {expanded === snapshot.id && (
+                  <SnapshotChanges
+                    snapshot={snapshot}
+                    sources={data?.sources ?? []}
+                    busy={restoring}
+                    onRestore={(entries) => setPending({ snapshot, entries })}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={!!pending} onOpenChange={(open: boolean) => !open && setPending(null)}>
+        <DialogContent className="max-w-md bg-dark-card border-dark-border">
+          <DialogHeader>
+            <DialogTitle className="text-white">Restore {pending?.snapshot.label}?</DialogTitle>
+          </DialogHeader>
+          <p className="text-gray-300 text-sm">
+            {pending?.entries
+              ? `${pending.entries.length} selected setting${pending.entries.length > 1 ? "s" : ""} will be put back to their captured values.`
+              : "Every setting that changed since this snapshot will be put back to its captured value."}
+            {" "}Kernel parameters need the server to run as root.
+          </p>
+          <div className="flex justify-end space-x-2 mt-4">
+            <Button variant="outline" onClick={() => setPending(null)} className="border-dark-border text-gray-300">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => pending && restoreMutation.mutate(pending)}
+              disabled={restoreMutation.isPending}
+              className="bg-neon-blue text-dark-bg hover:bg-neon-blue/90"
+            >
+              Restore
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { StartupImpact, StartupItem } from "@shared/startup";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+
+const impactColors: Record<StartupImpact, string> = {
+  high: "border-red-400 text-red-400",
+  medium: "border-yellow-400 text-yellow-400",
+  low: "border-gray-500 text-gray-400",
+};
+
+// Autostart entries and user services with their estimated impact; each one
+// can be switched on or off, but protected ones cannot be turned off
+export function StartupItems() {
+  const queryClient = useQueryClient();
+  const { data, isLoading, isError } = useQuery<{ items: StartupItem[] }>({
+    queryKey: ['/api/startup'],
+  });
+  const items = data?.items ?? [];
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, enabled }: { id: string; enabled: boolean }) => {
+      await apiRequest('POST', '/api/startup', { id, enabled });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/startup'] });
+    },
+  });
+
+  if (isLoading) return <p className="text-sm text-gray-400">Reading startup items…</p>;
+  if (isError) return <p className="text-sm text-red-400">Could not read startup items.</p>;
+  if (items.length === 0) return <p className="text-sm text-gray-400">Nothing starts at login.</p>;
+
+  const deferrable = items.filter(item => item.enabled && item.deferWhileGaming).length;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-500">
+        {deferrable
+          ? `${deferrable} enabled ${deferrable === 1 ? "item is" : "items are"} safe to defer while gaming.`
+          : "Nothing enabled needs deferring while gaming."}
+      </p>
+      {toggleMutation.isError && <p className="text-sm text-red-400">The change could not be made.</p>}
+      <div className="max-h-72 overflow-y-auto space-y-2 pr-1">
+        {items.map(item => (
+          <div key={item.id} className="flex items-center justify-between text-sm">
+            <div className="min-w-0 mr-2">
+              <p className="text-white truncate" title={item.command ?? item.id}>
+                <i className={cn("fas mr-2 text-gray-500", item.kind === "service" ? "fa-cog" : "fa-window-maximize")} />
+                {item.name}
+              </p>
+              <p className="text-xs text-gray-500 truncate">
+                {item.protectedReason ?? item.impactReason}
+                {item.deferWhileGaming && <span className="text-neon-blue"> · safe to defer while gaming</span>}
+              </p>
+            </div>
+            <div className="flex items-center space-x-2 shrink-0">
+              <Badge variant="outline" className={cn("capitalize", impactColors[item.impact])}>{item.impact}</Badge>
+              {item.protectedReason && item.enabled ? (
+                <i className="fas fa-lock text-gray-500 w-9 text-center" title={`Protected: ${item.protectedReason}`} />
+              ) : (
+                <Switch
+                  checked={item.enabled}
+                  disabled={toggleMutation.isPending}
+                  onCheckedChange={(enabled: boolean) => toggleMutation.mutate({ id: item.id, enabled })}
+                />
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { TcpTweakStatus } from "@shared/tcpTweaks";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { isJobActive, useOptimizationJobs } from "@/hooks/useOptimizationJobs";
+import { cn } from "@/lib/utils";
+
+// The TCP/IP tweaks as a before/after table, applied and reverted as jobs.
+// The page invalidates ['/api/network/tcp'] when one of them finishes.
+export function TcpOptimization({ jobs }: { jobs: ReturnType<typeof useOptimizationJobs> }) {
+  const [persist, setPersist] = useState(false);
+  const { data: status, isError } = useQuery<TcpTweakStatus>({
+    queryKey: ['/api/network/tcp'],
+  });
+
+  const applyJob = jobs.jobFor("tcpTweaks");
+  const revertJob = jobs.jobFor("tcpTweaksRevert");
+  const activeJob = [applyJob, revertJob].find(isJobActive);
+  const unavailable = jobs.unavailableReason("tcpTweaks");
+
+  const tweaks = status?.tweaks ?? [];
+  const canRevert = tweaks.some(tweak => tweak.baseline !== null) || !!status?.dropIn.exists;
+  const state = status?.applied ? "Enabled" : tweaks.some(tweak => tweak.baseline !== null) ? "Partly applied" : "Disabled";
+
+  if (unavailable) {
+    return (
+      <p className="text-sm text-gray-500">
+        <i className="fas fa-ban mr-2" />
+        {unavailable}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-dark-bg rounded-lg p-4">
+        <h4 className="text-white font-medium mb-2">Current Status</h4>
+        <div className="flex items-center justify-between">
+          <span className="text-gray-300">TCP Optimization</span>
+          <span className={cn(
+            "px-2 py-1 rounded text-sm",
+            state === "Enabled" ? "bg-neon-green text-dark-bg" : state === "Partly applied" ? "bg-yellow-400 text-dark-bg" : "bg-gray-600 text-white"
+          )}>
+            {state}
+          </span>
+        </div>
+        {status?.dropIn.exists && (
+          <p className="text-xs text-gray-500 mt-2">Kept after reboot in {status.dropIn.path}</p>
+        )}
+      </div>
+
+      {isError && <p className="text-sm text-red-400">Could not read the current network settings.</p>}
+      {tweaks.length > 0 && (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left font-normal pb-1">Setting</th>
+              <th className="text-right font-normal pb-1">Now</th>
+              <th className="text-right font-normal pb-1">Optimized</th>
+            </tr>
+          </thead>
+          <tbody>
+            {tweaks.map(tweak => (
+              <tr key={tweak.key} className="border-t border-dark-border">
+                <td className="py-1 text-gray-300" title={`${tweak.key}\n${tweak.description}`}>{tweak.title}</td>
+                <td
+                  className={cn("py-1 text-right", tweak.current === tweak.target ? "text-neon-green" : "text-gray-400")}
+                  title={tweak.baseline !== null ? `Reverts to ${tweak.baseline}` : undefined}
+                >
+                  {tweak.current ?? "n/a"}
+                </td>
+                <td className="py-1 text-right text-white">{tweak.target}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-gray-300">Keep after reboot</span>
+        <Switch checked={persist} onCheckedChange={(checked: boolean) => setPersist(checked)} />
+      </div>
+
+      {activeJob ? (
+        <div className="space-y-2">
+          <Progress value={activeJob.progress} className="h-2" />
+          <p className="text-sm text-gray-400">
+            {activeJob.status === "queued" ? "Waiting for other optimizations…" : `${activeJob.step ?? "Starting"} · ${activeJob.progress}%`}
+          </p>
+        </div>
+      ) : (
+        <div className="flex space-x-2">
+          <Button
+            onClick={() => jobs.start("tcpTweaks", { persist })}
+            disabled={!status || (status.applied && (!persist || status.dropIn.exists))}
+            className="flex-1 bg-neon-green text-dark-bg hover:bg-neon-green/90 disabled:bg-gray-600 disabled:text-gray-400"
+          >
+            <i className="fas fa-bolt mr-2" />
+            Apply TCP Optimization
+          </Button>
+          <Button
+            onClick={() => jobs.start("tcpTweaksRevert")}
+            disabled={!canRevert}
+            className="flex-1 bg-red-500 hover:bg-red-600 text-white disabled:bg-gray-600 disabled:text-gray-400"
+          >
+            <i className="fas fa-undo mr-2" />
+            Revert
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
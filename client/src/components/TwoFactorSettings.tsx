@@ -0,0 +1,200 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth, type TwoFactorEnrollment, type TwoFactorStatus } from "@/contexts/AuthContext";
+
+export function TwoFactorSettings() {
+  const { token, enable2FA, verify2FA, disable2FA, get2FAStatus, regenerateRecoveryCodes } = useAuth();
+  const { toast } = useToast();
+
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+
+  const refreshStatus = async () => {
+    setStatus(await get2FAStatus());
+  };
+
+  useEffect(() => {
+    if (token) refreshStatus();
+  }, [token]);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (error: any) {
+      toast({
+        title: "Two-Factor Authentication",
+        description: error.message || "Request failed. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setCode("");
+      setIsBusy(false);
+    }
+  };
+
+  const handleStartSetup = () => run(async () => {
+    setRecoveryCodes(null);
+    setEnrollment(await enable2FA());
+  });
+
+  const handleVerify = () => run(async () => {
+    const codes = await verify2FA(code);
+    setEnrollment(null);
+    setRecoveryCodes(codes ?? null);
+    await refreshStatus();
+  });
+
+  const handleRegenerate = () => run(async () => {
+    setRecoveryCodes(await regenerateRecoveryCodes(code));
+    await refreshStatus();
+    toast({
+      title: "Recovery Codes Regenerated",
+      description: "Your previous recovery codes no longer work.",
+    });
+  });
+
+  const handleDisable = () => run(async () => {
+    // Six digits is an authenticator code; anything else is treated as a recovery code
+    const isTotp = /^\d{6}$/.test(code.trim());
+    await disable2FA(isTotp ? code : "", isTotp ? undefined : code);
+    setRecoveryCodes(null);
+    await refreshStatus();
+  });
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    toast({ title: "Copied", description: "Recovery codes copied to clipboard." });
+  };
+
+  return (
+    <Card className="bg-dark-card border-dark-border">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center">
+          <i className="fas fa-shield-alt text-neon-green mr-3" />
+          Two-Factor Authentication
+        </CardTitle>
+        <CardDescription>Require a code from your authenticator app when you log in</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between p-4 bg-dark-bg rounded-lg border border-dark-border">
+          <div>
+            <p className="text-white font-medium">
+              Status: {status?.enabled ? (
+                <span className="text-neon-green">Enabled</span>
+              ) : (
+                <span className="text-gray-400">Disabled</span>
+              )}
+            </p>
+            {status?.enabled && (
+              <p className="text-gray-400 text-sm">
+                {status.recoveryCodesRemaining} unused recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"} left
+              </p>
+            )}
+          </div>
+          {!status?.enabled && !enrollment && (
+            <Button
+              onClick={handleStartSetup}
+              disabled={isBusy}
+              className="bg-neon-green text-dark-bg hover:bg-neon-green/90"
+            >
+              <i className="fas fa-qrcode mr-2" />
+              Set Up 2FA
+            </Button>
+          )}
+        </div>
+
+        {enrollment && (
+          <div className="p-4 bg-dark-bg rounded-lg border border-dark-border space-y-4">
+            <p className="text-gray-300 text-sm">
+              Scan this QR code with Google Authenticator, Authy or a similar app, then enter the 6-digit code it shows.
+            </p>
+            <div className="flex flex-col md:flex-row md:items-center gap-4">
+              <img src={enrollment.qrCode} alt="Two-factor QR code" className="w-40 h-40 rounded bg-white p-2" />
+              <div className="text-sm">
+                <p className="text-gray-400">Can't scan? Enter this key manually:</p>
+                <code className="text-neon-green break-all">{enrollment.secret}</code>
+              </div>
+            </div>
+            <div className="flex gap-3">
+              <Input
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="6-digit code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                maxLength={6}
+                className="bg-dark-card border-dark-border text-white max-w-[12rem]"
+              />
+              <Button onClick={handleVerify} disabled={isBusy || code.length !== 6}>
+                Verify & Enable
+              </Button>
+              <Button variant="ghost" onClick={() => setEnrollment(null)} disabled={isBusy}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {recoveryCodes && (
+          <div className="p-4 bg-dark-bg rounded-lg border border-neon-yellow/50 space-y-3">
+            <p className="text-white font-medium">Save your recovery codes</p>
+            <p className="text-gray-400 text-sm">
+              Each code works once if you lose access to your authenticator. They won't be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 font-mono text-neon-green">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <div className="flex gap-3">
+              <Button variant="outline" onClick={copyRecoveryCodes}>
+                <i className="fas fa-copy mr-2" />
+                Copy
+              </Button>
+              <Button variant="ghost" onClick={() => setRecoveryCodes(null)}>
+                I've saved them
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {status?.enabled && (
+          <div className="space-y-3">
+            <p className="text-gray-400 text-sm">
+              Enter a current authenticator code to regenerate recovery codes, or a code or recovery code to disable 2FA.
+            </p>
+            <div className="flex flex-wrap gap-3">
+              <Input
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="Code"
+                maxLength={11}
+                className="bg-dark-bg border-dark-border text-white max-w-[12rem]"
+              />
+              <Button onClick={handleRegenerate} disabled={isBusy || !/^\d{6}$/.test(code.trim())}>
+                <i className="fas fa-sync-alt mr-2" />
+                Regenerate Recovery Codes
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={handleDisable}
+                disabled={isBusy || code.trim().length < 6}
+                className="bg-red-600 hover:bg-red-700"
+              >
+                Disable 2FA
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
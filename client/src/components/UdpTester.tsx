@@ -0,0 +1,220 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { UDP_ECHO_DEFAULT_PORT, type UdpTestSummary } from "@shared/udpTest";
+import type { UdpTest } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useRealtimeMessage, useRealtimeTopics } from "@/hooks/useWebSocket";
+import { apiRequest, readApiError } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+
+const ms = (value: number | null) => (value === null ? "—" : `${Math.round(value * 10) / 10}ms`);
+const percent = (rate: number) => `${Math.round(rate * 1000) / 10}%`;
+
+const summaryStats: Array<{ label: string; value: (summary: UdpTestSummary) => string }> = [
+  { label: "Loss", value: summary => percent(summary.lossRate) },
+  { label: "Out of order", value: summary => String(summary.outOfOrder) },
+  { label: "Duplicates", value: summary => String(summary.duplicates) },
+  { label: "Jitter", value: summary => ms(summary.jitter) },
+  { label: "Avg RTT", value: summary => ms(summary.avgRtt) },
+];
+
+const numberFields = [
+  { key: "rate", label: "Packets/s", min: 1, max: 200 },
+  { key: "size", label: "Bytes", min: 24, max: 1200 },
+  { key: "durationSec", label: "Seconds", min: 1, max: 30 },
+] as const;
+
+// Loss, reordering and jitter over UDP, measured by the server against a
+// Nexus echo responder (`npm run udp-echo` on a LAN box or this host)
+export function UdpTester() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [target, setTarget] = useState("");
+  const [port, setPort] = useState(String(UDP_ECHO_DEFAULT_PORT));
+  const [settings, setSettings] = useState({ rate: "50", size: "200", durationSec: "10" });
+  const [test, setTest] = useState<UdpTest | null>(null);
+  const current = useRef<UdpTest | null>(null);
+
+  const { data: historyData } = useQuery<{ tests: UdpTest[] }>({
+    queryKey: ['/api/network/udp-tests'],
+  });
+  const history = (historyData?.tests ?? []).filter(entry => entry.status === "completed").slice(0, 5);
+
+  const track = (next: UdpTest) => {
+    const previous = current.current;
+    if (previous?.id === next.id && previous.status !== "running") return;
+    if (previous && previous.id !== next.id && next.createdAt < previous.createdAt) return;
+
+    current.current = next;
+    setTest(next);
+    if (next.status !== "running") {
+      queryClient.invalidateQueries({ queryKey: ['/api/network/udp-tests'] });
+      if (next.status === "failed") {
+        toast({ title: "UDP Test Failed", description: next.error ?? undefined, variant: "destructive" });
+      }
+    }
+  };
+
+  useRealtimeTopics(['probes']);
+  useRealtimeMessage('udpTestProgress', track);
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/network/udp-tests', {
+        target: target.trim(),
+        port: Number(port),
+        rate: Number(settings.rate),
+        size: Number(settings.size),
+        durationSec: Number(settings.durationSec),
+      });
+      return (await response.json()).test as UdpTest;
+    },
+    onSuccess: (started) => {
+      if (current.current?.id !== started.id) track(started);
+    },
+    onError: (err) => {
+      toast({ title: "UDP Test Failed", description: readApiError(err), variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (running: UdpTest) => {
+      await apiRequest('POST', `/api/network/udp-tests/${running.id}/cancel`);
+    },
+  });
+
+  const running = test?.status === "running";
+  const histogram = test?.summary.histogram ?? [];
+  const tallest = Math.max(1, ...histogram.map(bucket => bucket.count));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Echo Responder</label>
+          <Input
+            type="text"
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            placeholder="IP or host name"
+            className="bg-dark-bg border-dark-border text-white"
+            disabled={running}
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Port</label>
+          <Input
+            type="number"
+            value={port}
+            onChange={(e) => setPort(e.target.value)}
+            className="bg-dark-bg border-dark-border text-white"
+            disabled={running}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        {numberFields.map(field => (
+          <div key={field.key}>
+            <label className="block text-sm text-gray-300 mb-1">{field.label}</label>
+            <Input
+              type="number"
+              min={field.min}
+              max={field.max}
+              value={settings[field.key]}
+              onChange={(e) => setSettings(prev => ({ ...prev, [field.key]: e.target.value }))}
+              className="bg-dark-bg border-dark-border text-white"
+              disabled={running}
+            />
+          </div>
+        ))}
+      </div>
+
+      {test && (
+        <div className="grid grid-cols-5 gap-2">
+          {summaryStats.map(stat => (
+            <div key={stat.label} className="bg-dark-bg rounded-lg p-2 text-center">
+              <div className="text-neon-blue text-lg font-bold">{stat.value(test.summary)}</div>
+              <div className="text-gray-400 text-xs">{stat.label}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {histogram.length > 0 && (
+        <div className="bg-dark-bg rounded-lg p-3">
+          <div className="text-xs text-gray-400 mb-2">Change in transit time between packets</div>
+          <div className="h-20 flex items-end space-x-1">
+            {histogram.map(bucket => (
+              <div key={bucket.fromMs} className="flex-1 flex flex-col items-center justify-end h-full">
+                <div
+                  className="w-full bg-gradient-to-t from-neon-green to-neon-blue rounded-sm"
+                  style={{ height: `${(bucket.count / tallest) * 100}%`, minHeight: bucket.count ? '2px' : 0 }}
+                  title={`${bucket.count} packets`}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex space-x-1 mt-1">
+            {histogram.map(bucket => (
+              <div key={bucket.fromMs} className="flex-1 text-center text-[10px] text-gray-500">
+                {bucket.toMs === null ? `${bucket.fromMs}+` : `<${bucket.toMs}`}ms
+              </div>
+            ))}
+          </div>
+          {test && (
+            <div className="mt-2 text-center text-sm text-gray-400">
+              {running ? "Testing" : "Tested"} {test.target}:{test.port} - {test.summary.sent}/{test.rate * test.durationSec} packets
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex space-x-2">
+        <Button
+          disabled={running || startMutation.isPending || !target.trim()}
+          onClick={() => startMutation.mutate()}
+          className="flex-1 bg-neon-purple text-white hover:bg-neon-purple/90"
+        >
+          {running ? <i className="fas fa-spinner animate-spin mr-2" /> : <i className="fas fa-play mr-2" />}
+          {running ? "Testing..." : "Start UDP Test"}
+        </Button>
+        <Button
+          disabled={!running || cancelMutation.isPending}
+          onClick={() => test && cancelMutation.mutate(test)}
+          className="bg-red-500 hover:bg-red-600 text-white"
+        >
+          <i className="fas fa-stop mr-2" />
+          Stop
+        </Button>
+      </div>
+
+      {history.length > 0 && (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left font-normal pb-1">Responder</th>
+              <th className="text-left font-normal pb-1">When</th>
+              <th className="text-right font-normal pb-1">Loss</th>
+              <th className="text-right font-normal pb-1">Jitter</th>
+            </tr>
+          </thead>
+          <tbody>
+            {history.map(entry => (
+              <tr key={entry.id} className="border-t border-dark-border">
+                <td className="py-1">{entry.target}:{entry.port}</td>
+                <td className="py-1 text-gray-400">{new Date(entry.createdAt).toLocaleString()}</td>
+                <td className={cn("py-1 text-right", entry.summary.lossRate > 0 ? "text-red-400" : "text-gray-400")}>
+                  {percent(entry.summary.lossRate)}
+                </td>
+                <td className="py-1 text-right">{ms(entry.summary.jitter)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
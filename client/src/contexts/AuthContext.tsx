@@ -12,20 +12,34 @@ interface User {
   securityLevel: 'basic' | 'enhanced' | 'maximum';
 }
 
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  pendingSetup: boolean;
+  recoveryCodesRemaining: number;
+}
+
 interface AuthContextType {
   user: User | null;
   token: string | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  login: (username: string, password: string, twoFactorCode?: string) => Promise<{ success: boolean; requires2FA?: boolean; message?: string }>;
+  login: (username: string, password: string, twoFactorCode?: string, recoveryCode?: string) => Promise<{ success: boolean; requires2FA?: boolean; message?: string }>;
   signup: (username: string, password: string, email?: string, acceptTerms?: boolean) => Promise<void>;
   logout: () => void;
   refreshToken: () => Promise<void>;
   updateProfile: (updates: Partial<User>) => Promise<void>;
   changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
-  enable2FA: () => Promise<void>;
-  disable2FA: (code: string) => Promise<void>;
-  verify2FA: (code: string) => Promise<void>;
+  enable2FA: () => Promise<TwoFactorEnrollment>;
+  disable2FA: (code: string, recoveryCode?: string) => Promise<void>;
+  verify2FA: (code: string) => Promise<string[] | undefined>;
+  get2FAStatus: () => Promise<TwoFactorStatus | null>;
+  regenerateRecoveryCodes: (code: string) => Promise<string[]>;
   resetPassword: (email: string) => Promise<void>;
   confirmResetPassword: (token: string, newPassword: string) => Promise<void>;
   lockAccount: () => void;
@@ -156,26 +170,26 @@ export function AuthProvider({ children }: AuthProviderProps) {
     localStorage.setItem('nexus_last_activity', Date.now().toString());
   }, []);
 
-  const login = async (username: string, password: string, twoFactorCode?: string) => {
+  const login = async (username: string, password: string, twoFactorCode?: string, recoveryCode?: string) => {
     try {
       const response = await fetch('/api/auth/login', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ username, password, twoFactorCode }),
+        body: JSON.stringify({ username, password, twoFactorCode, recoveryCode }),
       });
 
       const data = await response.json();
 
-      if (!response.ok) {
-        throw new Error(data.message || 'Login failed');
-      }
-
       if (data.requires2FA) {
         return { success: false, requires2FA: true, message: 'Two-factor authentication is required.' };
       }
 
+      if (!response.ok) {
+        throw new Error(data.error || data.message || 'Login failed');
+      }
+
       if (data.token) {
         setUser(data.user);
         setToken(data.token);
@@ -342,72 +356,86 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
-  const enable2FA = async () => {
-    try {
-      const response = await fetch('/api/auth/2fa/enable', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
+  const setup2FA = async (body: Record<string, string | undefined>) => {
+    const response = await fetch('/api/auth/2fa/setup', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(body),
+    });
 
-      if (response.ok) {
-        const data = await response.json();
-        setIs2FAEnabled(true);
-        toast({
-          title: "2FA Enabled! 🔐",
-          description: "Two-factor authentication has been enabled for your account.",
-        });
-        return data.qrCode;
-      }
-    } catch (error) {
-      throw error;
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Two-factor request failed');
     }
+    return data;
   };
 
-  const disable2FA = async (code: string) => {
-    try {
-      const response = await fetch('/api/auth/2fa/disable', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify({ code }),
-      });
+  // Starts enrollment; 2FA only turns on once verify2FA succeeds with a code from the new secret
+  const enable2FA = async (): Promise<TwoFactorEnrollment> => {
+    const data = await setup2FA({ action: 'enable' });
+    return { secret: data.secret, otpauthUrl: data.otpauthUrl, qrCode: data.qrCode };
+  };
 
-      if (response.ok) {
-        setIs2FAEnabled(false);
-        toast({
-          title: "2FA Disabled! 🔓",
-          description: "Two-factor authentication has been disabled for your account.",
-        });
-      }
-    } catch (error) {
-      throw error;
+  const disable2FA = async (code: string, recoveryCode?: string) => {
+    await setup2FA({ action: 'disable', code, recoveryCode });
+    setIs2FAEnabled(false);
+    toast({
+      title: "2FA Disabled! 🔓",
+      description: "Two-factor authentication has been disabled for your account.",
+    });
+  };
+
+  // Returns the one-time recovery codes when this call completes enrollment
+  const verify2FA = async (code: string): Promise<string[] | undefined> => {
+    const data = await setup2FA({ action: 'verify', code });
+    if (data.recoveryCodes) {
+      setIs2FAEnabled(true);
+      toast({
+        title: "2FA Enabled! 🔐",
+        description: "Two-factor authentication has been enabled for your account.",
+      });
     }
+    return data.recoveryCodes;
   };
 
-  const verify2FA = async (code: string) => {
+  const get2FAStatus = async (): Promise<TwoFactorStatus | null> => {
     try {
-      const response = await fetch('/api/auth/2fa/verify', {
-        method: 'POST',
+      const response = await fetch('/api/auth/2fa/status', {
         headers: {
-          'Content-Type': 'application/json',
           'Authorization': `Bearer ${token}`,
         },
-        body: JSON.stringify({ code }),
       });
 
       if (response.ok) {
-        // 2FA verification successful
-        return;
-      } else {
-        throw new Error('Invalid 2FA code');
+        const status: TwoFactorStatus = await response.json();
+        setIs2FAEnabled(status.enabled);
+        return status;
       }
+      return null;
     } catch (error) {
-      throw error;
+      console.error('Failed to get 2FA status:', error);
+      return null;
+    }
+  };
+
+  const regenerateRecoveryCodes = async (code: string): Promise<string[]> => {
+    const response = await fetch('/api/auth/2fa/recovery-codes', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ code }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Could not regenerate recovery codes');
     }
+    return data.recoveryCodes;
   };
 
   const resetPassword = async (email: string) => {
@@ -585,6 +613,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
     enable2FA,
     disable2FA,
     verify2FA,
+    get2FAStatus,
+    regenerateRecoveryCodes,
     resetPassword,
     confirmResetPassword,
     lockAccount,
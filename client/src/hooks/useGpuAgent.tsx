@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { GpuDevice, GpuEvent, GpuSettings, GpuTelemetry, GpuVendor } from '@shared/gpuAgent';
+import { apiRequest, readApiError } from '@/lib/queryClient';
+import { useRealtimeMessage, useRealtimeTopics } from '@/hooks/useWebSocket';
+
+const vendorNames: Record<GpuVendor, string> = { nvidia: 'NVIDIA', amd: 'AMD', intel: 'Intel' };
+
+// The first GPU of one vendor as the GPU agent reports it: live telemetry
+// from the `gpu` topic, current settings, and apply/reset through the server.
+// Every GPU Tuner panel goes through this hook.
+export function useGpuAgent(vendor: GpuVendor, {
+  onEvent,
+  onError,
+}: {
+  onEvent?: (event: GpuEvent) => void;
+  onError?: (message: string) => void;
+} = {}) {
+  const queryClient = useQueryClient();
+  const [telemetry, setTelemetry] = useState<GpuTelemetry | null>(null);
+
+  const { data: deviceData, error: deviceError } = useQuery<{ devices: GpuDevice[] }>({
+    queryKey: ['/api/gpu/devices'],
+  });
+  const device = deviceData?.devices.find(d => d.vendor === vendor);
+  const settingsKey = ['/api/gpu/devices', device?.id, 'settings'];
+
+  // Shown until the first broadcast arrives
+  const { data: initialData } = useQuery<{ telemetry: GpuTelemetry }>({
+    queryKey: ['/api/gpu/devices', device?.id, 'telemetry'],
+    enabled: !!device,
+  });
+  const { data: settingsData } = useQuery<{ settings: GpuSettings }>({
+    queryKey: settingsKey,
+    enabled: !!device,
+  });
+
+  useRealtimeTopics(['gpu']);
+  useRealtimeMessage('gpuTelemetry', (samples) => {
+    const sample = samples.find(s => s.deviceId === device?.id);
+    if (sample) setTelemetry(sample);
+  });
+  useRealtimeMessage('gpuEvent', (event) => {
+    if (event.deviceId !== device?.id) return;
+    // A driver reset puts clocks back behind our back
+    queryClient.invalidateQueries({ queryKey: settingsKey });
+    onEvent?.(event);
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async (settings: GpuSettings) => {
+      const response = await apiRequest('PUT', `/api/gpu/devices/${device!.id}/settings`, settings);
+      return (await response.json()).settings as GpuSettings;
+    },
+    onSuccess: (settings) => queryClient.setQueryData(settingsKey, { settings }),
+    onError: (err) => onError?.(readApiError(err)),
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/gpu/devices/${device!.id}/reset`);
+      return (await response.json()).settings as GpuSettings;
+    },
+    onSuccess: (settings) => queryClient.setQueryData(settingsKey, { settings }),
+    onError: (err) => onError?.(readApiError(err)),
+  });
+
+  let unavailableReason: string | null = null;
+  if (deviceError) unavailableReason = readApiError(deviceError);
+  else if (deviceData && !device) unavailableReason = `The GPU agent found no ${vendorNames[vendor]} GPU`;
+
+  return {
+    device,
+    telemetry: telemetry?.deviceId === device?.id && telemetry ? telemetry : initialData?.telemetry ?? null,
+    settings: settingsData?.settings ?? null,
+    unavailableReason,
+    isPending: applyMutation.isPending || resetMutation.isPending,
+    apply: (settings: GpuSettings, onApplied?: (settings: GpuSettings) => void) =>
+      applyMutation.mutate(settings, { onSuccess: onApplied }),
+    reset: (onReset?: (settings: GpuSettings) => void) => resetMutation.mutate(undefined, { onSuccess: onReset }),
+  };
+}
@@ -0,0 +1,105 @@
+import { useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { GpuDevice, GpuSettings } from '@shared/gpuAgent';
+import { activeGpuTuningStatuses, gpuTuningRevertLabels } from '@shared/gpuTuning';
+import type { GpuTuningAttempt } from '@shared/schema';
+import { apiRequest, readApiError } from '@/lib/queryClient';
+import { useRealtimeMessage, useRealtimeTopics } from '@/hooks/useWebSocket';
+
+export function isTuningActive(attempt: GpuTuningAttempt | null | undefined) {
+  return !!attempt && activeGpuTuningStatuses.includes(attempt.status);
+}
+
+// Toast for an attempt that has ended; a revert the user asked for needs none
+export function tuningOutcomeToast(attempt: GpuTuningAttempt) {
+  if (attempt.status === 'confirmed') {
+    return { title: 'GPU Settings Kept', description: `${attempt.deviceName} keeps running the new settings.` };
+  }
+  if (attempt.status === 'reverted' && attempt.revertReason !== 'declined') {
+    return {
+      title: 'GPU Settings Reverted',
+      description: [gpuTuningRevertLabels[attempt.revertReason!], attempt.message].filter(Boolean).join(': '),
+      variant: 'destructive' as const,
+    };
+  }
+  if (attempt.status === 'failed') {
+    return { title: 'GPU Revert Failed', description: attempt.message ?? undefined, variant: 'destructive' as const };
+  }
+  return null;
+}
+
+// Guarded tuning of one GPU: the user's attempt history, the attempt in
+// progress as it arrives on the `gpu` topic, and start/confirm/revert.
+// onFinished runs once for each attempt that ends while the page is open.
+export function useGpuTuning(device: GpuDevice | undefined, {
+  onFinished,
+  onError,
+}: {
+  onFinished?: (attempt: GpuTuningAttempt) => void;
+  onError?: (message: string) => void;
+} = {}) {
+  const queryClient = useQueryClient();
+  const [tracked, setTracked] = useState<GpuTuningAttempt | null>(null);
+  // Realtime updates can arrive before the POST that started the attempt returns
+  const latest = useRef<GpuTuningAttempt | null>(null);
+
+  const { data: historyData } = useQuery<{ attempts: GpuTuningAttempt[] }>({
+    queryKey: ['/api/gpu/tuning'],
+  });
+  const history = (historyData?.attempts ?? []).filter(attempt => attempt.deviceId === device?.id);
+
+  const track = (attempt: GpuTuningAttempt) => {
+    if (attempt.deviceId !== device?.id) return;
+    const previous = latest.current;
+    if (previous?.id === attempt.id && !isTuningActive(previous)) return;
+    if (previous && previous.id !== attempt.id && attempt.createdAt < previous.createdAt) return;
+
+    latest.current = attempt;
+    setTracked(attempt);
+    if (!isTuningActive(attempt)) {
+      queryClient.invalidateQueries({ queryKey: ['/api/gpu/tuning'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/gpu/devices', attempt.deviceId, 'settings'] });
+      onFinished?.(attempt);
+    }
+  };
+
+  useRealtimeTopics(['gpu']);
+  useRealtimeMessage('gpuTuning', track);
+
+  const startMutation = useMutation({
+    mutationFn: async (settings: GpuSettings) => {
+      const response = await apiRequest('POST', `/api/gpu/devices/${device!.id}/tuning`, { settings });
+      return (await response.json()).attempt as GpuTuningAttempt;
+    },
+    onSuccess: (attempt) => {
+      if (latest.current?.id !== attempt.id) track(attempt);
+    },
+    onError: (err) => {
+      // Refused attempts are in the history too
+      queryClient.invalidateQueries({ queryKey: ['/api/gpu/tuning'] });
+      onError?.(readApiError(err));
+    },
+  });
+
+  const finishMutation = useMutation({
+    mutationFn: async ({ attempt, action }: { attempt: GpuTuningAttempt; action: 'confirm' | 'revert' }) => {
+      const response = await apiRequest('POST', `/api/gpu/tuning/${attempt.id}/${action}`);
+      return (await response.json()).attempt as GpuTuningAttempt;
+    },
+    onSuccess: track,
+    onError: (err) => onError?.(readApiError(err)),
+  });
+
+  // After a reload the open attempt only shows up in the history
+  const attempt = tracked ?? history.find(isTuningActive) ?? null;
+
+  return {
+    attempt,
+    active: isTuningActive(attempt),
+    history,
+    isPending: startMutation.isPending || finishMutation.isPending,
+    start: (settings: GpuSettings) => startMutation.mutate(settings),
+    confirm: () => attempt && finishMutation.mutate({ attempt, action: 'confirm' }),
+    revert: () => attempt && finishMutation.mutate({ attempt, action: 'revert' }),
+  };
+}
@@ -0,0 +1,79 @@
+import { useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { finishedJobStatuses, type OptimizationTaskInfo } from '@shared/jobs';
+import type { OptimizationJob } from '@shared/schema';
+import { apiRequest, readApiError } from '@/lib/queryClient';
+import { useRealtimeMessage, useRealtimeTopics } from '@/hooks/useWebSocket';
+
+export function isJobActive(job: OptimizationJob | undefined) {
+  return !!job && !finishedJobStatuses.includes(job.status);
+}
+
+// Starts optimization jobs and follows them on the `jobs` topic, keeping the
+// latest job of every task. onFinished runs once for each job that ends while
+// the page is open.
+export function useOptimizationJobs({
+  onFinished,
+  onError,
+}: {
+  onFinished?: (job: OptimizationJob) => void;
+  onError?: (message: string) => void;
+} = {}) {
+  const queryClient = useQueryClient();
+  const [jobs, setJobs] = useState<Record<string, OptimizationJob>>({});
+  // Realtime updates can arrive before the POST that started the job returns
+  const latest = useRef<Record<string, OptimizationJob>>({});
+
+  const { data: taskData } = useQuery<{ tasks: OptimizationTaskInfo[] }>({
+    queryKey: ['/api/jobs/tasks'],
+  });
+  const tasks = taskData?.tasks ?? [];
+
+  const track = (job: OptimizationJob) => {
+    const previous = latest.current[job.task];
+    if (previous?.id === job.id && !isJobActive(previous)) return;
+    if (previous && previous.id !== job.id && job.createdAt < previous.createdAt) return;
+
+    latest.current = { ...latest.current, [job.task]: job };
+    setJobs(latest.current);
+    if (!isJobActive(job)) {
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+      onFinished?.(job);
+    }
+  };
+
+  useRealtimeTopics(['jobs']);
+  useRealtimeMessage('jobProgress', track);
+
+  const startMutation = useMutation({
+    mutationFn: async ({ task, params }: { task: string; params?: unknown }) => {
+      const response = await apiRequest('POST', '/api/jobs', { task, params });
+      return (await response.json()).job as OptimizationJob;
+    },
+    onSuccess: (job) => {
+      if (latest.current[job.task]?.id !== job.id) track(job);
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+    },
+    onError: (err) => onError?.(readApiError(err)),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (job: OptimizationJob) => {
+      await apiRequest('POST', `/api/jobs/${job.id}/cancel`);
+    },
+    onError: (err) => onError?.(readApiError(err)),
+  });
+
+  return {
+    tasks,
+    // A task the server does not offer at all is reported like an unavailable one
+    unavailableReason: (task: string) => {
+      if (!taskData) return null;
+      const info = tasks.find(t => t.id === task);
+      return info ? info.unavailableReason : 'Not available on this system';
+    },
+    jobFor: (task: string): OptimizationJob | undefined => jobs[task],
+    start: (task: string, params?: unknown) => startMutation.mutate({ task, params }),
+    cancel: (job: OptimizationJob) => cancelMutation.mutate(job),
+  };
+}
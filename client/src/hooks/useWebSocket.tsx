@@ -1,55 +1,49 @@
 import { useState, useEffect, useRef } from 'react';
+import type { RealtimeTopic, ServerMessage, ServerMessageMap, ServerMessageType } from '@shared/realtime';
 import type { SystemStats } from '@/types/system';
+import { useAuth } from '@/contexts/AuthContext';
+import { realtime } from '@/lib/realtime';
 
-interface WebSocketMessage {
-  type: string;
-  data: any;
+// Keeps the shared realtime connection open for the logged-in user
+export function useRealtimeConnection() {
+  const { token } = useAuth();
+  const [isConnected, setIsConnected] = useState(realtime.connected);
+
+  useEffect(() => realtime.onStatusChange(setIsConnected), []);
+
+  useEffect(() => {
+    if (token) {
+      realtime.connect(token);
+    } else {
+      realtime.disconnect();
+    }
+  }, [token]);
+
+  return isConnected;
+}
+
+export function useRealtimeTopics(topics: RealtimeTopic[]) {
+  const key = topics.join(',');
+  useEffect(() => realtime.subscribe(topics), [key]);
+}
+
+// Calls the latest handler for every message of the given type
+export function useRealtimeMessage<K extends ServerMessageType>(
+  type: K,
+  handler: (data: ServerMessageMap[K], message: ServerMessage) => void,
+) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => realtime.on(type, (data, message) => handlerRef.current(data, message)), [type]);
 }
 
 export function useWebSocket() {
   const [systemStats, setSystemStats] = useState<SystemStats | null>(null);
-  const [isConnected, setIsConnected] = useState(false);
-  const ws = useRef<WebSocket | null>(null);
+  const isConnected = useRealtimeConnection();
 
-  useEffect(() => {
-    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-    const wsUrl = `${protocol}//${window.location.host}/ws`;
-    
-    ws.current = new WebSocket(wsUrl);
-
-    ws.current.onopen = () => {
-      console.log('Connected to WebSocket');
-      setIsConnected(true);
-    };
-
-    ws.current.onmessage = (event) => {
-      try {
-        const message: WebSocketMessage = JSON.parse(event.data);
-        
-        if (message.type === 'systemStats') {
-          setSystemStats(message.data);
-        }
-      } catch (error) {
-        console.error('Error parsing WebSocket message:', error);
-      }
-    };
-
-    ws.current.onclose = () => {
-      console.log('Disconnected from WebSocket');
-      setIsConnected(false);
-    };
-
-    ws.current.onerror = (error) => {
-      console.error('WebSocket error:', error);
-      setIsConnected(false);
-    };
-
-    return () => {
-      if (ws.current) {
-        ws.current.close();
-      }
-    };
-  }, []);
+  useRealtimeTopics(['stats']);
+  useRealtimeMessage('systemStats', setSystemStats);
 
   return { systemStats, isConnected };
 }
@@ -7,6 +7,22 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// The `error` of a failed apiRequest, whose message reads "409: {json}"
+export function readApiError(err: unknown): string {
+  const message = err instanceof Error ? err.message : String(err);
+  try {
+    return JSON.parse(message.slice(message.indexOf(":") + 1)).error as string;
+  } catch {
+    return message;
+  }
+}
+
+// The JWT is kept in localStorage by AuthContext
+function authHeaders(): Record<string, string> {
+  const token = localStorage.getItem("nexus_token");
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -14,7 +30,7 @@ export async function apiRequest(
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: data ? { "Content-Type": "application/json", ...authHeaders() } : authHeaders(),
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -30,6 +46,7 @@ export const getQueryFn: <T>(options: {
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
     const res = await fetch(queryKey.join("/") as string, {
+      headers: authHeaders(),
       credentials: "include",
     });
 
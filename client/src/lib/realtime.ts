@@ -0,0 +1,188 @@
+import {
+  REALTIME_PATH,
+  type RealtimeTopic, type ServerMessage, type ServerMessageMap,
+  type ServerMessageType, type ClientMessage
+} from "@shared/realtime";
+
+type MessageHandler<K extends ServerMessageType> = (data: ServerMessageMap[K], message: ServerMessage) => void;
+type StatusListener = (connected: boolean) => void;
+
+const INITIAL_RETRY_MS = 1_000;
+const MAX_RETRY_MS = 30_000;
+const MISSED_HEARTBEATS_BEFORE_RECONNECT = 2.5;
+
+// Single shared /ws connection. Reconnects with exponential backoff, re-sends
+// subscriptions and resumes from the last seen seq so no published message is lost.
+export class RealtimeConnection {
+  private socket: WebSocket | null = null;
+  private token: string | null = null;
+  private handlers = new Map<ServerMessageType, Set<MessageHandler<any>>>();
+  private statusListeners = new Set<StatusListener>();
+  private topicRefs = new Map<RealtimeTopic, number>();
+  private streamId: string | null = null;
+  private lastSeq = 0;
+  private serverSeq = 0;
+  private attempt = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private watchdog: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatIntervalMs = 15_000;
+  connected = false;
+
+  connect(token: string) {
+    if (this.token === token && this.socket) return;
+    this.disconnect();
+    this.token = token;
+    this.open();
+  }
+
+  disconnect() {
+    this.token = null;
+    this.streamId = null;
+    this.lastSeq = 0;
+    this.attempt = 0;
+    this.clearTimers();
+    if (this.socket) {
+      this.socket.onclose = null;
+      this.socket.close();
+      this.socket = null;
+    }
+    this.setConnected(false);
+  }
+
+  // Reference counted so several components can share a topic
+  subscribe(topics: RealtimeTopic[]): () => void {
+    const added = topics.filter(topic => {
+      const count = this.topicRefs.get(topic) ?? 0;
+      this.topicRefs.set(topic, count + 1);
+      return count === 0;
+    });
+    if (added.length > 0) this.send({ type: "subscribe", topics: added });
+
+    return () => {
+      const removed = topics.filter(topic => {
+        const count = (this.topicRefs.get(topic) ?? 1) - 1;
+        if (count <= 0) this.topicRefs.delete(topic);
+        else this.topicRefs.set(topic, count);
+        return count <= 0;
+      });
+      if (removed.length > 0) this.send({ type: "unsubscribe", topics: removed });
+    };
+  }
+
+  on<K extends ServerMessageType>(type: K, handler: MessageHandler<K>): () => void {
+    if (!this.handlers.has(type)) this.handlers.set(type, new Set());
+    this.handlers.get(type)!.add(handler);
+    return () => { this.handlers.get(type)?.delete(handler); };
+  }
+
+  onStatusChange(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => { this.statusListeners.delete(listener); };
+  }
+
+  private open() {
+    if (!this.token) return;
+
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    const params = new URLSearchParams({ token: this.token });
+    const topics = Array.from(this.topicRefs.keys());
+    if (topics.length > 0) params.set("topics", topics.join(","));
+    if (this.streamId) {
+      params.set("streamId", this.streamId);
+      params.set("lastSeq", String(this.lastSeq));
+    }
+
+    const socket = new WebSocket(`${protocol}//${window.location.host}${REALTIME_PATH}?${params}`);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.attempt = 0;
+      this.setConnected(true);
+      this.resetWatchdog();
+      // Covers subscriptions made while the socket was still connecting
+      const current = Array.from(this.topicRefs.keys());
+      if (current.length > 0) this.send({ type: "subscribe", topics: current });
+    };
+
+    socket.onmessage = (event) => {
+      this.resetWatchdog();
+      try {
+        this.dispatch(JSON.parse(event.data));
+      } catch (error) {
+        console.error('Error parsing WebSocket message:', error);
+      }
+    };
+
+    socket.onclose = () => {
+      this.socket = null;
+      this.setConnected(false);
+      this.scheduleReconnect();
+    };
+
+    socket.onerror = (error) => {
+      console.error('WebSocket error:', error);
+    };
+  }
+
+  private dispatch(message: ServerMessage) {
+    if (message.type === "welcome") {
+      this.heartbeatIntervalMs = message.data.heartbeatIntervalMs;
+      this.serverSeq = message.data.lastSeq;
+      // Keep our own position when the server is about to replay from it
+      if (message.data.streamId !== this.streamId) {
+        this.streamId = message.data.streamId;
+        this.lastSeq = message.data.lastSeq;
+      }
+    } else if (message.type === "resync") {
+      // Nothing can be replayed; carry on from the server's current position
+      this.lastSeq = this.serverSeq;
+    }
+
+    if (message.seq !== undefined) {
+      if (message.seq <= this.lastSeq) return; // already seen before the reconnect
+      this.lastSeq = message.seq;
+    }
+
+    this.handlers.get(message.type)?.forEach(handler => handler(message.data, message));
+  }
+
+  private scheduleReconnect() {
+    this.clearTimers();
+    if (!this.token) return;
+
+    // Full jitter keeps a fleet of clients from reconnecting in lockstep after a restart
+    const ceiling = Math.min(MAX_RETRY_MS, INITIAL_RETRY_MS * 2 ** this.attempt);
+    this.attempt++;
+    this.retryTimer = setTimeout(() => this.open(), Math.random() * ceiling);
+  }
+
+  // A half-open TCP connection never fires onclose, so treat silence as a disconnect
+  private resetWatchdog() {
+    if (this.watchdog) clearTimeout(this.watchdog);
+    this.watchdog = setTimeout(() => {
+      this.socket?.close();
+    }, this.heartbeatIntervalMs * MISSED_HEARTBEATS_BEFORE_RECONNECT);
+  }
+
+  private clearTimers() {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    if (this.watchdog) clearTimeout(this.watchdog);
+    this.retryTimer = null;
+    this.watchdog = null;
+  }
+
+  private send(message: ClientMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+    // Otherwise the topics go out in the query string of the next connection
+  }
+
+  private setConnected(connected: boolean) {
+    if (this.connected === connected) return;
+    this.connected = connected;
+    this.statusListeners.forEach(listener => listener(connected));
+  }
+}
+
+export const realtime = new RealtimeConnection();
@@ -0,0 +1,299 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { Alert, AlertRule } from "@shared/schema";
+import { statsMetrics } from "@shared/statsHistory";
+import {
+  alertOperators, alertSeverities, describeRule, metricLabels, type AlertRuleInput
+} from "@shared/alerts";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+
+const emptyRule: AlertRuleInput = {
+  name: "",
+  metric: "gpuTemp",
+  operator: ">",
+  threshold: 80,
+  forSeconds: 0,
+  hysteresis: 0,
+  cooldownSeconds: 300,
+  severity: "warning",
+  whileProfileActive: false,
+  enabled: true,
+};
+
+const presets: AlertRuleInput[] = [
+  { ...emptyRule, name: "GPU running hot", metric: "gpuTemp", threshold: 83, forSeconds: 30, hysteresis: 3, severity: "critical" },
+  { ...emptyRule, name: "Laggy match", metric: "networkPing", threshold: 80, forSeconds: 10, hysteresis: 10, whileProfileActive: true },
+  { ...emptyRule, name: "FPS drop", metric: "fps", operator: "<", threshold: 60, forSeconds: 15, hysteresis: 5, whileProfileActive: true },
+  { ...emptyRule, name: "CPU pegged", metric: "cpuUsage", threshold: 95, forSeconds: 60, hysteresis: 10, severity: "info" },
+];
+
+const severityStyles: Record<string, string> = {
+  info: "bg-neon-blue/20 text-neon-blue border-neon-blue/30",
+  warning: "bg-neon-yellow/20 text-neon-yellow border-neon-yellow/30",
+  critical: "bg-red-500/20 text-red-400 border-red-500/30",
+};
+
+function formatTime(value: Date | string) {
+  return new Date(value).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit", second: "2-digit" });
+}
+
+export default function Alerts() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<AlertRuleInput>(emptyRule);
+
+  const { data: rulesData } = useQuery<{ rules: AlertRule[] }>({ queryKey: ['/api/alerts/rules'] });
+  const { data: alertsData } = useQuery<{ alerts: Alert[] }>({
+    queryKey: ['/api/alerts', 'history'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/alerts?limit=50');
+      return response.json();
+    },
+  });
+  const rules = rulesData?.rules ?? [];
+  const alerts = alertsData?.alerts ?? [];
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/alerts/rules'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/alerts'] });
+  };
+
+  const createRule = useMutation({
+    mutationFn: (rule: AlertRuleInput) => apiRequest('POST', '/api/alerts/rules', rule),
+    onSuccess: () => {
+      toast({ title: "Alert Rule Created", description: describeRule(draft) });
+      setDraft(emptyRule);
+      refresh();
+    },
+    onError: () => toast({ title: "Could Not Create Rule", description: "Check the rule fields and try again.", variant: "destructive" }),
+  });
+
+  const updateRule = useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: Partial<AlertRuleInput> }) =>
+      apiRequest('PUT', `/api/alerts/rules/${id}`, changes),
+    onSuccess: refresh,
+  });
+
+  const deleteRule = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/alerts/rules/${id}`),
+    onSuccess: refresh,
+  });
+
+  const updateDraft = <K extends keyof AlertRuleInput>(key: K, value: AlertRuleInput[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const numberField = (key: "threshold" | "forSeconds" | "hysteresis" | "cooldownSeconds", label: string) => (
+    <div className="space-y-2">
+      <Label className="text-gray-300">{label}</Label>
+      <Input
+        type="number"
+        min={key === "threshold" ? undefined : 0}
+        value={draft[key]}
+        onChange={(e) => updateDraft(key, Number(e.target.value))}
+        className="bg-dark-bg border-dark-border text-white"
+      />
+    </div>
+  );
+
+  return (
+    <div className="flex h-screen bg-dark-bg text-white">
+      <div className="flex-1 p-6 overflow-y-auto">
+        <div className="max-w-6xl mx-auto space-y-8">
+          <div>
+            <h1 className="text-3xl font-bold text-white font-orbitron">Performance Alerts</h1>
+            <p className="text-gray-400 mt-2">Get notified when temperatures, ping or FPS cross your limits</p>
+          </div>
+
+          {/* New rule */}
+          <Card className="bg-dark-card border-dark-border">
+            <CardHeader>
+              <CardTitle className="text-white flex items-center">
+                <i className="fas fa-plus-circle text-neon-green mr-3" />
+                New Alert Rule
+              </CardTitle>
+              <CardDescription>Start from a preset or build your own condition</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex flex-wrap gap-2">
+                {presets.map(preset => (
+                  <Button
+                    key={preset.name}
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setDraft(preset)}
+                    className="border-dark-border text-gray-300 hover:text-neon-green hover:border-neon-green"
+                  >
+                    {preset.name}
+                  </Button>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div className="space-y-2 md:col-span-2">
+                  <Label className="text-gray-300">Name</Label>
+                  <Input
+                    value={draft.name}
+                    onChange={(e) => updateDraft("name", e.target.value)}
+                    placeholder="e.g. GPU running hot"
+                    className="bg-dark-bg border-dark-border text-white"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-gray-300">Metric</Label>
+                  <Select value={draft.metric} onValueChange={(value: string) => updateDraft("metric", value as AlertRuleInput["metric"])}>
+                    <SelectTrigger className="bg-dark-bg border-dark-border text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {statsMetrics.map(metric => (
+                        <SelectItem key={metric} value={metric}>{metricLabels[metric].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-gray-300">Condition</Label>
+                  <Select value={draft.operator} onValueChange={(value: string) => updateDraft("operator", value as AlertRuleInput["operator"])}>
+                    <SelectTrigger className="bg-dark-bg border-dark-border text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {alertOperators.map(operator => (
+                        <SelectItem key={operator} value={operator}>{operator}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {numberField("threshold", `Threshold${metricLabels[draft.metric].unit ? ` (${metricLabels[draft.metric].unit})` : ""}`)}
+                {numberField("forSeconds", "Sustained for (s)")}
+                {numberField("hysteresis", "Clear margin")}
+                {numberField("cooldownSeconds", "Cooldown (s)")}
+                <div className="space-y-2">
+                  <Label className="text-gray-300">Severity</Label>
+                  <Select value={draft.severity} onValueChange={(value: string) => updateDraft("severity", value as AlertRuleInput["severity"])}>
+                    <SelectTrigger className="bg-dark-bg border-dark-border text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {alertSeverities.map(severity => (
+                        <SelectItem key={severity} value={severity} className="capitalize">{severity}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center space-x-3 md:col-span-2 pt-6">
+                  <Switch
+                    checked={draft.whileProfileActive}
+                    onCheckedChange={(checked: boolean) => updateDraft("whileProfileActive", checked)}
+                  />
+                  <Label className="text-gray-300">Only while a game profile is active</Label>
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <p className="text-gray-400 text-sm">{describeRule(draft)}</p>
+                <Button
+                  onClick={() => createRule.mutate(draft)}
+                  disabled={!draft.name.trim() || createRule.isPending}
+                  className="bg-neon-green text-black hover:bg-neon-green/80"
+                >
+                  <i className="fas fa-bell mr-2" />
+                  Create Rule
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Rules */}
+          <Card className="bg-dark-card border-dark-border">
+            <CardHeader>
+              <CardTitle className="text-white flex items-center">
+                <i className="fas fa-list-check text-neon-blue mr-3" />
+                Alert Rules
+              </CardTitle>
+              <CardDescription>Alerts are only sent while Performance Alerts is on in Settings</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {rules.length === 0 && <p className="text-gray-400 text-sm">No alert rules yet.</p>}
+              {rules.map(rule => (
+                <div key={rule.id} className="flex items-center justify-between p-4 bg-dark-bg rounded-lg border border-dark-border">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <p className="text-white font-medium">{rule.name}</p>
+                      <Badge variant="outline" className={cn("capitalize", severityStyles[rule.severity])}>{rule.severity}</Badge>
+                    </div>
+                    <p className="text-gray-400 text-sm">
+                      {describeRule(rule)}
+                      {rule.cooldownSeconds > 0 && ` · cooldown ${rule.cooldownSeconds}s`}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <Switch
+                      checked={rule.enabled}
+                      onCheckedChange={(checked: boolean) => updateRule.mutate({ id: rule.id, changes: { enabled: checked } })}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteRule.mutate(rule.id)}
+                      className="text-gray-400 hover:text-red-400"
+                    >
+                      <i className="fas fa-trash" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* History */}
+          <Card className="bg-dark-card border-dark-border">
+            <CardHeader>
+              <CardTitle className="text-white flex items-center">
+                <i className="fas fa-clock-rotate-left text-neon-purple mr-3" />
+                Alert History
+              </CardTitle>
+              <CardDescription>The 50 most recent alerts</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {alerts.length === 0 && <p className="text-gray-400 text-sm">Nothing has fired yet.</p>}
+              {alerts.map(alert => (
+                <div key={alert.id} className="flex items-center justify-between p-4 bg-dark-bg rounded-lg border border-dark-border">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <p className="text-white font-medium">{alert.ruleName}</p>
+                      <Badge variant="outline" className={cn("capitalize", severityStyles[alert.severity])}>{alert.severity}</Badge>
+                      {!alert.resolvedAt && (
+                        <Badge variant="outline" className="bg-red-500/20 text-red-400 border-red-500/30">Active</Badge>
+                      )}
+                    </div>
+                    <p className="text-gray-400 text-sm">{alert.message}</p>
+                  </div>
+                  <div className="text-right text-sm">
+                    <p className="text-gray-300">
+                      Peak {Math.round(alert.peakValue * 10) / 10}{metricLabels[alert.metric].unit}
+                    </p>
+                    <p className="text-gray-500">
+                      {formatTime(alert.triggeredAt)}
+                      {alert.resolvedAt && ` – ${formatTime(alert.resolvedAt)}`}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,62 +2,104 @@ import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Sidebar } from "@/components/Sidebar";
 import { StatCard } from "@/components/StatCard";
+import { PerformanceHistory } from "@/components/PerformanceHistory";
 import { OptimizationCard } from "@/components/OptimizationCard";
 import { AIAssistant } from "@/components/AIAssistant";
 import FPSOverlay from "@/components/FPSOverlay";
 import OptimizationChatbot from "@/components/OptimizationChatbot";
 import { PremiumTiers } from "@/components/PremiumTiers";
 import { Settings } from "@/components/Settings";
+import { ProfileWizard } from "@/components/ProfileWizard";
+import { ProfileExportDialog, ProfileImportDialog } from "@/components/ProfileTransfer";
 import { Button } from "@/components/ui/button";
-import { useWebSocket } from "@/hooks/useWebSocket";
+import { useRealtimeMessage, useRealtimeTopics, useWebSocket } from "@/hooks/useWebSocket";
 import { useToast } from "@/hooks/use-toast";
+import { isJobActive, useOptimizationJobs } from "@/hooks/useOptimizationJobs";
 import { apiRequest } from "@/lib/queryClient";
-import type { GameProfile } from "@/types/system";
+import type { GameProfile } from "@shared/schema";
 
 export default function Dashboard() {
   const [showAIAssistant, setShowAIAssistant] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [showProfileWizard, setShowProfileWizard] = useState(false);
+  const [showProfileImport, setShowProfileImport] = useState(false);
+  const [sharingProfile, setSharingProfile] = useState<GameProfile | null>(null);
   const { systemStats, isConnected } = useWebSocket();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data: gameProfiles = [] } = useQuery<GameProfile[]>({
+  const { data: profileData } = useQuery<{ profiles: GameProfile[] }>({
     queryKey: ['/api/game-profiles'],
   });
+  const gameProfiles = profileData?.profiles ?? [];
 
-  const updateProfileMutation = useMutation({
-    mutationFn: async ({ id, updates }: { id: string; updates: Partial<GameProfile> }) => {
-      const response = await apiRequest('PUT', `/api/game-profiles/${id}`, updates);
-      return response.json();
+  // The server switches profiles itself when it sees a game start or exit
+  useRealtimeTopics(['games']);
+  useRealtimeMessage('gameSession', ({ event, session }) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/game-profiles'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/gaming-sessions'] });
+    toast({
+      title: event === 'started' ? `${session.gameName} Detected` : `${session.gameName} Closed`,
+      description: event === 'started'
+        ? `Switched to the ${session.gameName} profile.`
+        : "Your previous profile has been restored.",
+    });
+  });
+
+  // Default profiles are read-only templates, so clicking one activates a personal copy
+  const toggleProfileMutation = useMutation({
+    mutationFn: async (profile: GameProfile) => {
+      let id = profile.id;
+      if (!profile.userId) {
+        const response = await apiRequest('POST', `/api/game-profiles/${id}/duplicate`);
+        id = (await response.json()).profile.id;
+      }
+      const response = await apiRequest('POST', `/api/game-profiles/${id}/${profile.isActive ? 'deactivate' : 'activate'}`);
+      return (await response.json()).profile as GameProfile;
     },
-    onSuccess: () => {
+    onSuccess: (profile) => {
       queryClient.invalidateQueries({ queryKey: ['/api/game-profiles'] });
       toast({
-        title: "Profile Updated",
-        description: "Game profile has been successfully updated.",
+        title: profile.isActive ? "Profile Activated" : "Profile Deactivated",
+        description: profile.isActive
+          ? `${profile.name} settings will be applied while you play.`
+          : `${profile.name} is no longer active.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Profile Update Failed",
+        description: "Could not change the active game profile.",
+        variant: "destructive",
       });
     },
   });
 
-  const handleOptimizeSystem = () => {
-    toast({
-      title: "System Optimization Started",
-      description: "Running comprehensive system optimization...",
-    });
+  const jobs = useOptimizationJobs({
+    onFinished: (job) => {
+      if (job.task !== 'quickOptimize') return;
+      if (job.status === 'succeeded') {
+        toast({ title: "System Optimized", description: job.result?.summary });
+      } else if (job.status === 'failed') {
+        toast({ title: "Optimization Failed", description: job.error ?? undefined, variant: "destructive" });
+      }
+    },
+    onError: (message) => {
+      toast({ title: "Optimization Failed", description: message, variant: "destructive" });
+    },
+  });
+  const quickJob = jobs.jobFor('quickOptimize');
+
+  const handleOptimizeSystem = (tasks: string[]) => {
+    jobs.start('quickOptimize', { tasks });
   };
 
   const handleCreateProfile = () => {
-    toast({
-      title: "Profile Creator",
-      description: "Game profile creation wizard will be available in the full version.",
-    });
+    setShowProfileWizard(true);
   };
 
-  const handleGameProfileClick = (profileId: string) => {
-    updateProfileMutation.mutate({
-      id: profileId,
-      updates: { isActive: true }
-    });
+  const handleGameProfileClick = (profile: GameProfile) => {
+    toggleProfileMutation.mutate(profile);
   };
 
   return (
@@ -120,7 +162,7 @@ export default function Dashboard() {
               title="RAM Usage"
               icon="fas fa-memory"
               value={`${systemStats?.ramUsed || '0.0'}GB`}
-              percentage={systemStats ? Math.round((parseFloat(systemStats.ramUsed) / 16) * 100) : 0}
+              percentage={systemStats ? Math.round((parseFloat(systemStats.ramUsed) / (parseFloat(systemStats.ramUsed) + parseFloat(systemStats.ramAvailable) || 1)) * 100) : 0}
               subtitle={`Available: ${systemStats?.ramAvailable || '0.0'}GB`}
               color="text-neon-purple"
               glowColor="bg-gradient-to-r from-neon-green to-neon-blue"
@@ -136,20 +178,25 @@ export default function Dashboard() {
             />
           </div>
 
+          <PerformanceHistory />
+
           {/* Optimization Modules */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
             <OptimizationCard
               title="System Optimizer"
-              description="Clean and boost system performance"
+              description="Free memory and boost system performance"
               icon="fas fa-cogs"
               color="text-neon-green"
               buttonText="Optimize Now"
               buttonColor="bg-neon-green text-dark-bg hover:bg-neon-green/90"
               onOptimize={handleOptimizeSystem}
+              progress={isJobActive(quickJob) ? {
+                value: quickJob!.progress,
+                label: quickJob!.status === 'queued' ? "Waiting for other optimizations…" : `${quickJob!.step ?? "Starting"} · ${quickJob!.progress}%`,
+              } : null}
               settings={[
-                { label: "Temporary Files Cleanup", enabled: true },
-                { label: "Registry Optimization", enabled: true },
-                { label: "Startup Manager", enabled: false },
+                { id: "ramCleaner", label: "RAM Optimizer", enabled: true },
+                { id: "bgProcessMgmt", label: "Background Process Rules", enabled: false },
               ]}
             />
 
@@ -162,19 +209,29 @@ export default function Dashboard() {
                     <p className="text-gray-400">Game-specific optimizations</p>
                   </div>
                 </div>
-                <Button
-                  onClick={handleCreateProfile}
-                  className="bg-neon-purple text-white hover:bg-neon-purple/90 transition-colors"
-                >
-                  Create Profile
-                </Button>
+                <div className="flex items-center space-x-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowProfileImport(true)}
+                    className="border-dark-border text-gray-300 hover:text-white"
+                  >
+                    <i className="fas fa-file-import mr-2" />
+                    Import
+                  </Button>
+                  <Button
+                    onClick={handleCreateProfile}
+                    className="bg-neon-purple text-white hover:bg-neon-purple/90 transition-colors"
+                  >
+                    Create Profile
+                  </Button>
+                </div>
               </div>
               
               <div className="space-y-3">
                 {gameProfiles.map((profile: GameProfile) => (
                   <div
                     key={profile.id}
-                    onClick={() => handleGameProfileClick(profile.id)}
+                    onClick={() => handleGameProfileClick(profile)}
                     className="flex items-center justify-between p-3 bg-dark-bg rounded-lg hover:bg-dark-border transition-colors cursor-pointer"
                   >
                     <div className="flex items-center">
@@ -187,11 +244,23 @@ export default function Dashboard() {
                       </div>
                       <span className="text-white">{profile.name}</span>
                     </div>
-                    <span className={`text-sm ${
-                      profile.isActive ? 'text-neon-green' : 'text-gray-400'
-                    }`}>
-                      {profile.isActive ? 'Active' : 'Ready'}
-                    </span>
+                    <div className="flex items-center space-x-3">
+                      <span className={`text-sm ${
+                        profile.isActive ? 'text-neon-green' : 'text-gray-400'
+                      }`}>
+                        {profile.isActive ? 'Active' : profile.userId ? 'Ready' : 'Template'}
+                      </span>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setSharingProfile(profile);
+                        }}
+                        className="text-gray-500 hover:text-neon-blue transition-colors"
+                        title="Share profile"
+                      >
+                        <i className="fas fa-share-nodes" />
+                      </button>
+                    </div>
                   </div>
                 ))}
               </div>
@@ -219,6 +288,21 @@ export default function Dashboard() {
         isOpen={showSettings}
         onClose={() => setShowSettings(false)}
       />
+
+      <ProfileWizard
+        isOpen={showProfileWizard}
+        onClose={() => setShowProfileWizard(false)}
+      />
+
+      <ProfileImportDialog
+        isOpen={showProfileImport}
+        onClose={() => setShowProfileImport(false)}
+      />
+
+      <ProfileExportDialog
+        profile={sharingProfile}
+        onClose={() => setSharingProfile(null)}
+      />
     </div>
   );
 }
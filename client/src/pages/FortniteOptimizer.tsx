@@ -1,4 +1,6 @@
 import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { UdpTest } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
@@ -7,6 +9,7 @@ import { Slider } from "@/components/ui/slider";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
 import FpsCapControl from "@/components/FpsCapControl";
+import { useWebSocket } from "@/hooks/useWebSocket";
 
 interface Message {
   sender: "user" | "bot";
@@ -18,7 +21,8 @@ interface Message {
 interface FortniteMetrics {
   fps: number;
   ping: number;
-  packetLoss: number;
+  // Percent, from the latest UDP test; null until one has completed
+  packetLoss: number | null;
   cpu: number;
   gpu: number;
   gpuTemp: number;
@@ -55,7 +59,7 @@ export default function FortniteOptimizer() {
   const [metrics, setMetrics] = useState<FortniteMetrics>({
     fps: 144,
     ping: 25,
-    packetLoss: 0.1,
+    packetLoss: null,
     cpu: 45,
     gpu: 67,
     gpuTemp: 72,
@@ -64,18 +68,38 @@ export default function FortniteOptimizer() {
   });
 
   const { toast } = useToast();
+  const { systemStats } = useWebSocket();
 
-  // Simulate real-time metrics updates
+  // CPU, GPU and memory come from the host telemetry stream
+  useEffect(() => {
+    if (!systemStats) return;
+    const ramUsed = parseFloat(systemStats.ramUsed);
+    const ramTotal = ramUsed + parseFloat(systemStats.ramAvailable);
+    setMetrics(prev => ({
+      ...prev,
+      cpu: systemStats.cpuUsage,
+      gpu: systemStats.gpuUsage,
+      gpuTemp: systemStats.gpuTemp,
+      memoryUsage: ramTotal > 0 ? Math.round((ramUsed / ramTotal) * 100) : 0,
+    }));
+  }, [systemStats]);
+
+  // Packet loss is what the last UDP test in the Network Booster measured
+  const { data: udpTestData } = useQuery<{ tests: UdpTest[] }>({
+    queryKey: ['/api/network/udp-tests'],
+  });
+  useEffect(() => {
+    const latest = udpTestData?.tests.find(test => test.status === "completed");
+    setMetrics(prev => ({ ...prev, packetLoss: latest ? latest.summary.lossRate * 100 : null }));
+  }, [udpTestData]);
+
+  // Simulate the metrics that are not measured yet
   useEffect(() => {
     const interval = setInterval(() => {
       setMetrics(prev => ({
+        ...prev,
         fps: Math.max(60, Math.min(240, prev.fps + (Math.random() - 0.5) * 10)),
         ping: Math.max(5, Math.min(80, prev.ping + (Math.random() - 0.5) * 8)),
-        packetLoss: Math.max(0, Math.min(5, prev.packetLoss + (Math.random() - 0.5) * 0.3)),
-        cpu: Math.max(20, Math.min(90, prev.cpu + (Math.random() - 0.5) * 8)),
-        gpu: Math.max(30, Math.min(95, prev.gpu + (Math.random() - 0.5) * 10)),
-        gpuTemp: Math.max(45, Math.min(85, prev.gpuTemp + (Math.random() - 0.5) * 3)),
-        memoryUsage: Math.max(40, Math.min(90, prev.memoryUsage + (Math.random() - 0.5) * 5)),
         diskUsage: Math.max(10, Math.min(60, prev.diskUsage + (Math.random() - 0.5) * 4)),
       }));
     }, 2000);
@@ -410,8 +434,11 @@ export default function FortniteOptimizer() {
                   
                   <div className="bg-dark-bg p-3 rounded-lg">
                     <div className="text-gray-400 text-xs mb-1">PACKET LOSS</div>
-                    <div className={cn("text-2xl font-bold", getMetricColor('packetLoss', metrics.packetLoss))}>
-                      {metrics.packetLoss.toFixed(1)}%
+                    <div
+                      className={cn("text-2xl font-bold", metrics.packetLoss === null ? "text-gray-500" : getMetricColor('packetLoss', metrics.packetLoss))}
+                      title={metrics.packetLoss === null ? "Run a UDP test in the Network Booster" : "From the latest UDP test"}
+                    >
+                      {metrics.packetLoss === null ? "—" : `${metrics.packetLoss.toFixed(1)}%`}
                     </div>
                   </div>
                   
@@ -430,7 +457,7 @@ export default function FortniteOptimizer() {
                     <div className="text-xs font-mono space-y-1" style={{ opacity: overlayTransparency[0] / 100 }}>
                       {selectedMetrics.fps && <div className="text-neon-green">FPS: {Math.round(metrics.fps)}</div>}
                       {selectedMetrics.ping && <div className="text-yellow-400">Ping: {Math.round(metrics.ping)}ms</div>}
-                      {selectedMetrics.packetLoss && <div className="text-white">Loss: {metrics.packetLoss.toFixed(1)}%</div>}
+                      {selectedMetrics.packetLoss && <div className="text-white">Loss: {metrics.packetLoss === null ? "—" : `${metrics.packetLoss.toFixed(1)}%`}</div>}
                       {selectedMetrics.cpu && <div className="text-neon-blue">CPU: {Math.round(metrics.cpu)}%</div>}
                       {selectedMetrics.gpu && <div className="text-neon-purple">GPU: {Math.round(metrics.gpu)}%</div>}
                       {selectedMetrics.gpuTemp && <div className="text-orange-400">Temp: {Math.round(metrics.gpuTemp)}°C</div>}
@@ -1,117 +1,124 @@
 import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
+import { useGpuAgent } from "@/hooks/useGpuAgent";
+import { useGpuTuning } from "@/hooks/useGpuTuning";
 import { cn } from "@/lib/utils";
+import { gpuControlUnits, validateGpuSettings, type GpuSettings } from "@shared/gpuAgent";
+import { gpuTuningRevertLabels } from "@shared/gpuTuning";
+import type { GpuTuningAttempt } from "@shared/schema";
 import IntelGpuPanel from "@/components/IntelGpuPanel";
 import AmdGpuPanel from "@/components/AmdGpuPanel";
+import GpuTuningConfirm from "@/components/GpuTuningConfirm";
 import FpsCapControl from "@/components/FpsCapControl";
 
-export default function GPUTuner() {
-  const [gpuStats, setGpuStats] = useState({
-    name: "NVIDIA GeForce RTX 4070",
-    temperature: 65,
-    usage: 48,
-    coreClock: 1500,
-    memoryClock: 7000,
-    fanSpeed: 40,
-    powerLimit: 100,
-    vramUsed: 3.2,
-    vramTotal: 12.0,
-  });
-
-  const [settings, setSettings] = useState({
-    coreClock: 1500,
-    memoryClock: 7000,
-    fanSpeed: 40,
-    powerLimit: 100,
-  });
+const tuningControls = [
+  { control: "coreClockOffset", label: "Core Clock Offset", color: "text-neon-blue" },
+  { control: "memoryClockOffset", label: "Memory Clock Offset", color: "text-neon-purple" },
+  { control: "fanSpeed", label: "Fan Speed", color: "text-neon-green" },
+  { control: "powerLimit", label: "Power Limit", color: "text-yellow-400" },
+] as const;
+
+type TuningSettings = Pick<GpuSettings, typeof tuningControls[number]["control"]>;
+
+const pickTuning = (settings: GpuSettings): TuningSettings => ({
+  coreClockOffset: settings.coreClockOffset,
+  memoryClockOffset: settings.memoryClockOffset,
+  fanSpeed: settings.fanSpeed,
+  powerLimit: settings.powerLimit,
+});
+
+const reading = (value: number | null | undefined, unit: string) =>
+  value == null ? "—" : `${Math.round(value)}${unit}`;
+
+const describeSettings = (settings: GpuSettings) =>
+  tuningControls
+    .filter(({ control }) => settings[control] !== undefined)
+    .map(({ control, label }) => `${label} ${settings[control] ?? "Auto"}${settings[control] == null ? "" : ` ${gpuControlUnits[control]}`}`)
+    .join(", ");
+
+const attemptOutcome = (attempt: GpuTuningAttempt) => {
+  if (attempt.status === "reverted" && attempt.revertReason) return gpuTuningRevertLabels[attempt.revertReason];
+  if (attempt.status === "confirmed") return "Kept";
+  if (attempt.status === "rejected") return "Refused";
+  if (attempt.status === "failed") return "Revert failed";
+  return "In progress";
+};
 
-  const [status, setStatus] = useState<"idle" | "applying" | "applied">("idle");
-  const [autoTuningEnabled, setAutoTuningEnabled] = useState(false);
+export default function GPUTuner() {
+  const [settings, setSettings] = useState<TuningSettings>({});
+  const [applied, setApplied] = useState(false);
 
   const { toast } = useToast();
 
-  // Simulate real-time GPU stats updates
+  const gpu = useGpuAgent("nvidia", {
+    onEvent: (event) => {
+      toast({ title: "GPU Driver Event", description: event.message, variant: "destructive" });
+    },
+    onError: (message) => {
+      toast({ title: "GPU Tweaks Failed", description: message, variant: "destructive" });
+    },
+  });
+  const stats = gpu.telemetry;
+  const controls = gpu.device?.capabilities.controls ?? {};
+
+  const tuning = useGpuTuning(gpu.device, {
+    onFinished: (attempt) => {
+      if (attempt.status === "confirmed") {
+        setApplied(true);
+        toast({ title: "GPU Tweaks Kept", description: `${attempt.deviceName} keeps running the new settings.` });
+      } else if (attempt.status === "reverted" && attempt.revertReason !== "declined") {
+        toast({
+          title: "GPU Tweaks Reverted",
+          description: [gpuTuningRevertLabels[attempt.revertReason!], attempt.message].filter(Boolean).join(": "),
+          variant: "destructive",
+        });
+      } else if (attempt.status === "failed") {
+        toast({ title: "GPU Revert Failed", description: attempt.message ?? undefined, variant: "destructive" });
+      }
+    },
+    onError: (message) => {
+      toast({ title: "GPU Tweaks Failed", description: message, variant: "destructive" });
+    },
+  });
+  const attempt = tuning.attempt;
+
+  // The sliders start from what the card runs at now
   useEffect(() => {
-    const interval = setInterval(() => {
-      setGpuStats(prev => ({
-        ...prev,
-        temperature: Math.max(45, Math.min(85, prev.temperature + (Math.random() - 0.5) * 4)),
-        usage: Math.max(0, Math.min(100, prev.usage + (Math.random() - 0.5) * 10)),
-        vramUsed: Math.max(1, Math.min(prev.vramTotal, prev.vramUsed + (Math.random() - 0.5) * 0.5)),
-      }));
-    }, 2000);
-
-    return () => clearInterval(interval);
-  }, []);
-
-  const applyTweaks = async () => {
-    setStatus("applying");
-    
-    // Simulate applying GPU tweaks
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    setGpuStats(prev => ({
-      ...prev,
-      coreClock: settings.coreClock,
-      memoryClock: settings.memoryClock,
-      fanSpeed: settings.fanSpeed,
-      powerLimit: settings.powerLimit,
-    }));
-    
-    setStatus("applied");
-    
-    toast({
-      title: "GPU Tweaks Applied",
-      description: "Your graphics card has been optimized for better gaming performance.",
-    });
-    
-    // Reset status after 3 seconds
-    setTimeout(() => setStatus("idle"), 3000);
-  };
+    if (gpu.settings) setSettings(pickTuning(gpu.settings));
+  }, [gpu.settings]);
 
-  const resetTweaks = () => {
-    setSettings({
-      coreClock: gpuStats.coreClock,
-      memoryClock: gpuStats.memoryClock,
-      fanSpeed: gpuStats.fanSpeed,
-      powerLimit: gpuStats.powerLimit,
-    });
-    setStatus("idle");
-    
-    toast({
-      title: "Settings Reset",
-      description: "GPU settings have been reset to default values.",
-    });
+  const changeSetting = (values: TuningSettings) => {
+    setSettings(prev => ({ ...prev, ...values }));
+    setApplied(false);
   };
 
-  const runAutoTuning = async () => {
-    setAutoTuningEnabled(true);
-    
-    toast({
-      title: "Auto-Tuning Started",
-      description: "AI is analyzing your GPU and finding optimal settings...",
-    });
+  // Applied in steps by the server, then kept only once confirmed
+  const applyTweaks = () => {
+    // Only what the card can set; the agent refuses anything else
+    const changes = Object.fromEntries(
+      Object.entries(settings).filter(([control, value]) => value !== undefined && control in controls),
+    ) as TuningSettings;
+    const invalid = gpu.device && validateGpuSettings(gpu.device, changes);
+    if (invalid) {
+      toast({ title: "GPU Tweaks Refused", description: invalid.message, variant: "destructive" });
+      return;
+    }
+    setApplied(false);
+    tuning.start(changes);
+  };
 
-    // Simulate auto-tuning process
-    await new Promise(resolve => setTimeout(resolve, 3000));
-    
-    // Set optimal values
-    const optimalSettings = {
-      coreClock: gpuStats.coreClock + 150,
-      memoryClock: gpuStats.memoryClock + 500,
-      fanSpeed: Math.min(80, gpuStats.fanSpeed + 20),
-      powerLimit: Math.min(120, gpuStats.powerLimit + 10),
-    };
-    
-    setSettings(optimalSettings);
-    setAutoTuningEnabled(false);
-    
-    toast({
-      title: "Auto-Tuning Complete",
-      description: "Optimal GPU settings have been found and applied automatically.",
+  const resetTweaks = () => {
+    gpu.reset((defaults) => {
+      setSettings(pickTuning(defaults));
+      setApplied(false);
+      toast({
+        title: "Settings Reset",
+        description: "GPU settings have been reset to the driver defaults.",
+      });
     });
   };
 
@@ -178,173 +185,131 @@ export default function GPUTuner() {
                 <i className="fas fa-display text-neon-green text-2xl mr-4 neon-glow" />
                 <div>
                   <h3 className="text-xl font-bold text-white">GPU Statistics</h3>
-                  <p className="text-gray-400 text-sm">{gpuStats.name}</p>
+                  <p className="text-gray-400 text-sm">{gpu.device?.name ?? gpu.unavailableReason ?? "Connecting to the GPU agent…"}</p>
                 </div>
               </div>
 
               <div className="space-y-4">
                 <div className="flex justify-between items-center">
                   <span className="text-gray-300">Temperature</span>
-                  <span className={cn("font-bold text-lg", getTemperatureColor(gpuStats.temperature))}>
-                    {Math.round(gpuStats.temperature)}°C
+                  <span className={cn("font-bold text-lg", stats?.temperature != null && getTemperatureColor(stats.temperature))}>
+                    {reading(stats?.temperature, "°C")}
                   </span>
                 </div>
 
                 <div className="flex justify-between items-center">
                   <span className="text-gray-300">GPU Usage</span>
-                  <span className={cn("font-bold text-lg", getUsageColor(gpuStats.usage))}>
-                    {Math.round(gpuStats.usage)}%
+                  <span className={cn("font-bold text-lg", stats?.usage != null && getUsageColor(stats.usage))}>
+                    {reading(stats?.usage, "%")}
                   </span>
                 </div>
 
                 <div className="flex justify-between items-center">
                   <span className="text-gray-300">Core Clock</span>
                   <span className="text-neon-blue font-bold">
-                    {Math.round(gpuStats.coreClock)} MHz
+                    {reading(stats?.coreClock, " MHz")}
                   </span>
                 </div>
 
                 <div className="flex justify-between items-center">
                   <span className="text-gray-300">Memory Clock</span>
                   <span className="text-neon-purple font-bold">
-                    {Math.round(gpuStats.memoryClock)} MHz
+                    {reading(stats?.memoryClock, " MHz")}
                   </span>
                 </div>
 
                 <div className="flex justify-between items-center">
                   <span className="text-gray-300">Fan Speed</span>
                   <span className="text-neon-green font-bold">
-                    {Math.round(gpuStats.fanSpeed)}%
+                    {reading(stats?.fanSpeed, "%")}
+                  </span>
+                </div>
+
+                <div className="flex justify-between items-center">
+                  <span className="text-gray-300">Power</span>
+                  <span className="text-yellow-400 font-bold">
+                    {reading(stats?.powerDraw, "W")} / {reading(stats?.powerLimit, "W")}
                   </span>
                 </div>
 
                 <div className="flex justify-between items-center">
                   <span className="text-gray-300">VRAM Usage</span>
                   <span className="text-white font-bold">
-                    {gpuStats.vramUsed.toFixed(1)}GB / {gpuStats.vramTotal}GB
+                    {stats?.vramUsed != null && stats.vramTotal
+                      ? `${(stats.vramUsed / 1024).toFixed(1)}GB / ${(stats.vramTotal / 1024).toFixed(1)}GB`
+                      : "—"}
                   </span>
                 </div>
 
+                <div className="flex justify-between items-center">
+                  <span className="text-gray-300">Performance State</span>
+                  <span className="text-white font-bold">{stats?.performanceState ?? "—"}</span>
+                </div>
+
                 <div className="w-full bg-gray-700 rounded-full h-2">
                   <div
                     className="bg-gradient-to-r from-neon-green to-neon-blue h-2 rounded-full transition-all duration-300"
-                    style={{ width: `${(gpuStats.vramUsed / gpuStats.vramTotal) * 100}%` }}
+                    style={{ width: `${stats?.vramUsed != null && stats.vramTotal ? (stats.vramUsed / stats.vramTotal) * 100 : 0}%` }}
                   />
                 </div>
+
+                {!!stats?.throttleReasons.length && (
+                  <div className="flex items-center text-yellow-400 text-sm">
+                    <i className="fas fa-temperature-high mr-2" />
+                    Throttled: {stats.throttleReasons.join(", ")}
+                  </div>
+                )}
               </div>
             </div>
 
             {/* Tuning Controls */}
             <div className="lg:col-span-2 bg-dark-card rounded-xl p-6 border border-dark-border card-hover">
-              <div className="flex items-center justify-between mb-6">
-                <div className="flex items-center">
-                  <i className="fas fa-sliders-h text-neon-purple text-2xl mr-4 neon-glow" />
-                  <div>
-                    <h3 className="text-xl font-bold text-white">Manual Tuning</h3>
-                    <p className="text-gray-400 text-sm">Adjust GPU settings for optimal performance</p>
-                  </div>
+              <div className="flex items-center mb-6">
+                <i className="fas fa-sliders-h text-neon-purple text-2xl mr-4 neon-glow" />
+                <div>
+                  <h3 className="text-xl font-bold text-white">Manual Tuning</h3>
+                  <p className="text-gray-400 text-sm">Adjust GPU settings within the limits the driver reports</p>
                 </div>
-                <Button
-                  onClick={runAutoTuning}
-                  disabled={autoTuningEnabled}
-                  className="bg-gradient-to-r from-neon-purple to-neon-blue text-white hover:opacity-90"
-                >
-                  {autoTuningEnabled ? (
-                    <>
-                      <i className="fas fa-spinner animate-spin mr-2" />
-                      Auto-Tuning...
-                    </>
-                  ) : (
-                    <>
-                      <i className="fas fa-magic mr-2" />
-                      Auto-Tune
-                    </>
-                  )}
-                </Button>
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                
-                {/* Core Clock */}
-                <div className="space-y-3">
-                  <div className="flex justify-between items-center">
-                    <label className="font-medium text-white">Core Clock</label>
-                    <span className="text-neon-blue font-bold">{settings.coreClock} MHz</span>
-                  </div>
-                  <Slider
-                    value={[settings.coreClock]}
-                    onValueChange={([value]) => setSettings(prev => ({ ...prev, coreClock: value }))}
-                    min={gpuStats.coreClock - 300}
-                    max={gpuStats.coreClock + 300}
-                    step={25}
-                    className="w-full"
-                  />
-                  <div className="flex justify-between text-xs text-gray-400">
-                    <span>{gpuStats.coreClock - 300} MHz</span>
-                    <span>{gpuStats.coreClock + 300} MHz</span>
-                  </div>
-                </div>
-
-                {/* Memory Clock */}
-                <div className="space-y-3">
-                  <div className="flex justify-between items-center">
-                    <label className="font-medium text-white">Memory Clock</label>
-                    <span className="text-neon-purple font-bold">{settings.memoryClock} MHz</span>
-                  </div>
-                  <Slider
-                    value={[settings.memoryClock]}
-                    onValueChange={([value]) => setSettings(prev => ({ ...prev, memoryClock: value }))}
-                    min={gpuStats.memoryClock - 1000}
-                    max={gpuStats.memoryClock + 1000}
-                    step={100}
-                    className="w-full"
-                  />
-                  <div className="flex justify-between text-xs text-gray-400">
-                    <span>{gpuStats.memoryClock - 1000} MHz</span>
-                    <span>{gpuStats.memoryClock + 1000} MHz</span>
-                  </div>
-                </div>
-
-                {/* Fan Speed */}
-                <div className="space-y-3">
-                  <div className="flex justify-between items-center">
-                    <label className="font-medium text-white">Fan Speed</label>
-                    <span className="text-neon-green font-bold">{settings.fanSpeed}%</span>
-                  </div>
-                  <Slider
-                    value={[settings.fanSpeed]}
-                    onValueChange={([value]) => setSettings(prev => ({ ...prev, fanSpeed: value }))}
-                    min={0}
-                    max={100}
-                    step={5}
-                    className="w-full"
-                  />
-                  <div className="flex justify-between text-xs text-gray-400">
-                    <span>Auto</span>
-                    <span>Max</span>
-                  </div>
-                </div>
-
-                {/* Power Limit */}
-                <div className="space-y-3">
-                  <div className="flex justify-between items-center">
-                    <label className="font-medium text-white">Power Limit</label>
-                    <span className="text-yellow-400 font-bold">{settings.powerLimit}%</span>
-                  </div>
-                  <Slider
-                    value={[settings.powerLimit]}
-                    onValueChange={([value]) => setSettings(prev => ({ ...prev, powerLimit: value }))}
-                    min={50}
-                    max={120}
-                    step={5}
-                    className="w-full"
-                  />
-                  <div className="flex justify-between text-xs text-gray-400">
-                    <span>50%</span>
-                    <span>120%</span>
-                  </div>
-                </div>
-
+                {tuningControls.map(({ control, label, color }) => {
+                  const range = controls[control];
+                  const value = settings[control];
+                  const unit = gpuControlUnits[control];
+                  return (
+                    <div key={control} className="space-y-3">
+                      <div className="flex justify-between items-center">
+                        <label className="font-medium text-white">{label}</label>
+                        <span className={cn("font-bold", color)}>
+                          {!range ? "Not supported" : value == null ? "Auto" : `${value} ${unit}`}
+                        </span>
+                      </div>
+                      <Slider
+                        value={[value ?? range?.default ?? range?.min ?? 0]}
+                        onValueChange={([next]: number[]) => changeSetting({ [control]: next })}
+                        min={range?.min ?? 0}
+                        max={range?.max ?? 100}
+                        step={range?.step ?? 1}
+                        disabled={!range || (control === "fanSpeed" && value == null)}
+                        className="w-full"
+                      />
+                      <div className="flex justify-between text-xs text-gray-400">
+                        <span>{range ? `${range.min} ${unit}` : ""}</span>
+                        {control === "fanSpeed" && range && (
+                          <label className="flex items-center space-x-2">
+                            <span>Auto</span>
+                            <Switch
+                              checked={value == null}
+                              onCheckedChange={(auto: boolean) => changeSetting({ fanSpeed: auto ? null : range.max })}
+                            />
+                          </label>
+                        )}
+                        <span>{range ? `${range.max} ${unit}` : ""}</span>
+                      </div>
+                    </div>
+                  );
+                })}
               </div>
 
               {/* Action Buttons */}
@@ -352,15 +317,20 @@ export default function GPUTuner() {
                 <div className="flex space-x-4">
                   <Button
                     onClick={applyTweaks}
-                    disabled={status === "applying" || autoTuningEnabled}
+                    disabled={gpu.isPending || tuning.isPending || tuning.active || !gpu.device}
                     className="bg-neon-green text-dark-bg hover:bg-neon-green/90 transition-colors px-8"
                   >
-                    {status === "applying" ? (
+                    {attempt?.status === "applying" ? (
                       <>
                         <i className="fas fa-spinner animate-spin mr-2" />
-                        Applying...
+                        Step {Math.min(attempt.stepsApplied + 1, attempt.stepsTotal)} of {attempt.stepsTotal}...
+                      </>
+                    ) : tuning.active ? (
+                      <>
+                        <i className="fas fa-hourglass-half mr-2" />
+                        Awaiting Confirmation
                       </>
-                    ) : status === "applied" ? (
+                    ) : applied ? (
                       <>
                         <i className="fas fa-check mr-2" />
                         Applied
@@ -375,7 +345,7 @@ export default function GPUTuner() {
                   
                   <Button
                     onClick={resetTweaks}
-                    disabled={status === "applying" || autoTuningEnabled}
+                    disabled={gpu.isPending || tuning.active || !gpu.device}
                     className="bg-gray-600 hover:bg-gray-700 text-white px-8"
                   >
                     <i className="fas fa-undo mr-2" />
@@ -383,27 +353,67 @@ export default function GPUTuner() {
                   </Button>
                 </div>
 
-                {status === "applied" && (
+                {gpu.unavailableReason ? (
+                  <div className="flex items-center text-gray-400">
+                    <i className="fas fa-ban mr-2" />
+                    <span>{gpu.unavailableReason}</span>
+                  </div>
+                ) : applied && (
                   <div className="flex items-center text-neon-green">
                     <i className="fas fa-check-circle mr-2" />
-                    <span className="font-medium">Tweaks Applied Successfully!</span>
+                    <span className="font-medium">Tweaks Kept!</span>
                   </div>
                 )}
               </div>
 
-              {/* Warning Notice */}
+              {/* Confirmation Window */}
+              <GpuTuningConfirm
+                attempt={attempt}
+                description={attempt ? describeSettings(attempt.requested) : ""}
+                isPending={tuning.isPending}
+                onKeep={tuning.confirm}
+                onRevert={tuning.revert}
+              />
+
+              {/* Safe Apply Notice */}
               <div className="mt-6 bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-4">
                 <div className="flex items-start">
-                  <i className="fas fa-exclamation-triangle text-yellow-400 mr-3 mt-0.5" />
+                  <i className="fas fa-shield-alt text-yellow-400 mr-3 mt-0.5" />
                   <div className="text-sm">
-                    <p className="text-yellow-400 font-medium mb-1">Overclocking Warning</p>
+                    <p className="text-yellow-400 font-medium mb-1">Guarded Apply</p>
                     <p className="text-gray-300">
-                      Overclocking can increase performance but may cause instability or hardware damage. 
-                      Monitor temperatures and start with small increments. Use at your own risk.
+                      Settings are checked against the limits the driver reports and raised in small steps. Keep them
+                      within the confirmation window or they go back to what the card ran before, which also happens
+                      straight away if the driver resets or the card reaches its thermal limit.
                     </p>
                   </div>
                 </div>
               </div>
+
+              {/* Tuning History */}
+              {tuning.history.length > 0 && (
+                <table className="w-full text-xs mt-6">
+                  <thead>
+                    <tr className="text-gray-500">
+                      <th className="text-left font-normal pb-1">When</th>
+                      <th className="text-left font-normal pb-1">Settings</th>
+                      <th className="text-right font-normal pb-1">Outcome</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {tuning.history.slice(0, 5).map(entry => (
+                      <tr key={entry.id} className="border-t border-dark-border" title={entry.message ?? undefined}>
+                        <td className="py-1 text-gray-400">{new Date(entry.createdAt).toLocaleString()}</td>
+                        <td className="py-1">{describeSettings(entry.requested)}</td>
+                        <td className={cn("py-1 text-right", entry.status === "confirmed" ? "text-neon-green" : "text-gray-400",
+                          (entry.status === "failed" || entry.status === "rejected") && "text-red-400")}>
+                          {attemptOutcome(entry)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
             </div>
 
           </div>
@@ -6,6 +6,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
+import { TwoFactorSettings } from "@/components/TwoFactorSettings";
 import { cn } from "@/lib/utils";
 
 interface UserSettings {
@@ -50,7 +51,7 @@ export default function Settings() {
         });
         
         if (response.ok) {
-          const data = await response.json();
+          const { settings: data } = await response.json();
           if (data) {
             setSettings({
               darkMode: data.darkMode,
@@ -176,6 +177,9 @@ export default function Settings() {
           </CardContent>
         </Card>
 
+        {/* Two-Factor Authentication */}
+        <TwoFactorSettings />
+
         {/* Appearance Settings */}
         <Card className="bg-dark-card border-dark-border">
           <CardHeader>
@@ -1,89 +1,169 @@
-import { useState } from "react";
+import { useState, type ReactNode } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
-import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { ProcessManager } from "@/components/ProcessManager";
+import { CleanupSettings } from "@/components/CleanupSettings";
+import { StartupItems } from "@/components/StartupItems";
+import { SnapshotPanel, type SnapshotListResponse } from "@/components/SnapshotPanel";
 import { useToast } from "@/hooks/use-toast";
+import { isJobActive, useOptimizationJobs } from "@/hooks/useOptimizationJobs";
+import { apiRequest } from "@/lib/queryClient";
 import { cn } from "@/lib/utils";
+import type { OptimizationJob } from "@shared/schema";
+import { cleanupOptionsSchema, type CleanupOptions } from "@shared/cleanup";
 
-export default function SystemOptimizer() {
-  const [status, setStatus] = useState({
-    tempCleanup: "idle",
-    registryTweaks: "idle",
-    startupManager: "idle",
-    ramCleaner: "idle",
-    cpuGpuTweaks: "idle",
-    bgProcessMgmt: "idle",
-  });
+interface JobCardProps {
+  task: string;
+  title: string;
+  description: string;
+  icon: string;
+  buttonText: string;
+  buttonColor: string;
+  bullets: string[];
+  disabled: boolean;
+  jobs: ReturnType<typeof useOptimizationJobs>;
+  params?: unknown;
+  // Task settings, shown below the bullets
+  children?: ReactNode;
+}
 
-  const [backupCreated, setBackupCreated] = useState(false);
-  const [selectedProcesses, setSelectedProcesses] = useState<number[]>([]);
-  const [processList] = useState([
-    { pid: 1234, name: "Discord.exe", cpu: 5.2, memory: "245MB" },
-    { pid: 5678, name: "Chrome.exe", cpu: 12.8, memory: "1.2GB" },
-    { pid: 9012, name: "GameOverlay.exe", cpu: 2.1, memory: "89MB" },
-    { pid: 3456, name: "Spotify.exe", cpu: 3.7, memory: "156MB" },
-    { pid: 7890, name: "TeamViewer.exe", cpu: 1.4, memory: "67MB" },
-  ]);
+function JobCard({
+  task, title, description, icon, buttonText, buttonColor, bullets, disabled, jobs, params, children,
+}: JobCardProps) {
+  const job = jobs.jobFor(task);
+  const active = isJobActive(job);
+  const unavailable = jobs.unavailableReason(task);
 
-  const { toast } = useToast();
+  return (
+    <div className="bg-dark-card rounded-xl p-6 border border-dark-border card-hover">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <i className={cn("text-2xl mr-4 neon-glow", icon)} />
+          <div>
+            <h3 className="text-xl font-bold text-white">{title}</h3>
+            <p className="text-gray-400 text-sm">{description}</p>
+          </div>
+        </div>
+        {active ? (
+          <Button
+            variant="outline"
+            onClick={() => jobs.cancel(job!)}
+            className="border-dark-border text-gray-300 hover:text-white"
+          >
+            <i className="fas fa-spinner animate-spin mr-2" />
+            Cancel
+          </Button>
+        ) : (
+          <Button
+            disabled={disabled || !!unavailable}
+            onClick={() => jobs.start(task, params)}
+            className={cn(
+              "transition-all duration-300",
+              job?.status === "succeeded" ? "bg-neon-green text-dark-bg" : buttonColor,
+              "disabled:bg-gray-600 disabled:text-gray-400"
+            )}
+          >
+            {job?.status === "succeeded" ? <>✓ Done</> : buttonText}
+          </Button>
+        )}
+      </div>
 
-  const handleCreateBackup = () => {
-    setBackupCreated(true);
-    toast({
-      title: "System Backup Created",
-      description: "All system settings have been backed up. You can now safely apply optimizations.",
-    });
-  };
+      {active && job && (
+        <div className="mb-4 space-y-2">
+          <Progress value={job.progress} className="h-2" />
+          <p className="text-sm text-gray-400">
+            {job.status === "queued" ? "Waiting for other optimizations…" : `${job.step ?? "Starting"} · ${job.progress}%`}
+          </p>
+        </div>
+      )}
+      {!active && job?.result && (
+        <p className="mb-4 text-sm text-neon-green">{job.result.summary}</p>
+      )}
+      {!active && job?.status === "failed" && (
+        <p className="mb-4 text-sm text-red-400">{job.error}</p>
+      )}
 
-  const runOptimization = async (feature: keyof typeof status) => {
-    setStatus((prev) => ({ ...prev, [feature]: "running" }));
-    
-    // Simulate optimization process
-    await new Promise((resolve) => setTimeout(resolve, 2000 + Math.random() * 1000));
-    
-    setStatus((prev) => ({ ...prev, [feature]: "done" }));
-    
-    const messages = {
-      tempCleanup: "Cleaned 2.3GB of temporary files and cache data",
-      registryTweaks: "Applied 15 registry optimizations for better performance",
-      startupManager: "Disabled 8 unnecessary startup programs",
-      ramCleaner: "Freed 1.2GB of RAM and optimized memory allocation",
-      cpuGpuTweaks: "Applied CPU priority tweaks and GPU performance settings",
-      bgProcessMgmt: "Optimized background process priorities",
-    };
+      {unavailable ? (
+        <p className="text-sm text-gray-500">
+          <i className="fas fa-ban mr-2" />
+          {unavailable}
+        </p>
+      ) : (
+        <div className="text-sm text-gray-400">
+          {bullets.map(bullet => <p key={bullet}>• {bullet}</p>)}
+        </div>
+      )}
+      {!unavailable && children && <div className="mt-4">{children}</div>}
+    </div>
+  );
+}
 
-    toast({
-      title: "Optimization Complete",
-      description: messages[feature],
-    });
-  };
+const statusColors: Record<OptimizationJob["status"], string> = {
+  queued: "text-gray-400",
+  running: "text-neon-blue",
+  succeeded: "text-neon-green",
+  failed: "text-red-400",
+  cancelled: "text-yellow-400",
+};
 
-  const toggleProcessSelection = (pid: number) => {
-    setSelectedProcesses((prev) =>
-      prev.includes(pid) ? prev.filter((id) => id !== pid) : [...prev, pid]
-    );
-  };
+export default function SystemOptimizer() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [cleanupOptions, setCleanupOptions] = useState<CleanupOptions>(() => cleanupOptionsSchema.parse({}));
+  const [showCleanupOptions, setShowCleanupOptions] = useState(false);
+  const [showStartupItems, setShowStartupItems] = useState(false);
+
+  // Optimizations unlock once the user has a snapshot to roll back to
+  const { data: snapshotData } = useQuery<SnapshotListResponse>({
+    queryKey: ['/api/snapshots'],
+  });
+  const backupCreated = (snapshotData?.snapshots.length ?? 0) > 0;
+
+  const jobs = useOptimizationJobs({
+    onFinished: (job) => {
+      if (job.task === "startupManager") {
+        queryClient.invalidateQueries({ queryKey: ['/api/startup'] });
+      }
+      if (job.status === "succeeded") {
+        toast({ title: "Optimization Complete", description: job.result?.summary });
+      } else if (job.status === "failed") {
+        toast({ title: "Optimization Failed", description: job.error ?? undefined, variant: "destructive" });
+      }
+    },
+    onError: (message) => {
+      toast({ title: "Optimization Failed", description: message, variant: "destructive" });
+    },
+  });
+
+  const { data: historyData } = useQuery<{ jobs: OptimizationJob[] }>({
+    queryKey: ['/api/jobs'],
+  });
+  const history = (historyData?.jobs ?? []).slice(0, 10);
+  const taskTitles = Object.fromEntries(jobs.tasks.map(task => [task.id, task.title]));
 
-  const killSelectedProcesses = () => {
-    if (selectedProcesses.length === 0) {
+  const backupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/snapshots', {});
+      return (await response.json()).snapshot as SnapshotListResponse["snapshots"][number];
+    },
+    onSuccess: (snapshot) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/snapshots'] });
+      const unreadable = snapshot.manifest.sources.filter(source => source.error).map(source => source.title);
       toast({
-        title: "No Processes Selected",
-        description: "Please select processes to terminate before proceeding.",
-        variant: "destructive",
+        title: "System Backup Created",
+        description: unreadable.length
+          ? `Settings were captured, except: ${unreadable.join(", ")}.`
+          : "All tracked settings have been captured. You can now safely apply optimizations.",
       });
-      return;
-    }
-    
-    const processNames = processList
-      .filter(p => selectedProcesses.includes(p.pid))
-      .map(p => p.name)
-      .join(", ");
-    
-    toast({
-      title: "Processes Terminated",
-      description: `Successfully terminated: ${processNames}`,
-    });
-    
-    setSelectedProcesses([]);
+    },
+    onError: () => {
+      toast({ title: "Backup Failed", description: "Could not capture the system state.", variant: "destructive" });
+    },
+  });
+
+  const handleCreateBackup = () => {
+    backupMutation.mutate();
   };
 
   return (
@@ -97,6 +177,7 @@ export default function SystemOptimizer() {
             </div>
             <Button
               onClick={handleCreateBackup}
+              disabled={backupMutation.isPending}
               className={cn(
                 "px-6 py-3 font-medium transition-all duration-300",
                 backupCreated 
@@ -104,220 +185,132 @@ export default function SystemOptimizer() {
                   : "bg-neon-blue text-dark-bg hover:bg-neon-blue/90"
               )}
             >
-              {backupCreated ? "✓ Backup Created" : "Create System Backup"}
+              {backupMutation.isPending ? (
+                <>
+                  <i className="fas fa-spinner animate-spin mr-2" />
+                  Backing Up...
+                </>
+              ) : backupCreated ? "✓ Create New Backup" : "Create System Backup"}
             </Button>
           </div>
 
           {/* Optimization Modules Grid */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            
-            {/* Temporary File Cleanup */}
-            <div className="bg-dark-card rounded-xl p-6 border border-dark-border card-hover">
-              <div className="flex items-center justify-between mb-4">
-                <div className="flex items-center">
-                  <i className="fas fa-trash-alt text-neon-green text-2xl mr-4 neon-glow" />
-                  <div>
-                    <h3 className="text-xl font-bold text-white">Temporary File Cleanup</h3>
-                    <p className="text-gray-400 text-sm">Remove temporary files and cache data</p>
-                  </div>
+            <JobCard
+              task="tempCleanup"
+              title="Temporary File Cleanup"
+              description="Remove temporary files and cache data"
+              icon="fas fa-trash-alt text-neon-green"
+              buttonText="Clean Files"
+              buttonColor="bg-neon-blue text-dark-bg hover:bg-neon-blue/90"
+              bullets={["Your files in /tmp and /var/tmp", "Old application caches and thumbnails", "Old logs and Steam download leftovers"]}
+              disabled={!backupCreated}
+              jobs={jobs}
+              params={cleanupOptions}
+            >
+              <button
+                onClick={() => setShowCleanupOptions(!showCleanupOptions)}
+                className="text-sm text-neon-blue hover:underline"
+              >
+                <i className={cn("fas mr-2", showCleanupOptions ? "fa-chevron-up" : "fa-chevron-down")} />
+                Options and preview
+              </button>
+              {showCleanupOptions && (
+                <div className="mt-4">
+                  <CleanupSettings options={cleanupOptions} onChange={setCleanupOptions} />
                 </div>
-                <Button
-                  disabled={!backupCreated || status.tempCleanup === "running"}
-                  onClick={() => runOptimization("tempCleanup")}
-                  className={cn(
-                    "transition-all duration-300",
-                    status.tempCleanup === "done" 
-                      ? "bg-neon-green text-dark-bg" 
-                      : "bg-neon-blue text-dark-bg hover:bg-neon-blue/90",
-                    "disabled:bg-gray-600 disabled:text-gray-400"
-                  )}
-                >
-                  {status.tempCleanup === "running" ? (
-                    <>
-                      <i className="fas fa-spinner animate-spin mr-2" />
-                      Cleaning...
-                    </>
-                  ) : status.tempCleanup === "done" ? (
-                    <>✓ Cleaned</>
-                  ) : (
-                    "Clean Files"
-                  )}
-                </Button>
-              </div>
-              <div className="text-sm text-gray-400">
-                <p>• Windows temp folders</p>
-                <p>• Browser cache files</p>
-                <p>• Application logs</p>
-              </div>
-            </div>
+              )}
+            </JobCard>
 
-            {/* Registry Tweaks */}
-            <div className="bg-dark-card rounded-xl p-6 border border-dark-border card-hover">
-              <div className="flex items-center justify-between mb-4">
-                <div className="flex items-center">
-                  <i className="fas fa-cogs text-neon-purple text-2xl mr-4 neon-glow" />
-                  <div>
-                    <h3 className="text-xl font-bold text-white">Registry Optimization</h3>
-                    <p className="text-gray-400 text-sm">Apply performance registry tweaks</p>
-                  </div>
-                </div>
-                <Button
-                  disabled={!backupCreated || status.registryTweaks === "running"}
-                  onClick={() => runOptimization("registryTweaks")}
-                  className={cn(
-                    "transition-all duration-300",
-                    status.registryTweaks === "done" 
-                      ? "bg-neon-green text-dark-bg" 
-                      : "bg-neon-purple text-white hover:bg-neon-purple/90",
-                    "disabled:bg-gray-600 disabled:text-gray-400"
-                  )}
-                >
-                  {status.registryTweaks === "running" ? (
-                    <>
-                      <i className="fas fa-spinner animate-spin mr-2" />
-                      Applying...
-                    </>
-                  ) : status.registryTweaks === "done" ? (
-                    <>✓ Applied</>
-                  ) : (
-                    "Apply Tweaks"
-                  )}
-                </Button>
-              </div>
-              <div className="text-sm text-gray-400">
-                <p>• Visual effects optimization</p>
-                <p>• Memory management tweaks</p>
-                <p>• Gaming performance settings</p>
-              </div>
-            </div>
+            <JobCard
+              task="registryTweaks"
+              title="Registry Optimization"
+              description="Apply performance registry tweaks"
+              icon="fas fa-cogs text-neon-purple"
+              buttonText="Apply Tweaks"
+              buttonColor="bg-neon-purple text-white hover:bg-neon-purple/90"
+              bullets={["Visual effects optimization", "Memory management tweaks", "Gaming performance settings"]}
+              disabled={!backupCreated}
+              jobs={jobs}
+            />
 
-            {/* Startup Manager */}
-            <div className="bg-dark-card rounded-xl p-6 border border-dark-border card-hover">
-              <div className="flex items-center justify-between mb-4">
-                <div className="flex items-center">
-                  <i className="fas fa-rocket text-neon-blue text-2xl mr-4 neon-glow" />
-                  <div>
-                    <h3 className="text-xl font-bold text-white">Startup Manager</h3>
-                    <p className="text-gray-400 text-sm">Optimize boot time and startup programs</p>
-                  </div>
+            <JobCard
+              task="startupManager"
+              title="Startup Manager"
+              description="Keep apps you don't need while gaming from starting at login"
+              icon="fas fa-rocket text-neon-blue"
+              buttonText="Optimize Startup"
+              buttonColor="bg-neon-blue text-dark-bg hover:bg-neon-blue/90"
+              bullets={["Autostart apps and systemd user services", "Turns off the ones safe to defer while gaming", "Undo from the snapshot taken before it runs"]}
+              disabled={!backupCreated}
+              jobs={jobs}
+            >
+              <button
+                onClick={() => setShowStartupItems(!showStartupItems)}
+                className="text-sm text-neon-blue hover:underline"
+              >
+                <i className={cn("fas mr-2", showStartupItems ? "fa-chevron-up" : "fa-chevron-down")} />
+                Startup items
+              </button>
+              {showStartupItems && (
+                <div className="mt-4">
+                  <StartupItems />
                 </div>
-                <Button
-                  disabled={!backupCreated || status.startupManager === "running"}
-                  onClick={() => runOptimization("startupManager")}
-                  className={cn(
-                    "transition-all duration-300",
-                    status.startupManager === "done" 
-                      ? "bg-neon-green text-dark-bg" 
-                      : "bg-neon-blue text-dark-bg hover:bg-neon-blue/90",
-                    "disabled:bg-gray-600 disabled:text-gray-400"
-                  )}
-                >
-                  {status.startupManager === "running" ? (
-                    <>
-                      <i className="fas fa-spinner animate-spin mr-2" />
-                      Optimizing...
-                    </>
-                  ) : status.startupManager === "done" ? (
-                    <>✓ Optimized</>
-                  ) : (
-                    "Optimize Startup"
-                  )}
-                </Button>
-              </div>
-              <div className="text-sm text-gray-400">
-                <p>• Disable unnecessary programs</p>
-                <p>• Prioritize gaming applications</p>
-                <p>• Reduce boot time</p>
-              </div>
-            </div>
+              )}
+            </JobCard>
 
-            {/* RAM Cleaner */}
-            <div className="bg-dark-card rounded-xl p-6 border border-dark-border card-hover">
-              <div className="flex items-center justify-between mb-4">
-                <div className="flex items-center">
-                  <i className="fas fa-memory text-neon-green text-2xl mr-4 neon-glow" />
-                  <div>
-                    <h3 className="text-xl font-bold text-white">RAM Optimizer</h3>
-                    <p className="text-gray-400 text-sm">Free up and optimize memory usage</p>
-                  </div>
-                </div>
-                <Button
-                  disabled={!backupCreated || status.ramCleaner === "running"}
-                  onClick={() => runOptimization("ramCleaner")}
-                  className={cn(
-                    "transition-all duration-300",
-                    status.ramCleaner === "done" 
-                      ? "bg-neon-green text-dark-bg" 
-                      : "bg-neon-green text-dark-bg hover:bg-neon-green/90",
-                    "disabled:bg-gray-600 disabled:text-gray-400"
-                  )}
-                >
-                  {status.ramCleaner === "running" ? (
-                    <>
-                      <i className="fas fa-spinner animate-spin mr-2" />
-                      Cleaning...
-                    </>
-                  ) : status.ramCleaner === "done" ? (
-                    <>✓ Optimized</>
-                  ) : (
-                    "Optimize RAM"
-                  )}
-                </Button>
-              </div>
-              <div className="text-sm text-gray-400">
-                <p>• Clear inactive memory</p>
-                <p>• Optimize memory allocation</p>
-                <p>• Defragment system memory</p>
-              </div>
-            </div>
+            <JobCard
+              task="ramCleaner"
+              title="RAM Optimizer"
+              description="Free up and optimize memory usage"
+              icon="fas fa-memory text-neon-green"
+              buttonText="Optimize RAM"
+              buttonColor="bg-neon-green text-dark-bg hover:bg-neon-green/90"
+              bullets={["Flush file system buffers", "Drop the page cache (needs root)", "Report the memory freed"]}
+              disabled={!backupCreated}
+              jobs={jobs}
+            />
 
+            <JobCard
+              task="bgProcessMgmt"
+              title="Background Processes"
+              description="Apply the active game profile's process rules"
+              icon="fas fa-tasks text-neon-purple"
+              buttonText="Apply Rules"
+              buttonColor="bg-neon-purple text-white hover:bg-neon-purple/90"
+              bullets={["Close programs on the profile's kill list", "Lower or raise process priorities", "Protected processes are never touched"]}
+              disabled={!backupCreated}
+              jobs={jobs}
+            />
           </div>
 
-          {/* Background Process Management */}
-          <div className="bg-dark-card rounded-xl p-6 border border-dark-border card-hover">
-            <div className="flex items-center justify-between mb-6">
-              <div className="flex items-center">
-                <i className="fas fa-tasks text-neon-purple text-2xl mr-4 neon-glow" />
-                <div>
-                  <h3 className="text-xl font-bold text-white">Background Process Management</h3>
-                  <p className="text-gray-400">Select and terminate resource-heavy processes</p>
-                </div>
-              </div>
-              <Button
-                onClick={killSelectedProcesses}
-                disabled={selectedProcesses.length === 0}
-                className="bg-red-500 text-white hover:bg-red-600 disabled:bg-gray-600 disabled:text-gray-400"
-              >
-                <i className="fas fa-times mr-2" />
-                Terminate Selected
-              </Button>
-            </div>
+          <SnapshotPanel />
 
-            <div className="bg-dark-bg rounded-lg p-4 max-h-64 overflow-auto">
-              <div className="grid grid-cols-1 gap-2">
-                {processList.map(({ pid, name, cpu, memory }) => (
-                  <label
-                    key={pid}
-                    className="flex items-center justify-between p-3 bg-dark-card rounded-lg cursor-pointer hover:bg-dark-border transition-colors"
-                  >
-                    <div className="flex items-center space-x-3">
-                      <Switch
-                        checked={selectedProcesses.includes(pid)}
-                        onCheckedChange={() => toggleProcessSelection(pid)}
-                      />
-                      <div>
-                        <span className="text-white font-medium">{name}</span>
-                        <div className="text-sm text-gray-400">
-                          PID: {pid} | CPU: {cpu}% | Memory: {memory}
-                        </div>
-                      </div>
+          {/* Recent Optimizations */}
+          <div className="bg-dark-card rounded-xl p-6 border border-dark-border">
+            <h3 className="text-xl font-bold text-white mb-4">Recent Optimizations</h3>
+            {history.length === 0 ? (
+              <p className="text-sm text-gray-400">No optimizations have been run yet.</p>
+            ) : (
+              <div className="space-y-3">
+                {history.map(job => (
+                  <div key={job.id} className="flex items-center justify-between text-sm">
+                    <div>
+                      <p className="text-white">{taskTitles[job.task] ?? job.task}</p>
+                      <p className="text-gray-400">{job.result?.summary ?? job.error ?? job.step ?? ""}</p>
+                    </div>
+                    <div className="text-right">
+                      <p className={cn("capitalize", statusColors[job.status])}>{job.status}</p>
+                      <p className="text-gray-500">{new Date(job.createdAt).toLocaleString()}</p>
                     </div>
-                  </label>
+                  </div>
                 ))}
               </div>
-            </div>
+            )}
           </div>
 
+          <ProcessManager />
+
         </div>
       </div>
     </div>
@@ -11,14 +11,6 @@ export interface SystemStats {
   fps: number;
 }
 
-export interface GameProfile {
-  id: string;
-  name: string;
-  icon: string;
-  isActive: boolean;
-  settings: string;
-}
-
 export interface ChatMessage {
   id: string;
   content: string;
@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS "recovery_codes" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"code_hash" text NOT NULL,
+	"used_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "two_factor_pending_secret" text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "two_factor_last_used_step" integer;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "recovery_codes" ADD CONSTRAINT "recovery_codes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
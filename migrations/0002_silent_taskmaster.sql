@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS "system_stats_rollups" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar,
+	"resolution" text NOT NULL,
+	"bucket_start" timestamp NOT NULL,
+	"sample_count" integer NOT NULL,
+	"metrics" json NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "system_stats_rollups" ADD CONSTRAINT "system_stats_rollups_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "system_stats_rollups_bucket_idx" ON "system_stats_rollups" ("resolution","bucket_start");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "system_stats_timestamp_idx" ON "system_stats" ("timestamp");
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE IF NOT EXISTS "gaming_sessions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar,
+	"game_profile_id" varchar,
+	"game_name" text NOT NULL,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"ended_at" timestamp
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "gaming_sessions" ADD CONSTRAINT "gaming_sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "gaming_sessions" ADD CONSTRAINT "gaming_sessions_game_profile_id_game_profiles_id_fk" FOREIGN KEY ("game_profile_id") REFERENCES "public"."game_profiles"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "gaming_sessions_started_at_idx" ON "gaming_sessions" ("started_at");
\ No newline at end of file
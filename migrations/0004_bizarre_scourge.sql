@@ -0,0 +1,50 @@
+CREATE TABLE IF NOT EXISTS "alert_rules" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"metric" text NOT NULL,
+	"operator" text NOT NULL,
+	"threshold" real NOT NULL,
+	"for_seconds" integer DEFAULT 0 NOT NULL,
+	"hysteresis" real DEFAULT 0 NOT NULL,
+	"cooldown_seconds" integer DEFAULT 300 NOT NULL,
+	"severity" text DEFAULT 'warning' NOT NULL,
+	"while_profile_active" boolean DEFAULT false NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "alerts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"rule_id" varchar,
+	"rule_name" text NOT NULL,
+	"severity" text NOT NULL,
+	"metric" text NOT NULL,
+	"threshold" real NOT NULL,
+	"value" real NOT NULL,
+	"peak_value" real NOT NULL,
+	"message" text NOT NULL,
+	"triggered_at" timestamp DEFAULT now() NOT NULL,
+	"resolved_at" timestamp
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "alert_rules" ADD CONSTRAINT "alert_rules_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "alerts" ADD CONSTRAINT "alerts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "alerts" ADD CONSTRAINT "alerts_rule_id_alert_rules_id_fk" FOREIGN KEY ("rule_id") REFERENCES "public"."alert_rules"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "alerts_user_triggered_idx" ON "alerts" ("user_id","triggered_at");
\ No newline at end of file
@@ -0,0 +1,27 @@
+-- Settings move from a JSON string to json, filling in defaults for fields older profiles lack
+ALTER TABLE "game_profiles" ADD COLUMN "settings_json" json;--> statement-breakpoint
+-- Rows whose value is not a JSON object get the defaults alone rather than aborting the migration
+DO $$
+DECLARE
+  profile record;
+  parsed jsonb;
+BEGIN
+  FOR profile IN SELECT "id", "settings" FROM "game_profiles" LOOP
+    BEGIN
+      parsed := profile."settings"::jsonb;
+    EXCEPTION WHEN invalid_text_representation THEN
+      parsed := NULL;
+    END;
+    IF parsed IS NULL OR jsonb_typeof(parsed) <> 'object' THEN
+      parsed := '{}'::jsonb;
+    END IF;
+    UPDATE "game_profiles"
+    SET "settings_json" = ('{"priority":"medium","optimization":"balanced","fpsCap":null,"gpuPreset":"default","network":{"tcpOptimized":false,"qos":false,"dnsServer":null},"processRules":[]}'::jsonb || parsed)::json
+    WHERE "id" = profile."id";
+  END LOOP;
+END $$;--> statement-breakpoint
+ALTER TABLE "game_profiles" DROP COLUMN "settings";--> statement-breakpoint
+ALTER TABLE "game_profiles" RENAME COLUMN "settings_json" TO "settings";--> statement-breakpoint
+ALTER TABLE "game_profiles" ALTER COLUMN "settings" SET NOT NULL;--> statement-breakpoint
+UPDATE "game_profiles" SET "is_active" = false WHERE "is_active" AND ("user_id" IS NULL OR "id" NOT IN (SELECT DISTINCT ON ("user_id") "id" FROM "game_profiles" WHERE "is_active" ORDER BY "user_id", "id"));--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "game_profiles_one_active_idx" ON "game_profiles" ("user_id") WHERE "is_active";
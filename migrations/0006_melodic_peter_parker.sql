@@ -0,0 +1,2 @@
+-- Profiles gain executables for game detection; empty means match by catalog name
+UPDATE "game_profiles" SET "settings" = ('{"executables":[]}'::jsonb || "settings"::jsonb)::json;
@@ -0,0 +1,22 @@
+CREATE TABLE IF NOT EXISTS "optimization_jobs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"task" varchar(50) NOT NULL,
+	"params" json,
+	"status" varchar(20) DEFAULT 'queued' NOT NULL,
+	"progress" integer DEFAULT 0 NOT NULL,
+	"step" text,
+	"result" json,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"started_at" timestamp,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "optimization_jobs" ADD CONSTRAINT "optimization_jobs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "optimization_jobs_user_created_idx" ON "optimization_jobs" ("user_id","created_at");
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS "system_snapshots" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"label" varchar(100) NOT NULL,
+	"manifest" json NOT NULL,
+	"data" json NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "system_snapshots" ADD CONSTRAINT "system_snapshots_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "system_snapshots_user_created_idx" ON "system_snapshots" ("user_id","created_at");
\ No newline at end of file
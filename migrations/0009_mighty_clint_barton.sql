@@ -0,0 +1,12 @@
+CREATE TABLE IF NOT EXISTS "sysctl_baselines" (
+	"key" varchar(200) PRIMARY KEY NOT NULL,
+	"value" text NOT NULL,
+	"captured_by" varchar,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "sysctl_baselines" ADD CONSTRAINT "sysctl_baselines_captured_by_users_id_fk" FOREIGN KEY ("captured_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
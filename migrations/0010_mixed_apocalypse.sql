@@ -0,0 +1,22 @@
+CREATE TABLE IF NOT EXISTS "latency_probes" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"target" varchar(253) NOT NULL,
+	"address" varchar(64) NOT NULL,
+	"method" varchar(10) NOT NULL,
+	"port" integer,
+	"status" varchar(20) DEFAULT 'running' NOT NULL,
+	"samples" json DEFAULT '[]'::json NOT NULL,
+	"summary" json NOT NULL,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "latency_probes" ADD CONSTRAINT "latency_probes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "latency_probes_user_created_idx" ON "latency_probes" ("user_id","created_at");
\ No newline at end of file
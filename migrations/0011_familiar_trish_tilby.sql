@@ -0,0 +1,23 @@
+CREATE TABLE IF NOT EXISTS "udp_tests" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"target" varchar(253) NOT NULL,
+	"address" varchar(64) NOT NULL,
+	"port" integer NOT NULL,
+	"rate" integer NOT NULL,
+	"size" integer NOT NULL,
+	"duration_sec" integer NOT NULL,
+	"status" varchar(20) DEFAULT 'running' NOT NULL,
+	"summary" json NOT NULL,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "udp_tests" ADD CONSTRAINT "udp_tests_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "udp_tests_user_created_idx" ON "udp_tests" ("user_id","created_at");
\ No newline at end of file
@@ -0,0 +1,25 @@
+CREATE TABLE IF NOT EXISTS "gpu_tuning_attempts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"device_id" varchar(100) NOT NULL,
+	"device_name" varchar(200) NOT NULL,
+	"previous" json NOT NULL,
+	"requested" json NOT NULL,
+	"steps_total" integer NOT NULL,
+	"steps_applied" integer DEFAULT 0 NOT NULL,
+	"confirm_window_sec" integer NOT NULL,
+	"status" varchar(20) DEFAULT 'applying' NOT NULL,
+	"revert_reason" varchar(20),
+	"message" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"confirm_by" timestamp,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "gpu_tuning_attempts" ADD CONSTRAINT "gpu_tuning_attempts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "gpu_tuning_attempts_user_created_idx" ON "gpu_tuning_attempts" ("user_id","created_at");
\ No newline at end of file
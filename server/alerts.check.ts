@@ -0,0 +1,97 @@
+// Drives the alert engine with hand-made samples on MemStorage and checks
+// duration, hysteresis, cooldown, profile conditions and the settings switch.
+//
+//   npm run alerts:check
+import assert from "node:assert/strict";
+import type { SystemStats } from "@shared/schema";
+import { storage } from "./storage";
+import { AlertEngine } from "./alerts";
+import { defaultProfileSettings } from "@shared/gameProfiles";
+
+const base = Date.parse("2024-05-01T20:00:00Z");
+
+function sample(secondsIn: number, values: Partial<SystemStats>): SystemStats {
+  return {
+    id: `sample-${secondsIn}`,
+    userId: null,
+    cpuUsage: 20, cpuTemp: 50, gpuUsage: 40, gpuTemp: 60,
+    ramUsed: "4.0", ramAvailable: "12.0",
+    networkPing: 20, networkUpload: 10, networkDownload: 100, fps: 144,
+    timestamp: new Date(base + secondsIn * 1000),
+    ...values,
+  };
+}
+
+async function main() {
+  const user = await storage.createUser({ username: "alerts_check", passwordHash: "hash" });
+  const engine = new AlertEngine();
+
+  const hot = await storage.createAlertRule({
+    userId: user.id, name: "Hot GPU", metric: "gpuTemp", operator: ">", threshold: 83,
+    forSeconds: 30, hysteresis: 3, cooldownSeconds: 120, severity: "critical",
+  });
+  const open = async () => storage.getAlerts(user.id, { activeOnly: true });
+
+  // Must hold for 30s before firing
+  await engine.evaluate(sample(0, { gpuTemp: 85 }));
+  await engine.evaluate(sample(20, { gpuTemp: 86 }));
+  assert.equal((await open()).length, 0);
+  await engine.evaluate(sample(30, { gpuTemp: 87 }));
+  const [fired] = await open();
+  assert.equal(fired.ruleId, hot.id);
+  assert.equal(fired.severity, "critical");
+  assert.equal(fired.value, 87);
+
+  // Hysteresis: 82 is below the threshold but not 3 below it; the peak is tracked
+  await engine.evaluate(sample(40, { gpuTemp: 91 }));
+  await engine.evaluate(sample(50, { gpuTemp: 82 }));
+  assert.equal((await open())[0]?.peakValue, 91);
+  await engine.evaluate(sample(60, { gpuTemp: 80 }));
+  assert.equal((await open()).length, 0);
+
+  // Cooldown: 120s from the first firing at 30s
+  await engine.evaluate(sample(70, { gpuTemp: 90 }));
+  await engine.evaluate(sample(149, { gpuTemp: 90 }));
+  assert.equal((await open()).length, 0);
+  await engine.evaluate(sample(150, { gpuTemp: 90 }));
+  assert.equal((await open()).length, 1);
+
+  // Editing a rule resolves its open alert
+  await engine.resetRule(hot.id);
+  assert.equal((await open()).length, 0);
+  await storage.updateAlertRule(hot.id, { enabled: false });
+
+  // Only while a game profile is active
+  const ping = await storage.createAlertRule({
+    userId: user.id, name: "Laggy match", metric: "networkPing", operator: ">", threshold: 80,
+    whileProfileActive: true,
+  });
+  await engine.evaluate(sample(200, { networkPing: 120 }));
+  assert.equal((await open()).length, 0);
+  const profile = await storage.createGameProfile({
+    userId: user.id, name: "Check Game", icon: "fas fa-gamepad", settings: defaultProfileSettings,
+  });
+  await storage.setActiveGameProfile(user.id, profile.id);
+  await engine.evaluate(sample(210, { networkPing: 120 }));
+  assert.equal((await open())[0]?.ruleId, ping.id);
+  await storage.setActiveGameProfile(user.id, null);
+  await engine.evaluate(sample(220, { networkPing: 120 }));
+  assert.equal((await open()).length, 0, "deactivating the profile resolves the alert");
+
+  // Nothing fires while performanceAlerts is off
+  await storage.setActiveGameProfile(user.id, profile.id);
+  await storage.updateUserSettings(user.id, { performanceAlerts: false });
+  await engine.evaluate(sample(500, { networkPing: 150 }));
+  assert.equal((await open()).length, 0);
+
+  const history = await storage.getAlerts(user.id);
+  assert.equal(history.length, 3);
+  assert.ok(history.every(alert => alert.resolvedAt));
+
+  console.log("✓ alert engine");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
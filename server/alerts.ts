@@ -0,0 +1,157 @@
+import type { Alert, AlertRule, SystemStats } from "@shared/schema";
+import { describeRule, hasRecovered, isBreaching, metricLabels } from "@shared/alerts";
+import { metricValue } from "@shared/statsHistory";
+import { storage } from "./storage";
+import { realtime } from "./realtime";
+
+interface RuleState {
+  breachingSince: number | null;
+  lastTriggeredAt: number | null;
+  active: Alert | null;
+}
+
+function formatValue(rule: AlertRule, value: number) {
+  return `${Math.round(value * 10) / 10}${metricLabels[rule.metric].unit}`;
+}
+
+// Evaluates every user's alert rules against incoming SystemStats. Rule state
+// (how long a condition has held, cooldowns, the open alert) lives in memory
+// and is rebuilt from the open alerts in storage after a restart.
+export class AlertEngine {
+  private states = new Map<string, RuleState>();
+  private queue: Promise<void> = Promise.resolve();
+  private restored = false;
+
+  // Samples are evaluated one at a time so two of them never race on a rule's state
+  evaluate(stats: SystemStats): Promise<void> {
+    return this.enqueue(() => this.evaluateSample(stats));
+  }
+
+  // Call after a rule is edited or deleted; its open alert is resolved and the
+  // duration timer restarts, but the cooldown still counts from the last firing
+  resetRule(ruleId: string): Promise<void> {
+    return this.enqueue(async () => {
+      const state = this.states.get(ruleId);
+      if (!state) return;
+
+      if (state.active) {
+        await this.resolve(state.active, Date.now());
+      }
+      this.states.set(ruleId, { breachingSince: null, lastTriggeredAt: state.lastTriggeredAt, active: null });
+    });
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    this.queue = this.queue
+      .then(task)
+      .catch(error => console.error("Alert evaluation failed:", error));
+    return this.queue;
+  }
+
+  private async restore() {
+    if (this.restored) return;
+    this.restored = true;
+
+    const open = await storage.getActiveAlerts();
+    open.forEach(alert => {
+      if (!alert.ruleId) return;
+      this.states.set(alert.ruleId, {
+        breachingSince: null,
+        lastTriggeredAt: alert.triggeredAt.getTime(),
+        active: alert,
+      });
+    });
+  }
+
+  private async evaluateSample(stats: SystemStats) {
+    await this.restore();
+
+    // Host telemetry has no user and is checked against everyone's rules
+    const rules = (await storage.getAlertRules(stats.userId ?? undefined)).filter(rule => rule.enabled);
+    const byUser = new Map<string, AlertRule[]>();
+    rules.forEach(rule => {
+      const userRules = byUser.get(rule.userId);
+      if (userRules) userRules.push(rule);
+      else byUser.set(rule.userId, [rule]);
+    });
+
+    for (const [userId, userRules] of Array.from(byUser)) {
+      const settings = await storage.getUserSettings(userId);
+      if (settings && !settings.performanceAlerts) continue;
+
+      // Shared template profiles are not the user's own game setup, so they do not count
+      const profileActive = userRules.some(rule => rule.whileProfileActive)
+        && (await storage.getGameProfiles(userId)).some(profile => profile.userId === userId && profile.isActive);
+
+      for (const rule of userRules) {
+        await this.evaluateRule(rule, stats, profileActive);
+      }
+    }
+  }
+
+  private async evaluateRule(rule: AlertRule, stats: SystemStats, profileActive: boolean) {
+    const state = this.getState(rule.id);
+    const value = metricValue(stats, rule.metric);
+    const now = stats.timestamp?.getTime() ?? Date.now();
+    const applies = !rule.whileProfileActive || profileActive;
+
+    if (state.active) {
+      if (!applies || hasRecovered(value, rule)) {
+        await this.resolve(state.active, now);
+        state.active = null;
+        state.breachingSince = null;
+      } else if (this.isWorse(rule, value, state.active.peakValue)) {
+        state.active = (await storage.updateAlert(state.active.id, { peakValue: value })) ?? state.active;
+      }
+      return;
+    }
+
+    if (!applies || !isBreaching(value, rule)) {
+      state.breachingSince = null;
+      return;
+    }
+
+    state.breachingSince ??= now;
+    const heldLongEnough = now - state.breachingSince >= rule.forSeconds * 1000;
+    const coolingDown = state.lastTriggeredAt !== null && now - state.lastTriggeredAt < rule.cooldownSeconds * 1000;
+    if (!heldLongEnough || coolingDown) return;
+
+    state.active = await storage.createAlert({
+      userId: rule.userId,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      severity: rule.severity,
+      metric: rule.metric,
+      threshold: rule.threshold,
+      value,
+      peakValue: value,
+      message: `${metricLabels[rule.metric].label} is ${formatValue(rule, value)} (${describeRule(rule)})`,
+      triggeredAt: new Date(now),
+    });
+    state.lastTriggeredAt = now;
+    realtime.publish(rule.userId, "alerts", "alert", { event: "triggered", alert: state.active });
+  }
+
+  private async resolve(alert: Alert, now: number) {
+    const resolved = await storage.updateAlert(alert.id, { resolvedAt: new Date(now) });
+    if (resolved) {
+      realtime.publish(resolved.userId, "alerts", "alert", { event: "resolved", alert: resolved });
+    }
+  }
+
+  // Further from the threshold in the direction the rule watches
+  private isWorse(rule: AlertRule, value: number, peak: number) {
+    return rule.operator === ">" || rule.operator === ">=" ? value > peak : value < peak;
+  }
+
+  private getState(ruleId: string): RuleState {
+    let state = this.states.get(ruleId);
+    if (!state) {
+      state = { breachingSince: null, lastTriggeredAt: null, active: null };
+      this.states.set(ruleId, state);
+    }
+    return state;
+  }
+}
+
+export const alertEngine = new AlertEngine();
@@ -0,0 +1,185 @@
+// Runs the amdgpu backend against a copy of a recorded RX 7800 XT sysfs tree
+// (server/fixtures/gpu/amd) with a fake writer that plays the driver's part:
+// discovery and capabilities, telemetry, settings, the order of writes on
+// apply and reset, refused writes, and the vendor presets.
+//
+//   npm run gpu-amd:check
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { GpuAgentError, gpuAgentErrorCodes, validateGpuSettings } from "@shared/gpuAgent";
+import { amdPresetSettings } from "@shared/gpuPresets";
+import { createHostFs } from "./hostFs";
+import { AmdGpuBackend, parseOdClkVoltage, parsePpDpm, type SysfsWriter } from "./amdGpu";
+import { combineGpuBackends } from "./gpuAgentServer";
+
+const DEVICE = "/sys/class/drm/card1/device";
+const HWMON = `${DEVICE}/hwmon/hwmon3`;
+
+async function agentError(promise: Promise<unknown>): Promise<GpuAgentError> {
+  try {
+    await promise;
+  } catch (error) {
+    assert.ok(error instanceof GpuAgentError, String(error));
+    return error;
+  }
+  assert.fail("call did not fail");
+}
+
+function checkParsers() {
+  assert.deepEqual(parsePpDpm("0: 500Mhz \n1: 2254Mhz *\n2: 2430Mhz "), [
+    { index: 0, mhz: 500, active: false },
+    { index: 1, mhz: 2254, active: true },
+    { index: 2, mhz: 2430, active: false },
+  ]);
+  assert.deepEqual(parsePpDpm(""), []);
+
+  const table = parseOdClkVoltage("OD_SCLK:\n0: 500Mhz\n1: 2430Mhz\nOD_MCLK:\n0: 97Mhz\n1: 1218MHz\nOD_RANGE:\nSCLK:     500Mhz       3000Mhz\nMCLK:      97Mhz       1500Mhz");
+  assert.deepEqual(table, { sclk: [500, 2430], mclk: [97, 1218], sclkRange: [500, 3000], mclkRange: [97, 1500] });
+}
+
+async function main() {
+  checkParsers();
+
+  const root = await fs.promises.mkdtemp(path.join(os.tmpdir(), "nexus-amdgpu-"));
+  const hostPath = (p: string) => path.join(root, p);
+  try {
+    await fs.promises.cp(path.resolve("server/fixtures/gpu/amd"), root, { recursive: true });
+
+    // The driver stages overdrive edits until "c" commits them and "r" stages the stock table
+    const stock = { sclk: 2430, mclk: 1218 };
+    let staged = { ...stock };
+    let refuse: string | null = null;
+    const writes: string[] = [];
+    const write: SysfsWriter = async (file, value) => {
+      assert.ok(file.startsWith(root), file);
+      const hostFile = file.slice(root.length);
+      if (hostFile === refuse) throw new Error("tee: EACCES: permission denied");
+      writes.push(`${path.basename(hostFile)}=${value}`);
+      if (path.basename(hostFile) !== "pp_od_clk_voltage") {
+        await fs.promises.writeFile(file, `${value}\n`);
+        return;
+      }
+      const [command, , mhz] = value.split(" ");
+      if (command === "s") staged.sclk = Number(mhz);
+      if (command === "m") staged.mclk = Number(mhz);
+      if (command === "r") staged = { ...stock };
+      if (command === "c") {
+        await fs.promises.writeFile(file, `OD_SCLK:\n0: 500Mhz\n1: ${staged.sclk}Mhz\nOD_MCLK:\n0: 97Mhz\n1: ${staged.mclk}MHz\n`
+          + "OD_RANGE:\nSCLK:     500Mhz       3000Mhz\nMCLK:      97Mhz       1500Mhz\n");
+      }
+    };
+    const backend = new AmdGpuBackend(createHostFs(root), write);
+
+    // Only amdgpu cards count; connectors such as card1-DP-2 are skipped
+    const [device, ...others] = await backend.devices();
+    assert.equal(others.length, 0);
+    assert.equal(device.id, "amd-card1");
+    assert.equal(device.name, "AMD Radeon RX 7800 XT");
+    assert.equal(device.driverVersion, "6.8.0-45-generic");
+    assert.deepEqual(device.capabilities.controls, {
+      coreClockMax: { min: 500, max: 3000, step: 1, default: null },
+      memoryClockMax: { min: 97, max: 1500, step: 1, default: null },
+      powerLimit: { min: 212, max: 280, step: 1, default: 263 },
+      fanSpeed: { min: 0, max: 100, step: 1, default: null },
+    });
+    assert.ok(device.capabilities.performanceLevels.includes("manual"));
+
+    const telemetry = await backend.telemetry(device);
+    assert.deepEqual({ ...telemetry, timestamp: 0 }, {
+      deviceId: "amd-card1",
+      timestamp: 0,
+      temperature: 66,
+      usage: 45,
+      coreClock: 2254,
+      memoryClock: 1218,
+      vramUsed: 4200,
+      vramTotal: 16368,
+      powerDraw: 182,
+      powerLimit: 263,
+      fanSpeed: 38,
+      fanRpm: 1850,
+      performanceState: "auto",
+      throttleReasons: [],
+    });
+
+    assert.deepEqual(await backend.settings(device), {
+      coreClockMax: 2430, memoryClockMax: 1218, powerLimit: 263, fanSpeed: null, performanceLevel: "auto",
+    });
+
+    // Clock limits switch to manual first and are committed together
+    const applied = await backend.apply(device, { coreClockMax: 2600, memoryClockMax: 1300, powerLimit: 270, fanSpeed: 60 });
+    assert.deepEqual(writes, [
+      "power_dpm_force_performance_level=manual",
+      "power1_cap=270000000",
+      "pp_od_clk_voltage=s 1 2600",
+      "pp_od_clk_voltage=m 1 1300",
+      "pp_od_clk_voltage=c",
+      "pwm1_enable=1",
+      "pwm1=153",
+    ]);
+    assert.deepEqual(applied, { coreClockMax: 2600, memoryClockMax: 1300, powerLimit: 270, fanSpeed: 60, performanceLevel: "manual" });
+    assert.equal((await backend.telemetry(device)).powerLimit, 270);
+
+    // Another level is chosen once the table is committed
+    writes.length = 0;
+    assert.equal((await backend.apply(device, { coreClockMax: 2600, performanceLevel: "high" })).performanceLevel, "high");
+    assert.deepEqual(writes, [
+      "power_dpm_force_performance_level=manual",
+      "pp_od_clk_voltage=s 1 2600",
+      "pp_od_clk_voltage=c",
+      "power_dpm_force_performance_level=high",
+    ]);
+
+    // Values outside what the driver reports never reach the backend
+    assert.deepEqual(validateGpuSettings(device, { powerLimit: 300 })?.data, { control: "powerLimit", min: 212, max: 280 });
+    assert.equal(validateGpuSettings(device, { coreClockOffset: 100 })?.code, gpuAgentErrorCodes.unsupported);
+
+    refuse = `${HWMON}/power1_cap`;
+    const denied = await agentError(backend.apply(device, { powerLimit: 250 }));
+    assert.equal(denied.code, gpuAgentErrorCodes.permissionDenied);
+    refuse = null;
+
+    // Presets come out of the card's own limits
+    assert.deepEqual(amdPresetSettings("Silent", device), { powerLimit: 212, fanSpeed: null, performanceLevel: "auto" });
+    assert.deepEqual(amdPresetSettings("Performance", device), { powerLimit: 280, fanSpeed: null, performanceLevel: "high" });
+    writes.length = 0;
+    assert.deepEqual(await backend.apply(device, amdPresetSettings("Gaming", device)),
+      { coreClockMax: 2600, memoryClockMax: 1300, powerLimit: 263, fanSpeed: null, performanceLevel: "auto" });
+    assert.deepEqual(writes, ["power_dpm_force_performance_level=auto", "power1_cap=263000000", "pwm1_enable=2"]);
+
+    writes.length = 0;
+    assert.deepEqual(await backend.reset(device),
+      { coreClockMax: 2430, memoryClockMax: 1218, powerLimit: 263, fanSpeed: null, performanceLevel: "auto" });
+    assert.deepEqual(writes, [
+      "power_dpm_force_performance_level=manual",
+      "pp_od_clk_voltage=r",
+      "pp_od_clk_voltage=c",
+      "power_dpm_force_performance_level=auto",
+      "power1_cap=263000000",
+      "pwm1_enable=2",
+    ]);
+
+    // Sensors near their critical temperature and a draw at the cap show up as throttling
+    await fs.promises.writeFile(hostPath(`${HWMON}/temp2_input`), "107000\n");
+    await fs.promises.writeFile(hostPath(`${HWMON}/power1_average`), "262000000\n");
+    assert.deepEqual((await backend.telemetry(device)).throttleReasons, ["thermal", "power"]);
+
+    const combined = combineGpuBackends([backend]);
+    assert.deepEqual((await combined.devices()).map(d => d.id), ["amd-card1"]);
+    assert.equal((await combined.settings(device)).powerLimit, 263);
+    assert.equal((await agentError(combined.settings({ ...device, id: "amd-card9" }))).code, gpuAgentErrorCodes.deviceNotFound);
+
+    // No AMD card, no devices
+    assert.deepEqual(await new AmdGpuBackend(createHostFs(path.join(root, "missing")), write).devices(), []);
+  } finally {
+    await fs.promises.rm(root, { recursive: true, force: true });
+  }
+  console.log("✓ amdgpu backend");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,308 @@
+import path from "path";
+import {
+  GpuAgentError, gpuAgentErrorCodes,
+  type ControlRange, type GpuCapabilities, type GpuDevice, type GpuSettings, type GpuTelemetry
+} from "@shared/gpuAgent";
+import { hostFs, type HostFs } from "./hostFs";
+import { writePrivilegedAttribute } from "./privileged";
+import type { GpuBackend } from "./gpuAgentServer";
+
+const AMD_VENDOR_ID = "0x1002";
+// What power_dpm_force_performance_level accepts
+const PERFORMANCE_LEVELS = [
+  "auto", "low", "high", "manual", "profile_standard", "profile_min_sclk", "profile_min_mclk", "profile_peak",
+];
+// A sensor this close to its critical temperature counts as thermal throttling
+const THERMAL_MARGIN_C = 5;
+// Drawing this share of the power cap counts as power throttling
+const POWER_THROTTLE_SHARE = 0.98;
+
+// How sysfs attributes are written; replaced in checks
+export type SysfsWriter = (file: string, value: string) => Promise<void>;
+
+export interface DpmLevel {
+  index: number;
+  mhz: number;
+  active: boolean;
+}
+
+// pp_dpm_sclk / pp_dpm_mclk: one "1: 2254Mhz *" line per level, the current one starred
+export function parsePpDpm(text: string): DpmLevel[] {
+  return text.split("\n").flatMap(line => {
+    const match = line.match(/^\s*(\d+):\s*(\d+)\s*mhz\s*(\*)?/i);
+    return match ? [{ index: Number(match[1]), mhz: Number(match[2]), active: !!match[3] }] : [];
+  });
+}
+
+export interface OdClockTable {
+  sclk: number[];
+  mclk: number[];
+  sclkRange: [number, number] | null;
+  mclkRange: [number, number] | null;
+}
+
+// The overdrive table in pp_od_clk_voltage: OD_SCLK and OD_MCLK list the
+// editable levels, OD_RANGE what the driver lets them go to
+export function parseOdClkVoltage(text: string): OdClockTable {
+  const table: OdClockTable = { sclk: [], mclk: [], sclkRange: null, mclkRange: null };
+  let section = "";
+  text.split("\n").forEach(raw => {
+    const line = raw.trim();
+    const header = line.match(/^(OD_\w+):$/);
+    if (header) {
+      section = header[1];
+      return;
+    }
+    const level = line.match(/^\d+:\s*(\d+)\s*mhz/i);
+    if (level && section === "OD_SCLK") table.sclk.push(Number(level[1]));
+    if (level && section === "OD_MCLK") table.mclk.push(Number(level[1]));
+    const range = line.match(/^(SCLK|MCLK):\s*(\d+)\s*mhz\s+(\d+)\s*mhz/i);
+    if (range && section === "OD_RANGE") {
+      const bounds: [number, number] = [Number(range[2]), Number(range[3])];
+      if (range[1].toUpperCase() === "SCLK") table.sclkRange = bounds;
+      else table.mclkRange = bounds;
+    }
+  });
+  return table;
+}
+
+const microwatts = (raw: string | null) => (raw === null || !Number.isFinite(Number(raw)) ? null : Number(raw) / 1_000_000);
+const number = (raw: string | null) => (raw === null || raw === "" || !Number.isFinite(Number(raw)) ? null : Number(raw));
+const pwmToPercent = (pwm: number) => Math.round(pwm / 255 * 100);
+
+interface AmdCard {
+  card: string;
+  device: string; // /sys/class/drm/cardN/device
+  hwmon: string | null;
+}
+
+// Reads and tunes amdgpu cards through /sys/class/drm/card*/device and their
+// hwmon directory. Clock limits use the two-level overdrive table of
+// RDNA-era cards and need the "manual" performance level; power cap and fan
+// go through hwmon. Every value is checked against what the driver reports
+// before it gets here (validateGpuSettings).
+export class AmdGpuBackend implements GpuBackend {
+  constructor(private fs: HostFs = hostFs, private write: SysfsWriter = writePrivilegedAttribute) {}
+
+  async devices(): Promise<GpuDevice[]> {
+    const cards = await this.cards();
+    return Promise.all(cards.map(card => this.describe(card)));
+  }
+
+  async telemetry(device: GpuDevice): Promise<GpuTelemetry> {
+    const { device: dev, hwmon } = await this.card(device);
+    const read = (file: string) => this.fs.readFile(file);
+    const [busy, vramUsed, vramTotal, sclk, mclk, level, sensors] = await Promise.all([
+      read(`${dev}/gpu_busy_percent`),
+      read(`${dev}/mem_info_vram_used`),
+      read(`${dev}/mem_info_vram_total`),
+      read(`${dev}/pp_dpm_sclk`),
+      read(`${dev}/pp_dpm_mclk`),
+      read(`${dev}/power_dpm_force_performance_level`),
+      hwmon ? this.hwmonReadings(hwmon) : null,
+    ]);
+    const toMib = (raw: string | null) => (number(raw) === null ? null : Math.round(number(raw)! / 1024 / 1024));
+    const activeClock = (raw: string | null) => (raw ? parsePpDpm(raw).find(l => l.active)?.mhz ?? null : null);
+
+    const throttleReasons: string[] = [];
+    if (sensors?.temps.some(t => t.crit !== null && t.celsius >= t.crit - THERMAL_MARGIN_C)) throttleReasons.push("thermal");
+    if (sensors?.powerDraw != null && sensors.powerLimit && sensors.powerDraw >= sensors.powerLimit * POWER_THROTTLE_SHARE) {
+      throttleReasons.push("power");
+    }
+
+    return {
+      deviceId: device.id,
+      timestamp: Date.now(),
+      temperature: sensors?.temps.find(t => t.label === "edge")?.celsius ?? sensors?.temps[0]?.celsius ?? null,
+      usage: number(busy),
+      coreClock: activeClock(sclk) ?? sensors?.sclk ?? null,
+      memoryClock: activeClock(mclk) ?? sensors?.mclk ?? null,
+      vramUsed: toMib(vramUsed),
+      vramTotal: toMib(vramTotal),
+      powerDraw: sensors?.powerDraw == null ? null : Math.round(sensors.powerDraw * 10) / 10,
+      powerLimit: sensors?.powerLimit == null ? null : Math.round(sensors.powerLimit),
+      fanSpeed: sensors?.pwm == null ? null : pwmToPercent(sensors.pwm),
+      fanRpm: sensors?.fanRpm ?? null,
+      performanceState: level,
+      throttleReasons,
+    };
+  }
+
+  async settings(device: GpuDevice): Promise<GpuSettings> {
+    const { device: dev, hwmon } = await this.card(device);
+    const { controls, performanceLevels } = device.capabilities;
+    const read = (file: string) => this.fs.readFile(file);
+    const [od, level, cap, pwmEnable, pwm] = await Promise.all([
+      read(`${dev}/pp_od_clk_voltage`),
+      read(`${dev}/power_dpm_force_performance_level`),
+      hwmon ? read(`${hwmon}/power1_cap`) : null,
+      hwmon ? read(`${hwmon}/pwm1_enable`) : null,
+      hwmon ? read(`${hwmon}/pwm1`) : null,
+    ]);
+
+    const settings: GpuSettings = {};
+    const table = od ? parseOdClkVoltage(od) : null;
+    if (controls.coreClockMax && table) settings.coreClockMax = table.sclk[table.sclk.length - 1];
+    if (controls.memoryClockMax && table) settings.memoryClockMax = table.mclk[table.mclk.length - 1];
+    if (controls.powerLimit && cap !== null) settings.powerLimit = Math.round(microwatts(cap)!);
+    // pwm1_enable: 1 is manual, 2 automatic
+    if (controls.fanSpeed) settings.fanSpeed = pwmEnable === "1" && number(pwm) !== null ? pwmToPercent(number(pwm)!) : null;
+    if (performanceLevels.length && level) settings.performanceLevel = level;
+    return settings;
+  }
+
+  async apply(device: GpuDevice, settings: GpuSettings): Promise<GpuSettings> {
+    const { device: dev, hwmon } = await this.card(device);
+    const overdrive = settings.coreClockMax !== undefined || settings.memoryClockMax !== undefined;
+    const levelFile = this.resolve(`${dev}/power_dpm_force_performance_level`);
+
+    await this.writeAll(async () => {
+      // The driver only takes overdrive changes in manual mode; the committed
+      // table stays in effect when another level is chosen afterwards
+      if (overdrive) await this.write(levelFile, "manual");
+      else if (settings.performanceLevel) await this.write(levelFile, settings.performanceLevel);
+      if (settings.powerLimit !== undefined && hwmon) {
+        await this.write(this.resolve(`${hwmon}/power1_cap`), String(Math.round(settings.powerLimit * 1_000_000)));
+      }
+      if (settings.coreClockMax !== undefined) await this.write(this.resolve(`${dev}/pp_od_clk_voltage`), `s 1 ${Math.round(settings.coreClockMax)}`);
+      if (settings.memoryClockMax !== undefined) await this.write(this.resolve(`${dev}/pp_od_clk_voltage`), `m 1 ${Math.round(settings.memoryClockMax)}`);
+      if (overdrive) {
+        await this.write(this.resolve(`${dev}/pp_od_clk_voltage`), "c");
+        if (settings.performanceLevel && settings.performanceLevel !== "manual") await this.write(levelFile, settings.performanceLevel);
+      }
+      if (settings.fanSpeed !== undefined && hwmon) {
+        if (settings.fanSpeed === null) {
+          await this.write(this.resolve(`${hwmon}/pwm1_enable`), "2");
+        } else {
+          await this.write(this.resolve(`${hwmon}/pwm1_enable`), "1");
+          await this.write(this.resolve(`${hwmon}/pwm1`), String(Math.round(settings.fanSpeed * 255 / 100)));
+        }
+      }
+    });
+    return this.settings(device);
+  }
+
+  // Automatic clocks, the stock overdrive table, the default power cap and the automatic fan curve
+  async reset(device: GpuDevice): Promise<GpuSettings> {
+    const { device: dev, hwmon } = await this.card(device);
+    const { controls } = device.capabilities;
+    const levelFile = this.resolve(`${dev}/power_dpm_force_performance_level`);
+    const defaultCap = hwmon ? await this.fs.readFile(`${hwmon}/power1_cap_default`) : null;
+
+    await this.writeAll(async () => {
+      if (controls.coreClockMax || controls.memoryClockMax) {
+        await this.write(levelFile, "manual");
+        await this.write(this.resolve(`${dev}/pp_od_clk_voltage`), "r");
+        await this.write(this.resolve(`${dev}/pp_od_clk_voltage`), "c");
+      }
+      if (device.capabilities.performanceLevels.length) await this.write(levelFile, "auto");
+      if (controls.powerLimit && defaultCap !== null) await this.write(this.resolve(`${hwmon}/power1_cap`), defaultCap);
+      if (controls.fanSpeed) await this.write(this.resolve(`${hwmon}/pwm1_enable`), "2");
+    });
+    return this.settings(device);
+  }
+
+  private async cards(): Promise<AmdCard[]> {
+    const names = (await this.fs.readDir("/sys/class/drm")).filter(name => /^card\d+$/.test(name));
+    const cards = await Promise.all(names.map(async (card): Promise<AmdCard | null> => {
+      const device = `/sys/class/drm/${card}/device`;
+      const [vendor, uevent] = await Promise.all([this.fs.readFile(`${device}/vendor`), this.fs.readFile(`${device}/uevent`)]);
+      if (vendor !== AMD_VENDOR_ID || !/^DRIVER=amdgpu$/m.test(uevent ?? "")) return null;
+      const hwmon = (await this.fs.readDir(`${device}/hwmon`)).find(name => name.startsWith("hwmon"));
+      return { card, device, hwmon: hwmon ? `${device}/hwmon/${hwmon}` : null };
+    }));
+    return cards.filter((card): card is AmdCard => card !== null);
+  }
+
+  private async card(device: GpuDevice): Promise<AmdCard> {
+    const card = (await this.cards()).find(c => `amd-${c.card}` === device.id);
+    if (!card) throw new GpuAgentError(gpuAgentErrorCodes.deviceNotFound, `No GPU with id ${device.id}`, { deviceId: device.id });
+    return card;
+  }
+
+  private async describe(card: AmdCard): Promise<GpuDevice> {
+    const read = (file: string) => this.fs.readFile(file);
+    const [productName, uevent, moduleVersion, kernel, od, level] = await Promise.all([
+      read(`${card.device}/product_name`),
+      read(`${card.device}/uevent`),
+      read("/sys/module/amdgpu/version"),
+      read("/proc/sys/kernel/osrelease"),
+      read(`${card.device}/pp_od_clk_voltage`),
+      read(`${card.device}/power_dpm_force_performance_level`),
+    ]);
+    const hwmon = card.hwmon;
+    const [capMin, capMax, capDefault, pwmEnable, pwmMin, pwmMax] = hwmon
+      ? await Promise.all(["power1_cap_min", "power1_cap_max", "power1_cap_default", "pwm1_enable", "pwm1_min", "pwm1_max"]
+        .map(file => read(`${hwmon}/${file}`)))
+      : [null, null, null, null, null, null];
+
+    const controls: GpuCapabilities["controls"] = {};
+    const table = od ? parseOdClkVoltage(od) : null;
+    // Older cards list more levels, each with a voltage, in a format this backend does not write
+    if (table?.sclkRange && table.sclk.length === 2) {
+      controls.coreClockMax = { min: table.sclkRange[0], max: table.sclkRange[1], step: 1, default: null };
+    }
+    if (table?.mclkRange && table.mclk.length === 2) {
+      controls.memoryClockMax = { min: table.mclkRange[0], max: table.mclkRange[1], step: 1, default: null };
+    }
+    if (capMin !== null && capMax !== null) {
+      const power: ControlRange = { min: Math.round(microwatts(capMin)!), max: Math.round(microwatts(capMax)!), step: 1, default: null };
+      if (capDefault !== null) power.default = Math.round(microwatts(capDefault)!);
+      controls.powerLimit = power;
+    }
+    if (pwmEnable !== null) {
+      controls.fanSpeed = { min: pwmToPercent(number(pwmMin) ?? 0), max: pwmToPercent(number(pwmMax) ?? 255), step: 1, default: null };
+    }
+
+    const pciId = uevent?.match(/^PCI_ID=(.+)$/m)?.[1];
+    return {
+      id: `amd-${card.card}`,
+      vendor: "amd",
+      name: productName || `AMD Radeon GPU${pciId ? ` (${pciId})` : ""}`,
+      driver: "amdgpu",
+      // amdgpu ships with the kernel unless a packaged driver says otherwise
+      driverVersion: moduleVersion ?? kernel,
+      capabilities: { controls, performanceLevels: level === null ? [] : PERFORMANCE_LEVELS },
+    };
+  }
+
+  private async hwmonReadings(hwmon: string) {
+    const files = await this.fs.readDir(hwmon);
+    const read = (file: string) => this.fs.readFile(`${hwmon}/${file}`);
+    const temps = await Promise.all(files.filter(file => /^temp\d+_input$/.test(file)).map(async file => {
+      const prefix = file.replace("_input", "");
+      const [input, label, crit] = await Promise.all([read(file), read(`${prefix}_label`), read(`${prefix}_crit`)]);
+      return { label, celsius: (number(input) ?? 0) / 1000, crit: number(crit) === null ? null : number(crit)! / 1000 };
+    }));
+    const [average, input, cap, pwm, fanRpm, sclk, mclk] = await Promise.all(
+      ["power1_average", "power1_input", "power1_cap", "pwm1", "fan1_input", "freq1_input", "freq2_input"].map(read),
+    );
+    const hz = (raw: string | null) => (number(raw) === null ? null : Math.round(number(raw)! / 1_000_000));
+    return {
+      temps,
+      powerDraw: microwatts(average) ?? microwatts(input),
+      powerLimit: microwatts(cap),
+      pwm: number(pwm),
+      fanRpm: number(fanRpm),
+      sclk: hz(sclk),
+      mclk: hz(mclk),
+    };
+  }
+
+  private resolve(file: string) {
+    return path.join(this.fs.root, file);
+  }
+
+  // Driver refusals reach the caller as protocol errors
+  private async writeAll(writes: () => Promise<void>) {
+    try {
+      await writes();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (/EACCES|EPERM|password is required|not allowed/i.test(message)) {
+        throw new GpuAgentError(gpuAgentErrorCodes.permissionDenied, "Changing GPU settings needs root or a sudoers rule for tee");
+      }
+      throw new GpuAgentError(gpuAgentErrorCodes.driverError, `amdgpu refused the change: ${message}`);
+    }
+  }
+}
@@ -10,6 +10,11 @@ export interface AuthenticatedRequest extends Request {
   };
 }
 
+// Decodes a JWT issued by /auth/login; throws if it is invalid or expired
+export function verifyAccessToken(token: string): NonNullable<AuthenticatedRequest["user"]> {
+  return jwt.verify(token, process.env.JWT_SECRET || "your-secret-key") as any;
+}
+
 export function authenticateToken(req: Request, res: Response, next: NextFunction) {
   const authHeader = req.headers["authorization"];
   const token = authHeader && authHeader.split(" ")[1];
@@ -19,8 +24,7 @@ export function authenticateToken(req: Request, res: Response, next: NextFunctio
   }
 
   try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || "your-secret-key") as any;
-    (req as AuthenticatedRequest).user = decoded;
+    (req as AuthenticatedRequest).user = verifyAccessToken(token);
     next();
   } catch (error) {
     return res.status(403).json({ error: "Invalid or expired token" });
@@ -61,8 +65,7 @@ export function optionalAuth(req: Request, res: Response, next: NextFunction) {
 
   if (token) {
     try {
-      const decoded = jwt.verify(token, process.env.JWT_SECRET || "your-secret-key") as any;
-      (req as AuthenticatedRequest).user = decoded;
+      (req as AuthenticatedRequest).user = verifyAccessToken(token);
     } catch (error) {
       // Token is invalid, but we continue without authentication
     }
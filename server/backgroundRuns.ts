@@ -0,0 +1,64 @@
+// Where a kind of background run keeps its records
+export interface BackgroundRunStore<T> {
+  getUnfinished(): Promise<T[]>;
+  fail(id: string, error: string): Promise<unknown>;
+}
+
+// Work running in the background, one per user at a time. The
+// user's slot is held from before the record is created until its run has
+// finished; cancelling aborts the run's signal.
+export class BackgroundRuns<T extends { id: string; userId: string }> {
+  private running = new Map<string, { userId: string; controller: AbortController; done: Promise<void> }>();
+  // Users whose record is being created, so a second request cannot slip in
+  private starting = new Set<string>();
+
+  constructor(private name: string, private store: BackgroundRunStore<T>) {}
+
+  busy(userId: string): boolean {
+    return this.starting.has(userId) || Array.from(this.running.values()).some(run => run.userId === userId);
+  }
+
+  // Check busy() first; nothing may be awaited in between
+  async start(userId: string, create: () => Promise<T>, run: (record: T, signal: AbortSignal) => Promise<void>): Promise<T> {
+    this.starting.add(userId);
+    const record = await create().finally(() => this.starting.delete(userId));
+    const controller = new AbortController();
+    const done = run(record, controller.signal)
+      .catch(error => console.error(`${this.name} failed:`, error))
+      .finally(() => this.running.delete(record.id));
+    this.running.set(record.id, { userId, controller, done });
+    return record;
+  }
+
+  // False when the run has already finished
+  cancel(id: string): boolean {
+    const run = this.running.get(id);
+    run?.controller.abort();
+    return !!run;
+  }
+
+  // Runs a previous server left going can never finish
+  async recover(): Promise<void> {
+    const unfinished = await this.store.getUnfinished();
+    await Promise.all(unfinished.map(record => this.store.fail(record.id, "Interrupted by a server restart")));
+  }
+
+  // Resolves once every run started so far has finished
+  async idle(): Promise<void> {
+    await Promise.all(Array.from(this.running.values(), run => run.done));
+  }
+}
+
+// Waits between steps of a run; returns early when the signal aborts
+export function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (ms <= 0 || signal.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    }
+    signal.addEventListener("abort", done);
+  });
+}
@@ -0,0 +1,124 @@
+// Scans and cleans a fake home folder and temp folder: category roots, age
+// thresholds, ownership, excludes, custom folders, overlapping roots, Steam
+// folders reached through links, and the removal report.
+//
+//   npm run cleanup:check
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { cleanupOptionsSchema } from "@shared/cleanup";
+import { compileExclude, removeFiles, scanCleanup, summarize, type CleanupEnvironment } from "./cleanup";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function main() {
+  const base = await fs.promises.realpath(await fs.promises.mkdtemp(path.join(os.tmpdir(), "nexus-cleanup-")));
+  const now = Date.now();
+
+  async function file(relative: string, size: number, ageDays: number) {
+    const target = path.join(base, relative);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.writeFile(target, "x".repeat(size));
+    const time = new Date(now - ageDays * DAY_MS);
+    await fs.promises.utimes(target, time, time);
+  }
+
+  try {
+    await file("tmp/old.tmp", 100, 3);
+    await file("tmp/fresh.tmp", 10, 0);
+    await file("home/.cache/app/blob", 200, 40);
+    await file("home/.cache/app/recent", 20, 5);
+    await file("home/.cache/pip/wheel", 300, 90);
+    await file("home/.cache/thumbnails/large/a.png", 50, 60);
+    await file("home/.local/state/app/app.log.1", 70, 20);
+    await file("home/.local/state/app/state.json", 70, 20);
+    await file("home/.local/share/Steam/logs/console_log.txt", 80, 20);
+    await file("home/.local/share/Steam/steamapps/shadercache/730/fozpipelinesv6/cache.foz", 400, 45);
+    await file("home/.local/share/Steam/depotcache/1234.manifest", 60, 10);
+    await file("home/Downloads/old.iso", 500, 90);
+    await file("outside/secret", 10, 90);
+    // ~/.steam/steam is usually a link to the real Steam folder
+    await fs.promises.mkdir(path.join(base, "home/.steam"), { recursive: true });
+    await fs.promises.symlink(path.join(base, "home/.local/share/Steam"), path.join(base, "home/.steam/steam"));
+    await fs.promises.symlink(path.join(base, "outside"), path.join(base, "home/outside-link"));
+
+    const env: CleanupEnvironment = {
+      home: path.join(base, "home"),
+      tmpDirs: [path.join(base, "tmp")],
+      uid: process.getuid?.() ?? 0,
+      now,
+    };
+    const relative = (p: string) => path.relative(base, p);
+
+    // Patterns
+    const pip = compileExclude("~/.cache/pip/**", "/home/me");
+    assert.ok(pip.test("/home/me/.cache/pip/http/a"));
+    assert.ok(!pip.test("/home/me/.cache/pipx/a"));
+    assert.ok(compileExclude("~/.cache/*.db", "/home/me").test("/home/me/.cache/x.db"));
+    assert.ok(!compileExclude("~/.cache/*.db", "/home/me").test("/home/me/.cache/a/x.db"));
+
+    // Dry run with the defaults
+    const defaults = cleanupOptionsSchema.parse({});
+    const scanned = await scanCleanup(defaults, env);
+    const byCategory = Object.fromEntries(scanned.map(c => [c.report.category, c.files.map(f => relative(f.path)).sort()]));
+    assert.deepEqual(byCategory, {
+      tmp: ["tmp/old.tmp"],
+      cache: ["home/.cache/app/blob", "home/.cache/pip/wheel"],
+      thumbnails: ["home/.cache/thumbnails/large/a.png"],
+      logs: ["home/.local/share/Steam/logs/console_log.txt", "home/.local/state/app/app.log.1"],
+      steamDepotCache: ["home/.local/share/Steam/depotcache/1234.manifest"],
+    });
+    const report = summarize(scanned.map(c => c.report), true);
+    assert.equal(report.files, 7);
+    assert.equal(report.bytes, 100 + 200 + 300 + 50 + 70 + 80 + 60);
+    assert.deepEqual(report.categories.find(c => c.category === "steamDepotCache")?.roots,
+      [path.join(base, "home/.local/share/Steam/depotcache")]);
+
+    // Thumbnails stay put when their category is off, even though they live in ~/.cache
+    const noThumbs = await scanCleanup(cleanupOptionsSchema.parse({ categories: ["cache"] }), env);
+    assert.ok(noThumbs[0].files.every(f => !f.path.includes("thumbnails")));
+
+    // Rules: excludes, age overrides, custom folders inside home only
+    const custom = await scanCleanup(cleanupOptionsSchema.parse({
+      categories: ["cache", "steamShaderCache", "custom"],
+      maxAgeDays: { cache: 2 },
+      exclude: ["~/.cache/pip/**"],
+      include: ["~/Downloads", "/etc", "~/outside-link"],
+    }), env);
+    assert.deepEqual(custom.map(c => c.files.map(f => relative(f.path)).sort()), [
+      ["home/.cache/app/blob", "home/.cache/app/recent"],
+      ["home/.local/share/Steam/steamapps/shadercache/730/fozpipelinesv6/cache.foz"],
+      ["home/Downloads/old.iso"],
+    ]);
+
+    // Files of other users are never listed
+    const stranger = await scanCleanup(defaults, { ...env, uid: env.uid + 1 });
+    assert.equal(stranger.reduce((sum, c) => sum + c.files.length, 0), 0);
+
+    // The real run removes exactly what the dry run listed
+    fs.unlinkSync(path.join(base, "tmp/old.tmp")); // gone before the run gets to it
+    const progress: string[] = [];
+    const removed = await removeFiles(scanned, async (done, total, category) => {
+      progress.push(`${category.category} ${done}/${total}`);
+    });
+    assert.equal(removed.dryRun, false);
+    assert.equal(removed.files, 6);
+    assert.equal(removed.bytes, report.bytes - 100);
+    assert.equal(removed.categories.find(c => c.category === "tmp")?.failed, 0);
+    assert.deepEqual(progress, ["tmp 0/7"]);
+    assert.ok(fs.existsSync(path.join(base, "tmp/fresh.tmp")));
+    assert.ok(fs.existsSync(path.join(base, "home/.cache/app/recent")));
+    assert.ok(fs.existsSync(path.join(base, "home/.local/state/app/state.json")));
+    assert.ok(!fs.existsSync(path.join(base, "home/.cache/pip/wheel")));
+    assert.ok(fs.existsSync(path.join(base, "outside/secret")));
+  } finally {
+    await fs.promises.rm(base, { recursive: true, force: true });
+  }
+  console.log("✓ cleanup");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
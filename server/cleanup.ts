@@ -0,0 +1,242 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  cleanupCategoryInfo, type CleanupCategory, type CleanupCategoryReport, type CleanupOptions, type CleanupReport
+} from "@shared/cleanup";
+
+const MAX_DEPTH = 8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rotated and compressed logs too: app.log, app.log.1, app.log.2.gz
+const LOG_FILE = /\.log(\.\d+)?(\.gz)?$/;
+
+export interface CleanupEnvironment {
+  home: string;
+  tmpDirs: string[];
+  uid: number;
+  now: number;
+}
+
+export function hostCleanupEnvironment(): CleanupEnvironment {
+  return {
+    home: os.homedir(),
+    tmpDirs: Array.from(new Set([os.tmpdir(), "/tmp", "/var/tmp"])),
+    uid: process.getuid?.() ?? -1,
+    now: Date.now(),
+  };
+}
+
+export interface CleanupFile {
+  path: string;
+  size: number;
+}
+
+interface CleanupRoot {
+  dir: string;
+  match?: RegExp; // file names to consider; every file when left out
+}
+
+interface ScanRules {
+  uid: number;
+  cutoff: number;
+  excluded(filePath: string): boolean;
+  // Roots of other categories, left to those categories
+  skipDirs: Set<string>;
+  match?: RegExp;
+}
+
+// "~/.cache/pip/**" → a regular expression over absolute paths
+export function compileExclude(pattern: string, home: string): RegExp {
+  const expanded = pattern.replace(/^~(?=\/|$)/, home).replace(/\/+$/, "");
+  const source = expanded
+    .split("**")
+    .map(part => part
+      .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+      .replace(/\*/g, "[^/]*")
+      .replace(/\?/g, "[^/]"))
+    .join(".*");
+  return new RegExp(`^${source}$`);
+}
+
+// Regular files below `dir` owned by the user and last modified before the
+// cutoff. Symlinks are never followed and unreadable folders are skipped.
+export async function findStaleFiles(dir: string, rules: ScanRules, depth = 0): Promise<CleanupFile[]> {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const found = await Promise.all(entries.map(async (entry): Promise<CleanupFile[]> => {
+    const file = path.join(dir, entry.name);
+    if (rules.excluded(file)) return [];
+    if (entry.isDirectory()) {
+      return depth < MAX_DEPTH && !rules.skipDirs.has(file) ? findStaleFiles(file, rules, depth + 1) : [];
+    }
+    if (!entry.isFile() || (rules.match && !rules.match.test(entry.name))) return [];
+    try {
+      const stat = await fs.promises.lstat(file);
+      return stat.uid === rules.uid && stat.mtimeMs < rules.cutoff ? [{ path: file, size: stat.size }] : [];
+    } catch {
+      return [];
+    }
+  }));
+  return found.flat();
+}
+
+async function existingDir(dir: string): Promise<string | null> {
+  try {
+    const real = await fs.promises.realpath(dir);
+    return (await fs.promises.stat(real)).isDirectory() ? real : null;
+  } catch {
+    return null;
+  }
+}
+
+function isInside(child: string, parent: string) {
+  const relative = path.relative(parent, child);
+  return relative !== "" && !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+// Native, ~/.steam and Flatpak installs, which often link to one another
+async function steamDirs(home: string): Promise<string[]> {
+  const candidates = [
+    path.join(home, ".local/share/Steam"),
+    path.join(home, ".steam/steam"),
+    path.join(home, ".var/app/com.valvesoftware.Steam/.local/share/Steam"),
+  ];
+  const found = await Promise.all(candidates.map(existingDir));
+  return Array.from(new Set(found.filter((dir): dir is string => dir !== null)));
+}
+
+async function categoryRoots(
+  category: CleanupCategory, env: CleanupEnvironment, options: CleanupOptions, steam: string[],
+): Promise<CleanupRoot[]> {
+  const { home } = env;
+  switch (category) {
+    case "tmp":
+      return env.tmpDirs.map(dir => ({ dir }));
+    case "cache":
+      return [{ dir: path.join(home, ".cache") }];
+    case "thumbnails":
+      return [{ dir: path.join(home, ".cache/thumbnails") }];
+    case "logs":
+      return [
+        { dir: path.join(home, ".local/state"), match: LOG_FILE },
+        { dir: path.join(home, ".local/share/xorg"), match: LOG_FILE },
+        ...steam.map(dir => ({ dir: path.join(dir, "logs") })),
+      ];
+    case "steamShaderCache":
+      return steam.map(dir => ({ dir: path.join(dir, "steamapps/shadercache") }));
+    case "steamDepotCache":
+      return steam.map(dir => ({ dir: path.join(dir, "depotcache") }));
+    case "custom":
+      // Anything outside the home folder is ignored
+      return options.include
+        .map(dir => path.resolve(dir.replace(/^~(?=\/|$)/, home)))
+        .filter(dir => isInside(dir, home))
+        .map(dir => ({ dir }));
+  }
+}
+
+interface ScannedCategory {
+  report: CleanupCategoryReport;
+  files: CleanupFile[];
+}
+
+// Finds what a cleanup with these options would remove, per category
+export async function scanCleanup(options: CleanupOptions, env: CleanupEnvironment): Promise<ScannedCategory[]> {
+  const steam = await steamDirs(env.home);
+  const excludes = options.exclude.map(pattern => compileExclude(pattern, env.home));
+  const excluded = (file: string) => excludes.some(pattern => pattern.test(file));
+
+  // Every category's roots, so overlapping ones (thumbnails inside ~/.cache)
+  // are only counted once and a disabled category's folders stay untouched
+  const allCategories = Object.keys(cleanupCategoryInfo) as CleanupCategory[];
+  const home = (await existingDir(env.home)) ?? env.home;
+  const roots = new Map<CleanupCategory, CleanupRoot[]>();
+  for (const category of allCategories) {
+    const resolved = await Promise.all((await categoryRoots(category, env, options, steam)).map(async root => {
+      const dir = await existingDir(root.dir);
+      // A custom folder may be a link to somewhere outside the home folder
+      if (!dir || (category === "custom" && !isInside(dir, home))) return null;
+      return { ...root, dir };
+    }));
+    const unique = new Map<string, CleanupRoot>();
+    resolved.forEach(root => root && !unique.has(root.dir) && unique.set(root.dir, root));
+    roots.set(category, Array.from(unique.values()));
+  }
+
+  const scanned: ScannedCategory[] = [];
+  const seen = new Set<string>();
+  for (const category of options.categories) {
+    const own = roots.get(category) ?? [];
+    const skipDirs = new Set(allCategories
+      .filter(other => other !== category)
+      .flatMap(other => (roots.get(other) ?? []).map(root => root.dir))
+      .filter(dir => own.some(root => isInside(dir, root.dir))));
+    const maxAgeDays = options.maxAgeDays[category] ?? cleanupCategoryInfo[category].maxAgeDays;
+    const cutoff = env.now - maxAgeDays * DAY_MS;
+
+    const files: CleanupFile[] = [];
+    for (const root of own) {
+      const found = await findStaleFiles(root.dir, { uid: env.uid, cutoff, excluded, skipDirs, match: root.match });
+      found.forEach(file => {
+        if (seen.has(file.path)) return;
+        seen.add(file.path);
+        files.push(file);
+      });
+    }
+
+    scanned.push({
+      report: {
+        category,
+        title: cleanupCategoryInfo[category].title,
+        roots: own.map(root => root.dir),
+        files: files.length,
+        bytes: files.reduce((sum, file) => sum + file.size, 0),
+      },
+      files,
+    });
+  }
+  return scanned;
+}
+
+export function summarize(categories: CleanupCategoryReport[], dryRun: boolean): CleanupReport {
+  return {
+    dryRun,
+    categories,
+    files: categories.reduce((sum, category) => sum + category.files, 0),
+    bytes: categories.reduce((sum, category) => sum + category.bytes, 0),
+  };
+}
+
+// Removes the files of a scan; counts only what was actually removed
+export async function removeFiles(
+  scanned: ScannedCategory[],
+  onProgress: (done: number, total: number, category: CleanupCategoryReport) => Promise<void>,
+): Promise<CleanupReport> {
+  const total = scanned.reduce((sum, category) => sum + category.files.length, 0);
+  let done = 0;
+  const reports: CleanupCategoryReport[] = [];
+
+  for (const { report, files } of scanned) {
+    const result: CleanupCategoryReport = { ...report, files: 0, bytes: 0, failed: 0 };
+    for (const file of files) {
+      if (done % 100 === 0) await onProgress(done, total, report);
+      done++;
+      try {
+        await fs.promises.unlink(file.path);
+        result.files++;
+        result.bytes += file.size;
+      } catch (error) {
+        // Already gone counts as removed by its owner, not as a failure
+        if ((error as NodeJS.ErrnoException)?.code !== "ENOENT") result.failed!++;
+      }
+    }
+    reports.push(result);
+  }
+  return summarize(reports, false);
+}
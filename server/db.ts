@@ -0,0 +1,28 @@
+import path from "path";
+import postgres from "postgres";
+import { drizzle } from "drizzle-orm/postgres-js";
+import { migrate } from "drizzle-orm/postgres-js/migrator";
+import type { PgDatabase, QueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+
+export type Database = PgDatabase<QueryResultHKT, typeof schema>;
+
+export interface DatabaseConnection {
+  db: Database;
+  migrate(): Promise<void>;
+  close(): Promise<void>;
+}
+
+// Generated by `npm run db:generate` from shared/schema.ts; resolved from the project root like drizzle.config.ts
+export const migrationsFolder = path.resolve("migrations");
+
+export function connectPostgres(url: string): DatabaseConnection {
+  const client = postgres(url, { max: 10 });
+  const db = drizzle(client, { schema });
+
+  return {
+    db,
+    migrate: () => migrate(db, { migrationsFolder }),
+    close: () => client.end(),
+  };
+}
@@ -0,0 +1,144 @@
+// Benchmarks local UDP DNS stubs that answer quickly, slowly, with SERVFAIL or
+// not at all, and edits resolver configuration in temp files.
+//
+//   npm run dns:check
+import assert from "node:assert/strict";
+import dgram from "dgram";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { dnsBenchmarkSchema } from "@shared/dns";
+import {
+  benchmarkResolvers, decodeResponseHeader, encodeQuery, parseResolvConf, percentile, queryDns,
+  resolvConfConfig, rewriteResolvConf, systemdResolvedConfig
+} from "./dns";
+import type { FileWriter } from "./privileged";
+
+interface StubOptions {
+  // Delay for names the stub has already answered, and for new ones
+  cachedMs: number;
+  uncachedMs: number;
+  rcode?: number;
+  silent?: boolean;
+}
+
+// Answers every query with an empty reply after a delay, NXDOMAIN for "nx-" names
+async function startStub(options: StubOptions) {
+  const socket = dgram.createSocket("udp4");
+  const seen = new Set<string>();
+  const names: string[] = [];
+  socket.on("message", (message, remote) => {
+    const labels: string[] = [];
+    for (let offset = 12; message[offset] > 0; offset += message[offset] + 1) {
+      labels.push(message.subarray(offset + 1, offset + 1 + message[offset]).toString("ascii"));
+    }
+    const name = labels.join(".");
+    names.push(name);
+    if (options.silent) return;
+    const delay = seen.has(name) ? options.cachedMs : options.uncachedMs;
+    seen.add(name);
+    const reply = Buffer.from(message);
+    const rcode = options.rcode ?? (name.startsWith("nx-") ? 3 : 0);
+    reply.writeUInt16BE(0x8180 | rcode, 2);
+    setTimeout(() => socket.send(reply, remote.port, remote.address), delay);
+  });
+  await new Promise<void>(resolve => socket.bind(0, "127.0.0.1", resolve));
+  return { port: socket.address().port, names, close: () => socket.close() };
+}
+
+async function main() {
+  // Wire format
+  const query = encodeQuery(0x1234, "example.com");
+  assert.equal(query.readUInt16BE(0), 0x1234);
+  assert.deepEqual(Array.from(query.subarray(12, 25)), [7, ...Array.from(Buffer.from("example")), 3, ...Array.from(Buffer.from("com")), 0]);
+  assert.equal(decodeResponseHeader(query), null); // a query is not a reply
+  assert.deepEqual(percentile([1, 2, 3, 4, 5, 6, 7, 8, 9, 10], 95), 10);
+  assert.deepEqual(percentile([1, 2, 3, 4], 50), 2);
+
+  const fast = await startStub({ cachedMs: 1, uncachedMs: 20 });
+  const slow = await startStub({ cachedMs: 30, uncachedMs: 60 });
+  const broken = await startStub({ cachedMs: 1, uncachedMs: 1, rcode: 2 });
+  const dead = await startStub({ cachedMs: 0, uncachedMs: 0, silent: true });
+  try {
+    assert.ok((await queryDns({ server: "127.0.0.1", port: fast.port }, "nx-abc.example.com", 1000)) >= 0);
+    await assert.rejects(queryDns({ server: "127.0.0.1", port: broken.port }, "example.com", 1000), /Response code 2/);
+    await assert.rejects(queryDns({ server: "127.0.0.1", port: dead.port }, "example.com", 100), /Timed out/);
+
+    const options = dnsBenchmarkSchema.parse({ domains: ["example.com", "example.org"], rounds: 3, timeoutMs: 300 });
+    const report = await benchmarkResolvers([
+      { server: "127.0.0.1", port: dead.port, label: "Dead" },
+      { server: "127.0.0.1", port: slow.port, label: "Slow" },
+      { server: "127.0.0.1", port: broken.port, label: "Broken" },
+      { server: "127.0.0.1", port: fast.port, label: "Fast" },
+    ], options);
+
+    // Resolvers that answer nothing tie, and keep the order they were given in
+    assert.deepEqual(report.results.map(result => [result.rank, result.label]),
+      [[1, "Fast"], [2, "Slow"], [3, "Dead"], [4, "Broken"]]);
+    const [fastResult, slowResult, deadResult, brokenResult] = report.results;
+    assert.equal(fastResult.queries, 12); // 2 domains × 3 rounds × cached and uncached
+    assert.equal(fastResult.failures, 0);
+    assert.ok(fastResult.cached.median! < fastResult.uncached.median!);
+    assert.ok(slowResult.cached.median! >= 30 && slowResult.uncached.p95! >= 60);
+    assert.equal(brokenResult.failureRate, 1);
+    assert.deepEqual(deadResult.overall, { median: null, p95: null });
+
+    // Each domain was warmed once, then asked for again and for random names below it
+    const exampleCom = fast.names.filter(name => name === "example.com").length;
+    const uncached = fast.names.filter(name => /^nx-[0-9a-f]{12}\.example\.com$/.test(name));
+    assert.equal(exampleCom, 4);
+    assert.equal(new Set(uncached).size, 3);
+  } finally {
+    [fast, slow, broken, dead].forEach(stub => stub.close());
+  }
+
+  // Resolver configuration
+  const conf = "# Generated\nsearch lan\nnameserver 192.168.1.1\nnameserver 192.168.1.2\noptions edns0\n";
+  assert.deepEqual(parseResolvConf(conf), ["192.168.1.1", "192.168.1.2"]);
+  assert.equal(rewriteResolvConf(conf, ["1.1.1.1", "1.0.0.1"]),
+    "# Generated\nsearch lan\nnameserver 1.1.1.1\nnameserver 1.0.0.1\noptions edns0\n");
+  assert.equal(rewriteResolvConf("search lan\n", ["9.9.9.9"]), "search lan\nnameserver 9.9.9.9\n");
+
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "nexus-dns-"));
+  try {
+    const written: string[] = [];
+    const write: FileWriter = async (file, content) => {
+      written.push(file);
+      if (content === null) await fs.promises.rm(file, { force: true });
+      else await fs.promises.writeFile(file, content);
+    };
+
+    const resolvConf = path.join(dir, "resolv.conf");
+    await fs.promises.writeFile(resolvConf, conf);
+    const plain = resolvConfConfig(resolvConf, write);
+    await plain.apply(["8.8.8.8"]);
+    assert.deepEqual(await plain.read(), { method: "resolv.conf", servers: ["8.8.8.8"] });
+    assert.match(fs.readFileSync(resolvConf, "utf-8"), /^search lan$/m);
+
+    const upstream = path.join(dir, "upstream.conf");
+    await fs.promises.writeFile(upstream, "nameserver 192.168.1.1\n");
+    let restarts = 0;
+    const resolved = systemdResolvedConfig(path.join(dir, "90-nexus.conf"), upstream, write, async () => {
+      restarts++;
+    });
+    assert.deepEqual(await resolved.read(), { method: "systemd-resolved", servers: ["192.168.1.1"] });
+    await resolved.apply(["1.1.1.1", "9.9.9.9"]);
+    assert.deepEqual(await resolved.read(), { method: "systemd-resolved", servers: ["1.1.1.1", "9.9.9.9"] });
+    assert.match(fs.readFileSync(path.join(dir, "90-nexus.conf"), "utf-8"), /^\[Resolve\]\nDNS=1\.1\.1\.1 9\.9\.9\.9$/m);
+    assert.equal(restarts, 1);
+    assert.deepEqual(written, [resolvConf, path.join(dir, "90-nexus.conf")]);
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+
+  // Only addresses are accepted as resolvers
+  assert.throws(() => dnsBenchmarkSchema.parse({ servers: ["dns.example.com"] }));
+  assert.deepEqual(dnsBenchmarkSchema.parse({}).servers, ["1.1.1.1", "8.8.8.8", "9.9.9.9"]);
+
+  console.log("✓ dns");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,214 @@
+import dgram from "dgram";
+import fs from "fs";
+import net from "net";
+import { randomBytes } from "crypto";
+import {
+  dnsPresets,
+  type DnsBenchmarkOptions, type DnsBenchmarkReport, type DnsResolverResult, type LatencySummary, type ResolverState
+} from "@shared/dns";
+import { runPrivileged, writePrivilegedFile, type FileWriter } from "./privileged";
+
+const RCODE_NXDOMAIN = 3;
+
+// A standard recursive query for the A record of `name`
+export function encodeQuery(id: number, name: string): Buffer {
+  const labels = name.split(".").filter(Boolean).map(label => {
+    const bytes = Buffer.from(label, "ascii");
+    return Buffer.concat([Buffer.from([bytes.length]), bytes]);
+  });
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(id, 0);
+  header.writeUInt16BE(0x0100, 2); // recursion desired
+  header.writeUInt16BE(1, 4); // one question
+  const question = Buffer.alloc(4);
+  question.writeUInt16BE(1, 0); // A
+  question.writeUInt16BE(1, 2); // IN
+  return Buffer.concat([header, ...labels, Buffer.from([0]), question]);
+}
+
+// The id and response code of a reply, or null for anything that is not one
+export function decodeResponseHeader(message: Buffer): { id: number; rcode: number } | null {
+  if (message.length < 12) return null;
+  const flags = message.readUInt16BE(2);
+  if (!(flags & 0x8000)) return null;
+  return { id: message.readUInt16BE(0), rcode: flags & 0x0f };
+}
+
+export interface DnsTarget {
+  server: string;
+  port?: number; // 53 unless a check points at a local stub
+  label?: string;
+}
+
+// Milliseconds until the answer, or an error for timeouts and failed lookups.
+// NXDOMAIN is an answer: it is what lookups of made-up names get.
+export function queryDns(target: DnsTarget, name: string, timeoutMs: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const socket = dgram.createSocket(net.isIPv6(target.server) ? "udp6" : "udp4");
+    const id = randomBytes(2).readUInt16BE(0);
+    const started = process.hrtime.bigint();
+    let done = false;
+    const finish = (error: Error | null) => {
+      if (done) return;
+      done = true;
+      clearTimeout(timer);
+      socket.close();
+      if (error) reject(error);
+      else resolve(Number(process.hrtime.bigint() - started) / 1e6);
+    };
+    const timer = setTimeout(() => finish(new Error("Timed out")), timeoutMs);
+
+    socket.on("message", (message) => {
+      const header = decodeResponseHeader(message);
+      if (!header || header.id !== id) return; // stray or spoofed datagram
+      finish(header.rcode === 0 || header.rcode === RCODE_NXDOMAIN ? null : new Error(`Response code ${header.rcode}`));
+    });
+    socket.on("error", finish);
+    socket.send(encodeQuery(id, name), target.port ?? 53, target.server, (error) => error && finish(error));
+  });
+}
+
+// Nearest-rank percentile of ascending samples
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+function summarize(samples: number[]): LatencySummary {
+  const sorted = samples.slice().sort((a, b) => a - b);
+  const round = (value: number | null) => (value === null ? null : Math.round(value * 10) / 10);
+  return { median: round(percentile(sorted, 50)), p95: round(percentile(sorted, 95)) };
+}
+
+async function benchmarkResolver(
+  target: DnsTarget, options: Pick<DnsBenchmarkOptions, "domains" | "rounds" | "timeoutMs">,
+): Promise<Omit<DnsResolverResult, "rank">> {
+  const cached: number[] = [];
+  const uncached: number[] = [];
+  let failures = 0;
+  let queries = 0;
+
+  const measure = async (name: string, into: number[]) => {
+    queries++;
+    try {
+      into.push(await queryDns(target, name, options.timeoutMs));
+    } catch {
+      failures++;
+    }
+  };
+
+  // Domains run side by side; the queries for one domain go one after another
+  await Promise.all(options.domains.map(async (domain) => {
+    // Warms the resolver's cache and is not counted
+    await queryDns(target, domain, options.timeoutMs).catch(() => undefined);
+    for (let round = 0; round < options.rounds; round++) {
+      await measure(domain, cached);
+      await measure(`nx-${randomBytes(6).toString("hex")}.${domain}`, uncached);
+    }
+  }));
+
+  const label = target.label ?? dnsPresets.find(preset => preset.server === target.server)?.label ?? "Custom DNS";
+  return {
+    server: target.server,
+    label,
+    cached: summarize(cached),
+    uncached: summarize(uncached),
+    overall: summarize(cached.concat(uncached)),
+    queries,
+    failures,
+    failureRate: queries ? failures / queries : 1,
+  };
+}
+
+// Resolvers that lose more than one query in twenty rank behind the ones that
+// do not, then by median and p95 latency
+export function rankResolvers(results: Array<Omit<DnsResolverResult, "rank">>): DnsResolverResult[] {
+  const reliable = (result: Omit<DnsResolverResult, "rank">) => (result.failureRate <= 0.05 ? 0 : 1);
+  const latency = (value: number | null) => value ?? Number.POSITIVE_INFINITY;
+  return results
+    .slice()
+    .sort((a, b) =>
+      reliable(a) - reliable(b) ||
+      latency(a.overall.median) - latency(b.overall.median) ||
+      latency(a.overall.p95) - latency(b.overall.p95))
+    .map((result, index) => ({ ...result, rank: index + 1 }));
+}
+
+export async function benchmarkResolvers(
+  targets: DnsTarget[], options: Pick<DnsBenchmarkOptions, "domains" | "rounds" | "timeoutMs">,
+): Promise<DnsBenchmarkReport> {
+  const results = await Promise.all(targets.map(target => benchmarkResolver(target, options)));
+  return { domains: options.domains, results: rankResolvers(results) };
+}
+
+// Nameserver addresses of a resolv.conf
+export function parseResolvConf(text: string): string[] {
+  return text.split("\n")
+    .map(line => line.trim().match(/^nameserver\s+(\S+)/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => match[1]);
+}
+
+// Swaps the nameserver lines for new ones where the first of them was, and
+// keeps search domains, options and comments
+export function rewriteResolvConf(text: string, servers: string[]): string {
+  const lines = text.split("\n");
+  const first = lines.findIndex(line => /^\s*nameserver\s/.test(line));
+  const kept = lines.filter(line => !/^\s*nameserver\s/.test(line));
+  const at = first === -1 ? kept.length - (kept[kept.length - 1] === "" ? 1 : 0) : first;
+  kept.splice(at, 0, ...servers.map(server => `nameserver ${server}`));
+  return kept.join("\n");
+}
+
+// How the host's resolver is read and changed; replaced in checks
+export interface ResolverConfig {
+  read(): Promise<ResolverState>;
+  apply(servers: string[]): Promise<void>;
+}
+
+async function readText(file: string): Promise<string | null> {
+  return fs.promises.readFile(file, "utf-8").catch(() => null);
+}
+
+export function resolvConfConfig(file = "/etc/resolv.conf", write: FileWriter = writePrivilegedFile): ResolverConfig {
+  return {
+    async read() {
+      return { method: "resolv.conf", servers: parseResolvConf((await readText(file)) ?? "") };
+    },
+    async apply(servers) {
+      await write(file, rewriteResolvConf((await readText(file)) ?? "", servers));
+    },
+  };
+}
+
+export const RESOLVED_DROP_IN = "/etc/systemd/resolved.conf.d/90-nexus-optimizer.conf";
+
+// systemd-resolved gets the servers from a drop-in and is restarted to use them
+export function systemdResolvedConfig(
+  dropIn = RESOLVED_DROP_IN,
+  upstreamFile = "/run/systemd/resolve/resolv.conf",
+  write: FileWriter = writePrivilegedFile,
+  restart: () => Promise<void> = () => runPrivileged("systemctl", ["restart", "systemd-resolved"]),
+): ResolverConfig {
+  return {
+    async read() {
+      const configured = (await readText(dropIn))?.match(/^DNS=(.*)$/m)?.[1].trim().split(/\s+/).filter(Boolean);
+      return {
+        method: "systemd-resolved",
+        servers: configured?.length ? configured : parseResolvConf((await readText(upstreamFile)) ?? ""),
+      };
+    },
+    async apply(servers) {
+      await write(dropIn, `# Written by Nexus Optimizer Pro\n[Resolve]\nDNS=${servers.join(" ")}\n`);
+      await restart();
+    },
+  };
+}
+
+// Hosts whose resolv.conf points at the 127.0.0.53 stub are run by
+// systemd-resolved; anything else is edited in /etc/resolv.conf
+export async function hostResolverConfig(): Promise<ResolverConfig> {
+  const resolvConf = (await readText("/etc/resolv.conf")) ?? "";
+  const resolved = fs.existsSync("/run/systemd/resolve") && parseResolvConf(resolvConf).includes("127.0.0.53");
+  return resolved ? systemdResolvedConfig() : resolvConfConfig();
+}
@@ -0,0 +1,91 @@
+import path from "path";
+import { knownGames, type KnownGame } from "@shared/games";
+import { hostFs, type HostFs } from "./hostFs";
+
+export interface ProcessInfo {
+  pid: number;
+  comm: string;
+  exe: string | null; // null for kernel threads and other users' processes
+  cmdline: string[];
+}
+
+// Where running processes come from; /proc on the host, or a fixed table in checks
+export interface ProcessSource {
+  list(): Promise<ProcessInfo[]>;
+}
+
+export interface RunningGame {
+  game: KnownGame;
+  pid: number;
+}
+
+// The kernel keeps the first 15 bytes of a process name in /proc/<pid>/comm
+const COMM_LENGTH = 15;
+
+export function createProcfsSource(fs: HostFs = hostFs): ProcessSource {
+  return {
+    async list() {
+      const pids = (await fs.readDir("/proc")).filter(name => /^\d+$/.test(name)).map(Number).sort((a, b) => a - b);
+
+      const processes = await Promise.all(pids.map(async (pid): Promise<ProcessInfo | null> => {
+        const [comm, cmdline, exe] = await Promise.all([
+          fs.readFile(`/proc/${pid}/comm`),
+          fs.readFile(`/proc/${pid}/cmdline`),
+          fs.readLink(`/proc/${pid}/exe`),
+        ]);
+        // The process exited between listing /proc and reading it
+        if (comm === null) return null;
+        return { pid, comm, exe, cmdline: cmdline ? cmdline.split("\0").filter(Boolean) : [] };
+      }));
+      return processes.filter((p): p is ProcessInfo => p !== null);
+    },
+  };
+}
+
+export const procfsSource = createProcfsSource();
+
+// Windows paths show up in the cmdline of Proton/Wine games ("Z:\games\Game.exe")
+function baseName(file: string) {
+  return path.win32.basename(file).toLowerCase();
+}
+
+// Lowercase file names a process may be known by: its binary, its argv[0] and
+// any *.exe argument, since under Wine the binary is the Wine loader
+export function executableNames(proc: ProcessInfo): string[] {
+  const names = new Set<string>();
+  if (proc.exe) names.add(baseName(proc.exe.replace(/ \(deleted\)$/, "")));
+  if (proc.cmdline[0]) names.add(baseName(proc.cmdline[0]));
+  proc.cmdline.filter(arg => /\.exe$/i.test(arg)).forEach(arg => names.add(baseName(arg)));
+  return Array.from(names);
+}
+
+export function matchesPattern(name: string, pattern: string): boolean {
+  const regex = pattern
+    .toLowerCase()
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  return new RegExp(`^${regex}$`).test(name.toLowerCase());
+}
+
+// comm is the only name every process has, but it is cut to 15 bytes
+export function matchesExecutable(comm: string, executable: string): boolean {
+  const name = comm.toLowerCase();
+  const exe = executable.toLowerCase();
+  return name.length >= COMM_LENGTH ? exe.startsWith(name) : exe === name;
+}
+
+export function processMatches(proc: ProcessInfo, patterns: string[]): boolean {
+  const names = executableNames(proc);
+  return patterns.some(pattern =>
+    names.some(name => matchesPattern(name, pattern)) || (!/[*?]/.test(pattern) && matchesExecutable(proc.comm, pattern)));
+}
+
+// Known games among the host's processes, one entry per game (its lowest pid)
+export async function detectRunningGames(source: ProcessSource = procfsSource): Promise<RunningGame[]> {
+  const processes = await source.list();
+  return knownGames.flatMap(game => {
+    const proc = processes.find(p => processMatches(p, game.executables));
+    return proc ? [{ game, pid: proc.pid }] : [];
+  });
+}
@@ -0,0 +1,108 @@
+// Drives the game watcher with a fake process table on MemStorage: a game
+// starting activates its profile, exiting restores the previous one, and a
+// profile the user picked by hand during the game is left alone.
+//
+//   npm run games:check
+import assert from "node:assert/strict";
+import { defaultProfileSettings } from "@shared/gameProfiles";
+import type { ProcessInfo, ProcessSource } from "./gameDetection";
+import { storage } from "./storage";
+import { GameWatcher, profilePatterns } from "./gameWatcher";
+
+const base = Date.parse("2024-05-01T20:00:00Z");
+const at = (minutes: number) => new Date(base + minutes * 60_000);
+
+const shell: ProcessInfo = { pid: 1, comm: "systemd", exe: "/usr/lib/systemd/systemd", cmdline: ["/sbin/init"] };
+// Under Proton the binary is the Wine loader; only the cmdline names the game
+const fortnite: ProcessInfo = {
+  pid: 4242,
+  comm: "FortniteClient-",
+  exe: "/usr/bin/wine64-preloader",
+  cmdline: ["Z:\\games\\Fortnite\\FortniteGame\\Binaries\\Win64\\FortniteClient-Win64-Shipping.exe", "-epicportal"],
+};
+const custom: ProcessInfo = { pid: 5100, comm: "mygame", exe: "/opt/mygame/mygame-bin", cmdline: ["/opt/mygame/mygame-bin"] };
+
+class FakeProcessTable implements ProcessSource {
+  processes: ProcessInfo[] = [shell];
+  async list() {
+    return this.processes;
+  }
+}
+
+async function main() {
+  const user = await storage.createUser({ username: "games_check", passwordHash: "hash" });
+  const table = new FakeProcessTable();
+  const watcher = new GameWatcher(table);
+
+  const everyday = await storage.createGameProfile({
+    userId: user.id, name: "Everyday", icon: "fas fa-desktop", settings: defaultProfileSettings,
+  });
+  const fortniteProfile = await storage.createGameProfile({
+    userId: user.id, name: "Fortnite", icon: "fas fa-crosshairs", settings: defaultProfileSettings,
+  });
+  const customProfile = await storage.createGameProfile({
+    userId: user.id, name: "Indie", icon: "fas fa-gamepad",
+    settings: { ...defaultProfileSettings, executables: ["mygame-*"] },
+  });
+  await storage.setActiveGameProfile(user.id, everyday.id);
+
+  const active = async () =>
+    (await storage.getGameProfiles(user.id)).find(p => p.userId === user.id && p.isActive)?.id ?? null;
+  const sessions = async () => storage.getGamingSessions(at(-60), at(60), user.id);
+
+  // Patterns come from the profile, or the catalog game of the same name
+  assert.deepEqual(profilePatterns(customProfile), ["mygame-*"]);
+  assert.ok(profilePatterns(fortniteProfile).includes("FortniteClient-Win64-Shipping.exe"));
+  assert.deepEqual(profilePatterns(everyday), []);
+
+  // Nothing running, nothing changes
+  await watcher.scan(at(0));
+  assert.equal(await active(), everyday.id);
+  assert.equal((await sessions()).length, 0);
+
+  // Game starts: profile activated and a session opened
+  table.processes = [shell, fortnite];
+  await watcher.scan(at(1));
+  assert.equal(await active(), fortniteProfile.id);
+  let [session] = await sessions();
+  assert.equal(session.gameProfileId, fortniteProfile.id);
+  assert.equal(session.gameName, "Fortnite");
+  assert.deepEqual(session.startedAt, at(1));
+  assert.equal(session.endedAt, null);
+
+  // Still running: no new session
+  await watcher.scan(at(2));
+  assert.equal((await sessions()).length, 1);
+
+  // Game exits: session closed and the previous profile back
+  table.processes = [shell];
+  await watcher.scan(at(30));
+  assert.equal(await active(), everyday.id);
+  [session] = await sessions();
+  assert.deepEqual(session.endedAt, at(30));
+
+  // A profile chosen by hand while playing stays after the game exits
+  table.processes = [shell, custom];
+  await watcher.scan(at(40));
+  assert.equal(await active(), customProfile.id);
+  await storage.setActiveGameProfile(user.id, fortniteProfile.id);
+  table.processes = [shell];
+  await watcher.scan(at(45));
+  assert.equal(await active(), fortniteProfile.id);
+  assert.ok((await sessions()).every(s => s.endedAt));
+
+  // Sessions left open by a previous run are closed once the game is gone
+  const stale = await storage.createGamingSession({
+    userId: user.id, gameProfileId: customProfile.id, gameName: "Indie", startedAt: at(50),
+  });
+  await new GameWatcher(table).scan(at(55));
+  assert.deepEqual((await storage.getGamingSessions(at(-60), at(60), user.id)).find(s => s.id === stale.id)?.endedAt, at(55));
+  assert.equal(await active(), fortniteProfile.id);
+
+  console.log("✓ game detection and profile switching");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
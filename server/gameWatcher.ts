@@ -0,0 +1,138 @@
+import type { GameProfile } from "@shared/schema";
+import { findKnownGameByName } from "@shared/games";
+import { procfsSource, processMatches, type ProcessSource } from "./gameDetection";
+import { storage } from "./storage";
+import { realtime } from "./realtime";
+
+const DEFAULT_INTERVAL_MS = 5000;
+
+interface WatchedGame {
+  profileId: string;
+  sessionId: string;
+  // What was active before the game started; undefined when the session was
+  // picked up after a restart and the previous state is not known
+  previousProfileId: string | null | undefined;
+}
+
+// A profile's own executables, or those of the catalog game it is named after
+export function profilePatterns(profile: Pick<GameProfile, "name" | "settings">): string[] {
+  const executables = profile.settings.executables ?? [];
+  return executables.length > 0 ? executables : findKnownGameByName(profile.name)?.executables ?? [];
+}
+
+// Watches the process table for games that have a profile. When one starts,
+// its profile is activated and a gaming session opened; when it exits, the
+// session is closed and the previously active profile comes back, unless the
+// user switched profiles by hand in the meantime. Only users' own profiles are
+// watched; the shared templates cannot be activated.
+export class GameWatcher {
+  private watching = new Map<string, WatchedGame>();
+  private restored = false;
+
+  constructor(private source: ProcessSource = procfsSource) {}
+
+  async scan(now = new Date()): Promise<void> {
+    await this.restore(now);
+
+    const processes = await this.source.list();
+    const byUser = new Map<string, GameProfile[]>();
+    (await storage.getGameProfiles()).forEach(profile => {
+      if (!profile.userId) return;
+      byUser.set(profile.userId, [...(byUser.get(profile.userId) ?? []), profile]);
+    });
+
+    const userIds = new Set([...Array.from(byUser.keys()), ...Array.from(this.watching.keys())]);
+    for (const userId of Array.from(userIds)) {
+      const profiles = byUser.get(userId) ?? [];
+      const running = profiles.filter(profile => {
+        const patterns = profilePatterns(profile);
+        return patterns.length > 0 && processes.some(proc => processMatches(proc, patterns));
+      });
+
+      const current = this.watching.get(userId);
+      if (current && running.some(profile => profile.id === current.profileId)) continue;
+      if (current) await this.stop(userId, current, profiles, now);
+
+      // With several games open, keep whichever the user already has active
+      const next = running.find(profile => profile.isActive) ?? running[0];
+      if (next) await this.start(userId, next, now);
+    }
+  }
+
+  // Sessions left open by a previous run are still tracked, so a game that
+  // exited while the server was down gets its session closed
+  private async restore(now: Date) {
+    if (this.restored) return;
+    this.restored = true;
+
+    const sessions = await storage.getGamingSessions(now, now);
+    sessions.forEach(session => {
+      if (session.endedAt || !session.userId || !session.gameProfileId) return;
+      this.watching.set(session.userId, {
+        profileId: session.gameProfileId,
+        sessionId: session.id,
+        previousProfileId: undefined,
+      });
+    });
+  }
+
+  private async start(userId: string, profile: GameProfile, now: Date) {
+    const active = (await storage.getGameProfiles(userId)).find(p => p.userId === userId && p.isActive);
+    if (!profile.isActive) await storage.setActiveGameProfile(userId, profile.id);
+
+    const session = await storage.createGamingSession({
+      userId,
+      gameProfileId: profile.id,
+      gameName: profile.name,
+      startedAt: now,
+    });
+    this.watching.set(userId, { profileId: profile.id, sessionId: session.id, previousProfileId: active?.id ?? null });
+    realtime.publish(userId, "games", "gameSession", { event: "started", session, profileId: profile.id });
+  }
+
+  private async stop(userId: string, watched: WatchedGame, profiles: GameProfile[], now: Date) {
+    this.watching.delete(userId);
+    const session = await storage.endGamingSession(watched.sessionId, now);
+
+    const stillActive = profiles.some(profile => profile.id === watched.profileId && profile.isActive);
+    if (stillActive && watched.previousProfileId !== undefined && watched.previousProfileId !== watched.profileId) {
+      // A deleted previous profile leaves nothing active, as if none had been
+      await storage.setActiveGameProfile(userId, watched.previousProfileId);
+    }
+    if (session) {
+      realtime.publish(userId, "games", "gameSession", { event: "ended", session, profileId: watched.profileId });
+    }
+  }
+}
+
+let timer: NodeJS.Timeout | null = null;
+
+// Scans /proc on an interval and switches profiles as games start and exit. Linux only.
+export function startGameWatcher(watcher = new GameWatcher()) {
+  if (process.env.GAME_DETECTION_ENABLED === "false" || process.platform !== "linux" || timer) {
+    return;
+  }
+
+  const intervalMs = Number(process.env.GAME_DETECTION_INTERVAL_MS) || DEFAULT_INTERVAL_MS;
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await watcher.scan();
+    } catch (error) {
+      console.error("Game detection scan failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  tick();
+  timer = setInterval(tick, intervalMs);
+}
+
+export function stopGameWatcher() {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
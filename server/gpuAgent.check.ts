@@ -0,0 +1,229 @@
+// Serves the mock GPU agent on loopback and drives it through the server's
+// client: discovery, telemetry, settings with range and capability checks,
+// error codes, injected failures, the WebSocket telemetry subscription with
+// driver events, and the refusal of requests a web page could send.
+//
+//   npm run gpu-agent:check
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import WebSocket from "ws";
+import {
+  GPU_AGENT_PATH, GPU_AGENT_PROTOCOL_VERSION, GpuAgentError, gpuAgentErrorCodes, validateGpuSettings,
+  type GpuEvent, type GpuTelemetry
+} from "@shared/gpuAgent";
+import { serveGpuAgent } from "./gpuAgentServer";
+import { GpuAgentClient, gpuAgentFailure } from "./gpuAgent";
+import { MockGpuBackend, type MockGpuScript } from "./mockGpuBackend";
+
+const TOKEN = "check-token";
+
+async function loadScript(name: string): Promise<MockGpuScript> {
+  const script = JSON.parse(await fs.promises.readFile(path.resolve("server/fixtures/gpu", name), "utf-8"));
+  return { ...script, drift: 0 };
+}
+
+// The GpuAgentError a call rejects with
+async function agentError(promise: Promise<unknown>): Promise<GpuAgentError> {
+  try {
+    await promise;
+  } catch (error) {
+    assert.ok(error instanceof GpuAgentError, String(error));
+    return error;
+  }
+  assert.fail("call did not fail");
+}
+
+async function until(condition: () => boolean, timeoutMs = 3000) {
+  const started = Date.now();
+  while (!condition()) {
+    if (Date.now() - started > timeoutMs) assert.fail("timed out");
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+async function checkCalls(client: GpuAgentClient, backend: MockGpuBackend, url: string) {
+  const hello = await client.call("agent.hello");
+  assert.equal(hello.protocolVersion, GPU_AGENT_PROTOCOL_VERSION);
+
+  const { devices } = await client.call("gpu.list");
+  assert.deepEqual(devices.map(device => device.vendor), ["nvidia", "amd", "intel"]);
+  const nvidia = devices[0];
+
+  const stock = await client.call("gpu.getTelemetry", { deviceId: "nvidia-0" });
+  assert.equal(stock.temperature, 62);
+  assert.equal(stock.coreClock, 2475);
+  assert.equal(stock.powerLimit, 200);
+  assert.equal((await client.call("gpu.getTelemetry", { deviceId: "intel-0" })).memoryClock, null);
+
+  assert.deepEqual(await client.call("gpu.getSettings", { deviceId: "nvidia-0" }),
+    { coreClockOffset: 0, memoryClockOffset: 0, powerLimit: 200, fanSpeed: null });
+
+  // Applied settings show up in the readings
+  const applied = await client.call("gpu.setSettings", { deviceId: "nvidia-0", settings: { coreClockOffset: 100, powerLimit: 180, fanSpeed: 70 } });
+  assert.deepEqual(applied, { coreClockOffset: 100, memoryClockOffset: 0, powerLimit: 180, fanSpeed: 70 });
+  const tuned = await client.call("gpu.getTelemetry", { deviceId: "nvidia-0" });
+  assert.equal(tuned.coreClock, 2575);
+  assert.equal(tuned.powerLimit, 180);
+  assert.equal(tuned.fanSpeed, 70);
+
+  // Nothing is applied when one value is refused
+  const unsupported = await agentError(client.call("gpu.setSettings", { deviceId: "nvidia-0", settings: { powerLimit: 150, coreClockMax: 2000 } }));
+  assert.equal(unsupported.code, gpuAgentErrorCodes.unsupported);
+  assert.deepEqual(unsupported.data, { control: "coreClockMax" });
+  const outOfRange = await agentError(client.call("gpu.setSettings", { deviceId: "nvidia-0", settings: { powerLimit: 500 } }));
+  assert.equal(outOfRange.code, gpuAgentErrorCodes.outOfRange);
+  assert.deepEqual(outOfRange.data, { control: "powerLimit", min: 100, max: 220 });
+  assert.equal((await client.call("gpu.getSettings", { deviceId: "nvidia-0" })).powerLimit, 180);
+
+  const level = await agentError(client.call("gpu.setSettings", { deviceId: "amd-0", settings: { performanceLevel: "turbo" } }));
+  assert.equal(level.code, gpuAgentErrorCodes.unsupported);
+  assert.equal((await client.call("gpu.setSettings", { deviceId: "amd-0", settings: { performanceLevel: "high" } })).performanceLevel, "high");
+
+  assert.equal((await agentError(client.call("gpu.getTelemetry", { deviceId: "missing" }))).code, gpuAgentErrorCodes.deviceNotFound);
+  assert.equal((await agentError(client.call("gpu.setSettings", { deviceId: "nvidia-0", settings: { fanSpeed: "fast" } } as any))).code,
+    gpuAgentErrorCodes.invalidParams);
+  assert.equal((await agentError(client.call("telemetry.subscribe", { intervalMs: 1000 }))).code, gpuAgentErrorCodes.invalidRequest);
+
+  // Scripted failures last as many calls as the script says
+  backend.fail({ method: "apply", deviceId: "nvidia-0", code: gpuAgentErrorCodes.permissionDenied, message: "Needs root", times: 1 });
+  const denied = await agentError(client.call("gpu.setSettings", { deviceId: "nvidia-0", settings: { fanSpeed: 80 } }));
+  assert.deepEqual([denied.code, denied.message], [gpuAgentErrorCodes.permissionDenied, "Needs root"]);
+  assert.equal((await client.call("gpu.setSettings", { deviceId: "nvidia-0", settings: { fanSpeed: 80 } })).fanSpeed, 80);
+
+  assert.deepEqual(await client.call("gpu.resetSettings", { deviceId: "nvidia-0" }),
+    { coreClockOffset: 0, memoryClockOffset: 0, powerLimit: 200, fanSpeed: null });
+
+  // Protocol errors for requests the client never sends
+  const raw = async (body: string, token = TOKEN) => fetch(new URL(GPU_AGENT_PATH, url), {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body,
+  });
+  assert.equal((await (await raw("{")).json()).error.code, gpuAgentErrorCodes.parseError);
+  assert.equal((await (await raw("[]")).json()).error.code, gpuAgentErrorCodes.invalidRequest);
+  assert.equal((await (await raw(JSON.stringify({ jsonrpc: "2.0", id: 1, method: "gpu.overclock" }))).json()).error.code,
+    gpuAgentErrorCodes.methodNotFound);
+  assert.equal((await raw(JSON.stringify({ jsonrpc: "2.0", method: "gpu.list" }))).status, 204);
+  assert.equal((await raw(JSON.stringify({ jsonrpc: "2.0", id: 1, method: "gpu.list" }), "wrong")).status, 401);
+
+  // Nothing a web page can send gets through: its Origin, or a body type
+  // that needs no preflight
+  const list = JSON.stringify({ jsonrpc: "2.0", id: 1, method: "gpu.list" });
+  const post = (headers: Record<string, string>) => fetch(new URL(GPU_AGENT_PATH, url), {
+    method: "POST",
+    headers: { Authorization: `Bearer ${TOKEN}`, ...headers },
+    body: list,
+  });
+  assert.equal((await post({ "Content-Type": "application/json", Origin: "https://example.com" })).status, 403);
+  assert.equal((await post({ "Content-Type": "text/plain" })).status, 415);
+  assert.equal((await post({ "Content-Type": "application/json; charset=utf-8" })).status, 200);
+  const socketStatus = (headers: Record<string, string>) => new Promise<number>((resolve) => {
+    const socket = new WebSocket(new URL(GPU_AGENT_PATH, url.replace(/^http/, "ws")), { headers });
+    socket.once("open", () => {
+      socket.close();
+      resolve(101);
+    });
+    socket.once("unexpected-response", (_req, res) => resolve(res.statusCode ?? 0));
+    socket.once("error", () => resolve(0));
+  });
+  assert.equal(await socketStatus({ Authorization: `Bearer ${TOKEN}`, Origin: "http://localhost:5173" }), 403);
+  assert.equal(await socketStatus({}), 401);
+
+  const unauthorized = await agentError(new GpuAgentClient(url).call("gpu.list"));
+  assert.equal(unauthorized.code, gpuAgentErrorCodes.unreachable);
+  assert.equal(validateGpuSettings(nvidia, { fanSpeed: null }), null);
+  assert.equal(validateGpuSettings(nvidia, { coreClockOffset: null as any })?.code, gpuAgentErrorCodes.invalidParams);
+}
+
+async function checkSubscription(client: GpuAgentClient, backend: MockGpuBackend) {
+  const updates: GpuTelemetry[][] = [];
+  const events: GpuEvent[] = [];
+  const statuses: boolean[] = [];
+  const stop = client.watch({
+    onTelemetry: samples => updates.push(samples),
+    onEvent: event => events.push(event),
+    onStatus: connected => statuses.push(connected),
+  }, 250);
+
+  try {
+    await until(() => updates.length >= 2);
+    assert.deepEqual(updates[0].map(sample => sample.deviceId), ["nvidia-0", "amd-0", "intel-0"]);
+
+    // A driver reset is pushed to the watcher and undoes the applied settings
+    await client.call("gpu.setSettings", { deviceId: "nvidia-0", settings: { coreClockOffset: 150 } });
+    backend.step({ deviceId: "nvidia-0", event: "driverReset", message: "Xid 79" });
+    await until(() => events.length === 1);
+    assert.equal(events[0].event, "driverReset");
+    assert.equal(events[0].message, "Xid 79");
+    assert.equal((await client.call("gpu.getSettings", { deviceId: "nvidia-0" })).coreClockOffset, 0);
+
+    // Timeline steps change the readings the subscription sends
+    backend.step({ deviceId: "amd-0", telemetry: { temperature: 95, throttleReasons: ["thermal"] }, event: "thermalLimit" });
+    await until(() => updates[updates.length - 1][1].temperature === 95);
+    assert.deepEqual(updates[updates.length - 1][1].throttleReasons, ["thermal"]);
+    assert.equal(events[1].event, "thermalLimit");
+  } finally {
+    stop();
+  }
+  assert.deepEqual(statuses, [true]);
+}
+
+async function checkTimeline() {
+  const script = await loadScript("mock-unstable.json");
+  const backend = new MockGpuBackend({
+    ...script,
+    latencyMs: 0,
+    timeline: script.timeline!.map(step => ({ ...step, afterMs: step.afterMs / 1000 })),
+    loop: false,
+  });
+  const events: GpuEvent[] = [];
+  backend.onEvent(event => events.push(event));
+  const stop = backend.play();
+  await until(() => events.length === 2);
+  stop();
+  assert.deepEqual(events.map(event => event.event), ["thermalLimit", "driverReset"]);
+  const [device] = await backend.devices();
+  assert.equal((await backend.telemetry(device)).temperature, 71);
+}
+
+function checkHttpMapping() {
+  const failure = gpuAgentFailure(new GpuAgentError(gpuAgentErrorCodes.outOfRange, "too high", { control: "powerLimit" }));
+  assert.deepEqual(failure, { status: 400, body: { error: "too high", code: gpuAgentErrorCodes.outOfRange, details: { control: "powerLimit" } } });
+  assert.equal(gpuAgentFailure(new GpuAgentError(gpuAgentErrorCodes.unreachable, "down"))?.status, 503);
+  assert.equal(gpuAgentFailure(new GpuAgentError(gpuAgentErrorCodes.unsupported, "no"))?.status, 409);
+  assert.equal(gpuAgentFailure(new Error("boom")), null);
+}
+
+async function main() {
+  const backend = new MockGpuBackend(await loadScript("mock-agent.json"));
+  const agent = await serveGpuAgent(backend, { port: 0, token: TOKEN });
+  const client = new GpuAgentClient(agent.url, TOKEN);
+  try {
+    await checkCalls(client, backend, agent.url);
+    await checkSubscription(client, backend);
+  } finally {
+    await agent.close();
+  }
+
+  // Nothing listens any more
+  assert.equal((await agentError(client.call("gpu.list"))).code, gpuAgentErrorCodes.unreachable);
+
+  // Without a token configured the agent makes one up rather than letting anyone in
+  const generated = await serveGpuAgent(backend, { port: 0 });
+  try {
+    assert.match(generated.token, /^[0-9a-f]{48}$/);
+    assert.equal((await agentError(new GpuAgentClient(generated.url).call("gpu.list"))).code, gpuAgentErrorCodes.unreachable);
+    assert.equal((await new GpuAgentClient(generated.url, generated.token).call("gpu.list")).devices.length, 3);
+  } finally {
+    await generated.close();
+  }
+  await checkTimeline();
+  checkHttpMapping();
+  console.log("✓ gpu agent");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,143 @@
+import WebSocket from "ws";
+import {
+  GPU_AGENT_DEFAULT_PORT, GPU_AGENT_PATH, GpuAgentError, gpuAgentErrorCodes,
+  type GpuAgentMethod, type GpuAgentNotifications, type GpuAgentParams, type GpuAgentResults,
+  type GpuEvent, type GpuTelemetry, type JsonRpcResponse
+} from "@shared/gpuAgent";
+import { realtime } from "./realtime";
+
+const CALL_TIMEOUT_MS = 5000;
+const RECONNECT_DELAY_MS = 5000;
+const DEFAULT_TELEMETRY_INTERVAL_MS = 2000;
+
+export interface GpuAgentWatcher {
+  onTelemetry(samples: GpuTelemetry[]): void;
+  onEvent(event: GpuEvent): void;
+  onStatus?(connected: boolean): void;
+}
+
+// The server's side of the GPU agent protocol: calls go over HTTP, the
+// telemetry subscription and driver events over a WebSocket. Agent errors
+// are thrown as GpuAgentError with the agent's code.
+export class GpuAgentClient {
+  private nextId = 1;
+
+  constructor(readonly url: string, private token?: string) {}
+
+  async call<M extends GpuAgentMethod>(method: M, params?: GpuAgentParams<M>): Promise<GpuAgentResults[M]> {
+    let response: Response;
+    try {
+      response = await fetch(new URL(GPU_AGENT_PATH, this.url), {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...this.headers() },
+        body: JSON.stringify({ jsonrpc: "2.0", id: this.nextId++, method, params }),
+        signal: AbortSignal.timeout(CALL_TIMEOUT_MS),
+      });
+    } catch {
+      throw new GpuAgentError(gpuAgentErrorCodes.unreachable, "GPU agent is not reachable");
+    }
+    if (!response.ok) {
+      throw new GpuAgentError(gpuAgentErrorCodes.unreachable, `GPU agent answered HTTP ${response.status}`);
+    }
+
+    const body = await response.json() as JsonRpcResponse;
+    if ("error" in body) throw new GpuAgentError(body.error.code, body.error.message, body.error.data);
+    return body.result as GpuAgentResults[M];
+  }
+
+  // Subscribes to telemetry of every device and keeps reconnecting while the
+  // agent is down; returns a function that stops watching
+  watch(watcher: GpuAgentWatcher, intervalMs = DEFAULT_TELEMETRY_INTERVAL_MS): () => void {
+    const wsUrl = new URL(GPU_AGENT_PATH, this.url.replace(/^http/, "ws"));
+    let socket: WebSocket | null = null;
+    let retry: NodeJS.Timeout | null = null;
+    let connected = false;
+    let stopped = false;
+
+    const connect = () => {
+      socket = new WebSocket(wsUrl, { headers: this.headers() });
+      socket.on("open", () => {
+        connected = true;
+        watcher.onStatus?.(true);
+        socket!.send(JSON.stringify({ jsonrpc: "2.0", id: this.nextId++, method: "telemetry.subscribe", params: { intervalMs } }));
+      });
+      socket.on("message", (raw) => {
+        let message: { method?: string; params?: unknown; error?: { message: string } };
+        try {
+          message = JSON.parse(raw.toString());
+        } catch {
+          return;
+        }
+        if (message.method === "telemetry.update") {
+          watcher.onTelemetry((message.params as GpuAgentNotifications["telemetry.update"]).samples);
+        } else if (message.method === "gpu.event") {
+          watcher.onEvent(message.params as GpuEvent);
+        } else if (message.error) {
+          console.error("GPU agent refused the telemetry subscription:", message.error.message);
+        }
+      });
+      socket.on("close", () => {
+        if (connected) watcher.onStatus?.(false);
+        connected = false;
+        if (!stopped) retry = setTimeout(connect, RECONNECT_DELAY_MS);
+      });
+      // A refused connection also closes the socket, which schedules the retry
+      socket.on("error", () => undefined);
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      if (retry) clearTimeout(retry);
+      socket?.terminate();
+    };
+  }
+
+  private headers(): Record<string, string> {
+    return this.token ? { Authorization: `Bearer ${this.token}` } : {};
+  }
+}
+
+const httpStatuses: Record<number, number> = {
+  [gpuAgentErrorCodes.unreachable]: 503,
+  [gpuAgentErrorCodes.deviceNotFound]: 404,
+  [gpuAgentErrorCodes.unsupported]: 409,
+  [gpuAgentErrorCodes.outOfRange]: 400,
+  [gpuAgentErrorCodes.invalidParams]: 400,
+  [gpuAgentErrorCodes.permissionDenied]: 403,
+  [gpuAgentErrorCodes.driverError]: 502,
+};
+
+// The API response for an agent error, or null when the error did not come from the agent
+export function gpuAgentFailure(error: unknown): { status: number; body: { error: string; code: number; details?: unknown } } | null {
+  if (!(error instanceof GpuAgentError)) return null;
+  return {
+    status: httpStatuses[error.code] ?? 502,
+    body: { error: error.message, code: error.code, ...(error.data === undefined ? {} : { details: error.data }) },
+  };
+}
+
+export const gpuAgent = new GpuAgentClient(
+  process.env.GPU_AGENT_URL || `http://127.0.0.1:${GPU_AGENT_DEFAULT_PORT}`,
+  process.env.GPU_AGENT_TOKEN,
+);
+
+let stopWatching: (() => void) | null = null;
+
+// Relays the agent's telemetry and driver events to every connected client
+// on the `gpu` topic
+export function startGpuTelemetry(client = gpuAgent) {
+  if (process.env.GPU_AGENT_ENABLED === "false" || stopWatching) return;
+
+  const intervalMs = Number(process.env.GPU_TELEMETRY_INTERVAL_MS) || DEFAULT_TELEMETRY_INTERVAL_MS;
+  stopWatching = client.watch({
+    onTelemetry: samples => realtime.broadcast("gpu", "gpuTelemetry", samples),
+    onEvent: event => realtime.broadcast("gpu", "gpuEvent", event),
+    onStatus: connected => console.log(connected ? `🎮 GPU agent connected: ${client.url}` : "GPU agent disconnected"),
+  }, intervalMs);
+}
+
+export function stopGpuTelemetry() {
+  stopWatching?.();
+  stopWatching = null;
+}
@@ -0,0 +1,299 @@
+import http from "http";
+import { randomBytes, randomUUID } from "crypto";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import { z } from "zod";
+import {
+  GPU_AGENT_DEFAULT_PORT, GPU_AGENT_PATH, GPU_AGENT_PROTOCOL_VERSION, GpuAgentError, gpuAgentErrorCodes,
+  gpuAgentParamSchemas, validateGpuSettings,
+  type GpuAgentMethod, type GpuAgentNotifications, type GpuAgentResults, type GpuDevice, type GpuEvent, type GpuSettings, type GpuTelemetry,
+  type JsonRpcId, type JsonRpcResponse
+} from "@shared/gpuAgent";
+
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_SUBSCRIPTIONS = 8; // per WebSocket connection
+
+// What the agent drives: one vendor's driver, several combined, or the mock.
+// Settings reach apply() only after they were checked against the device's
+// capabilities; errors meant for the caller are thrown as GpuAgentError.
+export interface GpuBackend {
+  devices(): Promise<GpuDevice[]>;
+  telemetry(device: GpuDevice): Promise<GpuTelemetry>;
+  settings(device: GpuDevice): Promise<GpuSettings>;
+  apply(device: GpuDevice, settings: GpuSettings): Promise<GpuSettings>;
+  reset(device: GpuDevice): Promise<GpuSettings>;
+  // Driver resets and limits as they happen; returns a function that stops listening
+  onEvent?(listener: (event: GpuEvent) => void): () => void;
+}
+
+// One backend over several vendors' drivers. Device ids stay unique because
+// each backend prefixes them with its vendor.
+export function combineGpuBackends(backends: GpuBackend[]): GpuBackend {
+  const owners = new Map<string, GpuBackend>();
+  const owner = (device: GpuDevice) => {
+    const backend = owners.get(device.id);
+    if (!backend) throw new GpuAgentError(gpuAgentErrorCodes.deviceNotFound, `No GPU with id ${device.id}`, { deviceId: device.id });
+    return backend;
+  };
+
+  return {
+    async devices() {
+      const lists = await Promise.all(backends.map(async backend => {
+        const devices = await backend.devices();
+        devices.forEach(device => owners.set(device.id, backend));
+        return devices;
+      }));
+      return lists.flat();
+    },
+    telemetry: async device => owner(device).telemetry(device),
+    settings: async device => owner(device).settings(device),
+    apply: async (device, settings) => owner(device).apply(device, settings),
+    reset: async device => owner(device).reset(device),
+    onEvent(listener) {
+      const stops = backends.flatMap(backend => (backend.onEvent ? [backend.onEvent(listener)] : []));
+      return () => stops.forEach(stop => stop());
+    },
+  };
+}
+
+export interface GpuAgentServerOptions {
+  port?: number;
+  // Loopback by default: whoever reaches the agent can change clocks
+  host?: string;
+  // Bearer token every request needs; a random one is made when absent
+  token?: string;
+  name?: string;
+  version?: string;
+}
+
+export interface GpuAgentServer {
+  port: number;
+  url: string;
+  token: string;
+  close(): Promise<void>;
+}
+
+interface AgentConnection {
+  socket: WebSocket;
+  subscriptions: Map<string, NodeJS.Timeout>;
+}
+
+type GpuAgentCallParams<M extends GpuAgentMethod> = z.output<typeof gpuAgentParamSchemas[M]>;
+
+// One handler per agent method, each taking that method's parsed params
+type GpuAgentMethodHandlers = {
+  [M in GpuAgentMethod]: (params: GpuAgentCallParams<M>, connection?: AgentConnection) => Promise<GpuAgentResults[M]>;
+};
+
+const failure = (id: JsonRpcId, code: number, message: string, data?: unknown): JsonRpcResponse =>
+  ({ jsonrpc: "2.0", id, error: data === undefined ? { code, message } : { code, message, data } });
+
+async function findDevice(backend: GpuBackend, deviceId: string): Promise<GpuDevice> {
+  const device = (await backend.devices()).find(d => d.id === deviceId);
+  if (!device) throw new GpuAgentError(gpuAgentErrorCodes.deviceNotFound, `No GPU with id ${deviceId}`, { deviceId });
+  return device;
+}
+
+// Serves a backend over JSON-RPC on HTTP and WebSocket (see shared/gpuAgent.ts)
+export async function serveGpuAgent(backend: GpuBackend, options: GpuAgentServerOptions = {}): Promise<GpuAgentServer> {
+  const info = {
+    name: options.name ?? "nexus-gpu-agent",
+    version: options.version ?? "1.0.0",
+    protocolVersion: GPU_AGENT_PROTOCOL_VERSION,
+  };
+  const connections = new Set<AgentConnection>();
+
+  const token = options.token || randomBytes(24).toString("hex");
+  const authorized = (req: http.IncomingMessage) => req.headers.authorization === `Bearer ${token}`;
+  // Browsers add an Origin to cross-site POSTs and WebSockets; the app server
+  // never sends one, so a web page cannot reach the agent on loopback
+  const fromBrowser = (req: http.IncomingMessage) => req.headers.origin !== undefined;
+
+  const notify = <K extends keyof GpuAgentNotifications>(socket: WebSocket, method: K, params: GpuAgentNotifications[K]) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ jsonrpc: "2.0", method, params }));
+  };
+
+  const subscribe = (connection: AgentConnection, deviceIds: string[] | undefined, intervalMs: number) => {
+    if (connection.subscriptions.size >= MAX_SUBSCRIPTIONS) {
+      throw new GpuAgentError(gpuAgentErrorCodes.invalidRequest, `At most ${MAX_SUBSCRIPTIONS} subscriptions per connection`);
+    }
+    const subscriptionId = randomUUID();
+    let busy = false;
+    const sample = async () => {
+      // A slow driver skips ticks instead of piling up reads
+      if (busy) return;
+      busy = true;
+      try {
+        const devices = (await backend.devices()).filter(device => !deviceIds || deviceIds.includes(device.id));
+        const results = await Promise.allSettled(devices.map(device => backend.telemetry(device)));
+        const samples = results.flatMap(result => (result.status === "fulfilled" ? [result.value] : []));
+        notify(connection.socket, "telemetry.update", { subscriptionId, samples });
+      } catch (error) {
+        console.error("GPU telemetry sampling failed:", error);
+      } finally {
+        busy = false;
+      }
+    };
+    connection.subscriptions.set(subscriptionId, setInterval(sample, intervalMs));
+    setImmediate(sample);
+    return { subscriptionId };
+  };
+
+  const methods: GpuAgentMethodHandlers = {
+    "agent.hello": async () => info,
+    "gpu.list": async () => ({ devices: await backend.devices() }),
+    "gpu.getTelemetry": async params => backend.telemetry(await findDevice(backend, params.deviceId)),
+    "gpu.getSettings": async params => backend.settings(await findDevice(backend, params.deviceId)),
+    "gpu.setSettings": async params => {
+      const device = await findDevice(backend, params.deviceId);
+      const invalid = validateGpuSettings(device, params.settings);
+      if (invalid) throw invalid;
+      return backend.apply(device, params.settings);
+    },
+    "gpu.resetSettings": async params => backend.reset(await findDevice(backend, params.deviceId)),
+    "telemetry.subscribe": async (params, connection) => {
+      if (!connection) {
+        throw new GpuAgentError(gpuAgentErrorCodes.invalidRequest, "telemetry.subscribe needs a WebSocket connection");
+      }
+      return subscribe(connection, params.deviceIds, params.intervalMs);
+    },
+    "telemetry.unsubscribe": async (params, connection) => {
+      const timer = connection?.subscriptions.get(params.subscriptionId);
+      if (!timer) throw new GpuAgentError(gpuAgentErrorCodes.invalidParams, "No such subscription");
+      clearInterval(timer);
+      connection!.subscriptions.delete(params.subscriptionId);
+      return { subscribed: false };
+    },
+  };
+
+  // Params are validated against the method's schema before its handler sees them
+  const call = <M extends GpuAgentMethod>(method: M, params: unknown, connection?: AgentConnection): Promise<GpuAgentResults[M]> => {
+    const schema: z.ZodType<GpuAgentCallParams<M>, z.ZodTypeDef, unknown> = gpuAgentParamSchemas[method];
+    const handler: GpuAgentMethodHandlers[M] = methods[method];
+    return handler(schema.parse(params), connection);
+  };
+
+  // null for notifications, which get no response
+  const handle = async (request: unknown, connection?: AgentConnection): Promise<JsonRpcResponse | null> => {
+    if (Array.isArray(request)) return failure(null, gpuAgentErrorCodes.invalidRequest, "Batch requests are not supported");
+    const { jsonrpc, id, method, params } = (request ?? {}) as Record<string, unknown>;
+    const validId = id === undefined || id === null || typeof id === "string" || typeof id === "number";
+    if (jsonrpc !== "2.0" || typeof method !== "string" || !validId) {
+      return failure(validId ? (id as JsonRpcId) ?? null : null, gpuAgentErrorCodes.invalidRequest, "Invalid request");
+    }
+
+    const respond = (response: JsonRpcResponse) => (id === undefined ? null : response);
+    if (!Object.prototype.hasOwnProperty.call(gpuAgentParamSchemas, method)) {
+      return respond(failure(id as JsonRpcId, gpuAgentErrorCodes.methodNotFound, `Unknown method ${method}`));
+    }
+    try {
+      const result = await call(method as GpuAgentMethod, params, connection);
+      return respond({ jsonrpc: "2.0", id: id as JsonRpcId, result });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return respond(failure(id as JsonRpcId, gpuAgentErrorCodes.invalidParams, "Invalid params", error.errors));
+      }
+      if (error instanceof GpuAgentError) {
+        return respond(failure(id as JsonRpcId, error.code, error.message, error.data));
+      }
+      console.error(`GPU agent ${method} failed:`, error);
+      return respond(failure(id as JsonRpcId, gpuAgentErrorCodes.internalError, error instanceof Error ? error.message : String(error)));
+    }
+  };
+
+  const server = http.createServer((req, res) => {
+    const reply = (status: number, body?: unknown) => {
+      res.writeHead(status, body === undefined ? {} : { "Content-Type": "application/json" });
+      res.end(body === undefined ? undefined : JSON.stringify(body));
+    };
+    if (new URL(req.url || "/", "http://localhost").pathname !== GPU_AGENT_PATH) return reply(404, { error: "Not found" });
+    if (req.method !== "POST") return reply(405, { error: "Use POST or a WebSocket" });
+    if (fromBrowser(req)) return reply(403, { error: "Requests from web pages are not accepted" });
+    if (!authorized(req)) return reply(401, { error: "Unauthorized" });
+    // A form or text/plain POST is the other way a page could get through
+    if ((req.headers["content-type"] ?? "").split(";")[0].trim().toLowerCase() !== "application/json") {
+      return reply(415, { error: "Use Content-Type: application/json" });
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reply(413, failure(null, gpuAgentErrorCodes.invalidRequest, "Request too large"));
+        req.destroy();
+      } else {
+        chunks.push(chunk);
+      }
+    });
+    req.on("end", async () => {
+      let request: unknown;
+      try {
+        request = JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+      } catch {
+        return reply(200, failure(null, gpuAgentErrorCodes.parseError, "Parse error"));
+      }
+      const response = await handle(request);
+      reply(response ? 200 : 204, response ?? undefined);
+    });
+  });
+
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_BODY_BYTES });
+  server.on("upgrade", (req, socket, head) => {
+    if (fromBrowser(req)) {
+      socket.write("HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+    if (new URL(req.url || "/", "http://localhost").pathname !== GPU_AGENT_PATH || !authorized(req)) {
+      socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      const connection: AgentConnection = { socket: ws, subscriptions: new Map() };
+      connections.add(connection);
+      ws.on("message", async (raw: RawData) => {
+        let request: unknown;
+        try {
+          request = JSON.parse(raw.toString());
+        } catch {
+          return ws.send(JSON.stringify(failure(null, gpuAgentErrorCodes.parseError, "Parse error")));
+        }
+        const response = await handle(request, connection);
+        if (response && ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(response));
+      });
+      ws.on("close", () => {
+        connection.subscriptions.forEach(timer => clearInterval(timer));
+        connections.delete(connection);
+      });
+      ws.on("error", (error) => console.error("GPU agent WebSocket error:", error));
+    });
+  });
+
+  const stopEvents = backend.onEvent?.(event => connections.forEach(connection => notify(connection.socket, "gpu.event", event)));
+
+  const host = options.host ?? "127.0.0.1";
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? GPU_AGENT_DEFAULT_PORT, host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+  const port = (server.address() as { port: number }).port;
+
+  return {
+    port,
+    url: `http://${host.includes(":") ? `[${host}]` : host}:${port}`,
+    token,
+    close: () => new Promise(resolve => {
+      stopEvents?.();
+      connections.forEach(connection => {
+        connection.subscriptions.forEach(timer => clearInterval(timer));
+        connection.socket.terminate();
+      });
+      wss.close();
+      server.close(() => resolve());
+    }),
+  };
+}
@@ -0,0 +1,185 @@
+// Runs guarded tuning against the mock GPU agent on loopback, on MemStorage:
+// the step plan, refused attempts and direct writes, confirmation, and the
+// reverts on a missed window, a declined attempt, a failed step, a driver
+// reset, thermal throttling and a server restart.
+//
+//   npm run gpu-tuning:check
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { raisesClocksOrPower, startGpuTuningSchema } from "@shared/gpuTuning";
+import { gpuAgentErrorCodes } from "@shared/gpuAgent";
+import type { GpuTuningAttempt } from "@shared/schema";
+import { serveGpuAgent } from "./gpuAgentServer";
+import { GpuAgentClient } from "./gpuAgent";
+import { GPU_TUNING_IN_PROGRESS, GpuTuningService, planTuningSteps } from "./gpuTuning";
+import { MockGpuBackend, type MockGpuScript } from "./mockGpuBackend";
+import { storage } from "./storage";
+
+async function until(condition: () => Promise<boolean>, timeoutMs = 5000) {
+  const started = Date.now();
+  while (!(await condition())) {
+    if (Date.now() - started > timeoutMs) assert.fail("timed out");
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+const stored = async (attempt: GpuTuningAttempt) => (await storage.getGpuTuningAttempt(attempt.id))!;
+const reaches = (attempt: GpuTuningAttempt, statuses: string[]) => until(async () => statuses.includes((await stored(attempt)).status));
+
+async function main() {
+  const script: MockGpuScript = JSON.parse(await fs.promises.readFile(path.resolve("server/fixtures/gpu/mock-agent.json"), "utf-8"));
+  const backend = new MockGpuBackend({ ...script, drift: 0 });
+  const agent = await serveGpuAgent(backend, { port: 0 });
+  const client = new GpuAgentClient(agent.url, agent.token);
+  const service = new GpuTuningService({ client, stepDelayMs: 100, watchIntervalMs: 250 });
+  const user = await storage.createUser({ username: "gpu_tuning_check", passwordHash: "hash" });
+  const settings = () => client.call("gpu.getSettings", { deviceId: "nvidia-0" });
+  const start = (overrides: object, confirmWindowSec = 10) => {
+    const request = startGpuTuningSchema.parse({ settings: overrides });
+    return service.start(user.id, "nvidia-0", { ...request, confirmWindowSec });
+  };
+  const started = async (overrides: object, confirmWindowSec?: number) => {
+    const result = await start(overrides, confirmWindowSec);
+    assert.ok(!("error" in result), "error" in result ? result.error : "");
+    return result.attempt;
+  };
+
+  try {
+    const { devices: [nvidia] } = await client.call("gpu.list");
+
+    // Raises are spread out and rounded to the control's step; the rest goes first
+    assert.deepEqual(planTuningSteps(nvidia,
+      { coreClockOffset: 0, memoryClockOffset: 0, powerLimit: 200, fanSpeed: null },
+      { coreClockOffset: 150, memoryClockOffset: -100, powerLimit: 220, fanSpeed: 70 }), [
+      { memoryClockOffset: -100, fanSpeed: 70, coreClockOffset: 50, powerLimit: 206 },
+      { coreClockOffset: 100, powerLimit: 213 },
+      { coreClockOffset: 150, powerLimit: 220 },
+    ]);
+    assert.deepEqual(planTuningSteps(nvidia, { powerLimit: 200 }, { powerLimit: 180 }), [{ powerLimit: 180 }]);
+    assert.equal(raisesClocksOrPower({ powerLimit: 200, fanSpeed: 40 }, { powerLimit: 180, fanSpeed: 90 }), false);
+    assert.equal(raisesClocksOrPower({ powerLimit: 200 }, { powerLimit: 210 }), true);
+    assert.equal(raisesClocksOrPower({ coreClockMin: 300 }, { coreClockMin: 2250 }), true);
+    assert.equal(raisesClocksOrPower({ performanceLevel: "auto" }, { performanceLevel: "high" }), true);
+    assert.equal(raisesClocksOrPower({}, { coreClockOffset: 0 }), true);
+    assert.throws(() => startGpuTuningSchema.parse({ settings: {} }));
+    assert.throws(() => startGpuTuningSchema.parse({ settings: { powerLimit: 200 }, confirmWindowSec: 600 }));
+
+    // Out of range: recorded, nothing applied
+    const refused = await start({ powerLimit: 500 });
+    assert.ok("error" in refused);
+    assert.equal(refused.status, 400);
+    assert.deepEqual(refused.details, { control: "powerLimit", min: 100, max: 220 });
+    assert.deepEqual([refused.attempt?.status, refused.attempt?.message], ["rejected", "powerLimit must be between 100 and 220 W"]);
+    assert.equal((await settings()).powerLimit, 200);
+    await assert.rejects(service.start(user.id, "missing-0", startGpuTuningSchema.parse({ settings: { powerLimit: 150 } })),
+      (error: any) => error.code === gpuAgentErrorCodes.deviceNotFound);
+
+    // Outside an attempt only writes that raise nothing may skip it
+    assert.equal(await service.refuseDirectWrite("nvidia-0", { powerLimit: 180, fanSpeed: 60 }), null);
+    assert.match(await service.refuseDirectWrite("nvidia-0", { powerLimit: 210 }) ?? "",
+      /guarded tuning attempt \(POST \/api\/gpu\/devices\/nvidia-0\/tuning\)/);
+    assert.notEqual(await service.refuseDirectWrite("amd-0", { performanceLevel: "high" }), null);
+
+    // Confirmed in time: the settings stay
+    const kept = await started({ coreClockOffset: 150, powerLimit: 210 });
+    assert.equal(kept.stepsTotal, 3);
+    assert.deepEqual(await start({ powerLimit: 150 }), { error: "A tuning attempt is already in progress on this GPU", status: 409 });
+    assert.deepEqual([service.isTuning("nvidia-0"), service.isTuning("amd-0")], [true, false]);
+    assert.equal(await service.refuseDirectWrite("nvidia-0", { fanSpeed: 50 }), GPU_TUNING_IN_PROGRESS);
+    assert.deepEqual(await service.confirm(kept), { error: "The settings are still being applied" });
+    await reaches(kept, ["confirming"]);
+    assert.equal((await stored(kept)).stepsApplied, 3);
+    assert.ok((await stored(kept)).confirmBy! > new Date());
+    const confirmed = await service.confirm(kept);
+    assert.ok("attempt" in confirmed);
+    assert.equal(confirmed.attempt.status, "confirmed");
+    assert.equal(service.isTuning("nvidia-0"), false);
+    assert.deepEqual(await service.decline(kept), { error: "Tuning attempt has already finished" });
+    assert.deepEqual(await settings(), { coreClockOffset: 150, memoryClockOffset: 0, powerLimit: 210, fanSpeed: null });
+
+    // Not confirmed: back to the last known-good settings
+    const unconfirmed = await started({ coreClockOffset: 200, fanSpeed: 80 }, 1);
+    await reaches(unconfirmed, ["confirming"]);
+    assert.equal((await settings()).coreClockOffset, 200);
+    await service.idle();
+    assert.deepEqual([(await stored(unconfirmed)).status, (await stored(unconfirmed)).revertReason], ["reverted", "timeout"]);
+    assert.deepEqual(await settings(), { coreClockOffset: 150, memoryClockOffset: 0, powerLimit: 210, fanSpeed: null });
+
+    const declined = await started({ powerLimit: 180 });
+    await reaches(declined, ["confirming"]);
+    const reverted = await service.decline(declined);
+    assert.ok("attempt" in reverted);
+    assert.deepEqual([reverted.attempt.status, reverted.attempt.revertReason], ["reverted", "declined"]);
+    assert.equal((await settings()).powerLimit, 210);
+
+    backend.fail({ method: "apply", code: gpuAgentErrorCodes.permissionDenied, message: "Needs root", times: 1 });
+    const denied = await started({ coreClockOffset: 100 });
+    await service.idle();
+    assert.deepEqual([(await stored(denied)).status, (await stored(denied)).revertReason, (await stored(denied)).message],
+      ["reverted", "applyFailed", "Step 1 of 1 failed: Needs root"]);
+
+    // A driver reset in the middle of the ramp stops it and restores the
+    // previous settings over the driver's defaults
+    const crashed = await started({ memoryClockOffset: 500 });
+    assert.equal(crashed.stepsTotal, 5);
+    await until(async () => (await stored(crashed)).stepsApplied >= 2);
+    backend.step({ deviceId: "nvidia-0", event: "driverReset", message: "Xid 79: GPU has fallen off the bus" });
+    await service.idle();
+    const afterReset = await stored(crashed);
+    assert.deepEqual([afterReset.status, afterReset.revertReason, afterReset.message],
+      ["reverted", "driverReset", "Xid 79: GPU has fallen off the bus"]);
+    assert.ok(afterReset.stepsApplied < 5);
+    assert.deepEqual(await settings(), { coreClockOffset: 150, memoryClockOffset: 0, powerLimit: 210, fanSpeed: null });
+
+    // Throttling seen in the telemetry counts as a thermal limit
+    const hot = await started({ coreClockOffset: 180 });
+    await reaches(hot, ["confirming"]);
+    backend.step({ deviceId: "nvidia-0", telemetry: { temperature: 91, throttleReasons: ["thermal"] } });
+    await service.idle();
+    assert.deepEqual([(await stored(hot)).revertReason, (await stored(hot)).message], ["thermalLimit", "Thermal throttling at 91°C"]);
+    assert.equal((await settings()).coreClockOffset, 150);
+    const throttling = await start({ coreClockOffset: 180 });
+    assert.ok("error" in throttling);
+    assert.deepEqual([throttling.status, throttling.attempt?.status], [409, "rejected"]);
+    backend.step({ deviceId: "nvidia-0", telemetry: { temperature: 62, throttleReasons: [] } });
+
+    const history = await storage.getGpuTuningAttempts(user.id);
+    assert.deepEqual(history.map(attempt => attempt.status),
+      ["rejected", "reverted", "reverted", "reverted", "reverted", "reverted", "confirmed", "rejected"]);
+
+    // An attempt a previous server left open is reverted on start
+    const stale = await storage.createGpuTuningAttempt({
+      userId: user.id,
+      deviceId: "nvidia-0",
+      deviceName: nvidia.name,
+      previous: { coreClockOffset: 0, memoryClockOffset: 0, powerLimit: 200, fanSpeed: null },
+      requested: { coreClockOffset: 150, powerLimit: 210 },
+      stepsTotal: 3,
+      stepsApplied: 3,
+      confirmWindowSec: 20,
+      status: "confirming",
+    });
+    await service.recover();
+    assert.deepEqual([(await stored(stale)).status, (await stored(stale)).revertReason], ["reverted", "interrupted"]);
+    assert.deepEqual(await settings(), { coreClockOffset: 0, memoryClockOffset: 0, powerLimit: 200, fanSpeed: null });
+  } finally {
+    await service.idle();
+    await agent.close();
+  }
+
+  // Restoring needs the agent
+  const orphan = await storage.createGpuTuningAttempt({
+    userId: user.id, deviceId: "nvidia-0", deviceName: "NVIDIA GeForce RTX 4070",
+    previous: { powerLimit: 200 }, requested: { powerLimit: 210 }, stepsTotal: 1, confirmWindowSec: 20, status: "applying",
+  });
+  await service.recover();
+  assert.equal((await stored(orphan)).status, "failed");
+  assert.match((await stored(orphan)).message ?? "", /^Could not restore the previous settings: GPU agent is not reachable/);
+  console.log("✓ gpu tuning");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,301 @@
+import {
+  GpuAgentError, gpuAgentErrorCodes, validateGpuSettings,
+  type GpuControl, type GpuDevice, type GpuSettings
+} from "@shared/gpuAgent";
+import {
+  gpuTuningStepLimits, raisesClocksOrPower, type GpuTuningRevertReason, type StartGpuTuningRequest
+} from "@shared/gpuTuning";
+import type { GpuTuningAttempt } from "@shared/schema";
+import { gpuAgent, gpuAgentFailure, type GpuAgentClient } from "./gpuAgent";
+import { storage } from "./storage";
+import { realtime } from "./realtime";
+import { wait } from "./backgroundRuns";
+
+const DEFAULT_STEP_DELAY_MS = 1500;
+const DEFAULT_WATCH_INTERVAL_MS = 1000;
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Splits a change into steps in which no control goes up by more than its
+// step limit. Decreases and controls without a limit, such as the fan or the
+// performance level, go in the first step. Values in between are rounded down
+// to the control's step; the last step is the requested value itself.
+export function planTuningSteps(device: GpuDevice, from: GpuSettings, to: GpuSettings): GpuSettings[] {
+  const first: Record<string, unknown> = {};
+  const ramps: Array<{ control: GpuControl; from: number; to: number; step: number; limit: number }> = [];
+  Object.entries(to).forEach(([key, target]) => {
+    if (target === undefined) return;
+    const current = from[key as keyof GpuSettings];
+    const limit = gpuTuningStepLimits[key as GpuControl];
+    if (limit && typeof current === "number" && typeof target === "number" && target - current > limit) {
+      const control = key as GpuControl;
+      ramps.push({ control, from: current, to: target, step: device.capabilities.controls[control]?.step || 1, limit });
+    } else {
+      first[key] = target;
+    }
+  });
+
+  const count = Math.max(1, ...ramps.map(ramp => Math.ceil((ramp.to - ramp.from) / ramp.limit)));
+  return Array.from({ length: count }, (_, index) => {
+    const settings: GpuSettings = index === 0 ? { ...first } : {};
+    ramps.forEach(ramp => {
+      settings[ramp.control] = index === count - 1
+        ? ramp.to
+        : ramp.from + Math.floor((ramp.to - ramp.from) * (index + 1) / count / ramp.step) * ramp.step;
+    });
+    return settings;
+  });
+}
+
+export const GPU_TUNING_IN_PROGRESS = "A tuning attempt is in progress on this GPU; keep or revert it first";
+
+export type StartGpuTuningResult =
+  | { attempt: GpuTuningAttempt }
+  | { error: string; status: number; details?: unknown; attempt?: GpuTuningAttempt };
+
+export interface GpuTuningServiceOptions {
+  client?: Pick<GpuAgentClient, "call" | "watch">;
+  // Pause between steps, so the watchdog sees the card run each one
+  stepDelayMs?: number;
+  watchIntervalMs?: number;
+}
+
+interface TuningRun {
+  attempt: GpuTuningAttempt;
+  controller: AbortController;
+  // Settles once no step or status change is being written
+  stepping: Promise<void>;
+  timer: NodeJS.Timeout | null;
+  // Set once the attempt is being confirmed or reverted
+  finishing: Promise<GpuTuningAttempt> | null;
+  done: Promise<void>;
+  finished: () => void;
+}
+
+// Applies GPU settings the guarded way, one attempt per GPU at a time: the
+// request is validated against the device's limits, applied in steps, and
+// reverted to what the GPU ran before unless the user confirms it within the
+// window. While an attempt is open, a driver reset or thermal limit from the
+// agent reverts it at once. Every attempt is stored and published on the
+// `gpu` topic.
+export class GpuTuningService {
+  private client: Pick<GpuAgentClient, "call" | "watch">;
+  private stepDelayMs: number;
+  private watchIntervalMs: number;
+  private runs = new Map<string, TuningRun>();
+  private starting = new Set<string>();
+  private stopWatching: (() => void) | null = null;
+
+  constructor(options: GpuTuningServiceOptions = {}) {
+    this.client = options.client ?? gpuAgent;
+    this.stepDelayMs = options.stepDelayMs ?? DEFAULT_STEP_DELAY_MS;
+    this.watchIntervalMs = options.watchIntervalMs ?? DEFAULT_WATCH_INTERVAL_MS;
+  }
+
+  // Agent errors before the attempt is stored, such as an unreachable agent
+  // or an unknown device, are thrown as GpuAgentError
+  async start(userId: string, deviceId: string, request: StartGpuTuningRequest): Promise<StartGpuTuningResult> {
+    if (this.starting.has(deviceId) || this.runFor(deviceId)) {
+      return { error: "A tuning attempt is already in progress on this GPU", status: 409 };
+    }
+    this.starting.add(deviceId);
+    try {
+      return await this.begin(userId, deviceId, request);
+    } finally {
+      this.starting.delete(deviceId);
+    }
+  }
+
+  // Whether an attempt is being started or is still open on the device
+  isTuning(deviceId: string): boolean {
+    return this.starting.has(deviceId) || !!this.runFor(deviceId);
+  }
+
+  // Why settings may not be written straight to the device: an open attempt
+  // would revert over them, and raising clocks or power is left to attempts
+  async refuseDirectWrite(deviceId: string, settings: GpuSettings): Promise<string | null> {
+    if (this.isTuning(deviceId)) return GPU_TUNING_IN_PROGRESS;
+    const current = await this.client.call("gpu.getSettings", { deviceId });
+    if (this.isTuning(deviceId)) return GPU_TUNING_IN_PROGRESS;
+    if (raisesClocksOrPower(current, settings)) {
+      return `Raising clocks or power needs a guarded tuning attempt (POST /api/gpu/devices/${deviceId}/tuning)`;
+    }
+    return null;
+  }
+
+  async confirm(attempt: GpuTuningAttempt): Promise<{ attempt: GpuTuningAttempt } | { error: string }> {
+    const run = this.runs.get(attempt.id);
+    if (!run || run.finishing) return { error: "Tuning attempt has already finished" };
+    if (run.attempt.status !== "confirming") return { error: "The settings are still being applied" };
+
+    if (run.timer) clearTimeout(run.timer);
+    run.finishing = this.update(run, { status: "confirmed", finishedAt: new Date() })
+      .then(() => run.attempt)
+      .finally(() => this.end(run));
+    return { attempt: await run.finishing };
+  }
+
+  async decline(attempt: GpuTuningAttempt): Promise<{ attempt: GpuTuningAttempt } | { error: string }> {
+    const run = this.runs.get(attempt.id);
+    if (!run || run.finishing) return { error: "Tuning attempt has already finished" };
+    return { attempt: await this.revert(run, "declined") };
+  }
+
+  // Nobody can confirm an attempt a previous run left open, so its settings go back
+  async recover(): Promise<void> {
+    const unfinished = await storage.getUnfinishedGpuTuningAttempts();
+    await Promise.all(unfinished.map(attempt => this.restore(attempt, "interrupted")));
+  }
+
+  // Resolves once every attempt started so far has been confirmed or reverted
+  async idle(): Promise<void> {
+    await Promise.all(Array.from(this.runs.values(), run => run.done));
+  }
+
+  private async begin(userId: string, deviceId: string, request: StartGpuTuningRequest): Promise<StartGpuTuningResult> {
+    const { devices } = await this.client.call("gpu.list");
+    const device = devices.find(d => d.id === deviceId);
+    if (!device) throw new GpuAgentError(gpuAgentErrorCodes.deviceNotFound, `No GPU with id ${deviceId}`, { deviceId });
+    const previous = await this.client.call("gpu.getSettings", { deviceId });
+    const telemetry = await this.client.call("gpu.getTelemetry", { deviceId });
+
+    const steps = planTuningSteps(device, previous, request.settings);
+    const values = {
+      userId,
+      deviceId,
+      deviceName: device.name,
+      previous,
+      requested: request.settings,
+      stepsTotal: steps.length,
+      confirmWindowSec: request.confirmWindowSec,
+    };
+
+    // A throttling card would trip the watchdog straight away
+    let refusal: { error: string; status: number; details?: unknown } | null = null;
+    const invalid = validateGpuSettings(device, request.settings);
+    if (invalid) {
+      refusal = { error: invalid.message, status: gpuAgentFailure(invalid)!.status, details: invalid.data };
+    } else if (telemetry.throttleReasons.includes("thermal")) {
+      refusal = { error: `${device.name} is already thermal throttling; let it cool down first`, status: 409 };
+    }
+    if (refusal) {
+      const attempt = await storage.createGpuTuningAttempt({ ...values, status: "rejected", message: refusal.error, finishedAt: new Date() });
+      this.publish(attempt);
+      return { ...refusal, attempt };
+    }
+
+    const attempt = await storage.createGpuTuningAttempt(values);
+    let finished: () => void = () => undefined;
+    const run: TuningRun = {
+      attempt,
+      controller: new AbortController(),
+      stepping: Promise.resolve(),
+      timer: null,
+      finishing: null,
+      done: new Promise<void>(resolve => (finished = resolve)),
+      finished: () => finished(),
+    };
+    this.runs.set(attempt.id, run);
+    this.watch();
+    this.publish(attempt);
+
+    const applying = this.applySteps(run, steps);
+    run.stepping = applying.catch(() => undefined);
+    applying
+      .catch((error) => {
+        if (run.controller.signal.aborted) return;
+        return this.revert(run, "applyFailed", `Step ${run.attempt.stepsApplied + 1} of ${steps.length} failed: ${errorMessage(error)}`);
+      })
+      .catch(error => console.error("GPU tuning revert failed:", error));
+    return { attempt };
+  }
+
+  private async applySteps(run: TuningRun, steps: GpuSettings[]) {
+    const { signal } = run.controller;
+    for (let index = 0; index < steps.length; index++) {
+      if (index > 0) await wait(this.stepDelayMs, signal);
+      if (signal.aborted) return;
+      await this.client.call("gpu.setSettings", { deviceId: run.attempt.deviceId, settings: steps[index] });
+      await this.update(run, { stepsApplied: index + 1 });
+    }
+    if (signal.aborted) return;
+
+    const windowMs = run.attempt.confirmWindowSec * 1000;
+    await this.update(run, { status: "confirming", confirmBy: new Date(Date.now() + windowMs) });
+    if (signal.aborted) return;
+    run.timer = setTimeout(() => {
+      this.revert(run, "timeout").catch(error => console.error("GPU tuning revert failed:", error));
+    }, windowMs);
+  }
+
+  // Single-flight: stops the steps and the confirmation timer, then waits for
+  // the step being written before putting the previous settings back
+  private revert(run: TuningRun, reason: GpuTuningRevertReason, message?: string): Promise<GpuTuningAttempt> {
+    if (!run.finishing) {
+      run.controller.abort();
+      if (run.timer) clearTimeout(run.timer);
+      run.finishing = run.stepping
+        .then(() => this.restore(run.attempt, reason, message))
+        .then(attempt => (run.attempt = attempt))
+        .finally(() => this.end(run));
+    }
+    return run.finishing;
+  }
+
+  private async restore(attempt: GpuTuningAttempt, reason: GpuTuningRevertReason, message?: string): Promise<GpuTuningAttempt> {
+    let updates: Partial<GpuTuningAttempt>;
+    try {
+      await this.client.call("gpu.setSettings", { deviceId: attempt.deviceId, settings: attempt.previous });
+      updates = { status: "reverted", message: message ?? null };
+    } catch (error) {
+      updates = { status: "failed", message: `Could not restore the previous settings: ${errorMessage(error)}` };
+    }
+    const finished = await storage.updateGpuTuningAttempt(attempt.id, { ...updates, revertReason: reason, finishedAt: new Date() });
+    this.publish(finished ?? attempt);
+    return finished ?? attempt;
+  }
+
+  // The watchdog runs while any attempt is open
+  private watch() {
+    if (this.stopWatching) return;
+    this.stopWatching = this.client.watch({
+      onTelemetry: samples => samples.forEach((sample) => {
+        if (!sample.throttleReasons.includes("thermal")) return;
+        this.trip(sample.deviceId, "thermalLimit",
+          sample.temperature === null ? "Thermal throttling" : `Thermal throttling at ${Math.round(sample.temperature)}°C`);
+      }),
+      onEvent: (event) => {
+        if (event.event === "driverReset" || event.event === "thermalLimit") this.trip(event.deviceId, event.event, event.message);
+      },
+    }, this.watchIntervalMs);
+  }
+
+  private trip(deviceId: string, reason: GpuTuningRevertReason, message: string) {
+    const run = this.runFor(deviceId);
+    if (run && !run.finishing) this.revert(run, reason, message).catch(error => console.error("GPU tuning revert failed:", error));
+  }
+
+  private end(run: TuningRun) {
+    this.runs.delete(run.attempt.id);
+    run.finished();
+    if (!this.runs.size) {
+      this.stopWatching?.();
+      this.stopWatching = null;
+    }
+  }
+
+  private runFor(deviceId: string): TuningRun | undefined {
+    return Array.from(this.runs.values()).find(run => run.attempt.deviceId === deviceId);
+  }
+
+  private async update(run: TuningRun, updates: Partial<GpuTuningAttempt>) {
+    run.attempt = await storage.updateGpuTuningAttempt(run.attempt.id, updates) ?? run.attempt;
+    this.publish(run.attempt);
+  }
+
+  private publish(attempt: GpuTuningAttempt) {
+    realtime.publish(attempt.userId, "gpu", "gpuTuning", attempt);
+  }
+}
+
+export const gpuTuning = new GpuTuningService();
@@ -0,0 +1,42 @@
+import type { GpuInfo, HardwareInfo } from "@shared/hardware";
+import { pciGpuVendors } from "@shared/hardware";
+import { hostFs, type HostFs } from "./hostFs";
+import { parseMeminfo } from "./telemetry";
+
+export function parseCpuinfo(text: string): { model: string | null; threads: number } {
+  const lines = text.split("\n");
+  const model = lines.find(line => /^model name\s*:/.test(line))?.split(":")[1].trim() ?? null;
+  const threads = lines.filter(line => /^processor\s*:/.test(line)).length;
+  return { model, threads };
+}
+
+// DRM cards are "card0", "card1"; "card0-DP-1" and the like are their connectors
+export async function readGpus(fs: HostFs): Promise<GpuInfo[]> {
+  const cards = (await fs.readDir("/sys/class/drm")).filter(name => /^card\d+$/.test(name));
+
+  return Promise.all(cards.map(async card => {
+    const [vendorId, uevent] = await Promise.all([
+      fs.readFile(`/sys/class/drm/${card}/device/vendor`),
+      fs.readFile(`/sys/class/drm/${card}/device/uevent`),
+    ]);
+    const driver = uevent?.match(/^DRIVER=(.+)$/m)?.[1] ?? null;
+    return { card, vendor: (vendorId && pciGpuVendors[vendorId]) || "unknown", driver };
+  }));
+}
+
+export async function readHardwareInfo(fs: HostFs = hostFs): Promise<HardwareInfo> {
+  const [cpuText, memText, gpus] = await Promise.all([
+    fs.readFile("/proc/cpuinfo"),
+    fs.readFile("/proc/meminfo"),
+    readGpus(fs),
+  ]);
+  const cpu = cpuText ? parseCpuinfo(cpuText) : null;
+  const mem = memText ? parseMeminfo(memText) : null;
+
+  return {
+    cpuModel: cpu?.model ?? null,
+    cpuThreads: cpu?.threads || null,
+    memoryGb: mem ? Math.round(mem.totalKb / 1024 / 1024) : null,
+    gpus,
+  };
+}
@@ -0,0 +1,46 @@
+import fs from "fs";
+import path from "path";
+
+// Read access to /proc and /sys. Paths are written as on the real host
+// ("/proc/stat") and resolved under `root`, so a fixture directory laid out
+// like the host filesystem can stand in for it.
+export interface HostFs {
+  readonly root: string;
+  // Trimmed file contents, or null when the file is missing or unreadable
+  readFile(filePath: string): Promise<string | null>;
+  // Entry names, or an empty list when the directory is missing
+  readDir(dirPath: string): Promise<string[]>;
+  // Symlink target, such as /proc/<pid>/exe, or null when it cannot be read
+  readLink(linkPath: string): Promise<string | null>;
+}
+
+export function createHostFs(root = "/"): HostFs {
+  const resolve = (p: string) => path.join(root, p);
+
+  return {
+    root,
+    async readFile(filePath) {
+      try {
+        return (await fs.promises.readFile(resolve(filePath), "utf-8")).trim();
+      } catch {
+        return null;
+      }
+    },
+    async readDir(dirPath) {
+      try {
+        return (await fs.promises.readdir(resolve(dirPath))).sort();
+      } catch {
+        return [];
+      }
+    },
+    async readLink(linkPath) {
+      try {
+        return await fs.promises.readlink(resolve(linkPath));
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+export const hostFs = createHostFs(process.env.HOST_FS_ROOT || "/");
@@ -0,0 +1,37 @@
+// GPU control agent for the machine it runs on. It reads and tunes the GPUs
+// through their Linux drivers, so it needs root (or sudoers rules for tee and
+// nvidia-smi) to change settings; reading works as any user, except for
+// intel_gpu_top and RAPL energy on newer kernels. NVIDIA clock offsets also
+// need the user's X display (DISPLAY) with Coolbits enabled. Point the server
+// at it with GPU_AGENT_URL, and set the same GPU_AGENT_TOKEN on both sides;
+// without one the agent makes up a token and prints it.
+//
+//   npm run gpu-agent -- [port] [host]
+import { GPU_AGENT_DEFAULT_PORT } from "@shared/gpuAgent";
+import { combineGpuBackends, serveGpuAgent } from "./gpuAgentServer";
+import { AmdGpuBackend } from "./amdGpu";
+import { IntelGpuBackend } from "./intelGpu";
+import { NvidiaGpuBackend } from "./nvidiaGpu";
+
+const port = Number(process.argv[2] ?? GPU_AGENT_DEFAULT_PORT);
+const host = process.argv[3];
+
+async function main() {
+  if (process.platform !== "linux") throw new Error("The GPU agent reads Linux driver interfaces");
+  const backend = combineGpuBackends([new NvidiaGpuBackend(), new AmdGpuBackend(), new IntelGpuBackend()]);
+  const devices = await backend.devices();
+  const agent = await serveGpuAgent(backend, { port, host, token: process.env.GPU_AGENT_TOKEN });
+  console.log(`🎮 GPU agent on ${agent.url}: ${devices.map(device => device.name).join(", ") || "no supported GPU found"}`);
+  if (!process.env.GPU_AGENT_TOKEN) console.log(`   Start the server with GPU_AGENT_TOKEN=${agent.token}`);
+
+  const shutdown = () => {
+    agent.close().then(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error("Could not start the GPU agent:", error);
+  process.exit(1);
+});
@@ -2,6 +2,16 @@ import express from "express";
 import cors from "cors";
 import compression from "compression";
 import routes from "./routes";
+import { initStorage } from "./storage";
+import { realtime } from "./realtime";
+import { startHostTelemetry, stopHostTelemetry } from "./telemetry";
+import { startGameWatcher, stopGameWatcher } from "./gameWatcher";
+import { jobEngine } from "./jobs";
+import { probeService } from "./latencyProbes";
+import { startUdpEchoResponder, udpTestService } from "./udpTest";
+import { gpuTuning } from "./gpuTuning";
+import { startStatsMaintenance, stopStatsMaintenance } from "./statsHistory";
+import { startGpuTelemetry, stopGpuTelemetry } from "./gpuAgent";
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -56,21 +66,54 @@ app.use("*", (req, res) => {
   res.status(404).json({ error: "Endpoint not found" });
 });
 
-// Start server
-app.listen(PORT, () => {
-  console.log(`🚀 Server running on port ${PORT}`);
-  console.log(`📊 Health check: http://localhost:${PORT}/health`);
-  console.log(`🔐 API endpoints: http://localhost:${PORT}/api`);
-  console.log(`🌍 Environment: ${process.env.NODE_ENV || "development"}`);
-});
+// Start server once storage is migrated and seeded
+initStorage()
+  .then(() => {
+    startStatsMaintenance();
+    jobEngine.recover().catch((error) => console.error("Job recovery failed:", error));
+    probeService.recover().catch((error) => console.error("Probe recovery failed:", error));
+    udpTestService.recover().catch((error) => console.error("UDP test recovery failed:", error));
+    gpuTuning.recover().catch((error) => console.error("GPU tuning recovery failed:", error));
+    const server = app.listen(PORT, () => {
+      console.log(`🚀 Server running on port ${PORT}`);
+      console.log(`📊 Health check: http://localhost:${PORT}/health`);
+      console.log(`🔐 API endpoints: http://localhost:${PORT}/api`);
+      console.log(`📡 Live telemetry: ws://localhost:${PORT}/ws`);
+      console.log(`🌍 Environment: ${process.env.NODE_ENV || "development"}`);
+    });
+    realtime.attach(server);
+    startHostTelemetry();
+    startGameWatcher();
+    startGpuTelemetry();
+    // Lets the UDP test measure this host, or be run against it from elsewhere
+    if (process.env.UDP_ECHO_PORT) {
+      startUdpEchoResponder(Number(process.env.UDP_ECHO_PORT))
+        .then((responder) => console.log(`📶 UDP echo responder: udp://0.0.0.0:${responder.port}`))
+        .catch((error) => console.error("UDP echo responder failed:", error));
+    }
+  })
+  .catch((error) => {
+    console.error("Failed to start server:", error);
+    process.exit(1);
+  });
 
 // Graceful shutdown
 process.on("SIGTERM", () => {
   console.log("SIGTERM received, shutting down gracefully");
+  stopHostTelemetry();
+  stopGameWatcher();
+  stopGpuTelemetry();
+  stopStatsMaintenance();
+  realtime.close();
   process.exit(0);
 });
 
 process.on("SIGINT", () => {
   console.log("SIGINT received, shutting down gracefully");
+  stopHostTelemetry();
+  stopGameWatcher();
+  stopGpuTelemetry();
+  stopStatsMaintenance();
+  realtime.close();
   process.exit(0);
 });
@@ -0,0 +1,169 @@
+// Runs the Intel backend against a copy of a recorded sysfs tree
+// (server/fixtures/gpu/intel) with an i915 Iris Xe and an xe Arc A750, and
+// a recorded `intel_gpu_top -J` run: discovery, telemetry with RAPL and
+// hwmon energy, throttle reasons, the power profiles as frequency limits and
+// the order the driver needs them written in.
+//
+//   npm run gpu-intel:check
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { GpuAgentError, gpuAgentErrorCodes, validateGpuSettings } from "@shared/gpuAgent";
+import { intelProfileSettings } from "@shared/gpuPresets";
+import type { SysfsWriter } from "./amdGpu";
+import { createHostFs } from "./hostFs";
+import { IntelGpuBackend, lookupPciName, parseIntelGpuTop, type IntelGpuTop } from "./intelGpu";
+
+const gpuTopOutput = fs.readFileSync(path.resolve("server/fixtures/gpu/intel_gpu_top.json"), "utf-8");
+
+async function agentError(promise: Promise<unknown>): Promise<GpuAgentError> {
+  try {
+    await promise;
+  } catch (error) {
+    assert.ok(error instanceof GpuAgentError, String(error));
+    return error;
+  }
+  assert.fail("call did not fail");
+}
+
+function checkParsers() {
+  // The run was stopped in the middle of its third sample
+  const samples = parseIntelGpuTop(gpuTopOutput);
+  assert.equal(samples.length, 2);
+  assert.deepEqual(samples[1], {
+    actualMhz: 1250,
+    requestedMhz: 1300,
+    rc6: 38.117402,
+    gpuWatts: 5.104983,
+    packageWatts: 18.021557,
+    engines: { "Render/3D": 56.804431, Blitter: 1.2, Video: 3.1, VideoEnhance: 0 },
+  });
+  assert.deepEqual(parseIntelGpuTop(""), []);
+  assert.deepEqual(parseIntelGpuTop("[\n{\"engines\": {\"Render/3D\": {\"busy\": \"n/a\"}}, \"name\": \"{\\\"}\"}"), [
+    { actualMhz: null, requestedMhz: null, rc6: null, gpuWatts: null, packageWatts: null, engines: {} },
+  ]);
+  // Fields of the wrong shape read as missing
+  assert.deepEqual(parseIntelGpuTop("{\"engines\": [{\"busy\": 5}], \"frequency\": null, \"power\": \"5 W\", \"rc6\": {\"value\": 12}}"), [
+    { actualMhz: null, requestedMhz: null, rc6: 12, gpuWatts: null, packageWatts: null, engines: {} },
+  ]);
+
+  const pciIds = "8086  Intel Corporation\n\t56a1  DG2 [Arc A750]\n\ta7a0  Raptor Lake-P [Iris Xe Graphics]\n8087  Intel Corporation\n\t56a1  Other\n";
+  assert.equal(lookupPciName(pciIds, "8086", "56A1"), "Arc A750");
+  assert.equal(lookupPciName(pciIds, "8086", "9a49"), null);
+}
+
+async function main() {
+  checkParsers();
+
+  const root = await fs.promises.mkdtemp(path.join(os.tmpdir(), "nexus-intel-gpu-"));
+  const hostPath = (p: string) => path.join(root, p);
+  try {
+    await fs.promises.cp(path.resolve("server/fixtures/gpu/intel"), root, { recursive: true });
+
+    // Refuses a minimum above the maximum and the other way round, as i915 does
+    let refuse = false;
+    const writes: string[] = [];
+    const write: SysfsWriter = async (file, value) => {
+      if (refuse) throw new Error("tee: EACCES: permission denied");
+      const name = path.basename(file);
+      const sibling = (from: string, to: string) => fs.promises.readFile(file.replace(from, to), "utf-8").then(Number);
+      if (name === "gt_min_freq_mhz" && Number(value) > await sibling("gt_min", "gt_max")) throw new Error("write error: Invalid argument");
+      if (name === "gt_max_freq_mhz" && Number(value) < await sibling("gt_max", "gt_min")) throw new Error("write error: Invalid argument");
+      writes.push(`${name}=${value}`);
+      await fs.promises.writeFile(file, `${value}\n`);
+    };
+    const gpuTop: IntelGpuTop = {
+      sample: async (card) => {
+        if (card !== "card0") throw new Error("intel_gpu_top: No device filter matched");
+        return gpuTopOutput;
+      },
+    };
+    let now = 10_000;
+    const backend = new IntelGpuBackend(createHostFs(root), write, gpuTop, () => now);
+
+    const [iris, arc, ...others] = await backend.devices();
+    assert.equal(others.length, 0);
+    assert.deepEqual([iris.id, iris.name, iris.driver, iris.driverVersion], ["intel-card0", "Intel Iris Xe Graphics", "i915", "6.8.0-45-generic"]);
+    assert.deepEqual(iris.capabilities.controls, {
+      coreClockMin: { min: 100, max: 1500, step: 50, default: 100 },
+      coreClockMax: { min: 100, max: 1500, step: 50, default: 1500 },
+      coreClockBoost: { min: 100, max: 1500, step: 50, default: 1500 },
+    });
+    // xe has no boost frequency
+    assert.deepEqual([arc.id, arc.name, arc.driver], ["intel-card1", "Intel Arc A750", "xe"]);
+    assert.deepEqual(Object.keys(arc.capabilities.controls), ["coreClockMin", "coreClockMax"]);
+
+    // The first read has no energy to compare with, so integrated power comes from intel_gpu_top
+    const first = await backend.telemetry(iris);
+    assert.deepEqual({ ...first, timestamp: 0 }, {
+      deviceId: "intel-card0",
+      timestamp: 0,
+      temperature: null,
+      usage: 56.8,
+      coreClock: 1250,
+      memoryClock: null,
+      vramUsed: null,
+      vramTotal: null,
+      powerDraw: 18,
+      powerLimit: 28,
+      fanSpeed: null,
+      fanRpm: null,
+      performanceState: null,
+      throttleReasons: [],
+    });
+    const arcFirst = await backend.telemetry(arc);
+    assert.deepEqual([arcFirst.usage, arcFirst.coreClock, arcFirst.powerDraw, arcFirst.powerLimit, arcFirst.temperature],
+      [null, 2050, null, 190, 54]);
+    assert.deepEqual(arcFirst.throttleReasons, ["power"]);
+
+    // 30 J of package energy and 170 J of card energy in two seconds
+    now += 2000;
+    await fs.promises.writeFile(hostPath("/sys/class/powercap/intel-rapl:0/energy_uj"), "48243300000\n");
+    await fs.promises.writeFile(hostPath("/sys/class/drm/card1/device/hwmon/hwmon5/energy1_input"), "1374800000\n");
+    assert.equal((await backend.telemetry(iris)).powerDraw, 15);
+    assert.equal((await backend.telemetry(arc)).powerDraw, 85);
+
+    assert.deepEqual(await backend.settings(iris), { coreClockMin: 100, coreClockMax: 1500, coreClockBoost: 1500 });
+    assert.deepEqual(await backend.settings(arc), { coreClockMin: 300, coreClockMax: 2400 });
+
+    // Power saver caps the ceiling halfway; performance then raises the floor
+    // above that ceiling, so the ceiling has to go up first
+    assert.deepEqual(await backend.apply(iris, intelProfileSettings("power-saver", iris)),
+      { coreClockMin: 100, coreClockMax: 800, coreClockBoost: 800 });
+    writes.length = 0;
+    assert.deepEqual(await backend.apply(iris, intelProfileSettings("performance", iris)),
+      { coreClockMin: 1500, coreClockMax: 1500, coreClockBoost: 1500 });
+    assert.deepEqual(writes, ["gt_max_freq_mhz=1500", "gt_min_freq_mhz=1500", "gt_boost_freq_mhz=1500"]);
+    writes.length = 0;
+    assert.deepEqual(await backend.apply(iris, intelProfileSettings("balanced", iris)),
+      { coreClockMin: 100, coreClockMax: 1500, coreClockBoost: 1500 });
+    assert.deepEqual(writes, ["gt_min_freq_mhz=100", "gt_max_freq_mhz=1500", "gt_boost_freq_mhz=1500"]);
+
+    assert.deepEqual(await backend.apply(arc, intelProfileSettings("power-saver", arc)), { coreClockMin: 300, coreClockMax: 1350 });
+    assert.deepEqual(await backend.reset(arc), { coreClockMin: 300, coreClockMax: 2400 });
+
+    assert.equal((await agentError(backend.apply(iris, { coreClockMin: 1200, coreClockMax: 1000 }))).code, gpuAgentErrorCodes.invalidParams);
+    assert.deepEqual(validateGpuSettings(arc, { coreClockMax: 2600 })?.data, { control: "coreClockMax", min: 300, max: 2400 });
+    assert.equal(validateGpuSettings(arc, { coreClockBoost: 2400 })?.code, gpuAgentErrorCodes.unsupported);
+    refuse = true;
+    assert.equal((await agentError(backend.apply(iris, { coreClockMax: 1400 }))).code, gpuAgentErrorCodes.permissionDenied);
+    refuse = false;
+
+    // A throttled GT lists each active reason once
+    await fs.promises.writeFile(hostPath("/sys/class/drm/card0/gt/gt0/throttle_reason_status"), "1\n");
+    await fs.promises.writeFile(hostPath("/sys/class/drm/card0/gt/gt0/throttle_reason_thermal"), "1\n");
+    await fs.promises.writeFile(hostPath("/sys/class/drm/card0/gt/gt0/throttle_reason_prochot"), "1\n");
+    assert.deepEqual((await backend.telemetry(iris)).throttleReasons, ["thermal"]);
+
+    assert.equal((await agentError(backend.settings({ ...iris, id: "intel-card5" }))).code, gpuAgentErrorCodes.deviceNotFound);
+  } finally {
+    await fs.promises.rm(root, { recursive: true, force: true });
+  }
+  console.log("✓ intel gpu backend");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,402 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import path from "path";
+import {
+  GpuAgentError, gpuAgentErrorCodes,
+  type GpuCapabilities, type GpuDevice, type GpuSettings, type GpuTelemetry
+} from "@shared/gpuAgent";
+import { hostFs, type HostFs } from "./hostFs";
+import { writePrivilegedAttribute } from "./privileged";
+import type { SysfsWriter } from "./amdGpu";
+import type { GpuBackend } from "./gpuAgentServer";
+
+const execFileAsync = promisify(execFile);
+
+const INTEL_VENDOR_ID = "0x8086";
+// The driver rounds requests to its own frequency units; the panels move in 50 MHz steps
+const FREQUENCY_STEP = 50;
+// How long one intel_gpu_top run samples engine busyness
+const GPU_TOP_RUN_MS = 800;
+const GPU_TOP_PERIOD_MS = 250;
+const PCI_IDS_FILES = ["/usr/share/hwdata/pci.ids", "/usr/share/misc/pci.ids"];
+
+// Throttle reason files as the reasons the rest of the app knows
+const THROTTLE_REASONS: Record<string, string> = {
+  pl1: "power",
+  pl2: "power",
+  pl4: "power",
+  vr_tdc: "power",
+  thermal: "thermal",
+  prochot: "thermal",
+  ratl: "thermal",
+  vr_thermalert: "thermal",
+};
+
+// Frequency files of the two drivers. i915 keeps them on the card, xe per GT
+// of the first tile, and only i915 has a separate boost frequency.
+interface FrequencyFiles {
+  actual: string;
+  requested: string;
+  min: string;
+  max: string;
+  boost: string | null;
+  hardwareMin: string;
+  hardwareMax: string;
+  // Whether the GT is throttled, and the file of each reason by its name
+  throttle: { status: string; reason: (name: string) => string };
+}
+
+function frequencyFiles(driver: "i915" | "xe", card: string): FrequencyFiles {
+  if (driver === "i915") {
+    const dir = `/sys/class/drm/${card}`;
+    return {
+      actual: `${dir}/gt_act_freq_mhz`,
+      requested: `${dir}/gt_cur_freq_mhz`,
+      min: `${dir}/gt_min_freq_mhz`,
+      max: `${dir}/gt_max_freq_mhz`,
+      boost: `${dir}/gt_boost_freq_mhz`,
+      hardwareMin: `${dir}/gt_RPn_freq_mhz`,
+      hardwareMax: `${dir}/gt_RP0_freq_mhz`,
+      throttle: { status: `${dir}/gt/gt0/throttle_reason_status`, reason: name => `${dir}/gt/gt0/throttle_reason_${name}` },
+    };
+  }
+  const dir = `/sys/class/drm/${card}/device/tile0/gt0/freq0`;
+  return {
+    actual: `${dir}/act_freq`,
+    requested: `${dir}/cur_freq`,
+    min: `${dir}/min_freq`,
+    max: `${dir}/max_freq`,
+    boost: null,
+    hardwareMin: `${dir}/rpn_freq`,
+    hardwareMax: `${dir}/rp0_freq`,
+    throttle: { status: `${dir}/throttle/status`, reason: name => `${dir}/throttle/reason_${name}` },
+  };
+}
+
+export interface IntelGpuTopSample {
+  actualMhz: number | null;
+  requestedMhz: number | null;
+  rc6: number | null;
+  gpuWatts: number | null;
+  packageWatts: number | null;
+  // Engine name ("Render/3D", "Video", ...) to busy percent
+  engines: Record<string, number>;
+}
+
+// Narrowing for the parsed intel_gpu_top output, whose fields vary between
+// versions and may be missing
+const numberOrNull = (raw: unknown) => (typeof raw === "number" && Number.isFinite(raw) ? raw : null);
+const record = (raw: unknown): Record<string, unknown> =>
+  (typeof raw === "object" && raw !== null && !Array.isArray(raw) ? raw as Record<string, unknown> : {});
+const field = (raw: unknown, key: string): unknown => record(raw)[key];
+
+// `intel_gpu_top -J` prints one JSON object per period inside an array it
+// only closes on a clean exit, so the objects are cut out one by one and a
+// sample that was interrupted is dropped
+export function parseIntelGpuTop(text: string): IntelGpuTopSample[] {
+  const objects: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === "\\") i++;
+      else if (char === "\"") inString = false;
+    } else if (char === "\"") {
+      inString = true;
+    } else if (char === "{") {
+      if (depth++ === 0) start = i;
+    } else if (char === "}" && depth > 0 && --depth === 0) {
+      objects.push(text.slice(start, i + 1));
+    }
+  }
+
+  return objects.flatMap(json => {
+    let sample: unknown;
+    try {
+      sample = JSON.parse(json);
+    } catch {
+      return [];
+    }
+    const engines: Record<string, number> = {};
+    Object.entries(record(field(sample, "engines"))).forEach(([name, engine]) => {
+      const busy = numberOrNull(field(engine, "busy"));
+      if (busy !== null) engines[name] = busy;
+    });
+    const frequency = field(sample, "frequency");
+    const power = field(sample, "power");
+    return [{
+      actualMhz: numberOrNull(field(frequency, "actual")),
+      requestedMhz: numberOrNull(field(frequency, "requested")),
+      rc6: numberOrNull(field(field(sample, "rc6"), "value")),
+      gpuWatts: numberOrNull(field(power, "GPU")),
+      packageWatts: numberOrNull(field(power, "Package")),
+      engines,
+    }];
+  });
+}
+
+// Marketing name from a pci.ids vendor section: "56a1  DG2 [Arc A750]" is "Arc A750"
+export function lookupPciName(pciIds: string, vendorId: string, deviceId: string): string | null {
+  let inVendor = false;
+  for (const line of pciIds.split("\n")) {
+    if (/^[0-9a-f]{4}\s/i.test(line)) {
+      inVendor = line.slice(0, 4).toLowerCase() === vendorId.toLowerCase();
+    } else if (inVendor && /^\t[0-9a-f]{4}\s/i.test(line) && line.slice(1, 5).toLowerCase() === deviceId.toLowerCase()) {
+      const name = line.slice(5).trim();
+      return name.match(/\[(.+)\]/)?.[1] ?? name;
+    }
+  }
+  return null;
+}
+
+// How intel_gpu_top is run; replaced in checks
+export interface IntelGpuTop {
+  // What it printed for the card until it was stopped
+  sample(card: string): Promise<string>;
+}
+
+// Runs intel_gpu_top for a moment and keeps its output; it needs root or
+// CAP_PERFMON, without which engine busyness is not available
+export const hostIntelGpuTop: IntelGpuTop = {
+  async sample(card) {
+    const args = ["-J", "-s", String(GPU_TOP_PERIOD_MS), "-d", `drm:/dev/dri/${card}`];
+    try {
+      return (await execFileAsync("intel_gpu_top", args, { timeout: GPU_TOP_RUN_MS })).stdout;
+    } catch (error) {
+      // Stopping it at the timeout is the normal way out
+      const stdout = (error as { stdout?: string }).stdout;
+      if ((error as { killed?: boolean }).killed && stdout) return stdout;
+      throw error;
+    }
+  },
+};
+
+interface IntelCard {
+  card: string;
+  driver: "i915" | "xe";
+  device: string; // /sys/class/drm/cardN/device
+  hwmon: string | null;
+  files: FrequencyFiles;
+}
+
+const number = (raw: string | null) => (raw === null || raw === "" || !Number.isFinite(Number(raw)) ? null : Number(raw));
+
+// Reads and sets the GT frequency limits of i915 and xe cards. Power comes
+// from the card's own energy counter on discrete cards and from RAPL package
+// energy on integrated ones, which share the package's budget; both need two
+// reads, so the first telemetry of a card has none unless intel_gpu_top
+// measured it.
+export class IntelGpuBackend implements GpuBackend {
+  private energy = new Map<string, { joules: number; at: number }>();
+  private pciNames: Promise<string | null> | null = null;
+
+  constructor(
+    private fs: HostFs = hostFs,
+    private write: SysfsWriter = writePrivilegedAttribute,
+    private gpuTop: IntelGpuTop = hostIntelGpuTop,
+    private now: () => number = Date.now,
+  ) {}
+
+  async devices(): Promise<GpuDevice[]> {
+    return Promise.all((await this.cards()).map(card => this.describe(card)));
+  }
+
+  async telemetry(device: GpuDevice): Promise<GpuTelemetry> {
+    const card = await this.card(device);
+    const { files } = card;
+    const read = (file: string) => this.fs.readFile(file);
+    const [actual, requested, top, power, temperature, throttleReasons] = await Promise.all([
+      read(files.actual),
+      read(files.requested),
+      this.gpuTop.sample(card.card).then(output => parseIntelGpuTop(output).pop() ?? null, () => null),
+      this.power(card),
+      this.temperature(card),
+      this.throttleReasons(files),
+    ]);
+    const busy = top ? Object.values(top.engines) : [];
+    const measured = card.hwmon ? top?.gpuWatts : top?.packageWatts;
+
+    return {
+      deviceId: device.id,
+      timestamp: this.now(),
+      temperature,
+      // The busiest engine, as intel_gpu_top shows it
+      usage: busy.length ? Math.round(Math.max(...busy) * 10) / 10 : null,
+      coreClock: number(actual) ?? number(requested) ?? top?.actualMhz ?? null,
+      // Integrated GPUs share system memory, and the drivers report no VRAM clock
+      memoryClock: null,
+      vramUsed: null,
+      vramTotal: null,
+      powerDraw: power.draw ?? (measured == null ? null : Math.round(measured * 10) / 10),
+      powerLimit: power.limit,
+      fanSpeed: null,
+      fanRpm: card.hwmon ? number(await read(`${card.hwmon}/fan1_input`)) : null,
+      performanceState: null,
+      throttleReasons,
+    };
+  }
+
+  async settings(device: GpuDevice): Promise<GpuSettings> {
+    const { files } = await this.card(device);
+    const [min, max, boost] = await Promise.all([
+      this.fs.readFile(files.min),
+      this.fs.readFile(files.max),
+      files.boost ? this.fs.readFile(files.boost) : null,
+    ]);
+    const settings: GpuSettings = {};
+    if (number(min) !== null) settings.coreClockMin = number(min)!;
+    if (number(max) !== null) settings.coreClockMax = number(max)!;
+    if (device.capabilities.controls.coreClockBoost && number(boost) !== null) settings.coreClockBoost = number(boost)!;
+    return settings;
+  }
+
+  async apply(device: GpuDevice, settings: GpuSettings): Promise<GpuSettings> {
+    const { files } = await this.card(device);
+    const current = await this.settings(device);
+    const min = settings.coreClockMin ?? current.coreClockMin;
+    const max = settings.coreClockMax ?? current.coreClockMax;
+    if (min != null && max != null && min > max) {
+      throw new GpuAgentError(gpuAgentErrorCodes.invalidParams, "The minimum frequency cannot be above the maximum", { control: "coreClockMin" });
+    }
+
+    // The driver refuses a minimum above the current maximum and the other
+    // way round, so the limit that makes room goes first
+    const writes: [string, number][] = [];
+    const raisingFloor = settings.coreClockMin != null && current.coreClockMax != null && settings.coreClockMin > current.coreClockMax;
+    if (settings.coreClockMax != null && raisingFloor) writes.push([files.max, settings.coreClockMax]);
+    if (settings.coreClockMin != null) writes.push([files.min, settings.coreClockMin]);
+    if (settings.coreClockMax != null && !raisingFloor) writes.push([files.max, settings.coreClockMax]);
+    if (settings.coreClockBoost != null && files.boost) writes.push([files.boost, settings.coreClockBoost]);
+
+    try {
+      for (const [file, mhz] of writes) await this.write(path.join(this.fs.root, file), String(Math.round(mhz)));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (/EACCES|EPERM|password is required|not allowed/i.test(message)) {
+        throw new GpuAgentError(gpuAgentErrorCodes.permissionDenied, "Changing GPU frequencies needs root or a sudoers rule for tee");
+      }
+      throw new GpuAgentError(gpuAgentErrorCodes.driverError, `${device.driver} refused the change: ${message}`);
+    }
+    return this.settings(device);
+  }
+
+  // The full hardware range, which is what the driver starts with
+  async reset(device: GpuDevice): Promise<GpuSettings> {
+    const defaults: GpuSettings = {};
+    Object.entries(device.capabilities.controls).forEach(([control, range]) => {
+      if (range.default !== null) (defaults as Record<string, number>)[control] = range.default;
+    });
+    return this.apply(device, defaults);
+  }
+
+  private async cards(): Promise<IntelCard[]> {
+    const names = (await this.fs.readDir("/sys/class/drm")).filter(name => /^card\d+$/.test(name));
+    const cards = await Promise.all(names.map(async (card): Promise<IntelCard | null> => {
+      const device = `/sys/class/drm/${card}/device`;
+      const [vendor, uevent] = await Promise.all([this.fs.readFile(`${device}/vendor`), this.fs.readFile(`${device}/uevent`)]);
+      const driver = uevent?.match(/^DRIVER=(i915|xe)$/m)?.[1] as IntelCard["driver"] | undefined;
+      if (vendor !== INTEL_VENDOR_ID || !driver) return null;
+      const hwmon = (await this.fs.readDir(`${device}/hwmon`)).find(name => name.startsWith("hwmon"));
+      return { card, driver, device, hwmon: hwmon ? `${device}/hwmon/${hwmon}` : null, files: frequencyFiles(driver, card) };
+    }));
+    return cards.filter((card): card is IntelCard => card !== null);
+  }
+
+  private async card(device: GpuDevice): Promise<IntelCard> {
+    const card = (await this.cards()).find(c => `intel-${c.card}` === device.id);
+    if (!card) throw new GpuAgentError(gpuAgentErrorCodes.deviceNotFound, `No GPU with id ${device.id}`, { deviceId: device.id });
+    return card;
+  }
+
+  private async describe(card: IntelCard): Promise<GpuDevice> {
+    const read = (file: string) => this.fs.readFile(file);
+    const [uevent, kernel, hardwareMin, hardwareMax] = await Promise.all([
+      read(`${card.device}/uevent`),
+      read("/proc/sys/kernel/osrelease"),
+      read(card.files.hardwareMin),
+      read(card.files.hardwareMax),
+    ]);
+
+    const controls: GpuCapabilities["controls"] = {};
+    const [low, high] = [number(hardwareMin), number(hardwareMax)];
+    if (low !== null && high !== null) {
+      controls.coreClockMin = { min: low, max: high, step: FREQUENCY_STEP, default: low };
+      controls.coreClockMax = { min: low, max: high, step: FREQUENCY_STEP, default: high };
+      if (card.files.boost) controls.coreClockBoost = { min: low, max: high, step: FREQUENCY_STEP, default: high };
+    }
+
+    const pciId = uevent?.match(/^PCI_ID=(\w+):(\w+)$/m);
+    const marketing = pciId ? await this.pciName(pciId[1], pciId[2]) : null;
+    return {
+      id: `intel-${card.card}`,
+      vendor: "intel",
+      name: marketing ? `Intel ${marketing}` : `Intel Graphics${pciId ? ` (${pciId[1]}:${pciId[2]})` : ""}`,
+      driver: card.driver,
+      // Both drivers ship with the kernel
+      driverVersion: kernel,
+      capabilities: { controls, performanceLevels: [] },
+    };
+  }
+
+  private async pciName(vendorId: string, deviceId: string) {
+    if (!this.pciNames) {
+      this.pciNames = (async () => {
+        for (const file of PCI_IDS_FILES) {
+          const text = await this.fs.readFile(file);
+          if (text) return text;
+        }
+        return null;
+      })();
+    }
+    const pciIds = await this.pciNames;
+    return pciIds ? lookupPciName(pciIds, vendorId, deviceId) : null;
+  }
+
+  // Watts from the change of a microjoule counter since the last read, and the sustained limit
+  private async power(card: IntelCard): Promise<{ draw: number | null; limit: number | null }> {
+    let counter: string | null = null;
+    let limit: string | null = null;
+    if (card.hwmon) {
+      counter = `${card.hwmon}/energy1_input`;
+      limit = await this.fs.readFile(`${card.hwmon}/power1_max`);
+    } else {
+      const zones = (await this.fs.readDir("/sys/class/powercap")).filter(name => /^intel-rapl:\d+$/.test(name));
+      for (const zone of zones) {
+        if (await this.fs.readFile(`/sys/class/powercap/${zone}/name`) === "package-0") {
+          counter = `/sys/class/powercap/${zone}/energy_uj`;
+          limit = await this.fs.readFile(`/sys/class/powercap/${zone}/constraint_0_power_limit_uw`);
+          break;
+        }
+      }
+    }
+
+    const limitWatts = number(limit) === null ? null : Math.round(number(limit)! / 1_000_000);
+    // Newer kernels keep energy_uj readable by root only
+    const microjoules = counter ? number(await this.fs.readFile(counter)) : null;
+    if (counter === null || microjoules === null) return { draw: null, limit: limitWatts };
+
+    const at = this.now();
+    const previous = this.energy.get(counter);
+    this.energy.set(counter, { joules: microjoules / 1_000_000, at });
+    // The counter wraps around; that interval has no reading
+    if (!previous || at <= previous.at || microjoules / 1_000_000 < previous.joules) return { draw: null, limit: limitWatts };
+    const watts = (microjoules / 1_000_000 - previous.joules) / ((at - previous.at) / 1000);
+    return { draw: Math.round(watts * 10) / 10, limit: limitWatts };
+  }
+
+  private async temperature(card: IntelCard): Promise<number | null> {
+    if (!card.hwmon) return null;
+    const input = (await this.fs.readDir(card.hwmon)).find(file => /^temp\d+_input$/.test(file));
+    const milli = input ? number(await this.fs.readFile(`${card.hwmon}/${input}`)) : null;
+    return milli === null ? null : milli / 1000;
+  }
+
+  private async throttleReasons({ throttle }: FrequencyFiles): Promise<string[]> {
+    if (await this.fs.readFile(throttle.status) !== "1") return [];
+    const reasons = await Promise.all(Object.entries(THROTTLE_REASONS).map(async ([name, reason]) =>
+      (await this.fs.readFile(throttle.reason(name))) === "1" ? reason : null));
+    return Array.from(new Set(reasons.filter((reason): reason is string => reason !== null)));
+  }
+}
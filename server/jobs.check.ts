@@ -0,0 +1,169 @@
+// Runs the job engine with hand-made tasks on MemStorage: ordering, progress,
+// results, failures, cancellation of queued and running jobs, and recovery
+// after a restart. Also checks process rule matching.
+//
+//   npm run jobs:check
+import assert from "node:assert/strict";
+import { z } from "zod";
+import { storage } from "./storage";
+import { JobEngine, type OptimizationTask } from "./jobs";
+import { builtInTasks, ruleMatches } from "./optimizationTasks";
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => (resolve = r));
+  return { promise, resolve };
+}
+
+async function checkEngine() {
+  const user = await storage.createUser({ username: "jobs_check", passwordHash: "hash" });
+  const order: string[] = [];
+  const gate = deferred();
+
+  const slow: OptimizationTask<{ files: number }> = {
+    id: "slow",
+    title: "Slow",
+    description: "Waits for the gate between its steps",
+    steps: ["Scanning", "Cleaning"],
+    params: z.object({ files: z.number().int().min(1) }),
+    async run(ctx, { files }) {
+      order.push("slow");
+      await ctx.step("Scanning", 0);
+      await gate.promise;
+      await ctx.step("Cleaning", 50);
+      return { summary: `Removed ${files} files`, bytesFreed: files * 1024, itemsChanged: files };
+    },
+  };
+  const quick: OptimizationTask = {
+    id: "quick",
+    title: "Quick",
+    description: "Finishes at once",
+    steps: [],
+    async run() {
+      order.push("quick");
+      return { summary: "Done" };
+    },
+  };
+  const broken: OptimizationTask = {
+    id: "broken",
+    title: "Broken",
+    description: "Always fails",
+    steps: [],
+    async run() {
+      throw new Error("Disk on fire");
+    },
+  };
+  const windowsOnly: OptimizationTask = {
+    id: "registry",
+    title: "Registry",
+    description: "Not here",
+    steps: [],
+    unavailableReason: async () => "Only available on Windows",
+    async run() {
+      return { summary: "unreachable" };
+    },
+  };
+  const engine = new JobEngine([slow, quick, broken, windowsOnly]);
+
+  assert.deepEqual(await engine.enqueue(user.id, "nope", undefined), { error: "Unknown optimization task: nope", status: 404 });
+  assert.deepEqual(await engine.enqueue(user.id, "registry", undefined), { error: "Only available on Windows", status: 409 });
+  const invalid = await engine.enqueue(user.id, "slow", { files: 0 });
+  assert.ok("error" in invalid && invalid.status === 400);
+  assert.equal((await engine.listTasks()).find(t => t.id === "registry")?.unavailableReason, "Only available on Windows");
+
+  // Jobs run one at a time in request order
+  const first = await engine.enqueue(user.id, "slow", { files: 3 });
+  const second = await engine.enqueue(user.id, "quick", { ignored: true });
+  const third = await engine.enqueue(user.id, "quick", undefined);
+  assert.ok("job" in first && "job" in second && "job" in third);
+  await new Promise(resolve => setImmediate(resolve));
+  const running = await storage.getOptimizationJob(first.job.id);
+  assert.equal(running?.status, "running");
+  assert.equal(running?.step, "Scanning");
+  assert.equal((await storage.getOptimizationJob(second.job.id))?.status, "queued");
+
+  // A queued job is cancelled without running
+  const cancelled = await engine.cancel(second.job);
+  assert.ok("job" in cancelled && cancelled.job.status === "cancelled");
+
+  gate.resolve();
+  await engine.idle();
+  assert.deepEqual(order, ["slow", "quick"]);
+  const done = await storage.getOptimizationJob(first.job.id);
+  assert.equal(done?.status, "succeeded");
+  assert.equal(done?.progress, 100);
+  assert.deepEqual(done?.result, { summary: "Removed 3 files", bytesFreed: 3072, itemsChanged: 3 });
+  assert.deepEqual(await engine.cancel(done!), { error: "Job has already finished" });
+
+  // Failures keep the task's message; the pause keeps history order unambiguous
+  await new Promise(resolve => setTimeout(resolve, 5));
+  const failing = await engine.enqueue(user.id, "broken", undefined);
+  await engine.idle();
+  assert.ok("job" in failing);
+  const failed = await storage.getOptimizationJob(failing.job.id);
+  assert.equal(failed?.status, "failed");
+  assert.equal(failed?.error, "Disk on fire");
+
+  // A running job stops at its next step
+  const gate2 = deferred();
+  const stepper: OptimizationTask = {
+    id: "stepper",
+    title: "Stepper",
+    description: "Checks for cancellation between steps",
+    steps: ["One", "Two"],
+    async run(ctx) {
+      await ctx.step("One", 0);
+      await gate2.promise;
+      await ctx.step("Two", 50);
+      order.push("stepper finished");
+      return { summary: "unreachable" };
+    },
+  };
+  engine.register(stepper);
+  await new Promise(resolve => setTimeout(resolve, 5));
+  const stepping = await engine.enqueue(user.id, "stepper", undefined);
+  assert.ok("job" in stepping);
+  await new Promise(resolve => setImmediate(resolve));
+  await engine.cancel(stepping.job);
+  gate2.resolve();
+  await engine.idle();
+  assert.equal((await storage.getOptimizationJob(stepping.job.id))?.status, "cancelled");
+  assert.ok(!order.includes("stepper finished"));
+
+  // History is newest first
+  const history = await storage.getOptimizationJobs(user.id, { limit: 2 });
+  assert.deepEqual(history.map(job => job.task), ["stepper", "broken"]);
+  assert.equal((await storage.getOptimizationJobs(user.id, { task: "quick" })).length, 2);
+
+  // Jobs left running by a previous process are marked as interrupted
+  const orphan = await storage.createOptimizationJob({ userId: user.id, task: "slow", status: "running" });
+  await new JobEngine().recover();
+  const recovered = await storage.getOptimizationJob(orphan.id);
+  assert.equal(recovered?.status, "failed");
+  assert.equal(recovered?.error, "Interrupted by a server restart");
+}
+
+function checkTasks() {
+  assert.ok(ruleMatches("Discord", { process: "discord", action: "kill" }));
+  assert.ok(ruleMatches("chrome", { process: "chrome.exe", action: "lowerPriority" }));
+  assert.ok(ruleMatches("steamwebhelper", { process: "steam*", action: "kill" }));
+  assert.ok(ruleMatches("FortniteClient-", { process: "FortniteClient-Win64-Shipping.exe", action: "raisePriority" }));
+  assert.ok(!ruleMatches("discord-canary", { process: "discord", action: "kill" }));
+
+  // Optimize Now never deletes files; temp cleanup runs alone after its dry run
+  const quick = builtInTasks.find((task) => task.id === "quickOptimize")!;
+  assert.deepEqual(quick.params!.parse(undefined), { tasks: ["ramCleaner", "bgProcessMgmt"] });
+  assert.ok(!quick.params!.safeParse({ tasks: ["tempCleanup"] }).success);
+}
+
+async function main() {
+  await checkEngine();
+  console.log("✓ job engine");
+  checkTasks();
+  console.log("✓ optimization tasks");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
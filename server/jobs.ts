@@ -0,0 +1,183 @@
+import { z } from "zod";
+import type { OptimizationJob } from "@shared/schema";
+import type { JobResult, OptimizationTaskInfo } from "@shared/jobs";
+import { storage } from "./storage";
+import { realtime } from "./realtime";
+import { builtInTasks } from "./optimizationTasks";
+import { snapshotService, type SnapshotService } from "./snapshots";
+
+export interface JobContext {
+  userId: string;
+  signal: AbortSignal;
+  // Marks the start of a step at an overall progress of 0-100; throws once the job is cancelled
+  step(name: string, progress: number): Promise<void>;
+}
+
+export interface OptimizationTask<P = unknown> {
+  id: string;
+  title: string;
+  description: string;
+  steps: string[];
+  params?: z.ZodType<P, z.ZodTypeDef, unknown>;
+  // Snapshot sources the task changes; they are captured before it runs
+  affects?: string[];
+  // Why the task cannot run on this host, or null when it can
+  unavailableReason?(): Promise<string | null>;
+  run(ctx: JobContext, params: P): Promise<JobResult>;
+}
+
+interface QueuedJob {
+  job: OptimizationJob;
+  task: OptimizationTask;
+  params: unknown;
+}
+
+export type EnqueueResult =
+  | { job: OptimizationJob }
+  | { error: string; status: number; details?: unknown };
+
+// Runs optimization tasks one at a time, in the order they were requested.
+// Every change of status or step is stored and published to the job owner on
+// the `jobs` topic. Cancelling a running job aborts its signal; tasks stop at
+// their next step. Tasks that name the state they change get a snapshot of it
+// first, which their result links to.
+export class JobEngine {
+  private tasks = new Map<string, OptimizationTask>();
+  private queue: QueuedJob[] = [];
+  private running: { jobId: string; controller: AbortController } | null = null;
+  private draining: Promise<void> = Promise.resolve();
+
+  constructor(tasks: OptimizationTask[] = [], private snapshots: Pick<SnapshotService, "capture"> = snapshotService) {
+    tasks.forEach(task => this.register(task));
+  }
+
+  register(task: OptimizationTask) {
+    this.tasks.set(task.id, task);
+  }
+
+  async listTasks(): Promise<OptimizationTaskInfo[]> {
+    return Promise.all(Array.from(this.tasks.values()).map(async task => ({
+      id: task.id,
+      title: task.title,
+      description: task.description,
+      steps: task.steps,
+      unavailableReason: task.unavailableReason ? await task.unavailableReason() : null,
+    })));
+  }
+
+  async enqueue(userId: string, taskId: string, rawParams: unknown): Promise<EnqueueResult> {
+    const task = this.tasks.get(taskId);
+    if (!task) return { error: `Unknown optimization task: ${taskId}`, status: 404 };
+
+    const reason = task.unavailableReason ? await task.unavailableReason() : null;
+    if (reason) return { error: reason, status: 409 };
+
+    // Tasks without a params schema ignore whatever was sent
+    const parsed = task.params ? task.params.safeParse(rawParams) : { success: true as const, data: undefined };
+    if (!parsed.success) return { error: "Validation error", status: 400, details: parsed.error.errors };
+
+    const job = await storage.createOptimizationJob({
+      userId,
+      task: task.id,
+      params: parsed.data ?? null,
+      status: "queued",
+    });
+    this.queue.push({ job, task, params: parsed.data });
+    this.publish(job);
+    this.draining = this.draining
+      .then(() => this.drain())
+      .catch(error => console.error("Optimization queue failed:", error));
+    return { job };
+  }
+
+  // Queued jobs are dropped at once; a running job ends as cancelled when its task notices
+  async cancel(job: OptimizationJob): Promise<{ job: OptimizationJob } | { error: string }> {
+    const queued = this.queue.findIndex(entry => entry.job.id === job.id);
+    if (queued >= 0) {
+      this.queue.splice(queued, 1);
+      return { job: await this.update(job, { status: "cancelled", finishedAt: new Date() }) };
+    }
+    if (this.running?.jobId === job.id) {
+      this.running.controller.abort();
+      return { job };
+    }
+    return { error: "Job has already finished" };
+  }
+
+  // Jobs a previous run left queued or running can never finish
+  async recover(): Promise<void> {
+    const unfinished = await storage.getUnfinishedOptimizationJobs();
+    await Promise.all(unfinished.map(job => storage.updateOptimizationJob(job.id, {
+      status: "failed",
+      error: "Interrupted by a server restart",
+      finishedAt: new Date(),
+    })));
+  }
+
+  // Resolves once every job queued so far has finished
+  idle(): Promise<void> {
+    return this.draining;
+  }
+
+  private async drain() {
+    let next: QueuedJob | undefined;
+    while ((next = this.queue.shift())) {
+      await this.execute(next);
+    }
+  }
+
+  private async execute({ job: queued, task, params }: QueuedJob) {
+    const controller = new AbortController();
+    this.running = { jobId: queued.id, controller };
+    let job = await this.update(queued, { status: "running", startedAt: new Date() });
+
+    const ctx: JobContext = {
+      userId: job.userId,
+      signal: controller.signal,
+      step: async (name, progress) => {
+        controller.signal.throwIfAborted();
+        job = await this.update(job, { step: name, progress: Math.round(Math.min(100, Math.max(0, progress))) });
+      },
+    };
+
+    try {
+      let snapshotId: string | undefined;
+      if (task.affects?.length) {
+        await ctx.step("Saving a snapshot", 0);
+        const snapshot = await this.snapshots.capture(job.userId, { label: `Before ${task.title}`, sources: task.affects });
+        if ("error" in snapshot) throw new Error(snapshot.error);
+        snapshotId = snapshot.id;
+      }
+      const result = await task.run(ctx, params);
+      await this.update(job, {
+        status: "succeeded",
+        progress: 100,
+        step: null,
+        result: snapshotId ? { ...result, snapshotId } : result,
+        finishedAt: new Date(),
+      });
+    } catch (error) {
+      const cancelled = controller.signal.aborted;
+      if (!cancelled) console.error(`Optimization job ${task.id} failed:`, error);
+      await this.update(job, {
+        status: cancelled ? "cancelled" : "failed",
+        error: cancelled ? null : error instanceof Error ? error.message : String(error),
+        finishedAt: new Date(),
+      });
+    } finally {
+      this.running = null;
+    }
+  }
+
+  private async update(job: OptimizationJob, updates: Partial<Omit<OptimizationJob, "id" | "userId">>) {
+    const updated = (await storage.updateOptimizationJob(job.id, updates)) ?? { ...job, ...updates };
+    this.publish(updated);
+    return updated;
+  }
+
+  private publish(job: OptimizationJob) {
+    realtime.publish(job.userId, "jobs", "jobProgress", job);
+  }
+}
+
+export const jobEngine = new JobEngine(builtInTasks);
@@ -0,0 +1,194 @@
+// Runs latency probes on MemStorage with a scripted transport: summaries and
+// RFC 3550 jitter, target validation, one probe per user, rate limits,
+// cancellation and recovery. Also times TCP connects to a local listener.
+//
+//   npm run probes:check
+import assert from "node:assert/strict";
+import net from "net";
+import { startProbeSchema } from "@shared/latency";
+import { storage } from "./storage";
+import { ProbeRateLimiter, ProbeService, hostTransport, isPublicAddress, summarizeSamples, type ProbeTransport } from "./latencyProbes";
+
+// Answers with the scripted round trips in turn; `gate` holds every reply until it resolves
+function scriptedTransport(rtts: Array<number | null>, gate: Promise<void> = Promise.resolve()) {
+  const calls: string[] = [];
+  let next = 0;
+  const reply = async () => {
+    await gate;
+    return rtts[next++ % rtts.length];
+  };
+  const transport: ProbeTransport = {
+    async tcp(address, port) {
+      calls.push(`tcp ${address}:${port}`);
+      return reply();
+    },
+    async icmp(address) {
+      calls.push(`icmp ${address}`);
+      return reply();
+    },
+  };
+  return { transport, calls };
+}
+
+const addresses: Record<string, string> = {
+  "game.example.com": "203.0.114.10",
+  "cdn.example.com": "2606:4700::1111",
+  "router.lan": "192.168.1.1",
+};
+const resolve = async (host: string) => {
+  if (net.isIP(host)) return host;
+  if (!addresses[host]) throw new Error("ENOTFOUND");
+  return addresses[host];
+};
+
+const request = (overrides: Partial<ReturnType<typeof startProbeSchema.parse>> = {}) =>
+  ({ ...startProbeSchema.parse({ target: "game.example.com" }), intervalMs: 1, ...overrides });
+
+function checkSummaries() {
+  assert.deepEqual(summarizeSamples([]), { sent: 0, received: 0, lossRate: 0, min: null, avg: null, max: null, jitter: null });
+  assert.deepEqual(summarizeSamples([{ seq: 0, rtt: null }]).lossRate, 1);
+
+  // D = 4, 2, 6: J = 4/16 = 0.25, then += (2 - 0.25)/16, then += (6 - J)/16
+  const summary = summarizeSamples([
+    { seq: 0, rtt: 10 }, { seq: 1, rtt: 14 }, { seq: 2, rtt: null }, { seq: 3, rtt: 12 }, { seq: 4, rtt: 18 },
+  ]);
+  let jitter = 0;
+  [4, 2, 6].forEach(d => (jitter += (d - jitter) / 16));
+  assert.deepEqual(summary, { sent: 5, received: 4, lossRate: 0.2, min: 10, avg: 13.5, max: 18, jitter: Math.round(jitter * 100) / 100 });
+}
+
+function checkAddresses() {
+  ["8.8.8.8", "1.1.1.1", "2606:4700::1111"].forEach(address => assert.ok(isPublicAddress(address), address));
+  [
+    "127.0.0.1", "10.1.2.3", "172.20.0.1", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0",
+    "224.0.0.1", "255.255.255.255", "::1", "fe80::1", "fd00::1", "ff02::1", "::ffff:192.168.1.1", "example.com",
+  ].forEach(address => assert.ok(!isPublicAddress(address), address));
+
+  // Targets are names or addresses, nothing with a scheme, port or path
+  ["http://example.com", "example.com:80", "example.com/x", "-bad.example.com", ""].forEach(target =>
+    assert.throws(() => startProbeSchema.parse({ target }), target));
+  assert.equal(startProbeSchema.parse({ target: " Example.COM " }).target, "example.com");
+  assert.throws(() => startProbeSchema.parse({ target: "example.com", count: 1000 }));
+  assert.throws(() => startProbeSchema.parse({ target: "example.com", intervalMs: 10 }));
+}
+
+async function checkTcpTransport() {
+  const server = net.createServer(socket => socket.destroy());
+  await new Promise<void>(done => server.listen(0, "127.0.0.1", done));
+  const port = (server.address() as net.AddressInfo).port;
+  try {
+    const rtt = await hostTransport.tcp("127.0.0.1", port, 1000);
+    assert.ok(rtt !== null && rtt >= 0 && rtt < 1000);
+  } finally {
+    await new Promise(done => server.close(done));
+  }
+  // Nothing listens there any more: the RST is still a round trip
+  assert.ok((await hostTransport.tcp("127.0.0.1", port, 1000)) !== null);
+}
+
+async function checkService() {
+  const user = await storage.createUser({ username: "probes_check", passwordHash: "hash" });
+
+  // Targets that resolve to private addresses, or not at all, are refused
+  const { transport, calls } = scriptedTransport([10, 14, null, 12]);
+  const service = new ProbeService({ transport, resolve });
+  assert.deepEqual(await service.start(user.id, request({ target: "router.lan" })),
+    { error: "Only public internet addresses can be probed", status: 400 });
+  assert.deepEqual(await service.start(user.id, request({ target: "127.0.0.1" })),
+    { error: "Only public internet addresses can be probed", status: 400 });
+  assert.deepEqual(await service.start(user.id, request({ target: "missing.example.com" })),
+    { error: "Could not resolve missing.example.com", status: 400 });
+  assert.equal(calls.length, 0);
+
+  // A full run stores every sample and the summary
+  const started = await service.start(user.id, request({ count: 4, port: 3074 }));
+  assert.ok("probe" in started);
+  assert.equal(started.probe.address, "203.0.114.10");
+  await service.idle();
+  const completed = await storage.getLatencyProbe(started.probe.id);
+  assert.equal(completed?.status, "completed");
+  assert.deepEqual(completed?.samples.map(sample => sample.rtt), [10, 14, null, 12]);
+  assert.equal(completed?.summary.lossRate, 0.25);
+  assert.ok(completed?.finishedAt);
+  assert.deepEqual(calls, Array(4).fill("tcp 203.0.114.10:3074"));
+
+  // One probe at a time per user; cancelling ends it after the current round trip
+  let release!: () => void;
+  const gated = scriptedTransport([20], new Promise<void>(r => (release = r)));
+  const gatedService = new ProbeService({ transport: gated.transport, resolve });
+  const running = await gatedService.start(user.id, request({ count: 50 }));
+  assert.ok("probe" in running);
+  assert.deepEqual(await gatedService.start(user.id, request()), { error: "A probe is already running", status: 409 });
+  assert.deepEqual(gatedService.cancel(running.probe), { probe: running.probe });
+  release();
+  await gatedService.idle();
+  const cancelled = await storage.getLatencyProbe(running.probe.id);
+  assert.equal(cancelled?.status, "cancelled");
+  assert.equal(cancelled?.samples.length, 1);
+  assert.deepEqual(gatedService.cancel(cancelled!), { error: "Probe has already finished" });
+
+  // Transports that cannot send fail the probe
+  const broken = new ProbeService({
+    transport: { tcp: async () => { throw new Error("ping is not installed"); }, icmp: async () => null },
+    resolve,
+  });
+  const failing = await broken.start(user.id, request());
+  assert.ok("probe" in failing);
+  await broken.idle();
+  const failed = await storage.getLatencyProbe(failing.probe.id);
+  assert.equal(failed?.status, "failed");
+  assert.equal(failed?.error, "ping is not installed");
+}
+
+async function checkLimits() {
+  const user = await storage.createUser({ username: "probes_limits", passwordHash: "hash" });
+  const { transport } = scriptedTransport([5]);
+  const service = new ProbeService({ transport, resolve, limiter: new ProbeRateLimiter({ windowMs: 60_000, maxStarts: 4, maxDestinations: 2 }) });
+  const run = async (overrides: Parameters<typeof request>[0]) => {
+    const result = await service.start(user.id, request({ count: 1, ...overrides }));
+    await service.idle();
+    return result;
+  };
+
+  assert.ok("probe" in await run({ port: 443 }));
+  assert.ok("probe" in await run({ port: 443 }));
+  // Another port of the same host is another destination
+  assert.ok("probe" in await run({ port: 80 }));
+  const tooMany = await run({ target: "cdn.example.com" });
+  assert.ok("retryAfter" in tooMany && tooMany.status === 429 && tooMany.retryAfter > 0);
+  assert.match((tooMany as { error: string }).error, /different targets/);
+  assert.ok("probe" in await run({ port: 80 }));
+  const exhausted = await run({ port: 443 });
+  assert.ok("error" in exhausted && exhausted.status === 429);
+  assert.match((exhausted as { error: string }).error, /Too many probes/);
+
+  // Limits are per user
+  const other = await storage.createUser({ username: "probes_other", passwordHash: "hash" });
+  assert.ok("probe" in await service.start(other.id, request({ count: 1 })));
+  await service.idle();
+}
+
+async function checkRecovery() {
+  const user = await storage.createUser({ username: "probes_recover", passwordHash: "hash" });
+  const summary = summarizeSamples([]);
+  const stale = await storage.createLatencyProbe({ userId: user.id, target: "8.8.8.8", address: "8.8.8.8", method: "icmp", summary });
+  await new ProbeService().recover();
+  const recovered = await storage.getLatencyProbe(stale.id);
+  assert.equal(recovered?.status, "failed");
+  assert.equal(recovered?.error, "Interrupted by a server restart");
+}
+
+async function main() {
+  checkSummaries();
+  checkAddresses();
+  await checkTcpTransport();
+  await checkService();
+  await checkLimits();
+  await checkRecovery();
+  console.log("✓ latency probes");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
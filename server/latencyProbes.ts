@@ -0,0 +1,260 @@
+import dns from "dns";
+import net from "net";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import type { LatencyProbe } from "@shared/schema";
+import type { ProbeMethod, ProbeSample, ProbeSummary, StartProbeRequest } from "@shared/latency";
+import { storage } from "./storage";
+import { realtime } from "./realtime";
+import { BackgroundRuns, wait } from "./backgroundRuns";
+
+const execFileAsync = promisify(execFile);
+
+// How one round trip is measured; replaced in checks. Resolves to the
+// round-trip time in ms or null when nothing came back in time, and rejects
+// when the probe cannot be sent at all.
+export interface ProbeTransport {
+  tcp(address: string, port: number, timeoutMs: number): Promise<number | null>;
+  icmp(address: string, timeoutMs: number): Promise<number | null>;
+}
+
+// The time to a SYN-ACK, or to a RST: a refused connection has made the round trip too
+function tcpConnectTime(address: string, port: number, timeoutMs: number): Promise<number | null> {
+  return new Promise((resolve) => {
+    const started = process.hrtime.bigint();
+    const elapsed = () => Number(process.hrtime.bigint() - started) / 1e6;
+    const socket = net.connect({ host: address, port });
+    let done = false;
+    const finish = (rtt: number | null) => {
+      if (done) return;
+      done = true;
+      clearTimeout(timer);
+      socket.destroy();
+      resolve(rtt);
+    };
+    const timer = setTimeout(() => finish(null), timeoutMs);
+    socket.once("connect", () => finish(elapsed()));
+    socket.once("error", (error: NodeJS.ErrnoException) => finish(error.code === "ECONNREFUSED" ? elapsed() : null));
+  });
+}
+
+// One echo request through the system ping, which has the raw socket
+// privileges this process lacks
+async function icmpEchoTime(address: string, timeoutMs: number): Promise<number | null> {
+  const wait = String(Math.max(1, Math.ceil(timeoutMs / 1000)));
+  try {
+    const { stdout } = await execFileAsync("ping", ["-n", "-c", "1", "-W", wait, address], { timeout: timeoutMs + 1000 });
+    const time = stdout.match(/time[=<]([\d.]+)\s*ms/);
+    return time ? Number(time[1]) : null;
+  } catch (error) {
+    // ping exits with 1 when no reply came back
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") throw new Error("ping is not installed");
+    return null;
+  }
+}
+
+export const hostTransport: ProbeTransport = { tcp: tcpConnectTime, icmp: icmpEchoTime };
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Loss and min/avg/max over the samples so far. Jitter is the RFC 3550
+// interarrival estimate, J += (|D| - J) / 16, with D the change in round-trip
+// time between consecutive replies.
+export function summarizeSamples(samples: ProbeSample[]): ProbeSummary {
+  const rtts = samples.map(sample => sample.rtt).filter((rtt): rtt is number => rtt !== null);
+  let jitter = 0;
+  for (let i = 1; i < rtts.length; i++) {
+    jitter += (Math.abs(rtts[i] - rtts[i - 1]) - jitter) / 16;
+  }
+  const received = rtts.length;
+  return {
+    sent: samples.length,
+    received,
+    lossRate: samples.length ? round((samples.length - received) / samples.length) : 0,
+    min: received ? round(Math.min(...rtts)) : null,
+    avg: received ? round(rtts.reduce((sum, rtt) => sum + rtt, 0) / received) : null,
+    max: received ? round(Math.max(...rtts)) : null,
+    jitter: received ? round(jitter) : null,
+  };
+}
+
+// Loopback, private, shared, link-local, documentation, multicast and
+// reserved ranges: probing them would map the server's own network.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+const blockedRanges = new net.BlockList();
+([
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.0.2.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15],
+  ["198.51.100.0", 24], ["203.0.113.0", 24], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const).forEach(([address, prefix]) => blockedRanges.addSubnet(address, prefix, "ipv4"));
+([
+  ["::", 128], ["::1", 128], ["64:ff9b::", 96], ["100::", 64], ["2001:db8::", 32],
+  ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const).forEach(([address, prefix]) => blockedRanges.addSubnet(address, prefix, "ipv6"));
+
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (!family) return false;
+  return !blockedRanges.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+export interface ProbeLimits {
+  windowMs: number;
+  // Probes one user may start, and distinct destinations they may probe, per
+  // window. A destination is an address, plus the port for TCP probes.
+  maxStarts: number;
+  maxDestinations: number;
+}
+
+export const defaultProbeLimits: ProbeLimits = { windowMs: 10 * 60 * 1000, maxStarts: 30, maxDestinations: 10 };
+
+export type RateLimited = { error: string; status: number; retryAfter: number };
+
+// Sliding-window budget of probe starts per user, shared by every kind of
+// network test so that switching between them does not reset it
+export class ProbeRateLimiter {
+  private starts = new Map<string, Array<{ at: number; destination: string }>>();
+
+  constructor(private limits: ProbeLimits = defaultProbeLimits) {}
+
+  // Records the start, or says why it is refused
+  take(userId: string, destination: string): RateLimited | null {
+    const now = Date.now();
+    const recent = (this.starts.get(userId) ?? []).filter(start => now - start.at < this.limits.windowMs);
+    const retryAfter = recent.length ? Math.ceil((recent[0].at + this.limits.windowMs - now) / 1000) : 0;
+    const destinations = new Set(recent.map(start => start.destination));
+    this.starts.set(userId, recent);
+
+    if (recent.length >= this.limits.maxStarts) {
+      return { error: "Too many probes. Please try again later.", status: 429, retryAfter };
+    }
+    if (!destinations.has(destination) && destinations.size >= this.limits.maxDestinations) {
+      return { error: "Too many different targets. Please try again later.", status: 429, retryAfter };
+    }
+    recent.push({ at: now, destination });
+    return null;
+  }
+}
+
+export const probeLimiter = new ProbeRateLimiter();
+
+export interface ProbeServiceOptions {
+  transport?: ProbeTransport;
+  resolve?: (host: string) => Promise<string>;
+  limiter?: ProbeRateLimiter;
+  // Checks probe stubs on loopback
+  allowPrivateTargets?: boolean;
+}
+
+export type StartProbeResult =
+  | { probe: LatencyProbe }
+  | { error: string; status: number }
+  | RateLimited;
+
+async function lookupAddress(host: string): Promise<string> {
+  return (await dns.promises.lookup(host)).address;
+}
+
+// Runs latency probes in the background and publishes each sample to the
+// owner on the `probes` topic. Each user gets one probe at a time and a small
+// budget of starts and destinations, so this cannot be turned into a scanner.
+export class ProbeService {
+  private transport: ProbeTransport;
+  private resolve: (host: string) => Promise<string>;
+  private limiter: ProbeRateLimiter;
+  private allowPrivateTargets: boolean;
+  private runs = new BackgroundRuns<LatencyProbe>("Latency probe", {
+    getUnfinished: () => storage.getUnfinishedLatencyProbes(),
+    fail: (id, error) => storage.updateLatencyProbe(id, { status: "failed", error, finishedAt: new Date() }),
+  });
+
+  constructor(options: ProbeServiceOptions = {}) {
+    this.transport = options.transport ?? hostTransport;
+    this.resolve = options.resolve ?? lookupAddress;
+    this.limiter = options.limiter ?? probeLimiter;
+    this.allowPrivateTargets = options.allowPrivateTargets ?? false;
+  }
+
+  async start(userId: string, request: StartProbeRequest): Promise<StartProbeResult> {
+    if (request.method === "icmp" && process.platform !== "linux") {
+      return { error: "ICMP probes are only available on Linux hosts", status: 409 };
+    }
+    let address: string;
+    try {
+      address = await this.resolve(request.target);
+    } catch {
+      return { error: `Could not resolve ${request.target}`, status: 400 };
+    }
+    if (!this.allowPrivateTargets && !isPublicAddress(address)) {
+      return { error: "Only public internet addresses can be probed", status: 400 };
+    }
+
+    if (this.runs.busy(userId)) {
+      return { error: "A probe is already running", status: 409 };
+    }
+    const destination = request.method === "tcp" ? `${address}:${request.port}` : address;
+    const limited = this.limiter.take(userId, destination);
+    if (limited) return limited;
+
+    const probe = await this.runs.start(userId, () => storage.createLatencyProbe({
+      userId,
+      target: request.target,
+      address,
+      method: request.method,
+      port: request.method === "tcp" ? request.port : null,
+      status: "running",
+      samples: [],
+      summary: summarizeSamples([]),
+    }), (created, signal) => this.run(created, request, signal));
+    this.publish(probe);
+    return { probe };
+  }
+
+  // The probe ends as cancelled once its current round trip is back
+  cancel(probe: LatencyProbe): { probe: LatencyProbe } | { error: string } {
+    if (!this.runs.cancel(probe.id)) return { error: "Probe has already finished" };
+    return { probe };
+  }
+
+  recover(): Promise<void> {
+    return this.runs.recover();
+  }
+
+  // Resolves once every probe started so far has finished
+  idle(): Promise<void> {
+    return this.runs.idle();
+  }
+
+  private async run(probe: LatencyProbe, request: StartProbeRequest, signal: AbortSignal) {
+    const samples: ProbeSample[] = [];
+    const measure = (method: ProbeMethod) => method === "tcp"
+      ? this.transport.tcp(probe.address, request.port, request.timeoutMs)
+      : this.transport.icmp(probe.address, request.timeoutMs);
+
+    try {
+      for (let seq = 0; seq < request.count && !signal.aborted; seq++) {
+        const started = Date.now();
+        const rtt = await measure(probe.method);
+        const sample = { seq, rtt: rtt === null ? null : round(rtt) };
+        samples.push(sample);
+        probe = (await storage.updateLatencyProbe(probe.id, { samples, summary: summarizeSamples(samples) })) ?? probe;
+        this.publish(probe, sample);
+        if (seq < request.count - 1) await wait(request.intervalMs - (Date.now() - started), signal);
+      }
+      probe = await this.finish(probe, { status: signal.aborted ? "cancelled" : "completed" });
+    } catch (error) {
+      probe = await this.finish(probe, { status: "failed", error: error instanceof Error ? error.message : String(error) });
+    }
+    this.publish(probe);
+  }
+
+  private async finish(probe: LatencyProbe, updates: Pick<LatencyProbe, "status"> & { error?: string }) {
+    return (await storage.updateLatencyProbe(probe.id, { ...updates, finishedAt: new Date() })) ?? probe;
+  }
+
+  private publish(probe: LatencyProbe, sample?: ProbeSample) {
+    realtime.publish(probe.userId, "probes", "probeProgress", sample ? { probe, sample } : { probe });
+  }
+}
+
+export const probeService = new ProbeService();
@@ -0,0 +1,36 @@
+// Mock GPU control agent for building and checking the GPU Tuner without a
+// GPU. Point the server at it with GPU_AGENT_URL=http://127.0.0.1:7878 and
+// the GPU_AGENT_TOKEN it was started with, or the one it prints.
+// The script (server/fixtures/gpu/mock-agent.json by default) sets the
+// devices, their readings, failing calls and a timeline of driver events.
+//
+//   npm run gpu-agent:mock -- [script.json] [port]
+import fs from "fs";
+import path from "path";
+import { GPU_AGENT_DEFAULT_PORT } from "@shared/gpuAgent";
+import { serveGpuAgent } from "./gpuAgentServer";
+import { MockGpuBackend, type MockGpuScript } from "./mockGpuBackend";
+
+const scriptPath = path.resolve(process.argv[2] ?? "server/fixtures/gpu/mock-agent.json");
+const port = Number(process.argv[3] ?? GPU_AGENT_DEFAULT_PORT);
+
+async function main() {
+  const script: MockGpuScript = JSON.parse(await fs.promises.readFile(scriptPath, "utf-8"));
+  const backend = new MockGpuBackend(script);
+  const agent = await serveGpuAgent(backend, { port, token: process.env.GPU_AGENT_TOKEN, name: "nexus-gpu-agent-mock" });
+  const stop = backend.play();
+  console.log(`🎮 Mock GPU agent with ${script.gpus.length} device(s) on ${agent.url}`);
+  if (!process.env.GPU_AGENT_TOKEN) console.log(`   Start the server with GPU_AGENT_TOKEN=${agent.token}`);
+
+  const shutdown = () => {
+    stop();
+    agent.close().then(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error("Could not start the mock GPU agent:", error);
+  process.exit(1);
+});
@@ -0,0 +1,182 @@
+import {
+  GpuAgentError,
+  type GpuDevice, type GpuEvent, type GpuEventType, type GpuSettings, type GpuTelemetry
+} from "@shared/gpuAgent";
+import type { GpuBackend } from "./gpuAgentServer";
+
+export type MockTelemetry = Partial<Omit<GpuTelemetry, "deviceId" | "timestamp">>;
+
+export interface MockGpu {
+  device: GpuDevice;
+  // Readings at stock settings; applied settings move clocks, power and fan from here
+  telemetry: MockTelemetry;
+}
+
+export interface MockFailure {
+  method: "telemetry" | "settings" | "apply" | "reset";
+  deviceId?: string;
+  code: number;
+  message: string;
+  // Calls that fail before the method works again; all of them when absent
+  times?: number;
+}
+
+export interface MockStep {
+  afterMs: number;
+  deviceId: string;
+  // Merged into the device's readings from then on
+  telemetry?: MockTelemetry;
+  // A driverReset also puts the device back to its default settings
+  event?: GpuEventType;
+  message?: string;
+}
+
+// The mock agent's behavior, usually loaded from a JSON file
+// (server/fixtures/gpu/*.json)
+export interface MockGpuScript {
+  gpus: MockGpu[];
+  // How far temperature, usage and power wander between reads, as a fraction; 0 keeps them exact
+  drift?: number;
+  // Added to every call
+  latencyMs?: number;
+  failures?: MockFailure[];
+  // Played by play(), relative to its start
+  timeline?: MockStep[];
+  loop?: boolean;
+}
+
+interface MockState {
+  device: GpuDevice;
+  telemetry: MockTelemetry;
+  settings: GpuSettings;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+function defaultSettings(device: GpuDevice): GpuSettings {
+  const settings: GpuSettings = {};
+  Object.entries(device.capabilities.controls).forEach(([control, range]) => {
+    (settings as Record<string, number | null>)[control] = range.default;
+  });
+  if (device.capabilities.performanceLevels.length) settings.performanceLevel = device.capabilities.performanceLevels[0];
+  return settings;
+}
+
+// Stands in for real drivers so the GPU Tuner can be built and checked
+// without a GPU: devices, readings, failures and driver events all come from
+// the script, and can also be changed from code while it runs.
+export class MockGpuBackend implements GpuBackend {
+  private states = new Map<string, MockState>();
+  private failures: MockFailure[];
+  private listeners = new Set<(event: GpuEvent) => void>();
+
+  constructor(private script: MockGpuScript) {
+    script.gpus.forEach(gpu => this.states.set(gpu.device.id, {
+      device: gpu.device,
+      telemetry: { ...gpu.telemetry },
+      settings: defaultSettings(gpu.device),
+    }));
+    this.failures = (script.failures ?? []).map(failure => ({ ...failure }));
+  }
+
+  // Plays the script's timeline; returns a function that stops it
+  play(): () => void {
+    const steps = this.script.timeline ?? [];
+    const timers: NodeJS.Timeout[] = [];
+    const schedule = () => {
+      steps.forEach(step => timers.push(setTimeout(() => this.step(step), step.afterMs)));
+      if (this.script.loop && steps.length) {
+        timers.push(setTimeout(schedule, Math.max(...steps.map(step => step.afterMs)) + 1));
+      }
+    };
+    schedule();
+    return () => timers.forEach(timer => clearTimeout(timer));
+  }
+
+  step(step: Omit<MockStep, "afterMs">) {
+    const state = this.states.get(step.deviceId);
+    if (!state) return;
+    if (step.telemetry) state.telemetry = { ...state.telemetry, ...step.telemetry };
+    if (step.event === "driverReset") state.settings = defaultSettings(state.device);
+    if (step.event) {
+      const event: GpuEvent = { deviceId: step.deviceId, event: step.event, message: step.message ?? step.event, timestamp: Date.now() };
+      this.listeners.forEach(listener => listener(event));
+    }
+  }
+
+  fail(failure: MockFailure) {
+    this.failures.push({ ...failure });
+  }
+
+  async devices(): Promise<GpuDevice[]> {
+    await this.delay();
+    return Array.from(this.states.values(), state => state.device);
+  }
+
+  async telemetry(device: GpuDevice): Promise<GpuTelemetry> {
+    const state = await this.enter("telemetry", device);
+    const { telemetry: rest, settings } = state;
+    const drift = (value: number | null | undefined) =>
+      value == null ? null : value * (1 + (Math.random() - 0.5) * (this.script.drift ?? 0));
+
+    let coreClock = rest.coreClock == null ? null : rest.coreClock + (settings.coreClockOffset ?? 0);
+    if (coreClock !== null) coreClock = clamp(coreClock, settings.coreClockMin ?? 0, settings.coreClockMax ?? Infinity);
+    let memoryClock = rest.memoryClock == null ? null : rest.memoryClock + (settings.memoryClockOffset ?? 0);
+    if (memoryClock !== null) memoryClock = Math.min(memoryClock, settings.memoryClockMax ?? Infinity);
+    const powerLimit = settings.powerLimit ?? rest.powerLimit ?? null;
+    const powerDraw = drift(rest.powerDraw);
+    const usage = drift(rest.usage);
+
+    return {
+      deviceId: device.id,
+      timestamp: Date.now(),
+      temperature: drift(rest.temperature),
+      usage: usage === null ? null : clamp(usage, 0, 100),
+      coreClock,
+      memoryClock,
+      vramUsed: rest.vramUsed ?? null,
+      vramTotal: rest.vramTotal ?? null,
+      powerDraw: powerDraw === null ? null : Math.min(powerDraw, powerLimit ?? Infinity),
+      powerLimit,
+      fanSpeed: settings.fanSpeed ?? rest.fanSpeed ?? null,
+      fanRpm: rest.fanRpm ?? null,
+      performanceState: settings.performanceLevel ?? rest.performanceState ?? null,
+      throttleReasons: rest.throttleReasons ?? [],
+    };
+  }
+
+  async settings(device: GpuDevice): Promise<GpuSettings> {
+    return { ...(await this.enter("settings", device)).settings };
+  }
+
+  async apply(device: GpuDevice, settings: GpuSettings): Promise<GpuSettings> {
+    const state = await this.enter("apply", device);
+    state.settings = { ...state.settings, ...settings };
+    return { ...state.settings };
+  }
+
+  async reset(device: GpuDevice): Promise<GpuSettings> {
+    const state = await this.enter("reset", device);
+    state.settings = defaultSettings(device);
+    return { ...state.settings };
+  }
+
+  onEvent(listener: (event: GpuEvent) => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private async enter(method: MockFailure["method"], device: GpuDevice): Promise<MockState> {
+    await this.delay();
+    const failure = this.failures.find(f => f.method === method && (!f.deviceId || f.deviceId === device.id));
+    if (failure) {
+      if (failure.times !== undefined && --failure.times <= 0) this.failures.splice(this.failures.indexOf(failure), 1);
+      throw new GpuAgentError(failure.code, failure.message);
+    }
+    return this.states.get(device.id)!;
+  }
+
+  private delay() {
+    return this.script.latencyMs ? new Promise(resolve => setTimeout(resolve, this.script.latencyMs)) : Promise.resolve();
+  }
+}
@@ -0,0 +1,194 @@
+// Runs the NVIDIA backend against recorded nvidia-smi and nvidia-settings
+// output (server/fixtures/gpu/nvidia) from a machine with an RTX 4070 and a
+// GTX 1650: parsing, multi-GPU discovery and capabilities, telemetry with
+// throttle reasons, and the commands behind power limits and clock offsets.
+//
+//   npm run gpu-nvidia:check
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { GpuAgentError, gpuAgentErrorCodes } from "@shared/gpuAgent";
+import {
+  NvidiaGpuBackend, decodeThrottleReasons, parseNvidiaQuery, parseNvidiaSettingsRange, type NvidiaTools
+} from "./nvidiaGpu";
+
+const fixture = (name: string) => fs.readFileSync(path.resolve("server/fixtures/gpu/nvidia", name), "utf-8");
+
+async function agentError(promise: Promise<unknown>): Promise<GpuAgentError> {
+  try {
+    await promise;
+  } catch (error) {
+    assert.ok(error instanceof GpuAgentError, String(error));
+    return error;
+  }
+  assert.fail("call did not fail");
+}
+
+function checkParsers() {
+  const [rtx, gtx] = parseNvidiaQuery(fixture("query-gpu.csv"));
+  assert.equal(rtx.name, "NVIDIA GeForce RTX 4070");
+  assert.equal(rtx["power.draw"], "185.42");
+  assert.equal(rtx["power.management"], "Enabled");
+  assert.equal(gtx["power.draw"], null);
+  assert.equal(gtx["fan.speed"], null);
+  assert.equal(gtx.pstate, "P8");
+  assert.deepEqual(parseNvidiaQuery("\n"), []);
+
+  assert.deepEqual(decodeThrottleReasons("0x0000000000000004"), ["power"]);
+  assert.deepEqual(decodeThrottleReasons("0x00000000000000A4"), ["power", "thermal"]);
+  assert.deepEqual(decodeThrottleReasons("0x0000000000000000"), []);
+  assert.deepEqual(decodeThrottleReasons(null), []);
+
+  const ranges = fixture("settings-offset-ranges.txt");
+  assert.deepEqual(parseNvidiaSettingsRange(ranges, "GPUGraphicsClockOffsetAllPerformanceLevels"), [-1000, 1000]);
+  assert.deepEqual(parseNvidiaSettingsRange(ranges, "GPUMemoryTransferRateOffsetAllPerformanceLevels"), [-2000, 6000]);
+  assert.equal(parseNvidiaSettingsRange(fixture("settings-no-display.txt"), "GPUGraphicsClockOffsetAllPerformanceLevels"), null);
+}
+
+// Plays nvidia-smi and nvidia-settings from the recordings, applying the
+// power limits and offsets it is given
+function fakeTools(options: { display: boolean }) {
+  const state = {
+    query: fixture("query-gpu.csv"),
+    powerLimits: new Map<string, string>(),
+    offsets: new Map<string, number>(),
+    smiCalls: 0,
+    failSmi: null as string | null,
+    failPrivileged: null as string | null,
+    privileged: [] as string[][],
+    assigned: [] as string[],
+  };
+  const tools: NvidiaTools = {
+    async smi(args) {
+      state.smiCalls++;
+      if (state.failSmi) throw new Error(state.failSmi);
+      assert.match(args[0], /^--query-gpu=index,uuid,name,/);
+      return state.query.split("\n").map(line => {
+        const values = line.split(", ");
+        const limit = state.powerLimits.get(values[0]);
+        if (limit) values[12] = limit;
+        return values.join(", ");
+      }).join("\n");
+    },
+    async smiPrivileged(args) {
+      if (state.failPrivileged) throw new Error(state.failPrivileged);
+      state.privileged.push(args);
+      state.powerLimits.set(args[1], `${args[3]}.00`);
+    },
+    async nvidiaSettings(args) {
+      if (!options.display) return fixture("settings-no-display.txt");
+      if (args[0] === "-t") {
+        return args.filter(arg => arg.startsWith("[")).map(target => `${state.offsets.get(target) ?? 0}\n`).join("");
+      }
+      if (args[0] === "-a") {
+        for (let i = 1; i < args.length; i += 2) {
+          const [target, value] = args[i].split("=");
+          state.assigned.push(args[i]);
+          state.offsets.set(target, Number(value));
+        }
+        return "";
+      }
+      // Only the first GPU has Coolbits-unlocked offsets
+      return args.some(arg => arg.startsWith("[gpu:0]")) ? fixture("settings-offset-ranges.txt") : "";
+    },
+  };
+  return { tools, state };
+}
+
+async function checkBackend() {
+  const { tools, state } = fakeTools({ display: true });
+  const backend = new NvidiaGpuBackend(tools);
+
+  const [rtx, gtx] = await backend.devices();
+  assert.deepEqual([rtx.id, gtx.id], ["nvidia-0", "nvidia-1"]);
+  assert.equal(rtx.driverVersion, "550.107.02");
+  assert.deepEqual(rtx.capabilities, {
+    controls: {
+      powerLimit: { min: 100, max: 220, step: 1, default: 200 },
+      coreClockOffset: { min: -1000, max: 1000, step: 1, default: 0 },
+      memoryClockOffset: { min: -2000, max: 6000, step: 1, default: 0 },
+    },
+    performanceLevels: [],
+  });
+  // No power management and no offsets: nothing to set
+  assert.deepEqual(gtx.capabilities.controls, {});
+
+  const telemetry = await backend.telemetry(rtx);
+  assert.deepEqual({ ...telemetry, timestamp: 0 }, {
+    deviceId: "nvidia-0",
+    timestamp: 0,
+    temperature: 62,
+    usage: 87,
+    coreClock: 2475,
+    memoryClock: 10501,
+    vramUsed: 6144,
+    vramTotal: 12282,
+    powerDraw: 185.42,
+    powerLimit: 200,
+    fanSpeed: 55,
+    fanRpm: null,
+    performanceState: "P2",
+    throttleReasons: ["power"],
+  });
+  const idle = await backend.telemetry(gtx);
+  assert.deepEqual([idle.powerDraw, idle.fanSpeed, idle.performanceState, idle.throttleReasons], [null, null, "P8", ["idle"]]);
+  // Calls that come together share one nvidia-smi run
+  assert.equal(state.smiCalls, 1);
+
+  assert.deepEqual(await backend.settings(rtx), { powerLimit: 200, coreClockOffset: 0, memoryClockOffset: 0 });
+  assert.deepEqual(await backend.settings(gtx), {});
+
+  const applied = await backend.apply(rtx, { powerLimit: 180, coreClockOffset: 150, memoryClockOffset: 1000 });
+  assert.deepEqual(state.privileged, [["-i", "0", "-pl", "180"]]);
+  assert.deepEqual(state.assigned, [
+    "[gpu:0]/GPUGraphicsClockOffsetAllPerformanceLevels=150",
+    "[gpu:0]/GPUMemoryTransferRateOffsetAllPerformanceLevels=1000",
+  ]);
+  assert.deepEqual(applied, { powerLimit: 180, coreClockOffset: 150, memoryClockOffset: 1000 });
+  assert.equal((await backend.telemetry(rtx)).powerLimit, 180);
+
+  state.failPrivileged = "Insufficient Permissions";
+  assert.equal((await agentError(backend.apply(rtx, { powerLimit: 190 }))).code, gpuAgentErrorCodes.permissionDenied);
+  state.failPrivileged = "Changing power management limit is not supported for GPU: 00000000:01:00.0.";
+  assert.equal((await agentError(backend.apply(rtx, { powerLimit: 190 }))).code, gpuAgentErrorCodes.driverError);
+  state.failPrivileged = null;
+
+  state.privileged.length = 0;
+  state.assigned.length = 0;
+  assert.deepEqual(await backend.reset(rtx), { powerLimit: 200, coreClockOffset: 0, memoryClockOffset: 0 });
+  assert.deepEqual(state.privileged, [["-i", "0", "-pl", "200"]]);
+  assert.equal(state.assigned.length, 2);
+
+  // Recorded while a game hit the power and thermal limits
+  state.query = fixture("query-gpu-throttled.csv");
+  state.powerLimits.clear();
+  await new Promise(resolve => setTimeout(resolve, 600));
+  const throttled = await backend.telemetry(rtx);
+  assert.deepEqual([throttled.temperature, throttled.performanceState, throttled.throttleReasons], [84, "P0", ["power", "thermal"]]);
+
+  await new Promise(resolve => setTimeout(resolve, 600));
+  state.failSmi = "NVIDIA-SMI has failed because it couldn't communicate with the NVIDIA driver.";
+  assert.equal((await agentError(backend.telemetry(rtx))).code, gpuAgentErrorCodes.driverError);
+  assert.deepEqual(await backend.devices(), []);
+  state.failSmi = null;
+  assert.equal((await agentError(backend.telemetry({ ...rtx, id: "nvidia-7" }))).code, gpuAgentErrorCodes.deviceNotFound);
+}
+
+async function checkWithoutDisplay() {
+  // Without an X display only the power limit is offered
+  const { tools } = fakeTools({ display: false });
+  const [rtx] = await new NvidiaGpuBackend(tools).devices();
+  assert.deepEqual(Object.keys(rtx.capabilities.controls), ["powerLimit"]);
+}
+
+async function main() {
+  checkParsers();
+  await checkBackend();
+  await checkWithoutDisplay();
+  console.log("✓ nvidia backend");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,285 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import {
+  GpuAgentError, gpuAgentErrorCodes,
+  type ControlRange, type GpuCapabilities, type GpuDevice, type GpuSettings, type GpuTelemetry
+} from "@shared/gpuAgent";
+import { runPrivileged } from "./privileged";
+import type { GpuBackend } from "./gpuAgentServer";
+
+const execFileAsync = promisify(execFile);
+
+// Columns of `nvidia-smi --query-gpu`, in the order parseNvidiaQuery reads them
+export const NVIDIA_QUERY_FIELDS = [
+  "index", "uuid", "name", "driver_version", "pci.bus_id",
+  "temperature.gpu", "utilization.gpu", "clocks.gr", "clocks.mem", "memory.used", "memory.total",
+  "power.draw", "power.limit", "power.min_limit", "power.max_limit", "power.default_limit", "power.management",
+  "fan.speed", "pstate", "clocks_throttle_reasons.active",
+] as const;
+
+type NvidiaField = typeof NVIDIA_QUERY_FIELDS[number];
+export type NvidiaGpuRow = Record<NvidiaField, string | null>;
+
+// Bits of clocks_throttle_reasons.active (nvmlClocksThrottleReason*), as the
+// reasons the rest of the app knows
+const THROTTLE_REASONS: [number, string][] = [
+  [0x1, "idle"],
+  [0x2, "applicationClocks"],
+  [0x4, "power"], // software power cap
+  [0x8, "hardware"],
+  [0x10, "syncBoost"],
+  [0x20, "thermal"], // software thermal slowdown
+  [0x40, "thermal"], // hardware thermal slowdown
+  [0x80, "power"], // hardware power brake
+  [0x100, "displayClocks"],
+];
+
+// nvidia-settings attributes behind the clock offsets, which need an X
+// display with Coolbits enabled. The memory offset is in transfer rate MHz,
+// as nvidia-settings counts it.
+const OFFSET_ATTRIBUTES = {
+  coreClockOffset: "GPUGraphicsClockOffsetAllPerformanceLevels",
+  memoryClockOffset: "GPUMemoryTransferRateOffsetAllPerformanceLevels",
+} as const;
+type OffsetControl = keyof typeof OFFSET_ATTRIBUTES;
+const OFFSET_CONTROLS = Object.keys(OFFSET_ATTRIBUTES) as OffsetControl[];
+
+// nvidia-smi is run for every read, so one query answers the calls that come
+// in together (gpu.list followed by a telemetry read)
+const QUERY_CACHE_MS = 500;
+
+// How the NVIDIA tools are run; replaced in checks
+export interface NvidiaTools {
+  // nvidia-smi's output; rejects when it is missing or exits with an error
+  smi(args: string[]): Promise<string>;
+  // nvidia-smi as root, for power limits
+  smiPrivileged(args: string[]): Promise<void>;
+  nvidiaSettings(args: string[]): Promise<string>;
+}
+
+export const hostNvidiaTools: NvidiaTools = {
+  async smi(args) {
+    const { stdout } = await execFileAsync("nvidia-smi", args, { timeout: 10_000 });
+    return stdout;
+  },
+  smiPrivileged: args => runPrivileged("nvidia-smi", args),
+  async nvidiaSettings(args) {
+    const { stdout } = await execFileAsync("nvidia-settings", args, { timeout: 10_000 });
+    return stdout;
+  },
+};
+
+// `--format=csv,noheader,nounits` output, one line per GPU. Values the card
+// does not report ("[N/A]", "[Not Supported]") read as null.
+export function parseNvidiaQuery(text: string): NvidiaGpuRow[] {
+  return text.split("\n").filter(line => line.trim()).map(line => {
+    const values = line.split(",").map(value => value.trim());
+    const row = {} as NvidiaGpuRow;
+    NVIDIA_QUERY_FIELDS.forEach((field, i) => {
+      const value = values[i];
+      row[field] = value === undefined || value === "" || value.startsWith("[") ? null : value;
+    });
+    return row;
+  });
+}
+
+export function decodeThrottleReasons(mask: string | null): string[] {
+  if (!mask) return [];
+  const bits = parseInt(mask, 16);
+  if (Number.isNaN(bits)) return [];
+  return Array.from(new Set(THROTTLE_REASONS.filter(([bit]) => bits & bit).map(([, reason]) => reason)));
+}
+
+// The range in `nvidia-settings -q` output: "... are in the range -1000 - 1000 (inclusive)."
+// Read-only attributes, which Coolbits leaves locked, have none.
+export function parseNvidiaSettingsRange(text: string, attribute: string): [number, number] | null {
+  const escaped = attribute.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const match = text.match(new RegExp(`'${escaped}' are in the range (-?\\d+) - (-?\\d+)`));
+  if (!match || new RegExp(`'${escaped}' is a read-only attribute`).test(text)) return null;
+  return [Number(match[1]), Number(match[2])];
+}
+
+const number = (raw: string | null) => (raw === null || !Number.isFinite(Number(raw)) ? null : Number(raw));
+
+// Reads NVIDIA GPUs through nvidia-smi. Power limits are set with
+// `nvidia-smi -pl` as root; clock offsets go through nvidia-settings and are
+// only offered when it reports a writable range for the GPU.
+export class NvidiaGpuBackend implements GpuBackend {
+  private cached: { at: number; rows: Promise<NvidiaGpuRow[]> } | null = null;
+  private offsetRanges = new Map<string, Promise<Partial<Record<OffsetControl, [number, number]>>>>();
+
+  constructor(private tools: NvidiaTools = hostNvidiaTools) {}
+
+  // No nvidia-smi, or no driver for it to talk to, means no NVIDIA GPUs
+  async devices(): Promise<GpuDevice[]> {
+    let rows: NvidiaGpuRow[];
+    try {
+      rows = await this.query();
+    } catch {
+      return [];
+    }
+    return Promise.all(rows.map(row => this.describe(row)));
+  }
+
+  async telemetry(device: GpuDevice): Promise<GpuTelemetry> {
+    const row = await this.row(device);
+    return {
+      deviceId: device.id,
+      timestamp: Date.now(),
+      temperature: number(row["temperature.gpu"]),
+      usage: number(row["utilization.gpu"]),
+      coreClock: number(row["clocks.gr"]),
+      memoryClock: number(row["clocks.mem"]),
+      vramUsed: number(row["memory.used"]),
+      vramTotal: number(row["memory.total"]),
+      powerDraw: number(row["power.draw"]),
+      powerLimit: number(row["power.limit"]),
+      fanSpeed: number(row["fan.speed"]),
+      // nvidia-smi reports the fan as a share of its maximum only
+      fanRpm: null,
+      performanceState: row.pstate,
+      throttleReasons: decodeThrottleReasons(row["clocks_throttle_reasons.active"]),
+    };
+  }
+
+  async settings(device: GpuDevice): Promise<GpuSettings> {
+    const row = await this.row(device);
+    const { controls } = device.capabilities;
+    const settings: GpuSettings = {};
+    if (controls.powerLimit && number(row["power.limit"]) !== null) settings.powerLimit = Math.round(number(row["power.limit"])!);
+
+    const offsets = OFFSET_CONTROLS.filter(control => controls[control]);
+    if (offsets.length) {
+      const values = (await this.settingsTool(offsets.flatMap(control => ["-q", this.target(row, control)]), true))
+        .split("\n").map(line => line.trim()).filter(Boolean);
+      offsets.forEach((control, i) => {
+        settings[control] = number(values[i] ?? null) ?? 0;
+      });
+    }
+    return settings;
+  }
+
+  async apply(device: GpuDevice, settings: GpuSettings): Promise<GpuSettings> {
+    const row = await this.row(device);
+    if (settings.powerLimit !== undefined && settings.powerLimit !== null) await this.setPowerLimit(row, settings.powerLimit);
+    const offsets = OFFSET_CONTROLS.filter(control => settings[control] != null);
+    if (offsets.length) {
+      await this.settingsTool(offsets.flatMap(control => ["-a", `${this.target(row, control)}=${Math.round(settings[control]!)}`]));
+    }
+    this.cached = null;
+    return this.settings(device);
+  }
+
+  // The board's default power limit and no offsets
+  async reset(device: GpuDevice): Promise<GpuSettings> {
+    const defaults: GpuSettings = {};
+    const { controls } = device.capabilities;
+    if (controls.powerLimit?.default != null) defaults.powerLimit = controls.powerLimit.default;
+    OFFSET_CONTROLS.forEach(control => {
+      if (controls[control]) defaults[control] = 0;
+    });
+    return this.apply(device, defaults);
+  }
+
+  private query(): Promise<NvidiaGpuRow[]> {
+    if (!this.cached || Date.now() - this.cached.at > QUERY_CACHE_MS) {
+      const rows = this.tools.smi([`--query-gpu=${NVIDIA_QUERY_FIELDS.join(",")}`, "--format=csv,noheader,nounits"])
+        .then(parseNvidiaQuery);
+      // A failed query is not kept
+      rows.catch(() => {
+        if (this.cached?.rows === rows) this.cached = null;
+      });
+      this.cached = { at: Date.now(), rows };
+    }
+    return this.cached.rows;
+  }
+
+  private async row(device: GpuDevice): Promise<NvidiaGpuRow> {
+    let rows: NvidiaGpuRow[];
+    try {
+      rows = await this.query();
+    } catch (error) {
+      throw new GpuAgentError(gpuAgentErrorCodes.driverError, `nvidia-smi failed: ${error instanceof Error ? error.message : error}`);
+    }
+    const row = rows.find(r => `nvidia-${r.index}` === device.id);
+    if (!row) throw new GpuAgentError(gpuAgentErrorCodes.deviceNotFound, `No GPU with id ${device.id}`, { deviceId: device.id });
+    return row;
+  }
+
+  private async describe(row: NvidiaGpuRow): Promise<GpuDevice> {
+    const controls: GpuCapabilities["controls"] = {};
+    const [min, max, stock] = [row["power.min_limit"], row["power.max_limit"], row["power.default_limit"]].map(number);
+    // Cards without power management report the limits as N/A
+    if (row["power.management"] === "Enabled" && min !== null && max !== null) {
+      const power: ControlRange = { min: Math.ceil(min), max: Math.floor(max), step: 1, default: stock === null ? null : Math.round(stock) };
+      controls.powerLimit = power;
+    }
+    const offsets = await this.offsetRange(row);
+    OFFSET_CONTROLS.forEach(control => {
+      const range = offsets[control];
+      if (range) controls[control] = { min: range[0], max: range[1], step: 1, default: 0 };
+    });
+
+    return {
+      id: `nvidia-${row.index}`,
+      vendor: "nvidia",
+      name: row.name ?? `NVIDIA GPU ${row.index}`,
+      driver: "nvidia",
+      driverVersion: row.driver_version,
+      capabilities: { controls, performanceLevels: [] },
+    };
+  }
+
+  // Asked once per GPU: whether Coolbits unlocks the offsets does not change while the agent runs
+  private offsetRange(row: NvidiaGpuRow) {
+    const key = row.uuid ?? String(row.index);
+    let ranges = this.offsetRanges.get(key);
+    if (!ranges) {
+      ranges = this.tools.nvidiaSettings(OFFSET_CONTROLS.flatMap(control => ["-q", this.target(row, control)]))
+        .then(text => {
+          const found: Partial<Record<OffsetControl, [number, number]>> = {};
+          OFFSET_CONTROLS.forEach(control => {
+            const range = parseNvidiaSettingsRange(text, OFFSET_ATTRIBUTES[control]);
+            if (range) found[control] = range;
+          });
+          return found;
+        })
+        .catch(() => ({}));
+      this.offsetRanges.set(key, ranges);
+    }
+    return ranges;
+  }
+
+  // nvidia-settings numbers GPUs in PCI bus order, as nvidia-smi does
+  private target(row: NvidiaGpuRow, control: OffsetControl) {
+    return `[gpu:${row.index}]/${OFFSET_ATTRIBUTES[control]}`;
+  }
+
+  private async setPowerLimit(row: NvidiaGpuRow, watts: number) {
+    try {
+      await this.tools.smiPrivileged(["-i", String(row.index), "-pl", String(Math.round(watts))]);
+    } catch (error) {
+      throw this.toolError("nvidia-smi", error);
+    }
+  }
+
+  private async settingsTool(args: string[], terse = false) {
+    try {
+      const output = await this.tools.nvidiaSettings(terse ? ["-t", ...args] : args);
+      // nvidia-settings can print an error and still exit with 0
+      const failed = output.match(/^ERROR: (.+)$/m);
+      if (failed) throw new Error(failed[1]);
+      return output;
+    } catch (error) {
+      throw this.toolError("nvidia-settings", error);
+    }
+  }
+
+  private toolError(tool: string, error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (/Insufficient Permissions|password is required|not allowed|EACCES|EPERM/i.test(message)) {
+      return new GpuAgentError(gpuAgentErrorCodes.permissionDenied, `${tool} needs more privileges: ${message}`);
+    }
+    return new GpuAgentError(gpuAgentErrorCodes.driverError, `${tool} failed: ${message}`);
+  }
+}
@@ -0,0 +1,273 @@
+import fs from "fs";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { z } from "zod";
+import type { JobResult } from "@shared/jobs";
+import { cleanupOptionsSchema, type CleanupOptions } from "@shared/cleanup";
+import { deferStartupSchema } from "@shared/startup";
+import { applyTcpTweaksSchema, type ApplyTcpTweaksRequest } from "@shared/tcpTweaks";
+import type { ProcessRule } from "@shared/gameProfiles";
+import { LOWER_PRIORITY_NICE, RAISE_PRIORITY_NICE } from "@shared/processes";
+import type { JobContext, OptimizationTask } from "./jobs";
+import { hostFs } from "./hostFs";
+import { storage } from "./storage";
+import { processManager } from "./processes";
+import { matchesExecutable, matchesPattern } from "./gameDetection";
+import { createSecurityLog } from "./utils";
+import { snapshotRestore } from "./snapshots";
+import { hostCleanupEnvironment, removeFiles, scanCleanup } from "./cleanup";
+import { startupManager } from "./startup";
+import { tcpTweaker } from "./tcpTweaks";
+
+const execFileAsync = promisify(execFile);
+
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${Math.round(bytes / 1024)} KB`;
+}
+
+async function linuxOnly(): Promise<string | null> {
+  return process.platform === "linux" ? null : "Only available on Linux hosts";
+}
+
+const tempCleanup: OptimizationTask<CleanupOptions> = {
+  id: "tempCleanup",
+  title: "Temporary File Cleanup",
+  description: "Remove old temporary files, caches, thumbnails and logs",
+  steps: ["Scanning temporary files", "Removing files"],
+  params: cleanupOptionsSchema.default({}),
+  unavailableReason: linuxOnly,
+  async run(ctx, options) {
+    await ctx.step("Scanning temporary files", 0);
+    const scanned = await scanCleanup(options, hostCleanupEnvironment());
+
+    const report = await removeFiles(scanned, (done, total, category) =>
+      ctx.step(`Removing ${category.title.toLowerCase()}`, 30 + (70 * done) / Math.max(1, total)));
+
+    return {
+      summary: report.files ? `Removed ${report.files} files, freeing ${formatBytes(report.bytes)}` : "No stale temporary files found",
+      bytesFreed: report.bytes,
+      itemsChanged: report.files,
+      items: report.categories.map(category =>
+        `${category.title}: ${category.files} files, ${formatBytes(category.bytes)}` +
+        (category.failed ? ` (${category.failed} could not be removed)` : "")),
+    };
+  },
+};
+
+async function memFreeKb(): Promise<number> {
+  const text = await hostFs.readFile("/proc/meminfo");
+  const match = text?.match(/^MemFree:\s+(\d+)/m);
+  if (!match) throw new Error("Cannot read /proc/meminfo");
+  return Number(match[1]);
+}
+
+const ramCleaner: OptimizationTask = {
+  id: "ramCleaner",
+  title: "RAM Optimizer",
+  description: "Flush file system buffers and drop the page cache",
+  steps: ["Reading memory usage", "Flushing file system buffers", "Dropping page cache", "Measuring freed memory"],
+  unavailableReason: linuxOnly,
+  async run(ctx) {
+    await ctx.step("Reading memory usage", 0);
+    const before = await memFreeKb();
+
+    await ctx.step("Flushing file system buffers", 20);
+    await execFileAsync("sync");
+
+    await ctx.step("Dropping page cache", 60);
+    let dropped = true;
+    try {
+      await fs.promises.writeFile("/proc/sys/vm/drop_caches", "1");
+    } catch {
+      dropped = false; // needs root
+    }
+
+    await ctx.step("Measuring freed memory", 90);
+    const bytesFreed = Math.max(0, (await memFreeKb()) - before) * 1024;
+    return {
+      summary: dropped
+        ? `Freed ${formatBytes(bytesFreed)} of memory`
+        : `Flushed buffers and freed ${formatBytes(bytesFreed)}; dropping the page cache needs root`,
+      bytesFreed,
+      itemsChanged: dropped ? 1 : 0,
+    };
+  },
+};
+
+// Rules name executables; "chrome.exe" from a Windows habit still matches "chrome"
+export function ruleMatches(processName: string, rule: ProcessRule): boolean {
+  const names = [rule.process, rule.process.replace(/\.exe$/i, "")];
+  return names.some(name => matchesPattern(processName, name) || matchesExecutable(processName, name));
+}
+
+const ruleVerbs: Record<ProcessRule["action"], string> = {
+  kill: "terminated",
+  lowerPriority: "priority lowered",
+  raisePriority: "priority raised",
+};
+
+const bgProcessMgmt: OptimizationTask = {
+  id: "bgProcessMgmt",
+  title: "Background Processes",
+  description: "Apply the active game profile's background process rules",
+  steps: ["Reading active profile", "Applying process rules"],
+  unavailableReason: linuxOnly,
+  async run(ctx) {
+    await ctx.step("Reading active profile", 0);
+    const profile = (await storage.getGameProfiles(ctx.userId)).find(p => p.userId === ctx.userId && p.isActive);
+    const rules = profile?.settings.processRules ?? [];
+    if (!profile || rules.length === 0) {
+      return { summary: profile ? `${profile.name} has no background process rules` : "No game profile is active", itemsChanged: 0 };
+    }
+
+    await ctx.step("Applying process rules", 30);
+    const processes = (await processManager.list()).filter(proc => !proc.protectedReason);
+    const items: string[] = [];
+    let changed = 0;
+
+    for (const rule of rules) {
+      const targets = processes
+        .filter(proc => ruleMatches(proc.name, rule))
+        .map(proc => ({ pid: proc.pid, name: proc.name }));
+      if (targets.length === 0) continue;
+
+      const results = rule.action === "kill"
+        ? await processManager.kill(targets, "SIGTERM")
+        : await processManager.renice(targets, rule.action === "lowerPriority" ? LOWER_PRIORITY_NICE : RAISE_PRIORITY_NICE);
+      results.forEach(result => {
+        if (result.ok) changed++;
+        items.push(`${result.name} (${result.pid}): ${result.ok ? ruleVerbs[rule.action] : result.error}`);
+      });
+    }
+
+    // Logged like kills and renices made from the process manager
+    if (items.length) {
+      await createSecurityLog({ userId: ctx.userId, event: "process_rules_applied", details: { profile: profile.name, items } });
+    }
+
+    return {
+      summary: items.length
+        ? `Applied ${profile.name} rules to ${changed} of ${items.length} processes`
+        : `None of ${profile.name}'s background processes are running`,
+      itemsChanged: changed,
+      items,
+    };
+  },
+};
+
+// Snapshots the autostart folder and user services first, so the whole run
+// can be undone from its "Before Startup Manager" snapshot
+const startupManagerTask: OptimizationTask<{ ids?: string[] }> = {
+  id: "startupManager",
+  title: "Startup Manager",
+  description: "Keep programs that are not needed while gaming from starting at login",
+  steps: ["Reading startup items", "Disabling startup items"],
+  params: deferStartupSchema,
+  affects: ["autostart", "services"],
+  unavailableReason: linuxOnly,
+  async run(ctx, { ids }) {
+    await ctx.step("Reading startup items", 0);
+    const targets = (await startupManager.list()).filter(item =>
+      item.enabled && (ids ? ids.includes(item.id) : item.deferWhileGaming));
+    if (targets.length === 0) {
+      return { summary: "No startup items to disable", itemsChanged: 0 };
+    }
+
+    const items: string[] = [];
+    let changed = 0;
+    for (let index = 0; index < targets.length; index++) {
+      const target = targets[index];
+      await ctx.step("Disabling startup items", 10 + (90 * index) / targets.length);
+      try {
+        const result = await startupManager.setEnabled(target.id, false);
+        if ("error" in result) {
+          items.push(`${target.name}: ${result.error}`);
+          continue;
+        }
+        changed++;
+        items.push(`${target.name}: disabled (${target.impactReason.toLowerCase()})`);
+      } catch (error) {
+        items.push(`${target.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    await createSecurityLog({ userId: ctx.userId, event: "startup_items_changed", details: { items } });
+
+    return {
+      summary: `Disabled ${changed} of ${targets.length} startup items`,
+      itemsChanged: changed,
+      items,
+    };
+  },
+};
+
+// The values to revert to are kept as sysctl baselines; the "Before" snapshot
+// is a second way back
+const tcpTweaksApply: OptimizationTask<ApplyTcpTweaksRequest> = {
+  id: "tcpTweaks",
+  title: "TCP/IP Optimization",
+  description: "Apply low-latency kernel network settings",
+  steps: ["Reading current values", "Applying kernel parameters", "Writing drop-in file"],
+  params: applyTcpTweaksSchema,
+  affects: ["sysctl"],
+  unavailableReason: linuxOnly,
+  run: (ctx, params) => tcpTweaker.apply(ctx, params),
+};
+
+const tcpTweaksRevert: OptimizationTask = {
+  id: "tcpTweaksRevert",
+  title: "Revert TCP/IP Optimization",
+  description: "Put the network settings back to their values from before the optimization",
+  steps: ["Reading captured values", "Restoring kernel parameters", "Removing drop-in file"],
+  affects: ["sysctl"],
+  unavailableReason: linuxOnly,
+  run: (ctx) => tcpTweaker.revert(ctx),
+};
+
+// Temporary file cleanup deletes files, so it only runs on its own, after the
+// user has seen the dry run of what it would remove
+const quickSubtasks = [ramCleaner, bgProcessMgmt];
+
+// Runs the chosen tasks in turn as one job, each taking an equal share of the progress bar
+const quickOptimize: OptimizationTask<{ tasks: string[] }> = {
+  id: "quickOptimize",
+  title: "Optimize Now",
+  description: "Free memory and apply background process rules",
+  steps: quickSubtasks.map(task => task.title),
+  params: z.object({
+    tasks: z.array(z.enum(["ramCleaner", "bgProcessMgmt"])).min(1).default(["ramCleaner", "bgProcessMgmt"]),
+  }).default({}),
+  async run(ctx, { tasks }) {
+    const chosen = quickSubtasks.filter(task => tasks.includes(task.id));
+    const share = 100 / chosen.length;
+    const result: Required<Omit<JobResult, "snapshotId">> = { summary: "", bytesFreed: 0, itemsChanged: 0, items: [] };
+
+    for (let index = 0; index < chosen.length; index++) {
+      const task = chosen[index];
+      const reason = task.unavailableReason ? await task.unavailableReason() : null;
+      if (reason) {
+        result.items.push(`${task.title}: skipped (${reason})`);
+        continue;
+      }
+      const sub: JobContext = {
+        ...ctx,
+        step: (name, progress) => ctx.step(`${task.title}: ${name}`, share * index + (share * progress) / 100),
+      };
+      const part: JobResult = await task.run(sub, task.params ? task.params.parse(undefined) : undefined);
+      result.bytesFreed += part.bytesFreed ?? 0;
+      result.itemsChanged += part.itemsChanged ?? 0;
+      result.items.push(`${task.title}: ${part.summary}`, ...(part.items ?? []).map(item => `  ${item}`));
+    }
+
+    result.summary = result.bytesFreed > 0
+      ? `Freed ${formatBytes(result.bytesFreed)} and changed ${result.itemsChanged} items`
+      : `Changed ${result.itemsChanged} items`;
+    return result;
+  },
+};
+
+export const builtInTasks: OptimizationTask[] = [
+  tempCleanup, ramCleaner, bgProcessMgmt, startupManagerTask, tcpTweaksApply, tcpTweaksRevert, quickOptimize, snapshotRestore,
+];
@@ -0,0 +1,52 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { execFile } from "child_process";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+export function isRoot(): boolean {
+  return process.getuid?.() === 0;
+}
+
+// Runs a command as root: directly when the server is root, otherwise through
+// `sudo -n`, which fails at once instead of asking for a password when no
+// sudoers rule allows it. When it is given, `input` goes to the command's stdin
+export async function runPrivileged(command: string, args: string[], input?: string): Promise<void> {
+  const run = isRoot()
+    ? execFileAsync(command, args, { timeout: 10_000 })
+    : execFileAsync("sudo", ["-n", command, ...args], { timeout: 10_000 });
+  if (input !== undefined) run.child.stdin?.end(input);
+  await run;
+}
+
+// How root-owned configuration files are replaced; replaced in checks
+export type FileWriter = (file: string, content: string | null) => Promise<void>;
+
+// Replaces a root-owned file, or removes it for null
+export const writePrivilegedFile: FileWriter = async (file, content) => {
+  if (content === null) {
+    if (isRoot()) await fs.promises.rm(file, { force: true });
+    else await runPrivileged("rm", ["-f", "--", file]);
+    return;
+  }
+  if (isRoot()) {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, content, { mode: 0o644 });
+    return;
+  }
+  const staged = path.join(await fs.promises.mkdtemp(path.join(os.tmpdir(), "nexus-privileged-")), path.basename(file));
+  try {
+    await fs.promises.writeFile(staged, content);
+    await runPrivileged("install", ["-D", "-m", "644", "--", staged, file]);
+  } finally {
+    await fs.promises.rm(path.dirname(staged), { recursive: true, force: true });
+  }
+};
+
+// Writes one sysfs attribute in place, which replacing the file cannot do
+export async function writePrivilegedAttribute(file: string, value: string): Promise<void> {
+  if (isRoot()) return fs.promises.writeFile(file, value);
+  await runPrivileged("tee", ["--", file], value);
+}
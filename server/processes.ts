@@ -0,0 +1,214 @@
+import os from "os";
+import type {
+  ProcessActionResult, ProcessEntry, ProcessListResponse, ProcessQuery, ProcessSignal
+} from "@shared/processes";
+import { hostFs, type HostFs } from "./hostFs";
+import { parseProcStat } from "./telemetry";
+import { matchesPattern } from "./gameDetection";
+
+// Killing or renicing these takes the desktop, audio or network down with it.
+// PROTECTED_PROCESSES adds comma-separated names ("*" and "?" allowed).
+const PROTECTED_NAMES = [
+  "systemd", "systemd-*", "init", "kthreadd", "dbus-daemon", "dbus-broker*",
+  "Xorg", "Xwayland", "gnome-shell", "kwin_*", "plasmashell", "sway", "Hyprland",
+  "gdm*", "sddm*", "lightdm", "login", "sshd", "polkitd", "NetworkManager", "wpa_supplicant",
+  "pipewire*", "wireplumber", "pulseaudio",
+];
+
+export interface PidStat {
+  ppid: number;
+  ticks: number; // utime + stime, in clock ticks
+  nice: number;
+}
+
+export interface PidStatus {
+  uid: number;
+  rssKb: number; // 0 for kernel threads, which have no VmRSS
+}
+
+// /proc/<pid>/stat; the name in parentheses may itself contain spaces and ")"
+export function parsePidStat(text: string): PidStat | null {
+  const fields = text.slice(text.lastIndexOf(")") + 2).split(" ");
+  // fields[0] is the state, the third field of the file
+  const field = (n: number) => Number(fields[n - 3]);
+  const stat = { ppid: field(4), ticks: field(14) + field(15), nice: field(19) };
+  return Object.values(stat).every(Number.isFinite) ? stat : null;
+}
+
+export function parsePidStatus(text: string): PidStatus | null {
+  const uid = text.match(/^Uid:\s+(\d+)/m);
+  if (!uid) return null;
+  const rss = text.match(/^VmRSS:\s+(\d+)\s+kB/m);
+  return { uid: Number(uid[1]), rssKb: rss ? Number(rss[1]) : 0 };
+}
+
+export function parsePasswd(text: string): Map<number, string> {
+  const users = new Map<number, string>();
+  text.split("\n").forEach(line => {
+    const [name, , uid] = line.split(":");
+    if (name && uid && /^\d+$/.test(uid)) users.set(Number(uid), name);
+  });
+  return users;
+}
+
+// The server and everything it was started from, such as the shell or tsx
+function ancestorsOf(pid: number, processes: Map<number, { ppid: number }>): Set<number> {
+  const chain = new Set<number>();
+  for (let current = pid; current > 0 && !chain.has(current); current = processes.get(current)?.ppid ?? 0) {
+    chain.add(current);
+  }
+  return chain;
+}
+
+export function protectedReason(
+  proc: { pid: number; ppid: number; name: string },
+  serverChain: Set<number>,
+  denylist: string[],
+): string | null {
+  if (proc.pid === 1) return "Init process";
+  if (proc.pid === 2 || proc.ppid === 2) return "Kernel thread";
+  if (serverChain.has(proc.pid)) return "Runs Nexus Optimizer";
+  if (denylist.some(pattern => matchesPattern(proc.name, pattern))) return "Core system process";
+  return null;
+}
+
+export function queryProcesses(processes: ProcessEntry[], query: ProcessQuery): ProcessListResponse {
+  const q = query.q?.toLowerCase();
+  const matching = processes.filter(proc =>
+    (!q || proc.name.toLowerCase().includes(q) || proc.command.toLowerCase().includes(q)) &&
+    (!query.user || proc.user === query.user));
+
+  const compare: Record<ProcessQuery["sort"], (a: ProcessEntry, b: ProcessEntry) => number> = {
+    pid: (a, b) => a.pid - b.pid,
+    name: (a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: "base" }),
+    user: (a, b) => a.user.localeCompare(b.user),
+    cpu: (a, b) => a.cpuPercent - b.cpuPercent,
+    memory: (a, b) => a.rssBytes - b.rssBytes,
+  };
+  const direction = query.order === "asc" ? 1 : -1;
+  // Ties fall back to pid so a live list does not shuffle
+  matching.sort((a, b) => direction * compare[query.sort](a, b) || a.pid - b.pid);
+
+  return { processes: matching.slice(0, query.limit), total: matching.length };
+}
+
+// How signals and priorities reach the host; replaced in checks
+export interface ProcessControl {
+  signal(pid: number, signal: ProcessSignal): void;
+  setNice(pid: number, nice: number): void;
+}
+
+export const hostProcessControl: ProcessControl = {
+  signal: (pid, signal) => {
+    process.kill(pid, signal);
+  },
+  setNice: (pid, nice) => os.setPriority(pid, nice),
+};
+
+function describeError(error: unknown): string {
+  const code = (error as NodeJS.ErrnoException)?.code;
+  if (code === "EPERM" || code === "EACCES") return "Permission denied";
+  if (code === "ESRCH") return "Process has exited";
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Lists host processes from /proc and signals or renices them, refusing
+// protected ones. CPU% is measured between consecutive list() calls, so the
+// first listing reports 0 for every process.
+export class ProcessManager {
+  private previous: { total: number; ticks: Map<number, number> } | null = null;
+
+  constructor(
+    private fs: HostFs = hostFs,
+    private control: ProcessControl = hostProcessControl,
+    private serverPid = process.pid,
+  ) {}
+
+  async list(): Promise<ProcessEntry[]> {
+    return this.read(true);
+  }
+
+  kill(targets: { pid: number; name: string }[], signal: ProcessSignal): Promise<ProcessActionResult[]> {
+    return this.apply(targets, pid => this.control.signal(pid, signal));
+  }
+
+  renice(targets: { pid: number; name: string }[], nice: number): Promise<ProcessActionResult[]> {
+    return this.apply(targets, pid => this.control.setNice(pid, nice));
+  }
+
+  private async apply(targets: { pid: number; name: string }[], action: (pid: number) => void) {
+    // Actions read /proc again but leave the CPU baseline to list()
+    const processes = new Map((await this.read(false)).map(proc => [proc.pid, proc]));
+
+    return targets.map(({ pid, name }): ProcessActionResult => {
+      const proc = processes.get(pid);
+      if (!proc || proc.name !== name) return { pid, name, ok: false, error: "Process has exited" };
+      if (proc.protectedReason) return { pid, name, ok: false, error: `Protected: ${proc.protectedReason}` };
+      try {
+        action(pid);
+        return { pid, name, ok: true };
+      } catch (error) {
+        return { pid, name, ok: false, error: describeError(error) };
+      }
+    });
+  }
+
+  private async read(trackCpu: boolean): Promise<ProcessEntry[]> {
+    const [statText, passwdText, entries] = await Promise.all([
+      this.fs.readFile("/proc/stat"),
+      this.fs.readFile("/etc/passwd"),
+      this.fs.readDir("/proc"),
+    ]);
+    const total = (statText ? parseProcStat(statText) : null)?.total ?? 0;
+    const users = passwdText ? parsePasswd(passwdText) : new Map<number, string>();
+    const pids = entries.filter(name => /^\d+$/.test(name)).map(Number).sort((a, b) => a - b);
+
+    const raw = (await Promise.all(pids.map(pid => this.readPid(pid)))).filter(
+      (proc): proc is NonNullable<typeof proc> => proc !== null);
+
+    const previous = this.previous;
+    if (trackCpu) {
+      this.previous = { total, ticks: new Map(raw.map(proc => [proc.pid, proc.stat.ticks])) };
+    }
+    const elapsed = previous ? total - previous.total : 0;
+    const cpuPercent = (pid: number, ticks: number) => {
+      const before = previous?.ticks.get(pid);
+      if (!trackCpu || elapsed <= 0 || before === undefined) return 0;
+      return Math.round((Math.max(0, ticks - before) / elapsed) * 1000) / 10;
+    };
+
+    const denylist = [
+      ...PROTECTED_NAMES,
+      ...(process.env.PROTECTED_PROCESSES ?? "").split(",").map(name => name.trim()).filter(Boolean),
+    ];
+    const serverChain = ancestorsOf(this.serverPid, new Map(raw.map(proc => [proc.pid, proc.stat])));
+
+    return raw.map(({ pid, name, command, stat, status }) => ({
+      pid,
+      ppid: stat.ppid,
+      name,
+      command,
+      user: users.get(status.uid) ?? String(status.uid),
+      cpuPercent: cpuPercent(pid, stat.ticks),
+      rssBytes: status.rssKb * 1024,
+      nice: stat.nice,
+      protectedReason: protectedReason({ pid, ppid: stat.ppid, name }, serverChain, denylist),
+    }));
+  }
+
+  private async readPid(pid: number) {
+    const [comm, statText, statusText, cmdline] = await Promise.all([
+      this.fs.readFile(`/proc/${pid}/comm`),
+      this.fs.readFile(`/proc/${pid}/stat`),
+      this.fs.readFile(`/proc/${pid}/status`),
+      this.fs.readFile(`/proc/${pid}/cmdline`),
+    ]);
+    const stat = statText ? parsePidStat(statText) : null;
+    const status = statusText ? parsePidStatus(statusText) : null;
+    // The process exited while it was being read
+    if (comm === null || !stat || !status) return null;
+    return { pid, name: comm, command: (cmdline ?? "").split("\0").filter(Boolean).join(" "), stat, status };
+  }
+}
+
+export const processManager = new ProcessManager();
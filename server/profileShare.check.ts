@@ -0,0 +1,92 @@
+// Round-trips game profiles through documents and share codes, and checks
+// migration from format 1, unknown-field reporting and the import diff.
+//
+//   npm run profiles:check
+import assert from "node:assert/strict";
+import { defaultProfileSettings } from "@shared/gameProfiles";
+import { PROFILE_FORMAT, PROFILE_FORMAT_VERSION } from "@shared/profileShare";
+import { storage } from "./storage";
+import {
+  decodeShareCode, diffProfiles, exportProfile, previewProfileImport, readProfileImport
+} from "./profileShare";
+
+const valorant = {
+  name: "Valorant",
+  icon: "fas fa-gun",
+  settings: {
+    ...defaultProfileSettings,
+    priority: "high" as const,
+    fpsCap: 240,
+    processRules: [{ process: "Discord", action: "lowerPriority" as const }],
+  },
+};
+
+async function main() {
+  // Document and share code carry the same profile
+  const exported = exportProfile(valorant, new Date("2024-05-01T20:00:00Z"));
+  assert.equal(exported.document.version, PROFILE_FORMAT_VERSION);
+  assert.match(exported.code, /^NXP1\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]{8}$/);
+  assert.deepEqual(decodeShareCode(exported.code), exported.document);
+  const wrapped = exported.code.replace(/(.{40})/g, "$1\n  ");
+  assert.deepEqual(readProfileImport({ code: wrapped }), {
+    document: exported.document, sourceVersion: PROFILE_FORMAT_VERSION, unknownFields: [],
+  });
+
+  // A changed character fails the checksum
+  const [prefix, data, sum] = exported.code.split(".");
+  const flipped = `${prefix}.${data.slice(0, 10)}${data[10] === "A" ? "B" : "A"}${data.slice(11)}.${sum}`;
+  assert.match((readProfileImport({ code: flipped }) as { error: string }).error, /checksum/);
+  assert.ok("error" in readProfileImport({ code: "hello" }));
+
+  // Format 1 kept settings as a JSON string; unknown keys are reported, not kept
+  const legacy = readProfileImport({
+    document: {
+      format: PROFILE_FORMAT,
+      version: 1,
+      profile: { name: "Fortnite", icon: "fas fa-hammer", settings: JSON.stringify({ priority: "medium", optimization: "fps", rgb: "rainbow" }) },
+      exportedBy: "someone",
+    },
+  });
+  assert.ok(!("error" in legacy));
+  assert.equal(legacy.sourceVersion, 1);
+  assert.equal(legacy.document.profile.settings.optimization, "fps");
+  assert.equal(legacy.document.profile.settings.gpuPreset, "default");
+  assert.deepEqual(legacy.unknownFields, ["profile.settings.rgb", "exportedBy"]);
+  assert.ok(!("rgb" in legacy.document.profile.settings));
+
+  const nested = readProfileImport({
+    document: { ...exported.document, profile: { ...valorant, settings: { ...valorant.settings, processRules: [{ process: "a", action: "kill", when: "always" }] } } },
+  });
+  assert.deepEqual((nested as { unknownFields: string[] }).unknownFields, ["profile.settings.processRules.0.when"]);
+
+  assert.match((readProfileImport({ document: { ...exported.document, version: 99 } }) as { error: string }).error, /newer version/);
+  const invalid = readProfileImport({ document: { ...exported.document, profile: { ...valorant, settings: { fpsCap: 5 } } } });
+  assert.equal((invalid as { error: string }).error, "Profile document is invalid");
+
+  // Diff against the user's own copy before the default template
+  assert.deepEqual(diffProfiles(valorant, { ...valorant, settings: { ...valorant.settings, fpsCap: 144 } }), [
+    { path: "settings.fpsCap", current: 240, incoming: 144 },
+  ]);
+  const user = await storage.createUser({ username: "profiles_check", passwordHash: "hash" });
+  const template = await previewProfileImport(user.id, { code: exported.code });
+  assert.ok(!("error" in template));
+  assert.equal(template.existing?.readOnly, true);
+  assert.ok(template.changes.some(change => change.path === "settings.fpsCap"));
+
+  const own = await storage.createGameProfile({
+    ...valorant,
+    userId: user.id,
+    settings: { ...valorant.settings, network: { ...valorant.settings.network, qos: true } },
+  });
+  const preview = await previewProfileImport(user.id, { code: exported.code });
+  assert.ok(!("error" in preview));
+  assert.deepEqual(preview.existing, { id: own.id, name: "Valorant", readOnly: false });
+  assert.deepEqual(preview.changes, [{ path: "settings.network.qos", current: true, incoming: false }]);
+
+  console.log("✓ profile export and import");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
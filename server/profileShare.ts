@@ -0,0 +1,168 @@
+import crypto from "crypto";
+import zlib from "zlib";
+import { z } from "zod";
+import type { GameProfile } from "@shared/schema";
+import {
+  PROFILE_FORMAT, PROFILE_FORMAT_VERSION, SHARE_CODE_PREFIX, profileDocumentSchema,
+  type ProfileChange, type ProfileDocument, type ProfileExport, type ProfileImportPreview
+} from "@shared/profileShare";
+import { storage } from "./storage";
+
+// Inflated documents are a few hundred bytes; anything this large is not a profile
+const MAX_DOCUMENT_BYTES = 64 * 1024;
+
+type RawDocument = Record<string, any>;
+
+// Each entry upgrades a document from its key's version to the next one
+const migrations: Record<number, (doc: RawDocument) => RawDocument> = {
+  1: (doc) => {
+    const { settings, ...profile } = doc.profile ?? {};
+    return {
+      ...doc,
+      version: 2,
+      profile: { ...profile, settings: typeof settings === "string" ? JSON.parse(settings) : settings },
+    };
+  },
+};
+
+export type ReadResult =
+  | { document: ProfileDocument; sourceVersion: number; unknownFields: string[] }
+  | { error: string; details?: unknown };
+
+export function exportProfile(profile: Pick<GameProfile, "name" | "icon" | "settings">, now = new Date()): ProfileExport {
+  const document: ProfileDocument = {
+    format: PROFILE_FORMAT,
+    version: PROFILE_FORMAT_VERSION,
+    exportedAt: now.toISOString(),
+    profile: { name: profile.name, icon: profile.icon, settings: profile.settings },
+  };
+  return { document, code: encodeShareCode(document) };
+}
+
+function checksum(bytes: Buffer) {
+  return crypto.createHash("sha256").update(bytes).digest("base64url").slice(0, 8);
+}
+
+export function encodeShareCode(document: ProfileDocument): string {
+  const packed = zlib.deflateRawSync(Buffer.from(JSON.stringify(document)), { level: 9 });
+  return `${SHARE_CODE_PREFIX}.${packed.toString("base64url")}.${checksum(packed)}`;
+}
+
+// Whitespace is ignored so codes wrapped by chat apps still paste
+export function decodeShareCode(code: string): unknown {
+  const [prefix, data, sum, ...rest] = code.replace(/\s+/g, "").split(".");
+  if (prefix !== SHARE_CODE_PREFIX || !data || !sum || rest.length > 0) {
+    throw new Error("Not a Nexus profile share code");
+  }
+
+  const packed = Buffer.from(data, "base64url");
+  if (checksum(packed) !== sum) {
+    throw new Error("Share code checksum does not match; it may be incomplete or mistyped");
+  }
+  const json = zlib.inflateRawSync(packed, { maxOutputLength: MAX_DOCUMENT_BYTES }).toString("utf-8");
+  return JSON.parse(json);
+}
+
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodDefault) return unwrap(schema._def.innerType);
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return unwrap(schema.unwrap());
+  if (schema instanceof z.ZodEffects) return unwrap(schema.innerType());
+  return schema;
+}
+
+// Object keys the schema does not declare, as dotted paths ("profile.settings.rgb")
+export function findUnknownFields(value: unknown, schema: z.ZodTypeAny, path = ""): string[] {
+  const type = unwrap(schema);
+  const at = (key: string | number) => (path ? `${path}.${key}` : String(key));
+
+  if (type instanceof z.ZodArray && Array.isArray(value)) {
+    return value.flatMap((item, index) => findUnknownFields(item, type.element, at(index)));
+  }
+  if (type instanceof z.ZodObject && value && typeof value === "object" && !Array.isArray(value)) {
+    const shape = type.shape as Record<string, z.ZodTypeAny>;
+    return Object.entries(value).flatMap(([key, child]) =>
+      key in shape ? findUnknownFields(child, shape[key], at(key)) : [at(key)]);
+  }
+  return [];
+}
+
+// Validates a pasted share code or uploaded document and brings it to the current version
+export function readProfileImport(input: { code?: string; document?: unknown }): ReadResult {
+  let raw: unknown;
+  try {
+    raw = input.code !== undefined ? decodeShareCode(input.code) : input.document;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Unreadable share code" };
+  }
+
+  if (!raw || typeof raw !== "object" || (raw as RawDocument).format !== PROFILE_FORMAT) {
+    return { error: `Not a ${PROFILE_FORMAT} document` };
+  }
+  const sourceVersion = (raw as RawDocument).version;
+  if (!Number.isInteger(sourceVersion) || sourceVersion < 1) {
+    return { error: "Profile document has no valid version" };
+  }
+  if (sourceVersion > PROFILE_FORMAT_VERSION) {
+    return { error: `Profile was exported by a newer version (format ${sourceVersion}); update Nexus Optimizer to import it` };
+  }
+
+  let doc = raw as RawDocument;
+  try {
+    for (let version = sourceVersion; version < PROFILE_FORMAT_VERSION; version++) {
+      doc = migrations[version](doc);
+    }
+  } catch {
+    return { error: `Could not upgrade profile from format ${sourceVersion}` };
+  }
+
+  const parsed = profileDocumentSchema.safeParse(doc);
+  if (!parsed.success) {
+    return { error: "Profile document is invalid", details: parsed.error.errors };
+  }
+  return { document: parsed.data, sourceVersion, unknownFields: findUnknownFields(doc, profileDocumentSchema) };
+}
+
+function flatten(value: unknown, path: string, into: Map<string, unknown>) {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    Object.entries(value).forEach(([key, child]) => flatten(child, path ? `${path}.${key}` : key, into));
+  } else {
+    // Arrays such as processRules are compared as a whole
+    into.set(path, value);
+  }
+  return into;
+}
+
+export function diffProfiles(
+  current: Pick<GameProfile, "name" | "icon" | "settings">,
+  incoming: ProfileDocument["profile"],
+): ProfileChange[] {
+  const before = flatten({ name: current.name, icon: current.icon, settings: current.settings }, "", new Map());
+  const after = flatten(incoming, "", new Map());
+  const paths = Array.from(new Set([...Array.from(before.keys()), ...Array.from(after.keys())]));
+
+  return paths
+    .filter(path => JSON.stringify(before.get(path)) !== JSON.stringify(after.get(path)))
+    .map(path => ({ path, current: before.get(path) ?? null, incoming: after.get(path) ?? null }));
+}
+
+// What importing would do, compared against the user's profile of the same
+// name (or the one being replaced), falling back to a default template
+export async function previewProfileImport(
+  userId: string,
+  input: { code?: string; document?: unknown; replaceId?: string },
+): Promise<ProfileImportPreview | { error: string; details?: unknown }> {
+  const result = readProfileImport(input);
+  if ("error" in result) return result;
+
+  const profiles = await storage.getGameProfiles(userId);
+  const sameName = (profile: GameProfile) => profile.name.toLowerCase() === result.document.profile.name.toLowerCase();
+  const existing = input.replaceId
+    ? profiles.find(profile => profile.id === input.replaceId && profile.userId === userId)
+    : profiles.find(profile => profile.userId === userId && sameName(profile)) ?? profiles.find(sameName);
+
+  return {
+    ...result,
+    existing: existing ? { id: existing.id, name: existing.name, readOnly: !existing.userId } : null,
+    changes: existing ? diffProfiles(existing, result.document.profile) : [],
+  };
+}
@@ -0,0 +1,141 @@
+// Serves the realtime hub on loopback and talks to it as a browser would:
+// token check on upgrade, subscribe and unsubscribe, per-user sequence
+// numbers with replay on reconnect, heartbeats, and frames that are not
+// valid client messages.
+//
+//   npm run realtime:check
+import assert from "node:assert/strict";
+import http from "http";
+import jwt from "jsonwebtoken";
+import WebSocket from "ws";
+import { REALTIME_PATH, type ServerMessage } from "@shared/realtime";
+import { RealtimeHub } from "./realtime";
+
+const HEARTBEAT_MS = 200;
+
+interface TestClient {
+  socket: WebSocket;
+  next(type?: ServerMessage["type"]): Promise<ServerMessage>;
+  // Messages received and not taken by next() yet
+  pending: ServerMessage[];
+  send(frame: string | object): void;
+}
+
+function connect(baseUrl: string, query: Record<string, string>): Promise<TestClient> {
+  const socket = new WebSocket(`${baseUrl}${REALTIME_PATH}?${new URLSearchParams(query)}`);
+  const pending: ServerMessage[] = [];
+  let waiter: (() => void) | null = null;
+  socket.on("message", (raw) => {
+    pending.push(JSON.parse(raw.toString()));
+    waiter?.();
+  });
+
+  const next = async (type?: ServerMessage["type"]): Promise<ServerMessage> => {
+    const deadline = Date.now() + 2000;
+    for (;;) {
+      const index = pending.findIndex(message => !type || message.type === type);
+      if (index !== -1) return pending.splice(index, 1)[0];
+      if (Date.now() > deadline) assert.fail(`no ${type ?? "message"} arrived`);
+      await new Promise<void>(resolve => {
+        waiter = resolve;
+        setTimeout(resolve, 50);
+      });
+    }
+  };
+
+  return new Promise((resolve, reject) => {
+    socket.once("open", () => resolve({
+      socket,
+      next,
+      pending,
+      send: frame => socket.send(typeof frame === "string" ? frame : JSON.stringify(frame)),
+    }));
+    socket.once("unexpected-response", (_req, res) => reject(new Error(`HTTP ${res.statusCode}`)));
+    socket.once("error", reject);
+  });
+}
+
+const close = (client: TestClient) => new Promise<void>((resolve) => {
+  client.socket.once("close", () => resolve());
+  client.socket.close();
+});
+
+async function main() {
+  const hub = new RealtimeHub();
+  const server = http.createServer();
+  hub.attach(server, HEARTBEAT_MS);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `ws://127.0.0.1:${(server.address() as { port: number }).port}`;
+  const token = jwt.sign({ userId: "user-1", username: "realtime_check", twoFactorEnabled: false }, process.env.JWT_SECRET || "your-secret-key");
+  const publish = (topic: "alerts" | "jobs", text: string) => hub.publish("user-1", topic, "error", { message: text });
+
+  try {
+    // No token, or a forged one, is refused before the upgrade
+    await assert.rejects(connect(baseUrl, {}), /HTTP 401/);
+    await assert.rejects(connect(baseUrl, { token: jwt.sign({ userId: "user-1" }, "other-secret") }), /HTTP 401/);
+
+    const client = await connect(baseUrl, { token, topics: "alerts,bogus" });
+    const welcome = await client.next("welcome");
+    assert.ok(welcome.type === "welcome");
+    assert.deepEqual([welcome.data.lastSeq, welcome.data.heartbeatIntervalMs], [0, HEARTBEAT_MS]);
+    const streamId = welcome.data.streamId;
+    assert.deepEqual((await client.next("subscribed")).data, { topics: ["alerts"] });
+
+    // Only subscribed topics are delivered, but every message takes a seq
+    publish("alerts", "a1");
+    publish("jobs", "j2");
+    assert.deepEqual(await client.next("error"), { type: "error", data: { message: "a1" }, topic: "alerts", seq: 1 });
+    client.send({ type: "subscribe", topics: ["jobs"] });
+    assert.deepEqual((await client.next("subscribed")).data, { topics: ["alerts", "jobs"] });
+    publish("jobs", "j3");
+    assert.equal((await client.next("error")).seq, 3);
+    client.send({ type: "unsubscribe", topics: ["alerts"] });
+    assert.deepEqual((await client.next("subscribed")).data, { topics: ["jobs"] });
+    publish("alerts", "a4");
+    publish("jobs", "j5");
+    assert.equal((await client.next("error")).seq, 5);
+
+    // Ping is answered at once; heartbeats also come unprompted
+    client.send({ type: "ping" });
+    await client.next("heartbeat");
+    await client.next("heartbeat");
+
+    // Frames that are not client messages get an error and leave the connection up
+    for (const frame of ["not json", "null", "42", "[]", "\"ping\"", { type: "explode" }, { type: "subscribe", topics: "alerts" }, { topics: [] }]) {
+      client.send(frame);
+      const reply = await client.next("error");
+      assert.ok(reply.type === "error" && /^Invalid (JSON )?message/.test(reply.data.message), JSON.stringify(reply));
+    }
+    client.send({ type: "ping" });
+    await client.next("heartbeat");
+    assert.equal(client.socket.readyState, WebSocket.OPEN);
+    await close(client);
+
+    // Reconnecting with the last seq replays what was missed on the chosen topics
+    publish("alerts", "a6");
+    publish("jobs", "j7");
+    const resumed = await connect(baseUrl, { token, topics: "alerts,jobs", streamId, lastSeq: "5" });
+    assert.equal(((await resumed.next("welcome")).data as { lastSeq: number }).lastSeq, 7);
+    assert.deepEqual([(await resumed.next("error")).seq, (await resumed.next("error")).seq], [6, 7]);
+    await close(resumed);
+
+    const restarted = await connect(baseUrl, { token, topics: "alerts", streamId: "previous-run", lastSeq: "5" });
+    assert.deepEqual((await restarted.next("resync")).data, { reason: "Server restarted" });
+    await close(restarted);
+
+    for (let i = 0; i < 250; i++) publish("alerts", `flood ${i}`);
+    const late = await connect(baseUrl, { token, topics: "alerts", streamId, lastSeq: "7" });
+    assert.deepEqual((await late.next("resync")).data, { reason: "Missed messages are no longer buffered" });
+    assert.equal(late.pending.filter(message => message.type === "error").length, 0);
+    await close(late);
+  } finally {
+    hub.close();
+    await new Promise(resolve => server.close(resolve));
+  }
+  console.log("✓ realtime");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
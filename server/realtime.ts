@@ -0,0 +1,227 @@
+import type { Server, IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import { randomUUID } from "crypto";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import {
+  REALTIME_PATH, HEARTBEAT_INTERVAL_MS, realtimeTopics,
+  type RealtimeTopic, type ServerMessage, type ServerMessageMap,
+  type ServerMessageType, clientMessageSchema
+} from "@shared/realtime";
+import { verifyAccessToken } from "./auth";
+import { storage } from "./storage";
+
+const REPLAY_BUFFER_SIZE = 200; // per user
+const DEFAULT_TOPICS: RealtimeTopic[] = ["stats"];
+
+interface RealtimeClient {
+  socket: WebSocket;
+  userId: string;
+  topics: Set<RealtimeTopic>;
+  isAlive: boolean;
+}
+
+interface UserStream {
+  seq: number;
+  buffer: ServerMessage[];
+}
+
+// Holds every open /ws connection and fans out per-user messages by topic
+export class RealtimeHub {
+  // Changes on every restart so clients know their seq numbers are meaningless
+  readonly streamId = randomUUID();
+  private clients = new Set<RealtimeClient>();
+  private streams = new Map<string, UserStream>();
+  private wss: WebSocketServer | null = null;
+  private heartbeat: NodeJS.Timeout | null = null;
+  private heartbeatIntervalMs = HEARTBEAT_INTERVAL_MS;
+
+  attach(server: Server, heartbeatIntervalMs = HEARTBEAT_INTERVAL_MS) {
+    this.wss = new WebSocketServer({ noServer: true });
+    this.heartbeatIntervalMs = heartbeatIntervalMs;
+
+    server.on("upgrade", (req, socket, head) => this.handleUpgrade(req, socket, head));
+    this.heartbeat = setInterval(() => this.sendHeartbeats(), heartbeatIntervalMs);
+  }
+
+  close() {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.clients.forEach(client => client.socket.close(1001, "Server shutting down"));
+    this.wss?.close();
+  }
+
+  // Sends to every connection of one user that subscribed to the topic
+  publish<K extends ServerMessageType>(userId: string, topic: RealtimeTopic, type: K, data: ServerMessageMap[K]) {
+    const stream = this.getStream(userId);
+    const message = { type, data, topic, seq: ++stream.seq } as ServerMessage;
+
+    stream.buffer.push(message);
+    if (stream.buffer.length > REPLAY_BUFFER_SIZE) {
+      stream.buffer.shift();
+    }
+
+    this.clients.forEach(client => {
+      if (client.userId === userId && client.topics.has(topic)) {
+        this.send(client, message);
+      }
+    });
+  }
+
+  // Host-wide data (e.g. telemetry) goes into the stream of every connected user
+  broadcast<K extends ServerMessageType>(topic: RealtimeTopic, type: K, data: ServerMessageMap[K]) {
+    new Set(Array.from(this.clients, client => client.userId))
+      .forEach(userId => this.publish(userId, topic, type, data));
+  }
+
+  isUserConnected(userId: string): boolean {
+    return Array.from(this.clients).some(client => client.userId === userId);
+  }
+
+  private handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer) {
+    const url = new URL(req.url || "/", "http://localhost");
+    if (url.pathname !== REALTIME_PATH || !this.wss) {
+      return; // Not ours (e.g. Vite HMR)
+    }
+
+    // Browsers cannot set headers on a WebSocket, so the JWT travels as a query parameter
+    let userId: string;
+    try {
+      userId = verifyAccessToken(url.searchParams.get("token") || "").userId;
+    } catch {
+      socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    // Reconnecting clients pass their topics and last seq so replay happens before any live message
+    const topics = this.validTopics(url.searchParams.get("topics")?.split(",") ?? DEFAULT_TOPICS);
+    const streamId = url.searchParams.get("streamId");
+    const lastSeq = Number(url.searchParams.get("lastSeq"));
+    const resumeFrom = streamId && Number.isInteger(lastSeq) ? { streamId, lastSeq } : null;
+
+    this.wss.handleUpgrade(req, socket, head, (ws) => this.handleConnection(ws, userId, topics, resumeFrom));
+  }
+
+  private handleConnection(
+    socket: WebSocket,
+    userId: string,
+    topics: RealtimeTopic[],
+    resumeFrom: { streamId: string; lastSeq: number } | null,
+  ) {
+    const client: RealtimeClient = { socket, userId, topics: new Set(), isAlive: true };
+    this.clients.add(client);
+
+    socket.on("pong", () => { client.isAlive = true; });
+    socket.on("message", (raw) => this.handleMessage(client, raw));
+    socket.on("close", () => this.clients.delete(client));
+    socket.on("error", (error) => console.error("WebSocket error:", error));
+
+    this.send(client, {
+      type: "welcome",
+      data: {
+        streamId: this.streamId,
+        lastSeq: this.getStream(userId).seq,
+        heartbeatIntervalMs: this.heartbeatIntervalMs,
+      },
+    });
+    this.subscribe(client, topics);
+    if (resumeFrom) {
+      this.resume(client, resumeFrom.streamId, resumeFrom.lastSeq);
+    }
+  }
+
+  private handleMessage(client: RealtimeClient, raw: RawData) {
+    client.isAlive = true;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw.toString());
+    } catch {
+      return this.send(client, { type: "error", data: { message: "Invalid JSON message" } });
+    }
+    // Anything thrown here would escape the socket's handler and end the process
+    const result = clientMessageSchema.safeParse(parsed);
+    if (!result.success) {
+      return this.send(client, { type: "error", data: { message: `Invalid message: ${result.error.issues[0].message}` } });
+    }
+
+    const message = result.data;
+    switch (message.type) {
+      case "subscribe":
+        return this.subscribe(client, this.validTopics(message.topics));
+      case "unsubscribe":
+        this.validTopics(message.topics).forEach(topic => client.topics.delete(topic));
+        return this.send(client, { type: "subscribed", data: { topics: Array.from(client.topics) } });
+      case "ping":
+        return this.send(client, { type: "heartbeat", data: { timestamp: Date.now() } });
+    }
+  }
+
+  private subscribe(client: RealtimeClient, topics: RealtimeTopic[]) {
+    const added = topics.filter(topic => !client.topics.has(topic));
+    added.forEach(topic => client.topics.add(topic));
+    this.send(client, { type: "subscribed", data: { topics: Array.from(client.topics) } });
+
+    // New stats subscribers get the latest sample straight away instead of waiting for the next one
+    if (added.includes("stats")) {
+      storage.getLatestSystemStats(client.userId)
+        .then(stats => {
+          if (stats) this.send(client, { type: "systemStats", data: stats, topic: "stats" });
+        })
+        .catch(error => console.error("Failed to load latest stats for subscriber:", error));
+    }
+  }
+
+  // Replays buffered messages the client missed while disconnected
+  private resume(client: RealtimeClient, streamId: string, lastSeq: number) {
+    const stream = this.getStream(client.userId);
+    const oldest = stream.buffer[0]?.seq ?? stream.seq + 1;
+
+    if (streamId !== this.streamId || lastSeq > stream.seq) {
+      return this.send(client, { type: "resync", data: { reason: "Server restarted" } });
+    }
+    if (lastSeq < oldest - 1) {
+      return this.send(client, { type: "resync", data: { reason: "Missed messages are no longer buffered" } });
+    }
+
+    stream.buffer
+      .filter(message => message.seq! > lastSeq && client.topics.has(message.topic!))
+      .forEach(message => this.send(client, message));
+  }
+
+  private sendHeartbeats() {
+    this.clients.forEach(client => {
+      if (!client.isAlive) {
+        client.socket.terminate();
+        this.clients.delete(client);
+        return;
+      }
+      client.isAlive = false;
+      client.socket.ping();
+      // Browsers hide ping frames, so also send an application-level heartbeat
+      this.send(client, { type: "heartbeat", data: { timestamp: Date.now() } });
+    });
+  }
+
+  private validTopics(topics: unknown): RealtimeTopic[] {
+    return Array.isArray(topics)
+      ? topics.filter((topic): topic is RealtimeTopic => realtimeTopics.includes(topic))
+      : [];
+  }
+
+  private getStream(userId: string): UserStream {
+    let stream = this.streams.get(userId);
+    if (!stream) {
+      stream = { seq: 0, buffer: [] };
+      this.streams.set(userId, stream);
+    }
+    return stream;
+  }
+
+  private send(client: RealtimeClient, message: ServerMessage) {
+    if (client.socket.readyState === WebSocket.OPEN) {
+      client.socket.send(JSON.stringify(message));
+    }
+  }
+}
+
+export const realtime = new RealtimeHub();
@@ -5,6 +5,43 @@ import jwt from "jsonwebtoken";
 import { storage } from "./storage";
 import { authenticateToken, rateLimiter } from "./auth";
 import { createSecurityLog } from "./utils";
+import { realtime } from "./realtime";
+import {
+  generateTwoFactorSecret, buildEnrollment, matchTotpStep, consumeTotpCode,
+  consumeRecoveryCode, issueRecoveryCodes
+} from "./twoFactor";
+import { getStatsHistory, pickResolution } from "./statsHistory";
+import { statsHistoryQuerySchema, statsResolutions, MAX_HISTORY_BUCKETS } from "@shared/statsHistory";
+import { alertRuleSchema, updateAlertRuleSchema } from "@shared/alerts";
+import { alertEngine } from "./alerts";
+import { gameProfileSchema, gameProfileSettingsSchema, updateGameProfileSchema } from "@shared/gameProfiles";
+import { readHardwareInfo } from "./hardware";
+import { detectRunningGames } from "./gameDetection";
+import { profileImportSchema } from "@shared/profileShare";
+import { exportProfile, previewProfileImport } from "./profileShare";
+import {
+  killProcessesSchema, processQuerySchema, reniceProcessesSchema, type ProcessActionResult
+} from "@shared/processes";
+import { processManager, queryProcesses } from "./processes";
+import { createJobSchema, jobHistorySchema } from "@shared/jobs";
+import { jobEngine } from "./jobs";
+import { createSnapshotSchema, restoreSnapshotSchema } from "@shared/snapshots";
+import { snapshotService } from "./snapshots";
+import { cleanupOptionsSchema } from "@shared/cleanup";
+import { hostCleanupEnvironment, scanCleanup, summarize } from "./cleanup";
+import { setStartupItemSchema } from "@shared/startup";
+import { startupManager } from "./startup";
+import { tcpTweaker } from "./tcpTweaks";
+import { applyDnsSchema, dnsBenchmarkSchema } from "@shared/dns";
+import { benchmarkResolvers, hostResolverConfig } from "./dns";
+import { probeHistorySchema, startProbeSchema } from "@shared/latency";
+import { probeService } from "./latencyProbes";
+import { startUdpTestSchema, udpTestHistorySchema } from "@shared/udpTest";
+import { udpTestService } from "./udpTest";
+import { gpuSettingsSchema } from "@shared/gpuAgent";
+import { gpuAgent, gpuAgentFailure } from "./gpuAgent";
+import { gpuTuningHistorySchema, startGpuTuningSchema } from "@shared/gpuTuning";
+import { GPU_TUNING_IN_PROGRESS, gpuTuning } from "./gpuTuning";
 
 const router = Router();
 
@@ -13,6 +50,7 @@ const loginSchema = z.object({
   username: z.string().min(3).max(50),
   password: z.string().min(6),
   twoFactorCode: z.string().optional(),
+  recoveryCode: z.string().optional(),
 });
 
 const signupSchema = z.object({
@@ -41,18 +79,37 @@ const passwordResetSchema = z.object({
 const twoFactorSetupSchema = z.object({
   action: z.enum(["enable", "disable", "verify"]),
   code: z.string().optional(),
+  recoveryCode: z.string().optional(),
+});
+
+const recoveryCodesSchema = z.object({
+  code: z.string().min(6),
+});
+
+const sessionRangeSchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date().optional(),
+});
+
+const duplicateGameProfileSchema = z.object({
+  name: gameProfileSchema.shape.name.optional(),
+});
+
+const alertHistorySchema = z.object({
+  active: z.enum(["true", "false"]).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
 });
 
 // Authentication routes
 router.post("/auth/login", rateLimiter, async (req, res) => {
   try {
-    const { username, password, twoFactorCode } = loginSchema.parse(req.body);
+    const { username, password, twoFactorCode, recoveryCode } = loginSchema.parse(req.body);
     
     // Get user
     const user = await storage.getUserByUsername(username);
     if (!user) {
       await createSecurityLog({
-        action: "login_failed",
+        event: "login_failed",
         details: `Failed login attempt for username: ${username}`,
         ipAddress: req.ip,
         userAgent: req.get("User-Agent"),
@@ -79,7 +136,7 @@ router.post("/auth/login", rateLimiter, async (req, res) => {
         await storage.lockUser(user.id, lockoutUntil);
         await createSecurityLog({
           userId: user.id,
-          action: "account_locked",
+          event: "account_locked",
           details: "Account locked due to too many failed login attempts",
           ipAddress: req.ip,
           userAgent: req.get("User-Agent"),
@@ -91,7 +148,7 @@ router.post("/auth/login", rateLimiter, async (req, res) => {
       }
 
       await createSecurityLog({
-        action: "login_failed",
+        event: "login_failed",
         details: `Failed login attempt for user: ${user.id}`,
         ipAddress: req.ip,
         userAgent: req.get("User-Agent"),
@@ -102,26 +159,39 @@ router.post("/auth/login", rateLimiter, async (req, res) => {
     }
 
     // Check 2FA if enabled
-    if (user.twoFactorEnabled) {
-      if (!twoFactorCode) {
+    if (user.twoFactorEnabled && user.twoFactorSecret) {
+      if (!twoFactorCode && !recoveryCode) {
         return res.status(400).json({ 
           error: "Two-factor authentication code required",
           requires2FA: true 
         });
       }
       
-      // Verify 2FA code (you'd implement proper TOTP verification here)
-      // For now, we'll use a simple check
-      if (twoFactorCode !== "123456") { // Replace with proper TOTP verification
+      // A recovery code stands in for the TOTP code and is spent on use
+      const verified = recoveryCode
+        ? await consumeRecoveryCode(user.id, recoveryCode)
+        : await consumeTotpCode(user.id, user.twoFactorSecret, twoFactorCode!);
+
+      if (!verified) {
         await createSecurityLog({
           userId: user.id,
-          action: "2fa_failed",
-          details: "Invalid 2FA code provided",
+          event: "2fa_failed",
+          details: recoveryCode ? "Invalid recovery code provided" : "Invalid or reused 2FA code provided",
           ipAddress: req.ip,
           userAgent: req.get("User-Agent"),
         });
         return res.status(401).json({ error: "Invalid two-factor authentication code" });
       }
+
+      if (recoveryCode) {
+        await createSecurityLog({
+          userId: user.id,
+          event: "2fa_recovery_code_used",
+          details: { remaining: await storage.countUnusedRecoveryCodes(user.id) },
+          ipAddress: req.ip,
+          userAgent: req.get("User-Agent"),
+        });
+      }
     }
 
     // Reset failed login attempts and unlock account if needed
@@ -146,7 +216,7 @@ router.post("/auth/login", rateLimiter, async (req, res) => {
     // Log successful login
     await createSecurityLog({
       userId: user.id,
-      action: "login_success",
+      event: "login_success",
       details: "User logged in successfully",
       ipAddress: req.ip,
       userAgent: req.get("User-Agent"),
@@ -185,7 +255,7 @@ router.post("/auth/signup", rateLimiter, async (req, res) => {
 
     // Check if email already exists (if provided)
     if (email) {
-      const existingEmail = Array.from(storage["users"].values()).find(user => user.email === email);
+      const existingEmail = await storage.getUserByEmail(email);
       if (existingEmail) {
         return res.status(409).json({ error: "Email already exists" });
       }
@@ -216,7 +286,7 @@ router.post("/auth/signup", rateLimiter, async (req, res) => {
     // Log account creation
     await createSecurityLog({
       userId: user.id,
-      action: "account_created",
+      event: "account_created",
       details: "New user account created",
       ipAddress: req.ip,
       userAgent: req.get("User-Agent"),
@@ -249,7 +319,7 @@ router.post("/auth/logout", authenticateToken, async (req, res) => {
     
     await createSecurityLog({
       userId,
-      action: "logout",
+      event: "logout",
       details: "User logged out",
       ipAddress: req.ip,
       userAgent: req.get("User-Agent"),
@@ -294,7 +364,7 @@ router.post("/auth/password-reset-request", rateLimiter, async (req, res) => {
     const { email } = passwordResetRequestSchema.parse(req.body);
     
     // Find user by email
-    const user = Array.from(storage["users"].values()).find(u => u.email === email);
+    const user = await storage.getUserByEmail(email);
     if (!user) {
       // Don't reveal if email exists or not
       return res.json({ message: "If an account with that email exists, a password reset link has been sent" });
@@ -314,7 +384,7 @@ router.post("/auth/password-reset-request", rateLimiter, async (req, res) => {
     // Log password reset request
     await createSecurityLog({
       userId: user.id,
-      action: "password_reset_requested",
+      event: "password_reset_requested",
       details: "Password reset requested",
       ipAddress: req.ip,
       userAgent: req.get("User-Agent"),
@@ -353,11 +423,7 @@ router.post("/auth/password-reset", rateLimiter, async (req, res) => {
     const passwordHash = await bcrypt.hash(newPassword, saltRounds);
 
     // Update user password
-    const user = await storage.getUserById(resetRecord.userId);
-    if (user) {
-      user.passwordHash = passwordHash;
-      storage["users"].set(user.id, user);
-    }
+    await storage.updateUserPassword(resetRecord.userId, passwordHash);
 
     // Mark reset token as used
     await storage.markPasswordResetUsed(resetRecord.id);
@@ -365,7 +431,7 @@ router.post("/auth/password-reset", rateLimiter, async (req, res) => {
     // Log password reset
     await createSecurityLog({
       userId: resetRecord.userId,
-      action: "password_reset_completed",
+      event: "password_reset_completed",
       details: "Password reset completed",
       ipAddress: req.ip,
       userAgent: req.get("User-Agent"),
@@ -383,7 +449,7 @@ router.post("/auth/password-reset", rateLimiter, async (req, res) => {
 
 router.post("/auth/2fa/setup", authenticateToken, async (req, res) => {
   try {
-    const { action, code } = twoFactorSetupSchema.parse(req.body);
+    const { action, code, recoveryCode } = twoFactorSetupSchema.parse(req.body);
     const userId = (req as any).user.userId;
     const user = await storage.getUserById(userId);
     
@@ -392,29 +458,59 @@ router.post("/auth/2fa/setup", authenticateToken, async (req, res) => {
     }
 
     if (action === "enable") {
-      // Generate 2FA secret (in real app, use proper TOTP library)
-      const secret = Math.random().toString(36).substring(2, 15);
-      await storage.updateUser2FA(userId, secret, true);
+      if (user.twoFactorEnabled) {
+        return res.status(409).json({ error: "Two-factor authentication is already enabled" });
+      }
+
+      // The secret stays pending until the user proves their authenticator produces valid codes
+      const secret = generateTwoFactorSecret();
+      await storage.setPendingTwoFactorSecret(userId, secret);
+      const { otpauthUrl, qrCode } = await buildEnrollment(user.username, secret);
       
       await createSecurityLog({
         userId,
-        action: "2fa_enabled",
-        details: "Two-factor authentication enabled",
+        event: "2fa_setup_started",
+        details: "Two-factor authentication enrollment started",
         ipAddress: req.ip,
         userAgent: req.get("User-Agent"),
       });
 
       res.json({ 
-        message: "2FA enabled successfully",
-        secret, // In real app, show QR code instead
+        message: "Scan the QR code with your authenticator app, then verify a code to finish setup",
+        secret,
+        otpauthUrl,
+        qrCode,
         requiresVerification: true
       });
     } else if (action === "disable") {
+      if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+        return res.status(400).json({ error: "Two-factor authentication is not enabled" });
+      }
+
+      if (!code && !recoveryCode) {
+        return res.status(400).json({ error: "Verification code required" });
+      }
+
+      const verified = recoveryCode
+        ? await consumeRecoveryCode(userId, recoveryCode)
+        : await consumeTotpCode(userId, user.twoFactorSecret, code!);
+      if (!verified) {
+        await createSecurityLog({
+          userId,
+          event: "2fa_verification_failed",
+          details: "Invalid code provided while disabling two-factor authentication",
+          ipAddress: req.ip,
+          userAgent: req.get("User-Agent"),
+        });
+        return res.status(400).json({ error: "Invalid verification code" });
+      }
+
       await storage.updateUser2FA(userId, null, false);
+      await storage.replaceRecoveryCodes(userId, []);
       
       await createSecurityLog({
         userId,
-        action: "2fa_disabled",
+        event: "2fa_disabled",
         details: "Two-factor authentication disabled",
         ipAddress: req.ip,
         userAgent: req.get("User-Agent"),
@@ -425,29 +521,64 @@ router.post("/auth/2fa/setup", authenticateToken, async (req, res) => {
       if (!code) {
         return res.status(400).json({ error: "Verification code required" });
       }
-      
-      // Verify code (replace with proper TOTP verification)
-      if (code === "123456") { // Replace with proper verification
+
+      const pendingSecret = user.twoFactorPendingSecret;
+      const secret = pendingSecret ?? user.twoFactorSecret;
+      if (!secret) {
+        return res.status(400).json({ error: "No two-factor authentication setup in progress" });
+      }
+
+      let verified: boolean;
+      if (pendingSecret) {
+        // Enrollment: activating the secret resets step history, so claim the step afterwards
+        const step = matchTotpStep(pendingSecret, code);
+        verified = step !== null;
+        if (step !== null) {
+          await storage.updateUser2FA(userId, pendingSecret, true);
+          await storage.claimTwoFactorStep(userId, step);
+        }
+      } else {
+        verified = await consumeTotpCode(userId, secret, code);
+      }
+
+      if (!verified) {
         await createSecurityLog({
           userId,
-          action: "2fa_verified",
-          details: "Two-factor authentication verified",
+          event: "2fa_verification_failed",
+          details: "Two-factor authentication verification failed",
           ipAddress: req.ip,
           userAgent: req.get("User-Agent"),
         });
         
-        res.json({ message: "2FA verification successful" });
-      } else {
+        return res.status(400).json({ error: "Invalid verification code" });
+      }
+
+      if (!pendingSecret) {
         await createSecurityLog({
           userId,
-          action: "2fa_verification_failed",
-          details: "Two-factor authentication verification failed",
+          event: "2fa_verified",
+          details: "Two-factor authentication verified",
           ipAddress: req.ip,
           userAgent: req.get("User-Agent"),
         });
-        
-        res.status(400).json({ error: "Invalid verification code" });
+
+        return res.json({ message: "2FA verification successful" });
       }
+
+      const recoveryCodes = await issueRecoveryCodes(userId);
+
+      await createSecurityLog({
+        userId,
+        event: "2fa_enabled",
+        details: "Two-factor authentication enabled",
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+
+      res.json({
+        message: "2FA enabled successfully",
+        recoveryCodes,
+      });
     }
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -458,6 +589,71 @@ router.post("/auth/2fa/setup", authenticateToken, async (req, res) => {
   }
 });
 
+router.get("/auth/2fa/status", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const user = await storage.getUserById(userId);
+
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    res.json({
+      enabled: !!user.twoFactorEnabled,
+      pendingSetup: !!user.twoFactorPendingSecret,
+      recoveryCodesRemaining: user.twoFactorEnabled ? await storage.countUnusedRecoveryCodes(userId) : 0,
+    });
+  } catch (error) {
+    console.error("2FA status error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.post("/auth/2fa/recovery-codes", authenticateToken, rateLimiter, async (req, res) => {
+  try {
+    const { code } = recoveryCodesSchema.parse(req.body);
+    const userId = (req as any).user.userId;
+    const user = await storage.getUserById(userId);
+
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+      return res.status(400).json({ error: "Two-factor authentication is not enabled" });
+    }
+
+    if (!(await consumeTotpCode(userId, user.twoFactorSecret, code))) {
+      await createSecurityLog({
+        userId,
+        event: "2fa_verification_failed",
+        details: "Invalid code provided while regenerating recovery codes",
+        ipAddress: req.ip,
+        userAgent: req.get("User-Agent"),
+      });
+      return res.status(400).json({ error: "Invalid verification code" });
+    }
+
+    const recoveryCodes = await issueRecoveryCodes(userId);
+
+    await createSecurityLog({
+      userId,
+      event: "2fa_recovery_codes_regenerated",
+      details: "Recovery codes regenerated; previous codes revoked",
+      ipAddress: req.ip,
+      userAgent: req.get("User-Agent"),
+    });
+
+    res.json({ message: "Recovery codes regenerated", recoveryCodes });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Recovery code regeneration error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 // Protected routes
 router.get("/profile", authenticateToken, async (req, res) => {
   try {
@@ -492,34 +688,36 @@ router.put("/profile", authenticateToken, async (req, res) => {
     const userId = (req as any).user.userId;
     const { username, email } = req.body;
     
-    const user = await storage.getUserById(userId);
-    if (!user) {
+    const existing = await storage.getUserById(userId);
+    if (!existing) {
       return res.status(404).json({ error: "User not found" });
     }
 
+    const updates: { username?: string; email?: string } = {};
+
     // Check if new username is already taken
-    if (username && username !== user.username) {
+    if (username && username !== existing.username) {
       const existingUser = await storage.getUserByUsername(username);
       if (existingUser) {
         return res.status(409).json({ error: "Username already exists" });
       }
-      user.username = username;
+      updates.username = username;
     }
 
     // Check if new email is already taken
-    if (email && email !== user.email) {
-      const existingEmail = Array.from(storage["users"].values()).find(u => u.email === email);
+    if (email && email !== existing.email) {
+      const existingEmail = await storage.getUserByEmail(email);
       if (existingEmail) {
         return res.status(409).json({ error: "Email already exists" });
       }
-      user.email = email;
+      updates.email = email;
     }
 
-    storage["users"].set(userId, user);
+    const user = await storage.updateUserProfile(userId, updates) ?? existing;
     
     await createSecurityLog({
       userId,
-      action: "profile_updated",
+      event: "profile_updated",
       details: "User profile updated",
       ipAddress: req.ip,
       userAgent: req.get("User-Agent"),
@@ -542,6 +740,21 @@ router.put("/profile", authenticateToken, async (req, res) => {
   }
 });
 
+router.get("/settings", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const settings = await storage.getUserSettings(userId);
+    if (!settings) {
+      return res.status(404).json({ error: "User settings not found" });
+    }
+
+    res.json({ settings });
+  } catch (error) {
+    console.error("Settings error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 router.put("/settings", authenticateToken, async (req, res) => {
   try {
     const userId = (req as any).user.userId;
@@ -586,6 +799,51 @@ router.get("/system/stats", authenticateToken, async (req, res) => {
   }
 });
 
+// Bucketed min/avg/max/p95 per metric, e.g. ?from=2024-05-01T20:00:00Z&to=2024-05-02T02:00:00Z&resolution=5m
+router.get("/system/stats/history", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const query = statsHistoryQuerySchema.parse(req.query);
+    const to = query.to ?? new Date();
+    const span = to.getTime() - query.from.getTime();
+
+    if (span <= 0) {
+      return res.status(400).json({ error: "from must be before to" });
+    }
+
+    const resolution = query.resolution ?? pickResolution(span);
+    if (span / statsResolutions[resolution] > MAX_HISTORY_BUCKETS) {
+      return res.status(400).json({
+        error: `Range too long for ${resolution} buckets; at most ${MAX_HISTORY_BUCKETS} buckets per request`,
+      });
+    }
+
+    res.json(await getStatsHistory(userId, query.from, to, resolution));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("System stats history error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Sessions overlapping the range, for marking play time on the history charts
+router.get("/gaming-sessions", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const { from, to } = sessionRangeSchema.parse(req.query);
+    const sessions = await storage.getGamingSessions(from, to ?? new Date(), userId);
+    res.json({ sessions });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Gaming sessions error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 router.post("/system/stats", authenticateToken, async (req, res) => {
   try {
     const userId = (req as any).user.userId;
@@ -593,6 +851,8 @@ router.post("/system/stats", authenticateToken, async (req, res) => {
       ...req.body,
       userId,
     });
+    realtime.publish(userId, "stats", "systemStats", stats);
+    alertEngine.evaluate(stats);
     res.json({ stats });
   } catch (error) {
     console.error("Create system stats error:", error);
@@ -600,27 +860,1103 @@ router.post("/system/stats", authenticateToken, async (req, res) => {
   }
 });
 
-router.get("/games/profiles", authenticateToken, async (req, res) => {
+router.get("/system/hardware", authenticateToken, async (req, res) => {
+  try {
+    const hardware = await readHardwareInfo();
+    res.json({ hardware });
+  } catch (error) {
+    console.error("Hardware info error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Known games running on the host, for the profile wizard
+router.get("/games/detect", authenticateToken, async (req, res) => {
+  try {
+    const running = await detectRunningGames();
+    res.json({ games: running.map(({ game, pid }) => ({ id: game.id, name: game.name, pid })) });
+  } catch (error) {
+    console.error("Game detection error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/processes", authenticateToken, async (req, res) => {
+  try {
+    const query = processQuerySchema.parse(req.query);
+    const processes = await processManager.list();
+    res.json(queryProcesses(processes, query));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Process list error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Every kill and renice, including refused ones, is kept in the security log
+const describeProcessResult = (result: ProcessActionResult) =>
+  `${result.name} (${result.pid}): ${result.ok ? "ok" : result.error}`;
+
+router.post("/processes/kill", authenticateToken, async (req, res) => {
   try {
     const userId = (req as any).user.userId;
-    const profiles = await storage.getGameProfiles(userId);
-    res.json({ profiles });
+    const { processes, signal } = killProcessesSchema.parse(req.body);
+    const results = await processManager.kill(processes, signal);
+
+    await createSecurityLog({
+      userId,
+      event: "processes_killed",
+      details: { signal, results: results.map(describeProcessResult) },
+      ipAddress: req.ip,
+      userAgent: req.get("User-Agent"),
+    });
+
+    res.json({ results });
   } catch (error) {
-    console.error("Game profiles error:", error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Process kill error:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 });
 
-router.post("/games/profiles", authenticateToken, async (req, res) => {
+router.post("/processes/renice", authenticateToken, async (req, res) => {
   try {
     const userId = (req as any).user.userId;
-    const profile = await storage.createGameProfile({
-      ...req.body,
+    const { processes, nice } = reniceProcessesSchema.parse(req.body);
+    const results = await processManager.renice(processes, nice);
+
+    await createSecurityLog({
       userId,
+      event: "processes_reniced",
+      details: { nice, results: results.map(describeProcessResult) },
+      ipAddress: req.ip,
+      userAgent: req.get("User-Agent"),
     });
-    res.json({ profile });
+
+    res.json({ results });
   } catch (error) {
-    console.error("Create game profile error:", error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Process renice error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/jobs/tasks", authenticateToken, async (req, res) => {
+  try {
+    const tasks = await jobEngine.listTasks();
+    res.json({ tasks });
+  } catch (error) {
+    console.error("Optimization tasks error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/jobs", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const { task, limit } = jobHistorySchema.parse(req.query);
+    const jobs = await storage.getOptimizationJobs(userId, { task, limit });
+    res.json({ jobs });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Jobs error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.post("/jobs", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const { task, params } = createJobSchema.parse(req.body);
+    const result = await jobEngine.enqueue(userId, task, params);
+    if ("error" in result) {
+      return res.status(result.status).json({ error: result.error, details: result.details });
+    }
+    res.status(202).json({ job: result.job });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Create job error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/jobs/:id", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const job = await storage.getOptimizationJob(req.params.id);
+    if (!job || job.userId !== userId) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    res.json({ job });
+  } catch (error) {
+    console.error("Job error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.post("/jobs/:id/cancel", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const job = await storage.getOptimizationJob(req.params.id);
+    if (!job || job.userId !== userId) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+
+    const result = await jobEngine.cancel(job);
+    if ("error" in result) {
+      return res.status(409).json({ error: result.error });
+    }
+    res.json(result);
+  } catch (error) {
+    console.error("Cancel job error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// What a tempCleanup job with the same options would remove; nothing is deleted
+router.post("/cleanup/dry-run", authenticateToken, async (req, res) => {
+  try {
+    if (process.platform !== "linux") {
+      return res.status(409).json({ error: "Only available on Linux hosts" });
+    }
+    const options = cleanupOptionsSchema.parse(req.body ?? {});
+    const scanned = await scanCleanup(options, hostCleanupEnvironment());
+    res.json({ report: summarize(scanned.map(category => category.report), true) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Cleanup dry run error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/startup", authenticateToken, async (req, res) => {
+  try {
+    if (process.platform !== "linux") {
+      return res.status(409).json({ error: "Only available on Linux hosts" });
+    }
+    res.json({ items: await startupManager.list() });
+  } catch (error) {
+    console.error("Startup list error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.post("/startup", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    if (process.platform !== "linux") {
+      return res.status(409).json({ error: "Only available on Linux hosts" });
+    }
+    const { id, enabled } = setStartupItemSchema.parse(req.body);
+    const result = await startupManager.setEnabled(id, enabled);
+    if ("error" in result) {
+      return res.status(result.error === "Startup item not found" ? 404 : 409).json(result);
+    }
+
+    await createSecurityLog({
+      userId,
+      event: "startup_items_changed",
+      details: { items: [`${result.item.name}: ${enabled ? "enabled" : "disabled"}`] },
+      ipAddress: req.ip,
+      userAgent: req.get("User-Agent"),
+    });
+
+    res.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Startup change error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Current, target and baseline value of every TCP/IP tweak; applying and
+// reverting them are the tcpTweaks and tcpTweaksRevert jobs
+router.get("/network/tcp", authenticateToken, async (req, res) => {
+  try {
+    if (process.platform !== "linux") {
+      return res.status(409).json({ error: "Only available on Linux hosts" });
+    }
+    res.json(await tcpTweaker.status());
+  } catch (error) {
+    console.error("TCP tweak status error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/network/dns", authenticateToken, async (req, res) => {
+  try {
+    if (process.platform !== "linux") {
+      return res.status(409).json({ error: "Only available on Linux hosts" });
+    }
+    res.json({ resolver: await (await hostResolverConfig()).read() });
+  } catch (error) {
+    console.error("DNS config error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Sends real queries to every candidate; takes a few seconds
+router.post("/network/dns/benchmark", authenticateToken, async (req, res) => {
+  try {
+    const options = dnsBenchmarkSchema.parse(req.body ?? {});
+    const servers = Array.from(new Set(options.servers));
+    res.json({ report: await benchmarkResolvers(servers.map(server => ({ server })), options) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("DNS benchmark error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.post("/network/dns", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    if (process.platform !== "linux") {
+      return res.status(409).json({ error: "Only available on Linux hosts" });
+    }
+    const { servers } = applyDnsSchema.parse(req.body);
+    const config = await hostResolverConfig();
+    const before = await config.read();
+    try {
+      await config.apply(servers);
+    } catch (error) {
+      // Usually a missing sudoers rule; the log names the command that failed
+      console.error("DNS apply error:", error);
+      return res.status(409).json({ error: "Could not change the resolver configuration", method: before.method });
+    }
+
+    await createSecurityLog({
+      userId,
+      event: "dns_changed",
+      details: { method: before.method, from: before.servers, to: servers },
+      ipAddress: req.ip,
+      userAgent: req.get("User-Agent"),
+    });
+
+    res.json({ resolver: await config.read() });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("DNS change error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Starts a latency probe; samples arrive on the `probes` topic
+router.post("/network/probes", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const request = startProbeSchema.parse(req.body);
+    const result = await probeService.start(userId, request);
+    if ("error" in result) {
+      return res.status(result.status).json({ error: result.error, retryAfter: "retryAfter" in result ? result.retryAfter : undefined });
+    }
+    res.status(202).json({ probe: result.probe });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Start probe error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/network/probes", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const { limit } = probeHistorySchema.parse(req.query);
+    res.json({ probes: await storage.getLatencyProbes(userId, limit) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Probes error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/network/probes/:id", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const probe = await storage.getLatencyProbe(req.params.id);
+    if (!probe || probe.userId !== userId) {
+      return res.status(404).json({ error: "Probe not found" });
+    }
+    res.json({ probe });
+  } catch (error) {
+    console.error("Probe error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.post("/network/probes/:id/cancel", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const probe = await storage.getLatencyProbe(req.params.id);
+    if (!probe || probe.userId !== userId) {
+      return res.status(404).json({ error: "Probe not found" });
+    }
+
+    const result = probeService.cancel(probe);
+    if ("error" in result) {
+      return res.status(409).json({ error: result.error });
+    }
+    res.json(result);
+  } catch (error) {
+    console.error("Cancel probe error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.delete("/network/probes/:id", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const probe = await storage.getLatencyProbe(req.params.id);
+    if (!probe || probe.userId !== userId) {
+      return res.status(404).json({ error: "Probe not found" });
+    }
+    if (probe.status === "running") {
+      return res.status(409).json({ error: "Cancel the probe before deleting it" });
+    }
+
+    await storage.deleteLatencyProbe(probe.id);
+    res.json({ message: "Probe deleted" });
+  } catch (error) {
+    console.error("Delete probe error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Starts a UDP loss and jitter test against an echo responder; the running
+// summary arrives on the `probes` topic
+router.post("/network/udp-tests", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const request = startUdpTestSchema.parse(req.body);
+    const result = await udpTestService.start(userId, request);
+    if ("error" in result) {
+      return res.status(result.status).json({ error: result.error, retryAfter: "retryAfter" in result ? result.retryAfter : undefined });
+    }
+    res.status(202).json({ test: result.test });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Start UDP test error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/network/udp-tests", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const { limit } = udpTestHistorySchema.parse(req.query);
+    res.json({ tests: await storage.getUdpTests(userId, limit) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("UDP tests error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/network/udp-tests/:id", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const test = await storage.getUdpTest(req.params.id);
+    if (!test || test.userId !== userId) {
+      return res.status(404).json({ error: "UDP test not found" });
+    }
+    res.json({ test });
+  } catch (error) {
+    console.error("UDP test error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.post("/network/udp-tests/:id/cancel", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const test = await storage.getUdpTest(req.params.id);
+    if (!test || test.userId !== userId) {
+      return res.status(404).json({ error: "UDP test not found" });
+    }
+
+    const result = udpTestService.cancel(test);
+    if ("error" in result) {
+      return res.status(409).json({ error: result.error });
+    }
+    res.json(result);
+  } catch (error) {
+    console.error("Cancel UDP test error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.delete("/network/udp-tests/:id", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const test = await storage.getUdpTest(req.params.id);
+    if (!test || test.userId !== userId) {
+      return res.status(404).json({ error: "UDP test not found" });
+    }
+    if (test.status === "running") {
+      return res.status(409).json({ error: "Cancel the test before deleting it" });
+    }
+
+    await storage.deleteUdpTest(test.id);
+    res.json({ message: "UDP test deleted" });
+  } catch (error) {
+    console.error("Delete UDP test error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GPU routes go through the GPU agent (server/gpuAgent.ts); its errors keep
+// their protocol code, and an unreachable agent answers 503
+router.get("/gpu/devices", authenticateToken, async (req, res) => {
+  try {
+    res.json(await gpuAgent.call("gpu.list"));
+  } catch (error) {
+    const failure = gpuAgentFailure(error);
+    if (failure) return res.status(failure.status).json(failure.body);
+    console.error("GPU devices error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/gpu/devices/:id/telemetry", authenticateToken, async (req, res) => {
+  try {
+    res.json({ telemetry: await gpuAgent.call("gpu.getTelemetry", { deviceId: req.params.id }) });
+  } catch (error) {
+    const failure = gpuAgentFailure(error);
+    if (failure) return res.status(failure.status).json(failure.body);
+    console.error("GPU telemetry error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/gpu/devices/:id/settings", authenticateToken, async (req, res) => {
+  try {
+    res.json({ settings: await gpuAgent.call("gpu.getSettings", { deviceId: req.params.id }) });
+  } catch (error) {
+    const failure = gpuAgentFailure(error);
+    if (failure) return res.status(failure.status).json(failure.body);
+    console.error("GPU settings error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GPU writes happen outside the job engine, so they take the "Before …"
+// snapshot of the GPU source that a task declaring `affects: ["gpu"]` would get
+async function snapshotGpuSettings(userId: string, label: string): Promise<string> {
+  const snapshot = await snapshotService.capture(userId, { label, sources: ["gpu"] });
+  if ("error" in snapshot) throw new Error(snapshot.error);
+  return snapshot.id;
+}
+
+router.put("/gpu/devices/:id/settings", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const settings = gpuSettingsSchema.parse(req.body);
+    const refused = await gpuTuning.refuseDirectWrite(req.params.id, settings);
+    if (refused) {
+      return res.status(409).json({ error: refused });
+    }
+    const snapshotId = await snapshotGpuSettings(userId, "Before GPU settings change");
+    const applied = await gpuAgent.call("gpu.setSettings", { deviceId: req.params.id, settings });
+
+    await createSecurityLog({
+      userId,
+      event: "gpu_settings_changed",
+      details: { deviceId: req.params.id, settings },
+      ipAddress: req.ip,
+      userAgent: req.get("User-Agent"),
+    });
+
+    res.json({ settings: applied, snapshotId });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    const failure = gpuAgentFailure(error);
+    if (failure) return res.status(failure.status).json(failure.body);
+    console.error("GPU settings change error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.post("/gpu/devices/:id/reset", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    if (gpuTuning.isTuning(req.params.id)) {
+      return res.status(409).json({ error: GPU_TUNING_IN_PROGRESS });
+    }
+    const snapshotId = await snapshotGpuSettings(userId, "Before GPU reset");
+    const settings = await gpuAgent.call("gpu.resetSettings", { deviceId: req.params.id });
+
+    await createSecurityLog({
+      userId,
+      event: "gpu_settings_reset",
+      details: { deviceId: req.params.id },
+      ipAddress: req.ip,
+      userAgent: req.get("User-Agent"),
+    });
+
+    res.json({ settings, snapshotId });
+  } catch (error) {
+    const failure = gpuAgentFailure(error);
+    if (failure) return res.status(failure.status).json(failure.body);
+    console.error("GPU settings reset error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Guarded apply: the settings go on in steps and come back off unless the
+// attempt is confirmed in time; progress arrives on the `gpu` topic. Refused
+// attempts answer with the attempt as recorded in the history.
+router.post("/gpu/devices/:id/tuning", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const request = startGpuTuningSchema.parse(req.body);
+    if (gpuTuning.isTuning(req.params.id)) {
+      return res.status(409).json({ error: "A tuning attempt is already in progress on this GPU" });
+    }
+    // The snapshot has to be taken before the first step goes on, so it is
+    // dropped again when no attempt runs
+    const snapshotId = await snapshotGpuSettings(userId, "Before GPU tuning");
+    const result = await gpuTuning.start(userId, req.params.id, request).catch(async (error) => {
+      await storage.deleteSystemSnapshot(snapshotId);
+      throw error;
+    });
+    if ("error" in result) {
+      await storage.deleteSystemSnapshot(snapshotId);
+      return res.status(result.status).json({ error: result.error, details: result.details, attempt: result.attempt });
+    }
+
+    await createSecurityLog({
+      userId,
+      event: "gpu_tuning_started",
+      details: { deviceId: req.params.id, attemptId: result.attempt.id, settings: request.settings },
+      ipAddress: req.ip,
+      userAgent: req.get("User-Agent"),
+    });
+
+    res.status(202).json({ attempt: result.attempt, snapshotId });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    const failure = gpuAgentFailure(error);
+    if (failure) return res.status(failure.status).json(failure.body);
+    console.error("Start GPU tuning error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/gpu/tuning", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const { limit } = gpuTuningHistorySchema.parse(req.query);
+    res.json({ attempts: await storage.getGpuTuningAttempts(userId, limit) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("GPU tuning history error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/gpu/tuning/:id", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const attempt = await storage.getGpuTuningAttempt(req.params.id);
+    if (!attempt || attempt.userId !== userId) {
+      return res.status(404).json({ error: "Tuning attempt not found" });
+    }
+    res.json({ attempt });
+  } catch (error) {
+    console.error("GPU tuning attempt error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.post("/gpu/tuning/:id/confirm", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const attempt = await storage.getGpuTuningAttempt(req.params.id);
+    if (!attempt || attempt.userId !== userId) {
+      return res.status(404).json({ error: "Tuning attempt not found" });
+    }
+
+    const result = await gpuTuning.confirm(attempt);
+    if ("error" in result) {
+      return res.status(409).json({ error: result.error });
+    }
+
+    await createSecurityLog({
+      userId,
+      event: "gpu_tuning_confirmed",
+      details: { deviceId: attempt.deviceId, attemptId: attempt.id, settings: attempt.requested },
+      ipAddress: req.ip,
+      userAgent: req.get("User-Agent"),
+    });
+
+    res.json(result);
+  } catch (error) {
+    console.error("Confirm GPU tuning error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.post("/gpu/tuning/:id/revert", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const attempt = await storage.getGpuTuningAttempt(req.params.id);
+    if (!attempt || attempt.userId !== userId) {
+      return res.status(404).json({ error: "Tuning attempt not found" });
+    }
+
+    const result = await gpuTuning.decline(attempt);
+    if ("error" in result) {
+      return res.status(409).json({ error: result.error });
+    }
+
+    await createSecurityLog({
+      userId,
+      event: "gpu_tuning_reverted",
+      details: { deviceId: attempt.deviceId, attemptId: attempt.id },
+      ipAddress: req.ip,
+      userAgent: req.get("User-Agent"),
+    });
+
+    res.json(result);
+  } catch (error) {
+    console.error("Revert GPU tuning error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Snapshots are listed without their data, which can be large
+router.get("/snapshots", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const snapshots = await storage.getSystemSnapshots(userId);
+    res.json({
+      snapshots: snapshots.map(({ data, ...snapshot }) => snapshot),
+      sources: snapshotService.listSources(),
+    });
+  } catch (error) {
+    console.error("Snapshots error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.post("/snapshots", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const { label, sources } = createSnapshotSchema.parse(req.body);
+    const snapshot = await snapshotService.capture(userId, { label, sources });
+    if ("error" in snapshot) {
+      return res.status(400).json({ error: snapshot.error });
+    }
+
+    await createSecurityLog({
+      userId,
+      event: "snapshot_created",
+      details: { label: snapshot.label },
+      ipAddress: req.ip,
+      userAgent: req.get("User-Agent"),
+    });
+    res.status(201).json({ snapshot });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Create snapshot error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/snapshots/:id", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const snapshot = await storage.getSystemSnapshot(req.params.id);
+    if (!snapshot || snapshot.userId !== userId) {
+      return res.status(404).json({ error: "Snapshot not found" });
+    }
+    res.json({ snapshot });
+  } catch (error) {
+    console.error("Snapshot error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/snapshots/:id/diff", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const snapshot = await storage.getSystemSnapshot(req.params.id);
+    if (!snapshot || snapshot.userId !== userId) {
+      return res.status(404).json({ error: "Snapshot not found" });
+    }
+    res.json(await snapshotService.diff(snapshot));
+  } catch (error) {
+    console.error("Snapshot diff error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Restores run as a job, so progress and the result arrive on the jobs topic
+router.post("/snapshots/:id/restore", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const snapshot = await storage.getSystemSnapshot(req.params.id);
+    if (!snapshot || snapshot.userId !== userId) {
+      return res.status(404).json({ error: "Snapshot not found" });
+    }
+
+    const selection = restoreSnapshotSchema.parse(req.body ?? {});
+    const result = await jobEngine.enqueue(userId, "snapshotRestore", { ...selection, snapshotId: snapshot.id });
+    if ("error" in result) {
+      return res.status(result.status).json({ error: result.error, details: result.details });
+    }
+    res.status(202).json({ job: result.job });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Restore snapshot error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.delete("/snapshots/:id", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const snapshot = await storage.getSystemSnapshot(req.params.id);
+    if (!snapshot || snapshot.userId !== userId) {
+      return res.status(404).json({ error: "Snapshot not found" });
+    }
+
+    await storage.deleteSystemSnapshot(snapshot.id);
+    res.json({ message: "Snapshot deleted" });
+  } catch (error) {
+    console.error("Delete snapshot error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/game-profiles", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const profiles = await storage.getGameProfiles(userId);
+    res.json({ profiles });
+  } catch (error) {
+    console.error("Game profiles error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/game-profiles/:id", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const profile = await storage.getGameProfile(req.params.id);
+    if (!profile || (profile.userId && profile.userId !== userId)) {
+      return res.status(404).json({ error: "Game profile not found" });
+    }
+
+    res.json({ profile });
+  } catch (error) {
+    console.error("Get game profile error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.post("/game-profiles", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const input = gameProfileSchema.parse(req.body);
+    const profile = await storage.createGameProfile({ ...input, userId, isActive: false });
+    res.status(201).json({ profile });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Create game profile error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.put("/game-profiles/:id", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const updates = updateGameProfileSchema.parse(req.body);
+
+    const existing = await storage.getGameProfile(req.params.id);
+    if (!existing || (existing.userId && existing.userId !== userId)) {
+      return res.status(404).json({ error: "Game profile not found" });
+    }
+    if (!existing.userId) {
+      return res.status(403).json({ error: "Default profiles are read-only; duplicate it to make changes" });
+    }
+
+    const profile = await storage.updateGameProfile(existing.id, updates);
+    res.json({ profile });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Update game profile error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.delete("/game-profiles/:id", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const existing = await storage.getGameProfile(req.params.id);
+    if (!existing || (existing.userId && existing.userId !== userId)) {
+      return res.status(404).json({ error: "Game profile not found" });
+    }
+    if (!existing.userId) {
+      return res.status(403).json({ error: "Default profiles cannot be deleted" });
+    }
+
+    await storage.deleteGameProfile(existing.id);
+    res.json({ message: "Game profile deleted" });
+  } catch (error) {
+    console.error("Delete game profile error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Copies a default template or one of the user's own profiles; the copy starts inactive
+router.post("/game-profiles/:id/duplicate", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const { name } = duplicateGameProfileSchema.parse(req.body ?? {});
+
+    const source = await storage.getGameProfile(req.params.id);
+    if (!source || (source.userId && source.userId !== userId)) {
+      return res.status(404).json({ error: "Game profile not found" });
+    }
+
+    const profile = await storage.createGameProfile({
+      userId,
+      name: name ?? (source.userId ? `${source.name} (copy)` : source.name),
+      icon: source.icon,
+      isActive: false,
+      settings: gameProfileSettingsSchema.parse(source.settings),
+    });
+    res.status(201).json({ profile });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Duplicate game profile error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.get("/game-profiles/:id/export", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const profile = await storage.getGameProfile(req.params.id);
+    if (!profile || (profile.userId && profile.userId !== userId)) {
+      return res.status(404).json({ error: "Game profile not found" });
+    }
+
+    res.json(exportProfile(profile));
+  } catch (error) {
+    console.error("Export game profile error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Validates a share code or document and diffs it against the matching profile, without saving
+router.post("/game-profiles/import/preview", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const input = profileImportSchema.parse(req.body);
+
+    const preview = await previewProfileImport(userId, input);
+    if ("error" in preview) {
+      return res.status(400).json(preview);
+    }
+    res.json(preview);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Preview profile import error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.post("/game-profiles/import", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const input = profileImportSchema.parse(req.body);
+
+    const preview = await previewProfileImport(userId, input);
+    if ("error" in preview) {
+      return res.status(400).json(preview);
+    }
+    const incoming = { ...preview.document.profile, name: input.name ?? preview.document.profile.name };
+
+    if (input.replaceId) {
+      if (!preview.existing || preview.existing.id !== input.replaceId) {
+        return res.status(404).json({ error: "Game profile not found" });
+      }
+      const profile = await storage.updateGameProfile(input.replaceId, incoming);
+      return res.json({ profile, unknownFields: preview.unknownFields });
+    }
+
+    const profile = await storage.createGameProfile({ ...incoming, userId, isActive: false });
+    res.status(201).json({ profile, unknownFields: preview.unknownFields });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Import game profile error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.post("/game-profiles/:id/activate", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const existing = await storage.getGameProfile(req.params.id);
+    if (!existing || (existing.userId && existing.userId !== userId)) {
+      return res.status(404).json({ error: "Game profile not found" });
+    }
+    if (!existing.userId) {
+      return res.status(403).json({ error: "Default profiles cannot be activated; duplicate it first" });
+    }
+
+    const profile = await storage.setActiveGameProfile(userId, existing.id);
+    res.json({ profile });
+  } catch (error) {
+    console.error("Activate game profile error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.post("/game-profiles/:id/deactivate", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const existing = await storage.getGameProfile(req.params.id);
+    if (!existing || existing.userId !== userId) {
+      return res.status(404).json({ error: "Game profile not found" });
+    }
+
+    if (existing.isActive) {
+      await storage.setActiveGameProfile(userId, null);
+    }
+    res.json({ profile: await storage.getGameProfile(existing.id) });
+  } catch (error) {
+    console.error("Deactivate game profile error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Alert routes
+router.get("/alerts/rules", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const rules = await storage.getAlertRules(userId);
+    res.json({ rules });
+  } catch (error) {
+    console.error("Alert rules error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.post("/alerts/rules", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const input = alertRuleSchema.parse(req.body);
+    const rule = await storage.createAlertRule({ ...input, userId });
+    res.status(201).json({ rule });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Create alert rule error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.put("/alerts/rules/:id", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const updates = updateAlertRuleSchema.parse(req.body);
+
+    const existing = await storage.getAlertRule(req.params.id);
+    if (!existing || existing.userId !== userId) {
+      return res.status(404).json({ error: "Alert rule not found" });
+    }
+
+    const rule = await storage.updateAlertRule(existing.id, updates);
+    await alertEngine.resetRule(existing.id);
+    res.json({ rule });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Update alert rule error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.delete("/alerts/rules/:id", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const existing = await storage.getAlertRule(req.params.id);
+    if (!existing || existing.userId !== userId) {
+      return res.status(404).json({ error: "Alert rule not found" });
+    }
+
+    await alertEngine.resetRule(existing.id);
+    await storage.deleteAlertRule(existing.id);
+    res.json({ message: "Alert rule deleted" });
+  } catch (error) {
+    console.error("Delete alert rule error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Alert history, newest first; ?active=true for the ones still open
+router.get("/alerts", authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const { active, limit } = alertHistorySchema.parse(req.query);
+    const alerts = await storage.getAlerts(userId, { activeOnly: active === "true", limit });
+    res.json({ alerts });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    console.error("Alerts error:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -0,0 +1,233 @@
+// Captures, diffs and restores snapshots with every built-in source pointed at
+// temporary directories, fake systemctl and sysctl adapters, the mock GPU
+// agent on loopback and MemStorage.
+// Also checks that jobs which change state are preceded by a snapshot.
+//
+//   npm run snapshots:check
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { defaultProfileSettings } from "@shared/gameProfiles";
+import { startGpuTuningSchema } from "@shared/gpuTuning";
+import { GpuAgentClient } from "./gpuAgent";
+import { serveGpuAgent } from "./gpuAgentServer";
+import { GPU_TUNING_IN_PROGRESS, GpuTuningService } from "./gpuTuning";
+import { createHostFs } from "./hostFs";
+import { MockGpuBackend, type MockGpuScript } from "./mockGpuBackend";
+import { storage } from "./storage";
+import { JobEngine, type JobContext } from "./jobs";
+import {
+  SnapshotService, appSettingsSource, autostartSource, gpuSource, servicesSource, sysctlSource, type SnapshotSource
+} from "./snapshots";
+import { parseUnitFiles, type ServiceControl } from "./userServices";
+
+const ctxFor = (userId: string, steps: string[] = []): JobContext => ({
+  userId,
+  signal: new AbortController().signal,
+  step: async (name) => {
+    steps.push(name);
+  },
+});
+
+async function main() {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "nexus-snapshots-"));
+  try {
+    // /proc/sys laid out under a fake root
+    const root = path.join(dir, "root");
+    await fs.promises.mkdir(path.join(root, "proc/sys/vm"), { recursive: true });
+    await fs.promises.mkdir(path.join(root, "proc/sys/net/ipv4"), { recursive: true });
+    await fs.promises.writeFile(path.join(root, "proc/sys/vm/swappiness"), "60\n");
+    await fs.promises.writeFile(path.join(root, "proc/sys/net/ipv4/tcp_rmem"), "4096\t131072\t6291456\n");
+    const sysctlWrites: string[] = [];
+    const sysctl = sysctlSource(createHostFs(root), {
+      write: async (key, value) => {
+        sysctlWrites.push(`${key}=${value}`);
+      },
+    });
+
+    assert.deepEqual(Array.from(parseUnitFiles("syncthing.service enabled enabled\nfoo.service static -\n\n")),
+      [["syncthing.service", "enabled"], ["foo.service", "static"]]);
+    const units = new Map([["syncthing.service", "enabled"], ["dbus.service", "static"], ["discord.service", "disabled"]]);
+    const services: ServiceControl = {
+      listUnitFiles: async () => new Map(units),
+      setEnabled: async (unit, enabled) => {
+        units.set(unit, enabled ? "enabled" : "disabled");
+      },
+    };
+
+    const autostart = path.join(dir, "autostart");
+    await fs.promises.mkdir(autostart);
+    await fs.promises.writeFile(path.join(autostart, "steam.desktop"), "[Desktop Entry]\nName=Steam\n");
+    await fs.promises.writeFile(path.join(autostart, "notes.txt"), "not an entry");
+
+    const user = await storage.createUser({ username: "snapshots_check", passwordHash: "hash" });
+    const profile = await storage.createGameProfile({
+      userId: user.id, name: "Fortnite", icon: "fas fa-gamepad", settings: defaultProfileSettings,
+    });
+    await storage.setActiveGameProfile(user.id, profile.id);
+
+    const broken: SnapshotSource = {
+      id: "gpu",
+      title: "GPU settings",
+      capture: async () => {
+        throw new Error("No GPU backend");
+      },
+      restore: async () => {},
+    };
+    const service = new SnapshotService([
+      sysctl, servicesSource(services), autostartSource(autostart), appSettingsSource(storage), broken,
+    ]);
+
+    // Capture
+    assert.deepEqual(await service.capture(user.id, { sources: ["nope"] }), { error: "Unknown snapshot source: nope" });
+    const snapshot = await service.capture(user.id, { label: "Before tuning" });
+    assert.ok(!("error" in snapshot));
+    assert.equal(snapshot.label, "Before tuning");
+    assert.equal(snapshot.manifest.formatVersion, 1);
+    assert.deepEqual(snapshot.manifest.sources.find(s => s.id === "gpu"), { id: "gpu", title: "GPU settings", keys: 0, error: "No GPU backend" });
+    assert.equal(snapshot.data.sysctl["vm.swappiness"], "60");
+    assert.equal(snapshot.data.sysctl["net.ipv4.tcp_rmem"], "4096 131072 6291456");
+    assert.equal(snapshot.data.sysctl["vm.dirty_ratio"], null);
+    assert.deepEqual(snapshot.data.services, { "syncthing.service": "enabled", "discord.service": "disabled" });
+    assert.deepEqual(Object.keys(snapshot.data.autostart), ["steam.desktop"]);
+    assert.equal(snapshot.data.appSettings.activeProfile, profile.id);
+    assert.equal(snapshot.data.appSettings["settings.darkMode"], true);
+    assert.equal("gpu" in snapshot.data, false);
+
+    // Nothing has changed yet
+    assert.deepEqual(await service.diff(snapshot), { changes: [], unavailable: [] });
+
+    // Change a bit of everything
+    await fs.promises.writeFile(path.join(root, "proc/sys/vm/swappiness"), "10\n");
+    units.set("syncthing.service", "disabled");
+    await fs.promises.writeFile(path.join(autostart, "steam.desktop"), "[Desktop Entry]\nName=Steam\nHidden=true\n");
+    await fs.promises.writeFile(path.join(autostart, "discord.desktop"), "[Desktop Entry]\nName=Discord\n");
+    await storage.updateUserSettings(user.id, { darkMode: false });
+    await storage.updateGameProfile(profile.id, { name: "Fortnite Comp" });
+    await storage.setActiveGameProfile(user.id, null);
+
+    const diff = await service.diff(snapshot);
+    assert.deepEqual(diff.unavailable, []);
+    assert.deepEqual(diff.changes.map(c => `${c.source}:${c.key}`), [
+      "sysctl:vm.swappiness",
+      "services:syncthing.service",
+      "autostart:discord.desktop",
+      "autostart:steam.desktop",
+      `appSettings:activeProfile`,
+      `appSettings:profile.${profile.id}`,
+      "appSettings:settings.darkMode",
+    ]);
+    assert.deepEqual(diff.changes[0], { source: "sysctl", key: "vm.swappiness", snapshot: "60", current: "10" });
+    assert.equal(diff.changes[2].snapshot, null);
+
+    // Partial restore: only the chosen keys
+    const steps: string[] = [];
+    const partial = await service.restore(ctxFor(user.id, steps), {
+      snapshotId: snapshot.id,
+      entries: [{ source: "sysctl", key: "vm.swappiness" }, { source: "autostart", key: "discord.desktop" }],
+    });
+    assert.equal(partial.itemsChanged, 2);
+    assert.deepEqual(sysctlWrites, ["vm.swappiness=60"]);
+    assert.equal(fs.existsSync(path.join(autostart, "discord.desktop")), false);
+    assert.equal(units.get("syncthing.service"), "disabled");
+    assert.deepEqual(steps, ["Comparing with the current state", "Restoring kernel parameters", "Restoring autostart entries"]);
+
+    // Whole restore of what is left, one source at a time
+    const servicesOnly = await service.restore(ctxFor(user.id), { snapshotId: snapshot.id, sources: ["services"] });
+    assert.equal(servicesOnly.itemsChanged, 1);
+    assert.equal(units.get("syncthing.service"), "enabled");
+
+    const rest = await service.restore(ctxFor(user.id), { snapshotId: snapshot.id });
+    // swappiness still reads 10 from the fixture, so it is written again
+    assert.equal(rest.itemsChanged, 5);
+    assert.equal(await fs.promises.readFile(path.join(autostart, "steam.desktop"), "utf-8"), "[Desktop Entry]\nName=Steam\n");
+    assert.equal((await storage.getUserSettings(user.id))?.darkMode, true);
+    assert.equal((await storage.getGameProfile(profile.id))?.name, "Fortnite");
+    assert.equal((await storage.getGameProfile(profile.id))?.isActive, true);
+    assert.deepEqual((await service.diff(snapshot)).changes.map(c => c.key), ["vm.swappiness"]);
+
+    // Profiles deleted since cannot come back
+    await storage.deleteGameProfile(profile.id);
+    const gone = await service.restore(ctxFor(user.id), { snapshotId: snapshot.id, sources: ["appSettings"] });
+    assert.equal(gone.itemsChanged, 0);
+    assert.ok(gone.items?.every(item => item.endsWith("failed (Profile no longer exists)")));
+
+    // Snapshots belong to their user
+    const other = await storage.createUser({ username: "snapshots_other", passwordHash: "hash" });
+    await assert.rejects(service.restore(ctxFor(other.id), { snapshotId: snapshot.id }), /Snapshot not found/);
+
+    // Jobs that declare what they change are preceded by a snapshot of it
+    const engine = new JobEngine([{
+      id: "tcpTweaks",
+      title: "TCP Tweaks",
+      description: "Changes kernel parameters",
+      steps: ["Applying"],
+      affects: ["sysctl"],
+      async run() {
+        return { summary: "Applied" };
+      },
+    }], service);
+    const queued = await engine.enqueue(user.id, "tcpTweaks", undefined);
+    assert.ok("job" in queued);
+    await engine.idle();
+    const job = await storage.getOptimizationJob(queued.job.id);
+    assert.equal(job?.status, "succeeded");
+    const before = await storage.getSystemSnapshot(job!.result!.snapshotId!);
+    assert.equal(before?.label, "Before TCP Tweaks");
+    assert.deepEqual(Object.keys(before!.data), ["sysctl"]);
+    assert.deepEqual((await storage.getSystemSnapshots(user.id)).map(s => s.label), ["Before TCP Tweaks", "Before tuning"]);
+
+    // GPU settings go through the agent; without one there is nothing to capture
+    const script: MockGpuScript = JSON.parse(await fs.promises.readFile(path.resolve("server/fixtures/gpu/mock-agent.json"), "utf-8"));
+    const agent = await serveGpuAgent(new MockGpuBackend({ ...script, drift: 0 }), { port: 0 });
+    const client = new GpuAgentClient(agent.url, agent.token);
+    const tuning = new GpuTuningService({ client, stepDelayMs: 50, watchIntervalMs: 250 });
+    try {
+      const gpus = new SnapshotService([gpuSource(client, tuning)]);
+      const gpuSnapshot = await gpus.capture(user.id, { label: "Before GPU tuning" });
+      assert.ok(!("error" in gpuSnapshot));
+      assert.deepEqual(Object.keys(gpuSnapshot.data.gpu), ["nvidia-0", "amd-0", "intel-0"]);
+      assert.equal((gpuSnapshot.data.gpu["nvidia-0"] as { powerLimit: number }).powerLimit, 200);
+
+      // Going back down is a plain write; going back up is left to guarded tuning
+      await client.call("gpu.setSettings", { deviceId: "nvidia-0", settings: { powerLimit: 180 } });
+      assert.deepEqual((await gpus.diff(gpuSnapshot)).changes.map(c => c.key), ["nvidia-0"]);
+      const raise = await gpus.restore(ctxFor(user.id), { snapshotId: gpuSnapshot.id });
+      assert.equal(raise.itemsChanged, 0);
+      assert.match(raise.items?.[0] ?? "", /Raising clocks or power needs a guarded tuning attempt/);
+      assert.equal((await client.call("gpu.getSettings", { deviceId: "nvidia-0" })).powerLimit, 180);
+
+      const lower = await gpus.capture(user.id, { label: "Before GPU tuning" });
+      assert.ok(!("error" in lower));
+      await client.call("gpu.setSettings", { deviceId: "nvidia-0", settings: { powerLimit: 210 } });
+      const gpuRestore = await gpus.restore(ctxFor(user.id), { snapshotId: lower.id });
+      assert.equal(gpuRestore.itemsChanged, 1);
+      assert.equal((await client.call("gpu.getSettings", { deviceId: "nvidia-0" })).powerLimit, 180);
+
+      // Nothing is written under an open tuning attempt
+      const started = await tuning.start(user.id, "nvidia-0", startGpuTuningSchema.parse({ settings: { powerLimit: 160 } }));
+      assert.ok(!("error" in started));
+      await client.call("gpu.setSettings", { deviceId: "amd-0", settings: { fanSpeed: 90 } });
+      const during = await gpus.restore(ctxFor(user.id), { snapshotId: lower.id });
+      assert.equal(during.itemsChanged, 1);
+      assert.ok(during.items?.some(item => item.includes(GPU_TUNING_IN_PROGRESS)), JSON.stringify(during.items));
+      await tuning.decline(started.attempt);
+      await tuning.idle();
+    } finally {
+      await agent.close();
+    }
+    const noAgent = await new SnapshotService([gpuSource(client)]).capture(user.id);
+    assert.ok(!("error" in noAgent));
+    assert.deepEqual(noAgent.data.gpu, {});
+    assert.deepEqual(noAgent.manifest.sources, [{ id: "gpu", title: "GPU settings", keys: 0 }]);
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+  console.log("✓ snapshots");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,310 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { z } from "zod";
+import type { SystemSnapshot, UpdateUserSettings } from "@shared/schema";
+import { GpuAgentError, gpuAgentErrorCodes, type GpuSettings } from "@shared/gpuAgent";
+import type { JobResult } from "@shared/jobs";
+import {
+  SNAPSHOT_FORMAT_VERSION, restoreSnapshotSchema,
+  type RestoreSnapshotRequest, type SnapshotChange, type SnapshotData, type SnapshotDiff,
+  type SnapshotManifest, type SnapshotSourceInfo
+} from "@shared/snapshots";
+import type { JobContext, OptimizationTask } from "./jobs";
+import { gpuAgent, type GpuAgentClient } from "./gpuAgent";
+import { gpuTuning, type GpuTuningService } from "./gpuTuning";
+import { hostFs, type HostFs } from "./hostFs";
+import { storage, type IStorage } from "./storage";
+import { TRACKED_SYSCTL_KEYS, privilegedSysctl, readSysctl, type SysctlWriter } from "./sysctl";
+import { systemctlUserServices, type ServiceControl } from "./userServices";
+import { createSecurityLog } from "./utils";
+
+// One kind of host or app state. capture() returns every key it covers;
+// restore() puts a single key back to a captured value.
+export interface SnapshotSource {
+  id: string;
+  title: string;
+  // Keys that appear after a snapshot are reported, and removed on restore,
+  // instead of being ignored
+  tracksRemovals?: boolean;
+  capture(userId: string): Promise<Record<string, unknown>>;
+  restore(userId: string, key: string, value: unknown): Promise<void>;
+}
+
+export function sysctlSource(fs: HostFs = hostFs, writer: SysctlWriter = privilegedSysctl): SnapshotSource {
+  return {
+    id: "sysctl",
+    title: "Kernel parameters",
+    async capture() {
+      const values = await Promise.all(TRACKED_SYSCTL_KEYS.map(key => readSysctl(fs, key)));
+      return Object.fromEntries(TRACKED_SYSCTL_KEYS.map((key, index) => [key, values[index]]));
+    },
+    async restore(_userId, key, value) {
+      if (typeof value !== "string") throw new Error("This kernel had no such parameter");
+      await writer.write(key, value);
+    },
+  };
+}
+
+// Only enablement is recorded; static and generated units cannot be toggled
+export function servicesSource(control: ServiceControl = systemctlUserServices): SnapshotSource {
+  return {
+    id: "services",
+    title: "User services",
+    async capture() {
+      const units = await control.listUnitFiles();
+      return Object.fromEntries(Array.from(units).filter(([, state]) => state === "enabled" || state === "disabled"));
+    },
+    async restore(_userId, unit, value) {
+      if (value !== "enabled" && value !== "disabled") throw new Error("Service did not exist");
+      await control.setEnabled(unit, value === "enabled");
+    },
+  };
+}
+
+export function autostartDirectory(): string {
+  return path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config"), "autostart");
+}
+
+// Desktop autostart entries, keyed by file name
+export function autostartSource(dir = autostartDirectory()): SnapshotSource {
+  return {
+    id: "autostart",
+    title: "Autostart entries",
+    tracksRemovals: true,
+    async capture() {
+      let names: string[];
+      try {
+        names = (await fs.promises.readdir(dir)).filter(name => name.endsWith(".desktop")).sort();
+      } catch {
+        return {};
+      }
+      const contents = await Promise.all(names.map(name =>
+        fs.promises.readFile(path.join(dir, name), "utf-8").catch(() => null)));
+      return Object.fromEntries(names.map((name, index) => [name, contents[index]]));
+    },
+    async restore(_userId, name, value) {
+      const file = path.join(dir, path.basename(name));
+      if (value === null) {
+        await fs.promises.rm(file, { force: true });
+        return;
+      }
+      await fs.promises.mkdir(dir, { recursive: true });
+      await fs.promises.writeFile(file, String(value));
+    },
+  };
+}
+
+const SNAPSHOT_SETTINGS = [
+  "darkMode", "soundEffects", "autoOptimization", "performanceAlerts", "colorTheme", "fpsTargets",
+] as const;
+
+// The user's settings, their own game profiles and which one is active
+export function appSettingsSource(store: IStorage = storage): SnapshotSource {
+  return {
+    id: "appSettings",
+    title: "App settings",
+    async capture(userId) {
+      const settings = await store.getUserSettings(userId);
+      const profiles = (await store.getGameProfiles(userId)).filter(profile => profile.userId === userId);
+      const values: Record<string, unknown> = {};
+      if (settings) {
+        SNAPSHOT_SETTINGS.forEach(field => (values[`settings.${field}`] = settings[field]));
+      }
+      profiles.forEach(profile => {
+        values[`profile.${profile.id}`] = { name: profile.name, settings: profile.settings };
+      });
+      values.activeProfile = profiles.find(profile => profile.isActive)?.id ?? null;
+      return values;
+    },
+    async restore(userId, key, value) {
+      if (key === "activeProfile") {
+        const profile = await store.setActiveGameProfile(userId, value as string | null);
+        if (value && !profile) throw new Error("Profile no longer exists");
+        return;
+      }
+      if (key.startsWith("settings.")) {
+        await store.updateUserSettings(userId, { [key.slice("settings.".length)]: value } as UpdateUserSettings);
+        return;
+      }
+      const profile = await store.getGameProfile(key.slice("profile.".length));
+      if (!profile || profile.userId !== userId || !value) throw new Error("Profile no longer exists");
+      await store.updateGameProfile(profile.id, value as { name: string; settings: typeof profile.settings });
+    },
+  };
+}
+
+// The settings of every GPU the agent reports, keyed by device id. Without an
+// agent there is nothing to capture, so a disabled or unreachable agent gives
+// an empty capture rather than an error. Restores follow the same rules as
+// other direct GPU writes: none during a tuning attempt, and no raises.
+export function gpuSource(
+  client: Pick<GpuAgentClient, "call"> = gpuAgent,
+  tuning: Pick<GpuTuningService, "refuseDirectWrite"> = gpuTuning,
+): SnapshotSource {
+  return {
+    id: "gpu",
+    title: "GPU settings",
+    async capture() {
+      if (process.env.GPU_AGENT_ENABLED === "false") return {};
+      try {
+        const { devices } = await client.call("gpu.list");
+        const settings = await Promise.all(devices.map(device => client.call("gpu.getSettings", { deviceId: device.id })));
+        return Object.fromEntries(devices.map((device, index) => [device.id, settings[index]]));
+      } catch (error) {
+        if (error instanceof GpuAgentError && error.code === gpuAgentErrorCodes.unreachable) return {};
+        throw error;
+      }
+    },
+    async restore(_userId, key, value) {
+      if (!value) throw new Error("This GPU is no longer present");
+      const refused = await tuning.refuseDirectWrite(key, value as GpuSettings);
+      if (refused) throw new Error(refused);
+      await client.call("gpu.setSettings", { deviceId: key, settings: value as GpuSettings });
+    },
+  };
+}
+
+function sameValue(a: unknown, b: unknown) {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Captures state sources into snapshots, compares snapshots with the host and
+// restores them. Restores run as `snapshotRestore` jobs.
+export class SnapshotService {
+  private sources = new Map<string, SnapshotSource>();
+
+  constructor(sources: SnapshotSource[] = [], private store: IStorage = storage) {
+    sources.forEach(source => this.register(source));
+  }
+
+  register(source: SnapshotSource) {
+    this.sources.set(source.id, source);
+  }
+
+  listSources(): SnapshotSourceInfo[] {
+    return Array.from(this.sources.values()).map(({ id, title }) => ({ id, title }));
+  }
+
+  // Every registered source unless `sources` names some; a source that fails
+  // to read is noted in the manifest rather than failing the snapshot
+  async capture(userId: string, options: { label?: string; sources?: string[] } = {}): Promise<SystemSnapshot | { error: string }> {
+    const unknown = options.sources?.find(id => !this.sources.has(id));
+    if (unknown) return { error: `Unknown snapshot source: ${unknown}` };
+
+    const chosen = Array.from(this.sources.values()).filter(source => !options.sources || options.sources.includes(source.id));
+    const data: SnapshotData = {};
+    const manifest: SnapshotManifest = {
+      formatVersion: SNAPSHOT_FORMAT_VERSION,
+      hostname: os.hostname(),
+      kernel: os.release(),
+      sources: [],
+    };
+    for (const source of chosen) {
+      try {
+        data[source.id] = await source.capture(userId);
+        manifest.sources.push({ id: source.id, title: source.title, keys: Object.keys(data[source.id]).length });
+      } catch (error) {
+        manifest.sources.push({ id: source.id, title: source.title, keys: 0, error: describeError(error) });
+      }
+    }
+
+    return this.store.createSystemSnapshot({
+      userId,
+      label: options.label ?? `Snapshot of ${new Date().toISOString().slice(0, 16).replace("T", " ")} UTC`,
+      manifest,
+      data,
+    });
+  }
+
+  async diff(snapshot: SystemSnapshot): Promise<SnapshotDiff> {
+    const result: SnapshotDiff = { changes: [], unavailable: [] };
+
+    for (const [sourceId, saved] of Object.entries(snapshot.data)) {
+      const source = this.sources.get(sourceId);
+      if (!source) {
+        result.unavailable.push({ source: sourceId, error: "Not supported by this server" });
+        continue;
+      }
+      let current: Record<string, unknown>;
+      try {
+        current = await source.capture(snapshot.userId);
+      } catch (error) {
+        result.unavailable.push({ source: sourceId, error: describeError(error) });
+        continue;
+      }
+
+      const keys = new Set(Object.keys(saved));
+      if (source.tracksRemovals) Object.keys(current).forEach(key => keys.add(key));
+      Array.from(keys).sort().forEach(key => {
+        const change: SnapshotChange = { source: sourceId, key, snapshot: saved[key] ?? null, current: current[key] ?? null };
+        if (!sameValue(change.snapshot, change.current)) result.changes.push(change);
+      });
+    }
+    return result;
+  }
+
+  async restore(ctx: JobContext, { snapshotId, sources, entries }: RestoreParams): Promise<JobResult> {
+    const snapshot = await this.store.getSystemSnapshot(snapshotId);
+    if (!snapshot || snapshot.userId !== ctx.userId) throw new Error("Snapshot not found");
+
+    await ctx.step("Comparing with the current state", 0);
+    const diff = await this.diff(snapshot);
+    const selected = diff.changes.filter(change =>
+      (!sources || sources.includes(change.source)) &&
+      (!entries || entries.some(entry => entry.source === change.source && entry.key === change.key)));
+
+    const items = diff.unavailable
+      .filter(({ source }) => !sources || sources.includes(source))
+      .map(({ source, error }) => `${source}: skipped (${error})`);
+    let restored = 0;
+    for (let index = 0; index < selected.length; index++) {
+      const change = selected[index];
+      const source = this.sources.get(change.source)!;
+      await ctx.step(`Restoring ${source.title.toLowerCase()}`, 20 + (80 * index) / selected.length);
+      try {
+        await source.restore(snapshot.userId, change.key, change.snapshot);
+        restored++;
+        items.push(`${source.title}: ${change.key} restored`);
+      } catch (error) {
+        items.push(`${source.title}: ${change.key} failed (${describeError(error)})`);
+      }
+    }
+
+    if (selected.length) {
+      await createSecurityLog({ userId: ctx.userId, event: "snapshot_restored", details: { snapshot: snapshot.label, items } });
+    }
+
+    return {
+      summary: selected.length
+        ? `Restored ${restored} of ${selected.length} changed settings from ${snapshot.label}`
+        : `Nothing differs from ${snapshot.label}`,
+      itemsChanged: restored,
+      items,
+    };
+  }
+}
+
+const restoreParamsSchema = restoreSnapshotSchema.extend({ snapshotId: z.string().min(1) });
+type RestoreParams = RestoreSnapshotRequest & { snapshotId: string };
+
+export const snapshotService = new SnapshotService([
+  sysctlSource(),
+  servicesSource(),
+  autostartSource(),
+  appSettingsSource(),
+  gpuSource(),
+]);
+
+export const snapshotRestore: OptimizationTask<RestoreParams> = {
+  id: "snapshotRestore",
+  title: "Restore Snapshot",
+  description: "Put the captured state back where it has changed",
+  steps: ["Comparing with the current state", "Restoring settings"],
+  params: restoreParamsSchema,
+  run: (ctx, params) => snapshotService.restore(ctx, params),
+};
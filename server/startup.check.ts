@@ -0,0 +1,118 @@
+// Lists and toggles startup items in temporary user and system autostart
+// folders with a fake systemctl: overrides of system entries, exact reverts,
+// protected items and the impact estimates.
+//
+//   npm run startup:check
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { StartupManager, parseDesktopEntry, setDesktopKey } from "./startup";
+import type { ServiceControl } from "./userServices";
+
+async function main() {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "nexus-startup-"));
+  try {
+    const userDir = path.join(dir, "home/.config/autostart");
+    const systemDir = path.join(dir, "etc/xdg/autostart");
+    const vendorDir = path.join(dir, "usr/share/autostart");
+    await fs.promises.mkdir(userDir, { recursive: true });
+    await fs.promises.mkdir(systemDir, { recursive: true });
+    await fs.promises.mkdir(vendorDir, { recursive: true });
+
+    const tracker = "[Desktop Entry]\nType=Application\nName=Tracker File Miner\nName[de]=Dateisuche\nExec=/usr/libexec/tracker-miner-fs-3\n";
+    const keyring = "[Desktop Entry]\nType=Application\nName=Secret Storage Service\nExec=/usr/bin/gnome-keyring-daemon --start\n";
+    const discord = "[Desktop Entry]\nName=Discord\nExec=/usr/bin/discord --start-minimized\n\n[Desktop Action New]\nName=New\nHidden=false\n";
+    await fs.promises.writeFile(path.join(systemDir, "tracker-miner-fs-3.desktop"), tracker);
+    await fs.promises.writeFile(path.join(systemDir, "gnome-keyring-secrets.desktop"), keyring);
+    await fs.promises.writeFile(path.join(vendorDir, "gnome-keyring-secrets.desktop"), "[Desktop Entry]\nName=Shadowed\n");
+    await fs.promises.writeFile(path.join(systemDir, "orca-autostart.desktop"), "[Desktop Entry]\nName=Orca\nExec=orca\nX-GNOME-Autostart-enabled=false\n");
+    await fs.promises.writeFile(path.join(userDir, "discord.desktop"), discord);
+    await fs.promises.writeFile(path.join(userDir, "backup.desktop"), "[Desktop Entry]\nName=My Backup\nExec=/home/me/bin/backup\nHidden=true\n");
+
+    const units = new Map([
+      ["syncthing.service", "enabled"], ["pipewire.service", "enabled"], ["dbus.service", "static"], ["mytool.service", "disabled"],
+    ]);
+    const services: ServiceControl = {
+      listUnitFiles: async () => new Map(units),
+      setEnabled: async (unit, enabled) => {
+        units.set(unit, enabled ? "enabled" : "disabled");
+      },
+    };
+    const manager = new StartupManager({ userDir, systemDirs: [systemDir, vendorDir] }, services);
+
+    // Desktop entry keys
+    assert.equal(parseDesktopEntry(discord).get("Hidden"), undefined);
+    assert.equal(parseDesktopEntry(tracker).get("Name"), "Tracker File Miner");
+    assert.equal(setDesktopKey(setDesktopKey(discord, "Hidden", "true"), "Hidden", null), discord);
+
+    // Listing
+    const items = await manager.list();
+    const byId = Object.fromEntries(items.map(item => [item.id, item]));
+    assert.deepEqual(items.map(item => item.id), [
+      "autostart:backup.desktop", "autostart:discord.desktop", "autostart:gnome-keyring-secrets.desktop",
+      "autostart:orca-autostart.desktop", "autostart:tracker-miner-fs-3.desktop",
+      "service:mytool.service", "service:pipewire.service", "service:syncthing.service",
+    ]);
+    assert.equal(byId["autostart:gnome-keyring-secrets.desktop"].name, "Secret Storage Service");
+    assert.equal(byId["autostart:gnome-keyring-secrets.desktop"].protectedReason, "Unlocks passwords and keys");
+    assert.equal(byId["autostart:backup.desktop"].enabled, false);
+    assert.equal(byId["autostart:backup.desktop"].origin, "user");
+    assert.equal(byId["autostart:orca-autostart.desktop"].enabled, false);
+    assert.equal(byId["autostart:tracker-miner-fs-3.desktop"].origin, "system");
+    assert.equal(byId["autostart:tracker-miner-fs-3.desktop"].impact, "high");
+    assert.equal(byId["autostart:backup.desktop"].impact, "medium"); // unknown app
+    assert.equal(byId["service:mytool.service"].impact, "low"); // unknown service
+    assert.deepEqual(items.filter(item => item.deferWhileGaming).map(item => item.id), [
+      "autostart:discord.desktop", "autostart:tracker-miner-fs-3.desktop", "service:syncthing.service",
+    ]);
+
+    // A system entry is turned off by an override in the user's folder, and
+    // turning it back on removes the override again
+    const trackerOff = await manager.setEnabled("autostart:tracker-miner-fs-3.desktop", false);
+    assert.ok("item" in trackerOff && !trackerOff.item.enabled && trackerOff.item.origin === "override");
+    assert.match(fs.readFileSync(path.join(userDir, "tracker-miner-fs-3.desktop"), "utf-8"), /^Hidden=true$/m);
+    assert.equal(fs.readFileSync(path.join(systemDir, "tracker-miner-fs-3.desktop"), "utf-8"), tracker);
+    const trackerOn = await manager.setEnabled("autostart:tracker-miner-fs-3.desktop", true);
+    assert.ok("item" in trackerOn && trackerOn.item.enabled && trackerOn.item.origin === "system");
+    assert.ok(!fs.existsSync(path.join(userDir, "tracker-miner-fs-3.desktop")));
+
+    // The user's own entry gets its original text back; Hidden= of other groups is left alone
+    await manager.setEnabled("autostart:discord.desktop", false);
+    assert.equal((await manager.list()).find(item => item.id === "autostart:discord.desktop")?.enabled, false);
+    await manager.setEnabled("autostart:discord.desktop", true);
+    assert.equal(fs.readFileSync(path.join(userDir, "discord.desktop"), "utf-8"), discord);
+
+    // Entries disabled by GNOME's own key come back on too, through an override
+    const orca = await manager.setEnabled("autostart:orca-autostart.desktop", true);
+    assert.ok("item" in orca && orca.item.enabled && orca.item.origin === "override");
+
+    // Services go through the adapter
+    const syncthing = await manager.setEnabled("service:syncthing.service", false);
+    assert.ok("item" in syncthing && !syncthing.item.enabled);
+    assert.equal(units.get("syncthing.service"), "disabled");
+
+    // Refusals
+    assert.deepEqual(await manager.setEnabled("service:pipewire.service", false), { error: "Protected: Plays sound" });
+    assert.deepEqual(await manager.setEnabled("service:dbus.service", false), { error: "Startup item not found" });
+    assert.deepEqual(await manager.setEnabled("autostart:../../etc/passwd", false), { error: "Startup item not found" });
+    assert.equal(units.get("pipewire.service"), "enabled");
+
+    // No systemd user session: autostart entries are still listed
+    const noSystemd = new StartupManager({ userDir, systemDirs: [systemDir] }, {
+      listUnitFiles: async () => {
+        throw new Error("Failed to connect to bus");
+      },
+      setEnabled: async () => {},
+    });
+    assert.ok((await noSystemd.list()).every(item => item.kind === "autostart"));
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+  console.log("✓ startup");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,231 @@
+import fs from "fs";
+import path from "path";
+import type { StartupImpact, StartupItem } from "@shared/startup";
+import { autostartDirectory } from "./snapshots";
+import { systemctlUserServices, type ServiceControl } from "./userServices";
+
+export interface StartupLocations {
+  // ~/.config/autostart; entries here override system ones of the same name
+  userDir: string;
+  // /etc/xdg/autostart and the rest of XDG_CONFIG_DIRS, most important first
+  systemDirs: string[];
+}
+
+export function hostStartupLocations(): StartupLocations {
+  const configDirs = (process.env.XDG_CONFIG_DIRS || "/etc/xdg").split(":").filter(Boolean);
+  return {
+    userDir: autostartDirectory(),
+    systemDirs: configDirs.map(dir => path.join(dir, "autostart")),
+  };
+}
+
+interface StartupRule {
+  pattern: RegExp;
+  impact: StartupImpact;
+  reason: string;
+  defer?: boolean;
+  protect?: string;
+}
+
+// Matched against the entry's file or unit name, its Name= and its Exec=.
+// The first match wins, so desktop plumbing comes before the broad app patterns.
+const STARTUP_RULES: StartupRule[] = [
+  { pattern: /pipewire|wireplumber|pulseaudio/, impact: "low", reason: "Sound server", protect: "Plays sound" },
+  { pattern: /gnome-keyring|kwallet|ssh-agent|gpg-agent/, impact: "low", reason: "Keyring", protect: "Unlocks passwords and keys" },
+  {
+    pattern: /xdg-desktop-portal|at-spi|polkit|dbus|gvfs|xdg-user-dirs|gsd-|gnome-settings|gnome-shell|plasma|kded|ksmserver|xfce|xfsettingsd|lxqt|lxsession|mate-settings|cinnamon/,
+    impact: "low", reason: "Desktop service", protect: "Part of the desktop",
+  },
+  { pattern: /ibus|fcitx|orca|onboard/, impact: "low", reason: "Input and accessibility", protect: "Needed for typing or accessibility" },
+  { pattern: /nm-applet|network-manager|blueman|bluetooth|gamemode/, impact: "low", reason: "System tray helper", protect: "Manages networking or games" },
+  { pattern: /tracker-miner|localsearch|baloo|zeitgeist/, impact: "high", reason: "Indexes files in the background", defer: true },
+  { pattern: /dropbox|onedrive|nextcloud|owncloud|megasync|insync|pcloud|syncthing/, impact: "high", reason: "Syncs files over the network", defer: true },
+  { pattern: /discord|slack|teams|zoom|skype|telegram|signal|element|whatsapp/, impact: "medium", reason: "Chat app with a browser engine", defer: true },
+  { pattern: /spotify|rhythmbox|lollypop/, impact: "medium", reason: "Music player", defer: true },
+  { pattern: /docker-desktop|jetbrains-toolbox|vmware|virtualbox/, impact: "high", reason: "Developer tool with background services", defer: true },
+  {
+    pattern: /update-notifier|packagekit|gnome-software|discover|mintupdate|pamac|evolution-alarm|evolution-data-server/,
+    impact: "medium", reason: "Checks for updates or mail in the background", defer: true,
+  },
+  { pattern: /kdeconnect|gsconnect|geoclue|redshift|caffeine/, impact: "low", reason: "Small tray helper", defer: true },
+  { pattern: /steam|lutris|heroic/, impact: "high", reason: "Game launcher; starts its own helpers" },
+];
+
+function estimate(text: string, kind: StartupItem["kind"]): Pick<StartupItem, "impact" | "impactReason" | "deferWhileGaming" | "protectedReason"> {
+  const rule = STARTUP_RULES.find(rule => rule.pattern.test(text.toLowerCase()));
+  if (rule) {
+    return { impact: rule.impact, impactReason: rule.reason, deferWhileGaming: !!rule.defer, protectedReason: rule.protect ?? null };
+  }
+  // Unknown apps usually open a window or a tray icon; unknown services are often small daemons
+  return kind === "autostart"
+    ? { impact: "medium", impactReason: "Unknown app started at login", deferWhileGaming: false, protectedReason: null }
+    : { impact: "low", impactReason: "Unknown user service", deferWhileGaming: false, protectedReason: null };
+}
+
+// Keys of the [Desktop Entry] group; localized ones (Name[de]) are skipped
+export function parseDesktopEntry(text: string): Map<string, string> {
+  const keys = new Map<string, string>();
+  let inEntry = false;
+  text.split("\n").forEach(line => {
+    const trimmed = line.trim();
+    if (trimmed.startsWith("[")) {
+      inEntry = trimmed === "[Desktop Entry]";
+      return;
+    }
+    const match = trimmed.match(/^([A-Za-z0-9-]+)\s*=\s*(.*)$/);
+    if (inEntry && match && !keys.has(match[1])) keys.set(match[1], match[2]);
+  });
+  return keys;
+}
+
+function isEntryEnabled(keys: Map<string, string>): boolean {
+  return keys.get("Hidden") !== "true" && keys.get("X-GNOME-Autostart-enabled") !== "false";
+}
+
+// Sets or removes a key of the [Desktop Entry] group. A new key goes right
+// after the group header and removing it again gives back the original text.
+export function setDesktopKey(text: string, key: string, value: string | null): string {
+  const lines = text.split("\n");
+  const header = lines.findIndex(line => line.trim() === "[Desktop Entry]");
+  if (header === -1) {
+    return value === null ? text : `[Desktop Entry]\n${key}=${value}\n${text}`;
+  }
+  let end = lines.findIndex((line, index) => index > header && line.trim().startsWith("["));
+  if (end === -1) end = lines.length;
+  const existing = lines.findIndex((line, index) =>
+    index > header && index < end && new RegExp(`^${key}\\s*=`).test(line.trim()));
+
+  if (existing !== -1) {
+    if (value === null) lines.splice(existing, 1);
+    else lines[existing] = `${key}=${value}`;
+  } else if (value !== null) {
+    lines.splice(header + 1, 0, `${key}=${value}`);
+  }
+  return lines.join("\n");
+}
+
+async function readEntries(dir: string): Promise<Map<string, string>> {
+  const entries = new Map<string, string>();
+  let names: string[];
+  try {
+    names = (await fs.promises.readdir(dir)).filter(name => name.endsWith(".desktop")).sort();
+  } catch {
+    return entries;
+  }
+  for (const name of names) {
+    const text = await fs.promises.readFile(path.join(dir, name), "utf-8").catch(() => null);
+    if (text !== null) entries.set(name, text);
+  }
+  return entries;
+}
+
+interface AutostartFiles {
+  user: Map<string, string>;
+  system: Map<string, string>;
+}
+
+export class StartupManager {
+  constructor(
+    private locations: StartupLocations = hostStartupLocations(),
+    private services: ServiceControl = systemctlUserServices,
+  ) {}
+
+  private async autostartFiles(): Promise<AutostartFiles> {
+    const system = new Map<string, string>();
+    // The first system folder with an entry wins, as in the autostart spec
+    for (const dir of this.locations.systemDirs) {
+      const found = await readEntries(dir);
+      Array.from(found).forEach(([name, text]) => system.has(name) || system.set(name, text));
+    }
+    return { user: await readEntries(this.locations.userDir), system };
+  }
+
+  private autostartItems({ user, system }: AutostartFiles): StartupItem[] {
+    const names = Array.from(new Set(Array.from(user.keys()).concat(Array.from(system.keys())))).sort();
+    return names.map((name): StartupItem => {
+      const keys = parseDesktopEntry(user.get(name) ?? system.get(name)!);
+      const title = keys.get("Name") || name.replace(/\.desktop$/, "");
+      const command = keys.get("Exec") ?? null;
+      return {
+        id: `autostart:${name}`,
+        kind: "autostart",
+        name: title,
+        description: keys.get("Comment") ?? "",
+        command,
+        enabled: isEntryEnabled(keys),
+        origin: user.has(name) ? (system.has(name) ? "override" : "user") : "system",
+        ...estimate(`${name} ${title} ${command ?? ""}`, "autostart"),
+      };
+    });
+  }
+
+  // Units that can be enabled or disabled; a host without a systemd user
+  // session simply has none
+  private async serviceItems(): Promise<StartupItem[]> {
+    let units: Map<string, string>;
+    try {
+      units = await this.services.listUnitFiles();
+    } catch {
+      return [];
+    }
+    return Array.from(units)
+      .filter(([, state]) => state === "enabled" || state === "disabled")
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([unit, state]): StartupItem => ({
+        id: `service:${unit}`,
+        kind: "service",
+        name: unit.replace(/\.service$/, ""),
+        description: "systemd user service",
+        command: null,
+        enabled: state === "enabled",
+        origin: null,
+        ...estimate(unit, "service"),
+      }));
+  }
+
+  async list(): Promise<StartupItem[]> {
+    const [autostart, services] = await Promise.all([this.autostartFiles(), this.serviceItems()]);
+    return this.autostartItems(autostart).concat(services);
+  }
+
+  // Autostart entries are turned off with a Hidden=true override in the user's
+  // folder, and turned back on by removing it again: a copied system entry is
+  // deleted once it matches the system one.
+  async setEnabled(id: string, enabled: boolean): Promise<{ item: StartupItem } | { error: string }> {
+    const item = (await this.list()).find(candidate => candidate.id === id);
+    if (!item) return { error: "Startup item not found" };
+    if (!enabled && item.protectedReason) return { error: `Protected: ${item.protectedReason}` };
+    if (item.enabled === enabled) return { item };
+
+    if (item.kind === "service") {
+      await this.services.setEnabled(id.slice("service:".length), enabled);
+    } else {
+      const name = path.basename(id.slice("autostart:".length));
+      const files = await this.autostartFiles();
+      const system = files.system.get(name);
+      const file = path.join(this.locations.userDir, name);
+      let text = files.user.get(name) ?? system!;
+
+      if (enabled) {
+        text = setDesktopKey(text, "Hidden", null);
+        if (parseDesktopEntry(text).get("X-GNOME-Autostart-enabled") === "false") {
+          text = setDesktopKey(text, "X-GNOME-Autostart-enabled", null);
+        }
+      } else {
+        text = setDesktopKey(text, "Hidden", "true");
+      }
+
+      if (system !== undefined && text === system) {
+        await fs.promises.rm(file, { force: true });
+      } else {
+        await fs.promises.mkdir(this.locations.userDir, { recursive: true });
+        await fs.promises.writeFile(file, text);
+      }
+    }
+
+    const updated = (await this.list()).find(candidate => candidate.id === id);
+    return updated ? { item: updated } : { error: "Startup item not found" };
+  }
+}
+
+export const startupManager = new StartupManager();
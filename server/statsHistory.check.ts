@@ -0,0 +1,80 @@
+// Checks history bucketing across the raw, 1-minute and 1-hour tiers, using
+// MemStorage and maintenance runs at simulated later times.
+//
+//   npm run stats:check
+import assert from "node:assert/strict";
+import type { StatsHistoryResponse } from "@shared/statsHistory";
+import { storage } from "./storage";
+import {
+  DEFAULT_RETENTION, getStatsHistory, loadRetentionPolicy, parseDuration,
+  pickResolution, runStatsMaintenance
+} from "./statsHistory";
+
+const HOUR = 3_600_000;
+
+// Totals over every bucket so samples straddling a bucket boundary do not matter
+function totals(history: StatsHistoryResponse) {
+  const cpu = history.buckets.map(b => b.metrics.cpuUsage);
+  return {
+    count: history.buckets.reduce((sum, b) => sum + b.count, 0),
+    min: Math.min(...cpu.map(m => m.min)),
+    max: Math.max(...cpu.map(m => m.max)),
+  };
+}
+
+async function main() {
+  assert.equal(parseDuration("15m"), 900_000);
+  assert.equal(parseDuration("7 days"), null);
+  assert.deepEqual(loadRetentionPolicy({}), DEFAULT_RETENTION);
+  assert.equal(loadRetentionPolicy({ STATS_RETENTION_1H: "30d" })["1h"], 30 * 24 * HOUR);
+  assert.throws(() => loadRetentionPolicy({ STATS_RETENTION_RAW: "1m" }));
+  assert.equal(pickResolution(5 * 60_000), "10s");
+  assert.equal(pickResolution(7 * 24 * HOUR), "1h");
+
+  const user = await storage.createUser({ username: "history_check", passwordHash: "hash" });
+  const other = await storage.createUser({ username: "history_other", passwordHash: "hash" });
+  const sample = {
+    cpuTemp: 50, gpuUsage: 20, gpuTemp: 60, ramUsed: "4.0", ramAvailable: "12.0",
+    networkPing: 15, networkUpload: 10, networkDownload: 100, fps: 144,
+  };
+  for (let cpuUsage = 1; cpuUsage <= 20; cpuUsage++) {
+    // Alternate between the user's own samples and host-wide ones
+    await storage.createSystemStats({ ...sample, cpuUsage, userId: cpuUsage % 2 ? user.id : null });
+  }
+  await storage.createSystemStats({ ...sample, cpuUsage: 99, userId: other.id });
+  const now = Date.now();
+
+  // Straight from raw samples; one day bucket holds everything
+  const raw = await getStatsHistory(user.id, new Date(now - HOUR), new Date(now + 1000), "1d");
+  assert.equal(raw.buckets.length, 1);
+  assert.equal(raw.buckets[0].count, 20);
+  assert.deepEqual(raw.buckets[0].metrics.cpuUsage, { min: 1, avg: 10.5, max: 20, p95: 19 });
+  assert.deepEqual(raw.buckets[0].metrics.ramUsed, { min: 4, avg: 4, max: 4, p95: 4 });
+
+  // After rollups the same range is served from the 1-hour and 1-minute tiers
+  await runStatsMaintenance(now + 2 * HOUR);
+  assert.ok(await storage.getLatestRollupBucket("1h"));
+  const rolled = await getStatsHistory(user.id, new Date(now - HOUR), new Date(now + 2 * HOUR), "1h");
+  assert.deepEqual(totals(rolled), { count: 20, min: 1, max: 20 });
+  const minutes = await getStatsHistory(user.id, new Date(now - HOUR), new Date(now + 2 * HOUR), "5m");
+  assert.deepEqual(totals(minutes), { count: 20, min: 1, max: 20 });
+
+  // Raw samples expire but the rollups keep answering
+  await runStatsMaintenance(now + 2 * 24 * HOUR);
+  assert.equal((await storage.getSystemStatsRange(new Date(0), new Date(now + HOUR))).length, 0);
+  const later = await getStatsHistory(user.id, new Date(now - HOUR), new Date(now + 2 * 24 * HOUR), "1h");
+  assert.deepEqual(totals(later), { count: 20, min: 1, max: 20 });
+
+  // The 1-minute tier is gone after its retention, the 1-hour tier is not
+  await runStatsMaintenance(now + 8 * 24 * HOUR);
+  assert.equal(await storage.getLatestRollupBucket("1m"), undefined);
+  const week = await getStatsHistory(user.id, new Date(now - HOUR), new Date(now + 8 * 24 * HOUR), "1d");
+  assert.equal(totals(week).count, 20);
+
+  console.log("✓ stats history");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,227 @@
+import type { SystemStats, SystemStatsRollup } from "@shared/schema";
+import {
+  statsMetrics, statsResolutions, rollupResolutions, metricValue,
+  type MetricSummaries, type RollupResolution,
+  type StatsHistoryResponse, type StatsResolution
+} from "@shared/statsHistory";
+import { storage } from "./storage";
+
+const MAINTENANCE_INTERVAL_MS = 60_000;
+// Samples are timestamped on insert, so leave in-flight writes time to land before closing a bucket
+const ROLLUP_GRACE_MS = 5_000;
+// Resolution picked when the client does not ask for one
+const TARGET_BUCKETS = 300;
+
+const DURATION_UNITS: Record<string, number> = { s: 1_000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+export interface RetentionPolicy {
+  raw: number;
+  "1m": number;
+  "1h": number;
+}
+
+export const DEFAULT_RETENTION: RetentionPolicy = {
+  raw: 24 * DURATION_UNITS.h,
+  "1m": 7 * DURATION_UNITS.d,
+  "1h": 365 * DURATION_UNITS.d,
+};
+
+// Each tier has to outlive the maintenance run that rolls it into the next one
+const MIN_RETENTION: RetentionPolicy = {
+  raw: 10 * DURATION_UNITS.m,
+  "1m": 2 * DURATION_UNITS.h,
+  "1h": 2 * DURATION_UNITS.h,
+};
+
+// A slice of history at some granularity: one raw sample, a stored rollup or a finished bucket
+interface Part {
+  userId: string | null;
+  start: number;
+  count: number;
+  metrics: MetricSummaries;
+}
+
+// "90s", "15m", "24h", "30d"
+export function parseDuration(text: string): number | null {
+  const match = text.trim().match(/^(\d+)([smhd])$/);
+  return match ? Number(match[1]) * DURATION_UNITS[match[2]] : null;
+}
+
+// STATS_RETENTION_RAW, STATS_RETENTION_1M and STATS_RETENTION_1H override the defaults
+export function loadRetentionPolicy(env: NodeJS.ProcessEnv = process.env): RetentionPolicy {
+  const read = (tier: keyof RetentionPolicy, name: string) => {
+    const value = env[name];
+    if (!value) return DEFAULT_RETENTION[tier];
+
+    const ms = parseDuration(value);
+    if (ms === null || ms < MIN_RETENTION[tier]) {
+      throw new Error(`${name} must be a duration like "7d" of at least ${MIN_RETENTION[tier] / 60_000} minutes, got "${value}"`);
+    }
+    return ms;
+  };
+
+  return {
+    raw: read("raw", "STATS_RETENTION_RAW"),
+    "1m": read("1m", "STATS_RETENTION_1M"),
+    "1h": read("1h", "STATS_RETENTION_1H"),
+  };
+}
+
+export function pickResolution(spanMs: number): StatsResolution {
+  const resolutions = Object.keys(statsResolutions) as StatsResolution[];
+  return resolutions.find(r => spanMs / statsResolutions[r] <= TARGET_BUCKETS) ?? "1d";
+}
+
+const floorTo = (time: number, stepMs: number) => Math.floor(time / stepMs) * stepMs;
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function sampleToPart(sample: SystemStats): Part {
+  const metrics = Object.fromEntries(statsMetrics.map(metric => {
+    const value = metricValue(sample, metric);
+    return [metric, { min: value, avg: value, max: value, p95: value }];
+  })) as MetricSummaries;
+  return { userId: sample.userId, start: sample.timestamp!.getTime(), count: 1, metrics };
+}
+
+function rollupToPart(rollup: SystemStatsRollup): Part {
+  return { userId: rollup.userId, start: rollup.bucketStart.getTime(), count: rollup.sampleCount, metrics: rollup.metrics };
+}
+
+// min, max and avg are exact. p95 is the count-weighted 95th percentile of the
+// parts' p95s: exact when the parts are raw samples, an estimate for rollups.
+function mergeSummaries(parts: Part[]): MetricSummaries {
+  const total = parts.reduce((sum, part) => sum + part.count, 0);
+
+  return Object.fromEntries(statsMetrics.map(metric => {
+    const summaries = parts.map(part => ({ count: part.count, ...part.metrics[metric] }));
+    const byP95 = [...summaries].sort((a, b) => a.p95 - b.p95);
+    const rank = Math.ceil(0.95 * total);
+    let seen = 0;
+    const p95 = byP95.find(s => (seen += s.count) >= rank)?.p95 ?? byP95[byP95.length - 1].p95;
+
+    return [metric, {
+      min: Math.min(...summaries.map(s => s.min)),
+      avg: round2(summaries.reduce((sum, s) => sum + s.avg * s.count, 0) / total),
+      max: Math.max(...summaries.map(s => s.max)),
+      p95,
+    }];
+  })) as MetricSummaries;
+}
+
+// Buckets parts by start time, keeping users apart when rolling up for storage
+function combine(parts: Part[], bucketMs: number, perUser: boolean): Part[] {
+  const groups = new Map<string, Part[]>();
+  parts.forEach(part => {
+    const start = floorTo(part.start, bucketMs);
+    const key = perUser ? `${start}:${part.userId ?? ""}` : String(start);
+    const group = groups.get(key);
+    if (group) group.push(part);
+    else groups.set(key, [part]);
+  });
+
+  return Array.from(groups.values())
+    .map(group => ({
+      userId: group[0].userId,
+      start: floorTo(group[0].start, bucketMs),
+      count: group.reduce((sum, part) => sum + part.count, 0),
+      metrics: mergeSummaries(group),
+    }))
+    .sort((a, b) => a.start - b.start);
+}
+
+const TIER_MS: Record<RollupResolution, number> = { "1m": statsResolutions["1m"], "1h": statsResolutions["1h"] };
+
+// Closes every finished bucket of a tier that has not been stored yet
+async function rollUp(
+  resolution: RollupResolution,
+  now: number,
+  sourceRetentionMs: number,
+  load: (from: Date, to: Date) => Promise<Part[]>,
+) {
+  const bucketMs = TIER_MS[resolution];
+  const latest = await storage.getLatestRollupBucket(resolution);
+  const from = latest ? latest.getTime() + bucketMs : floorTo(now - sourceRetentionMs, bucketMs);
+  const to = floorTo(now - ROLLUP_GRACE_MS, bucketMs);
+  if (to <= from) return;
+
+  const buckets = combine(await load(new Date(from), new Date(to)), bucketMs, true);
+  await storage.createSystemStatsRollups(buckets.map(bucket => ({
+    userId: bucket.userId,
+    resolution,
+    bucketStart: new Date(bucket.start),
+    sampleCount: bucket.count,
+    metrics: bucket.metrics,
+  })));
+}
+
+// Raw samples roll into 1-minute buckets, those into 1-hour buckets, then each tier is pruned
+export async function runStatsMaintenance(now = Date.now(), retention = DEFAULT_RETENTION) {
+  await rollUp("1m", now, retention.raw, async (from, to) =>
+    (await storage.getSystemStatsRange(from, to)).map(sampleToPart));
+  await rollUp("1h", now, retention["1m"], async (from, to) =>
+    (await storage.getSystemStatsRollups("1m", from, to)).map(rollupToPart));
+
+  await storage.deleteSystemStatsBefore(new Date(now - retention.raw));
+  for (const resolution of rollupResolutions) {
+    await storage.deleteSystemStatsRollupsBefore(resolution, new Date(now - retention[resolution]));
+  }
+}
+
+// Reads each stretch of the range from the coarsest tier that has it: stored
+// rollups up to their last closed bucket, then raw samples for the rest.
+export async function getStatsHistory(
+  userId: string,
+  from: Date,
+  to: Date,
+  resolution: StatsResolution,
+): Promise<StatsHistoryResponse> {
+  const bucketMs = statsResolutions[resolution];
+  let cursor = floorTo(from.getTime(), bucketMs);
+  const parts: Part[] = [];
+
+  const tiers = [...rollupResolutions].reverse().filter(tier => bucketMs % TIER_MS[tier] === 0);
+  for (const tier of tiers) {
+    const latest = await storage.getLatestRollupBucket(tier);
+    if (!latest) continue;
+
+    const upTo = Math.min(to.getTime(), latest.getTime() + TIER_MS[tier]);
+    if (upTo > cursor) {
+      const rollups = await storage.getSystemStatsRollups(tier, new Date(cursor), new Date(upTo), userId);
+      parts.push(...rollups.map(rollupToPart));
+      cursor = upTo;
+    }
+  }
+  if (cursor < to.getTime()) {
+    const samples = await storage.getSystemStatsRange(new Date(cursor), to, userId);
+    parts.push(...samples.map(sampleToPart));
+  }
+
+  return {
+    from: new Date(floorTo(from.getTime(), bucketMs)).toISOString(),
+    to: to.toISOString(),
+    resolution,
+    buckets: combine(parts, bucketMs, false).map(bucket => ({
+      start: new Date(bucket.start).toISOString(),
+      count: bucket.count,
+      metrics: bucket.metrics,
+    })),
+  };
+}
+
+let timer: NodeJS.Timeout | null = null;
+
+export function startStatsMaintenance() {
+  if (timer) return;
+
+  const retention = loadRetentionPolicy();
+  const run = () => runStatsMaintenance(Date.now(), retention)
+    .catch(error => console.error("Stats maintenance failed:", error));
+
+  run();
+  timer = setInterval(run, MAINTENANCE_INTERVAL_MS);
+}
+
+export function stopStatsMaintenance() {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
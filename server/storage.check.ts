@@ -0,0 +1,387 @@
+// Runs the same IStorage scenario against MemStorage and DrizzleStorage.
+// Uses an in-process PGlite database by default; set CHECK_DATABASE_URL to
+// point it at a real Postgres instead (the tables are migrated, not dropped).
+// Legacy game profile rows are migrated on a separate PGlite database.
+//
+//   npm run db:check
+//   CHECK_DATABASE_URL=postgres://localhost/nexus_check npm run db:check
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { MemStorage, DrizzleStorage, type IStorage } from "./storage";
+import { statsMetrics, type MetricSummaries } from "@shared/statsHistory";
+import { defaultProfileSettings } from "@shared/gameProfiles";
+import { connectPostgres, migrationsFolder, type Database, type DatabaseConnection } from "./db";
+
+async function connectPGlite(): Promise<DatabaseConnection> {
+  const { PGlite } = await import("@electric-sql/pglite");
+  const { drizzle } = await import("drizzle-orm/pglite");
+  const { migrate } = await import("drizzle-orm/pglite/migrator");
+  const schema = await import("@shared/schema");
+
+  const client = new PGlite();
+  const db = drizzle(client, { schema });
+
+  return {
+    db: db as unknown as Database,
+    migrate: () => migrate(db, { migrationsFolder }),
+    close: () => client.close(),
+  };
+}
+
+// Migrates a fresh PGlite database to just before the settings column became
+// json, adds profiles with legacy settings strings, then runs the rest
+async function checkLegacyProfileSettings() {
+  const { PGlite } = await import("@electric-sql/pglite");
+  const { drizzle } = await import("drizzle-orm/pglite");
+  const { migrate } = await import("drizzle-orm/pglite/migrator");
+
+  const client = new PGlite();
+  const db = drizzle(client);
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "nexus-migrations-"));
+  try {
+    await fs.promises.cp(migrationsFolder, dir, { recursive: true });
+    const journalPath = path.join(dir, "meta/_journal.json");
+    const journal = JSON.parse(await fs.promises.readFile(journalPath, "utf-8"));
+    journal.entries = journal.entries.filter((entry: { tag: string }) => entry.tag < "0005");
+    await fs.promises.writeFile(journalPath, JSON.stringify(journal));
+    await migrate(db, { migrationsFolder: dir });
+
+    const legacy = {
+      valid: '{"priority":"high","fpsCap":144}',
+      truncated: '{"priority":"high",',
+      text: "high priority",
+      array: "[1,2]",
+    };
+    for (const [name, settings] of Object.entries(legacy)) {
+      await client.query(`INSERT INTO "game_profiles" ("name", "icon", "settings") VALUES ($1, 'fas fa-gamepad', $2)`, [name, settings]);
+    }
+    await migrate(db, { migrationsFolder });
+
+    const { rows } = await client.query<{ name: string; settings: typeof defaultProfileSettings }>(
+      `SELECT "name", "settings" FROM "game_profiles" ORDER BY "name"`,
+    );
+    const byName = Object.fromEntries(rows.map(row => [row.name, row.settings]));
+    assert.deepEqual(byName.valid, { ...defaultProfileSettings, priority: "high", fpsCap: 144 });
+    assert.deepEqual(byName.truncated, defaultProfileSettings);
+    assert.deepEqual(byName.text, defaultProfileSettings);
+    assert.deepEqual(byName.array, defaultProfileSettings);
+  } finally {
+    await client.close();
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+}
+
+async function runScenario(storage: IStorage) {
+  const suffix = Date.now().toString(36);
+  const username = `check_${suffix}`;
+
+  // Users
+  const user = await storage.createUser({
+    username,
+    email: `${username}@example.com`,
+    passwordHash: "hash",
+  });
+  assert.equal(user.username, username);
+  assert.equal(user.twoFactorEnabled, false);
+  assert.equal((await storage.getUserByUsername(username))?.id, user.id);
+  assert.equal((await storage.getUserByEmail(`${username}@example.com`))?.id, user.id);
+
+  await storage.updateUserPassword(user.id, "new-hash");
+  await storage.updateUserLastLogin(user.id);
+  await storage.updateUser2FA(user.id, "SECRET", true);
+  let current = await storage.getUserById(user.id);
+  assert.equal(current?.passwordHash, "new-hash");
+  assert.ok(current?.lastLogin instanceof Date);
+  assert.equal(current?.twoFactorSecret, "SECRET");
+  assert.equal(current?.twoFactorEnabled, true);
+
+  await storage.setPendingTwoFactorSecret(user.id, "PENDING");
+  assert.equal((await storage.getUserById(user.id))?.twoFactorPendingSecret, "PENDING");
+  await storage.updateUser2FA(user.id, "PENDING", true);
+  assert.equal((await storage.getUserById(user.id))?.twoFactorPendingSecret, null);
+  assert.equal(await storage.claimTwoFactorStep(user.id, 100), true);
+  assert.equal(await storage.claimTwoFactorStep(user.id, 100), false);
+  assert.equal(await storage.claimTwoFactorStep(user.id, 99), false);
+  assert.equal(await storage.claimTwoFactorStep(user.id, 101), true);
+
+  // Two-factor recovery codes
+  await storage.replaceRecoveryCodes(user.id, ["hash-a", "hash-b"]);
+  assert.equal(await storage.countUnusedRecoveryCodes(user.id), 2);
+  assert.equal(await storage.useRecoveryCode(user.id, "hash-a"), true);
+  assert.equal(await storage.useRecoveryCode(user.id, "hash-a"), false);
+  assert.equal(await storage.countUnusedRecoveryCodes(user.id), 1);
+  await storage.replaceRecoveryCodes(user.id, []);
+  assert.equal(await storage.useRecoveryCode(user.id, "hash-b"), false);
+
+  const renamed = await storage.updateUserProfile(user.id, { username: `${username}_2` });
+  assert.equal(renamed?.username, `${username}_2`);
+  assert.equal((await storage.updateUserProfile(user.id, {}))?.id, user.id);
+
+  await storage.incrementFailedLogins(user.id);
+  await storage.incrementFailedLogins(user.id);
+  assert.equal((await storage.getUserById(user.id))?.failedLoginAttempts, 2);
+  await storage.lockUser(user.id, new Date(Date.now() + 60_000));
+  assert.equal((await storage.getUserById(user.id))?.isLocked, true);
+  await storage.unlockUser(user.id);
+  current = await storage.getUserById(user.id);
+  assert.equal(current?.isLocked, false);
+  assert.equal(current?.failedLoginAttempts, 0);
+
+  // User Settings
+  const settings = await storage.getUserSettings(user.id);
+  assert.equal(settings?.colorTheme, "green");
+  assert.deepEqual(settings?.fpsTargets, { fortnite: 144, global: 240 });
+  const updated = await storage.updateUserSettings(user.id, { colorTheme: "purple" });
+  assert.equal(updated?.colorTheme, "purple");
+  assert.equal(updated?.darkMode, true);
+
+  // Password Resets
+  const reset = await storage.createPasswordReset({
+    userId: user.id,
+    token: `token_${suffix}`,
+    expiresAt: new Date(Date.now() + 60_000),
+  });
+  assert.equal((await storage.getPasswordResetByToken(reset.token))?.id, reset.id);
+  await storage.markPasswordResetUsed(reset.id);
+  assert.equal(await storage.getPasswordResetByToken(reset.token), undefined);
+  await storage.cleanupExpiredPasswordResets();
+
+  // Security Logs
+  await storage.createSecurityLog({ userId: user.id, event: "login_success", details: { via: "check" } });
+  await storage.createSecurityLog({ userId: user.id, event: "logout" });
+  const logs = await storage.getSecurityLogs(user.id);
+  assert.deepEqual(logs.map(log => log.event), ["login_success", "logout"]);
+  assert.deepEqual(logs[0].details, { via: "check" });
+  await storage.clearSecurityLogs(user.id);
+  assert.equal((await storage.getSecurityLogs(user.id)).length, 0);
+
+  // System Stats
+  const sample = {
+    userId: user.id,
+    cpuUsage: 10, cpuTemp: 50, gpuUsage: 20, gpuTemp: 60,
+    ramUsed: "4.0", ramAvailable: "12.0",
+    networkPing: 15, networkUpload: 10, networkDownload: 100, fps: 144,
+  };
+  await storage.createSystemStats(sample);
+  await new Promise(resolve => setTimeout(resolve, 5));
+  await storage.createSystemStats({ ...sample, cpuUsage: 90 });
+  assert.equal((await storage.getLatestSystemStats(user.id))?.cpuUsage, 90);
+  // Host telemetry rows have no user and are visible to everyone
+  await new Promise(resolve => setTimeout(resolve, 5));
+  await storage.createSystemStats({ ...sample, userId: null, cpuUsage: 33 });
+  assert.equal((await storage.getLatestSystemStats(user.id))?.cpuUsage, 33);
+  const now = Date.now();
+  const range = await storage.getSystemStatsRange(new Date(now - 60_000), new Date(now + 1000), user.id);
+  assert.deepEqual(range.map(s => s.cpuUsage), [10, 90, 33]);
+
+  const metrics = Object.fromEntries(statsMetrics.map(m => [m, { min: 1, avg: 2, max: 3, p95: 3 }])) as MetricSummaries;
+  const minute = new Date(Math.floor(now / 60_000) * 60_000);
+  await storage.createSystemStatsRollups([
+    { userId: user.id, resolution: "1m", bucketStart: new Date(minute.getTime() - 60_000), sampleCount: 30, metrics },
+    { userId: null, resolution: "1m", bucketStart: minute, sampleCount: 30, metrics },
+  ]);
+  assert.equal((await storage.getLatestRollupBucket("1m"))?.getTime(), minute.getTime());
+  assert.equal(await storage.getLatestRollupBucket("1h"), undefined);
+  const rollups = await storage.getSystemStatsRollups("1m", new Date(minute.getTime() - 60_000), new Date(now + 60_000), user.id);
+  assert.deepEqual(rollups.map(r => r.sampleCount), [30, 30]);
+  assert.deepEqual(rollups[0].metrics.cpuTemp, { min: 1, avg: 2, max: 3, p95: 3 });
+  assert.equal(await storage.deleteSystemStatsRollupsBefore("1m", minute), 1);
+  assert.ok(await storage.deleteSystemStatsBefore(new Date(now + 1000)) >= 3);
+  assert.equal((await storage.getSystemStatsRange(new Date(0), new Date(now + 1000), user.id)).length, 0);
+
+  // Gaming Sessions
+  const session = await storage.createGamingSession({ userId: user.id, gameName: "Fortnite" });
+  const hostSession = await storage.createGamingSession({
+    userId: null, gameName: "Valorant", startedAt: new Date(now - 3 * 60_000),
+  });
+  await storage.endGamingSession(hostSession.id, new Date(now - 2 * 60_000));
+  const sessionsNow = await storage.getGamingSessions(new Date(now - 60_000), new Date(now + 60_000), user.id);
+  assert.deepEqual(sessionsNow.map(s => s.gameName), ["Fortnite"]);
+  const sessionsAll = await storage.getGamingSessions(new Date(now - 5 * 60_000), new Date(now + 60_000), user.id);
+  assert.deepEqual(sessionsAll.map(s => s.gameName), ["Valorant", "Fortnite"]);
+  assert.ok((await storage.endGamingSession(session.id))?.endedAt);
+
+  // Alerts
+  const rule = await storage.createAlertRule({
+    userId: user.id, name: "Hot GPU", metric: "gpuTemp", operator: ">", threshold: 83, forSeconds: 30,
+  });
+  assert.equal(rule.cooldownSeconds, 300);
+  assert.equal(rule.severity, "warning");
+  assert.equal((await storage.updateAlertRule(rule.id, { hysteresis: 3 }))?.hysteresis, 3);
+  assert.deepEqual((await storage.getAlertRules(user.id)).map(r => r.id), [rule.id]);
+  const alert = await storage.createAlert({
+    userId: user.id, ruleId: rule.id, ruleName: rule.name, severity: "critical", metric: "gpuTemp",
+    threshold: 83, value: 85.5, peakValue: 85.5, message: "GPU temperature is 85.5°C",
+  });
+  assert.ok((await storage.getActiveAlerts()).some(a => a.id === alert.id));
+  await storage.updateAlert(alert.id, { peakValue: 90, resolvedAt: new Date() });
+  assert.equal((await storage.getAlerts(user.id, { activeOnly: true })).length, 0);
+  assert.ok(await storage.deleteAlertRule(rule.id));
+  const [history] = await storage.getAlerts(user.id, { limit: 10 });
+  assert.equal(history.peakValue, 90);
+  assert.equal(history.ruleId, null);
+
+  // Game Profiles
+  const templates = (await storage.getGameProfiles(user.id)).filter(p => !p.userId);
+  assert.deepEqual(templates.map(p => p.name).sort(), ["Fortnite", "Minecraft", "Valorant"]);
+  assert.ok(templates.every(p => !p.isActive));
+  const profile = await storage.createGameProfile({
+    userId: user.id,
+    name: "Apex Legends",
+    icon: "fas fa-crosshairs",
+    settings: { ...defaultProfileSettings, priority: "high" },
+  });
+  assert.equal(profile.isActive, false);
+  assert.equal((await storage.getGameProfile(profile.id))?.settings.priority, "high");
+  const retitled = await storage.updateGameProfile(profile.id, { id: "ignored", name: "Apex" });
+  assert.equal(retitled?.id, profile.id);
+  assert.equal(retitled?.name, "Apex");
+  assert.equal(await storage.updateGameProfile("00000000-0000-0000-0000-000000000000", { name: "x" }), undefined);
+
+  // Only one of a user's profiles is active at a time, and templates are never theirs to activate
+  const second = await storage.createGameProfile({ userId: user.id, name: "CS2", icon: "fas fa-bomb", settings: defaultProfileSettings });
+  assert.equal((await storage.setActiveGameProfile(user.id, profile.id))?.isActive, true);
+  assert.equal((await storage.setActiveGameProfile(user.id, second.id))?.isActive, true);
+  assert.equal((await storage.getGameProfile(profile.id))?.isActive, false);
+  assert.equal(await storage.setActiveGameProfile(user.id, templates[0].id), undefined);
+  assert.equal((await storage.getGameProfile(second.id))?.isActive, true);
+  await storage.setActiveGameProfile(user.id, null);
+  assert.ok((await storage.getGameProfiles(user.id)).every(p => !p.isActive));
+  assert.ok(await storage.deleteGameProfile(second.id));
+  assert.equal(await storage.getGameProfile(second.id), undefined);
+
+  // Optimization Jobs
+  const firstJob = await storage.createOptimizationJob({ userId: user.id, task: "tempCleanup", status: "queued" });
+  await new Promise(resolve => setTimeout(resolve, 5));
+  const secondJob = await storage.createOptimizationJob({ userId: user.id, task: "ramCleaner", params: { level: 1 } });
+  assert.equal(secondJob.status, "queued");
+  const finishedJob = await storage.updateOptimizationJob(firstJob.id, {
+    status: "succeeded",
+    progress: 100,
+    result: { summary: "Removed 2 files", bytesFreed: 2048, itemsChanged: 2 },
+    finishedAt: new Date(),
+  });
+  assert.deepEqual(finishedJob?.result, { summary: "Removed 2 files", bytesFreed: 2048, itemsChanged: 2 });
+  assert.deepEqual((await storage.getOptimizationJobs(user.id, { limit: 10 })).map(j => j.id), [secondJob.id, firstJob.id]);
+  assert.deepEqual((await storage.getOptimizationJobs(user.id, { task: "tempCleanup" })).map(j => j.id), [firstJob.id]);
+  assert.deepEqual((await storage.getUnfinishedOptimizationJobs()).map(j => j.id), [secondJob.id]);
+  assert.deepEqual((await storage.getOptimizationJob(secondJob.id))?.params, { level: 1 });
+  assert.equal(await storage.updateOptimizationJob("00000000-0000-0000-0000-000000000000", { status: "failed" }), undefined);
+
+  // System Snapshots
+  const manifest = { formatVersion: 1, hostname: "rig", kernel: "6.8.0", sources: [{ id: "sysctl", title: "Kernel parameters", keys: 1 }] };
+  const olderSnapshot = await storage.createSystemSnapshot({ userId: user.id, label: "First", manifest, data: { sysctl: { "vm.swappiness": "60" } } });
+  await new Promise(resolve => setTimeout(resolve, 5));
+  const newerSnapshot = await storage.createSystemSnapshot({ userId: user.id, label: "Second", manifest, data: { sysctl: { "vm.swappiness": "10" } } });
+  assert.deepEqual((await storage.getSystemSnapshots(user.id)).map(s => s.label), ["Second", "First"]);
+  assert.deepEqual((await storage.getSystemSnapshot(olderSnapshot.id))?.data, { sysctl: { "vm.swappiness": "60" } });
+  assert.deepEqual((await storage.getSystemSnapshot(newerSnapshot.id))?.manifest, manifest);
+  assert.ok(await storage.deleteSystemSnapshot(olderSnapshot.id));
+  assert.equal(await storage.deleteSystemSnapshot(olderSnapshot.id), false);
+  assert.equal((await storage.getSystemSnapshots(user.id)).length, 1);
+
+  // Sysctl Baselines: the first captured value of a key is kept
+  const baseline = await storage.createSysctlBaseline({ key: "net.ipv4.tcp_fastopen", value: "1", capturedBy: user.id });
+  assert.equal((await storage.createSysctlBaseline({ key: "net.ipv4.tcp_fastopen", value: "3" })).value, "1");
+  await storage.createSysctlBaseline({ key: "net.core.default_qdisc", value: "fq_codel" });
+  assert.deepEqual((await storage.getSysctlBaselines()).map(b => b.key), ["net.core.default_qdisc", "net.ipv4.tcp_fastopen"]);
+  assert.equal(baseline.capturedBy, user.id);
+  assert.ok(await storage.deleteSysctlBaseline("net.ipv4.tcp_fastopen"));
+  assert.equal(await storage.deleteSysctlBaseline("net.ipv4.tcp_fastopen"), false);
+  assert.equal((await storage.getSysctlBaselines()).length, 1);
+
+  // Latency Probes
+  const summary = { sent: 0, received: 0, lossRate: 0, min: null, avg: null, max: null, jitter: null };
+  const olderProbe = await storage.createLatencyProbe({ userId: user.id, target: "example.com", address: "93.184.216.34", method: "tcp", port: 443, summary });
+  await new Promise(resolve => setTimeout(resolve, 5));
+  const newerProbe = await storage.createLatencyProbe({ userId: user.id, target: "1.1.1.1", address: "1.1.1.1", method: "icmp", summary });
+  assert.deepEqual((await storage.getLatencyProbes(user.id)).map(p => p.target), ["1.1.1.1", "example.com"]);
+  assert.equal((await storage.getLatencyProbes(user.id, 1)).length, 1);
+  assert.equal(newerProbe.port, null);
+  assert.deepEqual(newerProbe.samples, []);
+  assert.equal((await storage.getUnfinishedLatencyProbes()).length, 2);
+  const finishedProbe = await storage.updateLatencyProbe(olderProbe.id, {
+    status: "completed",
+    samples: [{ seq: 0, rtt: 12.5 }, { seq: 1, rtt: null }],
+    summary: { sent: 2, received: 1, lossRate: 0.5, min: 12.5, avg: 12.5, max: 12.5, jitter: 0 },
+    finishedAt: new Date(),
+  });
+  assert.equal(finishedProbe?.summary.lossRate, 0.5);
+  assert.deepEqual((await storage.getLatencyProbe(olderProbe.id))?.samples, [{ seq: 0, rtt: 12.5 }, { seq: 1, rtt: null }]);
+  assert.deepEqual((await storage.getUnfinishedLatencyProbes()).map(p => p.id), [newerProbe.id]);
+  assert.ok(await storage.deleteLatencyProbe(newerProbe.id));
+  assert.equal(await storage.deleteLatencyProbe(newerProbe.id), false);
+
+  // UDP Tests
+  const udpSummary = { sent: 0, received: 0, lossRate: 0, outOfOrder: 0, duplicates: 0, avgRtt: null, jitter: null, histogram: [] };
+  const udpTest = await storage.createUdpTest({ userId: user.id, target: "echo.lan", address: "192.168.1.20", port: 9999, rate: 50, size: 200, durationSec: 10, summary: udpSummary });
+  assert.equal(udpTest.status, "running");
+  assert.deepEqual((await storage.getUnfinishedUdpTests()).map(t => t.id), [udpTest.id]);
+  const finishedTest = await storage.updateUdpTest(udpTest.id, {
+    status: "completed",
+    summary: { ...udpSummary, sent: 500, received: 495, lossRate: 0.01, histogram: [{ fromMs: 0, toMs: 1, count: 494 }] },
+    finishedAt: new Date(),
+  });
+  assert.equal(finishedTest?.summary.received, 495);
+  assert.deepEqual((await storage.getUdpTests(user.id)).map(t => t.summary.histogram[0].count), [494]);
+  assert.equal((await storage.getUnfinishedUdpTests()).length, 0);
+  assert.ok(await storage.deleteUdpTest(udpTest.id));
+  assert.equal(await storage.getUdpTest(udpTest.id), undefined);
+
+  // GPU Tuning Attempts
+  const tuning = await storage.createGpuTuningAttempt({
+    userId: user.id,
+    deviceId: "nvidia-0",
+    deviceName: "NVIDIA GeForce RTX 4070",
+    previous: { coreClockOffset: 0, powerLimit: 200, fanSpeed: null },
+    requested: { coreClockOffset: 150 },
+    stepsTotal: 3,
+    confirmWindowSec: 20,
+  });
+  assert.deepEqual([tuning.status, tuning.stepsApplied, tuning.revertReason], ["applying", 0, null]);
+  assert.deepEqual((await storage.getUnfinishedGpuTuningAttempts()).map(a => a.id), [tuning.id]);
+  await storage.updateGpuTuningAttempt(tuning.id, { stepsApplied: 3, status: "confirming", confirmBy: new Date() });
+  assert.equal((await storage.getUnfinishedGpuTuningAttempts()).length, 1);
+  const reverted = await storage.updateGpuTuningAttempt(tuning.id, { status: "reverted", revertReason: "timeout", finishedAt: new Date() });
+  assert.equal(reverted?.revertReason, "timeout");
+  assert.equal((await storage.getUnfinishedGpuTuningAttempts()).length, 0);
+  assert.deepEqual((await storage.getGpuTuningAttempts(user.id, 5)).map(a => a.previous.fanSpeed), [null]);
+  assert.equal((await storage.getGpuTuningAttempt(tuning.id))?.stepsApplied, 3);
+
+  // Chat Messages
+  await storage.createChatMessage({ userId: user.id, content: "first", isUser: true });
+  await new Promise(resolve => setTimeout(resolve, 5));
+  await storage.createChatMessage({ userId: user.id, content: "second", isUser: false });
+  const messages = (await storage.getChatMessages(user.id)).filter(m => m.userId === user.id);
+  assert.deepEqual(messages.map(m => m.content), ["first", "second"]);
+  await storage.clearChatMessages(user.id);
+  assert.equal((await storage.getChatMessages(user.id)).filter(m => m.userId === user.id).length, 0);
+}
+
+async function main() {
+  await runScenario(new MemStorage());
+  console.log("✓ MemStorage");
+
+  const url = process.env.CHECK_DATABASE_URL;
+  const connection = url ? connectPostgres(url) : await connectPGlite();
+  try {
+    await connection.migrate();
+    const drizzleStorage = new DrizzleStorage(connection.db);
+    await drizzleStorage.seedDefaultGameProfiles();
+    await drizzleStorage.seedDefaultGameProfiles();
+    await runScenario(drizzleStorage);
+    console.log(`✓ DrizzleStorage (${url ? "postgres" : "pglite"})`);
+  } finally {
+    await connection.close();
+  }
+
+  await checkLegacyProfileSettings();
+  console.log("✓ legacy profile settings migration");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
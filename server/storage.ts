@@ -3,22 +3,51 @@ import {
   type User, type UserSettings, type PasswordReset, type SecurityLog,
   type InsertSystemStats, type InsertGameProfile, type InsertChatMessage,
   type InsertUser, type InsertUserSettings, type UpdateUserSettings,
-  type InsertPasswordReset, type InsertSecurityLog
+  type InsertPasswordReset, type InsertSecurityLog, type RecoveryCode,
+  type SystemStatsRollup, type InsertSystemStatsRollup,
+  type GamingSession, type InsertGamingSession,
+  type AlertRule, type InsertAlertRule, type Alert, type InsertAlert,
+  type OptimizationJob, type InsertOptimizationJob,
+  type SystemSnapshot, type InsertSystemSnapshot,
+  type SysctlBaseline, type InsertSysctlBaseline,
+  type LatencyProbe, type InsertLatencyProbe,
+  type UdpTest, type InsertUdpTest,
+  type GpuTuningAttempt, type InsertGpuTuningAttempt
 } from "@shared/schema";
+import {
+  users, userSettings, passwordResets, securityLogs, recoveryCodes,
+  systemStats, systemStatsRollups, gameProfiles, gamingSessions, alertRules, alerts, optimizationJobs,
+  systemSnapshots, sysctlBaselines, latencyProbes, udpTests, gpuTuningAttempts, chatMessages
+} from "@shared/schema";
+import type { RollupResolution } from "@shared/statsHistory";
+import { defaultProfileSettings } from "@shared/gameProfiles";
+import { activeGpuTuningStatuses } from "@shared/gpuTuning";
+import { and, asc, desc, eq, gte, inArray, isNull, lt, or, sql } from "drizzle-orm";
 import { randomUUID } from "crypto";
+import { connectPostgres, type Database, type DatabaseConnection } from "./db";
 
 export interface IStorage {
   // Users
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserById(id: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUserProfile(id: string, updates: { username?: string; email?: string | null }): Promise<User | undefined>;
+  updateUserPassword(id: string, passwordHash: string): Promise<void>;
   updateUserLastLogin(id: string): Promise<void>;
   updateUser2FA(id: string, secret: string | null, enabled: boolean): Promise<void>;
+  setPendingTwoFactorSecret(id: string, secret: string | null): Promise<void>;
+  claimTwoFactorStep(id: string, step: number): Promise<boolean>;
   lockUser(id: string, until: Date): Promise<void>;
   unlockUser(id: string): Promise<void>;
   incrementFailedLogins(id: string): Promise<void>;
   resetFailedLogins(id: string): Promise<void>;
   
+  // Two-factor recovery codes
+  replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void>;
+  useRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  countUnusedRecoveryCodes(userId: string): Promise<number>;
+  
   // User Settings
   getUserSettings(userId: string): Promise<UserSettings | undefined>;
   createUserSettings(settings: InsertUserSettings): Promise<UserSettings>;
@@ -37,12 +66,94 @@ export interface IStorage {
   
   // System Stats
   getLatestSystemStats(userId?: string): Promise<SystemStats | undefined>;
+  // Oldest first, from <= timestamp < to; a userId also matches host-wide rows
+  getSystemStatsRange(from: Date, to: Date, userId?: string): Promise<SystemStats[]>;
   createSystemStats(stats: InsertSystemStats): Promise<SystemStats>;
+  deleteSystemStatsBefore(before: Date): Promise<number>;
+  getSystemStatsRollups(resolution: RollupResolution, from: Date, to: Date, userId?: string): Promise<SystemStatsRollup[]>;
+  getLatestRollupBucket(resolution: RollupResolution): Promise<Date | undefined>;
+  createSystemStatsRollups(rollups: InsertSystemStatsRollup[]): Promise<void>;
+  deleteSystemStatsRollupsBefore(resolution: RollupResolution, before: Date): Promise<number>;
   
   // Game Profiles
+  // A userId also matches the shared templates
   getGameProfiles(userId?: string): Promise<GameProfile[]>;
+  getGameProfile(id: string): Promise<GameProfile | undefined>;
   createGameProfile(profile: InsertGameProfile): Promise<GameProfile>;
   updateGameProfile(id: string, updates: Partial<GameProfile>): Promise<GameProfile | undefined>;
+  deleteGameProfile(id: string): Promise<boolean>;
+  // Activates one of the user's profiles and deactivates the rest; null deactivates all of them
+  setActiveGameProfile(userId: string, id: string | null): Promise<GameProfile | undefined>;
+
+  // Gaming Sessions
+  // Sessions overlapping [from, to), oldest first; a userId also matches host-wide sessions
+  getGamingSessions(from: Date, to: Date, userId?: string): Promise<GamingSession[]>;
+  createGamingSession(session: InsertGamingSession): Promise<GamingSession>;
+  endGamingSession(id: string, endedAt?: Date): Promise<GamingSession | undefined>;
+
+  // Alerts
+  // Every user's rules when userId is omitted
+  getAlertRules(userId?: string): Promise<AlertRule[]>;
+  getAlertRule(id: string): Promise<AlertRule | undefined>;
+  createAlertRule(rule: InsertAlertRule): Promise<AlertRule>;
+  updateAlertRule(id: string, updates: Partial<InsertAlertRule>): Promise<AlertRule | undefined>;
+  deleteAlertRule(id: string): Promise<boolean>;
+  // Newest first
+  getAlerts(userId: string, options?: { activeOnly?: boolean; limit?: number }): Promise<Alert[]>;
+  getActiveAlerts(): Promise<Alert[]>;
+  createAlert(alert: InsertAlert): Promise<Alert>;
+  updateAlert(id: string, updates: Partial<Pick<Alert, "peakValue" | "resolvedAt">>): Promise<Alert | undefined>;
+
+  // Optimization Jobs
+  // Newest first, optionally for one task
+  getOptimizationJobs(userId: string, options?: { task?: string; limit?: number }): Promise<OptimizationJob[]>;
+  getOptimizationJob(id: string): Promise<OptimizationJob | undefined>;
+  // Queued or running jobs of every user, oldest first
+  getUnfinishedOptimizationJobs(): Promise<OptimizationJob[]>;
+  createOptimizationJob(job: InsertOptimizationJob): Promise<OptimizationJob>;
+  updateOptimizationJob(id: string, updates: Partial<Omit<OptimizationJob, "id" | "userId">>): Promise<OptimizationJob | undefined>;
+
+  // System Snapshots
+  // Newest first
+  getSystemSnapshots(userId: string): Promise<SystemSnapshot[]>;
+  getSystemSnapshot(id: string): Promise<SystemSnapshot | undefined>;
+  createSystemSnapshot(snapshot: InsertSystemSnapshot): Promise<SystemSnapshot>;
+  deleteSystemSnapshot(id: string): Promise<boolean>;
+
+  // Sysctl Baselines
+  getSysctlBaselines(): Promise<SysctlBaseline[]>;
+  // Keeps the existing baseline of a key, which is older, and returns it
+  createSysctlBaseline(baseline: InsertSysctlBaseline): Promise<SysctlBaseline>;
+  deleteSysctlBaseline(key: string): Promise<boolean>;
+
+  // Latency Probes
+  // Newest first
+  getLatencyProbes(userId: string, limit?: number): Promise<LatencyProbe[]>;
+  getLatencyProbe(id: string): Promise<LatencyProbe | undefined>;
+  // Running probes of every user
+  getUnfinishedLatencyProbes(): Promise<LatencyProbe[]>;
+  createLatencyProbe(probe: InsertLatencyProbe): Promise<LatencyProbe>;
+  updateLatencyProbe(id: string, updates: Partial<Omit<LatencyProbe, "id" | "userId">>): Promise<LatencyProbe | undefined>;
+  deleteLatencyProbe(id: string): Promise<boolean>;
+
+  // UDP Tests
+  // Newest first
+  getUdpTests(userId: string, limit?: number): Promise<UdpTest[]>;
+  getUdpTest(id: string): Promise<UdpTest | undefined>;
+  // Running tests of every user
+  getUnfinishedUdpTests(): Promise<UdpTest[]>;
+  createUdpTest(test: InsertUdpTest): Promise<UdpTest>;
+  updateUdpTest(id: string, updates: Partial<Omit<UdpTest, "id" | "userId">>): Promise<UdpTest | undefined>;
+  deleteUdpTest(id: string): Promise<boolean>;
+
+  // GPU Tuning Attempts
+  // Newest first
+  getGpuTuningAttempts(userId: string, limit?: number): Promise<GpuTuningAttempt[]>;
+  getGpuTuningAttempt(id: string): Promise<GpuTuningAttempt | undefined>;
+  // Attempts of every user that are still applying or waiting for confirmation
+  getUnfinishedGpuTuningAttempts(): Promise<GpuTuningAttempt[]>;
+  createGpuTuningAttempt(attempt: InsertGpuTuningAttempt): Promise<GpuTuningAttempt>;
+  updateGpuTuningAttempt(id: string, updates: Partial<Omit<GpuTuningAttempt, "id" | "userId">>): Promise<GpuTuningAttempt | undefined>;
   
   // Chat Messages
   getChatMessages(userId?: string): Promise<ChatMessage[]>;
@@ -50,13 +161,62 @@ export interface IStorage {
   clearChatMessages(userId?: string): Promise<void>;
 }
 
+// Settings every new account starts with
+const defaultUserSettings = {
+  darkMode: true,
+  soundEffects: true,
+  autoOptimization: false,
+  performanceAlerts: true,
+  colorTheme: "green",
+  fpsTargets: { fortnite: 144, global: 240 },
+};
+
+// Shared templates, owned by no user
+const defaultGameProfiles = [
+  {
+    name: "Valorant",
+    icon: "fas fa-gun",
+    isActive: false,
+    settings: {
+      ...defaultProfileSettings,
+      priority: "high" as const,
+      optimization: "fps" as const,
+      gpuPreset: "performance" as const,
+      network: { ...defaultProfileSettings.network, tcpOptimized: true, qos: true },
+    }
+  },
+  {
+    name: "Fortnite",
+    icon: "fas fa-hammer",
+    isActive: false,
+    settings: { ...defaultProfileSettings, priority: "medium" as const, optimization: "balanced" as const, fpsCap: 144 }
+  },
+  {
+    name: "Minecraft",
+    icon: "fas fa-cube",
+    isActive: false,
+    settings: { ...defaultProfileSettings, priority: "low" as const, optimization: "quality" as const, gpuPreset: "quiet" as const }
+  }
+];
+
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private userSettings: Map<string, UserSettings>;
   private passwordResets: Map<string, PasswordReset>;
   private securityLogs: Map<string, SecurityLog>;
+  private recoveryCodes: Map<string, RecoveryCode>;
   private systemStats: Map<string, SystemStats>;
+  private systemStatsRollups: Map<string, SystemStatsRollup>;
   private gameProfiles: Map<string, GameProfile>;
+  private gamingSessions: Map<string, GamingSession>;
+  private alertRules: Map<string, AlertRule>;
+  private alerts: Map<string, Alert>;
+  private optimizationJobs: Map<string, OptimizationJob>;
+  private systemSnapshots: Map<string, SystemSnapshot>;
+  private sysctlBaselines: Map<string, SysctlBaseline>;
+  private latencyProbes: Map<string, LatencyProbe>;
+  private udpTests: Map<string, UdpTest>;
+  private gpuTuningAttempts: Map<string, GpuTuningAttempt>;
   private chatMessages: Map<string, ChatMessage>;
 
   constructor() {
@@ -64,8 +224,19 @@ export class MemStorage implements IStorage {
     this.userSettings = new Map();
     this.passwordResets = new Map();
     this.securityLogs = new Map();
+    this.recoveryCodes = new Map();
     this.systemStats = new Map();
+    this.systemStatsRollups = new Map();
     this.gameProfiles = new Map();
+    this.gamingSessions = new Map();
+    this.alertRules = new Map();
+    this.alerts = new Map();
+    this.optimizationJobs = new Map();
+    this.systemSnapshots = new Map();
+    this.sysctlBaselines = new Map();
+    this.latencyProbes = new Map();
+    this.udpTests = new Map();
+    this.gpuTuningAttempts = new Map();
     this.chatMessages = new Map();
     
     // Initialize with default game profiles
@@ -81,15 +252,22 @@ export class MemStorage implements IStorage {
     return this.users.get(id);
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.email === email);
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
     const user: User = {
       ...insertUser,
       id,
+      email: insertUser.email ?? null,
       createdAt: new Date(),
       lastLogin: null,
       twoFactorSecret: null,
       twoFactorEnabled: false,
+      twoFactorPendingSecret: null,
+      twoFactorLastUsedStep: null,
       isLocked: false,
       lockoutUntil: null,
       failedLoginAttempts: 0,
@@ -97,19 +275,28 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     
     // Create default settings for new user
-    await this.createUserSettings({
-      userId: id,
-      darkMode: true,
-      soundEffects: true,
-      autoOptimization: false,
-      performanceAlerts: true,
-      colorTheme: "green",
-      fpsTargets: { fortnite: 144, global: 240 },
-    });
+    await this.createUserSettings({ userId: id, ...defaultUserSettings });
     
     return user;
   }
 
+  async updateUserProfile(id: string, updates: { username?: string; email?: string | null }): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updatedUser = { ...user, ...updates };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async updateUserPassword(id: string, passwordHash: string): Promise<void> {
+    const user = this.users.get(id);
+    if (user) {
+      user.passwordHash = passwordHash;
+      this.users.set(id, user);
+    }
+  }
+
   async updateUserLastLogin(id: string): Promise<void> {
     const user = this.users.get(id);
     if (user) {
@@ -123,10 +310,30 @@ export class MemStorage implements IStorage {
     if (user) {
       user.twoFactorSecret = secret;
       user.twoFactorEnabled = enabled;
+      user.twoFactorPendingSecret = null;
+      user.twoFactorLastUsedStep = null;
       this.users.set(id, user);
     }
   }
 
+  async setPendingTwoFactorSecret(id: string, secret: string | null): Promise<void> {
+    const user = this.users.get(id);
+    if (user) {
+      user.twoFactorPendingSecret = secret;
+      this.users.set(id, user);
+    }
+  }
+
+  async claimTwoFactorStep(id: string, step: number): Promise<boolean> {
+    const user = this.users.get(id);
+    if (!user) return false;
+    if (user.twoFactorLastUsedStep !== null && user.twoFactorLastUsedStep >= step) return false;
+
+    user.twoFactorLastUsedStep = step;
+    this.users.set(id, user);
+    return true;
+  }
+
   async lockUser(id: string, until: Date): Promise<void> {
     const user = this.users.get(id);
     if (user) {
@@ -162,6 +369,32 @@ export class MemStorage implements IStorage {
     }
   }
 
+  // Recovery code methods
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    Array.from(this.recoveryCodes.entries())
+      .filter(([_, code]) => code.userId === userId)
+      .forEach(([id, _]) => this.recoveryCodes.delete(id));
+
+    codeHashes.forEach(codeHash => {
+      const id = randomUUID();
+      this.recoveryCodes.set(id, { id, userId, codeHash, usedAt: null, createdAt: new Date() });
+    });
+  }
+
+  async useRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const code = Array.from(this.recoveryCodes.values())
+      .find(c => c.userId === userId && c.codeHash === codeHash && !c.usedAt);
+    if (!code) return false;
+
+    code.usedAt = new Date();
+    return true;
+  }
+
+  async countUnusedRecoveryCodes(userId: string): Promise<number> {
+    return Array.from(this.recoveryCodes.values())
+      .filter(code => code.userId === userId && !code.usedAt).length;
+  }
+
   // User Settings methods
   async getUserSettings(userId: string): Promise<UserSettings | undefined> {
     return Array.from(this.userSettings.values()).find(settings => settings.userId === userId);
@@ -170,6 +403,7 @@ export class MemStorage implements IStorage {
   async createUserSettings(insertSettings: InsertUserSettings): Promise<UserSettings> {
     const id = randomUUID();
     const settings: UserSettings = {
+      ...defaultUserSettings,
       ...insertSettings,
       id,
       updatedAt: new Date(),
@@ -233,6 +467,10 @@ export class MemStorage implements IStorage {
     const securityLog: SecurityLog = {
       ...log,
       id,
+      userId: log.userId ?? null,
+      details: log.details ?? null,
+      ipAddress: log.ipAddress ?? null,
+      userAgent: log.userAgent ?? null,
       timestamp: new Date(),
     };
     this.securityLogs.set(id, securityLog);
@@ -257,28 +495,7 @@ export class MemStorage implements IStorage {
   }
 
   private initializeGameProfiles() {
-    const defaultProfiles = [
-      {
-        name: "Valorant",
-        icon: "fas fa-gun",
-        isActive: true,
-        settings: JSON.stringify({ priority: "high", optimization: "fps" })
-      },
-      {
-        name: "Fortnite",
-        icon: "fas fa-hammer",
-        isActive: false,
-        settings: JSON.stringify({ priority: "medium", optimization: "balanced" })
-      },
-      {
-        name: "Minecraft",
-        icon: "fas fa-cube",
-        isActive: false,
-        settings: JSON.stringify({ priority: "low", optimization: "quality" })
-      }
-    ];
-
-    defaultProfiles.forEach(profile => {
+    defaultGameProfiles.forEach(profile => {
       const id = randomUUID();
       const gameProfile: GameProfile = { 
         ...profile, 
@@ -292,7 +509,8 @@ export class MemStorage implements IStorage {
 
   async getLatestSystemStats(userId?: string): Promise<SystemStats | undefined> {
     const stats = Array.from(this.systemStats.values());
-    const filtered = userId ? stats.filter(s => s.userId === userId) : stats;
+    // Host telemetry samples have no user and belong to everyone
+    const filtered = userId ? stats.filter(s => s.userId === userId || !s.userId) : stats;
     return filtered.length > 0 ? filtered[filtered.length - 1] : undefined;
   }
 
@@ -301,12 +519,53 @@ export class MemStorage implements IStorage {
     const stats: SystemStats = { 
       ...insertStats, 
       id,
+      userId: insertStats.userId ?? null,
       timestamp: new Date()
     };
     this.systemStats.set(id, stats);
     return stats;
   }
 
+  async getSystemStatsRange(from: Date, to: Date, userId?: string): Promise<SystemStats[]> {
+    return Array.from(this.systemStats.values())
+      .filter(s => s.timestamp! >= from && s.timestamp! < to)
+      .filter(s => !userId || s.userId === userId || !s.userId)
+      .sort((a, b) => a.timestamp!.getTime() - b.timestamp!.getTime());
+  }
+
+  async deleteSystemStatsBefore(before: Date): Promise<number> {
+    const expired = Array.from(this.systemStats.values()).filter(s => s.timestamp! < before);
+    expired.forEach(s => this.systemStats.delete(s.id));
+    return expired.length;
+  }
+
+  async getSystemStatsRollups(resolution: RollupResolution, from: Date, to: Date, userId?: string): Promise<SystemStatsRollup[]> {
+    return Array.from(this.systemStatsRollups.values())
+      .filter(r => r.resolution === resolution && r.bucketStart >= from && r.bucketStart < to)
+      .filter(r => !userId || r.userId === userId || !r.userId)
+      .sort((a, b) => a.bucketStart.getTime() - b.bucketStart.getTime());
+  }
+
+  async getLatestRollupBucket(resolution: RollupResolution): Promise<Date | undefined> {
+    return Array.from(this.systemStatsRollups.values())
+      .filter(r => r.resolution === resolution)
+      .reduce<Date | undefined>((latest, r) => !latest || r.bucketStart > latest ? r.bucketStart : latest, undefined);
+  }
+
+  async createSystemStatsRollups(rollups: InsertSystemStatsRollup[]): Promise<void> {
+    rollups.forEach(rollup => {
+      const id = randomUUID();
+      this.systemStatsRollups.set(id, { ...rollup, id, userId: rollup.userId ?? null });
+    });
+  }
+
+  async deleteSystemStatsRollupsBefore(resolution: RollupResolution, before: Date): Promise<number> {
+    const expired = Array.from(this.systemStatsRollups.values())
+      .filter(r => r.resolution === resolution && r.bucketStart < before);
+    expired.forEach(r => this.systemStatsRollups.delete(r.id));
+    return expired.length;
+  }
+
   async getGameProfiles(userId?: string): Promise<GameProfile[]> {
     const profiles = Array.from(this.gameProfiles.values());
     return userId ? profiles.filter(p => p.userId === userId || !p.userId) : profiles;
@@ -317,6 +576,7 @@ export class MemStorage implements IStorage {
     const profile: GameProfile = { 
       ...insertProfile, 
       id,
+      userId: insertProfile.userId ?? null,
       isActive: insertProfile.isActive ?? false
     };
     this.gameProfiles.set(id, profile);
@@ -327,11 +587,385 @@ export class MemStorage implements IStorage {
     const profile = this.gameProfiles.get(id);
     if (!profile) return undefined;
     
-    const updatedProfile = { ...profile, ...updates };
+    const updatedProfile = { ...profile, ...updates, id };
     this.gameProfiles.set(id, updatedProfile);
     return updatedProfile;
   }
 
+  async getGameProfile(id: string): Promise<GameProfile | undefined> {
+    return this.gameProfiles.get(id);
+  }
+
+  async deleteGameProfile(id: string): Promise<boolean> {
+    this.gamingSessions.forEach(session => {
+      if (session.gameProfileId === id) this.gamingSessions.set(session.id, { ...session, gameProfileId: null });
+    });
+    return this.gameProfiles.delete(id);
+  }
+
+  async setActiveGameProfile(userId: string, id: string | null): Promise<GameProfile | undefined> {
+    const target = id ? this.gameProfiles.get(id) : undefined;
+    if (id && target?.userId !== userId) return undefined;
+
+    this.gameProfiles.forEach(profile => {
+      if (profile.userId === userId && profile.isActive) {
+        this.gameProfiles.set(profile.id, { ...profile, isActive: false });
+      }
+    });
+    if (!target) return undefined;
+
+    const activated = { ...target, isActive: true };
+    this.gameProfiles.set(target.id, activated);
+    return activated;
+  }
+
+  async getGamingSessions(from: Date, to: Date, userId?: string): Promise<GamingSession[]> {
+    return Array.from(this.gamingSessions.values())
+      .filter(s => s.startedAt < to && (!s.endedAt || s.endedAt >= from))
+      .filter(s => !userId || s.userId === userId || !s.userId)
+      .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+  }
+
+  async createGamingSession(insertSession: InsertGamingSession): Promise<GamingSession> {
+    const id = randomUUID();
+    const session: GamingSession = {
+      ...insertSession,
+      id,
+      userId: insertSession.userId ?? null,
+      gameProfileId: insertSession.gameProfileId ?? null,
+      startedAt: insertSession.startedAt ?? new Date(),
+      endedAt: null,
+    };
+    this.gamingSessions.set(id, session);
+    return session;
+  }
+
+  async endGamingSession(id: string, endedAt = new Date()): Promise<GamingSession | undefined> {
+    const session = this.gamingSessions.get(id);
+    if (!session) return undefined;
+
+    const ended = { ...session, endedAt };
+    this.gamingSessions.set(id, ended);
+    return ended;
+  }
+
+  async getAlertRules(userId?: string): Promise<AlertRule[]> {
+    return Array.from(this.alertRules.values())
+      .filter(rule => !userId || rule.userId === userId)
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
+  }
+
+  async getAlertRule(id: string): Promise<AlertRule | undefined> {
+    return this.alertRules.get(id);
+  }
+
+  async createAlertRule(insertRule: InsertAlertRule): Promise<AlertRule> {
+    const id = randomUUID();
+    const rule: AlertRule = {
+      forSeconds: 0,
+      hysteresis: 0,
+      cooldownSeconds: 300,
+      severity: "warning",
+      whileProfileActive: false,
+      enabled: true,
+      ...insertRule,
+      id,
+      createdAt: new Date(),
+    };
+    this.alertRules.set(id, rule);
+    return rule;
+  }
+
+  async updateAlertRule(id: string, updates: Partial<InsertAlertRule>): Promise<AlertRule | undefined> {
+    const rule = this.alertRules.get(id);
+    if (!rule) return undefined;
+
+    const updatedRule = { ...rule, ...updates, id };
+    this.alertRules.set(id, updatedRule);
+    return updatedRule;
+  }
+
+  async deleteAlertRule(id: string): Promise<boolean> {
+    // Keep the history of a deleted rule, as the foreign key does in Postgres
+    this.alerts.forEach(alert => {
+      if (alert.ruleId === id) this.alerts.set(alert.id, { ...alert, ruleId: null });
+    });
+    return this.alertRules.delete(id);
+  }
+
+  async getAlerts(userId: string, options: { activeOnly?: boolean; limit?: number } = {}): Promise<Alert[]> {
+    return Array.from(this.alerts.values())
+      .filter(alert => alert.userId === userId && (!options.activeOnly || !alert.resolvedAt))
+      .sort((a, b) => b.triggeredAt.getTime() - a.triggeredAt.getTime())
+      .slice(0, options.limit);
+  }
+
+  async getActiveAlerts(): Promise<Alert[]> {
+    return Array.from(this.alerts.values()).filter(alert => !alert.resolvedAt);
+  }
+
+  async createAlert(insertAlert: InsertAlert): Promise<Alert> {
+    const id = randomUUID();
+    const alert: Alert = {
+      ...insertAlert,
+      id,
+      ruleId: insertAlert.ruleId ?? null,
+      triggeredAt: insertAlert.triggeredAt ?? new Date(),
+      resolvedAt: null,
+    };
+    this.alerts.set(id, alert);
+    return alert;
+  }
+
+  async updateAlert(id: string, updates: Partial<Pick<Alert, "peakValue" | "resolvedAt">>): Promise<Alert | undefined> {
+    const alert = this.alerts.get(id);
+    if (!alert) return undefined;
+
+    const updatedAlert = { ...alert, ...updates };
+    this.alerts.set(id, updatedAlert);
+    return updatedAlert;
+  }
+
+  async getOptimizationJobs(userId: string, options: { task?: string; limit?: number } = {}): Promise<OptimizationJob[]> {
+    return Array.from(this.optimizationJobs.values())
+      .filter(job => job.userId === userId && (!options.task || job.task === options.task))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, options.limit);
+  }
+
+  async getOptimizationJob(id: string): Promise<OptimizationJob | undefined> {
+    return this.optimizationJobs.get(id);
+  }
+
+  async getUnfinishedOptimizationJobs(): Promise<OptimizationJob[]> {
+    return Array.from(this.optimizationJobs.values())
+      .filter(job => job.status === "queued" || job.status === "running")
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createOptimizationJob(insertJob: InsertOptimizationJob): Promise<OptimizationJob> {
+    const id = randomUUID();
+    const job: OptimizationJob = {
+      id,
+      userId: insertJob.userId,
+      task: insertJob.task,
+      params: insertJob.params ?? null,
+      status: insertJob.status ?? "queued",
+      progress: insertJob.progress ?? 0,
+      step: insertJob.step ?? null,
+      result: insertJob.result ?? null,
+      error: insertJob.error ?? null,
+      createdAt: insertJob.createdAt ?? new Date(),
+      startedAt: insertJob.startedAt ?? null,
+      finishedAt: insertJob.finishedAt ?? null,
+    };
+    this.optimizationJobs.set(id, job);
+    return job;
+  }
+
+  async updateOptimizationJob(id: string, updates: Partial<Omit<OptimizationJob, "id" | "userId">>): Promise<OptimizationJob | undefined> {
+    const job = this.optimizationJobs.get(id);
+    if (!job) return undefined;
+
+    const updatedJob = { ...job, ...updates };
+    this.optimizationJobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async getSystemSnapshots(userId: string): Promise<SystemSnapshot[]> {
+    return Array.from(this.systemSnapshots.values())
+      .filter(snapshot => snapshot.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getSystemSnapshot(id: string): Promise<SystemSnapshot | undefined> {
+    return this.systemSnapshots.get(id);
+  }
+
+  async createSystemSnapshot(insertSnapshot: InsertSystemSnapshot): Promise<SystemSnapshot> {
+    const id = randomUUID();
+    const snapshot: SystemSnapshot = {
+      id,
+      userId: insertSnapshot.userId,
+      label: insertSnapshot.label,
+      manifest: insertSnapshot.manifest,
+      data: insertSnapshot.data,
+      createdAt: insertSnapshot.createdAt ?? new Date(),
+    };
+    this.systemSnapshots.set(id, snapshot);
+    return snapshot;
+  }
+
+  async deleteSystemSnapshot(id: string): Promise<boolean> {
+    return this.systemSnapshots.delete(id);
+  }
+
+  async getSysctlBaselines(): Promise<SysctlBaseline[]> {
+    return Array.from(this.sysctlBaselines.values()).sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  async createSysctlBaseline(insertBaseline: InsertSysctlBaseline): Promise<SysctlBaseline> {
+    const existing = this.sysctlBaselines.get(insertBaseline.key);
+    if (existing) return existing;
+
+    const baseline: SysctlBaseline = {
+      key: insertBaseline.key,
+      value: insertBaseline.value,
+      capturedBy: insertBaseline.capturedBy ?? null,
+      createdAt: insertBaseline.createdAt ?? new Date(),
+    };
+    this.sysctlBaselines.set(baseline.key, baseline);
+    return baseline;
+  }
+
+  async deleteSysctlBaseline(key: string): Promise<boolean> {
+    return this.sysctlBaselines.delete(key);
+  }
+
+  async getLatencyProbes(userId: string, limit?: number): Promise<LatencyProbe[]> {
+    return Array.from(this.latencyProbes.values())
+      .filter(probe => probe.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getLatencyProbe(id: string): Promise<LatencyProbe | undefined> {
+    return this.latencyProbes.get(id);
+  }
+
+  async getUnfinishedLatencyProbes(): Promise<LatencyProbe[]> {
+    return Array.from(this.latencyProbes.values()).filter(probe => probe.status === "running");
+  }
+
+  async createLatencyProbe(insertProbe: InsertLatencyProbe): Promise<LatencyProbe> {
+    const id = randomUUID();
+    const probe: LatencyProbe = {
+      id,
+      userId: insertProbe.userId,
+      target: insertProbe.target,
+      address: insertProbe.address,
+      method: insertProbe.method,
+      port: insertProbe.port ?? null,
+      status: insertProbe.status ?? "running",
+      samples: insertProbe.samples ?? [],
+      summary: insertProbe.summary,
+      error: insertProbe.error ?? null,
+      createdAt: insertProbe.createdAt ?? new Date(),
+      finishedAt: insertProbe.finishedAt ?? null,
+    };
+    this.latencyProbes.set(id, probe);
+    return probe;
+  }
+
+  async updateLatencyProbe(id: string, updates: Partial<Omit<LatencyProbe, "id" | "userId">>): Promise<LatencyProbe | undefined> {
+    const probe = this.latencyProbes.get(id);
+    if (!probe) return undefined;
+
+    const updatedProbe = { ...probe, ...updates };
+    this.latencyProbes.set(id, updatedProbe);
+    return updatedProbe;
+  }
+
+  async deleteLatencyProbe(id: string): Promise<boolean> {
+    return this.latencyProbes.delete(id);
+  }
+
+  async getUdpTests(userId: string, limit?: number): Promise<UdpTest[]> {
+    return Array.from(this.udpTests.values())
+      .filter(test => test.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getUdpTest(id: string): Promise<UdpTest | undefined> {
+    return this.udpTests.get(id);
+  }
+
+  async getUnfinishedUdpTests(): Promise<UdpTest[]> {
+    return Array.from(this.udpTests.values()).filter(test => test.status === "running");
+  }
+
+  async createUdpTest(insertTest: InsertUdpTest): Promise<UdpTest> {
+    const id = randomUUID();
+    const test: UdpTest = {
+      id,
+      userId: insertTest.userId,
+      target: insertTest.target,
+      address: insertTest.address,
+      port: insertTest.port,
+      rate: insertTest.rate,
+      size: insertTest.size,
+      durationSec: insertTest.durationSec,
+      status: insertTest.status ?? "running",
+      summary: insertTest.summary,
+      error: insertTest.error ?? null,
+      createdAt: insertTest.createdAt ?? new Date(),
+      finishedAt: insertTest.finishedAt ?? null,
+    };
+    this.udpTests.set(id, test);
+    return test;
+  }
+
+  async updateUdpTest(id: string, updates: Partial<Omit<UdpTest, "id" | "userId">>): Promise<UdpTest | undefined> {
+    const test = this.udpTests.get(id);
+    if (!test) return undefined;
+
+    const updatedTest = { ...test, ...updates };
+    this.udpTests.set(id, updatedTest);
+    return updatedTest;
+  }
+
+  async deleteUdpTest(id: string): Promise<boolean> {
+    return this.udpTests.delete(id);
+  }
+
+  async getGpuTuningAttempts(userId: string, limit?: number): Promise<GpuTuningAttempt[]> {
+    return Array.from(this.gpuTuningAttempts.values())
+      .filter(attempt => attempt.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getGpuTuningAttempt(id: string): Promise<GpuTuningAttempt | undefined> {
+    return this.gpuTuningAttempts.get(id);
+  }
+
+  async getUnfinishedGpuTuningAttempts(): Promise<GpuTuningAttempt[]> {
+    return Array.from(this.gpuTuningAttempts.values()).filter(attempt => activeGpuTuningStatuses.includes(attempt.status));
+  }
+
+  async createGpuTuningAttempt(insertAttempt: InsertGpuTuningAttempt): Promise<GpuTuningAttempt> {
+    const id = randomUUID();
+    const attempt: GpuTuningAttempt = {
+      id,
+      userId: insertAttempt.userId,
+      deviceId: insertAttempt.deviceId,
+      deviceName: insertAttempt.deviceName,
+      previous: insertAttempt.previous,
+      requested: insertAttempt.requested,
+      stepsTotal: insertAttempt.stepsTotal,
+      stepsApplied: insertAttempt.stepsApplied ?? 0,
+      confirmWindowSec: insertAttempt.confirmWindowSec,
+      status: insertAttempt.status ?? "applying",
+      revertReason: insertAttempt.revertReason ?? null,
+      message: insertAttempt.message ?? null,
+      createdAt: insertAttempt.createdAt ?? new Date(),
+      confirmBy: insertAttempt.confirmBy ?? null,
+      finishedAt: insertAttempt.finishedAt ?? null,
+    };
+    this.gpuTuningAttempts.set(id, attempt);
+    return attempt;
+  }
+
+  async updateGpuTuningAttempt(id: string, updates: Partial<Omit<GpuTuningAttempt, "id" | "userId">>): Promise<GpuTuningAttempt | undefined> {
+    const attempt = this.gpuTuningAttempts.get(id);
+    if (!attempt) return undefined;
+
+    const updatedAttempt = { ...attempt, ...updates };
+    this.gpuTuningAttempts.set(id, updatedAttempt);
+    return updatedAttempt;
+  }
+
   async getChatMessages(userId?: string): Promise<ChatMessage[]> {
     const messages = Array.from(this.chatMessages.values());
     const filtered = userId ? messages.filter(m => m.userId === userId || !m.userId) : messages;
@@ -345,6 +979,7 @@ export class MemStorage implements IStorage {
     const message: ChatMessage = { 
       ...insertMessage, 
       id,
+      userId: insertMessage.userId ?? null,
       timestamp: new Date()
     };
     this.chatMessages.set(id, message);
@@ -364,4 +999,592 @@ export class MemStorage implements IStorage {
   }
 }
 
-export const storage = new MemStorage();
+export class DrizzleStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // User methods
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUserById(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+
+    // Create default settings for new user
+    await this.createUserSettings({ userId: user.id, ...defaultUserSettings });
+
+    return user;
+  }
+
+  async updateUserProfile(id: string, updates: { username?: string; email?: string | null }): Promise<User | undefined> {
+    if (Object.keys(updates).length === 0) {
+      return this.getUserById(id);
+    }
+
+    const [user] = await this.db.update(users).set(updates).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async updateUserPassword(id: string, passwordHash: string): Promise<void> {
+    await this.db.update(users).set({ passwordHash }).where(eq(users.id, id));
+  }
+
+  async updateUserLastLogin(id: string): Promise<void> {
+    await this.db.update(users).set({ lastLogin: new Date() }).where(eq(users.id, id));
+  }
+
+  async updateUser2FA(id: string, secret: string | null, enabled: boolean): Promise<void> {
+    await this.db.update(users)
+      .set({
+        twoFactorSecret: secret,
+        twoFactorEnabled: enabled,
+        twoFactorPendingSecret: null,
+        twoFactorLastUsedStep: null,
+      })
+      .where(eq(users.id, id));
+  }
+
+  async setPendingTwoFactorSecret(id: string, secret: string | null): Promise<void> {
+    await this.db.update(users).set({ twoFactorPendingSecret: secret }).where(eq(users.id, id));
+  }
+
+  // Compare-and-set so two requests racing with the same code cannot both succeed
+  async claimTwoFactorStep(id: string, step: number): Promise<boolean> {
+    const claimed = await this.db.update(users)
+      .set({ twoFactorLastUsedStep: step })
+      .where(and(
+        eq(users.id, id),
+        or(isNull(users.twoFactorLastUsedStep), lt(users.twoFactorLastUsedStep, step)),
+      ))
+      .returning({ id: users.id });
+    return claimed.length > 0;
+  }
+
+  async lockUser(id: string, until: Date): Promise<void> {
+    await this.db.update(users).set({ isLocked: true, lockoutUntil: until }).where(eq(users.id, id));
+  }
+
+  async unlockUser(id: string): Promise<void> {
+    await this.db.update(users)
+      .set({ isLocked: false, lockoutUntil: null, failedLoginAttempts: 0 })
+      .where(eq(users.id, id));
+  }
+
+  async incrementFailedLogins(id: string): Promise<void> {
+    await this.db.update(users)
+      .set({ failedLoginAttempts: sql`coalesce(${users.failedLoginAttempts}, 0) + 1` })
+      .where(eq(users.id, id));
+  }
+
+  async resetFailedLogins(id: string): Promise<void> {
+    await this.db.update(users).set({ failedLoginAttempts: 0 }).where(eq(users.id, id));
+  }
+
+  // Recovery code methods
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    await this.db.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+    if (codeHashes.length > 0) {
+      await this.db.insert(recoveryCodes).values(codeHashes.map(codeHash => ({ userId, codeHash })));
+    }
+  }
+
+  async useRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const used = await this.db.update(recoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(recoveryCodes.userId, userId),
+        eq(recoveryCodes.codeHash, codeHash),
+        isNull(recoveryCodes.usedAt),
+      ))
+      .returning({ id: recoveryCodes.id });
+    return used.length > 0;
+  }
+
+  async countUnusedRecoveryCodes(userId: string): Promise<number> {
+    const [result] = await this.db.select({ count: sql<number>`count(*)::int` }).from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+    return result?.count ?? 0;
+  }
+
+  // User Settings methods
+  async getUserSettings(userId: string): Promise<UserSettings | undefined> {
+    const [settings] = await this.db.select().from(userSettings).where(eq(userSettings.userId, userId));
+    return settings;
+  }
+
+  async createUserSettings(insertSettings: InsertUserSettings): Promise<UserSettings> {
+    const [settings] = await this.db.insert(userSettings).values(insertSettings).returning();
+    return settings;
+  }
+
+  async updateUserSettings(userId: string, updates: UpdateUserSettings): Promise<UserSettings | undefined> {
+    const [settings] = await this.db.update(userSettings)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(userSettings.userId, userId))
+      .returning();
+    return settings;
+  }
+
+  // Password Reset methods
+  async createPasswordReset(reset: InsertPasswordReset): Promise<PasswordReset> {
+    const [passwordReset] = await this.db.insert(passwordResets).values(reset).returning();
+    return passwordReset;
+  }
+
+  async getPasswordResetByToken(token: string): Promise<PasswordReset | undefined> {
+    const [reset] = await this.db.select().from(passwordResets)
+      .where(and(eq(passwordResets.token, token), eq(passwordResets.used, false)));
+    return reset;
+  }
+
+  async markPasswordResetUsed(id: string): Promise<void> {
+    await this.db.update(passwordResets).set({ used: true }).where(eq(passwordResets.id, id));
+  }
+
+  async cleanupExpiredPasswordResets(): Promise<void> {
+    await this.db.delete(passwordResets)
+      .where(or(lt(passwordResets.expiresAt, new Date()), eq(passwordResets.used, true)));
+  }
+
+  // Security Log methods
+  async createSecurityLog(log: InsertSecurityLog): Promise<SecurityLog> {
+    const [securityLog] = await this.db.insert(securityLogs).values(log).returning();
+    return securityLog;
+  }
+
+  async getSecurityLogs(userId?: string): Promise<SecurityLog[]> {
+    return this.db.select().from(securityLogs)
+      .where(userId ? eq(securityLogs.userId, userId) : undefined)
+      .orderBy(asc(securityLogs.timestamp));
+  }
+
+  async clearSecurityLogs(userId?: string): Promise<void> {
+    await this.db.delete(securityLogs).where(userId ? eq(securityLogs.userId, userId) : undefined);
+  }
+
+  // Inserts the shared template profiles once, on an empty table
+  async seedDefaultGameProfiles(): Promise<void> {
+    const [existing] = await this.db.select({ id: gameProfiles.id }).from(gameProfiles)
+      .where(isNull(gameProfiles.userId))
+      .limit(1);
+    if (existing) return;
+
+    await this.db.insert(gameProfiles).values(
+      defaultGameProfiles.map(profile => ({ ...profile, userId: null }))
+    );
+  }
+
+  async getLatestSystemStats(userId?: string): Promise<SystemStats | undefined> {
+    const [stats] = await this.db.select().from(systemStats)
+      .where(userId ? or(eq(systemStats.userId, userId), isNull(systemStats.userId)) : undefined)
+      .orderBy(desc(systemStats.timestamp))
+      .limit(1);
+    return stats;
+  }
+
+  async createSystemStats(insertStats: InsertSystemStats): Promise<SystemStats> {
+    const [stats] = await this.db.insert(systemStats).values(insertStats).returning();
+    return stats;
+  }
+
+  async getSystemStatsRange(from: Date, to: Date, userId?: string): Promise<SystemStats[]> {
+    return this.db.select().from(systemStats)
+      .where(and(
+        gte(systemStats.timestamp, from),
+        lt(systemStats.timestamp, to),
+        userId ? or(eq(systemStats.userId, userId), isNull(systemStats.userId)) : undefined,
+      ))
+      .orderBy(asc(systemStats.timestamp));
+  }
+
+  async deleteSystemStatsBefore(before: Date): Promise<number> {
+    const deleted = await this.db.delete(systemStats)
+      .where(lt(systemStats.timestamp, before))
+      .returning({ id: systemStats.id });
+    return deleted.length;
+  }
+
+  async getSystemStatsRollups(resolution: RollupResolution, from: Date, to: Date, userId?: string): Promise<SystemStatsRollup[]> {
+    return this.db.select().from(systemStatsRollups)
+      .where(and(
+        eq(systemStatsRollups.resolution, resolution),
+        gte(systemStatsRollups.bucketStart, from),
+        lt(systemStatsRollups.bucketStart, to),
+        userId ? or(eq(systemStatsRollups.userId, userId), isNull(systemStatsRollups.userId)) : undefined,
+      ))
+      .orderBy(asc(systemStatsRollups.bucketStart));
+  }
+
+  async getLatestRollupBucket(resolution: RollupResolution): Promise<Date | undefined> {
+    const [latest] = await this.db.select({ bucketStart: systemStatsRollups.bucketStart })
+      .from(systemStatsRollups)
+      .where(eq(systemStatsRollups.resolution, resolution))
+      .orderBy(desc(systemStatsRollups.bucketStart))
+      .limit(1);
+    return latest?.bucketStart;
+  }
+
+  async createSystemStatsRollups(rollups: InsertSystemStatsRollup[]): Promise<void> {
+    if (rollups.length > 0) {
+      await this.db.insert(systemStatsRollups).values(rollups);
+    }
+  }
+
+  async deleteSystemStatsRollupsBefore(resolution: RollupResolution, before: Date): Promise<number> {
+    const deleted = await this.db.delete(systemStatsRollups)
+      .where(and(eq(systemStatsRollups.resolution, resolution), lt(systemStatsRollups.bucketStart, before)))
+      .returning({ id: systemStatsRollups.id });
+    return deleted.length;
+  }
+
+  async getGameProfiles(userId?: string): Promise<GameProfile[]> {
+    return this.db.select().from(gameProfiles)
+      .where(userId ? or(eq(gameProfiles.userId, userId), isNull(gameProfiles.userId)) : undefined);
+  }
+
+  async createGameProfile(insertProfile: InsertGameProfile): Promise<GameProfile> {
+    const [profile] = await this.db.insert(gameProfiles).values(insertProfile).returning();
+    return profile;
+  }
+
+  async updateGameProfile(id: string, updates: Partial<GameProfile>): Promise<GameProfile | undefined> {
+    const { id: _id, ...changes } = updates;
+    const [profile] = await this.db.update(gameProfiles)
+      .set(changes)
+      .where(eq(gameProfiles.id, id))
+      .returning();
+    return profile;
+  }
+
+  async getGameProfile(id: string): Promise<GameProfile | undefined> {
+    const [profile] = await this.db.select().from(gameProfiles).where(eq(gameProfiles.id, id));
+    return profile;
+  }
+
+  async deleteGameProfile(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(gameProfiles).where(eq(gameProfiles.id, id)).returning({ id: gameProfiles.id });
+    return deleted.length > 0;
+  }
+
+  // One transaction, so the one-active-profile index never sees two active rows
+  async setActiveGameProfile(userId: string, id: string | null): Promise<GameProfile | undefined> {
+    return this.db.transaction(async (tx) => {
+      if (id) {
+        const [target] = await tx.select({ id: gameProfiles.id }).from(gameProfiles)
+          .where(and(eq(gameProfiles.id, id), eq(gameProfiles.userId, userId)));
+        if (!target) return undefined;
+      }
+
+      await tx.update(gameProfiles)
+        .set({ isActive: false })
+        .where(and(eq(gameProfiles.userId, userId), eq(gameProfiles.isActive, true)));
+      if (!id) return undefined;
+
+      const [profile] = await tx.update(gameProfiles)
+        .set({ isActive: true })
+        .where(eq(gameProfiles.id, id))
+        .returning();
+      return profile;
+    });
+  }
+
+  async getGamingSessions(from: Date, to: Date, userId?: string): Promise<GamingSession[]> {
+    return this.db.select().from(gamingSessions)
+      .where(and(
+        lt(gamingSessions.startedAt, to),
+        or(isNull(gamingSessions.endedAt), gte(gamingSessions.endedAt, from)),
+        userId ? or(eq(gamingSessions.userId, userId), isNull(gamingSessions.userId)) : undefined,
+      ))
+      .orderBy(asc(gamingSessions.startedAt));
+  }
+
+  async createGamingSession(insertSession: InsertGamingSession): Promise<GamingSession> {
+    const [session] = await this.db.insert(gamingSessions).values(insertSession).returning();
+    return session;
+  }
+
+  async endGamingSession(id: string, endedAt = new Date()): Promise<GamingSession | undefined> {
+    const [session] = await this.db.update(gamingSessions)
+      .set({ endedAt })
+      .where(eq(gamingSessions.id, id))
+      .returning();
+    return session;
+  }
+
+  async getAlertRules(userId?: string): Promise<AlertRule[]> {
+    return this.db.select().from(alertRules)
+      .where(userId ? eq(alertRules.userId, userId) : undefined)
+      .orderBy(asc(alertRules.createdAt));
+  }
+
+  async getAlertRule(id: string): Promise<AlertRule | undefined> {
+    const [rule] = await this.db.select().from(alertRules).where(eq(alertRules.id, id));
+    return rule;
+  }
+
+  async createAlertRule(insertRule: InsertAlertRule): Promise<AlertRule> {
+    const [rule] = await this.db.insert(alertRules).values(insertRule).returning();
+    return rule;
+  }
+
+  async updateAlertRule(id: string, updates: Partial<InsertAlertRule>): Promise<AlertRule | undefined> {
+    const [rule] = await this.db.update(alertRules)
+      .set(updates)
+      .where(eq(alertRules.id, id))
+      .returning();
+    return rule;
+  }
+
+  async deleteAlertRule(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(alertRules).where(eq(alertRules.id, id)).returning({ id: alertRules.id });
+    return deleted.length > 0;
+  }
+
+  async getAlerts(userId: string, options: { activeOnly?: boolean; limit?: number } = {}): Promise<Alert[]> {
+    const query = this.db.select().from(alerts)
+      .where(and(eq(alerts.userId, userId), options.activeOnly ? isNull(alerts.resolvedAt) : undefined))
+      .orderBy(desc(alerts.triggeredAt));
+    return options.limit ? query.limit(options.limit) : query;
+  }
+
+  async getActiveAlerts(): Promise<Alert[]> {
+    return this.db.select().from(alerts).where(isNull(alerts.resolvedAt));
+  }
+
+  async createAlert(insertAlert: InsertAlert): Promise<Alert> {
+    const [alert] = await this.db.insert(alerts).values(insertAlert).returning();
+    return alert;
+  }
+
+  async updateAlert(id: string, updates: Partial<Pick<Alert, "peakValue" | "resolvedAt">>): Promise<Alert | undefined> {
+    const [alert] = await this.db.update(alerts)
+      .set(updates)
+      .where(eq(alerts.id, id))
+      .returning();
+    return alert;
+  }
+
+  async getOptimizationJobs(userId: string, options: { task?: string; limit?: number } = {}): Promise<OptimizationJob[]> {
+    const query = this.db.select().from(optimizationJobs)
+      .where(and(eq(optimizationJobs.userId, userId), options.task ? eq(optimizationJobs.task, options.task) : undefined))
+      .orderBy(desc(optimizationJobs.createdAt));
+    return options.limit ? query.limit(options.limit) : query;
+  }
+
+  async getOptimizationJob(id: string): Promise<OptimizationJob | undefined> {
+    const [job] = await this.db.select().from(optimizationJobs).where(eq(optimizationJobs.id, id));
+    return job;
+  }
+
+  async getUnfinishedOptimizationJobs(): Promise<OptimizationJob[]> {
+    return this.db.select().from(optimizationJobs)
+      .where(inArray(optimizationJobs.status, ["queued", "running"]))
+      .orderBy(asc(optimizationJobs.createdAt));
+  }
+
+  async createOptimizationJob(insertJob: InsertOptimizationJob): Promise<OptimizationJob> {
+    const [job] = await this.db.insert(optimizationJobs).values(insertJob).returning();
+    return job;
+  }
+
+  async updateOptimizationJob(id: string, updates: Partial<Omit<OptimizationJob, "id" | "userId">>): Promise<OptimizationJob | undefined> {
+    const [job] = await this.db.update(optimizationJobs)
+      .set(updates)
+      .where(eq(optimizationJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async getSystemSnapshots(userId: string): Promise<SystemSnapshot[]> {
+    return this.db.select().from(systemSnapshots)
+      .where(eq(systemSnapshots.userId, userId))
+      .orderBy(desc(systemSnapshots.createdAt));
+  }
+
+  async getSystemSnapshot(id: string): Promise<SystemSnapshot | undefined> {
+    const [snapshot] = await this.db.select().from(systemSnapshots).where(eq(systemSnapshots.id, id));
+    return snapshot;
+  }
+
+  async createSystemSnapshot(insertSnapshot: InsertSystemSnapshot): Promise<SystemSnapshot> {
+    const [snapshot] = await this.db.insert(systemSnapshots).values(insertSnapshot).returning();
+    return snapshot;
+  }
+
+  async deleteSystemSnapshot(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(systemSnapshots).where(eq(systemSnapshots.id, id)).returning({ id: systemSnapshots.id });
+    return deleted.length > 0;
+  }
+
+  async getSysctlBaselines(): Promise<SysctlBaseline[]> {
+    return this.db.select().from(sysctlBaselines).orderBy(asc(sysctlBaselines.key));
+  }
+
+  async createSysctlBaseline(insertBaseline: InsertSysctlBaseline): Promise<SysctlBaseline> {
+    await this.db.insert(sysctlBaselines).values(insertBaseline).onConflictDoNothing({ target: sysctlBaselines.key });
+    const [baseline] = await this.db.select().from(sysctlBaselines).where(eq(sysctlBaselines.key, insertBaseline.key));
+    return baseline;
+  }
+
+  async deleteSysctlBaseline(key: string): Promise<boolean> {
+    const deleted = await this.db.delete(sysctlBaselines).where(eq(sysctlBaselines.key, key)).returning({ key: sysctlBaselines.key });
+    return deleted.length > 0;
+  }
+
+  async getLatencyProbes(userId: string, limit?: number): Promise<LatencyProbe[]> {
+    const query = this.db.select().from(latencyProbes)
+      .where(eq(latencyProbes.userId, userId))
+      .orderBy(desc(latencyProbes.createdAt));
+    return limit ? query.limit(limit) : query;
+  }
+
+  async getLatencyProbe(id: string): Promise<LatencyProbe | undefined> {
+    const [probe] = await this.db.select().from(latencyProbes).where(eq(latencyProbes.id, id));
+    return probe;
+  }
+
+  async getUnfinishedLatencyProbes(): Promise<LatencyProbe[]> {
+    return this.db.select().from(latencyProbes).where(eq(latencyProbes.status, "running"));
+  }
+
+  async createLatencyProbe(insertProbe: InsertLatencyProbe): Promise<LatencyProbe> {
+    const [probe] = await this.db.insert(latencyProbes).values(insertProbe).returning();
+    return probe;
+  }
+
+  async updateLatencyProbe(id: string, updates: Partial<Omit<LatencyProbe, "id" | "userId">>): Promise<LatencyProbe | undefined> {
+    const [probe] = await this.db.update(latencyProbes)
+      .set(updates)
+      .where(eq(latencyProbes.id, id))
+      .returning();
+    return probe;
+  }
+
+  async deleteLatencyProbe(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(latencyProbes).where(eq(latencyProbes.id, id)).returning({ id: latencyProbes.id });
+    return deleted.length > 0;
+  }
+
+  async getUdpTests(userId: string, limit?: number): Promise<UdpTest[]> {
+    const query = this.db.select().from(udpTests)
+      .where(eq(udpTests.userId, userId))
+      .orderBy(desc(udpTests.createdAt));
+    return limit ? query.limit(limit) : query;
+  }
+
+  async getUdpTest(id: string): Promise<UdpTest | undefined> {
+    const [test] = await this.db.select().from(udpTests).where(eq(udpTests.id, id));
+    return test;
+  }
+
+  async getUnfinishedUdpTests(): Promise<UdpTest[]> {
+    return this.db.select().from(udpTests).where(eq(udpTests.status, "running"));
+  }
+
+  async createUdpTest(insertTest: InsertUdpTest): Promise<UdpTest> {
+    const [test] = await this.db.insert(udpTests).values(insertTest).returning();
+    return test;
+  }
+
+  async updateUdpTest(id: string, updates: Partial<Omit<UdpTest, "id" | "userId">>): Promise<UdpTest | undefined> {
+    const [test] = await this.db.update(udpTests)
+      .set(updates)
+      .where(eq(udpTests.id, id))
+      .returning();
+    return test;
+  }
+
+  async deleteUdpTest(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(udpTests).where(eq(udpTests.id, id)).returning({ id: udpTests.id });
+    return deleted.length > 0;
+  }
+
+  async getGpuTuningAttempts(userId: string, limit?: number): Promise<GpuTuningAttempt[]> {
+    const query = this.db.select().from(gpuTuningAttempts)
+      .where(eq(gpuTuningAttempts.userId, userId))
+      .orderBy(desc(gpuTuningAttempts.createdAt));
+    return limit ? query.limit(limit) : query;
+  }
+
+  async getGpuTuningAttempt(id: string): Promise<GpuTuningAttempt | undefined> {
+    const [attempt] = await this.db.select().from(gpuTuningAttempts).where(eq(gpuTuningAttempts.id, id));
+    return attempt;
+  }
+
+  async getUnfinishedGpuTuningAttempts(): Promise<GpuTuningAttempt[]> {
+    return this.db.select().from(gpuTuningAttempts)
+      .where(inArray(gpuTuningAttempts.status, activeGpuTuningStatuses))
+      .orderBy(asc(gpuTuningAttempts.createdAt));
+  }
+
+  async createGpuTuningAttempt(insertAttempt: InsertGpuTuningAttempt): Promise<GpuTuningAttempt> {
+    const [attempt] = await this.db.insert(gpuTuningAttempts).values(insertAttempt).returning();
+    return attempt;
+  }
+
+  async updateGpuTuningAttempt(id: string, updates: Partial<Omit<GpuTuningAttempt, "id" | "userId">>): Promise<GpuTuningAttempt | undefined> {
+    const [attempt] = await this.db.update(gpuTuningAttempts)
+      .set(updates)
+      .where(eq(gpuTuningAttempts.id, id))
+      .returning();
+    return attempt;
+  }
+
+  async getChatMessages(userId?: string): Promise<ChatMessage[]> {
+    return this.db.select().from(chatMessages)
+      .where(userId ? or(eq(chatMessages.userId, userId), isNull(chatMessages.userId)) : undefined)
+      .orderBy(asc(chatMessages.timestamp));
+  }
+
+  async createChatMessage(insertMessage: InsertChatMessage): Promise<ChatMessage> {
+    const [message] = await this.db.insert(chatMessages).values(insertMessage).returning();
+    return message;
+  }
+
+  async clearChatMessages(userId?: string): Promise<void> {
+    await this.db.delete(chatMessages).where(userId ? eq(chatMessages.userId, userId) : undefined);
+  }
+}
+
+// STORAGE_DRIVER picks the backend; without it, DATABASE_URL opts into Postgres
+let connection: DatabaseConnection | undefined;
+
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  if (driver === "memory") {
+    return new MemStorage();
+  }
+
+  if (driver !== "postgres") {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "memory" or "postgres"`);
+  }
+
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL is required when STORAGE_DRIVER is postgres");
+  }
+
+  connection = connectPostgres(process.env.DATABASE_URL);
+  return new DrizzleStorage(connection.db);
+}
+
+export const storage = createStorage();
+
+// Applies pending migrations and seeds defaults; must finish before the server accepts requests
+export async function initStorage(): Promise<void> {
+  if (connection && storage instanceof DrizzleStorage) {
+    await connection.migrate();
+    await storage.seedDefaultGameProfiles();
+  }
+}
@@ -0,0 +1,60 @@
+import fs from "fs";
+import path from "path";
+import type { HostFs } from "./hostFs";
+import { isRoot, runPrivileged, writePrivilegedFile } from "./privileged";
+
+// Kernel parameters the optimizer may change, captured in every snapshot.
+// Keys a kernel does not have read as null.
+export const TRACKED_SYSCTL_KEYS = [
+  "net.core.default_qdisc",
+  "net.core.rmem_max",
+  "net.core.wmem_max",
+  "net.core.netdev_max_backlog",
+  "net.ipv4.tcp_congestion_control",
+  "net.ipv4.tcp_fastopen",
+  "net.ipv4.tcp_mtu_probing",
+  "net.ipv4.tcp_rmem",
+  "net.ipv4.tcp_wmem",
+  "net.ipv4.tcp_slow_start_after_idle",
+  "net.ipv4.tcp_notsent_lowat",
+  "vm.swappiness",
+  "vm.dirty_ratio",
+  "vm.dirty_background_ratio",
+  "kernel.sched_autogroup_enabled",
+];
+
+export function sysctlPath(key: string): string {
+  return path.posix.join("/proc/sys", ...key.split("."));
+}
+
+// Values as `sysctl -n` prints them, with runs of whitespace collapsed
+export async function readSysctl(fs: HostFs, key: string): Promise<string | null> {
+  const value = await fs.readFile(sysctlPath(key));
+  return value === null ? null : value.replace(/\s+/g, " ");
+}
+
+// How sysctl values reach the kernel; replaced in checks
+export interface SysctlWriter {
+  write(key: string, value: string): Promise<void>;
+}
+
+// Writes /proc/sys directly, which needs root
+export const procSysctlWriter: SysctlWriter = {
+  write: (key, value) => fs.promises.writeFile(sysctlPath(key), value),
+};
+
+// Where tweaks the user wants to keep after a reboot are written
+export const SYSCTL_DROP_IN = "/etc/sysctl.d/90-nexus-optimizer.conf";
+
+export interface PrivilegedSysctl extends SysctlWriter {
+  // Replaces the drop-in file, or removes it for null
+  writeDropIn(content: string | null): Promise<void>;
+}
+
+export const privilegedSysctl: PrivilegedSysctl = {
+  async write(key, value) {
+    if (isRoot()) return procSysctlWriter.write(key, value);
+    await runPrivileged("sysctl", ["-q", "-w", `${key}=${value}`]);
+  },
+  writeDropIn: (content) => writePrivilegedFile(SYSCTL_DROP_IN, content),
+};
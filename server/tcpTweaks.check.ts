@@ -0,0 +1,134 @@
+// Applies and reverts the TCP/IP tweaks against a fake /proc/sys and a fake
+// privileged adapter: the preview, partial and repeated applies, failed
+// writes, the drop-in file and the exact revert.
+//
+//   npm run tcp:check
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { JobContext } from "./jobs";
+import { createHostFs } from "./hostFs";
+import { MemStorage } from "./storage";
+import { SYSCTL_DROP_IN, sysctlPath, type PrivilegedSysctl } from "./sysctl";
+import { TcpTweaker } from "./tcpTweaks";
+
+const ctx: JobContext = {
+  userId: "tcp-check",
+  signal: new AbortController().signal,
+  step: async () => {},
+};
+
+async function main() {
+  const root = await fs.promises.mkdtemp(path.join(os.tmpdir(), "nexus-tcp-"));
+  const hostPath = (p: string) => path.join(root, p);
+  const original: Record<string, string> = {
+    "net.core.default_qdisc": "fq_codel",
+    "net.ipv4.tcp_congestion_control": "cubic",
+    "net.ipv4.tcp_fastopen": "1",
+    "net.ipv4.tcp_mtu_probing": "0",
+    "net.ipv4.tcp_slow_start_after_idle": "1",
+    "net.core.rmem_max": "212992",
+    "net.core.wmem_max": "212992",
+    "net.ipv4.tcp_rmem": "4096\t131072\t6291456",
+    "net.ipv4.tcp_wmem": "4096\t16384\t4194304",
+    // no tcp_notsent_lowat on this kernel
+  };
+
+  try {
+    for (const [key, value] of Object.entries(original)) {
+      await fs.promises.mkdir(path.dirname(hostPath(sysctlPath(key))), { recursive: true });
+      await fs.promises.writeFile(hostPath(sysctlPath(key)), `${value}\n`);
+    }
+
+    let refuse: string | null = null;
+    const writes: string[] = [];
+    const sysctl: PrivilegedSysctl = {
+      write: async (key, value) => {
+        if (key === refuse) throw new Error("sudo: a password is required");
+        writes.push(`${key}=${value}`);
+        await fs.promises.writeFile(hostPath(sysctlPath(key)), `${value}\n`);
+      },
+      writeDropIn: async (content) => {
+        const file = hostPath(SYSCTL_DROP_IN);
+        if (content === null) {
+          await fs.promises.rm(file, { force: true });
+          return;
+        }
+        await fs.promises.mkdir(path.dirname(file), { recursive: true });
+        await fs.promises.writeFile(file, content);
+      },
+    };
+    const tweaker = new TcpTweaker(createHostFs(root), sysctl, new MemStorage());
+    const read = (key: string) => fs.readFileSync(hostPath(sysctlPath(key)), "utf-8").trim();
+
+    // Preview
+    const before = await tweaker.status();
+    assert.equal(before.applied, false);
+    assert.equal(before.dropIn.exists, false);
+    const rmem = before.tweaks.find(tweak => tweak.key === "net.ipv4.tcp_rmem")!;
+    assert.deepEqual([rmem.current, rmem.target, rmem.baseline], ["4096 131072 6291456", "4096 131072 16777216", null]);
+    assert.equal(before.tweaks.find(tweak => tweak.key === "net.ipv4.tcp_notsent_lowat")!.current, null);
+
+    // A partial apply without persisting, where one write is refused
+    refuse = "net.ipv4.tcp_fastopen";
+    const partial = await tweaker.apply(ctx, {
+      keys: ["net.ipv4.tcp_congestion_control", "net.ipv4.tcp_fastopen"], persist: false,
+    });
+    assert.equal(partial.itemsChanged, 1);
+    assert.equal(partial.summary, "Applied 1 network tweaks; 1 failed");
+    assert.equal(read("net.ipv4.tcp_congestion_control"), "bbr");
+    assert.equal(read("net.ipv4.tcp_fastopen"), "1");
+    assert.deepEqual((await tweaker.status()).tweaks.filter(tweak => tweak.baseline).map(tweak => tweak.key),
+      ["net.ipv4.tcp_congestion_control"]);
+    assert.equal(fs.existsSync(hostPath(SYSCTL_DROP_IN)), false);
+
+    // Someone changes a value in between; the full apply keeps the first baseline
+    await fs.promises.writeFile(hostPath(sysctlPath("net.ipv4.tcp_congestion_control")), "reno\n");
+    refuse = null;
+    const full = await tweaker.apply(ctx, { persist: true });
+    assert.equal(full.itemsChanged, 9);
+    assert.ok(full.items!.includes("net.ipv4.tcp_notsent_lowat: not available on this kernel"));
+    const after = await tweaker.status();
+    assert.equal(after.applied, true);
+    assert.equal(after.dropIn.exists, true);
+    assert.equal(after.tweaks.find(tweak => tweak.key === "net.ipv4.tcp_congestion_control")!.baseline, "cubic");
+    const dropIn = fs.readFileSync(hostPath(SYSCTL_DROP_IN), "utf-8");
+    assert.match(dropIn, /^net\.ipv4\.tcp_congestion_control = bbr$/m);
+    assert.match(dropIn, /^net\.ipv4\.tcp_rmem = 4096 131072 16777216$/m);
+    assert.equal(dropIn.split("\n").filter(line => line.includes(" = ")).length, 9);
+
+    // Applying again changes nothing
+    writes.length = 0;
+    assert.equal((await tweaker.apply(ctx, { persist: false })).summary, "All network tweaks were already applied");
+    assert.deepEqual(writes, []);
+
+    // Revert puts back exactly what was there before the first apply
+    const reverted = await tweaker.revert(ctx);
+    assert.equal(reverted.itemsChanged, 9);
+    for (const [key, value] of Object.entries(original)) {
+      assert.equal(read(key).replace(/\s+/g, " "), value.replace(/\s+/g, " "), key);
+    }
+    assert.equal(fs.existsSync(hostPath(SYSCTL_DROP_IN)), false);
+    const clean = await tweaker.status();
+    assert.ok(clean.tweaks.every(tweak => tweak.baseline === null));
+    assert.equal((await tweaker.revert(ctx)).summary, "No network tweaks to revert");
+
+    // A failed revert write keeps that baseline for the next try
+    await tweaker.apply(ctx, { keys: ["net.core.default_qdisc"], persist: false });
+    refuse = "net.core.default_qdisc";
+    assert.equal((await tweaker.revert(ctx)).itemsChanged, 0);
+    assert.equal((await tweaker.status()).tweaks.find(tweak => tweak.key === "net.core.default_qdisc")!.baseline, "fq_codel");
+    refuse = null;
+    await tweaker.revert(ctx);
+    assert.equal(read("net.core.default_qdisc"), "fq_codel");
+  } finally {
+    await fs.promises.rm(root, { recursive: true, force: true });
+  }
+  console.log("✓ tcp tweaks");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,157 @@
+import type { JobResult } from "@shared/jobs";
+import {
+  tcpTweakInfo, tcpTweakKeys,
+  type ApplyTcpTweaksRequest, type TcpTweakKey, type TcpTweakPreview, type TcpTweakStatus
+} from "@shared/tcpTweaks";
+import type { JobContext } from "./jobs";
+import { hostFs, type HostFs } from "./hostFs";
+import { storage, type IStorage } from "./storage";
+import { SYSCTL_DROP_IN, privilegedSysctl, readSysctl, type PrivilegedSysctl } from "./sysctl";
+import { createSecurityLog } from "./utils";
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// The drop-in holds every tweak that is currently applied, so it always
+// matches what a revert would undo
+export function formatDropIn(values: Array<{ key: string; value: string }>): string {
+  return [
+    "# Written by Nexus Optimizer Pro. Reverting the TCP/IP optimization",
+    "# in the Network Booster removes this file.",
+    ...values.map(({ key, value }) => `${key} = ${value}`),
+    "",
+  ].join("\n");
+}
+
+// Tweaks are applied on top of the values first seen before any of them, and
+// reverted to exactly those values however often they were applied in between
+export class TcpTweaker {
+  constructor(
+    private fs: HostFs = hostFs,
+    private sysctl: PrivilegedSysctl = privilegedSysctl,
+    private store: IStorage = storage,
+  ) {}
+
+  async status(): Promise<TcpTweakStatus> {
+    const baselines = new Map((await this.store.getSysctlBaselines()).map(row => [row.key, row.value]));
+    const tweaks = await Promise.all(tcpTweakKeys.map(async (key): Promise<TcpTweakPreview> => ({
+      key,
+      title: tcpTweakInfo[key].title,
+      description: tcpTweakInfo[key].description,
+      current: await readSysctl(this.fs, key),
+      target: tcpTweakInfo[key].value,
+      baseline: baselines.get(key) ?? null,
+    })));
+    const present = tweaks.filter(tweak => tweak.current !== null);
+    return {
+      tweaks,
+      applied: present.length > 0 && present.every(tweak => tweak.current === tweak.target),
+      dropIn: { path: SYSCTL_DROP_IN, exists: (await this.fs.readFile(SYSCTL_DROP_IN)) !== null },
+    };
+  }
+
+  async apply(ctx: JobContext, { keys, persist }: ApplyTcpTweaksRequest): Promise<JobResult> {
+    await ctx.step("Reading current values", 0);
+    const { tweaks } = await this.status();
+    const selected = tweaks.filter(tweak => !keys || keys.includes(tweak.key));
+
+    const items: string[] = [];
+    let changed = 0;
+    let failed = 0;
+    for (let index = 0; index < selected.length; index++) {
+      const tweak = selected[index];
+      await ctx.step("Applying kernel parameters", 10 + (70 * index) / selected.length);
+      if (tweak.current === null) {
+        items.push(`${tweak.key}: not available on this kernel`);
+        continue;
+      }
+      if (tweak.current === tweak.target) continue;
+      // Only the first change of a key records what to go back to, and it is
+      // recorded before the write so a crash cannot lose it
+      await this.store.createSysctlBaseline({ key: tweak.key, value: tweak.current, capturedBy: ctx.userId });
+      try {
+        await this.sysctl.write(tweak.key, tweak.target);
+        changed++;
+        items.push(`${tweak.key}: ${tweak.current} → ${tweak.target}`);
+      } catch (error) {
+        if (tweak.baseline === null) await this.store.deleteSysctlBaseline(tweak.key);
+        failed++;
+        items.push(`${tweak.key}: ${describeError(error)}`);
+      }
+    }
+
+    if (persist) {
+      await ctx.step("Writing drop-in file", 85);
+      const applied = (await this.store.getSysctlBaselines())
+        .filter(row => row.key in tcpTweakInfo)
+        .map(row => ({ key: row.key, value: tcpTweakInfo[row.key as TcpTweakKey].value }));
+      try {
+        await this.sysctl.writeDropIn(formatDropIn(applied));
+        items.push(`${SYSCTL_DROP_IN}: written`);
+      } catch (error) {
+        items.push(`${SYSCTL_DROP_IN}: ${describeError(error)}`);
+      }
+    }
+
+    if (items.length) {
+      await createSecurityLog({ userId: ctx.userId, event: "sysctl_tweaks_applied", details: { items } });
+    }
+
+    return {
+      summary: changed
+        ? `Applied ${changed} network tweaks` + (failed ? `; ${failed} failed` : "")
+        : failed ? "No network tweaks could be applied" : "All network tweaks were already applied",
+      itemsChanged: changed,
+      items,
+    };
+  }
+
+  async revert(ctx: JobContext): Promise<JobResult> {
+    await ctx.step("Reading captured values", 0);
+    const baselines = (await this.store.getSysctlBaselines()).filter(row => row.key in tcpTweakInfo);
+
+    const items: string[] = [];
+    let restored = 0;
+    for (let index = 0; index < baselines.length; index++) {
+      const { key, value } = baselines[index];
+      await ctx.step("Restoring kernel parameters", 10 + (70 * index) / baselines.length);
+      try {
+        const current = await readSysctl(this.fs, key);
+        if (current !== value) {
+          await this.sysctl.write(key, value);
+          items.push(`${key}: ${current ?? "missing"} → ${value}`);
+        }
+        await this.store.deleteSysctlBaseline(key);
+        restored++;
+      } catch (error) {
+        // The baseline stays, so the revert can be tried again
+        items.push(`${key}: ${describeError(error)}`);
+      }
+    }
+
+    if ((await this.fs.readFile(SYSCTL_DROP_IN)) !== null) {
+      await ctx.step("Removing drop-in file", 85);
+      try {
+        await this.sysctl.writeDropIn(null);
+        items.push(`${SYSCTL_DROP_IN}: removed`);
+      } catch (error) {
+        items.push(`${SYSCTL_DROP_IN}: ${describeError(error)}`);
+      }
+    }
+
+    if (items.length) {
+      await createSecurityLog({ userId: ctx.userId, event: "sysctl_tweaks_reverted", details: { items } });
+    }
+
+    return {
+      summary: baselines.length
+        ? `Restored ${restored} of ${baselines.length} network settings`
+        : "No network tweaks to revert",
+      itemsChanged: restored,
+      items,
+    };
+  }
+}
+
+export const tcpTweaker = new TcpTweaker();
@@ -0,0 +1,232 @@
+// Runs the host telemetry collector, hardware info, game detection and the process manager against
+// the /proc and /sys fixture trees in server/fixtures/host. "later" holds the files that change between two
+// samples taken 2s apart and is layered over "base".
+//
+//   npm run telemetry:check
+//   HOST_FS_ROOT=/ npm run telemetry:check   # also sample the real host
+import assert from "node:assert/strict";
+import path from "path";
+import { createHostFs, type HostFs } from "./hostFs";
+import {
+  TelemetryCollector, parseMeminfo, parseNetDev, parseProcStat,
+  readGpuBusyPercent, readHwmonSensors, readThermalZones
+} from "./telemetry";
+import { parseCpuinfo, readHardwareInfo } from "./hardware";
+import { createProcfsSource, detectRunningGames, executableNames, matchesExecutable } from "./gameDetection";
+import { ProcessManager, parsePidStat, queryProcesses, type ProcessControl } from "./processes";
+import { processQuerySchema } from "@shared/processes";
+
+const fixtures = path.resolve("server/fixtures/host");
+
+// Reads from `top` first and falls through to `bottom`
+function overlay(top: HostFs, bottom: HostFs): HostFs {
+  return {
+    root: top.root,
+    async readFile(filePath) {
+      return (await top.readFile(filePath)) ?? bottom.readFile(filePath);
+    },
+    async readDir(dirPath) {
+      const entries = new Set([...await top.readDir(dirPath), ...await bottom.readDir(dirPath)]);
+      return Array.from(entries).sort();
+    },
+    async readLink(linkPath) {
+      return (await top.readLink(linkPath)) ?? bottom.readLink(linkPath);
+    },
+  };
+}
+
+function without(fs: HostFs, hiddenDir: string): HostFs {
+  return {
+    root: fs.root,
+    readFile: (filePath) => filePath.startsWith(hiddenDir) ? Promise.resolve(null) : fs.readFile(filePath),
+    readDir: (dirPath) => dirPath.startsWith(hiddenDir) ? Promise.resolve([]) : fs.readDir(dirPath),
+    readLink: (linkPath) => linkPath.startsWith(hiddenDir) ? Promise.resolve(null) : fs.readLink(linkPath),
+  };
+}
+
+async function checkParsers(base: HostFs) {
+  assert.deepEqual(parseProcStat((await base.readFile("/proc/stat"))!), { total: 94700, idle: 81000 });
+  assert.equal(parseProcStat("intr 1 2 3"), null);
+
+  assert.deepEqual(parseMeminfo((await base.readFile("/proc/meminfo"))!), { totalKb: 16318264, availableKb: 10485760 });
+  assert.deepEqual(
+    parseMeminfo("MemTotal: 1000 kB\nMemFree: 100 kB\nBuffers: 50 kB\nCached: 250 kB"),
+    { totalKb: 1000, availableKb: 400 },
+  );
+
+  // lo and docker0 are not counted
+  assert.deepEqual(parseNetDev((await base.readFile("/proc/net/dev"))!), { rxBytes: 1005000000, txBytes: 201000000 });
+
+  assert.deepEqual(await readHwmonSensors(base), [
+    { source: "k10temp", celsius: 65.25 },
+    { source: "amdgpu", celsius: 78 },
+    { source: "nvme", celsius: 40.85 },
+  ]);
+  assert.deepEqual(await readThermalZones(base), [
+    { source: "acpitz", celsius: 45 },
+    { source: "x86_pkg_temp", celsius: 62 },
+  ]);
+  assert.equal(await readGpuBusyPercent(base), 87);
+}
+
+async function checkCollector(base: HostFs, later: HostFs) {
+  let current = base;
+  const switching: HostFs = {
+    root: fixtures,
+    readFile: (filePath) => current.readFile(filePath),
+    readDir: (dirPath) => current.readDir(dirPath),
+    readLink: (linkPath) => current.readLink(linkPath),
+  };
+  const collector = new TelemetryCollector(switching);
+
+  assert.equal(await collector.sample(0), null, "first sample only primes the counters");
+  current = later;
+  assert.deepEqual(await collector.sample(2000), {
+    cpuUsage: 50,
+    cpuTemp: 65,
+    gpuUsage: 87,
+    gpuTemp: 78,
+    ramUsed: "5.6",
+    ramAvailable: "10.0",
+    networkPing: 0,
+    networkUpload: 10,
+    networkDownload: 100,
+    fps: 0,
+  });
+
+  // Without hwmon the CPU temperature comes from the thermal zones
+  const noHwmon = new TelemetryCollector(without(base, "/sys/class/hwmon"));
+  await noHwmon.sample(0);
+  const sample = await noHwmon.sample(1000);
+  assert.equal(sample?.cpuTemp, 62);
+  assert.equal(sample?.gpuTemp, 0);
+
+  await assert.rejects(new TelemetryCollector(createHostFs(path.join(fixtures, "missing"))).sample());
+}
+
+async function checkHardware(base: HostFs) {
+  assert.deepEqual(parseCpuinfo((await base.readFile("/proc/cpuinfo"))!), {
+    model: "AMD Ryzen 7 5800X 8-Core Processor",
+    threads: 4,
+  });
+  // card0-DP-1 is a connector, not a GPU
+  assert.deepEqual(await readHardwareInfo(base), {
+    cpuModel: "AMD Ryzen 7 5800X 8-Core Processor",
+    cpuThreads: 4,
+    memoryGb: 16,
+    gpus: [{ card: "card0", vendor: "amd", driver: "amdgpu" }],
+  });
+  assert.deepEqual(await readHardwareInfo(createHostFs(path.join(fixtures, "missing"))), {
+    cpuModel: null, cpuThreads: null, memoryGb: null, gpus: [],
+  });
+
+  assert.ok(matchesExecutable("FortniteClient-", "FortniteClient-Win64-Shipping.exe"));
+  assert.ok(matchesExecutable("cs2", "cs2"));
+  assert.ok(!matchesExecutable("cs", "cs2"));
+
+  // A Wine game: the binary is the loader, the game is in the Windows-style argv[0]
+  const processes = await createProcfsSource(base).list();
+  const fortnite = processes.find(p => p.pid === 4242)!;
+  assert.equal(fortnite.exe, "/usr/bin/wine64-preloader");
+  assert.deepEqual(executableNames(fortnite), ["wine64-preloader", "fortniteclient-win64-shipping.exe"]);
+  assert.deepEqual(processes.find(p => p.pid === 977)?.cmdline, ["/usr/bin/Discord", "--type=renderer"]);
+
+  const running = await detectRunningGames(createProcfsSource(base));
+  assert.deepEqual(running.map(r => [r.game.id, r.pid]), [["fortnite", 4242]]);
+}
+
+async function checkProcesses(base: HostFs, later: HostFs) {
+  assert.deepEqual(parsePidStat("321 (tmux: server) S 1 321 321 0 -1 0 0 0 0 0 7 3 0 0 20 0 1 0 1 1 1"), { ppid: 1, ticks: 10, nice: 0 });
+
+  let current = base;
+  const switching: HostFs = {
+    root: fixtures,
+    readFile: (filePath) => current.readFile(filePath),
+    readDir: (dirPath) => current.readDir(dirPath),
+    readLink: (linkPath) => current.readLink(linkPath),
+  };
+  const calls: string[] = [];
+  const control: ProcessControl = {
+    signal: (pid, signal) => {
+      calls.push(`${signal} ${pid}`);
+    },
+    setNice: (pid, nice) => {
+      if (pid === 4242 && nice < 0) throw Object.assign(new Error("setpriority"), { code: "EPERM" });
+      calls.push(`nice ${nice} ${pid}`);
+    },
+  };
+  // As if the server itself were Discord's child
+  const manager = new ProcessManager(switching, control, 977);
+
+  // 4250 has no stat, like a process that exits mid-read
+  const first = await manager.list();
+  assert.deepEqual(first.map(p => [p.pid, p.name, p.user, p.cpuPercent]), [
+    [1, "systemd", "root", 0], [977, "Discord", "gamer", 0], [4242, "FortniteClient-", "gamer", 0],
+  ]);
+  const fortnite = first.find(p => p.pid === 4242)!;
+  assert.equal(fortnite.rssBytes, 6291456 * 1024);
+  assert.equal(fortnite.nice, -5);
+  assert.match(fortnite.command, /FortniteClient-Win64-Shipping\.exe -epicportal$/);
+
+  // 2000 jiffies pass on the host; Fortnite used 800 of them, Discord 120
+  current = later;
+  const second = await manager.list();
+  assert.deepEqual(second.map(p => p.cpuPercent), [0, 6, 40]);
+  assert.deepEqual(second.map(p => p.protectedReason), ["Init process", "Runs Nexus Optimizer", null]);
+
+  const sorted = queryProcesses(second, processQuerySchema.parse({ sort: "memory", limit: "2" }));
+  assert.deepEqual(sorted.processes.map(p => p.pid), [4242, 977]);
+  assert.equal(sorted.total, 3);
+  assert.deepEqual(queryProcesses(second, processQuerySchema.parse({ q: "epicportal" })).processes.map(p => p.pid), [4242]);
+  assert.deepEqual(queryProcesses(second, processQuerySchema.parse({ user: "root", sort: "name", order: "asc" })).processes.map(p => p.pid), [1]);
+
+  assert.deepEqual(await manager.kill([
+    { pid: 4242, name: "FortniteClient-" },
+    { pid: 1, name: "systemd" },
+    { pid: 4242, name: "bash" },
+    { pid: 5555, name: "gone" },
+  ], "SIGTERM"), [
+    { pid: 4242, name: "FortniteClient-", ok: true },
+    { pid: 1, name: "systemd", ok: false, error: "Protected: Init process" },
+    { pid: 4242, name: "bash", ok: false, error: "Process has exited" },
+    { pid: 5555, name: "gone", ok: false, error: "Process has exited" },
+  ]);
+  assert.deepEqual(await manager.renice([{ pid: 4242, name: "FortniteClient-" }], -10), [
+    { pid: 4242, name: "FortniteClient-", ok: false, error: "Permission denied" },
+  ]);
+  await manager.renice([{ pid: 4242, name: "FortniteClient-" }], 10);
+  assert.deepEqual(calls, ["SIGTERM 4242", "nice 10 4242"]);
+
+  // Actions do not move the CPU baseline
+  assert.deepEqual((await manager.list()).map(p => p.cpuPercent), [0, 0, 0]);
+}
+
+async function sampleHost(root: string) {
+  const collector = new TelemetryCollector(createHostFs(root));
+  await collector.sample();
+  await new Promise(resolve => setTimeout(resolve, 500));
+  console.log(await collector.sample());
+}
+
+async function main() {
+  const base = createHostFs(path.join(fixtures, "base"));
+  const later = overlay(createHostFs(path.join(fixtures, "later")), base);
+
+  await checkParsers(base);
+  console.log("✓ parsers");
+  await checkCollector(base, later);
+  console.log("✓ TelemetryCollector");
+  await checkHardware(base);
+  console.log("✓ hardware and game detection");
+  await checkProcesses(base, later);
+  console.log("✓ ProcessManager");
+
+  if (process.env.HOST_FS_ROOT) {
+    await sampleHost(process.env.HOST_FS_ROOT);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,216 @@
+import type { InsertSystemStats } from "@shared/schema";
+import { hostFs, type HostFs } from "./hostFs";
+import { storage } from "./storage";
+import { realtime } from "./realtime";
+import { alertEngine } from "./alerts";
+
+const DEFAULT_INTERVAL_MS = 2000;
+
+// Interfaces that carry no real traffic out of the machine
+const IGNORED_INTERFACES = /^(lo|docker\d*|veth|br-|virbr|ifb)/;
+
+// hwmon chip names by the component they report on
+const CPU_SENSORS = ["k10temp", "coretemp", "zenpower", "cpu_thermal", "cpu-thermal"];
+const GPU_SENSORS = ["amdgpu", "radeon", "nouveau", "i915", "xe"];
+// thermal_zone types, most specific first; acpitz is a motherboard fallback
+const CPU_THERMAL_ZONES = ["x86_pkg_temp", "cpu-thermal", "cpu_thermal", "soc_thermal", "acpitz"];
+
+export interface CpuTimes {
+  total: number;
+  idle: number;
+}
+
+export interface MemInfo {
+  totalKb: number;
+  availableKb: number;
+}
+
+export interface NetCounters {
+  rxBytes: number;
+  txBytes: number;
+}
+
+export interface TemperatureReading {
+  source: string;
+  celsius: number;
+}
+
+export type HostSample = Omit<InsertSystemStats, "userId">;
+
+// Aggregate "cpu" line of /proc/stat; iowait counts as idle
+export function parseProcStat(text: string): CpuTimes | null {
+  const line = text.split("\n").find(l => l.startsWith("cpu "));
+  if (!line) return null;
+
+  const [user, nice, system, idle, iowait = 0, irq = 0, softirq = 0, steal = 0] =
+    line.trim().split(/\s+/).slice(1).map(Number);
+  const idleAll = idle + iowait;
+  return { total: user + nice + system + idleAll + irq + softirq + steal, idle: idleAll };
+}
+
+export function parseMeminfo(text: string): MemInfo | null {
+  const values = new Map<string, number>();
+  text.split("\n").forEach(line => {
+    const match = line.match(/^(\w+):\s+(\d+)/);
+    if (match) values.set(match[1], Number(match[2]));
+  });
+
+  const totalKb = values.get("MemTotal");
+  if (totalKb === undefined) return null;
+
+  // Kernels before 3.14 lack MemAvailable
+  const availableKb = values.get("MemAvailable")
+    ?? (values.get("MemFree") ?? 0) + (values.get("Buffers") ?? 0) + (values.get("Cached") ?? 0);
+  return { totalKb, availableKb };
+}
+
+export function parseNetDev(text: string): NetCounters {
+  return text.split("\n").slice(2).reduce((sum, line) => {
+    const [name, counters] = line.split(":");
+    if (!counters || IGNORED_INTERFACES.test(name.trim())) return sum;
+
+    const fields = counters.trim().split(/\s+/).map(Number);
+    return { rxBytes: sum.rxBytes + fields[0], txBytes: sum.txBytes + fields[8] };
+  }, { rxBytes: 0, txBytes: 0 });
+}
+
+export function cpuPercent(previous: CpuTimes, current: CpuTimes): number {
+  const total = current.total - previous.total;
+  if (total <= 0) return 0;
+  return Math.round((1 - (current.idle - previous.idle) / total) * 100);
+}
+
+// sysfs reports millidegrees Celsius
+function toCelsius(raw: string | null): number | null {
+  const value = Number(raw);
+  return raw !== null && Number.isFinite(value) ? value / 1000 : null;
+}
+
+export async function readThermalZones(fs: HostFs): Promise<TemperatureReading[]> {
+  const zones = (await fs.readDir("/sys/class/thermal")).filter(name => name.startsWith("thermal_zone"));
+  const readings = await Promise.all(zones.map(async zone => {
+    const source = await fs.readFile(`/sys/class/thermal/${zone}/type`);
+    const celsius = toCelsius(await fs.readFile(`/sys/class/thermal/${zone}/temp`));
+    return source && celsius !== null ? { source, celsius } : null;
+  }));
+  return readings.filter((r): r is TemperatureReading => r !== null);
+}
+
+// Hottest temp*_input of each hwmon chip
+export async function readHwmonSensors(fs: HostFs): Promise<TemperatureReading[]> {
+  const chips = await fs.readDir("/sys/class/hwmon");
+  const readings = await Promise.all(chips.map(async chip => {
+    const dir = `/sys/class/hwmon/${chip}`;
+    const source = await fs.readFile(`${dir}/name`);
+    const inputs = (await fs.readDir(dir)).filter(file => /^temp\d+_input$/.test(file));
+    const temps = (await Promise.all(inputs.map(async file => toCelsius(await fs.readFile(`${dir}/${file}`)))))
+      .filter((t): t is number => t !== null);
+    return source && temps.length > 0 ? { source, celsius: Math.max(...temps) } : null;
+  }));
+  return readings.filter((r): r is TemperatureReading => r !== null);
+}
+
+// amdgpu exposes utilisation directly; other drivers need their own backend
+export async function readGpuBusyPercent(fs: HostFs): Promise<number | null> {
+  const cards = (await fs.readDir("/sys/class/drm")).filter(name => /^card\d+$/.test(name));
+  for (const card of cards) {
+    const busy = Number(await fs.readFile(`/sys/class/drm/${card}/device/gpu_busy_percent`));
+    if (Number.isFinite(busy) && busy > 0) return busy;
+  }
+  return null;
+}
+
+function pickTemperature(readings: TemperatureReading[], preferred: string[]): number | null {
+  for (const source of preferred) {
+    const reading = readings.find(r => r.source === source);
+    if (reading) return Math.round(reading.celsius);
+  }
+  return null;
+}
+
+const toGb = (kb: number) => (kb / 1024 / 1024).toFixed(1);
+
+// Turns consecutive /proc and /sys readings into SystemStats. Rates (CPU%,
+// throughput) need two readings, so the first sample() call only primes them.
+export class TelemetryCollector {
+  private previous: { cpu: CpuTimes; net: NetCounters; at: number } | null = null;
+
+  constructor(private fs: HostFs = hostFs) {}
+
+  async sample(now = Date.now()): Promise<HostSample | null> {
+    const [statText, memText, netText, hwmon, zones, gpuBusy] = await Promise.all([
+      this.fs.readFile("/proc/stat"),
+      this.fs.readFile("/proc/meminfo"),
+      this.fs.readFile("/proc/net/dev"),
+      readHwmonSensors(this.fs),
+      readThermalZones(this.fs),
+      readGpuBusyPercent(this.fs),
+    ]);
+
+    const cpu = statText ? parseProcStat(statText) : null;
+    const mem = memText ? parseMeminfo(memText) : null;
+    if (!cpu || !mem) {
+      throw new Error(`Cannot read /proc/stat or /proc/meminfo under ${this.fs.root}`);
+    }
+    const net = netText ? parseNetDev(netText) : { rxBytes: 0, txBytes: 0 };
+
+    const previous = this.previous;
+    this.previous = { cpu, net, at: now };
+    if (!previous) return null;
+
+    const seconds = Math.max((now - previous.at) / 1000, 0.001);
+    // Counters reset when an interface goes down; treat that interval as idle
+    const mbps = (bytes: number) => Math.max(0, Math.round((bytes * 8) / seconds / 1_000_000));
+
+    return {
+      cpuUsage: cpuPercent(previous.cpu, cpu),
+      cpuTemp: pickTemperature(hwmon, CPU_SENSORS) ?? pickTemperature(zones, CPU_THERMAL_ZONES) ?? 0,
+      gpuUsage: gpuBusy ?? 0,
+      gpuTemp: pickTemperature(hwmon, GPU_SENSORS) ?? 0,
+      ramUsed: toGb(mem.totalKb - mem.availableKb),
+      ramAvailable: toGb(mem.availableKb),
+      networkPing: 0,
+      networkUpload: mbps(net.txBytes - previous.net.txBytes),
+      networkDownload: mbps(net.rxBytes - previous.net.rxBytes),
+      fps: 0,
+    };
+  }
+}
+
+let timer: NodeJS.Timeout | null = null;
+
+// Samples the host on an interval, stores each sample as host-wide stats (no
+// user) and pushes it to every connected client. Linux only.
+export function startHostTelemetry(collector = new TelemetryCollector()) {
+  if (process.env.TELEMETRY_ENABLED === "false" || process.platform !== "linux" || timer) {
+    return;
+  }
+
+  const intervalMs = Number(process.env.TELEMETRY_INTERVAL_MS) || DEFAULT_INTERVAL_MS;
+  let running = false;
+
+  const tick = async () => {
+    if (running) return; // a slow disk must not pile up overlapping samples
+    running = true;
+    try {
+      const sample = await collector.sample();
+      if (sample) {
+        const stats = await storage.createSystemStats({ ...sample, userId: null });
+        realtime.broadcast("stats", "systemStats", stats);
+        alertEngine.evaluate(stats);
+      }
+    } catch (error) {
+      console.error("Telemetry sample failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  tick();
+  timer = setInterval(tick, intervalMs);
+}
+
+export function stopHostTelemetry() {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
@@ -0,0 +1,72 @@
+import { authenticator } from "otplib";
+import QRCode from "qrcode";
+import { createHash, randomBytes } from "crypto";
+import { storage } from "./storage";
+
+const TOTP_ISSUER = "Nexus Optimizer Pro";
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DRIFT_WINDOW = 1; // accept one step either side of the server clock
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = "0123456789abcdefghjkmnpqrstvwxyz"; // Crockford base32, 32 symbols so bytes map evenly
+
+const totp = authenticator.clone({ step: TOTP_STEP_SECONDS, window: TOTP_DRIFT_WINDOW });
+
+export function generateTwoFactorSecret(): string {
+  return totp.generateSecret();
+}
+
+export async function buildEnrollment(username: string, secret: string) {
+  const otpauthUrl = totp.keyuri(username, TOTP_ISSUER, secret);
+  const qrCode = await QRCode.toDataURL(otpauthUrl);
+  return { otpauthUrl, qrCode };
+}
+
+// Returns the RFC 6238 time step the code belongs to, or null if it matches none in the window
+export function matchTotpStep(secret: string, code: string): number | null {
+  const token = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(token)) {
+    return null;
+  }
+
+  const epoch = Date.now();
+  const delta = totp.clone({ epoch }).checkDelta(token, secret);
+  if (delta === null) {
+    return null;
+  }
+
+  return Math.floor(epoch / 1000 / TOTP_STEP_SECONDS) + delta;
+}
+
+// Verifies a TOTP code and marks its time step as used so it cannot be replayed
+export async function consumeTotpCode(userId: string, secret: string, code: string): Promise<boolean> {
+  const step = matchTotpStep(secret, code);
+  if (step === null) {
+    return false;
+  }
+  return storage.claimTwoFactorStep(userId, step);
+}
+
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const bytes = randomBytes(10);
+    const chars = Array.from(bytes, byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]);
+    return `${chars.slice(0, 5).join("")}-${chars.slice(5).join("")}`;
+  });
+}
+
+// Recovery codes are random enough that a fast hash is sufficient; formatting is ignored
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, "");
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+// Issues a fresh set of recovery codes, invalidating any previous ones
+export async function issueRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+  await storage.replaceRecoveryCodes(userId, codes.map(hashRecoveryCode));
+  return codes;
+}
+
+export async function consumeRecoveryCode(userId: string, code: string): Promise<boolean> {
+  return storage.useRecoveryCode(userId, hashRecoveryCode(code));
+}
@@ -0,0 +1,21 @@
+// Standalone echo responder for the Network Booster's UDP test, for a LAN box
+// or a machine near the game servers. The server can also run one itself
+// when UDP_ECHO_PORT is set.
+//
+//   npm run udp-echo -- [port] [host]
+import { UDP_ECHO_DEFAULT_PORT } from "@shared/udpTest";
+import { startUdpEchoResponder } from "./udpTest";
+
+const port = Number(process.argv[2] ?? UDP_ECHO_DEFAULT_PORT);
+const host = process.argv[3] ?? "0.0.0.0";
+
+startUdpEchoResponder(port, host)
+  .then((responder) => {
+    console.log(`📡 UDP echo responder listening on ${host}:${responder.port}`);
+    process.on("SIGINT", () => responder.close().then(() => process.exit(0)));
+    process.on("SIGTERM", () => responder.close().then(() => process.exit(0)));
+  })
+  .catch((error) => {
+    console.error("Could not start the UDP echo responder:", error);
+    process.exit(1);
+  });
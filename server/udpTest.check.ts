@@ -0,0 +1,150 @@
+// Runs the UDP test against the bundled echo responder and a lossy stub on
+// loopback: wire format, loss, reordering, duplicates, the RFC 3550 jitter
+// histogram, the responder handshake, and the test service on MemStorage.
+//
+//   npm run udp:check
+import assert from "node:assert/strict";
+import dgram from "dgram";
+import { startUdpTestSchema } from "@shared/udpTest";
+import { storage } from "./storage";
+import { decodePacket, encodePacket, runUdpTest, startUdpEchoResponder, summarizeUdpTest, UdpTestService } from "./udpTest";
+
+// Echoes like the real responder, but drops every tenth packet, sends one
+// twice and holds one back long enough to arrive after its successor
+async function startLossyStub() {
+  const socket = dgram.createSocket("udp4");
+  socket.on("message", (message, remote) => {
+    const packet = decodePacket(message);
+    if (!packet) return;
+    const reply = () => socket.send(message, remote.port, remote.address);
+    if (packet.kind === 1 && packet.seq % 10 === 3) return;
+    if (packet.kind === 1 && packet.seq === 5) reply();
+    if (packet.kind === 1 && packet.seq === 7) setTimeout(reply, 40);
+    else reply();
+  });
+  await new Promise<void>(resolve => socket.bind(0, "127.0.0.1", resolve));
+  return { port: socket.address().port, close: () => socket.close() };
+}
+
+function checkFormat() {
+  const packet = { kind: 1, testId: 0xdeadbeef, seq: 42, sentAt: 1234.5 };
+  const encoded = encodePacket(packet, 200);
+  assert.equal(encoded.length, 200);
+  assert.deepEqual(decodePacket(encoded), packet);
+  assert.equal(encodePacket(packet, 1).length, 24);
+  assert.equal(decodePacket(encoded.subarray(0, 20)), null);
+  assert.equal(decodePacket(Buffer.concat([Buffer.from("XXXX"), encoded.subarray(4)])), null);
+  assert.equal(decodePacket(Buffer.alloc(1400, encoded)), null);
+  assert.throws(() => startUdpTestSchema.parse({ target: "echo.lan", rate: 1000 }));
+  assert.throws(() => startUdpTestSchema.parse({ target: "echo.lan", size: 9000 }));
+}
+
+function checkSummary() {
+  // 2 arrives before 1, 2 comes twice and 3 never comes
+  const summary = summarizeUdpTest(4, [
+    { seq: 0, rtt: 10 }, { seq: 2, rtt: 12 }, { seq: 1, rtt: 11 }, { seq: 2, rtt: 12 },
+  ]);
+  assert.equal(summary.received, 3);
+  assert.equal(summary.lossRate, 0.25);
+  assert.equal(summary.outOfOrder, 1);
+  assert.equal(summary.duplicates, 1);
+  assert.equal(summary.avgRtt, 11);
+  // D = 2 then 1: J = 2/16, then += (1 - J)/16
+  assert.equal(summary.jitter, Math.round((0.125 + (1 - 0.125) / 16) * 100) / 100);
+  assert.deepEqual(summary.histogram.map(bucket => bucket.count), [0, 1, 1, 0, 0, 0, 0]);
+  assert.deepEqual(summary.histogram[summary.histogram.length - 1], { fromMs: 50, toMs: null, count: 0 });
+  assert.equal(summarizeUdpTest(0, []).jitter, null);
+}
+
+async function checkRuns() {
+  const responder = await startUdpEchoResponder(0, "127.0.0.1");
+  const lossy = await startLossyStub();
+  const silent = dgram.createSocket("udp4");
+  await new Promise<void>(resolve => silent.bind(0, "127.0.0.1", resolve));
+  try {
+    const progress: number[] = [];
+    const clean = await runUdpTest({ address: "127.0.0.1", port: responder.port },
+      { rate: 100, size: 100, durationSec: 2, graceMs: 200 }, new AbortController().signal, summary => progress.push(summary.sent));
+    assert.equal(clean.sent, 200);
+    assert.equal(clean.received, 200);
+    assert.equal(clean.lossRate, 0);
+    assert.equal(clean.duplicates, 0);
+    assert.ok(progress.length >= 1 && progress[0] > 0 && progress[0] < 200);
+
+    const lossyRun = await runUdpTest({ address: "127.0.0.1", port: lossy.port },
+      { rate: 100, size: 64, durationSec: 1, graceMs: 200 }, new AbortController().signal);
+    assert.equal(lossyRun.sent, 100);
+    assert.equal(lossyRun.received, 90);
+    assert.equal(lossyRun.lossRate, 0.1);
+    assert.equal(lossyRun.duplicates, 1);
+    assert.equal(lossyRun.outOfOrder, 1);
+    assert.equal(lossyRun.histogram.reduce((sum, bucket) => sum + bucket.count, 0), 89);
+
+    // Nothing is sent to a port without a responder beyond the hello
+    const received: Buffer[] = [];
+    silent.on("message", message => received.push(message));
+    await assert.rejects(runUdpTest({ address: "127.0.0.1", port: silent.address().port },
+      { rate: 100, size: 64, durationSec: 1 }, new AbortController().signal), /No echo responder answered/);
+    assert.equal(received.length, 3);
+    assert.ok(received.every(message => decodePacket(message)?.kind === 0));
+  } finally {
+    await responder.close();
+    lossy.close();
+    silent.close();
+  }
+}
+
+async function checkService() {
+  const user = await storage.createUser({ username: "udp_check", passwordHash: "hash" });
+  const responder = await startUdpEchoResponder(0, "127.0.0.1");
+  const service = new UdpTestService({ resolve: async host => (host === "echo.lan" ? "127.0.0.1" : host), graceMs: 100 });
+  const request = (overrides: object = {}) =>
+    startUdpTestSchema.parse({ target: "echo.lan", port: responder.port, rate: 50, durationSec: 1, ...overrides });
+  try {
+    assert.deepEqual(await service.start(user.id, request({ target: "224.0.0.1" })),
+      { error: "Only unicast addresses can be tested", status: 400 });
+
+    const started = await service.start(user.id, request());
+    assert.ok("test" in started);
+    assert.deepEqual(await service.start(user.id, request()), { error: "A UDP test is already running", status: 409 });
+    await service.idle();
+    const completed = await storage.getUdpTest(started.test.id);
+    assert.equal(completed?.status, "completed");
+    assert.equal(completed?.summary.sent, 50);
+    assert.equal(completed?.summary.received, 50);
+    assert.deepEqual(service.cancel(completed!), { error: "UDP test has already finished" });
+
+    const long = await service.start(user.id, request({ durationSec: 30 }));
+    assert.ok("test" in long);
+    await new Promise(resolve => setTimeout(resolve, 200));
+    assert.deepEqual(service.cancel(long.test), { test: long.test });
+    await service.idle();
+    const cancelled = await storage.getUdpTest(long.test.id);
+    assert.equal(cancelled?.status, "cancelled");
+    assert.ok(cancelled!.summary.sent < 1500);
+
+    const closed = await service.start(user.id, request({ port: 9 }));
+    assert.ok("test" in closed);
+    await service.idle();
+    assert.match((await storage.getUdpTest(closed.test.id))?.error ?? "", /No echo responder answered/);
+
+    const stale = await storage.createUdpTest({ ...request(), userId: user.id, address: "127.0.0.1", summary: summarizeUdpTest(0, []) });
+    await service.recover();
+    assert.equal((await storage.getUdpTest(stale.id))?.status, "failed");
+  } finally {
+    await responder.close();
+  }
+}
+
+async function main() {
+  checkFormat();
+  checkSummary();
+  await checkRuns();
+  await checkService();
+  console.log("✓ udp test");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,299 @@
+import dgram from "dgram";
+import dns from "dns";
+import net from "net";
+import { randomBytes } from "crypto";
+import type { UdpTest } from "@shared/schema";
+import {
+  UDP_ECHO_DEFAULT_PORT, UDP_ECHO_HEADER_SIZE, UDP_ECHO_MAGIC, UDP_ECHO_MAX_SIZE, UDP_ECHO_VERSION, jitterBucketBounds,
+  type JitterBucket, type StartUdpTestRequest, type UdpTestSummary
+} from "@shared/udpTest";
+import { storage } from "./storage";
+import { realtime } from "./realtime";
+import { BackgroundRuns, wait } from "./backgroundRuns";
+import { probeLimiter, type ProbeRateLimiter, type RateLimited } from "./latencyProbes";
+
+const KIND_HELLO = 0;
+const KIND_DATA = 1;
+
+export interface UdpEchoPacket {
+  kind: number;
+  testId: number;
+  seq: number;
+  sentAt: number;
+}
+
+export function encodePacket(packet: UdpEchoPacket, size = UDP_ECHO_HEADER_SIZE): Buffer {
+  const buffer = Buffer.alloc(Math.max(size, UDP_ECHO_HEADER_SIZE));
+  buffer.write(UDP_ECHO_MAGIC, 0, "ascii");
+  buffer.writeUInt8(UDP_ECHO_VERSION, 4);
+  buffer.writeUInt8(packet.kind, 5);
+  buffer.writeUInt32BE(packet.testId, 8);
+  buffer.writeUInt32BE(packet.seq, 12);
+  buffer.writeDoubleBE(packet.sentAt, 16);
+  return buffer;
+}
+
+// null for anything that is not a datagram of this protocol
+export function decodePacket(buffer: Buffer): UdpEchoPacket | null {
+  if (buffer.length < UDP_ECHO_HEADER_SIZE || buffer.length > UDP_ECHO_MAX_SIZE) return null;
+  if (buffer.toString("ascii", 0, 4) !== UDP_ECHO_MAGIC || buffer.readUInt8(4) !== UDP_ECHO_VERSION) return null;
+  return {
+    kind: buffer.readUInt8(5),
+    testId: buffer.readUInt32BE(8),
+    seq: buffer.readUInt32BE(12),
+    sentAt: buffer.readDoubleBE(16),
+  };
+}
+
+export interface UdpEchoResponder {
+  port: number;
+  close(): Promise<void>;
+}
+
+// Sends every valid datagram back to where it came from, unchanged. Replies
+// are never larger than requests, so the responder cannot amplify traffic.
+export async function startUdpEchoResponder(port = UDP_ECHO_DEFAULT_PORT, host = "0.0.0.0"): Promise<UdpEchoResponder> {
+  const socket = dgram.createSocket(net.isIPv6(host) ? "udp6" : "udp4");
+  socket.on("message", (message, remote) => {
+    if (decodePacket(message)) socket.send(message, remote.port, remote.address);
+  });
+  // A reply to a host that went away must not take the responder down
+  socket.on("error", (error) => console.error("UDP echo responder error:", error));
+  await new Promise<void>((resolve, reject) => {
+    socket.once("error", reject);
+    socket.bind(port, host, () => {
+      socket.off("error", reject);
+      resolve();
+    });
+  });
+  return {
+    port: socket.address().port,
+    close: () => new Promise(resolve => socket.close(() => resolve())),
+  };
+}
+
+export interface UdpArrival {
+  seq: number;
+  rtt: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Arrivals are in the order they came back. Jitter follows RFC 3550:
+// J += (|D| - J) / 16, where D is the change in transit time between
+// consecutive packets; every |D| also goes into the histogram.
+export function summarizeUdpTest(sent: number, arrivals: UdpArrival[]): UdpTestSummary {
+  const histogram: JitterBucket[] = jitterBucketBounds.map((toMs, index) => ({ fromMs: jitterBucketBounds[index - 1] ?? 0, toMs, count: 0 }));
+  histogram.push({ fromMs: jitterBucketBounds[jitterBucketBounds.length - 1], toMs: null, count: 0 });
+
+  const seen = new Set<number>();
+  let highest = -1;
+  let outOfOrder = 0;
+  let duplicates = 0;
+  let total = 0;
+  let jitter = 0;
+  let previous: number | null = null;
+
+  arrivals.forEach(({ seq, rtt }) => {
+    if (seen.has(seq)) {
+      duplicates++;
+      return;
+    }
+    seen.add(seq);
+    if (seq < highest) outOfOrder++;
+    else highest = seq;
+    total += rtt;
+
+    if (previous !== null) {
+      const d = Math.abs(rtt - previous);
+      jitter += (d - jitter) / 16;
+      const bucket = jitterBucketBounds.findIndex(bound => d < bound);
+      histogram[bucket === -1 ? histogram.length - 1 : bucket].count++;
+    }
+    previous = rtt;
+  });
+
+  const received = seen.size;
+  return {
+    sent,
+    received,
+    lossRate: sent ? round(Math.max(0, sent - received) / sent) : 0,
+    outOfOrder,
+    duplicates,
+    avgRtt: received ? round(total / received) : null,
+    jitter: received ? round(jitter) : null,
+    histogram,
+  };
+}
+
+export interface UdpTestOptions {
+  rate: number;
+  size: number;
+  durationSec: number;
+  // How long to wait for stragglers after the last packet
+  graceMs?: number;
+}
+
+// Checks that an echo responder answers, then sends `rate` packets a second
+// for `durationSec` seconds. Nothing is sent to a host that does not answer
+// the hello, so the test cannot be used to flood arbitrary addresses.
+export async function runUdpTest(
+  target: { address: string; port: number },
+  options: UdpTestOptions,
+  signal: AbortSignal,
+  onProgress?: (summary: UdpTestSummary) => void,
+): Promise<UdpTestSummary> {
+  const socket = dgram.createSocket(net.isIPv6(target.address) ? "udp6" : "udp4");
+  const testId = randomBytes(4).readUInt32BE(0);
+  const arrivals: UdpArrival[] = [];
+  let helloAnswered: () => void = () => undefined;
+  let sent = 0;
+
+  socket.on("message", (message) => {
+    const packet = decodePacket(message);
+    if (!packet || packet.testId !== testId) return;
+    if (packet.kind === KIND_HELLO) helloAnswered();
+    else arrivals.push({ seq: packet.seq, rtt: performance.now() - packet.sentAt });
+  });
+  // Unreachable ports and the like show up as loss
+  socket.on("error", () => undefined);
+  const send = (packet: Buffer) => socket.send(packet, target.port, target.address);
+  await new Promise<void>(resolve => socket.bind(0, resolve));
+
+  let progress: NodeJS.Timeout | undefined;
+  try {
+    const answered = new Promise<void>(resolve => (helloAnswered = resolve));
+    let ready = false;
+    answered.then(() => (ready = true));
+    for (let attempt = 0; attempt < 3 && !ready && !signal.aborted; attempt++) {
+      send(encodePacket({ kind: KIND_HELLO, testId, seq: attempt, sentAt: performance.now() }));
+      await Promise.race([answered, wait(1000, signal)]);
+    }
+    if (signal.aborted) return summarizeUdpTest(0, []);
+    if (!ready) throw new Error(`No echo responder answered at ${target.address}:${target.port}`);
+
+    progress = setInterval(() => onProgress?.(summarizeUdpTest(sent, arrivals)), 1000);
+    const total = options.rate * options.durationSec;
+    const interval = 1000 / options.rate;
+    const started = performance.now();
+    for (let seq = 0; seq < total && !signal.aborted; seq++) {
+      await wait(started + seq * interval - performance.now(), signal);
+      if (signal.aborted) break;
+      send(encodePacket({ kind: KIND_DATA, testId, seq, sentAt: performance.now() }, options.size));
+      sent++;
+    }
+    await wait(options.graceMs ?? 1000, signal);
+    return summarizeUdpTest(sent, arrivals);
+  } finally {
+    clearInterval(progress);
+    socket.close();
+  }
+}
+
+// Unspecified, multicast and broadcast addresses; private ones are fine, as
+// the responder usually sits on the LAN or on this host
+const nonUnicast = new net.BlockList();
+nonUnicast.addSubnet("0.0.0.0", 8, "ipv4");
+nonUnicast.addSubnet("224.0.0.0", 4, "ipv4");
+nonUnicast.addSubnet("240.0.0.0", 4, "ipv4");
+nonUnicast.addAddress("::", "ipv6");
+nonUnicast.addSubnet("ff00::", 8, "ipv6");
+
+export type StartUdpTestResult =
+  | { test: UdpTest }
+  | { error: string; status: number }
+  | RateLimited;
+
+export interface UdpTestServiceOptions {
+  resolve?: (host: string) => Promise<string>;
+  limiter?: ProbeRateLimiter;
+  graceMs?: number;
+}
+
+// Runs UDP tests in the background, one per user at a time, publishing the
+// running summary on the `probes` topic. Starts count against the same
+// budget as latency probes.
+export class UdpTestService {
+  private resolve: (host: string) => Promise<string>;
+  private limiter: ProbeRateLimiter;
+  private graceMs?: number;
+  private runs = new BackgroundRuns<UdpTest>("UDP test", {
+    getUnfinished: () => storage.getUnfinishedUdpTests(),
+    fail: (id, error) => storage.updateUdpTest(id, { status: "failed", error, finishedAt: new Date() }),
+  });
+
+  constructor(options: UdpTestServiceOptions = {}) {
+    this.resolve = options.resolve ?? (async host => (await dns.promises.lookup(host)).address);
+    this.limiter = options.limiter ?? probeLimiter;
+    this.graceMs = options.graceMs;
+  }
+
+  async start(userId: string, request: StartUdpTestRequest): Promise<StartUdpTestResult> {
+    let address: string;
+    try {
+      address = await this.resolve(request.target);
+    } catch {
+      return { error: `Could not resolve ${request.target}`, status: 400 };
+    }
+    if (nonUnicast.check(address, net.isIPv6(address) ? "ipv6" : "ipv4")) {
+      return { error: "Only unicast addresses can be tested", status: 400 };
+    }
+
+    if (this.runs.busy(userId)) {
+      return { error: "A UDP test is already running", status: 409 };
+    }
+    const limited = this.limiter.take(userId, `udp:${address}:${request.port}`);
+    if (limited) return limited;
+
+    const test = await this.runs.start(userId, () => storage.createUdpTest({
+      userId,
+      target: request.target,
+      address,
+      port: request.port,
+      rate: request.rate,
+      size: request.size,
+      durationSec: request.durationSec,
+      status: "running",
+      summary: summarizeUdpTest(0, []),
+    }), (created, signal) => this.run(created, signal));
+    this.publish(test);
+    return { test };
+  }
+
+  cancel(test: UdpTest): { test: UdpTest } | { error: string } {
+    if (!this.runs.cancel(test.id)) return { error: "UDP test has already finished" };
+    return { test };
+  }
+
+  recover(): Promise<void> {
+    return this.runs.recover();
+  }
+
+  // Resolves once every test started so far has finished
+  idle(): Promise<void> {
+    return this.runs.idle();
+  }
+
+  private async run(test: UdpTest, signal: AbortSignal) {
+    let updates: Partial<UdpTest>;
+    try {
+      const summary = await runUdpTest(
+        { address: test.address, port: test.port },
+        { rate: test.rate, size: test.size, durationSec: test.durationSec, graceMs: this.graceMs },
+        signal,
+        progress => this.publish({ ...test, summary: progress }),
+      );
+      updates = { status: signal.aborted ? "cancelled" : "completed", summary };
+    } catch (error) {
+      updates = { status: "failed", error: error instanceof Error ? error.message : String(error) };
+    }
+    const finished = await storage.updateUdpTest(test.id, { ...updates, finishedAt: new Date() });
+    this.publish(finished ?? test);
+  }
+
+  private publish(test: UdpTest) {
+    realtime.publish(test.userId, "probes", "udpTestProgress", test);
+  }
+}
+
+export const udpTestService = new UdpTestService();
@@ -0,0 +1,34 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+// `systemctl --user list-unit-files` lines: "unit state [preset]"
+export function parseUnitFiles(text: string): Map<string, string> {
+  const units = new Map<string, string>();
+  text.split("\n").forEach(line => {
+    const [unit, state] = line.trim().split(/\s+/);
+    if (unit && state && unit.includes(".")) units.set(unit, state);
+  });
+  return units;
+}
+
+// How the user's systemd services are read and changed; replaced in checks
+export interface ServiceControl {
+  // Unit file name to state ("enabled", "disabled", "static", ...)
+  listUnitFiles(): Promise<Map<string, string>>;
+  setEnabled(unit: string, enabled: boolean): Promise<void>;
+}
+
+export const systemctlUserServices: ServiceControl = {
+  async listUnitFiles() {
+    const { stdout } = await execFileAsync(
+      "systemctl", ["--user", "list-unit-files", "--type=service", "--no-legend", "--no-pager"],
+      { timeout: 10_000 },
+    );
+    return parseUnitFiles(stdout);
+  },
+  async setEnabled(unit, enabled) {
+    await execFileAsync("systemctl", ["--user", enabled ? "enable" : "disable", "--", unit], { timeout: 10_000 });
+  },
+};
@@ -0,0 +1,66 @@
+import { z } from "zod";
+import { statsMetrics, type StatsMetric } from "./statsHistory";
+
+// Alert rule vocabulary shared by the evaluation engine (server/alerts.ts) and the alerts page.
+
+export const alertOperators = [">", ">=", "<", "<="] as const;
+export type AlertOperator = typeof alertOperators[number];
+
+export const alertSeverities = ["info", "warning", "critical"] as const;
+export type AlertSeverity = typeof alertSeverities[number];
+
+export const metricLabels: Record<StatsMetric, { label: string; unit: string }> = {
+  cpuUsage: { label: "CPU usage", unit: "%" },
+  cpuTemp: { label: "CPU temperature", unit: "°C" },
+  gpuUsage: { label: "GPU usage", unit: "%" },
+  gpuTemp: { label: "GPU temperature", unit: "°C" },
+  ramUsed: { label: "RAM used", unit: "GB" },
+  ramAvailable: { label: "RAM available", unit: "GB" },
+  networkPing: { label: "Ping", unit: "ms" },
+  networkUpload: { label: "Upload", unit: "Mbps" },
+  networkDownload: { label: "Download", unit: "Mbps" },
+  fps: { label: "FPS", unit: "" },
+};
+
+export const alertRuleSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  metric: z.enum(statsMetrics),
+  operator: z.enum(alertOperators),
+  threshold: z.number().finite(),
+  forSeconds: z.number().int().min(0).max(3600).default(0),
+  hysteresis: z.number().min(0).default(0),
+  cooldownSeconds: z.number().int().min(0).max(86_400).default(300),
+  severity: z.enum(alertSeverities).default("warning"),
+  whileProfileActive: z.boolean().default(false),
+  enabled: z.boolean().default(true),
+});
+export const updateAlertRuleSchema = alertRuleSchema.partial();
+export type AlertRuleInput = z.infer<typeof alertRuleSchema>;
+
+type RuleCondition = Pick<AlertRuleInput, "metric" | "operator" | "threshold">;
+
+export function isBreaching(value: number, { operator, threshold }: Pick<RuleCondition, "operator" | "threshold">): boolean {
+  switch (operator) {
+    case ">": return value > threshold;
+    case ">=": return value >= threshold;
+    case "<": return value < threshold;
+    case "<=": return value <= threshold;
+  }
+}
+
+// An active alert clears only once the value is back past the threshold by the
+// hysteresis margin, so a reading hovering around the threshold does not flap
+export function hasRecovered(value: number, rule: Pick<AlertRuleInput, "operator" | "threshold" | "hysteresis">): boolean {
+  const above = rule.operator === ">" || rule.operator === ">=";
+  const clearAt = above ? rule.threshold - rule.hysteresis : rule.threshold + rule.hysteresis;
+  return !isBreaching(value, { operator: rule.operator, threshold: clearAt });
+}
+
+// "GPU temperature > 83°C for 30s while a game profile is active"
+export function describeRule(rule: RuleCondition & Partial<Pick<AlertRuleInput, "forSeconds" | "whileProfileActive">>): string {
+  const { label, unit } = metricLabels[rule.metric];
+  let text = `${label} ${rule.operator} ${rule.threshold}${unit}`;
+  if (rule.forSeconds) text += ` for ${rule.forSeconds}s`;
+  if (rule.whileProfileActive) text += " while a game profile is active";
+  return text;
+}
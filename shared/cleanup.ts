@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+// Temporary file and cache cleanup on Linux, shared by server/cleanup.ts and
+// the System Optimizer. Options are sent with both the dry run
+// (POST /api/cleanup/dry-run) and the `tempCleanup` job.
+
+export const cleanupCategories = ["tmp", "cache", "thumbnails", "logs", "steamShaderCache", "steamDepotCache", "custom"] as const;
+export type CleanupCategory = typeof cleanupCategories[number];
+
+export const cleanupCategoryInfo: Record<CleanupCategory, { title: string; description: string; maxAgeDays: number }> = {
+  tmp: { title: "Temporary files", description: "Your files in /tmp and /var/tmp", maxAgeDays: 1 },
+  cache: { title: "Application caches", description: "Subfolders of ~/.cache", maxAgeDays: 30 },
+  thumbnails: { title: "Thumbnails", description: "~/.cache/thumbnails", maxAgeDays: 30 },
+  logs: { title: "Old logs", description: "*.log files under ~/.local/state, Xorg and Steam logs", maxAgeDays: 14 },
+  steamShaderCache: { title: "Steam shader cache", description: "Rebuilt by games on their next launch", maxAgeDays: 30 },
+  steamDepotCache: { title: "Steam depot cache", description: "Leftovers from game downloads", maxAgeDays: 7 },
+  custom: { title: "Custom folders", description: "Folders you added", maxAgeDays: 30 },
+};
+
+// Everything but custom folders, which are empty until the user adds some
+export const defaultCleanupCategories: CleanupCategory[] = ["tmp", "cache", "thumbnails", "logs", "steamDepotCache"];
+
+export const cleanupOptionsSchema = z.object({
+  categories: z.array(z.enum(cleanupCategories)).min(1).default(defaultCleanupCategories),
+  // Overrides of the per-category default age
+  maxAgeDays: z.record(z.enum(cleanupCategories), z.number().min(0).max(3650)).default({}),
+  // Path patterns never to remove; "~" is the home folder, "*" stays within one
+  // folder and "**" crosses folders ("~/.cache/pip/**")
+  exclude: z.array(z.string().trim().min(1).max(300)).max(100).default([]),
+  // Extra folders for the custom category; they must be inside the home folder
+  include: z.array(z.string().trim().min(1).max(300)).max(20).default([]),
+});
+export type CleanupOptions = z.infer<typeof cleanupOptionsSchema>;
+
+export interface CleanupCategoryReport {
+  category: CleanupCategory;
+  title: string;
+  roots: string[]; // folders that exist and were scanned
+  files: number;
+  bytes: number;
+  failed?: number; // files that could not be removed, for real runs
+}
+
+export interface CleanupReport {
+  dryRun: boolean;
+  categories: CleanupCategoryReport[];
+  files: number;
+  bytes: number;
+}
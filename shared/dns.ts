@@ -0,0 +1,65 @@
+import { z } from "zod";
+
+// DNS resolver benchmark and switching in the Network Booster, shared by
+// server/dns.ts and the page.
+
+export const dnsPresets = [
+  { label: "Cloudflare DNS", server: "1.1.1.1", description: "Fast and privacy-focused" },
+  { label: "Google DNS", server: "8.8.8.8", description: "Reliable and widely used" },
+  { label: "Quad9 DNS", server: "9.9.9.9", description: "Security and privacy focused" },
+] as const;
+
+// Popular names that most resolvers have cached, and the zones that
+// uncached lookups are made in
+export const defaultBenchmarkDomains = ["google.com", "youtube.com", "cloudflare.com", "steampowered.com", "epicgames.com"];
+
+const resolverAddress = z.string().trim().ip();
+const domainName = z.string().trim().toLowerCase()
+  .regex(/^(?=.{1,200}$)([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/, "Not a domain name");
+
+export const dnsBenchmarkSchema = z.object({
+  servers: z.array(resolverAddress).min(1).max(8).default(dnsPresets.map(preset => preset.server)),
+  domains: z.array(domainName).min(1).max(20).default(defaultBenchmarkDomains),
+  // Cached and uncached queries per domain and resolver
+  rounds: z.number().int().min(1).max(10).default(2),
+  timeoutMs: z.number().int().min(100).max(5000).default(1500),
+});
+export type DnsBenchmarkOptions = z.infer<typeof dnsBenchmarkSchema>;
+
+export interface LatencySummary {
+  // null when every query failed
+  median: number | null;
+  p95: number | null;
+}
+
+export interface DnsResolverResult {
+  server: string;
+  label: string;
+  // 1 is the fastest reliable resolver
+  rank: number;
+  // Repeated lookups of the same name, answered from the resolver's cache
+  cached: LatencySummary;
+  // Lookups of random names under each domain, which the resolver has to
+  // look up at the domain's own servers
+  uncached: LatencySummary;
+  overall: LatencySummary;
+  queries: number;
+  failures: number;
+  failureRate: number;
+}
+
+export interface DnsBenchmarkReport {
+  domains: string[];
+  results: DnsResolverResult[];
+}
+
+export const applyDnsSchema = z.object({
+  servers: z.array(resolverAddress).min(1).max(3),
+});
+export type ApplyDnsRequest = z.infer<typeof applyDnsSchema>;
+
+export interface ResolverState {
+  // How this host's resolver is configured
+  method: "systemd-resolved" | "resolv.conf";
+  servers: string[];
+}
@@ -0,0 +1,55 @@
+import { z } from "zod";
+
+// Game profile settings, stored as JSON in gameProfiles.settings and validated
+// on every write. Every field has a default so older, sparser settings parse.
+
+export const processPriorities = ["low", "medium", "high"] as const;
+export const optimizationTargets = ["fps", "balanced", "quality", "latency"] as const;
+export const gpuPresets = ["default", "performance", "balanced", "quiet"] as const;
+export const processRuleActions = ["kill", "lowerPriority", "raisePriority"] as const;
+
+export const processRuleSchema = z.object({
+  // Executable name, e.g. "Discord" or "chrome.exe"; matched case-insensitively
+  process: z.string().trim().min(1).max(255),
+  action: z.enum(processRuleActions),
+});
+
+export const networkTweaksSchema = z.object({
+  tcpOptimized: z.boolean().default(false),
+  qos: z.boolean().default(false),
+  dnsServer: z.string().ip().nullable().default(null),
+});
+
+export const gameProfileSettingsSchema = z.object({
+  priority: z.enum(processPriorities).default("medium"),
+  optimization: z.enum(optimizationTargets).default("balanced"),
+  fpsCap: z.number().int().min(30).max(1000).nullable().default(null), // null = uncapped
+  gpuPreset: z.enum(gpuPresets).default("default"),
+  network: networkTweaksSchema.default({}),
+  processRules: z.array(processRuleSchema).max(100).default([]),
+  // Executable names that mean the game is running, "*" and "?" allowed; when
+  // empty, the catalog game with the profile's name is used (shared/games.ts)
+  executables: z.array(z.string().trim().min(1).max(255)).max(20).default([]),
+});
+
+export type ProcessPriority = typeof processPriorities[number];
+export type OptimizationTarget = typeof optimizationTargets[number];
+export type GpuPreset = typeof gpuPresets[number];
+export type ProcessRule = z.infer<typeof processRuleSchema>;
+export type NetworkTweaks = z.infer<typeof networkTweaksSchema>;
+export type GameProfileSettings = z.infer<typeof gameProfileSettingsSchema>;
+
+export const defaultProfileSettings: GameProfileSettings = gameProfileSettingsSchema.parse({});
+
+// Activation has its own endpoint so the one-active-profile rule lives in one place
+export const gameProfileSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  icon: z.string().trim().min(1).max(100).default("fas fa-gamepad"),
+  settings: gameProfileSettingsSchema.default({}),
+});
+export const updateGameProfileSchema = z.object({
+  name: gameProfileSchema.shape.name.optional(),
+  icon: z.string().trim().min(1).max(100).optional(),
+  settings: gameProfileSettingsSchema.optional(),
+});
+export type GameProfileInput = z.infer<typeof gameProfileSchema>;
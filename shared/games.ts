@@ -0,0 +1,74 @@
+import type { GameProfileSettings, OptimizationTarget, ProcessRule } from "./gameProfiles";
+import { defaultProfileSettings } from "./gameProfiles";
+import type { HardwareInfo } from "./hardware";
+
+// Games the profile wizard and game detection know about. Executable names are
+// the Windows ones for games that run through Proton/Wine.
+
+export interface KnownGame {
+  id: string;
+  name: string;
+  icon: string;
+  executables: string[];
+  // Online competitive games get network tweaks and favour frame rate over looks
+  competitive: boolean;
+  goal: OptimizationTarget;
+}
+
+export const knownGames: KnownGame[] = [
+  { id: "valorant", name: "Valorant", icon: "fas fa-gun", executables: ["VALORANT-Win64-Shipping.exe"], competitive: true, goal: "latency" },
+  { id: "fortnite", name: "Fortnite", icon: "fas fa-hammer", executables: ["FortniteClient-Win64-Shipping.exe"], competitive: true, goal: "fps" },
+  { id: "cs2", name: "Counter-Strike 2", icon: "fas fa-bomb", executables: ["cs2", "cs2.exe"], competitive: true, goal: "latency" },
+  { id: "apex", name: "Apex Legends", icon: "fas fa-crosshairs", executables: ["r5apex.exe", "r5apex_dx12.exe"], competitive: true, goal: "fps" },
+  { id: "league", name: "League of Legends", icon: "fas fa-shield-halved", executables: ["League of Legends.exe"], competitive: true, goal: "latency" },
+  { id: "dota2", name: "Dota 2", icon: "fas fa-dragon", executables: ["dota2", "dota2.exe"], competitive: true, goal: "latency" },
+  { id: "overwatch", name: "Overwatch 2", icon: "fas fa-bullseye", executables: ["Overwatch.exe"], competitive: true, goal: "fps" },
+  { id: "rocketleague", name: "Rocket League", icon: "fas fa-car", executables: ["RocketLeague.exe"], competitive: true, goal: "fps" },
+  { id: "minecraft", name: "Minecraft", icon: "fas fa-cube", executables: ["Minecraft.Windows.exe", "minecraft-launcher"], competitive: false, goal: "quality" },
+  { id: "cyberpunk", name: "Cyberpunk 2077", icon: "fas fa-city", executables: ["Cyberpunk2077.exe"], competitive: false, goal: "quality" },
+];
+
+export function findKnownGame(id: string): KnownGame | undefined {
+  return knownGames.find(game => game.id === id);
+}
+
+export function findKnownGameByName(name: string): KnownGame | undefined {
+  return knownGames.find(game => game.name.toLowerCase() === name.trim().toLowerCase());
+}
+
+// Browsers hold a lot of memory in the background
+const BACKGROUND_HOGS = ["chrome", "firefox"];
+
+export interface RecommendationInput {
+  game?: KnownGame;
+  goal: OptimizationTarget;
+  fpsTarget: number | null;
+  hardware?: HardwareInfo | null;
+}
+
+// Starting settings for a new profile; the wizard lets the user change any of them
+export function recommendProfileSettings({ game, goal, fpsTarget, hardware }: RecommendationInput): GameProfileSettings {
+  const fast = goal === "fps" || goal === "latency";
+  const lowMemory = hardware?.memoryGb != null && hardware.memoryGb < 16;
+  const fewThreads = hardware?.cpuThreads != null && hardware.cpuThreads <= 4;
+  const hasGpu = (hardware?.gpus ?? []).some(gpu => gpu.vendor !== "unknown");
+
+  const processRules: ProcessRule[] = fast || lowMemory
+    ? BACKGROUND_HOGS.map(process => ({ process, action: "lowerPriority" as const }))
+    : [];
+
+  return {
+    ...defaultProfileSettings,
+    priority: fast || fewThreads ? "high" : "medium",
+    optimization: goal,
+    fpsCap: fpsTarget,
+    gpuPreset: !hasGpu ? "default" : fast ? "performance" : goal === "balanced" ? "balanced" : "default",
+    network: {
+      ...defaultProfileSettings.network,
+      tcpOptimized: fast || !!game?.competitive,
+      qos: !!game?.competitive,
+    },
+    processRules,
+    executables: game?.executables ?? [],
+  };
+}
@@ -0,0 +1,228 @@
+import { z } from "zod";
+
+// GPU control agent protocol, shared by the agent (server/gpuAgentServer.ts),
+// the server's client (server/gpuAgent.ts) and the GPU Tuner panels.
+//
+// The agent is a separate process with access to the GPU drivers. It speaks
+// JSON-RPC 2.0 on one path, two ways:
+//   POST /rpc       one request per HTTP request, the response as the body
+//   WebSocket /rpc  requests and responses as text frames, plus notifications
+//                   from the agent (telemetry.update, gpu.event)
+// When the agent has a token, both need `Authorization: Bearer <token>`.
+//
+// Methods:
+//   agent.hello                            → AgentInfo
+//   gpu.list                               → { devices: GpuDevice[] }
+//   gpu.getTelemetry  { deviceId }         → GpuTelemetry
+//   gpu.getSettings   { deviceId }         → GpuSettings
+//   gpu.setSettings   { deviceId, settings } → GpuSettings, as applied
+//   gpu.resetSettings { deviceId }         → GpuSettings, the driver defaults
+//   telemetry.subscribe { deviceIds?, intervalMs } → { subscriptionId }, WebSocket only
+//   telemetry.unsubscribe { subscriptionId } → { subscribed: false }
+//
+// A device lists the controls it supports with their range in its
+// capabilities. Setting anything else fails with `unsupported`, and a value
+// outside the range with `outOfRange`; nothing is applied in either case.
+
+export const GPU_AGENT_PROTOCOL_VERSION = 1;
+export const GPU_AGENT_DEFAULT_PORT = 7878;
+export const GPU_AGENT_PATH = "/rpc";
+
+export const gpuAgentErrorCodes = {
+  parseError: -32700,
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  invalidParams: -32602,
+  internalError: -32603,
+  // Never sent by an agent: the client could not reach it
+  unreachable: -32000,
+  deviceNotFound: -32001,
+  unsupported: -32002,
+  outOfRange: -32003,
+  permissionDenied: -32004,
+  driverError: -32005,
+} as const;
+
+// Carries a JSON-RPC error object through code that throws, on both sides
+export class GpuAgentError extends Error {
+  constructor(readonly code: number, message: string, readonly data?: unknown) {
+    super(message);
+    this.name = "GpuAgentError";
+  }
+}
+
+export const gpuVendors = ["nvidia", "amd", "intel"] as const;
+export type GpuVendor = typeof gpuVendors[number];
+
+// Numeric controls. Absolute clocks are caps the driver stays under (AMD
+// overdrive, Intel min/max/boost); offsets shift the whole curve (NVIDIA).
+export const gpuControls = [
+  "coreClockMin", "coreClockMax", "coreClockBoost", "coreClockOffset",
+  "memoryClockMax", "memoryClockOffset",
+  "powerLimit", "fanSpeed",
+] as const;
+export type GpuControl = typeof gpuControls[number];
+
+export const gpuControlUnits: Record<GpuControl, string> = {
+  coreClockMin: "MHz",
+  coreClockMax: "MHz",
+  coreClockBoost: "MHz",
+  coreClockOffset: "MHz",
+  memoryClockMax: "MHz",
+  memoryClockOffset: "MHz",
+  powerLimit: "W",
+  fanSpeed: "%",
+};
+
+export interface ControlRange {
+  min: number;
+  max: number;
+  step: number;
+  // What gpu.resetSettings goes back to
+  default: number | null;
+}
+
+export interface GpuCapabilities {
+  controls: Partial<Record<GpuControl, ControlRange>>;
+  // Driver performance levels, such as amdgpu's "auto" and "manual"; empty when not settable
+  performanceLevels: string[];
+}
+
+export interface GpuDevice {
+  id: string;
+  vendor: GpuVendor;
+  name: string;
+  driver: string;
+  driverVersion: string | null;
+  capabilities: GpuCapabilities;
+}
+
+// Everything a device may not report is null
+export interface GpuTelemetry {
+  deviceId: string;
+  timestamp: number;
+  temperature: number | null; // °C
+  usage: number | null; // %
+  coreClock: number | null; // MHz
+  memoryClock: number | null; // MHz
+  vramUsed: number | null; // MiB
+  vramTotal: number | null; // MiB
+  powerDraw: number | null; // W
+  powerLimit: number | null; // W
+  fanSpeed: number | null; // %
+  fanRpm: number | null;
+  // "P0"-"P12" on NVIDIA, the performance level elsewhere
+  performanceState: string | null;
+  // Why clocks are held back right now, e.g. "thermal", "power"
+  throttleReasons: string[];
+}
+
+// fanSpeed null hands the fan back to the driver's automatic curve
+export const gpuSettingsSchema = z.object({
+  coreClockMin: z.number().optional(),
+  coreClockMax: z.number().optional(),
+  coreClockBoost: z.number().optional(),
+  coreClockOffset: z.number().optional(),
+  memoryClockMax: z.number().optional(),
+  memoryClockOffset: z.number().optional(),
+  powerLimit: z.number().optional(),
+  fanSpeed: z.number().nullable().optional(),
+  performanceLevel: z.string().max(50).optional(),
+}).strict();
+export type GpuSettings = z.infer<typeof gpuSettingsSchema>;
+
+export interface AgentInfo {
+  name: string;
+  version: string;
+  protocolVersion: number;
+}
+
+// Pushed to every WebSocket client when the driver reports something the
+// tuner has to react to
+export const gpuEventTypes = ["driverReset", "thermalLimit", "powerLimit"] as const;
+export type GpuEventType = typeof gpuEventTypes[number];
+
+export interface GpuEvent {
+  deviceId: string;
+  event: GpuEventType;
+  message: string;
+  timestamp: number;
+}
+
+const deviceParams = z.object({ deviceId: z.string().min(1).max(100) });
+
+export const gpuAgentParamSchemas = {
+  "agent.hello": z.object({}).optional(),
+  "gpu.list": z.object({}).optional(),
+  "gpu.getTelemetry": deviceParams,
+  "gpu.getSettings": deviceParams,
+  "gpu.setSettings": deviceParams.extend({ settings: gpuSettingsSchema }),
+  "gpu.resetSettings": deviceParams,
+  "telemetry.subscribe": z.object({
+    deviceIds: z.array(z.string().min(1).max(100)).max(16).optional(),
+    intervalMs: z.number().int().min(250).max(60_000).default(2000),
+  }),
+  "telemetry.unsubscribe": z.object({ subscriptionId: z.string().min(1).max(100) }),
+};
+
+export interface GpuAgentResults {
+  "agent.hello": AgentInfo;
+  "gpu.list": { devices: GpuDevice[] };
+  "gpu.getTelemetry": GpuTelemetry;
+  "gpu.getSettings": GpuSettings;
+  "gpu.setSettings": GpuSettings;
+  "gpu.resetSettings": GpuSettings;
+  "telemetry.subscribe": { subscriptionId: string };
+  "telemetry.unsubscribe": { subscribed: false };
+}
+
+export type GpuAgentMethod = keyof GpuAgentResults;
+export type GpuAgentParams<M extends GpuAgentMethod> = z.input<typeof gpuAgentParamSchemas[M]>;
+
+export interface GpuAgentNotifications {
+  "telemetry.update": { subscriptionId: string; samples: GpuTelemetry[] };
+  "gpu.event": GpuEvent;
+}
+
+export type JsonRpcId = string | number | null;
+
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id?: JsonRpcId;
+  method: string;
+  params?: unknown;
+}
+
+export type JsonRpcResponse =
+  | { jsonrpc: "2.0"; id: JsonRpcId; result: unknown }
+  | { jsonrpc: "2.0"; id: JsonRpcId; error: { code: number; message: string; data?: unknown } };
+
+// Checks settings against what the device reports before anything reaches a
+// driver; the agent answers with this error, and the tuner can show it early
+export function validateGpuSettings(device: GpuDevice, settings: GpuSettings): GpuAgentError | null {
+  const { performanceLevel, ...values } = settings;
+  for (const [control, value] of Object.entries(values) as Array<[GpuControl, number | null | undefined]>) {
+    if (value === undefined) continue;
+    const range = device.capabilities.controls[control];
+    if (!range) {
+      return new GpuAgentError(gpuAgentErrorCodes.unsupported, `${device.name} does not support setting ${control}`, { control });
+    }
+    if (value === null) {
+      if (control !== "fanSpeed") {
+        return new GpuAgentError(gpuAgentErrorCodes.invalidParams, `${control} cannot be automatic`, { control });
+      }
+      continue;
+    }
+    if (value < range.min || value > range.max) {
+      return new GpuAgentError(
+        gpuAgentErrorCodes.outOfRange,
+        `${control} must be between ${range.min} and ${range.max} ${gpuControlUnits[control]}`,
+        { control, min: range.min, max: range.max },
+      );
+    }
+  }
+  if (performanceLevel !== undefined && !device.capabilities.performanceLevels.includes(performanceLevel)) {
+    return new GpuAgentError(gpuAgentErrorCodes.unsupported, `${device.name} has no performance level "${performanceLevel}"`, { control: "performanceLevel" });
+  }
+  return null;
+}
@@ -0,0 +1,53 @@
+import type { GpuDevice, GpuSettings } from "./gpuAgent";
+
+// Vendor presets of the GPU Tuner panels as agent settings. They are worked
+// out from the limits a device reports, so each card gets values its driver
+// accepts, and leave out controls the device does not have.
+
+export const amdPresets = ["Gaming", "Silent", "Performance"] as const;
+export type AmdPreset = typeof amdPresets[number];
+
+// Share of the default power cap the Silent preset runs at
+const SILENT_POWER_SHARE = 0.8;
+
+// Gaming is the card's stock behavior. Silent caps power below stock so the
+// automatic fan curve has less heat to move; Performance raises the cap to
+// the most the board allows and holds the highest clock level.
+export function amdPresetSettings(preset: AmdPreset, device: GpuDevice): GpuSettings {
+  const { controls, performanceLevels } = device.capabilities;
+  const settings: GpuSettings = {};
+
+  const power = controls.powerLimit;
+  if (power) {
+    const stock = power.default ?? power.max;
+    settings.powerLimit = preset === "Performance" ? power.max
+      : preset === "Silent" ? Math.max(power.min, Math.round(stock * SILENT_POWER_SHARE / power.step) * power.step)
+      : stock;
+  }
+  if (controls.fanSpeed) settings.fanSpeed = null;
+
+  const level = preset === "Performance" ? "high" : "auto";
+  if (performanceLevels.includes(level)) settings.performanceLevel = level;
+  return settings;
+}
+
+export const intelPowerProfiles = ["balanced", "performance", "power-saver"] as const;
+export type IntelPowerProfile = typeof intelPowerProfiles[number];
+
+// GT frequency limits of the Intel panel's power profiles: the driver's full
+// range for balanced, the floor raised to the top clock for performance, and
+// the ceiling halfway down for power saving. Boost follows the ceiling.
+export function intelProfileSettings(profile: IntelPowerProfile, device: GpuDevice): GpuSettings {
+  const { coreClockMin: min, coreClockMax: max, coreClockBoost: boost } = device.capabilities.controls;
+  const settings: GpuSettings = {};
+  const top = max?.default ?? max?.max;
+  const floor = min?.default ?? min?.min;
+  if (min && floor != null) settings.coreClockMin = profile === "performance" && top != null ? Math.min(top, min.max) : floor;
+  if (max && top != null) {
+    settings.coreClockMax = profile === "power-saver" && floor != null
+      ? Math.round((floor + (top - floor) / 2) / max.step) * max.step
+      : top;
+  }
+  if (boost && settings.coreClockMax != null) settings.coreClockBoost = Math.max(boost.min, settings.coreClockMax);
+  return settings;
+}
@@ -0,0 +1,69 @@
+import { z } from "zod";
+import { gpuSettingsSchema, type GpuControl, type GpuSettings } from "./gpuAgent";
+
+// Guarded GPU tuning, shared by server/gpuTuning.ts and the GPU Tuner. An
+// attempt is checked against the limits the device reports, applied in small
+// steps, then kept only if the user confirms it within the confirmation
+// window. A missed window, a driver reset or a thermal limit puts the
+// settings from before the attempt back.
+
+export const gpuTuningStatuses = [
+  "applying",
+  "confirming",
+  "confirmed",
+  "reverted",
+  // Refused before anything was applied
+  "rejected",
+  // The previous settings could not be restored
+  "failed",
+] as const;
+export type GpuTuningStatus = typeof gpuTuningStatuses[number];
+
+export const activeGpuTuningStatuses: GpuTuningStatus[] = ["applying", "confirming"];
+
+export const gpuTuningRevertReasons = ["timeout", "declined", "driverReset", "thermalLimit", "applyFailed", "interrupted"] as const;
+export type GpuTuningRevertReason = typeof gpuTuningRevertReasons[number];
+
+export const gpuTuningRevertLabels: Record<GpuTuningRevertReason, string> = {
+  timeout: "Not confirmed in time",
+  declined: "Reverted by you",
+  driverReset: "Driver reset",
+  thermalLimit: "Thermal limit reached",
+  applyFailed: "A step could not be applied",
+  interrupted: "Server restarted",
+};
+
+// The most a control goes up in one step; lowering anything is done at once
+export const gpuTuningStepLimits: Partial<Record<GpuControl, number>> = {
+  coreClockOffset: 50,
+  memoryClockOffset: 100,
+  coreClockMin: 100,
+  coreClockMax: 100,
+  coreClockBoost: 100,
+  memoryClockMax: 100,
+  powerLimit: 15,
+};
+
+// Whether `next` raises a clock or power control above `current`, or holds
+// the highest clock level. The panels send such changes through guarded
+// tuning; everything else is written directly.
+export function raisesClocksOrPower(current: GpuSettings, next: GpuSettings): boolean {
+  if (next.performanceLevel === "high" && current.performanceLevel !== "high") return true;
+  return (Object.keys(gpuTuningStepLimits) as GpuControl[]).some((control) => {
+    const from = current[control];
+    const to = next[control];
+    return typeof to === "number" && (typeof from !== "number" || to > from);
+  });
+}
+
+export const startGpuTuningSchema = z.object({
+  settings: gpuSettingsSchema.refine(settings => Object.values(settings).some(value => value !== undefined), {
+    message: "Choose at least one setting to apply",
+  }),
+  confirmWindowSec: z.number().int().min(5).max(120).default(20),
+});
+export type StartGpuTuningRequest = z.infer<typeof startGpuTuningSchema>;
+
+export const gpuTuningHistorySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
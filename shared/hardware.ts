@@ -0,0 +1,25 @@
+// What the server could find out about the machine it runs on, from /proc and
+// /sys (server/hardware.ts). Fields are null when the host does not expose them.
+
+export const gpuVendors = ["amd", "nvidia", "intel", "unknown"] as const;
+export type GpuVendor = typeof gpuVendors[number];
+
+// PCI vendor IDs as found in /sys/class/drm/card*/device/vendor
+export const pciGpuVendors: Record<string, GpuVendor> = {
+  "0x1002": "amd",
+  "0x10de": "nvidia",
+  "0x8086": "intel",
+};
+
+export interface GpuInfo {
+  card: string; // "card0"
+  vendor: GpuVendor;
+  driver: string | null; // kernel driver, e.g. "amdgpu" or "nvidia"
+}
+
+export interface HardwareInfo {
+  cpuModel: string | null;
+  cpuThreads: number | null;
+  memoryGb: number | null;
+  gpus: GpuInfo[];
+}
@@ -0,0 +1,38 @@
+import { z } from "zod";
+
+// Optimization jobs, shared by server/jobs.ts and the optimizer pages. A job
+// runs one registered task (server/optimizationTasks.ts); progress is pushed on
+// the `jobs` realtime topic and the finished job is kept as history.
+
+export const jobStatuses = ["queued", "running", "succeeded", "failed", "cancelled"] as const;
+export type JobStatus = typeof jobStatuses[number];
+
+export const finishedJobStatuses: JobStatus[] = ["succeeded", "failed", "cancelled"];
+
+export interface JobResult {
+  summary: string; // "Freed 1.2 GB", shown as is
+  bytesFreed?: number;
+  itemsChanged?: number;
+  items?: string[]; // what was changed, one line each
+  snapshotId?: string; // taken before the task changed anything
+}
+
+export interface OptimizationTaskInfo {
+  id: string;
+  title: string;
+  description: string;
+  steps: string[];
+  // Why the task cannot run on this host, if it cannot
+  unavailableReason: string | null;
+}
+
+export const createJobSchema = z.object({
+  task: z.string().min(1).max(50),
+  params: z.unknown().optional(), // validated by the task
+});
+export type CreateJobRequest = z.infer<typeof createJobSchema>;
+
+export const jobHistorySchema = z.object({
+  task: z.string().max(50).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
@@ -0,0 +1,46 @@
+import { z } from "zod";
+
+// Latency probes of the Network Latency Tester, shared by
+// server/latencyProbes.ts and the Network Booster. Runs are stored in
+// `latency_probes` and streamed on the `probes` realtime topic.
+
+export const probeMethods = ["tcp", "icmp"] as const;
+export type ProbeMethod = typeof probeMethods[number];
+export type ProbeStatus = "running" | "completed" | "cancelled" | "failed";
+
+// A host name or an IPv4/IPv6 address; what it resolves to is checked on the server
+export const probeTarget = z.string().trim().toLowerCase().min(1).max(253)
+  .regex(/^([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)*[a-z0-9]([a-z0-9-]*[a-z0-9])?$|^[0-9a-f:.]+$/, "Not a host name or address");
+
+export const startProbeSchema = z.object({
+  target: probeTarget,
+  method: z.enum(probeMethods).default("tcp"),
+  // TCP only: the port whose connect time is measured
+  port: z.number().int().min(1).max(65535).default(443),
+  count: z.number().int().min(1).max(100).default(20),
+  intervalMs: z.number().int().min(200).max(5000).default(500),
+  timeoutMs: z.number().int().min(100).max(5000).default(2000),
+});
+export type StartProbeRequest = z.infer<typeof startProbeSchema>;
+
+export const probeHistorySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export interface ProbeSample {
+  seq: number;
+  // Round-trip time in ms, or null for a lost probe
+  rtt: number | null;
+}
+
+// Times are in ms and null until something was received
+export interface ProbeSummary {
+  sent: number;
+  received: number;
+  lossRate: number; // 0-1
+  min: number | null;
+  avg: number | null;
+  max: number | null;
+  // Smoothed difference between consecutive round trips, as in RFC 3550
+  jitter: number | null;
+}
@@ -0,0 +1,74 @@
+import { z } from "zod";
+
+// Types for /api/processes, shared by server/processes.ts and the System
+// Optimizer's process manager.
+
+export const processSortKeys = ["pid", "name", "user", "cpu", "memory"] as const;
+export type ProcessSortKey = typeof processSortKeys[number];
+
+// Nice values behind "lower priority" and "raise priority"; raising needs root
+export const LOWER_PRIORITY_NICE = 10;
+export const RAISE_PRIORITY_NICE = -5;
+
+export const processSignals = ["SIGTERM", "SIGKILL"] as const;
+export type ProcessSignal = typeof processSignals[number];
+
+export interface ProcessEntry {
+  pid: number;
+  ppid: number;
+  name: string; // /proc/<pid>/comm, at most 15 characters
+  command: string; // full command line, empty for kernel threads
+  user: string; // user name, or the numeric uid when /etc/passwd has none
+  cpuPercent: number; // share of all CPUs since the previous listing
+  rssBytes: number;
+  nice: number;
+  // Why the process cannot be killed or reniced from here, if it cannot
+  protectedReason: string | null;
+}
+
+export interface ProcessListResponse {
+  processes: ProcessEntry[];
+  total: number; // matches before the limit
+}
+
+export const processQuerySchema = z.object({
+  sort: z.enum(processSortKeys).default("cpu"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  q: z.string().trim().max(100).optional(), // name or command line contains
+  user: z.string().trim().max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(200),
+});
+export type ProcessQuery = z.infer<typeof processQuerySchema>;
+
+// The name guards against the pid having been reused since the list was read
+const processTargetSchema = z.object({
+  pid: z.number().int().positive(),
+  name: z.string().min(1).max(255),
+});
+
+// Actions only run when the client says the user confirmed them
+const confirmed = z.literal(true, {
+  errorMap: () => ({ message: "Confirm the action before it is applied" }),
+});
+
+export const killProcessesSchema = z.object({
+  processes: z.array(processTargetSchema).min(1).max(50),
+  signal: z.enum(processSignals).default("SIGTERM"),
+  confirm: confirmed,
+});
+
+export const reniceProcessesSchema = z.object({
+  processes: z.array(processTargetSchema).min(1).max(50),
+  nice: z.number().int().min(-20).max(19),
+  confirm: confirmed,
+});
+
+export type KillProcessesRequest = z.infer<typeof killProcessesSchema>;
+export type ReniceProcessesRequest = z.infer<typeof reniceProcessesSchema>;
+
+export interface ProcessActionResult {
+  pid: number;
+  name: string;
+  ok: boolean;
+  error?: string;
+}
@@ -0,0 +1,68 @@
+import { z } from "zod";
+import { gameProfileSchema, gameProfileSettingsSchema } from "./gameProfiles";
+
+// Portable game profile documents, for moving a profile between machines.
+//
+//   {
+//     "format": "nexus-game-profile",
+//     "version": 2,
+//     "exportedAt": "2024-05-01T20:00:00.000Z",
+//     "profile": { "name": "Valorant", "icon": "fas fa-gun", "settings": { ...GameProfileSettings } }
+//   }
+//
+// Version 1 is the shape profiles had before settings were typed: `settings`
+// was a JSON string holding only `priority` and `optimization`. Older
+// documents are migrated forward on import (server/profileShare.ts); a newer
+// version than this build knows is rejected.
+//
+// A share code packs the same document into one pasteable line:
+// "NXP1." + base64url(deflate-raw(JSON)) + "." + checksum, where the checksum
+// is the first 8 base64url characters of the SHA-256 of the compressed bytes.
+
+export const PROFILE_FORMAT = "nexus-game-profile";
+export const PROFILE_FORMAT_VERSION = 2;
+export const SHARE_CODE_PREFIX = "NXP1";
+
+export const profileDocumentSchema = z.object({
+  format: z.literal(PROFILE_FORMAT),
+  version: z.literal(PROFILE_FORMAT_VERSION),
+  exportedAt: z.string().datetime().optional(),
+  profile: gameProfileSchema.extend({
+    settings: gameProfileSettingsSchema,
+  }),
+});
+export type ProfileDocument = z.infer<typeof profileDocumentSchema>;
+
+// Exactly one of code or document
+export const profileImportSchema = z.object({
+  code: z.string().trim().min(1).optional(),
+  document: z.unknown().optional(),
+  // Overwrite one of the user's profiles instead of creating a new one
+  replaceId: z.string().optional(),
+  name: gameProfileSchema.shape.name.optional(),
+}).refine(body => (body.code === undefined) !== (body.document === undefined), {
+  message: "Provide either a share code or a profile document",
+});
+export type ProfileImportRequest = z.infer<typeof profileImportSchema>;
+
+export interface ProfileExport {
+  document: ProfileDocument;
+  code: string;
+}
+
+export interface ProfileChange {
+  path: string; // "name", "settings.network.qos"
+  current: unknown;
+  incoming: unknown;
+}
+
+export interface ProfileImportPreview {
+  document: ProfileDocument;
+  // The version the input was written in, before migration
+  sourceVersion: number;
+  // Dotted paths present in the input that this version does not understand; they are not imported
+  unknownFields: string[];
+  // The user's or default profile with the same name, if any, and how the import differs from it
+  existing: { id: string; name: string; readOnly: boolean } | null;
+  changes: ProfileChange[];
+}
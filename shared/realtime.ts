@@ -0,0 +1,78 @@
+import { z } from "zod";
+import type { Alert, GamingSession, GpuTuningAttempt, LatencyProbe, OptimizationJob, SystemStats, UdpTest } from "./schema";
+import type { ProbeSample } from "./latency";
+import type { GpuEvent, GpuTelemetry } from "./gpuAgent";
+
+// WebSocket protocol shared by server/realtime.ts and client/src/lib/realtime.ts.
+// Every server message is `{ type, data }`; messages published on a topic also
+// carry a per-user `seq` so a reconnecting client can ask for what it missed by
+// connecting to `/ws?token=…&topics=stats,alerts&streamId=…&lastSeq=…`.
+
+export const REALTIME_PATH = "/ws";
+export const HEARTBEAT_INTERVAL_MS = 15_000;
+
+export const realtimeTopics = ["stats", "alerts", "jobs", "games", "probes", "gpu"] as const;
+export type RealtimeTopic = typeof realtimeTopics[number];
+
+export interface AlertMessage {
+  event: "triggered" | "resolved";
+  alert: Alert;
+}
+
+// A detected game started or exited; profileId is the profile it activated
+export interface GameSessionMessage {
+  event: "started" | "ended";
+  session: GamingSession;
+  profileId: string | null;
+}
+
+// The job as stored after each change of status or step
+export type JobProgressMessage = OptimizationJob;
+
+// The probe after each reply or timeout; `sample` is the one just measured
+// and is absent once the run has finished
+export interface ProbeProgressMessage {
+  probe: LatencyProbe;
+  sample?: ProbeSample;
+}
+
+export interface ServerMessageMap {
+  welcome: { streamId: string; lastSeq: number; heartbeatIntervalMs: number };
+  subscribed: { topics: RealtimeTopic[] };
+  heartbeat: { timestamp: number };
+  // Replay was not possible (server restarted or the gap is too old); refetch over REST
+  resync: { reason: string };
+  error: { message: string };
+  systemStats: SystemStats;
+  alert: AlertMessage;
+  gameSession: GameSessionMessage;
+  jobProgress: JobProgressMessage;
+  probeProgress: ProbeProgressMessage;
+  // The UDP test about once a second while it runs, and once it has finished
+  udpTestProgress: UdpTest;
+  // Every device the GPU agent reports, once per telemetry interval
+  gpuTelemetry: GpuTelemetry[];
+  gpuEvent: GpuEvent;
+  // The user's tuning attempt after each step and change of status
+  gpuTuning: GpuTuningAttempt;
+}
+
+export type ServerMessageType = keyof ServerMessageMap;
+
+export type ServerMessage = {
+  [K in ServerMessageType]: { type: K; data: ServerMessageMap[K]; topic?: RealtimeTopic; seq?: number };
+}[ServerMessageType];
+
+export type ClientMessage =
+  | { type: "subscribe"; topics: RealtimeTopic[] }
+  | { type: "unsubscribe"; topics: RealtimeTopic[] }
+  | { type: "ping" };
+
+// What the server accepts from a client; topics it does not know are ignored
+// rather than refused, so older servers keep working with newer clients
+const topicList = z.array(z.string().max(50)).max(realtimeTopics.length * 2);
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("subscribe"), topics: topicList }),
+  z.object({ type: z.literal("unsubscribe"), topics: topicList }),
+  z.object({ type: z.literal("ping") }),
+]);
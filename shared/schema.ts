@@ -1,7 +1,16 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, boolean, timestamp, json } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, boolean, timestamp, json, index, uniqueIndex, real } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { MetricSummaries, RollupResolution, StatsMetric } from "./statsHistory";
+import type { AlertOperator, AlertSeverity } from "./alerts";
+import type { GameProfileSettings } from "./gameProfiles";
+import type { JobResult, JobStatus } from "./jobs";
+import type { SnapshotData, SnapshotManifest } from "./snapshots";
+import type { ProbeMethod, ProbeSample, ProbeStatus, ProbeSummary } from "./latency";
+import type { UdpTestSummary } from "./udpTest";
+import type { GpuSettings } from "./gpuAgent";
+import type { GpuTuningRevertReason, GpuTuningStatus } from "./gpuTuning";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -12,6 +21,8 @@ export const users = pgTable("users", {
   lastLogin: timestamp("last_login"),
   twoFactorSecret: text("two_factor_secret"),
   twoFactorEnabled: boolean("two_factor_enabled").default(false),
+  twoFactorPendingSecret: text("two_factor_pending_secret"),
+  twoFactorLastUsedStep: integer("two_factor_last_used_step"),
   isLocked: boolean("is_locked").default(false),
   lockoutUntil: timestamp("lockout_until"),
   failedLoginAttempts: integer("failed_login_attempts").default(0),
@@ -38,6 +49,14 @@ export const passwordResets = pgTable("password_resets", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const securityLogs = pgTable("security_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
@@ -62,15 +81,178 @@ export const systemStats = pgTable("system_stats", {
   networkDownload: integer("network_download").notNull(),
   fps: integer("fps").notNull(),
   timestamp: timestamp("timestamp").defaultNow(),
-});
+}, (table) => ({
+  timestampIdx: index("system_stats_timestamp_idx").on(table.timestamp),
+}));
 
+// Per-minute and per-hour summaries of system_stats, kept longer than the raw samples
+export const systemStatsRollups = pgTable("system_stats_rollups", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id),
+  resolution: text("resolution").$type<RollupResolution>().notNull(),
+  bucketStart: timestamp("bucket_start").notNull(),
+  sampleCount: integer("sample_count").notNull(),
+  metrics: json("metrics").$type<MetricSummaries>().notNull(),
+}, (table) => ({
+  bucketIdx: index("system_stats_rollups_bucket_idx").on(table.resolution, table.bucketStart),
+}));
+
+// Profiles without a user are shared read-only templates that users duplicate
 export const gameProfiles = pgTable("game_profiles", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id),
   name: text("name").notNull(),
   icon: text("icon").notNull(),
   isActive: boolean("is_active").default(false),
-  settings: text("settings").notNull(), // JSON string
+  settings: json("settings").$type<GameProfileSettings>().notNull(),
+}, (table) => ({
+  oneActiveIdx: uniqueIndex("game_profiles_one_active_idx").on(table.userId).where(sql`${table.isActive}`),
+}));
+
+// A stretch of play, shown on the dashboard charts; endedAt is null while the game runs
+export const gamingSessions = pgTable("gaming_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id),
+  gameProfileId: varchar("game_profile_id").references(() => gameProfiles.id, { onDelete: "set null" }),
+  gameName: text("game_name").notNull(),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  endedAt: timestamp("ended_at"),
+}, (table) => ({
+  startedAtIdx: index("gaming_sessions_started_at_idx").on(table.startedAt),
+}));
+
+// "gpuTemp > 83 for 30s", optionally only while a game profile is active
+export const alertRules = pgTable("alert_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  metric: text("metric").$type<StatsMetric>().notNull(),
+  operator: text("operator").$type<AlertOperator>().notNull(),
+  threshold: real("threshold").notNull(),
+  forSeconds: integer("for_seconds").default(0).notNull(),
+  // How far back past the threshold the value must go before the alert resolves
+  hysteresis: real("hysteresis").default(0).notNull(),
+  cooldownSeconds: integer("cooldown_seconds").default(300).notNull(),
+  severity: text("severity").$type<AlertSeverity>().default("warning").notNull(),
+  whileProfileActive: boolean("while_profile_active").default(false).notNull(),
+  enabled: boolean("enabled").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One firing of a rule; resolvedAt is set once the value recovers
+export const alerts = pgTable("alerts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  ruleId: varchar("rule_id").references(() => alertRules.id, { onDelete: "set null" }),
+  ruleName: text("rule_name").notNull(),
+  severity: text("severity").$type<AlertSeverity>().notNull(),
+  metric: text("metric").$type<StatsMetric>().notNull(),
+  threshold: real("threshold").notNull(),
+  value: real("value").notNull(), // when it triggered
+  peakValue: real("peak_value").notNull(),
+  message: text("message").notNull(),
+  triggeredAt: timestamp("triggered_at").defaultNow().notNull(),
+  resolvedAt: timestamp("resolved_at"),
+}, (table) => ({
+  userTriggeredIdx: index("alerts_user_triggered_idx").on(table.userId, table.triggeredAt),
+}));
+
+// One run of an optimization task; rows stay as the user's job history
+export const optimizationJobs = pgTable("optimization_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  task: varchar("task", { length: 50 }).notNull(),
+  params: json("params"),
+  status: varchar("status", { length: 20 }).$type<JobStatus>().default("queued").notNull(),
+  progress: integer("progress").default(0).notNull(),
+  step: text("step"),
+  result: json("result").$type<JobResult>(),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+}, (table) => ({
+  userCreatedIdx: index("optimization_jobs_user_created_idx").on(table.userId, table.createdAt),
+}));
+
+export const systemSnapshots = pgTable("system_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  label: varchar("label", { length: 100 }).notNull(),
+  manifest: json("manifest").$type<SnapshotManifest>().notNull(),
+  data: json("data").$type<SnapshotData>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userCreatedIdx: index("system_snapshots_user_created_idx").on(table.userId, table.createdAt),
+}));
+
+// One run of the latency tester; `address` is what the target resolved to
+export const latencyProbes = pgTable("latency_probes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  target: varchar("target", { length: 253 }).notNull(),
+  address: varchar("address", { length: 64 }).notNull(),
+  method: varchar("method", { length: 10 }).$type<ProbeMethod>().notNull(),
+  port: integer("port"),
+  status: varchar("status", { length: 20 }).$type<ProbeStatus>().default("running").notNull(),
+  samples: json("samples").$type<ProbeSample[]>().default([]).notNull(),
+  summary: json("summary").$type<ProbeSummary>().notNull(),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => ({
+  userCreatedIdx: index("latency_probes_user_created_idx").on(table.userId, table.createdAt),
+}));
+
+// One run of the UDP loss and jitter test against an echo responder
+export const udpTests = pgTable("udp_tests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  target: varchar("target", { length: 253 }).notNull(),
+  address: varchar("address", { length: 64 }).notNull(),
+  port: integer("port").notNull(),
+  rate: integer("rate").notNull(),
+  size: integer("size").notNull(),
+  durationSec: integer("duration_sec").notNull(),
+  status: varchar("status", { length: 20 }).$type<ProbeStatus>().default("running").notNull(),
+  summary: json("summary").$type<UdpTestSummary>().notNull(),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => ({
+  userCreatedIdx: index("udp_tests_user_created_idx").on(table.userId, table.createdAt),
+}));
+
+// One guarded apply of GPU settings. `previous` is what the device ran
+// before the attempt and what a revert restores; `message` says why an
+// attempt was rejected, reverted or failed.
+export const gpuTuningAttempts = pgTable("gpu_tuning_attempts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  deviceId: varchar("device_id", { length: 100 }).notNull(),
+  deviceName: varchar("device_name", { length: 200 }).notNull(),
+  previous: json("previous").$type<GpuSettings>().notNull(),
+  requested: json("requested").$type<GpuSettings>().notNull(),
+  stepsTotal: integer("steps_total").notNull(),
+  stepsApplied: integer("steps_applied").default(0).notNull(),
+  confirmWindowSec: integer("confirm_window_sec").notNull(),
+  status: varchar("status", { length: 20 }).$type<GpuTuningStatus>().default("applying").notNull(),
+  revertReason: varchar("revert_reason", { length: 20 }).$type<GpuTuningRevertReason>(),
+  message: text("message"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  confirmBy: timestamp("confirm_by"),
+  finishedAt: timestamp("finished_at"),
+}, (table) => ({
+  userCreatedIdx: index("gpu_tuning_attempts_user_created_idx").on(table.userId, table.createdAt),
+}));
+
+// Kernel parameter values from before the optimizer first changed them; a
+// revert writes them back and removes the rows. Host-wide, so not per user.
+export const sysctlBaselines = pgTable("sysctl_baselines", {
+  key: varchar("key", { length: 200 }).primaryKey(),
+  value: text("value").notNull(),
+  capturedBy: varchar("captured_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const chatMessages = pgTable("chat_messages", {
@@ -82,7 +264,7 @@ export const chatMessages = pgTable("chat_messages", {
 });
 
 // User authentication schemas
-export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true, lastLogin: true, twoFactorSecret: true, twoFactorEnabled: true, isLocked: true, lockoutUntil: true, failedLoginAttempts: true });
+export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true, lastLogin: true, twoFactorSecret: true, twoFactorEnabled: true, twoFactorPendingSecret: true, twoFactorLastUsedStep: true, isLocked: true, lockoutUntil: true, failedLoginAttempts: true });
 export const loginUserSchema = z.object({
   username: z.string().min(3).max(50),
   password: z.string().min(6),
@@ -91,6 +273,7 @@ export const loginUserSchema = z.object({
 // Password reset schemas
 export const insertPasswordResetSchema = createInsertSchema(passwordResets).omit({ id: true, createdAt: true, used: true });
 export const insertSecurityLogSchema = createInsertSchema(securityLogs).omit({ id: true, timestamp: true });
+export const insertRecoveryCodeSchema = createInsertSchema(recoveryCodes).omit({ id: true, usedAt: true, createdAt: true });
 
 // User settings schemas
 export const insertUserSettingsSchema = createInsertSchema(userSettings).omit({ id: true, updatedAt: true });
@@ -98,7 +281,7 @@ export const updateUserSettingsSchema = insertUserSettingsSchema.omit({ userId:
 
 // Existing schemas with user references
 export const insertSystemStatsSchema = createInsertSchema(systemStats).omit({ id: true, timestamp: true });
-export const insertGameProfileSchema = createInsertSchema(gameProfiles).omit({ id: true });
+export const insertGamingSessionSchema = createInsertSchema(gamingSessions).omit({ id: true, endedAt: true });
 export const insertChatMessageSchema = createInsertSchema(chatMessages).omit({ id: true, timestamp: true });
 
 // Type exports
@@ -106,17 +289,46 @@ export type User = typeof users.$inferSelect;
 export type UserSettings = typeof userSettings.$inferSelect;
 export type PasswordReset = typeof passwordResets.$inferSelect;
 export type SecurityLog = typeof securityLogs.$inferSelect;
+export type RecoveryCode = typeof recoveryCodes.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type LoginUser = z.infer<typeof loginUserSchema>;
 export type InsertPasswordReset = z.infer<typeof insertPasswordResetSchema>;
 export type InsertSecurityLog = z.infer<typeof insertSecurityLogSchema>;
+export type InsertRecoveryCode = z.infer<typeof insertRecoveryCodeSchema>;
 export type InsertUserSettings = z.infer<typeof insertUserSettingsSchema>;
 export type UpdateUserSettings = z.infer<typeof updateUserSettingsSchema>;
 
 export type InsertSystemStats = z.infer<typeof insertSystemStatsSchema>;
-export type InsertGameProfile = z.infer<typeof insertGameProfileSchema>;
+// Rollups are written by the server only, so there is no request schema
+export type InsertSystemStatsRollup = Omit<typeof systemStatsRollups.$inferInsert, "id">;
+// Profiles are validated with gameProfileSchema in shared/gameProfiles.ts
+export type InsertGameProfile = Omit<typeof gameProfiles.$inferInsert, "id">;
+export type InsertGamingSession = z.infer<typeof insertGamingSessionSchema>;
+// Rules are validated with alertRuleSchema in shared/alerts.ts and alerts are written by the server only
+export type InsertAlertRule = Omit<typeof alertRules.$inferInsert, "id" | "createdAt">;
+export type InsertAlert = Omit<typeof alerts.$inferInsert, "id" | "resolvedAt">;
+// Jobs are created by the server from createJobSchema in shared/jobs.ts
+export type InsertOptimizationJob = Omit<typeof optimizationJobs.$inferInsert, "id">;
+// Snapshots are captured by the server from the host, never sent by clients
+export type InsertSystemSnapshot = Omit<typeof systemSnapshots.$inferInsert, "id">;
+export type InsertSysctlBaseline = typeof sysctlBaselines.$inferInsert;
+// Probes are started by the server from startProbeSchema in shared/latency.ts
+export type InsertLatencyProbe = Omit<typeof latencyProbes.$inferInsert, "id">;
+export type InsertUdpTest = Omit<typeof udpTests.$inferInsert, "id">;
+// Attempts are started by the server from startGpuTuningSchema in shared/gpuTuning.ts
+export type InsertGpuTuningAttempt = Omit<typeof gpuTuningAttempts.$inferInsert, "id">;
 export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
 
 export type SystemStats = typeof systemStats.$inferSelect;
+export type SystemStatsRollup = typeof systemStatsRollups.$inferSelect;
 export type GameProfile = typeof gameProfiles.$inferSelect;
+export type GamingSession = typeof gamingSessions.$inferSelect;
+export type AlertRule = typeof alertRules.$inferSelect;
+export type Alert = typeof alerts.$inferSelect;
+export type OptimizationJob = typeof optimizationJobs.$inferSelect;
+export type SystemSnapshot = typeof systemSnapshots.$inferSelect;
+export type SysctlBaseline = typeof sysctlBaselines.$inferSelect;
+export type LatencyProbe = typeof latencyProbes.$inferSelect;
+export type UdpTest = typeof udpTests.$inferSelect;
+export type GpuTuningAttempt = typeof gpuTuningAttempts.$inferSelect;
 export type ChatMessage = typeof chatMessages.$inferSelect;
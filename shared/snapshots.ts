@@ -0,0 +1,57 @@
+import { z } from "zod";
+
+// System snapshots ("Create System Backup"), shared by server/snapshots.ts and
+// the System Optimizer. A snapshot records the current value of every key of
+// every state source (sysctl values, config files, user services, app
+// settings) so it can be compared with the host later and restored.
+
+// Bumped when the layout of manifest or data changes
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+export interface SnapshotManifest {
+  formatVersion: number;
+  hostname: string;
+  kernel: string;
+  // A source that could not be read is listed with the reason and has no data
+  sources: { id: string; title: string; keys: number; error?: string }[];
+}
+
+// Source id, then key, then the JSON value; null means "absent"
+export type SnapshotData = Record<string, Record<string, unknown>>;
+
+export interface SnapshotSourceInfo {
+  id: string;
+  title: string;
+}
+
+// One key whose value differs between the snapshot and the host now
+export interface SnapshotChange {
+  source: string;
+  key: string;
+  snapshot: unknown;
+  current: unknown;
+}
+
+export interface SnapshotDiff {
+  changes: SnapshotChange[];
+  // Sources whose current state cannot be read, so nothing is known to differ
+  unavailable: { source: string; error: string }[];
+}
+
+export const createSnapshotSchema = z.object({
+  label: z.string().trim().min(1).max(100).optional(),
+  // Every source when left out
+  sources: z.array(z.string().min(1).max(50)).min(1).optional(),
+});
+export type CreateSnapshotRequest = z.infer<typeof createSnapshotSchema>;
+
+// Leaving both out restores every change; otherwise only the named sources
+// and keys are restored
+export const restoreSnapshotSchema = z.object({
+  sources: z.array(z.string().min(1).max(50)).min(1).optional(),
+  entries: z.array(z.object({
+    source: z.string().min(1).max(50),
+    key: z.string().min(1).max(500),
+  })).min(1).max(500).optional(),
+});
+export type RestoreSnapshotRequest = z.infer<typeof restoreSnapshotSchema>;
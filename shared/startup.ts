@@ -0,0 +1,38 @@
+import { z } from "zod";
+
+// Startup programs on Linux, shared by server/startup.ts and the System
+// Optimizer: XDG autostart entries (user and system) and systemd user units.
+
+export type StartupKind = "autostart" | "service";
+export type StartupImpact = "high" | "medium" | "low";
+
+export interface StartupItem {
+  // "autostart:<file>.desktop" or "service:<unit>"
+  id: string;
+  kind: StartupKind;
+  name: string;
+  description: string;
+  command: string | null;
+  enabled: boolean;
+  // Autostart entries: installed system-wide, the user's own, or a system
+  // entry the user's folder overrides
+  origin: "system" | "user" | "override" | null;
+  impact: StartupImpact;
+  impactReason: string;
+  // Safe to keep from starting at login while gaming
+  deferWhileGaming: boolean;
+  // Why the item must not be turned off, like protected processes
+  protectedReason: string | null;
+}
+
+export const setStartupItemSchema = z.object({
+  id: z.string().min(1).max(300),
+  enabled: z.boolean(),
+});
+export type SetStartupItemRequest = z.infer<typeof setStartupItemSchema>;
+
+// Params of the startupManager job: the items to turn off, or every enabled
+// item recommended for deferring
+export const deferStartupSchema = z.object({
+  ids: z.array(z.string().min(1).max(300)).min(1).max(100).optional(),
+}).default({});
@@ -0,0 +1,65 @@
+import { z } from "zod";
+import type { SystemStats } from "./schema";
+
+// Types for GET /api/system/stats/history, shared by server/statsHistory.ts
+// and the dashboard charts.
+
+export const statsMetrics = [
+  "cpuUsage", "cpuTemp", "gpuUsage", "gpuTemp", "ramUsed", "ramAvailable",
+  "networkPing", "networkUpload", "networkDownload", "fps",
+] as const;
+export type StatsMetric = typeof statsMetrics[number];
+
+// RAM figures are stored as strings
+export function metricValue(stats: SystemStats, metric: StatsMetric): number {
+  const value = stats[metric];
+  return typeof value === "string" ? parseFloat(value) : value;
+}
+
+export interface MetricSummary {
+  min: number;
+  avg: number;
+  max: number;
+  p95: number;
+}
+
+export type MetricSummaries = Record<StatsMetric, MetricSummary>;
+
+export interface StatsBucket {
+  start: string;
+  count: number; // raw samples behind the bucket
+  metrics: MetricSummaries;
+}
+
+export interface StatsHistoryResponse {
+  from: string;
+  to: string;
+  resolution: StatsResolution;
+  buckets: StatsBucket[]; // empty buckets are omitted
+}
+
+// Bucket sizes a client may ask for; each one is a whole number of the finer ones
+export const statsResolutions = {
+  "10s": 10_000,
+  "30s": 30_000,
+  "1m": 60_000,
+  "5m": 300_000,
+  "15m": 900_000,
+  "1h": 3_600_000,
+  "6h": 21_600_000,
+  "1d": 86_400_000,
+} as const;
+export type StatsResolution = keyof typeof statsResolutions;
+
+// Stored rollup tiers
+export const rollupResolutions = ["1m", "1h"] as const;
+export type RollupResolution = typeof rollupResolutions[number];
+
+export const MAX_HISTORY_BUCKETS = 1000;
+
+export const statsHistoryQuerySchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date().optional(),
+  resolution: z.enum(Object.keys(statsResolutions) as [StatsResolution, ...StatsResolution[]]).optional(),
+});
+export type StatsHistoryQuery = z.infer<typeof statsHistoryQuerySchema>;
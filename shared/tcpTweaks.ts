@@ -0,0 +1,58 @@
+import { z } from "zod";
+
+// Linux network stack tweaks of the Network Booster, shared by
+// server/tcpTweaks.ts and the page. Values are written as `sysctl -n` prints
+// them, so they compare equal to what is read back from /proc/sys.
+
+export const tcpTweakKeys = [
+  "net.core.default_qdisc",
+  "net.ipv4.tcp_congestion_control",
+  "net.ipv4.tcp_fastopen",
+  "net.ipv4.tcp_mtu_probing",
+  "net.ipv4.tcp_slow_start_after_idle",
+  "net.ipv4.tcp_notsent_lowat",
+  "net.core.rmem_max",
+  "net.core.wmem_max",
+  "net.ipv4.tcp_rmem",
+  "net.ipv4.tcp_wmem",
+] as const;
+export type TcpTweakKey = typeof tcpTweakKeys[number];
+
+export const tcpTweakInfo: Record<TcpTweakKey, { value: string; title: string; description: string }> = {
+  "net.core.default_qdisc": { value: "fq", title: "Fair queueing", description: "Paces packets per flow; BBR works best with it" },
+  "net.ipv4.tcp_congestion_control": { value: "bbr", title: "BBR congestion control", description: "Keeps router queues short, which keeps latency low" },
+  "net.ipv4.tcp_fastopen": { value: "3", title: "TCP Fast Open", description: "Sends data in the handshake, for outgoing and incoming connections" },
+  "net.ipv4.tcp_mtu_probing": { value: "1", title: "MTU probing", description: "Finds the packet size that fits when ICMP is blocked" },
+  "net.ipv4.tcp_slow_start_after_idle": { value: "0", title: "No slow start after idle", description: "Bursty traffic keeps its speed after a pause" },
+  "net.ipv4.tcp_notsent_lowat": { value: "16384", title: "Small send queue", description: "Less unsent data waits in the socket, so new data leaves sooner" },
+  "net.core.rmem_max": { value: "16777216", title: "Receive buffer limit", description: "Allows 16 MB socket receive buffers" },
+  "net.core.wmem_max": { value: "16777216", title: "Send buffer limit", description: "Allows 16 MB socket send buffers" },
+  "net.ipv4.tcp_rmem": { value: "4096 131072 16777216", title: "TCP receive buffers", description: "Minimum, default and maximum receive buffer" },
+  "net.ipv4.tcp_wmem": { value: "4096 65536 16777216", title: "TCP send buffers", description: "Minimum, default and maximum send buffer" },
+};
+
+export interface TcpTweakPreview {
+  key: TcpTweakKey;
+  title: string;
+  description: string;
+  // null when this kernel has no such parameter
+  current: string | null;
+  target: string;
+  // The value before the optimizer first changed it, which a revert restores
+  baseline: string | null;
+}
+
+export interface TcpTweakStatus {
+  tweaks: TcpTweakPreview[];
+  // Every parameter the kernel has is at its target value
+  applied: boolean;
+  dropIn: { path: string; exists: boolean };
+}
+
+export const applyTcpTweaksSchema = z.object({
+  // Every tweak when left out
+  keys: z.array(z.enum(tcpTweakKeys)).min(1).optional(),
+  // Also write the values to a sysctl.d drop-in so they survive a reboot
+  persist: z.boolean().default(false),
+}).default({});
+export type ApplyTcpTweaksRequest = z.infer<typeof applyTcpTweaksSchema>;
@@ -0,0 +1,62 @@
+import { z } from "zod";
+import { probeTarget } from "./latency";
+
+// UDP loss and jitter test of the Network Booster, shared by server/udpTest.ts
+// and the page. The server sends sequenced datagrams to a Nexus UDP echo
+// responder (`npm run udp-echo`, or UDP_ECHO_PORT next to the server), which
+// sends each one back unchanged.
+//
+// Datagram layout, big-endian:
+//   0  "NXUE"     magic
+//   4  u8         version (1)
+//   5  u8         kind: 0 hello, 1 data
+//   6  u16        reserved
+//   8  u32        test id, random per run
+//   12 u32        sequence number
+//   16 f64        send time in ms on the sender's clock
+//   24 …          zero padding up to the chosen size
+
+export const UDP_ECHO_MAGIC = "NXUE";
+export const UDP_ECHO_VERSION = 1;
+export const UDP_ECHO_HEADER_SIZE = 24;
+export const UDP_ECHO_DEFAULT_PORT = 9999;
+// Larger datagrams are dropped by the responder so it never sends fragments
+export const UDP_ECHO_MAX_SIZE = 1200;
+
+export const startUdpTestSchema = z.object({
+  target: probeTarget,
+  port: z.number().int().min(1).max(65535).default(UDP_ECHO_DEFAULT_PORT),
+  // Packets per second
+  rate: z.number().int().min(1).max(200).default(50),
+  size: z.number().int().min(UDP_ECHO_HEADER_SIZE).max(UDP_ECHO_MAX_SIZE).default(200),
+  durationSec: z.number().int().min(1).max(30).default(10),
+});
+export type StartUdpTestRequest = z.infer<typeof startUdpTestSchema>;
+
+export const udpTestHistorySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Upper bounds in ms of the jitter histogram buckets; the last bucket is open
+export const jitterBucketBounds = [1, 2, 5, 10, 20, 50];
+
+export interface JitterBucket {
+  fromMs: number;
+  toMs: number | null;
+  count: number;
+}
+
+export interface UdpTestSummary {
+  sent: number;
+  // Distinct packets that came back
+  received: number;
+  lossRate: number; // 0-1
+  // Packets that came back after one with a higher sequence number
+  outOfOrder: number;
+  duplicates: number;
+  avgRtt: number | null;
+  // RFC 3550 interarrival jitter in ms
+  jitter: number | null;
+  // How much the transit time changed between consecutive packets
+  histogram: JitterBucket[];
+}
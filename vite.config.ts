@@ -19,6 +19,12 @@ export default defineConfig({
     emptyOutDir: true,
   },
   server: {
+    proxy: {
+      "/ws": {
+        target: `ws://localhost:${process.env.PORT || 3001}`,
+        ws: true,
+      },
+    },
     fs: {
       strict: true,
       deny: ["**/.*"],